@@ -26,6 +26,7 @@ import { FC } from "react";
 import Redline from "@/pages/redline";
 import SubscriptionSuccess from "@/pages/subscription-success";
 import SubscriptionCancel from "./pages/subscription-cancel";
+import SignDocument from "@/pages/sign-document";
 
 const Router: FC = () => {
   return (
@@ -39,6 +40,7 @@ const Router: FC = () => {
       <Route path="/subscription" component={SubscriptionPage} />
       <Route path="/subscription/success" component={SubscriptionSuccess} />
       <Route path="/subscription/cancel" component={SubscriptionCancel} />
+      <Route path="/sign/:token" component={SignDocument} />
 
       {/* Protected routes with Layout */}
       <Route path="/dashboard">
@@ -1,26 +1,59 @@
 import { useState, useEffect as ReactuseEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { AlertTriangle, Check, AlertCircle, ChevronRight } from "lucide-react";
+import { AlertTriangle, Check, AlertCircle, ChevronRight, ThumbsDown, ThumbsUp } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
 
-interface Suggestion {
-  id: string;
+interface ClausePosition {
+  id: number;
+  position: "PREFERRED" | "ACCEPTABLE" | "WALK_AWAY";
   text: string;
-  riskScore: number;
-  category: string;
-  alternatives: string[];
+  notes: string | null;
+  usage: { inserted: number; acceptanceRate: number | null };
+}
+
+interface Suggestion {
+  id: number;
+  title: string;
+  clauseType: string;
+  riskLevel: "HIGH" | "MEDIUM" | "LOW";
+  guidance: string | null;
+  positions: ClausePosition[];
 }
 
+type UsageOutcome = "INSERTED" | "ACCEPTED" | "REJECTED";
+
 interface PredictiveSuggestionsProps {
   selectedText: string;
   onSuggestionSelect: (suggestion: string) => void;
+  // Recorded with each insertion and response so acceptance can be tracked per document
+  documentId?: number | string;
+  source?: "REDLINE" | "EDITOR";
+  jurisdiction?: string;
 }
 
-export function PredictiveSuggestions({ selectedText, onSuggestionSelect }: PredictiveSuggestionsProps) {
+const RISK_SCORES: Record<Suggestion["riskLevel"], number> = { LOW: 0.2, MEDIUM: 0.5, HIGH: 0.8 };
+
+const POSITION_LABELS: Record<ClausePosition["position"], string> = {
+  PREFERRED: "Preferred",
+  ACCEPTABLE: "Acceptable",
+  WALK_AWAY: "Walk-away",
+};
+
+export function PredictiveSuggestions({
+  selectedText,
+  onSuggestionSelect,
+  documentId,
+  source = "REDLINE",
+  jurisdiction,
+}: PredictiveSuggestionsProps) {
   const { toast } = useToast();
   const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
   const [loading, setLoading] = useState(false);
+  // Positions inserted while this panel is open, with the counterparty's
+  // response once it has been recorded
+  const [inserted, setInserted] = useState<Record<number, "ACCEPTED" | "REJECTED" | null>>({});
 
   const getRiskColor = (score: number) => {
     if (score <= 0.3) return "text-green-500";
@@ -34,30 +67,34 @@ export function PredictiveSuggestions({ selectedText, onSuggestionSelect }: Pred
     return <AlertTriangle className="h-4 w-4 text-red-500" />;
   };
 
-  // Mock suggestions for development
-  const getMockSuggestions = (text: string): Suggestion[] => {
-    return [
-      {
-        id: "1",
-        text: "Standard confidentiality clause with strict NDA terms",
-        riskScore: 0.2,
-        category: "Confidentiality",
-        alternatives: [
-          "Both parties agree to maintain strict confidentiality of all shared information",
-          "Confidential information shall be protected using industry standard measures"
-        ]
-      },
-      {
-        id: "2",
-        text: "Liability limitation with reasonable caps",
-        riskScore: 0.5,
-        category: "Liability",
-        alternatives: [
-          "Liability shall be limited to the total contract value",
-          "Each party's liability shall not exceed direct damages"
-        ]
-      }
-    ];
+  const recordUsage = (clause: Suggestion, position: ClausePosition, outcome: UsageOutcome) =>
+    apiRequest("POST", `/api/clause-library/${clause.id}/usage`, {
+      positionId: position.id,
+      documentId: documentId ? Number(documentId) : undefined,
+      source,
+      outcome,
+    });
+
+  const handleSelect = (clause: Suggestion, position: ClausePosition) => {
+    onSuggestionSelect(position.text);
+    recordUsage(clause, position, "INSERTED")
+      .then(() => setInserted((current) => ({ ...current, [position.id]: null })))
+      .catch((error) => console.error('Error recording clause usage:', error));
+  };
+
+  // The counterparty's answer is what ranks positions by acceptance
+  const handleResponse = async (clause: Suggestion, position: ClausePosition, outcome: "ACCEPTED" | "REJECTED") => {
+    try {
+      await recordUsage(clause, position, outcome);
+      setInserted((current) => ({ ...current, [position.id]: outcome }));
+    } catch (error) {
+      console.error('Error recording clause response:', error);
+      toast({
+        title: "Error",
+        description: "Failed to record the counterparty's response. Please try again.",
+        variant: "destructive",
+      });
+    }
   };
 
   // Fetch suggestions whenever selectedText changes
@@ -70,9 +107,12 @@ export function PredictiveSuggestions({ selectedText, onSuggestionSelect }: Pred
 
       setLoading(true);
       try {
-        // Use mock suggestions for development
-        const mockSuggestions = getMockSuggestions(selectedText);
-        setSuggestions(mockSuggestions);
+        const response = await apiRequest("POST", "/api/clause-library/suggest", {
+          text: selectedText.slice(0, 20000),
+          jurisdiction: jurisdiction || undefined,
+        });
+        const result = await response.json();
+        setSuggestions(result.clauses);
       } catch (error) {
         console.error('Error fetching suggestions:', error);
         toast({
@@ -89,14 +129,14 @@ export function PredictiveSuggestions({ selectedText, onSuggestionSelect }: Pred
     // Add a small delay to prevent rapid API calls during text selection
     const timeoutId = setTimeout(fetchSuggestions, 500);
     return () => clearTimeout(timeoutId);
-  }, [selectedText, toast]);
+  }, [selectedText, jurisdiction, toast]);
 
   return (
     <Card className="w-full bg-card">
       <CardHeader>
-        <CardTitle className="text-lg">Predictive Suggestions</CardTitle>
+        <CardTitle className="text-lg">Clause Library</CardTitle>
         <CardDescription>
-          AI-powered clause suggestions based on historical data
+          Approved clauses and fallback positions, ranked by how often they are accepted
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -112,33 +152,60 @@ export function PredictiveSuggestions({ selectedText, onSuggestionSelect }: Pred
             >
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-2">
-                  {getRiskIcon(suggestion.riskScore)}
-                  <span className="font-medium">{suggestion.category}</span>
+                  {getRiskIcon(RISK_SCORES[suggestion.riskLevel])}
+                  <span className="font-medium">{suggestion.title}</span>
                 </div>
-                <span className={`font-medium ${getRiskColor(suggestion.riskScore)}`}>
-                  Risk Score: {(suggestion.riskScore * 100).toFixed(0)}%
+                <span className={`font-medium ${getRiskColor(RISK_SCORES[suggestion.riskLevel])}`}>
+                  {suggestion.riskLevel} risk
                 </span>
               </div>
-              <p className="text-sm text-muted-foreground">{suggestion.text}</p>
+              {suggestion.guidance && (
+                <p className="text-sm text-muted-foreground">{suggestion.guidance}</p>
+              )}
               <div className="space-y-2">
-                <p className="text-sm font-medium">Alternative Clauses:</p>
-                {suggestion.alternatives.map((alt, index) => (
-                  <Button
-                    key={index}
-                    variant="outline"
-                    className="w-full justify-between text-left"
-                    onClick={() => onSuggestionSelect(alt)}
-                  >
-                    <span className="truncate">{alt}</span>
-                    <ChevronRight className="h-4 w-4 shrink-0 opacity-50" />
-                  </Button>
+                <p className="text-sm font-medium">Fallback Positions:</p>
+                {suggestion.positions.map((position) => (
+                  <div key={position.id} className="space-y-1">
+                    <Button
+                      variant="outline"
+                      className="w-full justify-between text-left"
+                      onClick={() => handleSelect(suggestion, position)}
+                    >
+                      <span className="truncate">
+                        <span className="font-medium">{POSITION_LABELS[position.position]}:</span> {position.text}
+                      </span>
+                      <span className="flex items-center gap-1 shrink-0 text-xs text-muted-foreground">
+                        {position.usage.acceptanceRate !== null && `${Math.round(position.usage.acceptanceRate * 100)}% accepted`}
+                        <ChevronRight className="h-4 w-4 opacity-50" />
+                      </span>
+                    </Button>
+                    {position.id in inserted && (
+                      <div className="flex items-center justify-end gap-2 text-xs text-muted-foreground">
+                        {inserted[position.id] ? (
+                          <span>Counterparty {inserted[position.id] === "ACCEPTED" ? "accepted" : "rejected"} this position</span>
+                        ) : (
+                          <>
+                            <span>Counterparty response:</span>
+                            <Button size="sm" variant="ghost" onClick={() => handleResponse(suggestion, position, "ACCEPTED")}>
+                              <ThumbsUp className="h-3 w-3 mr-1" />
+                              Accepted
+                            </Button>
+                            <Button size="sm" variant="ghost" onClick={() => handleResponse(suggestion, position, "REJECTED")}>
+                              <ThumbsDown className="h-3 w-3 mr-1" />
+                              Rejected
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    )}
+                  </div>
                 ))}
               </div>
             </div>
           ))
         ) : (
           <div className="text-center py-4 text-muted-foreground">
-            <p>Select text in the document to view suggestions</p>
+            <p>{selectedText.trim() ? "No approved clauses match the selected text" : "Select text in the document to view suggestions"}</p>
           </div>
         )}
       </CardContent>
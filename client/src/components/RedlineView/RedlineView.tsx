@@ -10,14 +10,23 @@ interface DiffSegment {
   removed?: boolean;
 }
 
+// Page boundaries returned by /api/redline/upload for PDFs
+interface PageBoundary {
+  pageNumber: number;
+  start: number;
+  end: number;
+}
+
 interface RedlineViewProps {
   originalText: string;
   proposedText: string;
+  originalPages?: PageBoundary[];
+  proposedPages?: PageBoundary[];
   onClear?: () => void;
   isLoading?: boolean;
 }
 
-export function RedlineView({ originalText, proposedText, onClear, isLoading }: RedlineViewProps) {
+export function RedlineView({ originalText, proposedText, originalPages, proposedPages, onClear, isLoading }: RedlineViewProps) {
   const [diffSegments, setDiffSegments] = useState<DiffSegment[]>([]);
   const { toast } = useToast();
 
@@ -25,14 +34,14 @@ export function RedlineView({ originalText, proposedText, onClear, isLoading }:
     if (originalText && proposedText) {
       highlightDifferences();
     }
-  }, [originalText, proposedText]);
+  }, [originalText, proposedText, originalPages, proposedPages]);
 
   const highlightDifferences = async () => {
     try {
       const response = await fetch("/api/redline", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ originalText, proposedText }),
+        body: JSON.stringify({ originalText, proposedText, originalPages, proposedPages }),
       });
 
       if (!response.ok) throw new Error("Failed to process diff");
@@ -18,6 +18,7 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { LegalLoadingAnimation } from "@/components/ui/loading-animation";
+import { PredictiveSuggestions } from "@/components/ContractRedlining/PredictiveSuggestions";
 import {
   FileText,
   History,
@@ -118,6 +119,7 @@ export const ContractEditor: React.FC<ContractEditorProps> = ({
   const [selectedEdit, setSelectedEdit] = useState<SuggestedEdit | null>(null);
   const [selectedSuggestion, setSelectedSuggestion] = useState<AISuggestion | null>(null);
   const [isLoadingSuggestions, setIsLoadingSuggestions] = useState(false);
+  const [draftSelection, setDraftSelection] = useState({ start: 0, end: 0, text: "" });
 
   const standardRequirements = [
     "Include non-disclosure agreement",
@@ -200,7 +202,7 @@ export const ContractEditor: React.FC<ContractEditorProps> = ({
     }
   };
 
-  const isApproved = analysis.contractDetails?.workflowState?.status === "APPROVED";
+  const isApproved = analysis.contractDetails?.workflowState?.approvalStatus === "APPROVED";
 
   const { data: users } = useQuery({
     queryKey: ["/api/users"],
@@ -230,6 +232,13 @@ export const ContractEditor: React.FC<ContractEditorProps> = ({
     }
   }, [editableDraft]);
 
+  // Replaces the selected draft text with a clause from the clause library
+  const handleInsertClause = (clauseText: string) => {
+    setEditableDraft(prev => prev.substring(0, draftSelection.start) + clauseText + prev.substring(draftSelection.end));
+    setDraftSelection({ start: draftSelection.start, end: draftSelection.start + clauseText.length, text: "" });
+    setHasUnsavedChanges(true);
+  };
+
   const handleSaveDraft = async () => {
     try {
       const response = await apiRequest("POST", `/api/documents/${documentId}/workflow`, {
@@ -689,15 +698,27 @@ export const ContractEditor: React.FC<ContractEditorProps> = ({
                   </Button>
                 </div>
               </div>
-              <Textarea
-                value={editableDraft}
-                onChange={(e) => {
-                  setEditableDraft(e.target.value);
-                  setHasUnsavedChanges(true);
-                }}
-                className="min-h-[500px] font-mono text-sm"
-                placeholder="Generated contract draft will appear here..."
-              />
+              <div className="grid grid-cols-3 gap-6">
+                <Textarea
+                  value={editableDraft}
+                  onChange={(e) => {
+                    setEditableDraft(e.target.value);
+                    setHasUnsavedChanges(true);
+                  }}
+                  onSelect={(e) => {
+                    const { selectionStart, selectionEnd, value } = e.currentTarget;
+                    setDraftSelection({ start: selectionStart, end: selectionEnd, text: value.substring(selectionStart, selectionEnd) });
+                  }}
+                  className="col-span-2 min-h-[500px] font-mono text-sm"
+                  placeholder="Generated contract draft will appear here..."
+                />
+                <PredictiveSuggestions
+                  selectedText={draftSelection.text}
+                  onSuggestionSelect={handleInsertClause}
+                  documentId={documentId}
+                  source="EDITOR"
+                />
+              </div>
             </div>
           </TabsContent>
         )}
@@ -163,7 +163,8 @@ export default function Redline() {
     });
   };
 
-  const downloadAsPDF = async () => {
+  const exportDocument = async (format: 'pdf' | 'docx') => {
+    const label = format === 'docx' ? 'Word' : 'PDF';
     try {
       // Commit any pending buffered deletion before export
       if (bufferedDeletion) {
@@ -177,7 +178,8 @@ export default function Redline() {
         },
         body: JSON.stringify({
           content,
-          changes
+          changes,
+          format
         })
       });
 
@@ -187,7 +189,7 @@ export default function Redline() {
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = 'document-with-changes.pdf';
+      a.download = `document-with-changes.${format}`;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
@@ -195,12 +197,12 @@ export default function Redline() {
 
       toast({
         title: "Success",
-        description: "Document exported as PDF",
+        description: `Document exported as ${label}`,
       });
     } catch (error) {
       toast({
         title: "Export failed",
-        description: "Could not export document to PDF",
+        description: `Could not export document to ${label}`,
         variant: "destructive",
       });
     }
@@ -220,12 +222,19 @@ export default function Redline() {
             {showHistory ? "Hide History" : "Show History"}
           </Button>
           <Button 
-            onClick={downloadAsPDF}
+            onClick={() => exportDocument('pdf')}
             className="bg-gray-800 hover:bg-gray-700 text-white"
           >
             <Download className="h-4 w-4 mr-2" />
             Export as PDF
           </Button>
+          <Button 
+            onClick={() => exportDocument('docx')}
+            className="bg-gray-800 hover:bg-gray-700 text-white"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export as Word
+          </Button>
         </div>
       </div>
 
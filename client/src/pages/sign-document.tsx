@@ -0,0 +1,213 @@
+import { useEffect, useRef, useState, type PointerEvent } from "react";
+import { useParams } from "wouter";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { CheckCircle2, Loader2, XCircle } from "lucide-react";
+
+interface SigningSession {
+  envelope: {
+    id: number;
+    subject: string | null;
+    message: string | null;
+    expiresAt: string;
+    documentHash: string;
+  };
+  signer: { name: string | null; email: string | null };
+  document: { id: number; title: string; content: string };
+}
+
+type PageState = "loading" | "ready" | "signed" | "declined" | "error";
+
+// Public page reached from the one-time link in a signing invitation
+export default function SignDocument() {
+  const { token } = useParams<{ token: string }>();
+  const [state, setState] = useState<PageState>("loading");
+  const [session, setSession] = useState<SigningSession | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<"typed" | "drawn">("typed");
+  const [typedName, setTypedName] = useState("");
+  const [hasDrawing, setHasDrawing] = useState(false);
+  const [consent, setConsent] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+
+  useEffect(() => {
+    const loadSession = async () => {
+      try {
+        const response = await fetch(`/api/sign/${token}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "This signing link is no longer valid");
+        }
+        setSession(data);
+        setTypedName(data.signer.name ?? "");
+        setState("ready");
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load signing request");
+        setState("error");
+      }
+    };
+
+    loadSession();
+  }, [token]);
+
+  const pointerPosition = (event: PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const startStroke = (event: PointerEvent<HTMLCanvasElement>) => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!context) return;
+    const { x, y } = pointerPosition(event);
+    context.lineWidth = 2;
+    context.lineCap = "round";
+    context.beginPath();
+    context.moveTo(x, y);
+    drawing.current = true;
+  };
+
+  const continueStroke = (event: PointerEvent<HTMLCanvasElement>) => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!drawing.current || !context) return;
+    const { x, y } = pointerPosition(event);
+    context.lineTo(x, y);
+    context.stroke();
+    setHasDrawing(true);
+  };
+
+  const clearDrawing = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasDrawing(false);
+  };
+
+  const submit = async (action: "sign" | "decline") => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const body = action === "decline"
+        ? {}
+        : {
+            consent,
+            signature: mode === "typed"
+              ? { type: "typed", name: typedName }
+              : { type: "drawn", image: canvasRef.current!.toDataURL("image/png") },
+          };
+
+      const response = await fetch(`/api/sign/${token}${action === "decline" ? "/decline" : ""}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to submit");
+      }
+      setState(action === "decline" ? "declined" : "signed");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to submit");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (state === "loading") {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-gray-500" />
+      </div>
+    );
+  }
+
+  if (state !== "ready" || !session) {
+    const signed = state === "signed";
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+        <Card className="w-full max-w-md p-8 text-center space-y-4">
+          {signed
+            ? <CheckCircle2 className="h-12 w-12 text-green-500 mx-auto" />
+            : <XCircle className="h-12 w-12 text-gray-400 mx-auto" />}
+          <h1 className="text-xl font-semibold">
+            {signed ? "Thank you for signing" : state === "declined" ? "You declined to sign" : "Signing unavailable"}
+          </h1>
+          <p className="text-gray-500">
+            {signed
+              ? "Your signature has been recorded. The sender will be notified once everyone has signed."
+              : state === "declined" ? "The sender has been notified." : error}
+          </p>
+        </Card>
+      </div>
+    );
+  }
+
+  const ready = consent && (mode === "typed" ? typedName.trim().length > 0 : hasDrawing);
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <div className="max-w-3xl mx-auto space-y-4">
+        <Card className="p-6 space-y-2">
+          <h1 className="text-2xl font-bold">{session.envelope.subject || session.document.title}</h1>
+          {session.envelope.message && <p className="text-gray-600">{session.envelope.message}</p>}
+          <p className="text-xs text-gray-400">
+            Expires {new Date(session.envelope.expiresAt).toLocaleString()} · SHA-256 {session.envelope.documentHash}
+          </p>
+        </Card>
+
+        <Card className="p-6 max-h-[50vh] overflow-y-auto">
+          <h2 className="font-semibold mb-2">{session.document.title}</h2>
+          <pre className="whitespace-pre-wrap font-serif text-sm">{session.document.content}</pre>
+        </Card>
+
+        <Card className="p-6 space-y-4">
+          <Tabs value={mode} onValueChange={(value) => setMode(value as "typed" | "drawn")}>
+            <TabsList>
+              <TabsTrigger value="typed">Type</TabsTrigger>
+              <TabsTrigger value="drawn">Draw</TabsTrigger>
+            </TabsList>
+            <TabsContent value="typed" className="space-y-2">
+              <Label htmlFor="typed-name">Full name</Label>
+              <Input id="typed-name" value={typedName} onChange={(e) => setTypedName(e.target.value)} />
+              {typedName && <p className="font-serif italic text-3xl">{typedName}</p>}
+            </TabsContent>
+            <TabsContent value="drawn" className="space-y-2">
+              <canvas
+                ref={canvasRef}
+                width={500}
+                height={150}
+                className="border rounded bg-white touch-none"
+                onPointerDown={startStroke}
+                onPointerMove={continueStroke}
+                onPointerUp={() => (drawing.current = false)}
+                onPointerLeave={() => (drawing.current = false)}
+              />
+              <Button variant="outline" size="sm" onClick={clearDrawing}>Clear</Button>
+            </TabsContent>
+          </Tabs>
+
+          <div className="flex items-center gap-2">
+            <Checkbox id="consent" checked={consent} onCheckedChange={(checked) => setConsent(checked === true)} />
+            <Label htmlFor="consent">I agree to sign this document electronically</Label>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex gap-2 justify-end">
+            <Button variant="outline" disabled={submitting} onClick={() => submit("decline")}>
+              Decline
+            </Button>
+            <Button disabled={!ready || submitting} onClick={() => submit("sign")}>
+              {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Sign
+            </Button>
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -5,13 +5,24 @@ import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { db } from "./db";
-import { users } from "@shared/schema";
+import { users, type User as SelectUser, type UserRole } from "@shared/schema";
 import { eq } from "drizzle-orm";
 import debug from "debug";
 
+declare global {
+  namespace Express {
+    // What passport puts on req.user once a session is deserialized
+    interface User extends SelectUser {}
+  }
+}
+
 const log = debug("app:auth");
 const scryptAsync = promisify(scrypt);
 
+// Self-registered accounts start with the least privileged RBAC role; staff
+// roles are granted by an administrator
+const REGISTERED_ROLE: UserRole = "CLIENT";
+
 // Configure passport serialization
 passport.serializeUser((user: any, done) => {
   done(null, user.id);
@@ -158,7 +169,7 @@ export function setupAuth(app: Express) {
           username,
           password: hashedPassword,
           email,
-          role: 'USER'
+          role: REGISTERED_ROLE
         })
         .returning();
 
@@ -177,7 +188,7 @@ export function setupAuth(app: Express) {
   });
 
   app.post("/api/auth/logout", (req, res) => {
-    const username = (req.user as any)?.username;
+    const username = req.user?.username;
     req.logout((err) => {
       if (err) {
         log("Logout error:", err);
@@ -201,10 +212,10 @@ export function setupAuth(app: Express) {
     res.json({ 
       success: true, 
       user: {
-        id: (req.user as any).id,
-        username: (req.user as any).username,
-        email: (req.user as any).email,
-        role: (req.user as any).role
+        id: req.user!.id,
+        username: req.user!.username,
+        email: req.user!.email,
+        role: req.user!.role
       }
     });
   });
@@ -1,5 +1,672 @@
-import { TemplateCategory } from "@shared/schema";
+import { TemplateCategory, type TemplateVariable, type TemplateVariableType } from "@shared/schema";
 
+export interface BuiltinTemplate {
+  id: string;
+  name: string;
+  description: string;
+  category: TemplateCategory;
+  baseContent: string;
+  // Untyped variables are text
+  variables: Array<Omit<TemplateVariable, "type"> & { type?: TemplateVariableType }>;
+  metadata: {
+    industry?: string;
+    jurisdiction?: string;
+    lastUpdated: string;
+  };
+}
+
+// Complete built-in templates, keyed by the ids earlier contracts were
+// generated with. Seeded into the shared template library on startup.
+export const builtinTemplates: Record<string, BuiltinTemplate> = {
+  "employment-standard": {
+    id: "employment-standard",
+    name: "Standard Employment Agreement",
+    description: "A comprehensive employment contract suitable for most business contexts",
+    category: "EMPLOYMENT",
+    baseContent: `
+EMPLOYMENT AGREEMENT
+
+This Employment Agreement (the "Agreement") is entered into as of [START_DATE], by and between:
+
+[COMPANY_NAME] ("Employer"), a company organized under the laws of [JURISDICTION], with its principal place of business at [COMPANY_ADDRESS]
+
+and
+
+[EMPLOYEE_NAME] ("Employee"), residing at [EMPLOYEE_ADDRESS].
+
+1. POSITION AND DUTIES
+   The Employee will be employed as [POSITION_TITLE]. The Employee's duties include: [JOB_DUTIES]
+
+2. COMPENSATION
+   Base Salary: [BASE_SALARY]
+   Payment Schedule: [PAYMENT_SCHEDULE]
+   Benefits: [BENEFITS_DESCRIPTION]
+
+3. TERM AND TERMINATION
+   Start Date: [START_DATE]
+   Notice Period: [NOTICE_PERIOD]
+[#IF PROBATION_MONTHS > 0]
+   The first [PROBATION_MONTHS] months of employment are a probationary period, during which either party may end the employment on one week's notice.
+[/IF]
+
+4. CONFIDENTIALITY
+   The Employee agrees to maintain the confidentiality of the Employer's proprietary information...`,
+    variables: [
+      { name: "START_DATE", description: "Employment start date", required: true, type: "date" },
+      { name: "COMPANY_NAME", description: "Legal name of the employer", required: true },
+      { name: "JURISDICTION", description: "State or country the employer is organized in", required: true, type: "jurisdiction" },
+      { name: "EMPLOYEE_NAME", description: "Full name of the employee", required: true },
+      { name: "POSITION_TITLE", description: "Job title or position", required: true },
+      { name: "BASE_SALARY", description: "Annual or monthly base salary", required: true, type: "currency", min: 0 },
+      { name: "PROBATION_MONTHS", description: "Length of the probationary period, if any", required: false, type: "number", min: 0, max: 12 }
+    ],
+    metadata: {
+      industry: "All",
+      jurisdiction: "United States",
+      lastUpdated: "2025-02-07"
+    }
+  },
+  "employment-executive": {
+    id: "employment-executive",
+    name: "Executive Employment Agreement",
+    description: "Specialized employment agreement for C-level and executive positions",
+    category: "EMPLOYMENT",
+    baseContent: `EXECUTIVE EMPLOYMENT AGREEMENT
+
+This Executive Employment Agreement (the "Agreement") is made and entered into as of [START_DATE], by and between:
+
+[COMPANY_NAME] ("Company"), and
+[EXECUTIVE_NAME] ("Executive")
+
+1. POSITION AND DUTIES
+   The Executive shall serve as [POSITION_TITLE] and shall have the duties and responsibilities commensurate with such position.
+
+2. COMPENSATION AND BENEFITS
+   2.1 Base Salary: [BASE_SALARY]
+   2.2 Performance Bonus: [BONUS_STRUCTURE]
+   2.3 Equity Compensation: [EQUITY_TERMS]
+   2.4 Executive Benefits Package: [BENEFITS_PACKAGE]
+
+3. TERM AND TERMINATION
+   3.1 Term: [TERM_LENGTH]
+   3.2 Severance: [SEVERANCE_TERMS]
+
+4. NON-COMPETE AND CONFIDENTIALITY
+   [NON_COMPETE_TERMS]`,
+    variables: [
+      { name: "EXECUTIVE_NAME", description: "Full name of the executive", required: true },
+      { name: "POSITION_TITLE", description: "Executive position title", required: true },
+      { name: "BASE_SALARY", description: "Annual base salary", required: true },
+      { name: "BONUS_STRUCTURE", description: "Performance bonus terms", required: true },
+      { name: "EQUITY_TERMS", description: "Stock options or equity compensation details", required: true }
+    ],
+    metadata: {
+      industry: "All",
+      jurisdiction: "United States",
+      lastUpdated: "2025-02-07"
+    }
+  },
+  "nda-standard": {
+    id: "nda-standard",
+    name: "Standard Non-Disclosure Agreement",
+    description: "A comprehensive NDA for protecting confidential information",
+    category: "NDA",
+    baseContent: `
+NON-DISCLOSURE AGREEMENT
+
+This Non-Disclosure Agreement (the "Agreement") is entered into as of [EFFECTIVE_DATE] between:
+
+[DISCLOSING_PARTY] ("Disclosing Party")
+and
+[RECEIVING_PARTY] ("Receiving Party")
+
+1. CONFIDENTIAL INFORMATION
+   Definition: [CONFIDENTIAL_INFO_DEFINITION]
+
+2. PURPOSE
+   The Receiving Party shall use the Confidential Information only for: [PURPOSE]
+
+3. TERM
+   This Agreement shall remain in effect for: [DURATION]
+
+4. PROTECTION OF CONFIDENTIAL INFORMATION
+   The Receiving Party agrees to:
+   a) Maintain the confidentiality of the Disclosing Party's Confidential Information
+   b) Use reasonable care to prevent disclosure
+   c) Notify the Disclosing Party of any unauthorized disclosure`,
+    variables: [
+      { name: "EFFECTIVE_DATE", description: "Agreement start date", required: true },
+      { name: "DISCLOSING_PARTY", description: "Party sharing confidential information", required: true },
+      { name: "RECEIVING_PARTY", description: "Party receiving confidential information", required: true },
+      { name: "PURPOSE", description: "Purpose of sharing confidential information", required: true }
+    ],
+    metadata: {
+      industry: "All",
+      jurisdiction: "United States",
+      lastUpdated: "2025-02-07"
+    }
+  },
+  "nda-mutual": {
+    id: "nda-mutual",
+    name: "Mutual Non-Disclosure Agreement",
+    description: "Bilateral NDA for mutual information exchange",
+    category: "NDA",
+    baseContent: `MUTUAL NON-DISCLOSURE AGREEMENT
+
+This Mutual Non-Disclosure Agreement (the "Agreement") is entered into as of [EFFECTIVE_DATE] between:
+
+[PARTY_ONE_NAME] ("Party One") and
+[PARTY_TWO_NAME] ("Party Two")
+
+1. MUTUAL EXCHANGE
+   Both parties agree to exchange confidential information for: [PURPOSE]
+
+2. CONFIDENTIAL INFORMATION
+   [CONFIDENTIAL_INFO_DEFINITION]
+
+3. MUTUAL OBLIGATIONS
+   Each party agrees to:
+   a) Maintain strict confidentiality
+   b) Use information only for [PERMITTED_USE]
+   c) Implement security measures
+
+4. TERM AND TERMINATION
+   [DURATION] from the Effective Date`,
+    variables: [
+      { name: "PARTY_ONE_NAME", description: "Name of first party", required: true },
+      { name: "PARTY_TWO_NAME", description: "Name of second party", required: true },
+      { name: "PURPOSE", description: "Purpose of information exchange", required: true },
+      { name: "PERMITTED_USE", description: "Allowed uses of confidential information", required: true }
+    ],
+    metadata: {
+      industry: "All",
+      jurisdiction: "United States",
+      lastUpdated: "2025-02-07"
+    }
+  },
+  "ip-license": {
+    id: "ip-license",
+    name: "Intellectual Property License Agreement",
+    description: "License agreement for intellectual property rights",
+    category: "INTELLECTUAL_PROPERTY",
+    baseContent: `INTELLECTUAL PROPERTY LICENSE AGREEMENT
+
+This License Agreement (the "Agreement") is made effective as of [EFFECTIVE_DATE] by and between:
+
+[LICENSOR_NAME] ("Licensor") and
+[LICENSEE_NAME] ("Licensee")
+
+1. LICENSED IP
+   [IP_DESCRIPTION]
+
+2. GRANT OF RIGHTS
+   2.1 Scope: [LICENSE_SCOPE]
+   2.2 Territory: [TERRITORY]
+   2.3 Term: [LICENSE_TERM]
+
+3. ROYALTIES AND PAYMENTS
+   [PAYMENT_TERMS]
+
+4. OWNERSHIP AND IMPROVEMENTS
+   [IP_OWNERSHIP_TERMS]`,
+    variables: [
+      { name: "LICENSOR_NAME", description: "Name of the IP owner", required: true },
+      { name: "LICENSEE_NAME", description: "Name of the party receiving the license", required: true },
+      { name: "IP_DESCRIPTION", description: "Description of the intellectual property", required: true },
+      { name: "LICENSE_SCOPE", description: "Scope of the license grant", required: true },
+      { name: "PAYMENT_TERMS", description: "Royalty and payment structure", required: true }
+    ],
+    metadata: {
+      industry: "Technology",
+      jurisdiction: "United States",
+      lastUpdated: "2025-02-07"
+    }
+  },
+  "saas-agreement": {
+    id: "saas-agreement",
+    name: "SaaS Subscription Agreement",
+    description: "Software as a Service subscription agreement",
+    category: "SERVICE_AGREEMENT",
+    baseContent: `SOFTWARE AS A SERVICE AGREEMENT
+
+This SaaS Agreement (the "Agreement") is entered into as of [EFFECTIVE_DATE] between:
+
+[PROVIDER_NAME] ("Provider") and
+[CUSTOMER_NAME] ("Customer")
+
+1. SERVICES
+   1.1 Description: [SERVICE_DESCRIPTION]
+   1.2 Service Levels: [SLA_TERMS]
+
+2. SUBSCRIPTION
+   2.1 Term: [SUBSCRIPTION_TERM]
+   2.2 Fees: [SUBSCRIPTION_FEES]
+
+3. DATA PROTECTION
+   [DATA_PROTECTION_TERMS]
+
+4. SUPPORT AND MAINTENANCE
+   [SUPPORT_TERMS]`,
+    variables: [
+      { name: "PROVIDER_NAME", description: "Name of the SaaS provider", required: true },
+      { name: "CUSTOMER_NAME", description: "Name of the customer", required: true },
+      { name: "SERVICE_DESCRIPTION", description: "Description of SaaS services", required: true },
+      { name: "SUBSCRIPTION_FEES", description: "Pricing and payment terms", required: true },
+      { name: "SLA_TERMS", description: "Service level agreement terms", required: true }
+    ],
+    metadata: {
+      industry: "Technology",
+      jurisdiction: "United States",
+      lastUpdated: "2025-02-07"
+    }
+  },
+  "service-agreement": {
+    id: "service-agreement",
+    name: "Professional Service Agreement",
+    description: "Standard service agreement for professional services",
+    category: "SERVICE_AGREEMENT",
+    baseContent: `
+SERVICE AGREEMENT
+
+This Service Agreement (the "Agreement") is entered into as of [EFFECTIVE_DATE] between:
+
+[SERVICE_PROVIDER] ("Provider")
+and
+[CLIENT_NAME] ("Client")
+
+1. SERVICES
+   The Provider agrees to provide the following services: [SERVICES_DESCRIPTION]
+
+2. COMPENSATION
+   2.1 Service Fees: [SERVICE_FEES]
+   2.2 Payment Terms: [PAYMENT_TERMS]
+
+3. TERM AND TERMINATION
+   3.1 Term: [CONTRACT_TERM]
+   3.2 Termination: [TERMINATION_TERMS]
+
+4. DELIVERABLES
+   The Provider shall deliver: [DELIVERABLES]
+
+5. WARRANTIES
+   The Provider warrants that: [WARRANTY_TERMS]`,
+    variables: [
+      { name: "EFFECTIVE_DATE", description: "Contract start date", required: true },
+      { name: "SERVICE_PROVIDER", description: "Name of the service provider", required: true },
+      { name: "CLIENT_NAME", description: "Name of the client", required: true },
+      { name: "SERVICES_DESCRIPTION", description: "Detailed description of services", required: true },
+      { name: "SERVICE_FEES", description: "Fee structure for services", required: true }
+    ],
+    metadata: {
+      industry: "Professional Services",
+      jurisdiction: "United States",
+      lastUpdated: "2025-02-07"
+    }
+  },
+  "real-estate-lease": {
+    id: "real-estate-lease",
+    name: "Commercial Real Estate Lease",
+    description: "Comprehensive commercial property lease agreement",
+    category: "REAL_ESTATE",
+    baseContent: `
+COMMERCIAL LEASE AGREEMENT
+
+This Commercial Lease Agreement (the "Lease") is made as of [EFFECTIVE_DATE] by and between:
+
+[LANDLORD_NAME] ("Landlord") and
+[TENANT_NAME] ("Tenant")
+
+1. PREMISES
+   Property Address: [PROPERTY_ADDRESS]
+   Square Footage: [SQUARE_FOOTAGE]
+   Permitted Use: [PERMITTED_USE]
+
+2. LEASE TERM
+   Commencement Date: [START_DATE]
+   Termination Date: [END_DATE]
+
+3. RENT AND EXPENSES
+   Base Rent: [BASE_RENT]
+   Security Deposit: [SECURITY_DEPOSIT]
+   Additional Expenses: [ADDITIONAL_EXPENSES]
+
+4. MAINTENANCE AND REPAIRS
+   [MAINTENANCE_TERMS]
+
+5. IMPROVEMENTS AND ALTERATIONS
+   [IMPROVEMENT_TERMS]
+`,
+    variables: [
+      { name: "LANDLORD_NAME", description: "Legal name of the property owner", required: true },
+      { name: "TENANT_NAME", description: "Legal name of the tenant", required: true },
+      { name: "PROPERTY_ADDRESS", description: "Full address of the leased property", required: true },
+      { name: "BASE_RENT", description: "Monthly base rent amount", required: true }
+    ],
+    metadata: {
+      industry: "Real Estate",
+      jurisdiction: "United States",
+      lastUpdated: "2025-02-07"
+    }
+  },
+  "partnership-agreement": {
+    id: "partnership-agreement",
+    name: "General Partnership Agreement",
+    description: "Formal partnership agreement for business ventures",
+    category: "BUSINESS",
+    baseContent: `
+PARTNERSHIP AGREEMENT
+
+This Partnership Agreement (the "Agreement") is made on [EFFECTIVE_DATE] by and between:
+[PARTNER_NAMES] (collectively, the "Partners")
+
+1. PARTNERSHIP FORMATION
+   Partnership Name: [PARTNERSHIP_NAME]
+   Principal Place of Business: [BUSINESS_ADDRESS]
+   Purpose: [PARTNERSHIP_PURPOSE]
+
+2. CAPITAL CONTRIBUTIONS
+   Initial Contributions: [CAPITAL_CONTRIBUTIONS]
+   Profit/Loss Sharing: [PROFIT_SHARING]
+
+3. MANAGEMENT
+   Management Structure: [MANAGEMENT_STRUCTURE]
+   Voting Rights: [VOTING_RIGHTS]
+
+4. DISSOLUTION
+   Dissolution Terms: [DISSOLUTION_TERMS]
+`,
+    variables: [
+      { name: "PARTNER_NAMES", description: "Names of all partners", required: true },
+      { name: "PARTNERSHIP_NAME", description: "Legal name of the partnership", required: true },
+      { name: "CAPITAL_CONTRIBUTIONS", description: "Initial capital contributions of each partner", required: true }
+    ],
+    metadata: {
+      industry: "Business",
+      jurisdiction: "United States",
+      lastUpdated: "2025-02-07"
+    }
+  },
+  "consulting-agreement": {
+    id: "consulting-agreement",
+    name: "Professional Consulting Agreement",
+    description: "Agreement for professional consulting services",
+    category: "SERVICE_AGREEMENT",
+    baseContent: `
+CONSULTING SERVICES AGREEMENT
+
+This Consulting Agreement is entered into on [EFFECTIVE_DATE] between:
+[CONSULTANT_NAME] ("Consultant") and
+[CLIENT_NAME] ("Client")
+
+1. SERVICES
+   Scope of Services: [SERVICE_SCOPE]
+   Deliverables: [DELIVERABLES]
+
+2. COMPENSATION
+   Fee Structure: [FEE_STRUCTURE]
+   Payment Schedule: [PAYMENT_SCHEDULE]
+
+3. TERM AND TERMINATION
+   Term: [AGREEMENT_TERM]
+   Termination Conditions: [TERMINATION_CONDITIONS]
+
+4. INTELLECTUAL PROPERTY
+   [IP_TERMS]
+`,
+    variables: [
+      { name: "CONSULTANT_NAME", description: "Name of the consultant or consulting firm", required: true },
+      { name: "CLIENT_NAME", description: "Name of the client", required: true },
+      { name: "SERVICE_SCOPE", description: "Detailed scope of consulting services", required: true }
+    ],
+    metadata: {
+      industry: "Professional Services",
+      jurisdiction: "United States",
+      lastUpdated: "2025-02-07"
+    }
+  },
+  "merger-acquisition-standard": {
+    id: "merger-acquisition-standard",
+    name: "Standard Merger & Acquisition Agreement",
+    description: "Comprehensive agreement for standard merger and acquisition transactions",
+    category: "BUSINESS",
+    baseContent: `
+MERGER AND ACQUISITION AGREEMENT
+
+This Merger and Acquisition Agreement (the "Agreement") is made and entered into as of [EFFECTIVE_DATE], by and between:
+
+[ACQUIRING_COMPANY] ("Acquirer"), a corporation organized under the laws of [ACQUIRER_JURISDICTION]
+
+and
+
+[TARGET_COMPANY] ("Target"), a corporation organized under the laws of [TARGET_JURISDICTION]
+
+1. THE MERGER
+   1.1 The Merger. Upon the terms and subject to the conditions set forth in this Agreement, at the Effective Time, Target shall merge with and into Acquirer (the "Merger").
+   1.2 Effective Time: [EFFECTIVE_TIME]
+   1.3 Effects of the Merger: [MERGER_EFFECTS]
+
+2. CONSIDERATION
+   2.1 Merger Consideration: [MERGER_CONSIDERATION]
+   2.2 Payment Terms: [PAYMENT_TERMS]
+   2.3 Exchange Ratio: [EXCHANGE_RATIO]
+
+3. REPRESENTATIONS AND WARRANTIES
+   3.1 Target Representations: [TARGET_REPRESENTATIONS]
+   3.2 Acquirer Representations: [ACQUIRER_REPRESENTATIONS]
+
+4. CONDITIONS TO CLOSING
+   4.1 Conditions: [CLOSING_CONDITIONS]
+   4.2 Due Diligence: [DUE_DILIGENCE_TERMS]
+
+5. COVENANTS
+   5.1 Conduct of Business: [BUSINESS_CONDUCT]
+   5.2 Regulatory Approvals: [REGULATORY_REQUIREMENTS]
+
+6. TERMINATION
+   6.1 Termination Rights: [TERMINATION_RIGHTS]
+   6.2 Effect of Termination: [TERMINATION_EFFECTS]`,
+    variables: [
+      { name: "EFFECTIVE_DATE", description: "Date of agreement execution", required: true },
+      { name: "ACQUIRING_COMPANY", description: "Legal name of acquiring company", required: true },
+      { name: "TARGET_COMPANY", description: "Legal name of target company", required: true },
+      { name: "MERGER_CONSIDERATION", description: "Total consideration for the merger", required: true },
+      { name: "EXCHANGE_RATIO", description: "Share exchange ratio for stock consideration", required: true }
+    ],
+    metadata: {
+      industry: "All",
+      jurisdiction: "United States",
+      lastUpdated: "2025-02-14"
+    }
+  },
+  "asset-purchase-agreement": {
+    id: "asset-purchase-agreement",
+    name: "Asset Purchase Agreement",
+    description: "Template for the purchase of specific assets or business units",
+    category: "BUSINESS",
+    baseContent: `
+ASSET PURCHASE AGREEMENT
+
+This Asset Purchase Agreement (the "Agreement") is made as of [EFFECTIVE_DATE] between:
+
+[SELLER_NAME] ("Seller")
+and
+[BUYER_NAME] ("Buyer")
+
+1. ASSETS TO BE PURCHASED
+   1.1 Purchased Assets: [PURCHASED_ASSETS]
+   1.2 Excluded Assets: [EXCLUDED_ASSETS]
+
+2. PURCHASE PRICE AND PAYMENT
+   2.1 Purchase Price: [PURCHASE_PRICE]
+   2.2 Payment Terms: [PAYMENT_TERMS]
+   2.3 Adjustments: [PRICE_ADJUSTMENTS]
+
+3. LIABILITIES
+   3.1 Assumed Liabilities: [ASSUMED_LIABILITIES]
+   3.2 Excluded Liabilities: [EXCLUDED_LIABILITIES]
+
+4. REPRESENTATIONS AND WARRANTIES
+   4.1 Seller's Representations: [SELLER_REPRESENTATIONS]
+   4.2 Buyer's Representations: [BUYER_REPRESENTATIONS]
+
+5. CLOSING CONDITIONS
+   5.1 Due Diligence: [DUE_DILIGENCE]
+   5.2 Required Approvals: [REQUIRED_APPROVALS]`,
+    variables: [
+      { name: "SELLER_NAME", description: "Legal name of the selling entity", required: true },
+      { name: "BUYER_NAME", description: "Legal name of the buying entity", required: true },
+      { name: "PURCHASED_ASSETS", description: "Detailed description of assets being purchased", required: true },
+      { name: "PURCHASE_PRICE", description: "Total purchase price for the assets", required: true },
+      { name: "PAYMENT_TERMS", description: "Terms and schedule of payment", required: true }
+    ],
+    metadata: {
+      industry: "All",
+      jurisdiction: "United States",
+      lastUpdated: "2025-02-14"
+    }
+  },
+  "stock-purchase-agreement": {
+    id: "stock-purchase-agreement",
+    name: "Stock Purchase Agreement",
+    description: "Agreement for the purchase of company stock or equity interests",
+    category: "BUSINESS",
+    baseContent: `
+STOCK PURCHASE AGREEMENT
+
+This Stock Purchase Agreement (the "Agreement") is made as of [EFFECTIVE_DATE] between:
+
+[SELLER_NAME] ("Seller")
+and
+[PURCHASER_NAME] ("Purchaser")
+
+1. STOCK PURCHASE
+   1.1 Shares Being Sold: [SHARES_DESCRIPTION]
+   1.2 Purchase Price: [SHARE_PRICE]
+   1.3 Payment Method: [PAYMENT_METHOD]
+
+2. REPRESENTATIONS AND WARRANTIES
+   2.1 Seller's Representations: [SELLER_REPS]
+   2.2 Company Representations: [COMPANY_REPS]
+   2.3 Purchaser's Representations: [PURCHASER_REPS]
+
+3. CLOSING CONDITIONS
+   3.1 Conditions Precedent: [CONDITIONS_PRECEDENT]
+   3.2 Closing Deliverables: [CLOSING_DELIVERABLES]
+
+4. POST-CLOSING COVENANTS
+   4.1 Non-Compete: [NON_COMPETE_TERMS]
+   4.2 Transition Services: [TRANSITION_SERVICES]
+
+5. INDEMNIFICATION
+   5.1 Seller's Indemnification: [SELLER_INDEMNIFICATION]
+   5.2 Purchaser's Indemnification: [PURCHASER_INDEMNIFICATION]`,
+    variables: [
+      { name: "SELLER_NAME", description: "Name of the selling shareholder(s)", required: true },
+      { name: "PURCHASER_NAME", description: "Name of the stock purchaser", required: true },
+      { name: "SHARES_DESCRIPTION", description: "Description of shares being sold", required: true },
+      { name: "SHARE_PRICE", description: "Price per share or total price", required: true },
+      { name: "CONDITIONS_PRECEDENT", description: "Conditions that must be met before closing", required: true }
+    ],
+    metadata: {
+      industry: "All",
+      jurisdiction: "United States",
+      lastUpdated: "2025-02-14"
+    }
+  }
+};
+
+// Engagement agreement for a firm's own legal services, seeded with the built-ins
+export const legalServicesTemplate = {
+  name: "Legal Services Agreement",
+  description: "Professional legal services engagement agreement",
+  category: "SERVICE_AGREEMENT",
+  content: `LEGAL SERVICES AGREEMENT
+
+This Legal Services Agreement (the "Agreement") is made effective as of [EFFECTIVE_DATE], by and between:
+
+[LAW_FIRM_NAME], with its principal place of business at [FIRM_ADDRESS] ("Attorney" or "Firm")
+and
+[CLIENT_NAME], located at [CLIENT_ADDRESS] ("Client")
+
+1. SCOPE OF SERVICES
+The Client hereby engages the Firm and the Firm hereby agrees to provide legal services in connection with [MATTER_DESCRIPTION] ("Services").
+
+2. FEES AND BILLING
+2.1 The Firm's fees for the Services will be calculated at the following rates:
+    - Partner: [PARTNER_RATE] per hour
+    - Associate: [ASSOCIATE_RATE] per hour
+    - Paralegal: [PARALEGAL_RATE] per hour
+
+3. RETAINER
+Client agrees to pay an initial retainer of [RETAINER_AMOUNT], to be held in the Firm's trust account.
+
+4. EXPENSES
+Client shall reimburse the Firm for all reasonable expenses incurred in providing the Services.
+
+5. TERM AND TERMINATION
+This Agreement shall commence on [START_DATE] and continue until [END_DATE] or until terminated by either party with written notice.
+
+6. CONFIDENTIALITY
+The Firm shall maintain strict confidentiality of all Client information and communications.
+
+7. CONFLICTS OF INTEREST
+The Firm has conducted a conflicts check and found no current conflicts of interest.
+
+8. GOVERNING LAW
+This Agreement shall be governed by the laws of [JURISDICTION].
+
+IN WITNESS WHEREOF, the parties have executed this Agreement as of the date first above written.
+
+[LAW_FIRM_NAME]
+By: _____________________
+Name: [ATTORNEY_NAME]
+Title: [ATTORNEY_TITLE]
+
+[CLIENT_NAME]
+By: _____________________
+Name: [CLIENT_SIGNER_NAME]
+Title: [CLIENT_SIGNER_TITLE]`,
+  metadata: {
+    variables: [
+      { name: "EFFECTIVE_DATE", description: "The effective date of the agreement", required: true, type: "date" },
+      { name: "LAW_FIRM_NAME", description: "Legal name of the law firm", required: true, type: "text" },
+      { name: "FIRM_ADDRESS", description: "Complete address of the law firm", required: true, type: "text" },
+      { name: "CLIENT_NAME", description: "Legal name of the client", required: true, type: "text" },
+      { name: "CLIENT_ADDRESS", description: "Complete address of the client", required: true, type: "text" },
+      { name: "MATTER_DESCRIPTION", description: "Detailed description of legal services to be provided", required: true, type: "text" },
+      { name: "PARTNER_RATE", description: "Hourly rate for partner services", required: true, type: "number" },
+      { name: "ASSOCIATE_RATE", description: "Hourly rate for associate services", required: true, type: "number" },
+      { name: "PARALEGAL_RATE", description: "Hourly rate for paralegal services", required: true, type: "number" },
+      { name: "RETAINER_AMOUNT", description: "Initial retainer amount", required: true, type: "number" },
+      { name: "START_DATE", description: "Start date of the agreement", required: true, type: "date" },
+      { name: "END_DATE", description: "End date of the agreement", required: false, type: "date" },
+      { name: "JURISDICTION", description: "Governing law jurisdiction", required: true, type: "text" },
+      { name: "ATTORNEY_NAME", description: "Name of the signing attorney", required: true, type: "text" },
+      { name: "ATTORNEY_TITLE", description: "Title of the signing attorney", required: true, type: "text" },
+      { name: "CLIENT_SIGNER_NAME", description: "Name of the client's authorized signer", required: true, type: "text" },
+      { name: "CLIENT_SIGNER_TITLE", description: "Title of the client's authorized signer", required: true, type: "text" }
+    ],
+    tags: ["legal services", "professional services", "attorney", "law firm"],
+    useCase: "Engaging legal representation and defining scope of services",
+    complexity: "HIGH",
+    recommendedClauses: [
+      "Scope of Services",
+      "Fees and Billing",
+      "Retainer",
+      "Expenses",
+      "Term and Termination",
+      "Confidentiality",
+      "Conflicts of Interest"
+    ],
+    industrySpecific: true,
+    jurisdiction: "US",
+    lastUpdated: new Date().toISOString(),
+    aiAssistanceLevel: "EXPERT"
+  }
+};
+
+// Catalogue of further template outlines. Their content is only an opening
+// line, so they are seeded as drafts to be completed before use.
 export const templateCategories = [
   {
     id: "1",
@@ -24,6 +24,11 @@ import authRouter from "./routes/auth";
 import bcrypt from "bcrypt";
 import jwt from "jsonwebtoken";
 import featureRouter from "./routes/features";
+import { jobQueue } from "./services/jobQueue";
+import { predictiveMonitoringService } from "./services/predictiveMonitoring";
+import { complianceRemediationService } from "./services/complianceRemediationService";
+import { obligationService } from "./services/obligationService";
+import { auditLogService } from "./services/auditLogService";
 
 // Configure global error handlers first
 process.on("uncaughtException", (error) => {
@@ -230,6 +235,19 @@ try {
       try {
         log("Starting background service initialization...");
         // Background tasks are deferred and will not block server startup
+
+        // Resumes jobs left queued or running by a previous process
+        if (process.env.NODE_ENV !== "test") {
+          jobQueue.start();
+          predictiveMonitoringService.startScheduler();
+          complianceRemediationService.startScheduler();
+          obligationService.startScheduler();
+        }
+
+        await auditLogService.enforceAppendOnly();
+
+        // Adds new or changed built-in templates to the shared library
+        await seedContractTemplates();
       } catch (error) {
         log("Background service initialization error:", error);
       }
@@ -0,0 +1,166 @@
+import type { Request, Response } from "express";
+import { rbacMiddleware, requireDocumentAccess } from "../rbac";
+import { documentAccessService } from "../../services/documentAccessService";
+
+jest.mock("../../db", () => ({ db: {} }));
+jest.mock("../../services/documentAccessService", () => ({
+  ...jest.requireActual("../../services/documentAccessService"),
+  documentAccessService: { loadResource: jest.fn(), canAccess: jest.fn() },
+}));
+
+const access = documentAccessService as jest.Mocked<typeof documentAccessService>;
+
+function call(
+  middleware: (req: Request, res: Response, next: () => void) => unknown,
+  {
+    method = "GET",
+    url = "/api/vault/documents",
+    role = "LAWYER" as string | null,
+    params = {},
+    tenant = { organizationId: null, organizationRole: null, matterId: null } as Record<string, unknown> | undefined,
+  } = {},
+) {
+  const req = {
+    method,
+    originalUrl: url,
+    params,
+    user: role ? { id: 1, role } : undefined,
+    isAuthenticated: () => role !== null,
+  } as unknown as Request;
+
+  const result = { status: 200, body: undefined as unknown, passed: false, locals: { tenant } as Record<string, unknown> };
+  const res = {
+    locals: result.locals,
+    status(code: number) {
+      result.status = code;
+      return this;
+    },
+    json(body: unknown) {
+      result.body = body;
+      return this;
+    },
+  } as unknown as Response;
+
+  return Promise.resolve(middleware(req, res, () => { result.passed = true; })).then(() => result);
+}
+
+describe("RBAC middleware", () => {
+  const rbac = rbacMiddleware();
+
+  it.each([
+    ["GET", "/api/vault/documents", "CLIENT", true],
+    ["DELETE", "/api/vault/documents/5", "LAWYER", true],
+    ["DELETE", "/api/vault/documents/5", "PARALEGAL", false],
+    ["DELETE", "/api/workflow/documents/5", "CLIENT", false],
+    ["GET", "/api/workflow/status/5", "CLIENT", true],
+    ["GET", "/api/contract-analysis/5/versions", "PARALEGAL", true],
+    ["GET", "/api/contract-analysis/5/diagnostic", "CLIENT", false],
+    ["POST", "/api/templates/generate", "LAWYER", false],
+    ["GET", "/api/audit/entries", "ADMIN", true],
+    ["GET", "/api/audit/entries", "LAWYER", false],
+    ["GET", "/api/jobs/", "PARALEGAL", false],
+    // Roles outside the enum are treated as clients
+    ["POST", "/api/redline/", "USER", false],
+  ])("%s %s as %s -> allowed: %s", async (method, url, role, allowed) => {
+    const result = await call(rbac, { method, url, role });
+    expect(result.passed).toBe(allowed);
+    if (!allowed) expect(result.status).toBe(403);
+  });
+
+  it("lets public paths through without a session", async () => {
+    const result = await call(rbac, { method: "POST", url: "/api/auth/login", role: null });
+    expect(result.passed).toBe(true);
+  });
+
+  it("requires a session everywhere else", async () => {
+    const result = await call(rbac, { url: "/api/vault/documents", role: null });
+    expect(result).toMatchObject({ passed: false, status: 401 });
+  });
+
+  it("refuses API paths that have no rule", async () => {
+    const result = await call(rbac, { url: "/api/unlisted/route", role: "ADMIN" });
+    expect(result).toMatchObject({ passed: false, status: 403 });
+  });
+
+  it("answers 405 for methods a rule does not list", async () => {
+    const result = await call(rbac, { method: "PUT", url: "/api/vault/stats", role: "ADMIN" });
+    expect(result).toMatchObject({ passed: false, status: 405 });
+  });
+});
+
+describe("requireDocumentAccess", () => {
+  const document = { id: 5, userId: 2, organizationId: null as number | null, matterId: null };
+
+  beforeEach(() => {
+    access.loadResource.mockReset().mockResolvedValue(document);
+    access.canAccess.mockReset().mockResolvedValue(true);
+  });
+
+  it("rejects ids that are not numbers", async () => {
+    const result = await call(requireDocumentAccess("DOCUMENT"), { params: { id: "abc" } });
+    expect(result).toMatchObject({ passed: false, status: 400 });
+  });
+
+  it("answers 404 for documents that do not exist", async () => {
+    access.loadResource.mockResolvedValue(undefined);
+    const result = await call(requireDocumentAccess("DOCUMENT"), { params: { id: "5" } });
+    expect(result).toMatchObject({ passed: false, status: 404 });
+  });
+
+  it("answers 404 for documents in another organization", async () => {
+    access.loadResource.mockResolvedValue({ ...document, organizationId: 8 });
+
+    const result = await call(requireDocumentAccess("DOCUMENT"), {
+      params: { id: "5" },
+      tenant: { organizationId: 3, organizationRole: "MEMBER", matterId: null },
+    });
+
+    expect(result).toMatchObject({ passed: false, status: 404 });
+    expect(access.canAccess).not.toHaveBeenCalled();
+  });
+
+  it("answers 404 for personal documents while working in an organization", async () => {
+    const result = await call(requireDocumentAccess("DOCUMENT"), {
+      params: { id: "5" },
+      tenant: { organizationId: 3, organizationRole: "MEMBER", matterId: null },
+    });
+
+    expect(result).toMatchObject({ passed: false, status: 404 });
+  });
+
+  it("answers 404 for documents outside the selected matter", async () => {
+    access.loadResource.mockResolvedValue({ ...document, organizationId: 3, matterId: 11 });
+
+    const result = await call(requireDocumentAccess("DOCUMENT"), {
+      params: { id: "5" },
+      tenant: { organizationId: 3, organizationRole: "MEMBER", matterId: 12 },
+    });
+
+    expect(result).toMatchObject({ passed: false, status: 404 });
+  });
+
+  it("answers 403 when the caller lacks the permission", async () => {
+    access.canAccess.mockResolvedValue(false);
+    const result = await call(
+      requireDocumentAccess("VAULT_DOCUMENT", { permission: "DELETE" }),
+      { method: "DELETE", params: { id: "5" } },
+    );
+
+    expect(result).toMatchObject({ passed: false, status: 403 });
+    expect(access.canAccess).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 1 }), "VAULT_DOCUMENT", document, "DELETE",
+    );
+  });
+
+  it("leaves the loaded document on res.locals", async () => {
+    access.loadResource.mockResolvedValue({ ...document, organizationId: 3 });
+
+    const result = await call(
+      requireDocumentAccess("DOCUMENT", { param: "contractId" }),
+      { params: { contractId: "5" }, tenant: { organizationId: 3, organizationRole: "MEMBER", matterId: null } },
+    );
+
+    expect(result.passed).toBe(true);
+    expect(result.locals.document).toMatchObject({ id: 5, organizationId: 3 });
+  });
+});
@@ -1,62 +1,258 @@
 import { Request, Response, NextFunction } from 'express';
-import { UserRole } from '@shared/schema';
+import { UserRole, type DocumentPermission, type DocumentResourceType } from '@shared/schema';
+import { documentAccessService, normalizeRole } from '../services/documentAccessService';
+import { organizationService } from '../services/organizationService';
 
+type Method = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+// Each rule lists the roles allowed per method. '*' applies to any method not
+// listed explicitly; `public` rules skip authentication entirely.
+export type RBACRule = {
+  [M in Method | '*']?: UserRole[];
+} & {
+  public?: boolean;
+};
+
+// Keys are full request paths. `:param` matches one segment and a trailing
+// `/*` matches the path itself plus anything below it.
 export type RBACConfig = {
-  [key: string]: {
-    GET?: UserRole[];
-    POST?: UserRole[];
-    PUT?: UserRole[];
-    DELETE?: UserRole[];
-  };
+  [pattern: string]: RBACRule;
 };
 
-// Default RBAC configuration
+const ALL_ROLES: UserRole[] = ['ADMIN', 'LAWYER', 'PARALEGAL', 'CLIENT'];
+const STAFF: UserRole[] = ['ADMIN', 'LAWYER', 'PARALEGAL'];
+const ATTORNEYS: UserRole[] = ['ADMIN', 'LAWYER'];
+const ADMINS: UserRole[] = ['ADMIN'];
+
+// Default RBAC configuration. API paths without a rule are refused, so every
+// new route needs an entry here.
 export const rbacConfig: RBACConfig = {
+  // Authentication and third-party callbacks
+  '/api/auth/*': { public: true },
+  '/api/register': { public: true },
+  '/api/payments/webhook': { public: true },
+  '/api/sign/*': { public: true },
+  '/api/payments/*': { '*': ALL_ROLES },
+  '/api/features/*': { '*': ALL_ROLES },
+
+  // Document workflow (documents router) and the template library
+  '/api/workflow/upload': { POST: STAFF },
+  '/api/workflow/test-upload': { POST: STAFF },
+  '/api/workflow/documents/:id': { DELETE: ATTORNEYS },
+  '/api/workflow/approval-analysis': { POST: STAFF },
+  '/api/workflow/final-audit': { POST: STAFF },
+  '/api/workflow/risk-scorecard': { POST: STAFF },
+  '/api/workflow/health': { GET: ALL_ROLES },
+  '/api/workflow/status/:documentId': { GET: ALL_ROLES },
+  '/api/templates': { GET: ALL_ROLES, POST: STAFF },
+  '/api/templates/generate': { POST: ADMINS },
+  '/api/templates/:id/*': { GET: ALL_ROLES, POST: STAFF, PUT: STAFF, DELETE: STAFF },
+  '/api/analyze/draft': { POST: STAFF },
+  '/api/documents/generate': { POST: STAFF },
+  '/api/documents/:id/download/*': { GET: ALL_ROLES, POST: ALL_ROLES },
+  '/api/documents/:id/request-review': { POST: STAFF },
+  '/api/documents/:id/approvals': { GET: ALL_ROLES },
+  '/api/documents/:id/workflow': { GET: ALL_ROLES, POST: STAFF },
+  '/api/documents/:id/workflow/events': { GET: ALL_ROLES },
+  '/api/documents/:id/signatures': { GET: ALL_ROLES },
+  '/api/documents/:id/chat': { GET: ALL_ROLES, POST: ALL_ROLES },
+
+  // Vault
   '/api/vault/documents': {
-    GET: ['ADMIN', 'LAWYER', 'PARALEGAL', 'CLIENT'],
-    POST: ['ADMIN', 'LAWYER'],
+    GET: ALL_ROLES,
+    POST: ATTORNEYS,
+  },
+  '/api/vault/documents/:id': {
+    DELETE: ATTORNEYS,
   },
   '/api/vault/upload': {
-    POST: ['ADMIN', 'LAWYER'],
+    POST: ATTORNEYS,
+  },
+  '/api/vault/upload-with-category': {
+    POST: ATTORNEYS,
   },
   '/api/vault/analyze': {
-    POST: ['ADMIN', 'LAWYER', 'PARALEGAL'],
+    POST: STAFF,
   },
   '/api/vault/update-sharing': {
-    POST: ['ADMIN', 'LAWYER'],
+    POST: ATTORNEYS,
   },
   '/api/vault/stats': {
-    GET: ['ADMIN', 'LAWYER', 'PARALEGAL', 'CLIENT'],
-  }
+    GET: ALL_ROLES,
+  },
+  '/api/vault/examples/:category': {
+    GET: ALL_ROLES,
+  },
+
+  // Organizations and matters; organization roles are checked in the routers
+  '/api/organizations': { GET: ALL_ROLES, POST: ATTORNEYS },
+  '/api/organizations/:id/*': { GET: ALL_ROLES, POST: ATTORNEYS, PUT: ATTORNEYS, DELETE: ATTORNEYS },
+  '/api/matters/*': { GET: ALL_ROLES, POST: STAFF, PATCH: STAFF },
+
+  // Audit log export and verification
+  '/api/audit/*': { GET: ADMINS },
+
+  // Approval inbox and decisions are open to any approver; the router checks
+  // that the caller is the assigned one. Chains are configured by attorneys.
+  '/api/approvals/*': { GET: ALL_ROLES, POST: ALL_ROLES },
+  '/api/approvals/chains/*': { GET: ALL_ROLES, POST: ATTORNEYS, PUT: ATTORNEYS, DELETE: ATTORNEYS },
+  '/api/users': { GET: STAFF },
+  '/api/signatures/*': { GET: ALL_ROLES, POST: STAFF },
+  '/api/chat/*': { GET: ALL_ROLES, POST: ALL_ROLES },
+
+  // Background job inspection and dead-letter retries
+  '/api/jobs/*': { GET: ADMINS, POST: ADMINS },
+
+  // Document ACL management; ownership is checked in the router
+  '/api/access/*': { GET: ALL_ROLES, POST: ALL_ROLES, DELETE: ALL_ROLES },
+
+  // Compliance and monitoring
+  '/api/compliance/upload': { POST: STAFF },
+  '/api/compliance/analyze': { POST: STAFF },
+  '/api/compliance/audit': { POST: STAFF },
+  '/api/compliance/document/:documentId/rulebooks': { PUT: STAFF },
+  '/api/compliance/monitor': { POST: ATTORNEYS },
+  '/api/compliance/stop-monitoring': { POST: ATTORNEYS },
+  '/api/compliance/issues/*': { GET: ALL_ROLES, POST: STAFF, PUT: STAFF },
+  '/api/compliance/*': { GET: ALL_ROLES },
+  '/api/monitoring/*': { GET: STAFF, POST: STAFF },
+  '/api/notifications/*': { GET: ALL_ROLES, POST: ALL_ROLES, PUT: ALL_ROLES },
+  '/api/notifications/channels/*': { '*': ADMINS },
+  '/api/notifications/routing-rules/*': { '*': ADMINS },
+
+  // Research, analysis and automation
+  '/api/legal-research/*': { GET: ALL_ROLES, POST: STAFF },
+  '/api/redline/*': { POST: STAFF },
+  '/api/clause-library/*': { GET: STAFF, POST: STAFF, PUT: STAFF, DELETE: STAFF },
+  '/api/clause-library/:id/approve': { POST: ATTORNEYS },
+  '/api/playbooks/*': { GET: STAFF, POST: ATTORNEYS, PUT: ATTORNEYS, DELETE: ATTORNEYS },
+  '/api/playbooks/:id/review/:documentId': { POST: STAFF },
+  '/api/obligations/*': { GET: STAFF, POST: STAFF, PUT: STAFF },
+  '/api/reports/*': { GET: STAFF, POST: STAFF },
+  '/api/metrics/*': { GET: STAFF },
+  '/api/orchestrator/*': { GET: STAFF, POST: STAFF },
+  '/api/contract-analysis/*': { GET: STAFF, POST: STAFF },
+  '/api/contract-analysis/:contractId/versions': { GET: STAFF },
+  '/api/contract-analysis/:contractId/diagnostic': { GET: STAFF },
+  '/api/contract-automation/templates': { GET: ALL_ROLES },
+  '/api/contract-automation/templates/upload': { POST: STAFF },
+  '/api/contract-automation/*': { POST: STAFF },
 };
 
+interface CompiledRule {
+  pattern: string;
+  regex: RegExp;
+  rule: RBACRule;
+  specificity: number[];
+}
+
+function compile(config: RBACConfig): CompiledRule[] {
+  return Object.entries(config)
+    .map(([pattern, rule]) => {
+      const wildcard = pattern.endsWith('/*');
+      const segments = (wildcard ? pattern.slice(0, -2) : pattern).split('/').filter(Boolean);
+      const body = segments
+        .map(segment => segment.startsWith(':')
+          ? '/[^/]+'
+          : '/' + segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+        .join('');
+
+      return {
+        pattern,
+        regex: new RegExp(`^${body}${wildcard ? '(?:/.*)?' : ''}/?$`),
+        rule,
+        // Exact paths beat wildcards, deeper paths beat shallower, literals beat params
+        specificity: [
+          wildcard ? 0 : 1,
+          segments.length,
+          segments.filter(segment => !segment.startsWith(':')).length,
+        ],
+      };
+    })
+    .sort((a, b) => {
+      for (let i = 0; i < a.specificity.length; i++) {
+        if (a.specificity[i] !== b.specificity[i]) {
+          return b.specificity[i] - a.specificity[i];
+        }
+      }
+      return 0;
+    });
+}
+
+export function findRule(config: RBACConfig, path: string): { pattern: string; rule: RBACRule } | undefined {
+  const match = compile(config).find(compiled => compiled.regex.test(path));
+  return match ? { pattern: match.pattern, rule: match.rule } : undefined;
+}
+
 export function rbacMiddleware(config: RBACConfig = rbacConfig) {
+  const compiled = compile(config);
+
   return (req: Request, res: Response, next: NextFunction) => {
-    // Skip RBAC check if user is not authenticated
+    // Match on the full path so the middleware works at any mount point
+    const path = req.originalUrl.split('?')[0];
+    const method = req.method.toUpperCase();
+    const match = compiled.find(candidate => candidate.regex.test(path));
+
+    if (match?.rule.public || method === 'OPTIONS') {
+      return next();
+    }
+
     if (!req.isAuthenticated()) {
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
-    const user = req.user;
-    const path = req.path;
-    const method = req.method;
-
-    // Check if path has RBAC configuration
-    const pathConfig = config[path];
-    if (!pathConfig) {
-      return next();
+    if (!match) {
+      return res.status(403).json({ error: 'Forbidden' });
     }
 
-    // Check if method is allowed for user's role
-    const allowedRoles = pathConfig[method as keyof typeof pathConfig];
+    const allowedRoles = match.rule[method as Method] ?? match.rule['*'];
     if (!allowedRoles) {
       return res.status(405).json({ error: 'Method not allowed' });
     }
 
-    if (!allowedRoles.includes(user.role)) {
+    const role = normalizeRole(req.user!.role);
+    if (!allowedRoles.includes(role)) {
       return res.status(403).json({ error: 'Forbidden' });
     }
 
     next();
   };
-}
\ No newline at end of file
+}
+
+// Loads the document named by a route param (or body field) and rejects callers who neither
+// own it nor hold a matching grant, or who are working in another tenant. The loaded row is left on res.locals.document.
+export function requireDocumentAccess(
+  resourceType: DocumentResourceType,
+  options: { param?: string; from?: 'params' | 'body'; permission?: DocumentPermission } = {},
+) {
+  const { param = 'id', from = 'params', permission = 'VIEW' } = options;
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const resourceId = parseInt(from === 'body' ? req.body?.[param] : req.params[param]);
+      if (isNaN(resourceId)) {
+        return res.status(400).json({ error: 'Invalid document ID' });
+      }
+
+      // Documents outside the caller's organization look the same as missing ones
+      const resource = await documentAccessService.loadResource(resourceType, resourceId);
+      if (!resource || !organizationService.inScope(resource, res.locals.tenant)) {
+        return res.status(404).json({ error: 'Document not found' });
+      }
+
+      const allowed = await documentAccessService.canAccess(req.user!, resourceType, resource, permission);
+      if (!allowed) {
+        return res.status(403).json({ error: 'Forbidden' });
+      }
+
+      res.locals.document = resource;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,49 @@
+import { Request, Response, NextFunction } from 'express';
+import { organizationService, OrganizationError, type TenantContext } from '../services/organizationService';
+
+function parseId(value: unknown): number | undefined | null {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const id = parseInt(String(value));
+  return isNaN(id) ? null : id;
+}
+
+// Resolves the caller's organization (X-Organization-Id header, defaulting to
+// their first membership) and the optional ?matterId= filter, and leaves the
+// result on res.locals.tenant for list queries and inserts.
+export function tenantMiddleware() {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return next();
+    }
+
+    try {
+      const organizationId = parseId(req.get('x-organization-id'));
+      const matterId = parseId(req.query.matterId);
+      if (organizationId === null || matterId === null) {
+        return res.status(400).json({ error: 'Invalid organization or matter ID', code: 'INVALID_INPUT' });
+      }
+
+      const tenant: TenantContext = await organizationService.resolveTenant(req.user!.id, organizationId);
+
+      if (matterId !== undefined) {
+        const matter = tenant.organizationId !== null
+          ? await organizationService.getMatter(tenant.organizationId, matterId)
+          : undefined;
+        if (!matter) {
+          return res.status(404).json({ error: 'Matter not found', code: 'MATTER_NOT_FOUND' });
+        }
+        tenant.matterId = matter.id;
+      }
+
+      res.locals.tenant = tenant;
+      next();
+    } catch (error) {
+      if (error instanceof OrganizationError) {
+        return res.status(error.statusCode).json({ error: error.message, code: error.code });
+      }
+      next(error);
+    }
+  };
+}
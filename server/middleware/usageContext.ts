@@ -0,0 +1,20 @@
+import { Request, Response, NextFunction } from 'express';
+import { runWithUsageContext } from '../services/llm/usageContext';
+
+// Feature is the API area, e.g. /api/compliance/upload -> "compliance"
+function featureFromPath(url: string): string {
+  const [, area] = url.split('?')[0].match(/^\/api\/([^/]+)/) || [];
+  return area || 'api';
+}
+
+// Attributes every LLM call made while handling the request to the caller,
+// their organization (from tenantMiddleware) and the feature they used.
+export function usageContextMiddleware() {
+  return (req: Request, res: Response, next: NextFunction) => {
+    runWithUsageContext({
+      userId: req.user?.id ?? null,
+      organizationId: res.locals.tenant?.organizationId ?? null,
+      feature: featureFromPath(req.originalUrl),
+    }, next);
+  };
+}
@@ -1,7 +1,5 @@
-import OpenAI from "openai";
 import type { AgentType, DocumentAnalysis } from "@shared/schema";
-
-export const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+import { modelRouter } from "./services/modelRouter";
 
 const MAX_RETRIES = 3;
 const INITIAL_RETRY_DELAY = 1000;
@@ -14,29 +12,26 @@ interface DocumentSection {
 
 async function analyzeSection(section: DocumentSection, agentType: AgentType): Promise<DocumentAnalysis> {
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4-1106-preview",
-      messages: [
-        {
-          role: "system",
-          content: `You are a legal contract analysis expert. Analyze the given section and return a detailed JSON analysis focusing on contract elements, risks, and recommendations. Include:
+    const response = await modelRouter.complete({
+      role: "structured",
+      system: `You are a legal contract analysis expert. Analyze the given section and return a detailed JSON analysis focusing on contract elements, risks, and recommendations. Include:
             1. Key clauses and their implications
             2. Potential risks and gaps
             3. Standard compliance considerations
             4. Suggested improvements
-            5. Overall risk assessment`
-        },
+            5. Overall risk assessment`,
+      messages: [
         {
           role: "user",
           content: `Analyze this contract section titled "${section.title}":\n\n${section.content}`
         }
       ],
-      response_format: { type: "json_object" },
+      responseFormat: "json",
       temperature: 0.2,
-      max_tokens: 1000
+      maxTokens: 1000
     });
 
-    const content = response.choices[0].message.content;
+    const content = response.text;
     if (!content) {
       throw new Error("Empty response from OpenAI");
     }
@@ -54,10 +49,6 @@ async function analyzeSection(section: DocumentSection, agentType: AgentType): P
 }
 
 export async function analyzeDocument(text: string, agentType: AgentType, sections: DocumentSection[] = []): Promise<DocumentAnalysis> {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OpenAI API key is not configured");
-  }
-
   // If no sections provided, create one from the full text
   if (sections.length === 0) {
     sections = [{
@@ -157,20 +148,13 @@ export async function chatWithDocument(
   context: string,
   analysis: DocumentAnalysis
 ): Promise<string> {
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OpenAI API key is not configured");
-  }
-
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4-1106-preview",
-      messages: [
-        {
-          role: "system",
-          content: `You are a legal document assistant. Use the provided analysis to answer questions accurately and concisely.
+    const response = await modelRouter.complete({
+      role: "structured",
+      system: `You are a legal document assistant. Use the provided analysis to answer questions accurately and concisely.
 Document Summary: ${analysis.summary}
-Risk Score: ${analysis.riskScore}/10`
-        },
+Risk Score: ${analysis.riskScore}/10`,
+      messages: [
         {
           role: "user",
           content: `Context: ${context.substring(0, 1500)}...
@@ -178,10 +162,10 @@ Question: ${message}`
         }
       ],
       temperature: 0.3,
-      max_tokens: 500
+      maxTokens: 500
     });
 
-    return response.choices[0].message.content ||
+    return response.text ||
            "I apologize, but I couldn't generate a response. Please try rephrasing your question.";
   } catch (error) {
     console.error('Error in chat:', error);
@@ -15,6 +15,26 @@ import reportsRouter from "./routes/reports";
 import vaultRouter from "./routes/vault";
 import redlineRouter from "./routes/redline";
 import paymentsRouter from "./routes/payments";
+import accessRouter from "./routes/access";
+import organizationsRouter from "./routes/organizations";
+import mattersRouter from "./routes/matters";
+import auditRouter from "./routes/audit";
+import jobsRouter from "./routes/jobs";
+import approvalsRouter from "./routes/approvals";
+import usersRouter from "./routes/users";
+import workflowRouter from "./routes/workflow";
+import signaturesRouter from "./routes/signatures";
+import signingRouter from "./routes/signing";
+import chatRouter from "./routes/chat";
+import notificationsRouter from "./routes/notifications";
+import complianceIssuesRouter from "./routes/complianceIssues";
+import templatesRouter from "./routes/templates";
+import clauseLibraryRouter from "./routes/clauseLibrary";
+import playbooksRouter from "./routes/playbooks";
+import obligationsRouter from "./routes/obligations";
+import { rbacMiddleware } from "./middleware/rbac";
+import { tenantMiddleware } from "./middleware/tenant";
+import { usageContextMiddleware } from "./middleware/usageContext";
 import cors from 'cors';
 import { json } from 'express';
 
@@ -47,21 +67,44 @@ export function registerRoutes(app: Express): Server {
     next();
   });
 
+  // Role checks for every API router below; see rbacConfig for the per-route rules
+  app.use("/api", rbacMiddleware());
+  app.use("/api", tenantMiddleware());
+  app.use("/api", usageContextMiddleware());
+
   // Mount important routers first
   app.use("/api/payments", paymentsRouter);
+  // Ahead of documentsRouter, which serves the template AI helpers below /api/templates
+  app.use("/api/templates", templatesRouter);
   app.use("/api", documentsRouter);
   app.use("/api/metrics", metricsRouter); // Ensure metrics router is properly mounted
 
   // Mount other API routes
   app.use("/api/legal-research", legalResearchRouter);
   app.use("/api/redline", redlineRouter);
+  app.use("/api/clause-library", clauseLibraryRouter);
+  app.use("/api/playbooks", playbooksRouter);
+  app.use("/api/obligations", obligationsRouter);
   app.use("/api/vault", vaultRouter);
+  app.use("/api/compliance/issues", complianceIssuesRouter);
   app.use("/api/compliance", complianceRouter);
   app.use("/api", reportsRouter);
   app.use("/api/monitoring", predictiveMonitoringRouter);
   app.use("/api/orchestrator", orchestratorRouter);
+  app.use("/api/workflow", workflowRouter);
   app.use("/api/contract-analysis", contractAnalysisRouter);
   app.use("/api/contract-automation", contractAutomationRouter);
+  app.use("/api/access", accessRouter);
+  app.use("/api/organizations", organizationsRouter);
+  app.use("/api/matters", mattersRouter);
+  app.use("/api/audit", auditRouter);
+  app.use("/api/jobs", jobsRouter);
+  app.use("/api/approvals", approvalsRouter);
+  app.use("/api/users", usersRouter);
+  app.use("/api/signatures", signaturesRouter);
+  app.use("/api/sign", signingRouter);
+  app.use("/api/chat", chatRouter);
+  app.use("/api/notifications", notificationsRouter);
 
   // Add catch-all handler for unmatched API routes
   app.use('/api/*', (req, res) => {
@@ -0,0 +1,52 @@
+import express from "express";
+import request from "supertest";
+import { matters } from "@shared/schema";
+import { row, useProxyDb, type Row } from "../../tests/helpers/proxyDb";
+import { signedInAs, testUser } from "../../tests/helpers/auth";
+import mattersRouter from "../matters";
+
+jest.mock("../../db", () => jest.requireActual("../../tests/helpers/proxyDb").mockDbModule);
+jest.mock("../../services/auditLogService", () => ({ auditLogService: { record: jest.fn() } }));
+
+const app = express();
+app.use(express.json());
+app.use(signedInAs(testUser({ id: 9 }), { organizationId: 3, organizationRole: "MEMBER", matterId: null }));
+app.use("/api/matters", mattersRouter);
+
+// Matter 12 belongs to organization 3; `items` answers lookups of the filed record
+function mattersDb(items: Row[]) {
+  const { queries } = useProxyDb(({ sql }) => {
+    if (sql.includes('from "matters"')) return [row(matters, { id: 12, organizationId: 3, name: "Acme v. Beta" })];
+    if (sql.startsWith("select")) return items;
+    if (sql.startsWith("update")) return [{ id: 40 }];
+    return [];
+  });
+  return queries;
+}
+
+describe("Filing items under a matter", () => {
+  it.each(["compliance-audits", "research-reports"])("answers 404 for %s the caller cannot see", async (type) => {
+    const queries = mattersDb([]);
+
+    await request(app).post("/api/matters/12/items").send({ type, id: 40 }).expect(404);
+
+    const lookup = queries.find((query) => query.sql.startsWith("select") && !query.sql.includes('"matters"'))!;
+    expect(lookup.sql).toMatch(/"organization_id" = \$\d+ or \(.*"organization_id" is null and .*"user_id" = \$\d+\)/);
+    expect(lookup.params).toEqual(expect.arrayContaining([40, 3, 9]));
+    expect(queries.some((query) => query.sql.startsWith("update"))).toBe(false);
+  });
+
+  it("files an audit the caller can see", async () => {
+    const queries = mattersDb([{ id: 40 }]);
+
+    await request(app).post("/api/matters/12/items").send({ type: "compliance-audits", id: 40 }).expect(200);
+
+    expect(queries.some((query) => query.sql.startsWith('update "compliance_audits"'))).toBe(true);
+  });
+
+  it("rejects unknown item types", async () => {
+    mattersDb([]);
+
+    await request(app).post("/api/matters/12/items").send({ type: "constructor", id: 40 }).expect(400);
+  });
+});
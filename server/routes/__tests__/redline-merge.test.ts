@@ -0,0 +1,70 @@
+import express from "express";
+import request from "supertest";
+import { documentVersions, documents } from "@shared/schema";
+import { row, useProxyDb } from "../../tests/helpers/proxyDb";
+import { signedInAs, testUser } from "../../tests/helpers/auth";
+import { documentAccessService } from "../../services/documentAccessService";
+import redlineRouter from "../redline";
+
+jest.mock("../../db", () => jest.requireActual("../../tests/helpers/proxyDb").mockDbModule);
+jest.mock("../../services/pdf-service", () => ({ pdfService: {} }));
+jest.mock("../../services/documentProcessor", () => ({ documentProcessor: {} }));
+jest.mock("../../services/clauseExtractionService", () => ({
+  clauseExtractionService: { queueExtraction: jest.fn() },
+}));
+jest.mock("../../services/auditLogService", () => ({ auditLogService: { record: jest.fn() } }));
+jest.mock("../../services/documentAccessService", () => ({
+  ...jest.requireActual("../../services/documentAccessService"),
+  documentAccessService: { loadResource: jest.fn(), canAccess: jest.fn() },
+}));
+
+const access = documentAccessService as jest.Mocked<typeof documentAccessService>;
+const document = { id: 4, userId: 2, organizationId: null, matterId: null, title: "MSA", content: "Base" };
+
+const app = express();
+app.use(express.json());
+app.use(signedInAs(testUser({ id: 9 })));
+app.use("/api/redline", redlineRouter);
+
+const merge = {
+  documentId: 4,
+  baseText: "1. Term. One year.",
+  oursText: "1. Term. Two years.",
+  theirsText: "1. Term. One year.",
+};
+
+describe("Redline merge", () => {
+  beforeEach(() => {
+    access.loadResource.mockReset().mockResolvedValue(document);
+    access.canAccess.mockReset().mockResolvedValue(true);
+  });
+
+  it("requires edit access to the document", async () => {
+    access.canAccess.mockResolvedValue(false);
+    const { queries } = useProxyDb();
+
+    await request(app).post("/api/redline/merge").send(merge).expect(403);
+
+    expect(access.canAccess).toHaveBeenCalledWith(expect.objectContaining({ id: 9 }), "DOCUMENT", document, "EDIT");
+    expect(queries).toHaveLength(0);
+  });
+
+  it("numbers the new version while holding a lock on the document", async () => {
+    const { queries } = useProxyDb(({ sql }) => {
+      if (sql.startsWith("select count(*)")) return [{ "count(*)": 2 }];
+      if (sql.startsWith('insert into "document_versions"')) return [row(documentVersions, { id: 31, documentId: 4, version: "3" })];
+      return [row(documents, { id: 4 })];
+    });
+
+    const res = await request(app).post("/api/redline/merge").send(merge).expect(200);
+
+    expect(res.body).toMatchObject({ versionId: 31, version: "3" });
+    expect(queries.map((query) => query.sql.split(" ").slice(0, 3).join(" "))).toEqual([
+      'select "id" from',
+      "select count(*) from",
+      'insert into "document_versions"',
+    ]);
+    expect(queries[0].sql).toMatch(/for update$/);
+    expect(queries[2].params).toEqual(expect.arrayContaining([4, "3"]));
+  });
+});
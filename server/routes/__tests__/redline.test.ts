@@ -43,4 +43,33 @@ describe("Redline Route Tests", () => {
     // Example assertion: the diff might look like "Hello[+] World"
     expect(res.body.diff_text).toMatch(/Hello\[\+\] World/);
   });
-}); 
\ No newline at end of file
+
+  it("Should report clause-level operations with materiality", async () => {
+    const originalText = [
+      "1. Services. Provider shall perform the services.",
+      "2. Indemnification. Provider shall indemnify Customer up to $1,000,000.",
+      "3. Notices. Notices must be in writing.",
+    ].join("\n");
+    const proposedText = [
+      "1. Services. Provider shall perform the Services.",
+      "2. Notices. Notices must be in writing.",
+      "3. Indemnification. Provider shall indemnify Customer up to $500,000.",
+    ].join("\n");
+
+    const res = await request(app)
+      .post("/api/redline")
+      .set("Cookie", authCookie)
+      .send({ originalText, proposedText })
+      .expect(200);
+
+    expect(res.body.summary.clauses.renumbered).toBe(2);
+    const indemnity = res.body.operations.find(
+      (op: any) => op.original?.heading === "Indemnification",
+    );
+    expect(indemnity.materiality).toBe("CRITICAL");
+    const services = res.body.operations.find(
+      (op: any) => op.original?.heading === "Services",
+    );
+    expect(services.materiality).toBe("COSMETIC");
+  });
+});
@@ -0,0 +1,111 @@
+import express from "express";
+import http from "http";
+import type { AddressInfo } from "net";
+import { EventEmitter } from "events";
+import type { WorkflowEvent } from "@shared/schema";
+import { documentAccessService } from "../../services/documentAccessService";
+import { contractLifecycleService } from "../../services/contractLifecycleService";
+import { signedInAs, testUser } from "../../tests/helpers/auth";
+import documentsRouter from "../documents";
+
+jest.mock("../../db", () => ({ db: {} }));
+jest.mock("../../services/pdf-service", () => ({ pdfService: {} }));
+jest.mock("../../services/documentProcessor", () => ({ documentProcessor: {} }));
+jest.mock("../../services/modelRouter", () => ({ modelRouter: {} }));
+jest.mock("../../services/templateStore", () => ({ generateContract: jest.fn(), getTemplate: jest.fn() }));
+jest.mock("../../services/documentChatService", () => ({ documentChatService: {} }));
+jest.mock("../chat", () => ({ chatMessageSchema: {}, respondWithAnswer: jest.fn() }));
+jest.mock("../../services/auditLogService", () => ({ auditLogService: { record: jest.fn() } }));
+jest.mock("../../services/documentAccessService", () => ({
+  ...jest.requireActual("../../services/documentAccessService"),
+  documentAccessService: { loadResource: jest.fn(), canAccess: jest.fn() },
+}));
+jest.mock("../../services/contractLifecycleService", () => ({
+  ...jest.requireActual("../../services/contractLifecycleService"),
+  contractLifecycleService: { listEvents: jest.fn(), subscribe: jest.fn() },
+}));
+
+const access = documentAccessService as jest.Mocked<typeof documentAccessService>;
+const lifecycle = contractLifecycleService as jest.Mocked<typeof contractLifecycleService>;
+const live = new EventEmitter();
+
+const event = (id: number): WorkflowEvent => ({
+  id,
+  contractId: 4,
+  resourceType: "DOCUMENT",
+  actorId: 9,
+  eventType: "TRANSITION",
+  details: { from: "DRAFT", to: "IN_REVIEW" },
+  timestamp: null,
+});
+
+const app = express();
+app.use(signedInAs(testUser({ id: 9 })));
+app.use("/api", documentsRouter);
+
+// Reads the stream until the given event id arrives, then disconnects
+function readEvents(url: string, untilId: number, headers: Record<string, string> = {}): Promise<number[]> {
+  return new Promise((resolve, reject) => {
+    const req = http.get(url, { headers }, (res) => {
+      let body = "";
+      res.on("data", (chunk) => {
+        body += chunk;
+        const ids = [...body.matchAll(/^id: (\d+)$/gm)].map((match) => Number(match[1]));
+        if (ids.includes(untilId)) {
+          req.destroy();
+          resolve(ids);
+        }
+      });
+    });
+    req.on("error", reject);
+  });
+}
+
+describe("Workflow event stream", () => {
+  let server: http.Server;
+  let url: string;
+
+  beforeAll((done) => {
+    server = app.listen(0, () => {
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/documents/4/workflow/events`;
+      done();
+    });
+  });
+  afterAll((done) => {
+    server.closeAllConnections();
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    access.loadResource.mockReset().mockResolvedValue({ id: 4, userId: 9, organizationId: null, matterId: null });
+    access.canAccess.mockReset().mockResolvedValue(true);
+    lifecycle.subscribe.mockReset().mockImplementation((documentId, listener) => {
+      live.on(`document:${documentId}`, listener);
+      return () => live.off(`document:${documentId}`, listener);
+    });
+  });
+
+  it("does not drop replayed events when a live event arrives during the replay", async () => {
+    lifecycle.listEvents.mockReset().mockImplementation(async () => {
+      live.emit("document:4", event(8));
+      return [event(6), event(7)];
+    });
+
+    const ids = await readEvents(url, 8, { "Last-Event-ID": "5" });
+
+    expect(lifecycle.listEvents).toHaveBeenCalledWith(4, 5);
+    expect(ids).toEqual([6, 7, 8]);
+  });
+
+  it("sends a live event seen by both the replay and the subscription once", async () => {
+    lifecycle.listEvents.mockReset().mockImplementation(async () => {
+      live.emit("document:4", event(7));
+      return [event(6), event(7)];
+    });
+
+    const ids = await readEvents(`${url}?since=5`, 7);
+    live.emit("document:4", event(9));
+
+    expect(ids).toEqual([6, 7]);
+  });
+});
@@ -0,0 +1,132 @@
+import { Router, type Request, type Response, type NextFunction } from "express";
+import { insertDocumentAclSchema, type DocumentResourceType } from "@shared/schema";
+import { documentAccessService, normalizeRole } from "../services/documentAccessService";
+import { organizationService } from "../services/organizationService";
+import { auditLogService } from "../services/auditLogService";
+import debug from "debug";
+
+const log = debug("app:access");
+const router = Router();
+
+const RESOURCE_TYPES: Record<string, DocumentResourceType> = {
+  "documents": "DOCUMENT",
+  "vault-documents": "VAULT_DOCUMENT",
+  "compliance-documents": "COMPLIANCE_DOCUMENT",
+};
+
+// Only the document owner or an admin may view or change who it is shared with
+async function requireOwner(req: Request, res: Response, next: NextFunction) {
+  try {
+    const user = req.user!;
+    if (!user?.id) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const resourceType = RESOURCE_TYPES[req.params.resourceType];
+    if (!resourceType) {
+      return res.status(400).json({ error: 'Unknown resource type', code: 'INVALID_RESOURCE_TYPE' });
+    }
+
+    const resourceId = parseInt(req.params.resourceId);
+    if (isNaN(resourceId)) {
+      return res.status(400).json({ error: 'Invalid document ID', code: 'INVALID_INPUT' });
+    }
+
+    const resource = await documentAccessService.loadResource(resourceType, resourceId);
+    if (!resource || !organizationService.inScope(resource, res.locals.tenant)) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    if (resource.userId !== user.id && normalizeRole(user.role) !== 'ADMIN') {
+      return res.status(403).json({ error: 'Only the document owner can manage access' });
+    }
+
+    res.locals.resourceType = resourceType;
+    res.locals.resourceId = resourceId;
+    res.locals.resource = resource;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+router.get('/:resourceType/:resourceId', requireOwner, async (req, res) => {
+  try {
+    const grants = await documentAccessService.listGrants(res.locals.resourceType, res.locals.resourceId);
+    res.json(grants);
+  } catch (error: any) {
+    log('Error listing grants:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+router.post('/:resourceType/:resourceId', requireOwner, async (req, res) => {
+  try {
+    const parsed = insertDocumentAclSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: parsed.error.issues.map(issue => issue.message).join(', '),
+        code: 'INVALID_INPUT'
+      });
+    }
+
+    // A role grant is limited to the document's organization, so a document
+    // without one can only be shared with named users
+    const organizationId = res.locals.resource.organizationId ?? null;
+    if (parsed.data.role && organizationId === null) {
+      return res.status(400).json({
+        error: 'Documents outside an organization can only be shared with users',
+        code: 'INVALID_INPUT'
+      });
+    }
+
+    const grant = await documentAccessService.grant(
+      res.locals.resourceType,
+      res.locals.resourceId,
+      {
+        userId: parsed.data.userId,
+        role: parsed.data.role,
+        organizationId,
+        permission: parsed.data.permission,
+      },
+      req.user!.id
+    );
+
+    await auditLogService.record(req, res, {
+      action: 'SHARE',
+      resourceType: res.locals.resourceType,
+      resourceId: res.locals.resourceId,
+      details: { grantId: grant.id, userId: grant.userId, role: grant.role, organizationId: grant.organizationId, permission: grant.permission }
+    });
+
+    res.status(201).json(grant);
+  } catch (error: any) {
+    log('Error granting access:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+router.delete('/:resourceType/:resourceId/:grantId', requireOwner, async (req, res) => {
+  try {
+    const grantId = parseInt(req.params.grantId);
+    const removed = await documentAccessService.revoke(res.locals.resourceType, res.locals.resourceId, grantId);
+
+    if (!removed) {
+      return res.status(404).json({ error: 'Grant not found' });
+    }
+
+    await auditLogService.record(req, res, {
+      action: 'SHARE',
+      resourceType: res.locals.resourceType,
+      resourceId: res.locals.resourceId,
+      details: { revokedGrantId: grantId }
+    });
+
+    res.json({ success: true });
+  } catch (error: any) {
+    log('Error revoking access:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,211 @@
+import { Router, type Request, type Response } from "express";
+import { z } from "zod";
+import { insertApprovalChainSchema } from "@shared/schema";
+import { approvalService, ApprovalError, type ApprovalDecision } from "../services/approvalService";
+import { auditLogService } from "../services/auditLogService";
+import { normalizeRole } from "../services/documentAccessService";
+import { TransitionError } from "../services/contractLifecycleService";
+import debug from "debug";
+
+const log = debug("app:approvals");
+const router = Router();
+
+const decisionSchema = z.object({
+  comments: z.string().max(5000).optional(),
+});
+
+const delegateSchema = z.object({
+  delegateId: z.coerce.number().int().positive(),
+  comments: z.string().max(5000).optional(),
+});
+
+function sendError(res: Response, error: any, fallback: string) {
+  if (error instanceof ApprovalError || error instanceof TransitionError) {
+    return res.status(error.statusCode).json({ error: error.message, code: error.code });
+  }
+  log(fallback, error);
+  res.status(500).json({ error: error.message || fallback });
+}
+
+function invalidInput(res: Response, error: z.ZodError) {
+  return res.status(400).json({
+    error: error.issues.map(issue => issue.message).join(', '),
+    code: 'INVALID_INPUT'
+  });
+}
+
+// Inbox: approvals currently waiting on the caller
+router.get('/pending', async (req, res) => {
+  try {
+    const pending = await approvalService.listPending(req.user!.id);
+    res.json(pending);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to load pending approvals');
+  }
+});
+
+router.get('/requests/:id', async (req, res) => {
+  try {
+    const request = await approvalService.getRequest(parseInt(req.params.id));
+    const userId = req.user!.id;
+    const involved = request && (request.requesterId === userId || request.steps.some(step => step.approverId === userId));
+    if (!request || (!involved && normalizeRole(req.user!.role) !== 'ADMIN')) {
+      return res.status(404).json({ error: 'Approval request not found', code: 'NOT_FOUND' });
+    }
+    res.json(request);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to load approval request');
+  }
+});
+
+// Chains apply to the organization the caller is acting in, or to their
+// personal space when they have none
+router.get('/chains', async (req, res) => {
+  try {
+    const chains = await approvalService.listChains(res.locals.tenant?.organizationId ?? null);
+    res.json(chains);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to list approval chains');
+  }
+});
+
+router.post('/chains', async (req, res) => {
+  try {
+    const parsed = insertApprovalChainSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalidInput(res, parsed.error);
+    }
+
+    const chain = await approvalService.createChain(
+      res.locals.tenant?.organizationId ?? null,
+      parsed.data,
+      req.user!.id
+    );
+
+    await auditLogService.record(req, res, {
+      action: 'CREATE',
+      resourceType: 'APPROVAL_CHAIN',
+      resourceId: chain.id,
+      details: { name: chain.name, mode: chain.mode, approverIds: chain.approverIds },
+    });
+
+    res.status(201).json(chain);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to create approval chain');
+  }
+});
+
+router.put('/chains/:id', async (req, res) => {
+  try {
+    const parsed = insertApprovalChainSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalidInput(res, parsed.error);
+    }
+
+    const chain = await approvalService.updateChain(
+      res.locals.tenant?.organizationId ?? null,
+      parseInt(req.params.id),
+      parsed.data
+    );
+    if (!chain) {
+      return res.status(404).json({ error: 'Approval chain not found', code: 'NOT_FOUND' });
+    }
+
+    await auditLogService.record(req, res, {
+      action: 'EDIT',
+      resourceType: 'APPROVAL_CHAIN',
+      resourceId: chain.id,
+      details: parsed.data,
+    });
+
+    res.json(chain);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to update approval chain');
+  }
+});
+
+router.delete('/chains/:id', async (req, res) => {
+  try {
+    const chainId = parseInt(req.params.id);
+    const removed = await approvalService.deleteChain(res.locals.tenant?.organizationId ?? null, chainId);
+    if (!removed) {
+      return res.status(404).json({ error: 'Approval chain not found', code: 'NOT_FOUND' });
+    }
+
+    await auditLogService.record(req, res, {
+      action: 'DELETE',
+      resourceType: 'APPROVAL_CHAIN',
+      resourceId: chainId,
+    });
+
+    res.json({ success: true });
+  } catch (error: any) {
+    sendError(res, error, 'Failed to delete approval chain');
+  }
+});
+
+function decisionRoute(decision: ApprovalDecision) {
+  return async (req: Request, res: Response) => {
+    try {
+      const parsed = decisionSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return invalidInput(res, parsed.error);
+      }
+
+      const result = await approvalService.decide(
+        parseInt(req.params.id),
+        req.user!.id,
+        decision,
+        parsed.data.comments
+      );
+
+      await auditLogService.record(req, res, {
+        action: decision === 'APPROVED' ? 'APPROVE' : 'REJECT',
+        resourceType: 'DOCUMENT',
+        resourceId: result.approval.documentId,
+        details: {
+          approvalId: result.approval.id,
+          requestId: result.request.id,
+          requestStatus: result.request.status,
+          comments: parsed.data.comments,
+        },
+      });
+
+      res.json(result);
+    } catch (error: any) {
+      sendError(res, error, `Failed to record ${decision.toLowerCase()} decision`);
+    }
+  };
+}
+
+router.post('/:id/approve', decisionRoute('APPROVED'));
+router.post('/:id/reject', decisionRoute('REJECTED'));
+
+router.post('/:id/delegate', async (req, res) => {
+  try {
+    const parsed = delegateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalidInput(res, parsed.error);
+    }
+
+    const delegated = await approvalService.delegate(
+      parseInt(req.params.id),
+      req.user!.id,
+      parsed.data.delegateId,
+      parsed.data.comments
+    );
+
+    await auditLogService.record(req, res, {
+      action: 'SHARE',
+      resourceType: 'DOCUMENT',
+      resourceId: delegated.documentId,
+      details: { approvalId: parseInt(req.params.id), delegatedTo: parsed.data.delegateId, newApprovalId: delegated.id },
+    });
+
+    res.json(delegated);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to delegate approval');
+  }
+});
+
+export default router;
@@ -0,0 +1,86 @@
+import { Router } from "express";
+import { AuditAction } from "@shared/schema";
+import { auditLogService, type AuditQuery } from "../services/auditLogService";
+import debug from "debug";
+
+const log = debug("app:audit");
+const router = Router();
+
+function parseDate(value: unknown): Date | undefined | null {
+  if (!value) return undefined;
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Export for regulators and e-discovery. Entries are limited to the caller's
+// organization when they act in one; each row carries its chain hashes so the
+// export can be checked against /verify.
+router.get('/export', async (req, res) => {
+  try {
+    const { format = 'json', actorId, action, resourceType, resourceId } = req.query;
+    const from = parseDate(req.query.from);
+    const to = parseDate(req.query.to);
+
+    if (from === null || to === null) {
+      return res.status(400).json({ error: 'from and to must be valid dates', code: 'INVALID_INPUT' });
+    }
+    if (action && !AuditAction.safeParse(action).success) {
+      return res.status(400).json({ error: `Unknown action: ${action}`, code: 'INVALID_INPUT' });
+    }
+    if (format !== 'json' && format !== 'csv') {
+      return res.status(400).json({ error: 'format must be json or csv', code: 'INVALID_INPUT' });
+    }
+
+    const filters: AuditQuery = {
+      organizationId: res.locals.tenant?.organizationId,
+      actorId: actorId ? parseInt(String(actorId)) : undefined,
+      action: action ? AuditAction.parse(action) : undefined,
+      resourceType: resourceType ? String(resourceType) : undefined,
+      resourceId: resourceId ? String(resourceId) : undefined,
+      from,
+      to,
+    };
+
+    const entries = await auditLogService.query(filters);
+    const verification = await auditLogService.verifyChain();
+
+    await auditLogService.record(req, res, {
+      action: 'EXPORT',
+      resourceType: 'AUDIT_LOG',
+      details: { filters, format, entries: entries.length },
+    });
+
+    const stamp = new Date().toISOString().split('T')[0];
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename=audit-log-${stamp}.csv`);
+      res.setHeader('X-Audit-Chain-Valid', String(verification.valid));
+      res.setHeader('X-Audit-Chain-Head', verification.headHash);
+      return res.send(auditLogService.toCsv(entries));
+    }
+
+    res.setHeader('Content-Disposition', `attachment; filename=audit-log-${stamp}.json`);
+    res.json({
+      exportedAt: new Date().toISOString(),
+      filters,
+      chain: verification,
+      entries,
+    });
+  } catch (error: any) {
+    log('Error exporting audit log:', error);
+    res.status(500).json({ error: error.message || 'Failed to export audit log', code: 'EXPORT_ERROR' });
+  }
+});
+
+// Recomputes every hash in the chain
+router.get('/verify', async (req, res) => {
+  try {
+    const verification = await auditLogService.verifyChain();
+    res.json(verification);
+  } catch (error: any) {
+    log('Error verifying audit chain:', error);
+    res.status(500).json({ error: error.message || 'Failed to verify audit log', code: 'VERIFY_ERROR' });
+  }
+});
+
+export default router;
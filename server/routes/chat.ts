@@ -0,0 +1,126 @@
+import { Router, type Request, type Response } from "express";
+import { z } from "zod";
+import type { ChatConversation } from "@shared/schema";
+import { documentChatService, ChatError } from "../services/documentChatService";
+import { documentAccessService } from "../services/documentAccessService";
+import { BudgetExceededError } from "../services/budgetService";
+import debug from "debug";
+
+const log = debug("app:chat");
+const router = Router();
+
+export const chatMessageSchema = z.object({
+  message: z.string().trim().min(1, "Message is required").max(4000),
+  conversationId: z.number().int().positive().optional(),
+});
+
+const vaultChatSchema = chatMessageSchema.extend({
+  documentIds: z.array(z.number().int().positive()).min(1, "Select at least one document").max(20).optional(),
+});
+
+function errorBody(error: any, fallback: string) {
+  if (error instanceof ChatError || error instanceof BudgetExceededError) {
+    return { status: error.statusCode, body: { error: error.message, code: error.code } };
+  }
+  log(fallback, error);
+  return { status: 500, body: { error: error.message || fallback } };
+}
+
+// Answers as JSON, or as server-sent events ("token" frames, then "done")
+// when the client accepts text/event-stream
+export async function respondWithAnswer(req: Request, res: Response, conversation: ChatConversation, message: string) {
+  if (!req.get("accept")?.includes("text/event-stream")) {
+    try {
+      const answer = await documentChatService.ask(conversation, message);
+      return res.json({
+        conversationId: conversation.id,
+        messageId: answer.message.id,
+        response: answer.message.content,
+        citations: answer.citations,
+      });
+    } catch (error: any) {
+      const { status, body } = errorBody(error, "Failed to answer question");
+      return res.status(status).json(body);
+    }
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  const send = (event: string, data: unknown) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+  try {
+    const answer = await documentChatService.ask(conversation, message, (text) => send("token", { text }));
+    send("done", {
+      conversationId: conversation.id,
+      messageId: answer.message.id,
+      response: answer.message.content,
+      citations: answer.citations,
+    });
+  } catch (error: any) {
+    send("error", errorBody(error, "Failed to answer question").body);
+  }
+  res.end();
+}
+
+router.get('/conversations/:id', async (req, res) => {
+  try {
+    const conversation = await documentChatService.getConversation(parseInt(req.params.id), req.user!.id);
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found', code: 'NOT_FOUND' });
+    }
+    const messages = await documentChatService.listMessages(conversation.id);
+    res.json({ ...conversation, messages });
+  } catch (error: any) {
+    const { status, body } = errorBody(error, 'Failed to load conversation');
+    res.status(status).json(body);
+  }
+});
+
+// Questions across vault documents. A new conversation fixes its document set;
+// follow-ups pass conversationId instead.
+router.post('/vault', async (req, res) => {
+  try {
+    const parsed = vaultChatSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: parsed.error.issues.map(issue => issue.message).join(', '),
+        code: 'INVALID_INPUT'
+      });
+    }
+
+    const user = req.user!;
+    const { message, conversationId, documentIds } = parsed.data;
+
+    const existing = conversationId ? await documentChatService.getConversation(conversationId, user.id) : undefined;
+    if (conversationId && (!existing || existing.documentId != null)) {
+      return res.status(404).json({ error: 'Conversation not found', code: 'NOT_FOUND' });
+    }
+    if (!existing && !documentIds) {
+      return res.status(400).json({ error: 'Provide documentIds or a conversationId', code: 'INVALID_INPUT' });
+    }
+
+    // Access is checked on every question, so revoked shares take effect
+    const vaultDocumentIds = existing?.vaultDocumentIds ?? Array.from(new Set(documentIds));
+    for (const id of vaultDocumentIds) {
+      const document = await documentAccessService.loadResource('VAULT_DOCUMENT', id);
+      if (!document || !(await documentAccessService.canAccess(user, 'VAULT_DOCUMENT', document))) {
+        return res.status(404).json({ error: `Vault document ${id} not found`, code: 'NOT_FOUND' });
+      }
+    }
+
+    const conversation = existing ?? await documentChatService.startConversation(
+      user.id,
+      res.locals.tenant?.organizationId ?? null,
+      { vaultDocumentIds },
+    );
+    await respondWithAnswer(req, res, conversation, message);
+  } catch (error: any) {
+    const { status, body } = errorBody(error, 'Failed to answer question');
+    res.status(status).json(body);
+  }
+});
+
+export default router;
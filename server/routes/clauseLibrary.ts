@@ -0,0 +1,161 @@
+import { Router, type Request, type Response } from "express";
+import { z } from "zod";
+import {
+  clauseLibraryFiltersSchema,
+  createLibraryClauseSchema,
+  recordClauseUsageSchema,
+  suggestClausesSchema,
+  updateLibraryClauseSchema,
+} from "@shared/schema";
+import { clauseLibraryService, ClauseLibraryError } from "../services/clauseLibraryService";
+import { auditLogService } from "../services/auditLogService";
+import debug from "debug";
+
+const log = debug("app:clause-library");
+const router = Router();
+
+function sendError(res: Response, error: any, fallback: string) {
+  if (error instanceof ClauseLibraryError) {
+    return res.status(error.statusCode).json({ error: error.message, code: error.code });
+  }
+  log(fallback, error);
+  res.status(500).json({ error: error.message || fallback });
+}
+
+function invalidInput(res: Response, error: z.ZodError) {
+  return res.status(400).json({
+    error: error.issues.map(issue => issue.message).join(', '),
+    code: 'INVALID_INPUT'
+  });
+}
+
+function clauseId(req: Request): number {
+  return parseInt(req.params.id);
+}
+
+router.get('/', async (req, res) => {
+  try {
+    const parsed = clauseLibraryFiltersSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return invalidInput(res, parsed.error);
+    }
+    res.json(await clauseLibraryService.list(req.user!, res.locals.tenant, parsed.data));
+  } catch (error: any) {
+    sendError(res, error, 'Failed to list clauses');
+  }
+});
+
+router.post('/', async (req, res) => {
+  try {
+    const parsed = createLibraryClauseSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalidInput(res, parsed.error);
+    }
+
+    const clause = await clauseLibraryService.create(req.user!, res.locals.tenant, parsed.data);
+
+    await auditLogService.record(req, res, {
+      action: 'CREATE',
+      resourceType: 'LIBRARY_CLAUSE',
+      resourceId: clause.id,
+      details: { title: clause.title, clauseType: clause.clauseType, scope: clause.scope },
+    });
+
+    res.status(201).json(clause);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to create clause');
+  }
+});
+
+// Approved clauses for the text being edited in the redline view or the
+// contract editor
+router.post('/suggest', async (req, res) => {
+  try {
+    const parsed = suggestClausesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalidInput(res, parsed.error);
+    }
+    res.json(await clauseLibraryService.suggest(req.user!, res.locals.tenant, parsed.data));
+  } catch (error: any) {
+    sendError(res, error, 'Failed to suggest clauses');
+  }
+});
+
+router.get('/:id', async (req, res) => {
+  try {
+    res.json(await clauseLibraryService.get(req.user!, res.locals.tenant, clauseId(req)));
+  } catch (error: any) {
+    sendError(res, error, 'Failed to load clause');
+  }
+});
+
+router.put('/:id', async (req, res) => {
+  try {
+    const parsed = updateLibraryClauseSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalidInput(res, parsed.error);
+    }
+
+    const clause = await clauseLibraryService.update(req.user!, res.locals.tenant, clauseId(req), parsed.data);
+
+    await auditLogService.record(req, res, {
+      action: 'EDIT',
+      resourceType: 'LIBRARY_CLAUSE',
+      resourceId: clause.id,
+      details: { status: clause.status, positions: clause.positions.length },
+    });
+
+    res.json(clause);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to update clause');
+  }
+});
+
+router.delete('/:id', async (req, res) => {
+  try {
+    const clause = await clauseLibraryService.retire(req.user!, res.locals.tenant, clauseId(req));
+
+    await auditLogService.record(req, res, {
+      action: 'DELETE',
+      resourceType: 'LIBRARY_CLAUSE',
+      resourceId: clause.id,
+      details: { title: clause.title, retired: true },
+    });
+
+    res.json(clause);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to retire clause');
+  }
+});
+
+router.post('/:id/approve', async (req, res) => {
+  try {
+    const clause = await clauseLibraryService.approve(req.user!, res.locals.tenant, clauseId(req));
+
+    await auditLogService.record(req, res, {
+      action: 'APPROVE',
+      resourceType: 'LIBRARY_CLAUSE',
+      resourceId: clause.id,
+      details: { title: clause.title },
+    });
+
+    res.json(clause);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to approve clause');
+  }
+});
+
+// Records an insertion, or the counterparty's response to one
+router.post('/:id/usage', async (req, res) => {
+  try {
+    const parsed = recordClauseUsageSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalidInput(res, parsed.error);
+    }
+    res.status(201).json(await clauseLibraryService.recordUsage(req.user!, res.locals.tenant, clauseId(req), parsed.data));
+  } catch (error: any) {
+    sendError(res, error, 'Failed to record clause usage');
+  }
+});
+
+export default router;
@@ -1,35 +1,71 @@
-import { Router } from "express";
+import { Router, type Request, type Response } from "express";
 import multer from "multer";
+import { z } from "zod";
 import { db } from "../db";
-import { complianceDocuments, metricsEvents } from "@shared/schema";
+import { complianceDocuments, metricsEvents, MonitoringFrequency, updateRulebooksSchema } from "@shared/schema";
 import { complianceAuditService } from "../services/complianceAuditService";
 import { riskAssessmentService } from "../services/riskAssessment";
 import { modelRouter } from "../services/modelRouter";
-import { monitorDocument } from "../services/complianceMonitor";
+import { predictiveMonitoringService } from "../services/predictiveMonitoring";
 import { metricsCollector } from "../services/metricsCollector";
-import { eq, and, sql } from "drizzle-orm";
+import { requireDocumentAccess } from "../middleware/rbac";
+import { documentAccessService } from "../services/documentAccessService";
+import { organizationService } from "../services/organizationService";
+import { auditLogService } from "../services/auditLogService";
+import { documentProcessor } from "../services/documentProcessor";
+import { listRulebooks, unknownRulebooks } from "../services/rulebooks";
+import { eq, and, inArray, sql } from "drizzle-orm";
+
+const ALLOWED_TYPES = [
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'text/plain'
+];
+
+class UnsupportedFileTypeError extends Error {}
 
 // Configure multer for memory storage
-const upload = multer({
+const uploadOptions: multer.Options = {
   storage: multer.memoryStorage(),
   limits: {
     fileSize: 10 * 1024 * 1024, // 10MB limit
   },
   fileFilter: (_req, file, cb) => {
-    const allowedTypes = [
-      'application/pdf',
-      'application/msword',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-      'text/plain'
-    ];
-
-    if (allowedTypes.includes(file.mimetype)) {
+    if (ALLOWED_TYPES.includes(file.mimetype)) {
       cb(null, true);
     } else {
-      cb(new Error('Invalid file type. Only PDF, DOC, DOCX, and TXT files are supported'));
+      cb(new UnsupportedFileTypeError('Invalid file type. Only PDF, DOC, DOCX, and TXT files are supported'));
     }
   }
-}).single('file');
+};
+const upload = multer(uploadOptions).single('file');
+const auditUpload = multer(uploadOptions).array('files', 5);
+
+// Files rejected by multer (too large, too many, wrong type) are a bad request
+function isUploadError(error: unknown): error is Error {
+  return error instanceof multer.MulterError || error instanceof UnsupportedFileTypeError;
+}
+
+// Multipart fields arrive as strings, so document IDs may be a comma list
+const auditRequestSchema = z.object({
+  text: z.string().max(500000).optional(),
+  documentIds: z.preprocess(
+    value => typeof value === 'string' ? value.split(',').filter(Boolean) : value,
+    z.array(z.coerce.number().int().positive()).max(20)
+  ).optional(),
+  // Contracts to audit; each gets a compliance document linked back to it
+  contractIds: z.preprocess(
+    value => typeof value === 'string' ? value.split(',').filter(Boolean) : value,
+    z.array(z.coerce.number().int().positive()).max(20)
+  ).optional(),
+  // Rulebooks for the documents created from files and text
+  rulebooks: z.preprocess(
+    value => typeof value === 'string' ? value.split(',').filter(Boolean) : value,
+    updateRulebooksSchema.shape.rulebooks
+  ).optional()
+});
+
 
 async function trackMetrics(userId: number, event: {
   modelId: string,
@@ -62,7 +98,7 @@ router.post('/upload', async (req, res) => {
       });
     });
 
-    const userId = (req as any).user?.id;
+    const userId = req.user?.id;
     if (!userId) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
@@ -82,10 +118,18 @@ router.post('/upload', async (req, res) => {
         status: "PENDING",
         riskScore: 0,
         lastScanned: null,
-        nextScanDue: null
+        nextScanDue: null,
+        ...organizationService.scopeValues(res.locals.tenant)
       })
       .returning();
 
+    await auditLogService.record(req, res, {
+      action: 'CREATE',
+      resourceType: 'COMPLIANCE_DOCUMENT',
+      resourceId: document.id,
+      details: { title: document.title, source: 'upload' }
+    });
+
     const startTime = Date.now();
 
     // Analyze the task and select the appropriate model
@@ -124,6 +168,9 @@ router.post('/upload', async (req, res) => {
     });
 
   } catch (error: unknown) {
+    if (isUploadError(error)) {
+      return res.status(400).json({ error: error.message, code: 'INVALID_INPUT' });
+    }
     const err = error as Error;
     console.error('Upload error:', err);
     return res.status(500).json({ error: err.message });
@@ -133,7 +180,7 @@ router.post('/upload', async (req, res) => {
 // Handle pasted document content
 router.post('/analyze', async (req, res) => {
   try {
-    const userId = (req as any).user?.id;
+    const userId = req.user?.id;
     if (!userId) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
@@ -154,10 +201,18 @@ router.post('/analyze', async (req, res) => {
         status: "PENDING",
         riskScore: 0,
         lastScanned: null,
-        nextScanDue: null
+        nextScanDue: null,
+        ...organizationService.scopeValues(res.locals.tenant)
       })
       .returning();
 
+    await auditLogService.record(req, res, {
+      action: 'CREATE',
+      resourceType: 'COMPLIANCE_DOCUMENT',
+      resourceId: document.id,
+      details: { title: document.title, source: 'paste' }
+    });
+
     // Start analysis in background
     complianceAuditService
       .analyzeDocument(document.id, content)
@@ -176,6 +231,196 @@ router.post('/analyze', async (req, res) => {
   }
 });
 
+// Starts an audit of uploaded files, pasted text, contracts and/or existing
+// compliance documents. Poll /audit/:taskId/result for progress and the final report.
+router.post('/audit', async (req, res) => {
+  try {
+    await new Promise((resolve, reject) => {
+      auditUpload(req, res, (err) => {
+        if (err) reject(err);
+        else resolve(true);
+      });
+    });
+
+    const user = req.user!;
+    const parsed = auditRequestSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: parsed.error.issues.map(issue => issue.message).join(', '),
+        code: 'INVALID_INPUT'
+      });
+    }
+
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+    const text = parsed.data.text?.trim();
+    const requestedIds = Array.from(new Set(parsed.data.documentIds ?? []));
+    const contractIds = Array.from(new Set(parsed.data.contractIds ?? []));
+    if (!files.length && !text && !requestedIds.length && !contractIds.length) {
+      return res.status(400).json({ error: 'Provide files, text, document or contract IDs to audit', code: 'INVALID_INPUT' });
+    }
+    const rulebooks = (parsed.data.rulebooks ?? []).map(id => id.toUpperCase());
+    const unknown = unknownRulebooks(rulebooks);
+    if (unknown.length) {
+      return res.status(400).json({ error: `Unknown rulebooks: ${unknown.join(', ')}`, code: 'INVALID_INPUT' });
+    }
+
+    // Check every existing document before creating anything, so a rejected
+    // request leaves no half-made documents behind
+    for (const documentId of requestedIds) {
+      const resource = await documentAccessService.loadResource('COMPLIANCE_DOCUMENT', documentId);
+      if (!resource || !(await documentAccessService.canAccess(user, 'COMPLIANCE_DOCUMENT', resource, 'EDIT'))) {
+        return res.status(404).json({ error: `Compliance document ${documentId} not found`, code: 'NOT_FOUND' });
+      }
+    }
+
+    const sources: Array<{
+      title: string;
+      content: string;
+      documentType: string;
+      source: string;
+      sourceDocumentId?: number;
+    }> = [];
+    for (const contractId of contractIds) {
+      const contract = await documentAccessService.loadResource('DOCUMENT', contractId);
+      if (!contract || !(await documentAccessService.canAccess(user, 'DOCUMENT', contract, 'VIEW'))) {
+        return res.status(404).json({ error: `Document ${contractId} not found`, code: 'NOT_FOUND' });
+      }
+      if (!contract.content?.trim()) {
+        return res.status(422).json({ error: `Document ${contractId} has no content`, code: 'UNPROCESSABLE_FILE' });
+      }
+      sources.push({
+        title: contract.title,
+        content: contract.content,
+        documentType: 'text/plain',
+        source: 'contract',
+        sourceDocumentId: contract.id
+      });
+    }
+    for (const file of files) {
+      const processed = await documentProcessor.processDocument(file.buffer, file.originalname, file.mimetype);
+      if (!processed.success || !processed.content?.trim()) {
+        return res.status(422).json({
+          error: `Could not read ${file.originalname}: ${processed.error || 'no text found'}`,
+          code: 'UNPROCESSABLE_FILE'
+        });
+      }
+      sources.push({ title: file.originalname, content: processed.content, documentType: file.mimetype, source: 'upload' });
+    }
+    if (text) {
+      sources.push({ title: 'Pasted Document', content: text, documentType: 'text/plain', source: 'paste' });
+    }
+
+    const documentIds = [...requestedIds];
+    for (const source of sources) {
+      const [document] = await db
+        .insert(complianceDocuments)
+        .values({
+          userId: user.id,
+          title: source.title,
+          content: source.content,
+          documentType: source.documentType,
+          sourceDocumentId: source.sourceDocumentId ?? null,
+          status: "PENDING",
+          riskScore: 0,
+          lastScanned: null,
+          nextScanDue: null,
+          rulebooks,
+          ...organizationService.scopeValues(res.locals.tenant)
+        })
+        .returning();
+
+      await auditLogService.record(req, res, {
+        action: 'CREATE',
+        resourceType: 'COMPLIANCE_DOCUMENT',
+        resourceId: document.id,
+        details: { title: document.title, source: source.source, sourceDocumentId: document.sourceDocumentId, rulebooks }
+      });
+      documentIds.push(document.id);
+    }
+
+    const task = await complianceAuditService.createAuditTask(
+      documentIds,
+      user.id,
+      res.locals.tenant?.organizationId ?? null
+    );
+
+    res.status(202).json({ taskId: String(task.id), status: 'processing', progress: 0, documentIds });
+  } catch (error: unknown) {
+    if (isUploadError(error)) {
+      return res.status(400).json({ error: error.message, code: 'INVALID_INPUT' });
+    }
+    const err = error as Error;
+    console.error('Audit start error:', err);
+    return res.status(500).json({ error: err.message });
+  }
+});
+
+// Audit tasks are visible to whoever started them and to their organization
+router.get('/audit/:taskId/result', async (req, res) => {
+  try {
+    const user = req.user!;
+    const taskId = parseInt(req.params.taskId);
+    const task = isNaN(taskId) ? null : await complianceAuditService.getAuditTask(taskId);
+    const visible = task && (
+      task.createdBy === user.id ||
+      (task.organizationId != null && task.organizationId === res.locals.tenant?.organizationId)
+    );
+    if (!visible) {
+      return res.status(404).json({ error: 'Audit task not found', code: 'NOT_FOUND' });
+    }
+
+    res.json(await complianceAuditService.describeAuditTask(task));
+  } catch (error: unknown) {
+    const err = error as Error;
+    console.error('Audit result error:', err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Rulebooks available to compliance checks, with their rules
+router.get('/rulebooks', (_req, res) => {
+  res.json(listRulebooks());
+});
+
+// Chooses the rulebooks a document is checked against; an empty list checks
+// it against all of them
+router.put('/document/:documentId/rulebooks', requireDocumentAccess("COMPLIANCE_DOCUMENT", { param: 'documentId', permission: 'EDIT' }), async (req, res) => {
+  try {
+    const parsed = updateRulebooksSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: parsed.error.issues.map(issue => issue.message).join(', '),
+        code: 'INVALID_INPUT'
+      });
+    }
+
+    const rulebooks = Array.from(new Set(parsed.data.rulebooks.map(id => id.toUpperCase())));
+    const unknown = unknownRulebooks(rulebooks);
+    if (unknown.length) {
+      return res.status(400).json({ error: `Unknown rulebooks: ${unknown.join(', ')}`, code: 'INVALID_INPUT' });
+    }
+
+    const [document] = await db
+      .update(complianceDocuments)
+      .set({ rulebooks, updatedAt: new Date() })
+      .where(eq(complianceDocuments.id, res.locals.document.id))
+      .returning();
+
+    await auditLogService.record(req, res, {
+      action: 'EDIT',
+      resourceType: 'COMPLIANCE_DOCUMENT',
+      resourceId: document.id,
+      details: { rulebooks }
+    });
+
+    res.json(document);
+  } catch (error: unknown) {
+    const err = error as Error;
+    console.error('Rulebook update error:', err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
 // Get analysis progress
 router.get('/progress/:documentId', async (req, res) => {
   try {
@@ -195,19 +440,15 @@ router.get('/progress/:documentId', async (req, res) => {
 });
 
 // Get document status
-router.get('/document/:documentId', async (req, res) => {
+router.get('/document/:documentId', requireDocumentAccess("COMPLIANCE_DOCUMENT", { param: 'documentId' }), async (req, res) => {
   try {
-    const documentId = parseInt(req.params.documentId);
-    const [document] = await db
-      .select()
-      .from(complianceDocuments)
-      .where(eq(complianceDocuments.id, documentId));
-
-    if (!document) {
-      return res.status(404).json({ error: 'Document not found' });
-    }
+    await auditLogService.record(req, res, {
+      action: 'VIEW',
+      resourceType: 'COMPLIANCE_DOCUMENT',
+      resourceId: res.locals.document.id
+    });
 
-    res.json(document);
+    res.json(res.locals.document);
   } catch (error: unknown) {
     const err = error as Error;
     console.error('Document fetch error:', err);
@@ -218,7 +459,7 @@ router.get('/document/:documentId', async (req, res) => {
 // Add metrics endpoint
 router.get('/metrics', async (req, res) => {
   try {
-    const userId = (req as any).user?.id;
+    const userId = req.user?.id;
     if (!userId) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
@@ -308,36 +549,62 @@ router.get('/metrics', async (req, res) => {
   }
 });
 
-// Start monitoring for documents
+const monitorSchema = z.object({
+  documentIds: z.array(z.coerce.number().int().positive()).min(1, 'No documents specified for monitoring').max(100),
+  frequency: MonitoringFrequency.default('DAILY')
+});
+
+const stopMonitoringSchema = monitorSchema.pick({ documentIds: true });
+
+// Resolves when the caller may edit every listed document, otherwise answers
+// 404 for the first one they cannot see
+async function ensureEditable(req: Request, res: Response, documentIds: number[]): Promise<boolean> {
+  for (const documentId of documentIds) {
+    const resource = await documentAccessService.loadResource('COMPLIANCE_DOCUMENT', documentId);
+    if (!resource || !(await documentAccessService.canAccess(req.user!, 'COMPLIANCE_DOCUMENT', resource, 'EDIT'))) {
+      res.status(404).json({ error: `Compliance document ${documentId} not found`, code: 'NOT_FOUND' });
+      return false;
+    }
+  }
+  return true;
+}
+
+// Start monitoring for documents. The first scheduled check runs right away;
+// later ones follow the chosen frequency.
 router.post('/monitor', async (req, res) => {
   try {
-    const userId = (req as any).user?.id;
-    if (!userId) {
-      return res.status(401).json({ error: 'Not authenticated' });
+    const parsed = monitorSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: parsed.error.issues.map(issue => issue.message).join(', '),
+        code: 'INVALID_INPUT'
+      });
     }
 
-    const { documentIds } = req.body;
-    if (!Array.isArray(documentIds) || documentIds.length === 0) {
-      return res.status(400).json({ error: 'No documents specified for monitoring' });
-    }
+    const documentIds = Array.from(new Set(parsed.data.documentIds));
+    if (!(await ensureEditable(req, res, documentIds))) return;
 
-    // Update documents to monitoring status
     await db
       .update(complianceDocuments)
       .set({
         status: "MONITORING",
         nextScanDue: new Date() // Schedule immediate scan
       })
-      .where(eq(complianceDocuments.userId, userId));
+      .where(inArray(complianceDocuments.id, documentIds));
 
-    // Start monitoring process for each document
+    const schedules = [];
     for (const documentId of documentIds) {
-      monitorDocument(documentId).catch(error => {
-        console.error(`Failed to start monitoring for document ${documentId}:`, error);
+      schedules.push(await predictiveMonitoringService.scheduleMonitoring(documentId, parsed.data.frequency, new Date()));
+
+      await auditLogService.record(req, res, {
+        action: 'EDIT',
+        resourceType: 'COMPLIANCE_DOCUMENT',
+        resourceId: documentId,
+        details: { monitoring: 'started', frequency: parsed.data.frequency }
       });
     }
 
-    res.json({ success: true, message: 'Monitoring started' });
+    res.json({ success: true, message: 'Monitoring started', schedules });
 
   } catch (error: unknown) {
     const err = error as Error;
@@ -349,21 +616,31 @@ router.post('/monitor', async (req, res) => {
 // Stop monitoring for documents
 router.post('/stop-monitoring', async (req, res) => {
   try {
-    const userId = (req as any).user?.id;
-    if (!userId) {
-      return res.status(401).json({ error: 'Not authenticated' });
+    const parsed = stopMonitoringSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: parsed.error.issues.map(issue => issue.message).join(', '),
+        code: 'INVALID_INPUT'
+      });
     }
 
-    const { documentIds } = req.body;
-    if (!Array.isArray(documentIds) || documentIds.length === 0) {
-      return res.status(400).json({ error: 'No documents specified' });
-    }
+    const documentIds = Array.from(new Set(parsed.data.documentIds));
+    if (!(await ensureEditable(req, res, documentIds))) return;
 
-    // Update documents to stop monitoring
+    await predictiveMonitoringService.stopMonitoring(documentIds);
     await db
       .update(complianceDocuments)
-      .set({ status: "PAUSED" })
-      .where(eq(complianceDocuments.userId, userId));
+      .set({ status: "PAUSED", nextScanDue: null })
+      .where(inArray(complianceDocuments.id, documentIds));
+
+    for (const documentId of documentIds) {
+      await auditLogService.record(req, res, {
+        action: 'EDIT',
+        resourceType: 'COMPLIANCE_DOCUMENT',
+        resourceId: documentId,
+        details: { monitoring: 'stopped' }
+      });
+    }
 
     res.json({ success: true, message: 'Monitoring stopped' });
 
@@ -377,7 +654,7 @@ router.post('/stop-monitoring', async (req, res) => {
 // Get monitoring results
 router.get('/results', async (req, res) => {
   try {
-    const userId = (req as any).user?.id;
+    const userId = req.user?.id;
     if (!userId) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
@@ -400,7 +677,10 @@ router.get('/results', async (req, res) => {
         nextScanDue: complianceDocuments.nextScanDue
       })
       .from(complianceDocuments)
-      .where(eq(complianceDocuments.userId, userId));
+      .where(and(
+        organizationService.scopeFilter("complianceDocuments", res.locals.tenant),
+        documentAccessService.accessibleFilter(req.user!, "COMPLIANCE_DOCUMENT")
+      ));
 
     res.json(documents);
 
@@ -414,7 +694,7 @@ router.get('/results', async (req, res) => {
 // Get all documents for current user
 router.get('/api/compliance/documents', async (req, res) => {
   try {
-    const userId = (req as any).user?.id;
+    const userId = req.user?.id;
     if (!userId) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
@@ -428,7 +708,10 @@ router.get('/api/compliance/documents', async (req, res) => {
         riskScore: complianceDocuments.riskScore
       })
       .from(complianceDocuments)
-      .where(eq(complianceDocuments.userId, userId));
+      .where(and(
+        organizationService.scopeFilter("complianceDocuments", res.locals.tenant),
+        documentAccessService.accessibleFilter(req.user!, "COMPLIANCE_DOCUMENT")
+      ));
 
     res.json(documents);
   } catch (error: unknown) {
@@ -439,9 +722,9 @@ router.get('/api/compliance/documents', async (req, res) => {
 });
 
 // Get risk assessment results for a document
-router.get('/api/compliance/documents/:id/risks', async (req, res) => {
+router.get('/api/compliance/documents/:id/risks', requireDocumentAccess("COMPLIANCE_DOCUMENT"), async (req, res) => {
   try {
-    const userId = (req as any).user?.id;
+    const userId = req.user?.id;
     if (!userId) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
@@ -449,6 +732,13 @@ router.get('/api/compliance/documents/:id/risks', async (req, res) => {
     const documentId = parseInt(req.params.id);
     const risks = await riskAssessmentService.getDocumentRisks(documentId);
 
+    await auditLogService.record(req, res, {
+      action: 'VIEW',
+      resourceType: 'COMPLIANCE_DOCUMENT',
+      resourceId: documentId,
+      details: { view: 'risks' }
+    });
+
     res.json(risks);
   } catch (error: unknown) {
     const err = error as Error;
@@ -459,7 +749,7 @@ router.get('/api/compliance/documents/:id/risks', async (req, res) => {
 
 router.get('/dashboard-insights', async (req, res) => {
   try {
-    const userId = (req as any).user?.id;
+    const userId = req.user?.id;
     if (!userId) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
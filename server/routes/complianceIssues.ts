@@ -0,0 +1,244 @@
+import { Router, type Request, type Response } from "express";
+import multer from "multer";
+import { z } from "zod";
+import {
+  assignComplianceIssueSchema,
+  complianceIssueCommentSchema,
+  complianceIssueEvidenceSchema,
+  ComplianceIssueStatus,
+  linkFixVersionSchema,
+  RiskSeverity,
+  updateComplianceIssueStatusSchema,
+} from "@shared/schema";
+import {
+  complianceRemediationService,
+  ISSUE_SLA_DAYS,
+  RemediationError,
+} from "../services/complianceRemediationService";
+import { auditLogService } from "../services/auditLogService";
+import debug from "debug";
+
+const log = debug("app:compliance-issues");
+const router = Router();
+
+const evidenceUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 25 * 1024 * 1024 },
+}).single('file');
+
+const issueFiltersSchema = z.object({
+  documentId: z.coerce.number().int().positive().optional(),
+  status: ComplianceIssueStatus.optional(),
+  severity: RiskSeverity.optional(),
+  assigneeId: z.coerce.number().int().positive().optional(),
+  breached: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+});
+
+function sendError(res: Response, error: any, fallback: string) {
+  if (error instanceof RemediationError) {
+    return res.status(error.statusCode).json({ error: error.message, code: error.code });
+  }
+  if (error instanceof multer.MulterError) {
+    return res.status(400).json({ error: error.message, code: 'INVALID_INPUT' });
+  }
+  log(fallback, error);
+  res.status(500).json({ error: error.message || fallback });
+}
+
+function invalidInput(res: Response, error: z.ZodError) {
+  return res.status(400).json({
+    error: error.issues.map(issue => issue.message).join(', '),
+    code: 'INVALID_INPUT'
+  });
+}
+
+function issueId(req: Request): number {
+  return parseInt(req.params.id);
+}
+
+router.get('/', async (req, res) => {
+  try {
+    const parsed = issueFiltersSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return invalidInput(res, parsed.error);
+    }
+    res.json(await complianceRemediationService.listIssues(req.user!, res.locals.tenant, parsed.data));
+  } catch (error: any) {
+    sendError(res, error, 'Failed to list compliance issues');
+  }
+});
+
+router.get('/sla', (_req, res) => {
+  res.json({ slaDays: ISSUE_SLA_DAYS });
+});
+
+router.get('/reports/assignees', async (req, res) => {
+  try {
+    res.json(await complianceRemediationService.assigneeReport(req.user!, res.locals.tenant));
+  } catch (error: any) {
+    sendError(res, error, 'Failed to build assignee remediation report');
+  }
+});
+
+router.get('/reports/documents', async (req, res) => {
+  try {
+    res.json(await complianceRemediationService.documentReport(req.user!, res.locals.tenant));
+  } catch (error: any) {
+    sendError(res, error, 'Failed to build document remediation report');
+  }
+});
+
+router.get('/:id', async (req, res) => {
+  try {
+    res.json(await complianceRemediationService.getIssueDetail(req.user!, issueId(req)));
+  } catch (error: any) {
+    sendError(res, error, 'Failed to load compliance issue');
+  }
+});
+
+router.put('/:id/assignment', async (req, res) => {
+  try {
+    const parsed = assignComplianceIssueSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalidInput(res, parsed.error);
+    }
+
+    const issue = await complianceRemediationService.assign(req.user!, issueId(req), parsed.data);
+
+    await auditLogService.record(req, res, {
+      action: 'EDIT',
+      resourceType: 'COMPLIANCE_ISSUE',
+      resourceId: issue.id,
+      details: { assignedTo: issue.assignedTo, dueDate: issue.dueDate },
+    });
+
+    res.json(issue);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to assign compliance issue');
+  }
+});
+
+router.put('/:id/status', async (req, res) => {
+  try {
+    const parsed = updateComplianceIssueStatusSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalidInput(res, parsed.error);
+    }
+
+    const { previousStatus, issue } = await complianceRemediationService.updateStatus(
+      req.user!,
+      issueId(req),
+      parsed.data
+    );
+
+    await auditLogService.record(req, res, {
+      action: parsed.data.status === 'WAIVED' ? 'APPROVE' : 'EDIT',
+      resourceType: 'COMPLIANCE_ISSUE',
+      resourceId: issue.id,
+      details: {
+        from: previousStatus,
+        to: issue.status,
+        waiverJustification: issue.waiverJustification,
+        fixedInVersionId: issue.fixedInVersionId,
+      },
+    });
+
+    res.json(issue);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to update compliance issue status');
+  }
+});
+
+router.put('/:id/fix-version', async (req, res) => {
+  try {
+    const parsed = linkFixVersionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalidInput(res, parsed.error);
+    }
+
+    const issue = await complianceRemediationService.linkFixVersion(req.user!, issueId(req), parsed.data.versionId);
+
+    await auditLogService.record(req, res, {
+      action: 'EDIT',
+      resourceType: 'COMPLIANCE_ISSUE',
+      resourceId: issue.id,
+      details: { fixedInVersionId: parsed.data.versionId },
+    });
+
+    res.json(issue);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to link fixing document version');
+  }
+});
+
+router.post('/:id/comments', async (req, res) => {
+  try {
+    const parsed = complianceIssueCommentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalidInput(res, parsed.error);
+    }
+
+    const comment = await complianceRemediationService.addComment(req.user!, issueId(req), parsed.data.body);
+    res.status(201).json(comment);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to add comment');
+  }
+});
+
+// Multipart with a "file" part, or JSON/form fields with a url
+router.post('/:id/evidence', async (req, res) => {
+  try {
+    await new Promise((resolve, reject) => {
+      evidenceUpload(req, res, (err) => {
+        if (err) reject(err);
+        else resolve(true);
+      });
+    });
+
+    const parsed = complianceIssueEvidenceSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return invalidInput(res, parsed.error);
+    }
+
+    const evidence = await complianceRemediationService.addEvidence(req.user!, issueId(req), {
+      ...parsed.data,
+      file: req.file,
+    });
+
+    await auditLogService.record(req, res, {
+      action: 'CREATE',
+      resourceType: 'COMPLIANCE_ISSUE',
+      resourceId: issueId(req),
+      details: { evidenceId: evidence.id, name: evidence.name, hasFile: evidence.hasFile },
+    });
+
+    res.status(201).json(evidence);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to attach evidence');
+  }
+});
+
+router.get('/:id/evidence/:evidenceId/download', async (req, res) => {
+  try {
+    const { evidence, content } = await complianceRemediationService.getEvidenceFile(
+      req.user!,
+      issueId(req),
+      parseInt(req.params.evidenceId)
+    );
+
+    await auditLogService.record(req, res, {
+      action: 'DOWNLOAD',
+      resourceType: 'COMPLIANCE_ISSUE',
+      resourceId: evidence.issueId,
+      details: { evidenceId: evidence.id },
+    });
+
+    res.setHeader('Content-Type', evidence.mimeType ?? 'application/octet-stream');
+    res.setHeader('Content-Disposition', `attachment; filename="${encodeURIComponent(evidence.name)}"`);
+    res.send(content);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to download evidence');
+  }
+});
+
+export default router;
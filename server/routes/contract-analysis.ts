@@ -2,9 +2,26 @@ import { Router } from 'express';
 import { z } from 'zod';
 import { contractAnalysisService } from '../services/contractAnalysisService';
 import { workflowOrchestrator } from '../services/workflowOrchestrator';
+import { auditLogService } from '../services/auditLogService';
+import { SignatureError } from '../services/signatureService';
+import { requireDocumentAccess } from '../middleware/rbac';
+import { clauseExtractionService, ClauseExtractionError } from '../services/clauseExtractionService';
+import { FLAG_ATTRIBUTES, listClauseTypes, NUMERIC_ATTRIBUTES, TEXT_ATTRIBUTES } from '../services/clauses';
+import { ClauseType, createEnvelopeSchema, extractClausesSchema } from '@shared/schema';
 
 const router = Router();
 
+// Attribute filters arrive as min[capAmount]=1000000, flags[mutual]=true,
+// text[jurisdiction]=new york
+const clauseSearchSchema = z.object({
+  type: ClauseType.optional(),
+  documentId: z.coerce.number().int().positive().optional(),
+  min: z.record(z.enum(NUMERIC_ATTRIBUTES), z.coerce.number()).optional(),
+  max: z.record(z.enum(NUMERIC_ATTRIBUTES), z.coerce.number()).optional(),
+  flags: z.record(z.enum(FLAG_ATTRIBUTES), z.enum(['true', 'false']).transform(value => value === 'true')).optional(),
+  text: z.record(z.enum(TEXT_ATTRIBUTES), z.string().min(1).max(200)).optional(),
+});
+
 const analyzeRequestSchema = z.object({
   content: z.string().min(1, "Contract content is required"),
   industry: z.string().optional(),
@@ -31,6 +48,34 @@ router.post('/analyze', async (req, res) => {
   }
 });
 
+// Clause taxonomy used by extraction
+router.get('/clause-types', (_req, res) => {
+  res.json({ success: true, clauseTypes: listClauseTypes() });
+});
+
+// Search extracted clauses across every contract the caller can see
+router.get('/clauses', async (req, res) => {
+  try {
+    const parsed = clauseSearchSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        error: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', '),
+        code: 'INVALID_INPUT'
+      });
+    }
+
+    const clauses = await clauseExtractionService.searchClauses(req.user!, res.locals.tenant, parsed.data);
+    return res.json({ success: true, clauses });
+  } catch (error) {
+    console.error('Clause search error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to search clauses'
+    });
+  }
+});
+
 // Update a clause suggestion
 router.post('/clauses/:clauseId/update', async (req, res) => {
   try {
@@ -58,17 +103,93 @@ router.post('/clauses/:clauseId/update', async (req, res) => {
   }
 });
 
+// Extract clauses from a version (default: the latest) of a contract
+router.post('/:contractId/clauses/extract', requireDocumentAccess('DOCUMENT', { param: 'contractId' }), async (req, res) => {
+  try {
+    const parsed = extractClausesSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        error: parsed.error.issues.map(issue => issue.message).join(', '),
+        code: 'INVALID_INPUT'
+      });
+    }
+
+    const contractId = parseInt(req.params.contractId);
+    const result = await clauseExtractionService.extract(contractId, parsed.data.versionId, req.user!.id);
+
+    await auditLogService.record(req, res, {
+      action: 'CREATE',
+      resourceType: 'DOCUMENT',
+      resourceId: contractId,
+      details: { clauseExtractionId: result.extraction.id, versionId: result.extraction.versionId, clauses: result.clauses.length }
+    });
+
+    return res.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof ClauseExtractionError) {
+      return res.status(error.statusCode).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('Clause extraction error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to extract clauses'
+    });
+  }
+});
+
+// Stored clauses for the current extraction, or for ?versionId=
+router.get('/:contractId/clauses', requireDocumentAccess('DOCUMENT', { param: 'contractId' }), async (req, res) => {
+  try {
+    const versionId = req.query.versionId ? parseInt(req.query.versionId as string) : undefined;
+    const result = await clauseExtractionService.getExtraction(parseInt(req.params.contractId), versionId);
+    if (!result) {
+      return res.status(404).json({ success: false, error: 'No clause extraction for this contract', code: 'NOT_FOUND' });
+    }
+    return res.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Clause fetch error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch clauses'
+    });
+  }
+});
+
 // Start e-signature process
-router.post('/:contractId/signature', async (req, res) => {
+router.post('/:contractId/signature', requireDocumentAccess('DOCUMENT', { param: 'contractId', permission: 'EDIT' }), async (req, res) => {
   try {
     const { contractId } = req.params;
-    const result = await workflowOrchestrator.initiateSignature(parseInt(contractId));
+    const parsed = createEnvelopeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        error: parsed.error.issues.map(issue => issue.message).join(', '),
+        code: 'INVALID_INPUT'
+      });
+    }
+
+    const result = await workflowOrchestrator.initiateSignature(parseInt(contractId), {
+      ...parsed.data,
+      createdBy: req.user!.id,
+      organizationId: res.locals.document.organizationId ?? null,
+    });
+
+    await auditLogService.record(req, res, {
+      action: 'SHARE',
+      resourceType: 'DOCUMENT',
+      resourceId: contractId,
+      details: { stage: 'signature', envelopeId: result.signatureId, signers: result.signers.map(signer => signer.email) }
+    });
 
     return res.json({
       success: true,
       ...result
     });
   } catch (error) {
+    if (error instanceof SignatureError) {
+      return res.status(error.statusCode).json({ success: false, error: error.message, code: error.code });
+    }
     console.error('E-signature initiation error:', error);
     return res.status(500).json({
       success: false,
@@ -83,6 +204,13 @@ router.post('/:contractId/review', async (req, res) => {
     const { contractId } = req.params;
     const result = await workflowOrchestrator.initiateReview(parseInt(contractId));
 
+    await auditLogService.record(req, res, {
+      action: 'EDIT',
+      resourceType: 'VAULT_DOCUMENT',
+      resourceId: contractId,
+      details: { stage: 'review' }
+    });
+
     return res.json({
       success: true,
       ...result
@@ -97,11 +225,18 @@ router.post('/:contractId/review', async (req, res) => {
 });
 
 // Get contract version history
-router.get('/:contractId/versions', async (req, res) => {
+router.get('/:contractId/versions', requireDocumentAccess('DOCUMENT', { param: 'contractId' }), async (req, res) => {
   try {
     const { contractId } = req.params;
     const versions = await workflowOrchestrator.getVersionHistory(parseInt(contractId));
 
+    await auditLogService.record(req, res, {
+      action: 'VIEW',
+      resourceType: 'DOCUMENT',
+      resourceId: res.locals.document.id,
+      details: { view: 'versions' }
+    });
+
     return res.json({
       success: true,
       versions
@@ -116,11 +251,18 @@ router.get('/:contractId/versions', async (req, res) => {
 });
 
 // Get diagnostic report
-router.get('/:contractId/diagnostic', async (req, res) => {
+router.get('/:contractId/diagnostic', requireDocumentAccess('DOCUMENT', { param: 'contractId' }), async (req, res) => {
   try {
     const { contractId } = req.params;
     const report = await workflowOrchestrator.getDiagnosticReport(parseInt(contractId));
 
+    await auditLogService.record(req, res, {
+      action: 'VIEW',
+      resourceType: 'DOCUMENT',
+      resourceId: res.locals.document.id,
+      details: { view: 'diagnostic' }
+    });
+
     return res.json({
       success: true,
       ...report
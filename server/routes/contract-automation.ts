@@ -1,17 +1,26 @@
 import { Router } from 'express';
 import { db } from '../db';
-import { contractTemplates, documents } from '@shared/schema';
-import { eq } from 'drizzle-orm';
-import { anthropic } from '../anthropic';
-import OpenAI from 'openai';
+import { documents } from '@shared/schema';
+import { z } from 'zod';
 import { generateContract, generateTemplatePreview, generateSmartSuggestions } from '../services/contract-automation-service';
+import { templateLibraryService, TemplateLibraryError } from '../services/templateLibraryService';
+import { TemplateValueError } from '../services/templates';
+import { organizationService } from '../services/organizationService';
+import { auditLogService } from '../services/auditLogService';
 import { pdfService } from '../services/pdf-service';
 import * as docx from 'docx';
 import multer from 'multer';
 import { documentProcessor } from '../services/documentProcessor';
 
 const router = Router();
-const openai = new OpenAI();
+
+const generateFromTemplateSchema = z.object({
+  // Template id or key
+  templateId: z.union([z.string().min(1), z.number().int().positive()]),
+  variables: z.record(z.unknown()).default({}),
+  customClauses: z.array(z.string()).optional(),
+  aiAssistance: z.boolean().optional(),
+});
 
 // Configure multer
 const upload = multer({
@@ -80,7 +89,7 @@ router.post('/process', upload.single('file'), async (req, res) => {
         metadata: metadata,
         createdAt: new Date(),
         updatedAt: new Date(),
-        userId: (req.user as any)?.id || 1, // Type cast to avoid TypeScript error
+        userId: req.user?.id || 1, // Type cast to avoid TypeScript error
         status: 'pending'
       })
       .returning();
@@ -101,25 +110,15 @@ router.post('/process', upload.single('file'), async (req, res) => {
   }
 });
 
-// Get all templates with search and filtering
+// Published templates from the template library, grouped by category
 router.get('/templates', async (req, res) => {
   try {
     const { search, category } = req.query;
-    let templates = await db.select().from(contractTemplates);
-
-    // Filter by search if provided
-    if (search && typeof search === 'string') {
-      const searchLower = search.toLowerCase();
-      templates = templates.filter(template =>
-        template.name.toLowerCase().includes(searchLower) ||
-        template.description.toLowerCase().includes(searchLower)
-      );
-    }
-
-    // Filter by category if provided
-    if (category && typeof category === 'string') {
-      templates = templates.filter(template => template.category === category);
-    }
+    const templates = await templateLibraryService.list(req.user!, res.locals.tenant, {
+      status: 'PUBLISHED',
+      search: typeof search === 'string' && search ? search : undefined,
+      category: typeof category === 'string' && category ? category : undefined,
+    });
 
     // Format response for frontend
     const groupedTemplates = templates.reduce((acc, template) => {
@@ -143,6 +142,77 @@ router.get('/templates', async (req, res) => {
   }
 });
 
+// Fills in a published template and saves the result as a document that
+// records the template version it came from
+router.post('/generate', async (req, res) => {
+  try {
+    const parsed = generateFromTemplateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        error: parsed.error.issues.map(issue => issue.message).join(', '),
+        code: 'INVALID_INPUT'
+      });
+    }
+
+    const tenant = res.locals.tenant;
+    const { content, template } = await generateContract({
+      ...parsed.data,
+      templateId: String(parsed.data.templateId),
+      organizationId: tenant?.organizationId ?? null,
+    });
+
+    const title = `${template.name} - Generated`;
+    const [document] = await db.insert(documents)
+      .values({
+        title,
+        content,
+        userId: req.user!.id,
+        ...organizationService.scopeValues(tenant),
+        templateVersionId: template.versionId,
+        agentType: 'CONTRACT_AUTOMATION',
+        analysis: {
+          documentType: 'Contract',
+          classification: 'Generated Contract',
+          source: 'contract-automation',
+          contractDetails: {
+            generatedAt: new Date().toISOString(),
+            template: template.key,
+            templateVersion: template.version,
+          },
+        },
+      })
+      .returning();
+
+    await auditLogService.record(req, res, {
+      action: 'CREATE',
+      resourceType: 'DOCUMENT',
+      resourceId: document.id,
+      details: { title, source: 'contract-automation', templateId: template.templateId, templateVersionId: template.versionId },
+    });
+
+    return res.json({
+      success: true,
+      documentId: document.id,
+      title,
+      content,
+      template: { id: template.templateId, key: template.key, version: template.version, versionId: template.versionId }
+    });
+  } catch (error) {
+    if (error instanceof TemplateLibraryError) {
+      return res.status(error.statusCode).json({ success: false, error: error.message, code: error.code });
+    }
+    if (error instanceof TemplateValueError) {
+      return res.status(400).json({ success: false, error: error.message, code: 'INVALID_VALUES', problems: error.problems });
+    }
+    console.error('Contract generation error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to generate contract'
+    });
+  }
+});
+
 // Update template creation endpoint
 router.post('/templates/upload', upload.single('file'), async (req, res) => {
   try {
@@ -163,17 +233,16 @@ router.post('/templates/upload', upload.single('file'), async (req, res) => {
       throw new Error('Unsupported file type');
     }
 
-    const [template] = await db.insert(contractTemplates)
-      .values({
-        name: req.file.originalname,
-        description: 'Template uploaded via API',
-        category: req.body.category || 'General',
-        content: content,
-        metadata: metadata,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      })
-      .returning();
+    // Uploads start as drafts in the caller's organization, or in the
+    // shared library for admins working outside one
+    const template = await templateLibraryService.create(req.user!, res.locals.tenant, {
+      name: req.file.originalname,
+      description: 'Template uploaded via API',
+      category: req.body.category || 'GENERAL',
+      content,
+      metadata: { ...metadata, variables: [] },
+      publish: false,
+    });
 
     return res.json({
       success: true,
@@ -183,6 +252,9 @@ router.post('/templates/upload', upload.single('file'), async (req, res) => {
     });
 
   } catch (error) {
+    if (error instanceof TemplateLibraryError) {
+      return res.status(error.statusCode).json({ success: false, error: error.message, code: error.code });
+    }
     console.error('Template upload error:', error);
     return res.status(500).json({
       success: false,
@@ -1,14 +1,29 @@
 import { Router } from "express";
 import multer from "multer";
 import { db } from "../db";
-import { documents } from "@shared/schema";
+import { documents, trackedChangesExportSchema, ApprovalChainMode, ContractStatus, type Document, type WorkflowEvent } from "@shared/schema";
 import { documentProcessor } from "../services/documentProcessor";
-import OpenAI from "openai";
-import { eq } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
 import { pdfService } from "../services/pdf-service";
+import { docxRedlineService } from "../services/docxRedlineService";
+import { requireDocumentAccess } from "../middleware/rbac";
+import { organizationService } from "../services/organizationService";
+import { auditLogService } from "../services/auditLogService";
+import { modelRouter } from "../services/modelRouter";
+import { approvalService, ApprovalError } from "../services/approvalService";
+import { signatureService } from "../services/signatureService";
+import { documentChatService } from "../services/documentChatService";
+import { chatMessageSchema, respondWithAnswer } from "./chat";
+import { generateContract, getTemplate } from "../services/templateStore";
+import { TemplateValueError } from "../services/templates";
+import {
+  contractLifecycleService,
+  contractStatusOf,
+  TransitionError,
+} from "../services/contractLifecycleService";
+import { z } from "zod";
 
 const router = Router();
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
 
 // Configure multer for document uploads
 const upload = multer({
@@ -72,30 +87,28 @@ router.post(
         throw new Error("Failed to extract content from document");
       }
 
-      // Initial analysis with GPT-4o
-      const analysisResponse = await openai.chat.completions.create({
-        model: "gpt-4o", // Latest GPT-4o model
+      // Initial structured analysis
+      const analysisResponse = await modelRouter.complete({
+        role: "structured",
+        system:
+          "You are a legal document analyzer. Analyze the document and provide a structured analysis.",
         messages: [
-          {
-            role: "system",
-            content:
-              "You are a legal document analyzer. Analyze the document and provide a structured analysis.",
-          },
           {
             role: "user",
             content: result.content,
           },
         ],
-        response_format: { type: "json_object" },
+        responseFormat: "json",
       });
 
-      const analysis = JSON.parse(analysisResponse.choices[0].message.content);
+      const analysis = JSON.parse(analysisResponse.text);
 
       // Create document record
       const [document] = await db
         .insert(documents)
         .values({
           userId: req.user?.id || 1,
+          ...organizationService.scopeValues(res.locals.tenant),
           title: req.file.originalname,
           content: result.content,
           processingStatus: "PROCESSING",
@@ -109,6 +122,13 @@ router.post(
         })
         .returning();
 
+      await auditLogService.record(req, res, {
+        action: "CREATE",
+        resourceType: "DOCUMENT",
+        resourceId: document.id,
+        details: { title: document.title, source: "workflow-upload" },
+      });
+
       console.log("Document processed successfully:", {
         id: document.id,
         title: document.title,
@@ -162,47 +182,6 @@ router.post("/templates/generate", async (req, res) => {
   }
 });
 
-router.get("/templates", async (_req, res) => {
-  try {
-    console.log("[Templates] Fetching all templates");
-
-    const templates = await db.select().from(contractTemplates);
-    console.log(`[Templates] Found ${templates.length} templates`);
-
-    if (!templates || templates.length === 0) {
-      console.log("[Templates] No templates available");
-      return res.status(404).json({
-        error: "No templates available",
-        code: "NO_TEMPLATES",
-      });
-    }
-
-    const groupedTemplates = templates.reduce(
-      (acc, template) => {
-        const category = template.category;
-        if (!acc[category]) {
-          acc[category] = [];
-        }
-        acc[category].push(template);
-        return acc;
-      },
-      {} as Record<string, typeof templates>,
-    );
-
-    return res.json({
-      templates: groupedTemplates,
-      totalCount: templates.length,
-    });
-  } catch (error: any) {
-    console.error("[Templates] Error fetching templates:", error);
-    return res.status(500).json({
-      error: "Failed to fetch templates",
-      code: "TEMPLATE_FETCH_ERROR",
-      details: error.message,
-    });
-  }
-});
-
 router.post("/analyze/draft", async (req, res) => {
   try {
     const { content } = req.body;
@@ -214,9 +193,9 @@ router.post("/analyze/draft", async (req, res) => {
       });
     }
 
-    const response = await anthropic.messages.create({
-      model: "claude-3-opus-20240229",
-      max_tokens: 1024,
+    const response = await modelRouter.complete({
+      role: "analysis",
+      maxTokens: 1024,
       temperature: 0,
       messages: [
         {
@@ -260,7 +239,7 @@ ${content}`,
       ],
     });
 
-    const analysis = response.content[0].text;
+    const analysis = response.text;
 
     return res.json({ analysis });
   } catch (error: any) {
@@ -299,7 +278,7 @@ const upload2 = multer({
 
 router.post("/documents/generate", async (req, res) => {
   try {
-    const { templateId, requirements, customInstructions } = req.body;
+    const { templateId, requirements, customInstructions, variables } = req.body;
 
     if (!templateId || !requirements || !Array.isArray(requirements)) {
       return res.status(400).json({
@@ -313,18 +292,27 @@ router.post("/documents/generate", async (req, res) => {
       requirementsCount: requirements.length,
     });
 
+    const template = await getTemplate(
+      String(templateId),
+      res.locals.tenant?.organizationId ?? null,
+    );
+    if (!template) {
+      return res.status(404).json({
+        error: "Template not found or not published",
+        code: "NOT_FOUND",
+      });
+    }
+
     const contractText = await generateContract(
-      templateId,
+      template,
       requirements,
       customInstructions,
+      variables && typeof variables === "object" ? variables : {},
     );
 
     console.log("[Contract Generation] Contract generated successfully");
 
-    const template = getTemplate(templateId);
-    const title = template
-      ? `${template.name} - Generated`
-      : "Generated Contract";
+    const title = `${template.name} - Generated`;
 
     const [document] = await db
       .insert(documents)
@@ -332,16 +320,19 @@ router.post("/documents/generate", async (req, res) => {
         title,
         content: contractText,
         userId: req.user?.id || 1,
+        ...organizationService.scopeValues(res.locals.tenant),
+        templateVersionId: template.versionId,
         processingStatus: "COMPLETED",
         agentType: "CONTRACT_AUTOMATION",
         analysis: {
           documentType: "Contract",
-          industry: template?.industry || "Unknown",
+          industry: template.metadata.industry || "Unknown",
           classification: "Generated Contract",
           source: "contract-automation",
           contractDetails: {
             generatedAt: new Date().toISOString(),
-            template: templateId,
+            template: template.key,
+            templateVersion: template.version,
             requirements,
           },
         },
@@ -350,12 +341,31 @@ router.post("/documents/generate", async (req, res) => {
 
     console.log("[Contract Generation] Saved with ID:", document.id);
 
+    await auditLogService.record(req, res, {
+      action: "CREATE",
+      resourceType: "DOCUMENT",
+      resourceId: document.id,
+      details: {
+        title,
+        source: "contract-generation",
+        templateId: template.templateId,
+        templateVersionId: template.versionId,
+      },
+    });
+
     return res.json({
       id: document.id,
       title,
       content: contractText,
     });
   } catch (error: any) {
+    if (error instanceof TemplateValueError) {
+      return res.status(400).json({
+        error: error.message,
+        code: "INVALID_VALUES",
+        problems: error.problems,
+      });
+    }
     console.error("[Contract Generation] Error:", error);
     return res.status(500).json({
       error: error.message || "Failed to generate contract",
@@ -364,24 +374,19 @@ router.post("/documents/generate", async (req, res) => {
   }
 });
 
-router.delete("/workflow/documents/:id", async (req, res) => {
+router.delete("/workflow/documents/:id", requireDocumentAccess("DOCUMENT", { permission: "DELETE" }), async (req, res) => {
   try {
     const documentId = parseInt(req.params.id);
-    const userId = req.user?.id;
-
-    if (!userId) {
-      return res.status(401).json({ error: "Unauthorized" });
-    }
 
     console.log("Attempting to delete document:", {
       documentId,
-      userId,
+      userId: req.user?.id,
       timestamp: new Date().toISOString(),
     });
 
     const [deletedDoc] = await db
       .delete(documents)
-      .where(eq(documents.id, documentId) && eq(documents.userId, userId))
+      .where(and(eq(documents.id, documentId), eq(documents.userId, res.locals.document.userId)))
       .returning();
 
     if (!deletedDoc) {
@@ -396,6 +401,13 @@ router.delete("/workflow/documents/:id", async (req, res) => {
       timestamp: new Date().toISOString(),
     });
 
+    await auditLogService.record(req, res, {
+      action: "DELETE",
+      resourceType: "DOCUMENT",
+      resourceId: documentId,
+      details: { title: deletedDoc.title },
+    });
+
     return res.json({ success: true });
   } catch (error: any) {
     console.error("Document deletion error:", error);
@@ -403,6 +415,336 @@ router.delete("/workflow/documents/:id", async (req, res) => {
   }
 });
 
+// Routes the document for approval. Without explicit approvers the
+// organization's matching approval chain is used.
+const requestReviewSchema = z.object({
+  approverId: z.coerce.number().int().positive().optional(),
+  approverIds: z.array(z.coerce.number().int().positive())
+    .refine((ids) => new Set(ids).size === ids.length, "Approvers must be unique")
+    .optional(),
+  mode: ApprovalChainMode.optional(),
+  comments: z.string().max(5000).optional(),
+});
+
+router.post("/documents/:id/request-review", requireDocumentAccess("DOCUMENT", { permission: "EDIT" }), async (req, res) => {
+  try {
+    const parsed = requestReviewSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: parsed.error.issues.map((issue) => issue.message).join(", "),
+        code: "INVALID_INPUT",
+      });
+    }
+
+    const { approverId, approverIds, mode, comments } = parsed.data;
+    const doc: Document = res.locals.document;
+    const result = await approvalService.requestApproval(doc, {
+      requesterId: req.user!.id,
+      organizationId: res.locals.tenant?.organizationId ?? null,
+      approverIds: approverIds ?? (approverId ? [approverId] : undefined),
+      mode,
+      comments,
+    });
+
+    await auditLogService.record(req, res, {
+      action: "CREATE",
+      resourceType: "APPROVAL_REQUEST",
+      resourceId: result.request.id,
+      details: {
+        documentId: doc.id,
+        mode: result.request.mode,
+        chainId: result.chain?.id,
+        approverIds: result.steps.map((step) => step.approverId),
+      },
+    });
+
+    return res.status(201).json(result);
+  } catch (error: any) {
+    if (error instanceof ApprovalError || error instanceof TransitionError) {
+      return res.status(error.statusCode).json({ error: error.message, code: error.code });
+    }
+    console.error("[Approvals] Request review error:", error);
+    return res.status(500).json({
+      error: error.message || "Failed to request review",
+      code: "REVIEW_REQUEST_ERROR",
+    });
+  }
+});
+
+router.get("/documents/:id/approvals", requireDocumentAccess("DOCUMENT"), async (req, res) => {
+  try {
+    const requests = await approvalService.listForDocument(res.locals.document.id);
+
+    await auditLogService.record(req, res, {
+      action: "VIEW",
+      resourceType: "DOCUMENT",
+      resourceId: res.locals.document.id,
+      details: { view: "approvals" },
+    });
+
+    return res.json(requests);
+  } catch (error: any) {
+    console.error("[Approvals] History error:", error);
+    return res.status(500).json({
+      error: error.message || "Failed to load approval history",
+      code: "APPROVAL_HISTORY_ERROR",
+    });
+  }
+});
+
+// Chat history for the document; the latest conversation unless
+// ?conversationId= picks another
+router.get("/documents/:id/chat", requireDocumentAccess("DOCUMENT"), async (req, res) => {
+  try {
+    const userId = req.user!.id;
+    const conversation = req.query.conversationId
+      ? await documentChatService.getConversation(parseInt(String(req.query.conversationId)), userId)
+      : await documentChatService.latestForDocument(res.locals.document.id, userId);
+
+    if (!conversation || conversation.documentId !== res.locals.document.id) {
+      return res.json({ conversationId: null, messages: [] });
+    }
+    const messages = await documentChatService.listMessages(conversation.id);
+
+    await auditLogService.record(req, res, {
+      action: "VIEW",
+      resourceType: "DOCUMENT",
+      resourceId: res.locals.document.id,
+      details: { view: "chat", conversationId: conversation.id },
+    });
+
+    return res.json({ conversationId: conversation.id, messages });
+  } catch (error: any) {
+    console.error("[Chat] History error:", error);
+    return res.status(500).json({
+      error: error.message || "Failed to load chat history",
+      code: "CHAT_ERROR",
+    });
+  }
+});
+
+// Continues the caller's latest conversation about the document unless a
+// conversationId is given; streams when the client accepts text/event-stream
+router.post("/documents/:id/chat", requireDocumentAccess("DOCUMENT"), async (req, res) => {
+  try {
+    const parsed = chatMessageSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: parsed.error.issues.map((issue) => issue.message).join(", "),
+        code: "INVALID_INPUT",
+      });
+    }
+
+    const user = req.user!;
+    const documentId: number = res.locals.document.id;
+    const { message, conversationId } = parsed.data;
+
+    let conversation = conversationId
+      ? await documentChatService.getConversation(conversationId, user.id)
+      : await documentChatService.latestForDocument(documentId, user.id);
+    if (conversationId && conversation?.documentId !== documentId) {
+      return res.status(404).json({ error: "Conversation not found", code: "NOT_FOUND" });
+    }
+    conversation ??= await documentChatService.startConversation(
+      user.id,
+      res.locals.document.organizationId ?? null,
+      { documentId },
+    );
+
+    await respondWithAnswer(req, res, conversation, message);
+  } catch (error: any) {
+    console.error("[Chat] Error:", error);
+    return res.status(500).json({
+      error: error.message || "Failed to answer question",
+      code: "CHAT_ERROR",
+    });
+  }
+});
+
+router.get("/documents/:id/signatures", requireDocumentAccess("DOCUMENT"), async (req, res) => {
+  try {
+    const envelopes = await signatureService.listForDocument(res.locals.document.id);
+
+    await auditLogService.record(req, res, {
+      action: "VIEW",
+      resourceType: "DOCUMENT",
+      resourceId: res.locals.document.id,
+      details: { view: "signatures" },
+    });
+
+    return res.json(envelopes);
+  } catch (error: any) {
+    console.error("[Signatures] List error:", error);
+    return res.status(500).json({
+      error: error.message || "Failed to list signature envelopes",
+      code: "SIGNATURE_ERROR",
+    });
+  }
+});
+
+// Actions the contract editor sends, mapped to the lifecycle stage they move to
+const WORKFLOW_ACTIONS: Record<string, ContractStatus> = {
+  draft: "DRAFT",
+  review: "REVIEW",
+  redline: "REDLINE",
+  approve: "SIGNATURE",
+  sign: "COMPLETED",
+};
+
+// Content can only change before the contract goes out for approval
+const EDITABLE_STATUSES: ContractStatus[] = ["DRAFT", "REVIEW", "REDLINE"];
+
+const workflowSchema = z.object({
+  action: z.enum(["draft", "review", "redline", "approve", "sign"]).optional(),
+  status: ContractStatus.optional(),
+  content: z.string().optional(),
+  reason: z.string().max(5000).optional(),
+}).refine((body) => body.action || body.status || body.content !== undefined, {
+  message: "Provide an action, a target status or new content",
+});
+
+router.get("/documents/:id/workflow", requireDocumentAccess("DOCUMENT"), async (req, res) => {
+  try {
+    const doc: Document = res.locals.document;
+    const [state, events] = await Promise.all([
+      contractLifecycleService.describe(doc),
+      contractLifecycleService.listEvents(doc.id),
+    ]);
+
+    await auditLogService.record(req, res, {
+      action: "VIEW",
+      resourceType: "DOCUMENT",
+      resourceId: doc.id,
+      details: { view: "workflow", status: state.status },
+    });
+
+    return res.json({ ...state, events });
+  } catch (error: any) {
+    console.error("[Workflow] State error:", error);
+    return res.status(500).json({
+      error: error.message || "Failed to load workflow state",
+      code: "WORKFLOW_ERROR",
+    });
+  }
+});
+
+router.post("/documents/:id/workflow", requireDocumentAccess("DOCUMENT", { permission: "EDIT" }), async (req, res) => {
+  try {
+    const parsed = workflowSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: parsed.error.issues.map((issue) => issue.message).join(", "),
+        code: "INVALID_INPUT",
+      });
+    }
+
+    const { action, content, reason } = parsed.data;
+    const doc: Document = res.locals.document;
+    const from = contractStatusOf(doc);
+    const to = parsed.data.status ?? (action ? WORKFLOW_ACTIONS[action] : from);
+
+    if (content !== undefined && !EDITABLE_STATUSES.includes(from)) {
+      return res.status(409).json({
+        error: `Content cannot be edited while the contract is in ${from}`,
+        code: "CONTRACT_LOCKED",
+      });
+    }
+    if (to === from && content === undefined) {
+      return res.status(409).json({
+        error: `The contract is already in ${from}`,
+        code: "INVALID_TRANSITION",
+      });
+    }
+
+    // Saving content and moving stage succeed or fail together
+    const event = await db.transaction(async (tx) => {
+      if (content !== undefined) {
+        await tx
+          .update(documents)
+          .set({ content, updatedAt: new Date() })
+          .where(eq(documents.id, doc.id));
+      }
+      return to === from
+        ? null
+        : await contractLifecycleService.applyTransition(tx, doc.id, to, {
+            actorId: req.user!.id,
+            reason,
+          });
+    });
+
+    if (event) {
+      contractLifecycleService.publish(event);
+    }
+
+    await auditLogService.record(req, res, {
+      action: "EDIT",
+      resourceType: "DOCUMENT",
+      resourceId: doc.id,
+      details: { from, to, contentUpdated: content !== undefined, reason },
+    });
+
+    return res.json({ documentId: doc.id, status: to, event });
+  } catch (error: any) {
+    if (error instanceof TransitionError) {
+      return res.status(error.statusCode).json({
+        error: error.message,
+        code: error.code,
+        failures: error.failures,
+      });
+    }
+    console.error("[Workflow] Transition error:", error);
+    return res.status(500).json({
+      error: error.message || "Failed to update workflow",
+      code: "WORKFLOW_ERROR",
+    });
+  }
+});
+
+// Server-sent events for lifecycle transitions. Reconnecting clients send
+// Last-Event-ID and receive whatever they missed before live events resume.
+router.get("/documents/:id/workflow/events", requireDocumentAccess("DOCUMENT"), async (req, res) => {
+  const documentId: number = res.locals.document.id;
+  let lastSentId = parseInt(String(req.headers["last-event-id"] ?? req.query.since ?? 0)) || 0;
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+
+  const send = (event: WorkflowEvent) => {
+    if (event.id <= lastSentId) return;
+    lastSentId = event.id;
+    res.write(`id: ${event.id}\nevent: transition\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  // Subscribe before replaying so nothing committed in between is lost, but
+  // hold live events back until the replay is written. Otherwise a live event
+  // sent first would advance lastSentId past the older events being replayed.
+  let buffered: WorkflowEvent[] | null = [];
+  const unsubscribe = contractLifecycleService.subscribe(documentId, (event) => {
+    if (buffered) buffered.push(event);
+    else send(event);
+  });
+  const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), 25000);
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+
+  try {
+    const missed = await contractLifecycleService.listEvents(documentId, lastSentId);
+    missed.forEach(send);
+  } catch (error) {
+    console.error("[Workflow] Event replay error:", error);
+    res.write(`event: error\ndata: ${JSON.stringify({ error: "Failed to load past events" })}\n\n`);
+  } finally {
+    const pending = buffered ?? [];
+    buffered = null;
+    pending.sort((a, b) => a.id - b.id).forEach(send);
+  }
+});
+
 router.post("/templates/:id/suggest-requirements", async (req, res) => {
   try {
     const templateId = req.params.id;
@@ -468,17 +810,15 @@ router.get("/templates/:id/autocomplete", async (req, res) => {
   }
 });
 
-router.get("/documents/:id/download/docx", async (req, res) => {
+router.get("/documents/:id/download/docx", requireDocumentAccess("DOCUMENT"), async (req, res) => {
   try {
-    const documentId = parseInt(req.params.id);
-    const [doc] = await db
-      .select()
-      .from(documents)
-      .where(eq(documents.id, documentId));
-
-    if (!doc) {
-      return res.status(404).json({ error: "Document not found" });
-    }
+    const doc: Document = res.locals.document;
+    await auditLogService.record(req, res, {
+      action: "DOWNLOAD",
+      resourceType: "DOCUMENT",
+      resourceId: doc.id,
+      details: { format: "docx" },
+    });
 
     res.setHeader("Content-Type", "text/plain");
     res.setHeader(
@@ -492,17 +832,57 @@ router.get("/documents/:id/download/docx", async (req, res) => {
   }
 });
 
-router.get("/documents/:id/download/pdf", async (req, res) => {
+// Word export of a stored document with the caller's redline applied as tracked changes
+router.post("/documents/:id/download/docx/tracked", requireDocumentAccess("DOCUMENT"), async (req, res) => {
   try {
-    const documentId = parseInt(req.params.id);
-    const [doc] = await db
-      .select()
-      .from(documents)
-      .where(eq(documents.id, documentId));
-
-    if (!doc) {
-      return res.status(404).json({ error: "Document not found" });
+    const parsed = trackedChangesExportSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: parsed.error.issues.map((issue) => issue.message).join(", "),
+        code: "INVALID_INPUT",
+      });
     }
+    const { changes } = parsed.data;
+
+    const doc: Document = res.locals.document;
+    const buffer = await docxRedlineService.buildTrackedChangesDocument({
+      content: doc.content,
+      changes,
+      author: req.user?.username || "JurySync",
+      title: doc.title,
+    });
+
+    await auditLogService.record(req, res, {
+      action: "DOWNLOAD",
+      resourceType: "DOCUMENT",
+      resourceId: doc.id,
+      details: { format: "docx", trackedChanges: changes.length },
+    });
+
+    res.setHeader(
+      "Content-Type",
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    );
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename=${doc.title.replace(/\s+/g, "_")}-redline.docx`,
+    );
+    res.send(buffer);
+  } catch (error) {
+    console.error("Error generating tracked changes DOCX:", error);
+    res.status(500).json({ error: "Failed to generate DOCX file" });
+  }
+});
+
+router.get("/documents/:id/download/pdf", requireDocumentAccess("DOCUMENT"), async (req, res) => {
+  try {
+    const doc: Document = res.locals.document;
+    await auditLogService.record(req, res, {
+      action: "DOWNLOAD",
+      resourceType: "DOCUMENT",
+      resourceId: doc.id,
+      details: { format: "pdf" },
+    });
 
     const pdfDoc = await pdfService.generatePDF(doc.content, {
       title: doc.title,
@@ -592,7 +972,7 @@ router.post("/workflow/approval-analysis", async (req, res) => {
 
 router.post("/workflow/final-audit", async (req, res) => {
   try {
-    const { documentContent, workflowHistory } = req.body;
+    const { documentContent, workflowHistory, documentId } = req.body;
 
     if (!documentContent) {
       return res.status(400).json({
@@ -605,6 +985,21 @@ router.post("/workflow/final-audit", async (req, res) => {
       documentContent,
       workflowHistory,
     );
+
+    // The model's auditTrail is narrative only; for stored documents report
+    // the server-side audit log instead
+    if (documentId) {
+      const entries = await auditLogService.query({
+        resourceType: "DOCUMENT",
+        resourceId: String(documentId),
+      });
+      result.auditTrail = entries.map((entry) => ({
+        timestamp: entry.createdAt.toISOString(),
+        action: entry.action,
+        details: `User ${entry.actorId ?? "system"} from ${entry.ipAddress ?? "unknown"} (entry ${entry.sequence}, ${entry.hash.slice(0, 12)})`,
+      }));
+    }
+
     return res.json(result);
   } catch (error: any) {
     console.error("[Final Audit] Error:", error);
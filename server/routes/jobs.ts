@@ -0,0 +1,85 @@
+import { Router } from "express";
+import { JobStatus } from "@shared/schema";
+import { jobQueue, JobNotRetryableError } from "../services/jobQueue";
+import { auditLogService } from "../services/auditLogService";
+import debug from "debug";
+
+const log = debug("app:jobs");
+const router = Router();
+
+// Background jobs are limited to the caller's organization when they act in one
+function visibleTo(job: { organizationId: number | null }, organizationId?: number) {
+  return !organizationId || job.organizationId === organizationId;
+}
+
+router.get('/', async (req, res) => {
+  try {
+    const { status, type, groupId, resourceType, resourceId } = req.query;
+    const limit = req.query.limit ? parseInt(String(req.query.limit)) : undefined;
+
+    if (status && !JobStatus.safeParse(status).success) {
+      return res.status(400).json({ error: `Unknown status: ${status}`, code: 'INVALID_INPUT' });
+    }
+    if (limit !== undefined && (isNaN(limit) || limit < 1 || limit > 500)) {
+      return res.status(400).json({ error: 'limit must be between 1 and 500', code: 'INVALID_INPUT' });
+    }
+
+    const jobs = await jobQueue.list({
+      status: status ? JobStatus.parse(status) : undefined,
+      type: type ? String(type) : undefined,
+      groupId: groupId ? String(groupId) : undefined,
+      resourceType: resourceType ? String(resourceType) : undefined,
+      resourceId: resourceId ? String(resourceId) : undefined,
+      organizationId: res.locals.tenant?.organizationId,
+      limit,
+    });
+
+    res.json(jobs);
+  } catch (error: any) {
+    log('Error listing jobs:', error);
+    res.status(500).json({ error: error.message || 'Failed to list jobs', code: 'LIST_ERROR' });
+  }
+});
+
+router.get('/:id', async (req, res) => {
+  try {
+    const job = await jobQueue.get(parseInt(req.params.id));
+    if (!job || !visibleTo(job, res.locals.tenant?.organizationId)) {
+      return res.status(404).json({ error: 'Job not found', code: 'NOT_FOUND' });
+    }
+    res.json(job);
+  } catch (error: any) {
+    log('Error fetching job:', error);
+    res.status(500).json({ error: error.message || 'Failed to fetch job', code: 'FETCH_ERROR' });
+  }
+});
+
+// Re-runs a dead-lettered job from its first attempt
+router.post('/:id/retry', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    const existing = await jobQueue.get(id);
+    if (!existing || !visibleTo(existing, res.locals.tenant?.organizationId)) {
+      return res.status(404).json({ error: 'Job not found', code: 'NOT_FOUND' });
+    }
+
+    const job = await jobQueue.retry(id);
+
+    await auditLogService.record(req, res, {
+      action: 'EDIT',
+      resourceType: 'BACKGROUND_JOB',
+      resourceId: String(id),
+      details: { type: existing.type, retried: true, lastError: existing.lastError, attempts: existing.attempts },
+    });
+
+    res.json(job);
+  } catch (error: any) {
+    if (error instanceof JobNotRetryableError) {
+      return res.status(error.statusCode).json({ error: error.message, code: error.code });
+    }
+    log('Error retrying job:', error);
+    res.status(500).json({ error: error.message || 'Failed to retry job', code: 'RETRY_ERROR' });
+  }
+});
+
+export default router;
@@ -2,6 +2,7 @@ import { Router } from "express";
 import { db } from "../db";
 import { legalResearchReports, legalDocuments, legalAnalyses } from "@shared/schema";
 import { generateLegalResearch, analyzeLegalDocumentContent } from "../services/legal-research-service";
+import { organizationService } from "../services/organizationService";
 import { z } from "zod";
 import { desc, eq, and, gte, lte } from 'drizzle-orm';
 
@@ -63,6 +64,34 @@ router.get("/filters", async (req, res) => {
   }
 });
 
+// Saved research reports for the caller's organization and optional ?matterId=
+router.get("/reports", async (req, res) => {
+  try {
+    const tenant = res.locals.tenant;
+
+    // Outside an organization reports are private to their author
+    const reports = await db
+      .select()
+      .from(legalResearchReports)
+      .where(and(
+        organizationService.scopeFilter("legalResearchReports", tenant),
+        tenant.organizationId === null ? eq(legalResearchReports.userId, req.user!.id) : undefined
+      ))
+      .orderBy(desc(legalResearchReports.timestamp));
+
+    return res.json({
+      success: true,
+      reports
+    });
+  } catch (error) {
+    console.error("Error fetching research reports:", error);
+    return res.status(500).json({
+      success: false,
+      error: "Failed to fetch research reports"
+    });
+  }
+});
+
 // Error handling middleware
 router.use((err: any, req: any, res: any, next: any) => {
   console.error('Legal Research Error:', err);
@@ -135,6 +164,7 @@ router.post("/analyze", async (req, res) => {
     if (req.user?.id) {
       await db.insert(legalResearchReports).values({
         userId: req.user.id,
+        ...organizationService.scopeValues(res.locals.tenant),
         query: validatedData.query,
         jurisdiction: validatedData.filters?.jurisdiction || 'all',
         legalTopic: validatedData.filters?.legalTopic || 'all',
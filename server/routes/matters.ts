@@ -0,0 +1,181 @@
+import { Router, type Request, type Response, type NextFunction } from "express";
+import { db } from "../db";
+import { insertMatterSchema, DocumentResourceType, complianceAudits, legalResearchReports } from "@shared/schema";
+import { and, eq, isNull, or } from "drizzle-orm";
+import { organizationService, type ScopedTable, type TenantContext } from "../services/organizationService";
+import { documentAccessService } from "../services/documentAccessService";
+import { auditLogService } from "../services/auditLogService";
+import debug from "debug";
+
+const log = debug("app:matters");
+const router = Router();
+
+// Maps the resource names accepted by POST /:id/items to scoped tables and
+// the resource type recorded in the audit log
+const MATTER_ITEM_TYPES: Record<string, { table: ScopedTable; resourceType: string }> = {
+  "documents": { table: "documents", resourceType: "DOCUMENT" },
+  "vault-documents": { table: "vaultDocuments", resourceType: "VAULT_DOCUMENT" },
+  "compliance-documents": { table: "complianceDocuments", resourceType: "COMPLIANCE_DOCUMENT" },
+  "compliance-audits": { table: "complianceAudits", resourceType: "COMPLIANCE_AUDIT" },
+  "research-reports": { table: "legalResearchReports", resourceType: "RESEARCH_REPORT" },
+};
+
+const ACL_RESOURCE_TYPES = new Set<string>(DocumentResourceType.options);
+
+// Items without per-document ACLs. The caller may file one that belongs to
+// the organization, or a personal one they created.
+const OWNED_ITEM_TABLES = {
+  "compliance-audits": { name: "complianceAudits", table: complianceAudits },
+  "research-reports": { name: "legalResearchReports", table: legalResearchReports },
+} as const;
+
+async function findOwnedItem(type: keyof typeof OWNED_ITEM_TABLES, id: number, userId: number, tenant: TenantContext) {
+  const { name, table } = OWNED_ITEM_TABLES[type];
+  const [item] = await db
+    .select({ id: table.id })
+    .from(table)
+    .where(and(
+      eq(table.id, id),
+      or(
+        organizationService.scopeFilter(name, { ...tenant, matterId: null }),
+        and(isNull(table.organizationId), eq(table.userId, userId)),
+      ),
+    ));
+  return item;
+}
+
+// Matters only exist inside an organization
+function requireOrganization(req: Request, res: Response, next: NextFunction) {
+  const tenant: TenantContext | undefined = res.locals.tenant;
+  if (!tenant?.organizationId) {
+    return res.status(400).json({ error: 'Join or create an organization first', code: 'NO_ORGANIZATION' });
+  }
+  next();
+}
+
+router.use(requireOrganization);
+
+router.get('/', async (req, res) => {
+  try {
+    const matters = await organizationService.listMatters(res.locals.tenant.organizationId);
+    res.json(matters);
+  } catch (error: any) {
+    log('Error listing matters:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+router.post('/', async (req, res) => {
+  try {
+    const parsed = insertMatterSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: parsed.error.issues.map(issue => issue.message).join(', '),
+        code: 'INVALID_INPUT'
+      });
+    }
+
+    const matter = await organizationService.createMatter(
+      res.locals.tenant.organizationId,
+      parsed.data,
+      req.user!.id
+    );
+    res.status(201).json(matter);
+  } catch (error: any) {
+    log('Error creating matter:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+router.get('/:id', async (req, res) => {
+  try {
+    const matter = await organizationService.getMatter(res.locals.tenant.organizationId, parseInt(req.params.id));
+    if (!matter) {
+      return res.status(404).json({ error: 'Matter not found' });
+    }
+    res.json(matter);
+  } catch (error: any) {
+    log('Error fetching matter:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+router.patch('/:id', async (req, res) => {
+  try {
+    const parsed = insertMatterSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: parsed.error.issues.map(issue => issue.message).join(', '),
+        code: 'INVALID_INPUT'
+      });
+    }
+
+    const matter = await organizationService.updateMatter(
+      res.locals.tenant.organizationId,
+      parseInt(req.params.id),
+      parsed.data
+    );
+    if (!matter) {
+      return res.status(404).json({ error: 'Matter not found' });
+    }
+    res.json(matter);
+  } catch (error: any) {
+    log('Error updating matter:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// File an existing document, research report or audit under the matter
+router.post('/:id/items', async (req, res) => {
+  try {
+    const { type, id } = req.body;
+    const itemType = Object.hasOwn(MATTER_ITEM_TYPES, type) ? MATTER_ITEM_TYPES[type] : undefined;
+    if (!itemType || typeof id !== 'number') {
+      return res.status(400).json({
+        error: `type must be one of ${Object.keys(MATTER_ITEM_TYPES).join(', ')} and id must be a number`,
+        code: 'INVALID_INPUT'
+      });
+    }
+
+    const matter = await organizationService.getMatter(res.locals.tenant.organizationId, parseInt(req.params.id));
+    if (!matter) {
+      return res.status(404).json({ error: 'Matter not found' });
+    }
+
+    // Document stores carry per-document ACLs; only editors may refile them
+    if (ACL_RESOURCE_TYPES.has(itemType.resourceType)) {
+      const resourceType = itemType.resourceType as DocumentResourceType;
+      const resource = await documentAccessService.loadResource(resourceType, id);
+      if (!resource) {
+        return res.status(404).json({ error: 'Document not found' });
+      }
+      if (!await documentAccessService.canAccess(req.user!, resourceType, resource, "EDIT")) {
+        return res.status(403).json({ error: 'Forbidden' });
+      }
+    } else if (Object.hasOwn(OWNED_ITEM_TABLES, type)) {
+      const item = await findOwnedItem(type as keyof typeof OWNED_ITEM_TABLES, id, req.user!.id, res.locals.tenant);
+      if (!item) {
+        return res.status(404).json({ error: 'Item not found in this organization' });
+      }
+    }
+
+    const assigned = await organizationService.assignToMatter(itemType.table, id, matter);
+    if (!assigned) {
+      return res.status(404).json({ error: 'Item not found in this organization' });
+    }
+
+    await auditLogService.record(req, res, {
+      action: 'EDIT',
+      resourceType: itemType.resourceType,
+      resourceId: id,
+      details: { matterId: matter.id }
+    });
+
+    res.json({ success: true, matterId: matter.id, type, id });
+  } catch (error: any) {
+    log('Error assigning item to matter:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
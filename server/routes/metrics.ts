@@ -8,7 +8,7 @@ const router = Router();
 // Existing performance endpoint
 router.get('/performance', async (req, res) => {
   try {
-    const userId = (req as any).user?.id;
+    const userId = req.user?.id;
     if (!userId) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
@@ -31,7 +31,7 @@ router.get('/performance', async (req, res) => {
 // New unified metrics endpoint
 router.get('/unified', async (req, res) => {
   try {
-    const userId = (req as any).user?.id;
+    const userId = req.user?.id;
     if (!userId) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
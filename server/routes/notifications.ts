@@ -0,0 +1,247 @@
+import { Router, type Request, type Response } from "express";
+import { z } from "zod";
+import {
+  insertAlertRoutingRuleSchema,
+  insertNotificationChannelSchema,
+  updateNotificationPreferencesSchema,
+} from "@shared/schema";
+import { alertNotificationService, NotificationError, type NotificationScope } from "../services/alertNotificationService";
+import { auditLogService } from "../services/auditLogService";
+import debug from "debug";
+
+const log = debug("app:notifications");
+const router = Router();
+
+function sendError(res: Response, error: any, fallback: string) {
+  if (error instanceof NotificationError) {
+    return res.status(error.statusCode).json({ error: error.message, code: error.code });
+  }
+  log(fallback, error);
+  res.status(500).json({ error: error.message || fallback });
+}
+
+function invalidInput(res: Response, error: z.ZodError) {
+  return res.status(400).json({
+    error: error.issues.map(issue => issue.message).join(', '),
+    code: 'INVALID_INPUT'
+  });
+}
+
+function scopeOf(req: Request, res: Response): NotificationScope {
+  return { organizationId: res.locals.tenant?.organizationId ?? null, userId: req.user!.id };
+}
+
+// Notification center
+router.get('/', async (req, res) => {
+  try {
+    const result = await alertNotificationService.listNotifications(req.user!.id, {
+      unreadOnly: req.query.unread === 'true'
+    });
+    res.json(result);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to load notifications');
+  }
+});
+
+router.post('/read-all', async (req, res) => {
+  try {
+    const updated = await alertNotificationService.markAllRead(req.user!.id);
+    res.json({ updated });
+  } catch (error: any) {
+    sendError(res, error, 'Failed to mark notifications as read');
+  }
+});
+
+router.post('/:id/read', async (req, res) => {
+  try {
+    const notification = await alertNotificationService.markRead(req.user!.id, parseInt(req.params.id));
+    if (!notification) {
+      return res.status(404).json({ error: 'Notification not found', code: 'NOT_FOUND' });
+    }
+    res.json(notification);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to mark notification as read');
+  }
+});
+
+router.get('/preferences', async (req, res) => {
+  try {
+    res.json(await alertNotificationService.getPreferences(req.user!.id));
+  } catch (error: any) {
+    sendError(res, error, 'Failed to load notification preferences');
+  }
+});
+
+router.put('/preferences', async (req, res) => {
+  try {
+    const parsed = updateNotificationPreferencesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalidInput(res, parsed.error);
+    }
+    res.json(await alertNotificationService.updatePreferences(req.user!.id, parsed.data));
+  } catch (error: any) {
+    sendError(res, error, 'Failed to update notification preferences');
+  }
+});
+
+// Channels and routing rules belong to the organization the caller is acting
+// in, or to the caller alone in their personal space
+router.get('/channels', async (req, res) => {
+  try {
+    res.json(await alertNotificationService.listChannels(scopeOf(req, res)));
+  } catch (error: any) {
+    sendError(res, error, 'Failed to list notification channels');
+  }
+});
+
+router.post('/channels', async (req, res) => {
+  try {
+    const parsed = insertNotificationChannelSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalidInput(res, parsed.error);
+    }
+
+    const channel = await alertNotificationService.createChannel(scopeOf(req, res), parsed.data);
+
+    await auditLogService.record(req, res, {
+      action: 'CREATE',
+      resourceType: 'NOTIFICATION_CHANNEL',
+      resourceId: channel.id,
+      details: { name: channel.name, type: channel.type },
+    });
+
+    res.status(201).json(channel);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to create notification channel');
+  }
+});
+
+router.put('/channels/:id', async (req, res) => {
+  try {
+    const parsed = insertNotificationChannelSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalidInput(res, parsed.error);
+    }
+
+    const channel = await alertNotificationService.updateChannel(
+      scopeOf(req, res),
+      parseInt(req.params.id),
+      parsed.data
+    );
+    if (!channel) {
+      return res.status(404).json({ error: 'Notification channel not found', code: 'NOT_FOUND' });
+    }
+
+    await auditLogService.record(req, res, {
+      action: 'EDIT',
+      resourceType: 'NOTIFICATION_CHANNEL',
+      resourceId: channel.id,
+      details: { name: channel.name, type: channel.type, isActive: channel.isActive },
+    });
+
+    res.json(channel);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to update notification channel');
+  }
+});
+
+router.delete('/channels/:id', async (req, res) => {
+  try {
+    const channelId = parseInt(req.params.id);
+    const removed = await alertNotificationService.deleteChannel(scopeOf(req, res), channelId);
+    if (!removed) {
+      return res.status(404).json({ error: 'Notification channel not found', code: 'NOT_FOUND' });
+    }
+
+    await auditLogService.record(req, res, {
+      action: 'DELETE',
+      resourceType: 'NOTIFICATION_CHANNEL',
+      resourceId: channelId,
+    });
+
+    res.json({ success: true });
+  } catch (error: any) {
+    sendError(res, error, 'Failed to delete notification channel');
+  }
+});
+
+router.get('/routing-rules', async (req, res) => {
+  try {
+    res.json(await alertNotificationService.listRules(scopeOf(req, res)));
+  } catch (error: any) {
+    sendError(res, error, 'Failed to list alert routing rules');
+  }
+});
+
+router.post('/routing-rules', async (req, res) => {
+  try {
+    const parsed = insertAlertRoutingRuleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalidInput(res, parsed.error);
+    }
+
+    const rule = await alertNotificationService.createRule(scopeOf(req, res), parsed.data);
+
+    await auditLogService.record(req, res, {
+      action: 'CREATE',
+      resourceType: 'ALERT_ROUTING_RULE',
+      resourceId: rule.id,
+      details: parsed.data,
+    });
+
+    res.status(201).json(rule);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to create alert routing rule');
+  }
+});
+
+router.put('/routing-rules/:id', async (req, res) => {
+  try {
+    const parsed = insertAlertRoutingRuleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalidInput(res, parsed.error);
+    }
+
+    const rule = await alertNotificationService.updateRule(
+      scopeOf(req, res),
+      parseInt(req.params.id),
+      parsed.data
+    );
+    if (!rule) {
+      return res.status(404).json({ error: 'Alert routing rule not found', code: 'NOT_FOUND' });
+    }
+
+    await auditLogService.record(req, res, {
+      action: 'EDIT',
+      resourceType: 'ALERT_ROUTING_RULE',
+      resourceId: rule.id,
+      details: parsed.data,
+    });
+
+    res.json(rule);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to update alert routing rule');
+  }
+});
+
+router.delete('/routing-rules/:id', async (req, res) => {
+  try {
+    const ruleId = parseInt(req.params.id);
+    const removed = await alertNotificationService.deleteRule(scopeOf(req, res), ruleId);
+    if (!removed) {
+      return res.status(404).json({ error: 'Alert routing rule not found', code: 'NOT_FOUND' });
+    }
+
+    await auditLogService.record(req, res, {
+      action: 'DELETE',
+      resourceType: 'ALERT_ROUTING_RULE',
+      resourceId: ruleId,
+    });
+
+    res.json({ success: true });
+  } catch (error: any) {
+    sendError(res, error, 'Failed to delete alert routing rule');
+  }
+});
+
+export default router;
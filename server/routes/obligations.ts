@@ -0,0 +1,129 @@
+import { Router, type Response } from "express";
+import { z } from "zod";
+import {
+  extractObligationsSchema,
+  obligationCalendarSchema,
+  obligationFiltersSchema,
+  updateObligationSchema,
+} from "@shared/schema";
+import { obligationService, ObligationError } from "../services/obligationService";
+import { requireDocumentAccess } from "../middleware/rbac";
+import { auditLogService } from "../services/auditLogService";
+import debug from "debug";
+
+const log = debug("app:obligations");
+const router = Router();
+
+function sendError(res: Response, error: any, fallback: string) {
+  if (error instanceof ObligationError) {
+    return res.status(error.statusCode).json({ error: error.message, code: error.code });
+  }
+  log(fallback, error);
+  res.status(500).json({ error: error.message || fallback });
+}
+
+function invalidInput(res: Response, error: z.ZodError) {
+  return res.status(400).json({
+    error: error.issues.map(issue => issue.message).join(', '),
+    code: 'INVALID_INPUT'
+  });
+}
+
+router.get('/', async (req, res) => {
+  try {
+    const parsed = obligationFiltersSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return invalidInput(res, parsed.error);
+    }
+    res.json(await obligationService.list(req.user!, res.locals.tenant, parsed.data));
+  } catch (error: any) {
+    sendError(res, error, 'Failed to list obligations');
+  }
+});
+
+// Upcoming deadlines, one entry per occurrence; ?from=&to= as dates
+router.get('/calendar', async (req, res) => {
+  try {
+    const parsed = obligationCalendarSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return invalidInput(res, parsed.error);
+    }
+    res.json(await obligationService.calendar(req.user!, res.locals.tenant, parsed.data));
+  } catch (error: any) {
+    sendError(res, error, 'Failed to load obligation calendar');
+  }
+});
+
+// The same deadlines as an iCalendar file for Outlook, Google Calendar etc.
+router.get('/calendar.ics', async (req, res) => {
+  try {
+    const parsed = obligationFiltersSchema.omit({ status: true }).safeParse(req.query);
+    if (!parsed.success) {
+      return invalidInput(res, parsed.error);
+    }
+
+    const feed = await obligationService.calendarFeed(req.user!, res.locals.tenant, parsed.data);
+
+    await auditLogService.record(req, res, {
+      action: 'EXPORT',
+      resourceType: 'CONTRACT_OBLIGATION',
+      details: { format: 'ics', ...parsed.data },
+    });
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'attachment; filename=obligations.ics');
+    res.send(feed);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to export obligation calendar');
+  }
+});
+
+// Re-reads the contract; runs automatically when one is added to the vault
+router.post('/documents/:documentId/extract', requireDocumentAccess('VAULT_DOCUMENT', { param: 'documentId', permission: 'EDIT' }), async (req, res) => {
+  try {
+    const parsed = extractObligationsSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return invalidInput(res, parsed.error);
+    }
+
+    const documentId = parseInt(req.params.documentId);
+    const obligations = await obligationService.extract(documentId, parsed.data.effectiveDate ?? null, {
+      userId: req.user!.id,
+    });
+
+    await auditLogService.record(req, res, {
+      action: 'EDIT',
+      resourceType: 'VAULT_DOCUMENT',
+      resourceId: documentId,
+      details: { obligationsExtracted: obligations.length, effectiveDate: parsed.data.effectiveDate ?? null },
+    });
+
+    res.json(obligations);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to extract obligations');
+  }
+});
+
+router.put('/:id', async (req, res) => {
+  try {
+    const parsed = updateObligationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalidInput(res, parsed.error);
+    }
+
+    const obligation = await obligationService.update(req.user!, res.locals.tenant, parseInt(req.params.id), parsed.data);
+
+    await auditLogService.record(req, res, {
+      action: 'EDIT',
+      resourceType: 'CONTRACT_OBLIGATION',
+      resourceId: obligation.id,
+      details: { fields: Object.keys(parsed.data), status: obligation.status, dueDate: obligation.dueDate },
+    });
+
+    res.json(obligation);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to update obligation');
+  }
+});
+
+export default router;
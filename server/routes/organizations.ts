@@ -0,0 +1,171 @@
+import { Router, type Request, type Response, type NextFunction } from "express";
+import { insertOrganizationSchema, insertOrganizationMemberSchema, insertOrganizationBudgetSchema } from "@shared/schema";
+import { organizationService, OrganizationError } from "../services/organizationService";
+import { budgetService, type UsageGrouping } from "../services/budgetService";
+import { auditLogService } from "../services/auditLogService";
+import debug from "debug";
+
+const log = debug("app:organizations");
+const router = Router();
+
+function sendError(res: Response, error: any, fallback: string) {
+  if (error instanceof OrganizationError) {
+    return res.status(error.statusCode).json({ error: error.message, code: error.code });
+  }
+  log(fallback, error);
+  res.status(500).json({ error: error.message || fallback });
+}
+
+// Member and budget changes are limited to the organization's owners and
+// admins; any member may read
+async function requireOrganizationAdmin(req: Request, res: Response, next: NextFunction) {
+  try {
+    const organizationId = parseInt(req.params.id);
+    if (isNaN(organizationId)) {
+      return res.status(400).json({ error: 'Invalid organization ID', code: 'INVALID_INPUT' });
+    }
+
+    const membership = await organizationService.getMembership(organizationId, req.user!.id);
+    if (!membership) {
+      return res.status(404).json({ error: 'Organization not found' });
+    }
+    if (req.method !== 'GET' && membership.role === 'MEMBER') {
+      return res.status(403).json({ error: 'Organization admin access required' });
+    }
+
+    res.locals.organizationId = organizationId;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Organizations the current user belongs to
+router.get('/', async (req, res) => {
+  try {
+    const memberships = await organizationService.getMemberships(req.user!.id);
+    res.json(memberships.map(({ organization, role }) => ({ ...organization, role })));
+  } catch (error: any) {
+    sendError(res, error, 'Error listing organizations');
+  }
+});
+
+router.post('/', async (req, res) => {
+  try {
+    const parsed = insertOrganizationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: parsed.error.issues.map(issue => issue.message).join(', '),
+        code: 'INVALID_INPUT'
+      });
+    }
+
+    const organization = await organizationService.createOrganization(
+      parsed.data.name,
+      req.user!.id,
+      parsed.data.slug
+    );
+    res.status(201).json(organization);
+  } catch (error: any) {
+    sendError(res, error, 'Error creating organization');
+  }
+});
+
+router.get('/:id/members', requireOrganizationAdmin, async (req, res) => {
+  try {
+    const members = await organizationService.listMembers(res.locals.organizationId);
+    res.json(members);
+  } catch (error: any) {
+    sendError(res, error, 'Error listing members');
+  }
+});
+
+router.post('/:id/members', requireOrganizationAdmin, async (req, res) => {
+  try {
+    const parsed = insertOrganizationMemberSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: parsed.error.issues.map(issue => issue.message).join(', '),
+        code: 'INVALID_INPUT'
+      });
+    }
+
+    const member = await organizationService.addMember(
+      res.locals.organizationId,
+      parsed.data.userId,
+      parsed.data.role
+    );
+    res.status(201).json(member);
+  } catch (error: any) {
+    sendError(res, error, 'Error adding member');
+  }
+});
+
+router.delete('/:id/members/:userId', requireOrganizationAdmin, async (req, res) => {
+  try {
+    const removed = await organizationService.removeMember(res.locals.organizationId, parseInt(req.params.userId));
+    if (!removed) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    sendError(res, error, 'Error removing member');
+  }
+});
+
+// Month-to-date AI spend against the organization's budget
+router.get('/:id/budget', requireOrganizationAdmin, async (req, res) => {
+  try {
+    res.json(await budgetService.getStatus(res.locals.organizationId));
+  } catch (error: any) {
+    sendError(res, error, 'Error fetching budget');
+  }
+});
+
+router.put('/:id/budget', requireOrganizationAdmin, async (req, res) => {
+  try {
+    const parsed = insertOrganizationBudgetSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: parsed.error.issues.map(issue => issue.message).join(', '),
+        code: 'INVALID_INPUT'
+      });
+    }
+
+    const budget = await budgetService.setBudget(res.locals.organizationId, parsed.data, req.user!.id);
+    await auditLogService.record(req, res, {
+      action: 'EDIT',
+      resourceType: 'ORGANIZATION_BUDGET',
+      resourceId: res.locals.organizationId,
+      details: parsed.data,
+    });
+    res.json(budget);
+  } catch (error: any) {
+    sendError(res, error, 'Error updating budget');
+  }
+});
+
+const USAGE_GROUPINGS: UsageGrouping[] = ['feature', 'user', 'model'];
+
+// Token usage and cost, grouped by feature, user or model (default: this month)
+router.get('/:id/usage', requireOrganizationAdmin, async (req, res) => {
+  try {
+    const groupBy = (req.query.groupBy as UsageGrouping) || 'feature';
+    if (!USAGE_GROUPINGS.includes(groupBy)) {
+      return res.status(400).json({ error: `groupBy must be one of ${USAGE_GROUPINGS.join(', ')}`, code: 'INVALID_INPUT' });
+    }
+
+    const from = req.query.from ? new Date(String(req.query.from)) : undefined;
+    const to = req.query.to ? new Date(String(req.query.to)) : undefined;
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return res.status(400).json({ error: 'Invalid date range', code: 'INVALID_INPUT' });
+    }
+
+    const usage = await budgetService.summarizeUsage(res.locals.organizationId, { from, to, groupBy });
+    res.json({ groupBy, from: from ?? null, to: to ?? null, usage });
+  } catch (error: any) {
+    sendError(res, error, 'Error fetching usage');
+  }
+});
+
+export default router;
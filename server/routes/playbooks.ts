@@ -0,0 +1,146 @@
+import { Router, type Request, type Response } from "express";
+import { z } from "zod";
+import { createPlaybookSchema, reviewPlaybookSchema, updatePlaybookSchema } from "@shared/schema";
+import { playbookService, PlaybookError } from "../services/playbookService";
+import { ClauseExtractionError } from "../services/clauseExtractionService";
+import { requireDocumentAccess } from "../middleware/rbac";
+import { auditLogService } from "../services/auditLogService";
+import debug from "debug";
+
+const log = debug("app:playbooks");
+const router = Router();
+
+function sendError(res: Response, error: any, fallback: string) {
+  if (error instanceof PlaybookError || error instanceof ClauseExtractionError) {
+    return res.status(error.statusCode).json({ error: error.message, code: error.code });
+  }
+  log(fallback, error);
+  res.status(500).json({ error: error.message || fallback });
+}
+
+function invalidInput(res: Response, error: z.ZodError) {
+  return res.status(400).json({
+    error: error.issues.map(issue => issue.message).join(', '),
+    code: 'INVALID_INPUT'
+  });
+}
+
+function playbookId(req: Request): number {
+  return parseInt(req.params.id);
+}
+
+router.get('/', async (req, res) => {
+  try {
+    const includeArchived = req.query.includeArchived === 'true';
+    res.json(await playbookService.list(req.user!, res.locals.tenant, { includeArchived }));
+  } catch (error: any) {
+    sendError(res, error, 'Failed to list playbooks');
+  }
+});
+
+router.post('/', async (req, res) => {
+  try {
+    const parsed = createPlaybookSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalidInput(res, parsed.error);
+    }
+
+    const playbook = await playbookService.create(req.user!, res.locals.tenant, parsed.data);
+
+    await auditLogService.record(req, res, {
+      action: 'CREATE',
+      resourceType: 'NEGOTIATION_PLAYBOOK',
+      resourceId: playbook.id,
+      details: { name: playbook.name, contractType: playbook.contractType, scope: playbook.scope },
+    });
+
+    res.status(201).json(playbook);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to create playbook');
+  }
+});
+
+router.get('/:id', async (req, res) => {
+  try {
+    res.json(await playbookService.get(req.user!, res.locals.tenant, playbookId(req)));
+  } catch (error: any) {
+    sendError(res, error, 'Failed to load playbook');
+  }
+});
+
+router.put('/:id', async (req, res) => {
+  try {
+    const parsed = updatePlaybookSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalidInput(res, parsed.error);
+    }
+
+    const playbook = await playbookService.update(req.user!, res.locals.tenant, playbookId(req), parsed.data);
+
+    await auditLogService.record(req, res, {
+      action: 'EDIT',
+      resourceType: 'NEGOTIATION_PLAYBOOK',
+      resourceId: playbook.id,
+      details: { fields: Object.keys(parsed.data), rules: playbook.rules.length },
+    });
+
+    res.json(playbook);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to update playbook');
+  }
+});
+
+router.delete('/:id', async (req, res) => {
+  try {
+    const playbook = await playbookService.archive(req.user!, res.locals.tenant, playbookId(req));
+
+    await auditLogService.record(req, res, {
+      action: 'DELETE',
+      resourceType: 'NEGOTIATION_PLAYBOOK',
+      resourceId: playbook.id,
+      details: { name: playbook.name, archived: true },
+    });
+
+    res.json(playbook);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to archive playbook');
+  }
+});
+
+// Reviews the counterparty's draft against the playbook. The response's
+// redline field renders like a POST /api/redline result.
+router.post('/:id/review/:documentId', requireDocumentAccess('DOCUMENT', { param: 'documentId' }), async (req, res) => {
+  try {
+    const parsed = reviewPlaybookSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return invalidInput(res, parsed.error);
+    }
+
+    const review = await playbookService.review(
+      req.user!,
+      res.locals.tenant,
+      playbookId(req),
+      parseInt(req.params.documentId),
+      parsed.data.versionId,
+    );
+
+    await auditLogService.record(req, res, {
+      action: 'VIEW',
+      resourceType: 'DOCUMENT',
+      resourceId: review.document.id,
+      details: {
+        review: 'PLAYBOOK',
+        playbookId: review.playbook.id,
+        versionId: review.document.versionId,
+        deviations: review.summary.deviations,
+        highestSeverity: review.summary.highestSeverity,
+      },
+    });
+
+    res.json(review);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to review document');
+  }
+});
+
+export default router;
@@ -1,9 +1,16 @@
 import { Router } from "express";
-import * as diff from "diff";
 import PDFDocument from "pdfkit";
 import multer from "multer";
+import { eq, count } from "drizzle-orm";
+import { db } from "../db";
+import { documents, documentVersions, trackedChangesExportSchema, type Document } from "@shared/schema";
 import { documentProcessor } from "../services/documentProcessor";
 import { pdfService } from "../services/pdf-service";
+import { redlineService } from "../services/redlineService";
+import { docxRedlineService } from "../services/docxRedlineService";
+import { auditLogService } from "../services/auditLogService";
+import { clauseExtractionService } from "../services/clauseExtractionService";
+import { requireDocumentAccess } from "../middleware/rbac";
 
 const router = Router();
 const upload = multer({
@@ -24,11 +31,17 @@ router.post("/upload", upload.single("file"), async (req, res) => {
     const fileType = req.file.originalname.toLowerCase();
 
     if (fileType.endsWith(".pdf")) {
-      // Temporarily return dummy response for PDFs during startup
-      return res.json({ 
-        text: "PDF processing temporarily disabled during server initialization",
-        status: "maintenance"
-      });
+      try {
+        const result = await pdfService.extractTextWithLayout(req.file.buffer);
+        return res.json({
+          text: result.text,
+          pages: result.pages,
+          metadata: result.metadata,
+        });
+      } catch (error) {
+        console.error("PDF parsing error:", error);
+        return res.status(400).json({ error: "Failed to parse PDF document" });
+      }
     } else if (fileType.endsWith(".docx") || fileType.endsWith(".doc")) {
       try {
         const result = await documentProcessor.processDocument(
@@ -56,33 +69,23 @@ router.post("/upload", upload.single("file"), async (req, res) => {
   }
 });
 
-// POST /api/redline
+// POST /api/redline - Clause-level comparison with word-level segments
 router.post("/", async (req, res) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: "Unauthorized" });
     }
 
-    const { originalText, proposedText } = req.body;
+    const { originalText, proposedText, originalPages, proposedPages } = req.body;
     if (!originalText || !proposedText) {
       return res.status(400).json({ error: "Missing required fields" });
     }
 
-    const changes = diff.diffWords(originalText, proposedText);
-    const segments = changes.map((change) => ({
-      value: change.value,
-      added: change.added,
-      removed: change.removed,
-    }));
-
-    const response: RedlineResponse = {
-      segments,
-      summary: {
-        additions: changes.filter((c) => c.added).length,
-        deletions: changes.filter((c) => c.removed).length,
-        unchanged: changes.filter((c) => !c.added && !c.removed).length,
-      },
-    };
+    // Page boundaries come from /upload for PDFs and let clauses cite page numbers
+    const response = redlineService.compare(originalText, proposedText, {
+      originalPages: Array.isArray(originalPages) ? originalPages : undefined,
+      proposedPages: Array.isArray(proposedPages) ? proposedPages : undefined,
+    });
 
     return res.json(response);
   } catch (error) {
@@ -91,10 +94,102 @@ router.post("/", async (req, res) => {
   }
 });
 
-// POST /api/redline/export
+// POST /api/redline/merge - Three-way merge of two negotiation revisions against a base draft
+router.post("/merge", requireDocumentAccess("DOCUMENT", { param: "documentId", from: "body", permission: "EDIT" }), async (req, res) => {
+  try {
+    const { baseText, oursText, theirsText, resolutions } = req.body;
+    if (!baseText || !oursText || !theirsText) {
+      return res.status(400).json({ error: "Missing required fields" });
+    }
+
+    const document = res.locals.document as Document;
+    const result = redlineService.merge(baseText, oursText, theirsText, resolutions || {});
+
+    // The document row lock serialises concurrent merges, so each gets the
+    // next number; the unique (document, version) index backs this up
+    const version = await db.transaction(async (tx) => {
+      await tx.select({ id: documents.id }).from(documents).where(eq(documents.id, document.id)).for("update");
+
+      const [{ value: existingVersions }] = await tx
+        .select({ value: count() })
+        .from(documentVersions)
+        .where(eq(documentVersions.documentId, document.id));
+
+      const [created] = await tx
+        .insert(documentVersions)
+        .values({
+          documentId: document.id,
+          version: String(existingVersions + 1),
+          content: result.content,
+          changes: result.changes,
+          authorId: req.user!.id,
+        })
+        .returning();
+      return created;
+    });
+
+    await clauseExtractionService.queueExtraction(document.id, version.id, {
+      organizationId: document.organizationId,
+      createdBy: req.user!.id,
+    });
+
+    await auditLogService.record(req, res, {
+      action: "EDIT",
+      resourceType: "DOCUMENT",
+      resourceId: document.id,
+      details: { versionId: version.id, merge: true, conflicts: result.conflicts.length },
+    });
+
+    return res.json({
+      versionId: version.id,
+      version: version.version,
+      status: result.conflicts.length > 0 ? "CONFLICTS" : "MERGED",
+      ...result,
+    });
+  } catch (error) {
+    console.error("Redline merge error:", error);
+    return res.status(500).json({ error: "Three-way merge failed" });
+  }
+});
+
+// POST /api/redline/export - PDF by default, Word with native tracked changes when format is "docx"
 router.post("/export", async (req, res) => {
   try {
     const { content, changes } = req.body;
+    const format = (req.body.format || req.query.format) === "docx" ? "docx" : "pdf";
+
+    if (typeof content !== "string" || !Array.isArray(changes)) {
+      return res.status(400).json({ error: "Missing required fields" });
+    }
+    const parsed = trackedChangesExportSchema.safeParse({ changes });
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.issues.map((issue) => issue.message).join(", ") });
+    }
+
+    await auditLogService.record(req, res, {
+      action: "DOWNLOAD",
+      resourceType: "REDLINE",
+      details: { format, changes: changes.length },
+    });
+
+    if (format === "docx") {
+      const buffer = await docxRedlineService.buildTrackedChangesDocument({
+        content,
+        changes: parsed.data.changes,
+        author: req.user?.username || "JurySync",
+        title: req.body.title,
+      });
+
+      res.setHeader(
+        "Content-Type",
+        "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      );
+      res.setHeader(
+        "Content-Disposition",
+        "attachment; filename=document-with-changes.docx",
+      );
+      return res.send(buffer);
+    }
 
     // Create a new PDF document
     const doc = new PDFDocument();
@@ -180,8 +275,8 @@ router.post("/export", async (req, res) => {
     // Finalize the PDF
     doc.end();
   } catch (error) {
-    console.error("PDF export error:", error);
-    res.status(500).json({ error: "Failed to generate PDF" });
+    console.error("Redline export error:", error);
+    res.status(500).json({ error: "Failed to export document" });
   }
 });
 
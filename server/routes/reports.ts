@@ -1,8 +1,10 @@
 import { Router } from "express";
 import { db } from "../db";
 import { complianceAudits, documents } from "@shared/schema";
-import { eq } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
 import { pdfService } from "../services/pdf-service";
+import { organizationService } from "../services/organizationService";
+import { documentAccessService } from "../services/documentAccessService";
 import { Readable } from "stream";
 
 const router = Router();
@@ -14,7 +16,11 @@ router.post("/reports/compliance/generate", async (req, res) => {
     const [audit] = await db
       .select()
       .from(complianceAudits)
-      .where(eq(complianceAudits.id, auditId));
+      .where(and(
+        eq(complianceAudits.id, auditId),
+        organizationService.scopeFilter("complianceAudits", res.locals.tenant),
+        res.locals.tenant.organizationId === null ? eq(complianceAudits.userId, req.user!.id) : undefined,
+      ));
 
     if (!audit) {
       return res.status(404).json({ error: "Compliance audit not found" });
@@ -81,8 +87,14 @@ router.get("/reports/export-all", async (req, res) => {
       })
       .moveDown(2);
 
-    // Fetch all documents
-    const allDocuments = await db.select().from(documents);
+    // Fetch the documents the caller can see in their organization
+    const allDocuments = await db
+      .select()
+      .from(documents)
+      .where(and(
+        organizationService.scopeFilter("documents", res.locals.tenant),
+        documentAccessService.accessibleFilter(req.user!, "DOCUMENT"),
+      ));
 
     // Add document summaries
     doc
@@ -121,7 +133,13 @@ router.get("/reports/export-all", async (req, res) => {
     }
 
     // Fetch and add compliance audits
-    const audits = await db.select().from(complianceAudits);
+    const audits = await db
+      .select()
+      .from(complianceAudits)
+      .where(and(
+        organizationService.scopeFilter("complianceAudits", res.locals.tenant),
+        res.locals.tenant.organizationId === null ? eq(complianceAudits.userId, req.user!.id) : undefined,
+      ));
 
     if (audits.length > 0) {
       doc
@@ -0,0 +1,105 @@
+import { Router, type Request, type Response } from "express";
+import type { DocumentPermission } from "@shared/schema";
+import { signatureService, SignatureError } from "../services/signatureService";
+import { documentAccessService } from "../services/documentAccessService";
+import { auditLogService } from "../services/auditLogService";
+import debug from "debug";
+
+const log = debug("app:signatures");
+const router = Router();
+
+function sendError(res: Response, error: any, fallback: string) {
+  if (error instanceof SignatureError) {
+    return res.status(error.statusCode).json({ error: error.message, code: error.code });
+  }
+  log(fallback, error);
+  res.status(500).json({ error: error.message || fallback });
+}
+
+// Envelopes are visible to whoever can see the document they were sent for
+async function loadEnvelope(req: Request, res: Response, permission: DocumentPermission = "VIEW") {
+  const envelope = await signatureService.getEnvelope(parseInt(req.params.id));
+  const document = envelope && await documentAccessService.loadResource("DOCUMENT", envelope.documentId);
+  if (!envelope || !document || !(await documentAccessService.canAccess(req.user!, "DOCUMENT", document, permission))) {
+    res.status(404).json({ error: "Envelope not found", code: "NOT_FOUND" });
+    return null;
+  }
+  return envelope;
+}
+
+router.get('/envelopes/:id', async (req, res) => {
+  try {
+    const envelope = await loadEnvelope(req, res);
+    if (envelope) {
+      await auditLogService.record(req, res, {
+        action: 'VIEW',
+        resourceType: 'DOCUMENT',
+        resourceId: envelope.documentId,
+        details: { envelopeId: envelope.id },
+      });
+      res.json(envelope);
+    }
+  } catch (error: any) {
+    sendError(res, error, 'Failed to load envelope');
+  }
+});
+
+router.get('/envelopes/:id/signed-pdf', async (req, res) => {
+  try {
+    const envelope = await loadEnvelope(req, res);
+    if (!envelope) return;
+
+    const signed = await signatureService.getSignedPdf(envelope.id);
+    if (!signed) {
+      return res.status(409).json({ error: 'The envelope has not been signed by everyone yet', code: 'NOT_SIGNED' });
+    }
+
+    await auditLogService.record(req, res, {
+      action: 'DOWNLOAD',
+      resourceType: 'DOCUMENT',
+      resourceId: envelope.documentId,
+      details: { envelopeId: envelope.id, signedPdfHash: envelope.signedPdfHash },
+    });
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="signed-${envelope.documentId}-${envelope.id}.pdf"`);
+    res.setHeader('X-Document-Hash', envelope.documentHash);
+    res.send(signed.pdf);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to download signed document');
+  }
+});
+
+router.post('/envelopes/:id/resend', async (req, res) => {
+  try {
+    const envelope = await loadEnvelope(req, res, 'EDIT');
+    if (!envelope) return;
+
+    const resent = await signatureService.resend(envelope.id);
+    res.json({ resent });
+  } catch (error: any) {
+    sendError(res, error, 'Failed to resend signing links');
+  }
+});
+
+router.post('/envelopes/:id/cancel', async (req, res) => {
+  try {
+    const envelope = await loadEnvelope(req, res, 'EDIT');
+    if (!envelope) return;
+
+    const cancelled = await signatureService.cancel(envelope.id);
+
+    await auditLogService.record(req, res, {
+      action: 'EDIT',
+      resourceType: 'DOCUMENT',
+      resourceId: envelope.documentId,
+      details: { envelopeId: envelope.id, status: cancelled.status },
+    });
+
+    res.json(cancelled);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to cancel envelope');
+  }
+});
+
+export default router;
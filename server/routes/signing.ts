@@ -0,0 +1,73 @@
+import { Router, type Request, type Response } from "express";
+import { z } from "zod";
+import { capturedSignatureSchema } from "@shared/schema";
+import { signatureService, SignatureError, type SigningContext } from "../services/signatureService";
+import debug from "debug";
+
+const log = debug("app:signing");
+const router = Router();
+
+// Signers are usually not users: these routes are public and the one-time
+// token in the path is the only credential
+
+const signSchema = z.object({
+  signature: capturedSignatureSchema,
+  consent: z.literal(true, { errorMap: () => ({ message: "You must agree to sign electronically" }) }),
+});
+
+const declineSchema = z.object({
+  reason: z.string().max(2000).optional(),
+});
+
+function sendError(res: Response, error: any, fallback: string) {
+  if (error instanceof SignatureError) {
+    return res.status(error.statusCode).json({ error: error.message, code: error.code });
+  }
+  log(fallback, error);
+  res.status(500).json({ error: fallback });
+}
+
+function signingContext(req: Request): SigningContext {
+  return { ipAddress: req.ip, userAgent: req.get('user-agent') };
+}
+
+router.get('/:token', async (req, res) => {
+  try {
+    res.json(await signatureService.getSigningSession(req.params.token));
+  } catch (error: any) {
+    sendError(res, error, 'Failed to load signing request');
+  }
+});
+
+router.post('/:token', async (req, res) => {
+  try {
+    const parsed = signSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: parsed.error.issues.map(issue => issue.message).join(', '),
+        code: 'INVALID_INPUT'
+      });
+    }
+
+    const result = await signatureService.sign(req.params.token, parsed.data.signature, signingContext(req));
+    res.json({ status: result.envelope.status, signedAt: result.signer.signedAt });
+  } catch (error: any) {
+    sendError(res, error, 'Failed to record signature');
+  }
+});
+
+router.post('/:token/decline', async (req, res) => {
+  try {
+    const parsed = declineSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Reason is too long', code: 'INVALID_INPUT' });
+    }
+
+    const envelope = await signatureService.decline(req.params.token, parsed.data.reason, signingContext(req));
+    res.json({ status: envelope.status });
+  } catch (error: any) {
+    sendError(res, error, 'Failed to decline signing request');
+  }
+});
+
+export default router;
@@ -0,0 +1,190 @@
+import { Router, type Request, type Response } from "express";
+import { z } from "zod";
+import {
+  createTemplateSchema,
+  previewTemplateSchema,
+  publishTemplateSchema,
+  TemplateScope,
+  TemplateStatus,
+  updateTemplateSchema,
+} from "@shared/schema";
+import { templateLibraryService, TemplateLibraryError } from "../services/templateLibraryService";
+import { auditLogService } from "../services/auditLogService";
+import debug from "debug";
+
+const log = debug("app:templates");
+const router = Router();
+
+const templateFiltersSchema = z.object({
+  search: z.string().trim().min(1).max(200).optional(),
+  category: z.string().min(1).max(100).optional(),
+  status: TemplateStatus.optional(),
+  scope: TemplateScope.optional(),
+});
+
+function sendError(res: Response, error: any, fallback: string) {
+  if (error instanceof TemplateLibraryError) {
+    return res.status(error.statusCode).json({ error: error.message, code: error.code });
+  }
+  log(fallback, error);
+  res.status(500).json({ error: error.message || fallback });
+}
+
+function invalidInput(res: Response, error: z.ZodError) {
+  return res.status(400).json({
+    error: error.issues.map(issue => issue.message).join(', '),
+    code: 'INVALID_INPUT'
+  });
+}
+
+function templateId(req: Request): number {
+  return parseInt(req.params.id);
+}
+
+router.get('/', async (req, res) => {
+  try {
+    const parsed = templateFiltersSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return invalidInput(res, parsed.error);
+    }
+    res.json(await templateLibraryService.list(req.user!, res.locals.tenant, parsed.data));
+  } catch (error: any) {
+    sendError(res, error, 'Failed to list templates');
+  }
+});
+
+router.post('/', async (req, res) => {
+  try {
+    const parsed = createTemplateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalidInput(res, parsed.error);
+    }
+
+    const template = await templateLibraryService.create(req.user!, res.locals.tenant, parsed.data);
+
+    await auditLogService.record(req, res, {
+      action: 'CREATE',
+      resourceType: 'CONTRACT_TEMPLATE',
+      resourceId: template.id,
+      details: { key: template.key, scope: template.scope, status: template.status },
+    });
+
+    res.status(201).json(template);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to create template');
+  }
+});
+
+router.get('/:id', async (req, res) => {
+  try {
+    res.json(await templateLibraryService.get(req.user!, res.locals.tenant, templateId(req)));
+  } catch (error: any) {
+    sendError(res, error, 'Failed to load template');
+  }
+});
+
+// Saves a new draft version
+router.put('/:id', async (req, res) => {
+  try {
+    const parsed = updateTemplateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return invalidInput(res, parsed.error);
+    }
+
+    const template = await templateLibraryService.update(req.user!, res.locals.tenant, templateId(req), parsed.data);
+
+    await auditLogService.record(req, res, {
+      action: 'EDIT',
+      resourceType: 'CONTRACT_TEMPLATE',
+      resourceId: template.id,
+      details: { version: template.latestVersion, changeNote: parsed.data.changeNote },
+    });
+
+    res.json(template);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to update template');
+  }
+});
+
+router.delete('/:id', async (req, res) => {
+  try {
+    const template = await templateLibraryService.archive(req.user!, res.locals.tenant, templateId(req));
+
+    await auditLogService.record(req, res, {
+      action: 'DELETE',
+      resourceType: 'CONTRACT_TEMPLATE',
+      resourceId: template.id,
+      details: { key: template.key, archived: true },
+    });
+
+    res.json(template);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to archive template');
+  }
+});
+
+router.post('/:id/publish', async (req, res) => {
+  try {
+    const parsed = publishTemplateSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return invalidInput(res, parsed.error);
+    }
+
+    const template = await templateLibraryService.publish(req.user!, res.locals.tenant, templateId(req), parsed.data.version);
+
+    await auditLogService.record(req, res, {
+      action: 'APPROVE',
+      resourceType: 'CONTRACT_TEMPLATE',
+      resourceId: template.id,
+      details: { publishedVersionId: template.publishedVersionId },
+    });
+
+    res.json(template);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to publish template');
+  }
+});
+
+// Renders sample values without saving anything
+router.post('/:id/preview', async (req, res) => {
+  try {
+    const parsed = previewTemplateSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return invalidInput(res, parsed.error);
+    }
+
+    res.json(await templateLibraryService.preview(
+      req.user!,
+      res.locals.tenant,
+      templateId(req),
+      parsed.data.variables,
+      parsed.data.version
+    ));
+  } catch (error: any) {
+    sendError(res, error, 'Failed to preview template');
+  }
+});
+
+router.get('/:id/versions', async (req, res) => {
+  try {
+    const template = await templateLibraryService.get(req.user!, res.locals.tenant, templateId(req));
+    res.json(template.versions);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to list template versions');
+  }
+});
+
+router.get('/:id/versions/:version', async (req, res) => {
+  try {
+    res.json(await templateLibraryService.getVersion(
+      req.user!,
+      res.locals.tenant,
+      templateId(req),
+      parseInt(req.params.version)
+    ));
+  } catch (error: any) {
+    sendError(res, error, 'Failed to load template version');
+  }
+});
+
+export default router;
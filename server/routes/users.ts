@@ -0,0 +1,47 @@
+import { Router } from "express";
+import { ne } from "drizzle-orm";
+import { db } from "../db";
+import { users } from "@shared/schema";
+import { organizationService } from "../services/organizationService";
+import debug from "debug";
+
+const log = debug("app:users");
+const router = Router();
+
+// People the caller can pick as approvers or delegates: members of their
+// organization, or staff accounts when they work in a personal space
+router.get('/', async (req, res) => {
+  try {
+    const organizationId = res.locals.tenant?.organizationId;
+
+    if (organizationId) {
+      const members = await organizationService.listMembers(organizationId);
+      return res.json(members.map(member => ({
+        id: member.userId,
+        username: member.username,
+        firstName: member.firstName,
+        lastName: member.lastName,
+        email: member.email,
+        organizationRole: member.role,
+      })));
+    }
+
+    const staff = await db
+      .select({
+        id: users.id,
+        username: users.username,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        role: users.role,
+      })
+      .from(users)
+      .where(ne(users.role, 'CLIENT'));
+
+    res.json(staff);
+  } catch (error: any) {
+    log('Error listing users:', error);
+    res.status(500).json({ error: error.message || 'Failed to list users' });
+  }
+});
+
+export default router;
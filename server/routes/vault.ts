@@ -2,10 +2,14 @@ import { Router } from "express";
 import multer from "multer";
 import { db } from "../db";
 import { vaultDocuments, documents, type VaultDocument, type Document } from "@shared/schema";
-import { rbacMiddleware } from "../middleware/rbac";
+import { documentAccessService } from "../services/documentAccessService";
+import { requireDocumentAccess } from "../middleware/rbac";
+import { organizationService } from "../services/organizationService";
+import { auditLogService } from "../services/auditLogService";
 import { analyzeDocument } from "../services/documentAnalysisService";
-import { eq, count, avg } from "drizzle-orm";
+import { and, eq, count, avg } from "drizzle-orm";
 import { legalDocumentService } from "../services/legalDocumentService";
+import { obligationService } from "../services/obligationService";
 
 // Configure multer for memory storage
 const upload = multer({
@@ -31,9 +35,6 @@ const upload = multer({
 
 const router = Router();
 
-// Apply RBAC middleware to all routes
-router.use(rbacMiddleware());
-
 // File upload endpoint with AI-powered document analysis
 router.post('/upload', async (req, res) => {
   try {
@@ -77,10 +78,23 @@ router.post('/upload', async (req, res) => {
           riskLevel: analysis.riskLevel,
           recommendations: analysis.recommendations
         },
-        userId
+        userId,
+        ...organizationService.scopeValues(res.locals.tenant)
       })
       .returning();
 
+    await auditLogService.record(req, res, {
+      action: "CREATE",
+      resourceType: "VAULT_DOCUMENT",
+      resourceId: document.id,
+      details: { title: document.title, source: "upload" },
+    });
+
+    await obligationService.queueExtraction(document.id, {
+      organizationId: document.organizationId,
+      createdBy: userId,
+    });
+
     return res.json({
       success: true,
       document: {
@@ -119,6 +133,17 @@ router.post('/analyze', async (req, res) => {
       return res.status(404).json({ error: "Document not found" });
     }
 
+    if (!await documentAccessService.canAccess(req.user!, "VAULT_DOCUMENT", document, "EDIT")) {
+      return res.status(403).json({ error: "Forbidden" });
+    }
+
+    await auditLogService.record(req, res, {
+      action: "EDIT",
+      resourceType: "VAULT_DOCUMENT",
+      resourceId: document.id,
+      details: { analysisType },
+    });
+
     // Perform specific analysis based on type
     let analysisResult;
     switch (analysisType) {
@@ -185,6 +210,13 @@ router.post('/update-sharing', async (req, res) => {
       })
       .where(eq(vaultDocuments.userId, userId));
 
+    await auditLogService.record(req, res, {
+      action: "SHARE",
+      resourceType: "VAULT_SHARING_POLICY",
+      resourceId: userId,
+      details: { policy },
+    });
+
     res.json({ success: true, policy });
   } catch (error: any) {
     console.error('Sharing update error:', error);
@@ -201,23 +233,27 @@ router.get('/stats', async (req, res) => {
       return res.status(401).json({ error: "Unauthorized" });
     }
 
-    // Calculate real statistics from the database
+    // Calculate real statistics from the database, within the caller's organization
+    const scope = organizationService.scopeFilter("vaultDocuments", res.locals.tenant);
     const [documentCount] = await db
       .select({ count: count() })
-      .from(vaultDocuments);
+      .from(vaultDocuments)
+      .where(scope);
 
     const [avgConfidence] = await db
       .select({
         avgConfidence: avg(vaultDocuments.metadata.confidence)
       })
-      .from(vaultDocuments);
+      .from(vaultDocuments)
+      .where(scope);
 
     // Calculate extraction statistics
     const documents = await db
       .select({
         metadata: vaultDocuments.metadata
       })
-      .from(vaultDocuments);
+      .from(vaultDocuments)
+      .where(scope);
 
     const totalExtractions = documents.reduce((acc, doc) => {
       return acc + (doc.metadata.entities?.length || 0) + (doc.metadata.keywords?.length || 0);
@@ -279,9 +315,17 @@ router.post('/upload-with-category', async (req, res) => {
     const document = await legalDocumentService.uploadAndCategorize(
       content,
       userId,
-      preferredCategory
+      preferredCategory,
+      organizationService.scopeValues(res.locals.tenant)
     );
 
+    await auditLogService.record(req, res, {
+      action: "CREATE",
+      resourceType: "VAULT_DOCUMENT",
+      resourceId: document.id,
+      details: { title: document.title, source: "upload-with-category" },
+    });
+
     return res.json({
       success: true,
       document: {
@@ -310,10 +354,19 @@ router.get('/documents', async (req, res) => {
 
     console.log('Fetching documents from both vault and workflow...');
 
-    // Fetch documents from both collections with proper type handling
+    // Fetch owned and shared documents from both collections, within the
+    // caller's organization and optional ?matterId=
+    const user = req.user!;
+    const tenant = res.locals.tenant;
     const [vaultDocs, workflowDocs] = await Promise.all([
-      db.select().from(vaultDocuments).where(eq(vaultDocuments.userId, userId)),
-      db.select().from(documents).where(eq(documents.userId, userId))
+      db.select().from(vaultDocuments).where(and(
+        organizationService.scopeFilter("vaultDocuments", tenant),
+        documentAccessService.accessibleFilter(user, "VAULT_DOCUMENT")
+      )),
+      db.select().from(documents).where(and(
+        organizationService.scopeFilter("documents", tenant),
+        documentAccessService.accessibleFilter(user, "DOCUMENT")
+      ))
     ]);
 
     console.log(`Found ${vaultDocs.length} vault documents and ${workflowDocs.length} workflow documents`);
@@ -346,6 +399,17 @@ router.get('/documents', async (req, res) => {
 
     console.log(`Returning ${uniqueDocs.length} unique documents`);
 
+    // The listing carries each document's full text, so it counts as reading them
+    await auditLogService.record(req, res, {
+      action: 'VIEW',
+      resourceType: 'VAULT_DOCUMENT',
+      details: {
+        view: 'list',
+        vaultDocumentIds: vaultDocs.map(doc => doc.id),
+        documentIds: workflowDocs.map(doc => doc.id)
+      }
+    });
+
     res.json({
       documents: uniqueDocs.map(doc => ({
         id: doc.id,
@@ -366,25 +430,20 @@ router.get('/documents', async (req, res) => {
 });
 
 // Add delete endpoint after the existing routes
-router.delete('/documents/:id', async (req, res) => {
+router.delete('/documents/:id', requireDocumentAccess('VAULT_DOCUMENT', { permission: 'DELETE' }), async (req, res) => {
   try {
     const documentId = parseInt(req.params.id);
-    const userId = req.user?.id;
-
-    if (!userId) {
-      return res.status(401).json({ error: "Unauthorized" });
-    }
 
     console.log('Attempting to delete document:', {
       documentId,
-      userId,
+      userId: req.user?.id,
       timestamp: new Date().toISOString()
     });
 
     // Delete the document from vault storage
     const result = await db
       .delete(vaultDocuments)
-      .where(eq(vaultDocuments.id, documentId) && eq(vaultDocuments.userId, userId))
+      .where(and(eq(vaultDocuments.id, documentId), eq(vaultDocuments.userId, res.locals.document.userId)))
       .returning();
 
     if (!result.length) {
@@ -397,6 +456,13 @@ router.delete('/documents/:id', async (req, res) => {
       timestamp: new Date().toISOString()
     });
 
+    await auditLogService.record(req, res, {
+      action: "DELETE",
+      resourceType: "VAULT_DOCUMENT",
+      resourceId: documentId,
+      details: { title: result[0].title },
+    });
+
     res.json({ success: true });
   } catch (error: any) {
     console.error('Document deletion error:', error);
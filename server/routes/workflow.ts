@@ -2,9 +2,12 @@ import { Router } from "express";
 import multer from "multer";
 import debug from "debug";
 import { db } from "../db";
-import { vaultDocuments } from "@shared/schema";
+import { vaultDocuments, type VaultDocument } from "@shared/schema";
 import { documentProcessor } from "../services/documentProcessor";
 import { createVectorEmbedding } from "../services/vectorService";
+import { jobQueue } from "../services/jobQueue";
+import { auditLogService } from "../services/auditLogService";
+import { requireDocumentAccess } from "../middleware/rbac";
 import { eq } from "drizzle-orm";
 
 const log = debug("jurysync:workflow");
@@ -240,21 +243,20 @@ router.post("/upload", (req, res) => {
   });
 });
 
-// Status check route
-router.get("/status/:documentId", async (req, res) => {
+// Status check route. Processing state comes from the document's latest
+// background job, so it stays accurate across server restarts.
+router.get("/status/:documentId", requireDocumentAccess("VAULT_DOCUMENT", { param: "documentId" }), async (req, res) => {
   try {
-    const documentId = parseInt(req.params.documentId);
+    const document = res.locals.document as VaultDocument;
 
-    const [document] = await db
-      .select()
-      .from(vaultDocuments)
-      .where(eq(vaultDocuments.id, documentId));
+    const job = await jobQueue.latestForResource("VAULT_DOCUMENT", document.id);
 
-    if (!document) {
-      return res.status(404).json({
-        error: "Document not found",
-      });
-    }
+    await auditLogService.record(req, res, {
+      action: "VIEW",
+      resourceType: "VAULT_DOCUMENT",
+      resourceId: document.id,
+      details: { view: "status" },
+    });
 
     res.json({
       documentId: document.id,
@@ -262,6 +264,18 @@ router.get("/status/:documentId", async (req, res) => {
       metadata: document.metadata,
       aiSummary: document.aiSummary,
       aiClassification: document.aiClassification,
+      job: job
+        ? {
+            id: job.id,
+            status: job.status,
+            attempts: job.attempts,
+            maxAttempts: job.maxAttempts,
+            lastError: job.lastError,
+            progress: job.progress,
+            updatedAt: job.updatedAt,
+            completedAt: job.completedAt,
+          }
+        : null,
     });
   } catch (error) {
     log("Status check error:", error);
@@ -1,4 +1,3 @@
-import { Anthropic } from "@anthropic-ai/sdk";
 import { pdfService } from "./pdf-service";
 import { complianceAuditService } from "./complianceAuditService";
 import { legalResearchService } from "./legalResearchService";
@@ -6,7 +5,6 @@ import { documentProcessor } from "./documentProcessor";
 
 export class ServiceContainer {
   private static instance: ServiceContainer;
-  private anthropicClient: Anthropic | null = null;
   private services: Map<string, any> = new Map();
   private initializationPromise: Promise<void> | null = null;
 
@@ -46,13 +44,6 @@ export class ServiceContainer {
     }
   }
 
-  async getAnthropicClient(): Promise<Anthropic> {
-    if (!this.anthropicClient) {
-      this.anthropicClient = new Anthropic();
-    }
-    return this.anthropicClient;
-  }
-
   async ensureServiceAvailable(serviceName: string): Promise<boolean> {
     await this.initialize();
     return this.services.has(serviceName);
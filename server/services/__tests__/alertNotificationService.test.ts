@@ -0,0 +1,92 @@
+import {
+  alertRoutingRules,
+  complianceAlerts,
+  complianceDocuments,
+  notificationChannels,
+  type InsertAlertRoutingRule,
+} from "@shared/schema";
+import { row, useProxyDb } from "../../tests/helpers/proxyDb";
+import { alertNotificationService, NotificationError } from "../alertNotificationService";
+import { organizationService } from "../organizationService";
+import type { JobContext } from "../jobQueue";
+
+jest.mock("../../db", () => jest.requireActual("../../tests/helpers/proxyDb").mockDbModule);
+jest.mock("../jobQueue", () => ({ jobQueue: { register: jest.fn(), enqueue: jest.fn() } }));
+jest.mock("../organizationService", () => ({ organizationService: { listMembers: jest.fn() } }));
+
+const members = organizationService.listMembers as jest.MockedFunction<typeof organizationService.listMembers>;
+
+const rule: InsertAlertRoutingRule = {
+  severity: "CRITICAL",
+  channelIds: [4],
+  recipientIds: [9],
+  escalateToId: null,
+  escalateAfterMinutes: null,
+  escalationAction: "RENOTIFY",
+  maxEscalations: 1,
+  isActive: true,
+};
+
+// Channel 4 exists in whatever scope is asked for
+function channelDb() {
+  return useProxyDb(({ sql }) => {
+    if (sql.includes('from "notification_channels"')) return [row(notificationChannels, { id: 4, config: {} })];
+    if (sql.startsWith('insert into "alert_routing_rules"')) return [row(alertRoutingRules, { id: 2 })];
+    return [];
+  }).queries;
+}
+
+describe("Alert routing", () => {
+  beforeEach(() => {
+    members.mockReset().mockResolvedValue([]);
+  });
+
+  it("keeps personal-space rules and channels to the user who set them up", async () => {
+    const queries = channelDb();
+
+    await alertNotificationService.listRules({ organizationId: null, userId: 9 });
+    await alertNotificationService.listChannels({ organizationId: null, userId: 9 });
+
+    for (const query of queries) {
+      expect(query.sql).toMatch(/"organization_id" is null and "\w+"\."created_by" = \$1/);
+      expect(query.params).toEqual([9]);
+    }
+  });
+
+  it("routes a personal document's alert through its owner's rules only", async () => {
+    const { queries } = useProxyDb(({ sql }) => {
+      if (sql.includes('from "compliance_alerts"')) return [row(complianceAlerts, { id: 30, documentId: 8, status: "PENDING", severity: "HIGH" })];
+      if (sql.includes('from "compliance_documents"')) return [row(complianceDocuments, { id: 8, title: "Policy", userId: 12, organizationId: null })];
+      return [];
+    });
+    const context = { job: {}, reportProgress: jest.fn(), enqueue: jest.fn() } as unknown as JobContext;
+
+    await alertNotificationService["notify"](30, 0, context);
+
+    const rules = queries.find((query) => query.sql.includes('from "alert_routing_rules"'))!;
+    expect(rules.sql).toMatch(/"created_by" = \$1/);
+    expect(rules.params).toEqual([12]);
+  });
+
+  it("refuses recipients and escalation targets outside the organization", async () => {
+    channelDb();
+    members.mockResolvedValue([{ userId: 9 }] as Awaited<ReturnType<typeof organizationService.listMembers>>);
+
+    const error = await alertNotificationService
+      .createRule({ organizationId: 3, userId: 9 }, { ...rule, escalationAction: "REASSIGN", escalateToId: 40 })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(NotificationError);
+    expect(error).toMatchObject({ statusCode: 400, code: "INVALID_INPUT", message: "Users 40 are not members of this organization" });
+    expect(members).toHaveBeenCalledWith(3);
+  });
+
+  it("lets a personal rule notify only its owner", async () => {
+    channelDb();
+
+    await expect(alertNotificationService.createRule({ organizationId: null, userId: 9 }, rule)).resolves.toMatchObject({ id: 2 });
+    await expect(alertNotificationService.createRule({ organizationId: null, userId: 9 }, { ...rule, recipientIds: [9, 15] }))
+      .rejects.toMatchObject({ statusCode: 400 });
+    expect(members).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,58 @@
+import { approvalRequests, approvals, documents } from "@shared/schema";
+import { row, useProxyDb } from "../../tests/helpers/proxyDb";
+import { jobQueue } from "../jobQueue";
+import { alertNotificationService } from "../alertNotificationService";
+import "../approvalService";
+
+jest.mock("../../db", () => jest.requireActual("../../tests/helpers/proxyDb").mockDbModule);
+jest.mock("../jobQueue", () => ({ jobQueue: { register: jest.fn(), enqueue: jest.fn() } }));
+jest.mock("../alertNotificationService", () => ({ alertNotificationService: { notifyUser: jest.fn() } }));
+
+const notifyUser = alertNotificationService.notifyUser as jest.Mock;
+const [[, remind]] = (jobQueue.register as jest.Mock).mock.calls.filter(([type]) => type === "approvals.reminder");
+
+function approvalDb(status: string) {
+  const { queries } = useProxyDb(({ sql }) =>
+    sql.startsWith("select")
+      ? [{
+        ...row(approvals, { id: 5, documentId: 4, requestId: 2, approverId: 12, requesterId: 3, status, reminderCount: 1 }),
+        ...row(approvalRequests, { reminderHours: 24, organizationId: 7 }),
+        ...row(documents, { title: "Supply Agreement" }),
+      }]
+      : []);
+  return queries;
+}
+
+describe("Approval reminders", () => {
+  const context = { enqueue: jest.fn() };
+
+  beforeEach(() => {
+    notifyUser.mockReset();
+    context.enqueue.mockReset();
+  });
+
+  it("notifies the approver of a pending step and schedules the next reminder", async () => {
+    const queries = approvalDb("PENDING");
+
+    await expect(remind({ approvalId: 5 }, context)).resolves.toEqual({ reminded: true });
+
+    expect(notifyUser).toHaveBeenCalledWith(12, expect.objectContaining({
+      organizationId: 7,
+      type: "APPROVAL_REMINDER",
+      resourceType: "APPROVAL",
+      resourceId: "5",
+    }));
+    expect(notifyUser.mock.calls[0][1].title).toContain("Supply Agreement");
+    expect(queries.some((query) => query.sql.startsWith('update "approvals"'))).toBe(true);
+    expect(context.enqueue).toHaveBeenCalledWith("approvals.reminder", { approvalId: 5 }, expect.anything());
+  });
+
+  it("stops once the step has been decided", async () => {
+    approvalDb("APPROVED");
+
+    await expect(remind({ approvalId: 5 }, context)).resolves.toEqual({ reminded: false });
+
+    expect(notifyUser).not.toHaveBeenCalled();
+    expect(context.enqueue).not.toHaveBeenCalled();
+  });
+});
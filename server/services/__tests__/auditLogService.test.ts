@@ -0,0 +1,100 @@
+import { auditLogEntries } from "@shared/schema";
+import { row, useProxyDb } from "../../tests/helpers/proxyDb";
+import { auditLogService, computeEntryHash, GENESIS_HASH } from "../auditLogService";
+
+jest.mock("../../db", () => jest.requireActual("../../tests/helpers/proxyDb").mockDbModule);
+
+// Builds a valid chain of entries as the database would store them
+function chain(length: number) {
+  const entries = [];
+  let previousHash = GENESIS_HASH;
+  for (let sequence = 1; sequence <= length; sequence++) {
+    const fields = {
+      sequence,
+      organizationId: 3,
+      actorId: 9,
+      actorRole: "LAWYER",
+      action: "VIEW",
+      resourceType: "DOCUMENT",
+      resourceId: String(sequence),
+      ipAddress: "10.0.0.1",
+      userAgent: "jest",
+      details: { view: "workflow" },
+      createdAt: new Date(Date.UTC(2025, 2, 4, 5, 6, sequence)),
+      previousHash,
+    };
+    const hash = computeEntryHash(fields);
+    entries.push({ ...fields, hash });
+    previousHash = hash;
+  }
+  return entries;
+}
+
+function chainDb(entries: ReturnType<typeof chain>) {
+  const { queries } = useProxyDb(({ sql, params }) => {
+    if (!sql.startsWith("select")) return [];
+    const [cursor] = params as number[];
+    return entries.filter((entry) => entry.sequence > cursor).map((entry) => row(auditLogEntries, { id: entry.sequence, ...entry }));
+  });
+  return queries;
+}
+
+describe("Audit log chain", () => {
+  it("verifies an intact chain", async () => {
+    const entries = chain(3);
+    chainDb(entries);
+
+    await expect(auditLogService.verifyChain()).resolves.toEqual({
+      valid: true,
+      entries: 3,
+      headHash: entries[2].hash,
+    });
+  });
+
+  it("reports an entry whose contents were changed", async () => {
+    const entries = chain(3);
+    entries[1].details = { view: "chat" };
+    chainDb(entries);
+
+    await expect(auditLogService.verifyChain()).resolves.toMatchObject({
+      valid: false,
+      entries: 1,
+      brokenAt: { sequence: 2, reason: "entry hash does not match its contents" },
+    });
+  });
+
+  it("reports a gap where an entry was removed", async () => {
+    const entries = chain(3);
+    chainDb([entries[0], entries[2]]);
+
+    await expect(auditLogService.verifyChain()).resolves.toMatchObject({
+      valid: false,
+      brokenAt: { sequence: 3, reason: "expected sequence 2" },
+    });
+  });
+
+  it("chains each new entry off the latest one under the append lock", async () => {
+    const [last] = chain(1);
+    const { queries } = useProxyDb(({ sql }) =>
+      sql.startsWith('select "sequence"') ? [row(auditLogEntries, { sequence: last.sequence, hash: last.hash })] : []);
+
+    await auditLogService.append(
+      { action: "DOWNLOAD", resourceType: "DOCUMENT", resourceId: 4 },
+      { actorId: 9, actorRole: "LAWYER", organizationId: 3, ipAddress: null, userAgent: null },
+    );
+
+    expect(queries[0].sql).toContain("pg_advisory_xact_lock");
+    const insert = queries.find((query) => query.sql.startsWith('insert into "audit_log_entries"'))!;
+    expect(insert.params).toEqual(expect.arrayContaining([2, "DOWNLOAD", "4", last.hash]));
+  });
+
+  it("installs a trigger that refuses updates and deletes", async () => {
+    const { queries } = useProxyDb();
+
+    await auditLogService.enforceAppendOnly();
+
+    expect(queries.map((query) => query.sql).join("\n")).toMatch(
+      /before update or delete or truncate on audit_log_entries/,
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import { llmUsage, organizationBudgets } from "@shared/schema";
+import { row, useProxyDb } from "../../tests/helpers/proxyDb";
+import { budgetService, BudgetExceededError } from "../budgetService";
+import { ModelRouter, MODELS } from "../modelRouter";
+import { runWithUsageContext } from "../llm/usageContext";
+import type { LLMProvider } from "../llm/types";
+
+jest.mock("../../db", () => jest.requireActual("../../tests/helpers/proxyDb").mockDbModule);
+
+// Organization 3 has a $10 soft and $20 hard monthly limit
+function budgetDb(spendUsd: number) {
+  const { queries } = useProxyDb(({ sql }) => {
+    if (sql.includes('from "organization_budgets"')) {
+      return [row(organizationBudgets, { id: 1, organizationId: 3, softLimitUsd: 10, hardLimitUsd: 20 })];
+    }
+    // The month-to-date sum is selected under the cost column's name
+    if (sql.includes('from "llm_usage"')) return [row(llmUsage, { costUsd: spendUsd })];
+    return [];
+  });
+  return queries;
+}
+
+const provider: jest.Mocked<LLMProvider> = {
+  name: "mock",
+  isConfigured: jest.fn(() => true),
+  complete: jest.fn(),
+};
+
+function router() {
+  const instance = new ModelRouter();
+  instance.registerProvider(provider);
+  instance.forceProvider("mock");
+  return instance;
+}
+
+const inOrganization = <T>(fn: () => T) =>
+  runWithUsageContext({ organizationId: 3, userId: 9, feature: "redline" }, fn);
+
+describe("Organization LLM budgets", () => {
+  beforeEach(() => {
+    budgetService["spendCache"].clear();
+    provider.complete.mockReset().mockImplementation(async (request) => ({
+      text: "ok",
+      model: request.model,
+      provider: "mock",
+      usage: { inputTokens: 10, outputTokens: 5 },
+    }));
+  });
+
+  it("refuses calls once the hard limit is reached", async () => {
+    budgetDb(20);
+
+    const error = await inOrganization(() =>
+      router().complete({ messages: [{ role: "user", content: "Summarise" }] })).catch((e) => e);
+
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(error).toMatchObject({ statusCode: 402, code: "BUDGET_EXCEEDED", organizationId: 3 });
+    expect(provider.complete).not.toHaveBeenCalled();
+  });
+
+  it("switches to a cheaper model past the soft limit and records what was asked for", async () => {
+    const queries = budgetDb(12);
+
+    const result = await inOrganization(() =>
+      router().complete({ model: MODELS.GPT4O.id, messages: [{ role: "user", content: "Summarise" }] }));
+
+    expect(result.model).toBe(MODELS.O3_MINI.id);
+    const usage = queries.find((query) => query.sql.startsWith('insert into "llm_usage"'))!;
+    expect(usage.params).toEqual(expect.arrayContaining([3, 9, "redline", MODELS.O3_MINI.id, MODELS.GPT4O.id]));
+  });
+
+  it("keeps the requested model below the soft limit", async () => {
+    budgetDb(2);
+
+    const result = await inOrganization(() =>
+      router().complete({ model: MODELS.GPT4O.id, messages: [{ role: "user", content: "Summarise" }] }));
+
+    expect(result.model).toBe(MODELS.GPT4O.id);
+  });
+
+  it("does not check budgets for calls made outside a request", async () => {
+    const queries = budgetDb(50);
+
+    await router().complete({ messages: [{ role: "user", content: "Summarise" }] });
+
+    expect(queries.some((query) => query.sql.includes('from "organization_budgets"'))).toBe(false);
+  });
+
+  it("counts recorded spend against the cached month-to-date total", async () => {
+    const queries = budgetDb(19.5);
+    await expect(budgetService.getStatus(3)).resolves.toMatchObject({ state: "SOFT_LIMIT", remainingUsd: 0.5 });
+
+    await budgetService.recordUsage({
+      organizationId: 3, feature: "redline", model: MODELS.GPT4O.id, provider: "openai",
+      inputTokens: 100, outputTokens: 50, costUsd: 0.75,
+    });
+
+    await expect(budgetService.assertWithinBudget(3)).rejects.toBeInstanceOf(BudgetExceededError);
+    expect(queries.filter((query) => query.sql.includes('from "llm_usage"'))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,83 @@
+import { complianceAudits, complianceDocuments, type BackgroundJob } from "@shared/schema";
+import { row, useProxyDb } from "../../tests/helpers/proxyDb";
+import { monitorDocument, type ComplianceCheckResult } from "../complianceMonitor";
+import { complianceAuditService, type AnalysisResult } from "../complianceAuditService";
+import type { JobContext } from "../jobQueue";
+
+jest.mock("../../db", () => jest.requireActual("../../tests/helpers/proxyDb").mockDbModule);
+jest.mock("../jobQueue", () => ({ jobQueue: { register: jest.fn(), enqueue: jest.fn() } }));
+jest.mock("../modelRouter", () => ({ modelRouter: {} }));
+jest.mock("../complianceMonitor", () => ({ monitorDocument: jest.fn() }));
+
+const monitor = monitorDocument as jest.MockedFunction<typeof monitorDocument>;
+const analyze = jest.spyOn(complianceAuditService, "analyzeDocument");
+
+const sectionResult: ComplianceCheckResult = { issues: [], riskScore: 40, status: "FLAGGED", nextReviewDate: new Date() };
+const auditResult: AnalysisResult = {
+  analysis: { summary: "Fine", issues: [], riskScore: 20, complianceStatus: "COMPLIANT", recommendedActions: [] },
+};
+
+function auditDb() {
+  return useProxyDb(({ sql }) => {
+    if (sql.includes('from "compliance_documents"')) {
+      return [1, 2].map((id) => row(complianceDocuments, { id, title: `Policy ${id}`, content: "Text" }));
+    }
+    if (sql.startsWith('insert into "compliance_audits"')) return [row(complianceAudits, { id: 70 })];
+    return [];
+  }).queries;
+}
+
+// A personal-space audit job; `progress` is what an earlier attempt saved
+function attempt(progress: Record<string, unknown> | null = null) {
+  const job = { id: 5, organizationId: null, createdBy: 9, progress } as BackgroundJob;
+  const saved: Array<Record<string, unknown>> = [];
+  const context: JobContext = {
+    job,
+    reportProgress: async (update) => { saved.push(JSON.parse(JSON.stringify(update))); },
+    enqueue: jest.fn(),
+  };
+  const run = () => complianceAuditService["runAuditTask"]([1, 2], context);
+  return { run, saved };
+}
+
+describe("Compliance audit task", () => {
+  beforeEach(() => {
+    monitor.mockReset().mockResolvedValue(sectionResult);
+    analyze.mockReset().mockResolvedValue(auditResult);
+  });
+
+  it("resumes a retried audit after the documents an earlier attempt finished", async () => {
+    auditDb();
+    analyze.mockResolvedValueOnce(auditResult).mockRejectedValueOnce(new Error("Model timed out"));
+    const first = attempt();
+    await expect(first.run()).rejects.toThrow("Model timed out");
+
+    monitor.mockClear();
+    analyze.mockClear();
+    const retry = attempt(first.saved[first.saved.length - 1]);
+    await expect(retry.run()).resolves.toEqual({ auditId: 70 });
+
+    expect(monitor).not.toHaveBeenCalled();
+    expect(analyze).toHaveBeenCalledTimes(1);
+    expect(analyze).toHaveBeenCalledWith(2, "Text");
+  });
+
+  it("returns the recorded audit when only completing the job failed", async () => {
+    const queries = auditDb();
+
+    await expect(attempt({ auditId: 70 }).run()).resolves.toEqual({ auditId: 70 });
+
+    expect(queries).toHaveLength(0);
+    expect(monitor).not.toHaveBeenCalled();
+  });
+
+  it("draws a personal risk trend from the owner's audits only", async () => {
+    const queries = auditDb();
+
+    await attempt().run();
+
+    const trend = queries.find((query) => query.sql.startsWith("select") && query.sql.includes('from "compliance_audits"'))!;
+    expect(trend.sql).toMatch(/"organization_id" is null and "compliance_audits"\."user_id" = \$\d+/);
+    expect(trend.params).toContain(9);
+  });
+});
@@ -0,0 +1,64 @@
+import { complianceIssues, documentVersions } from "@shared/schema";
+import { row, useProxyDb } from "../../tests/helpers/proxyDb";
+import { documentAccessService } from "../documentAccessService";
+import { complianceRemediationService, RemediationError } from "../complianceRemediationService";
+
+jest.mock("../../db", () => jest.requireActual("../../tests/helpers/proxyDb").mockDbModule);
+jest.mock("../alertNotificationService", () => ({ alertNotificationService: { notifyUser: jest.fn() } }));
+jest.mock("../documentAccessService", () => ({
+  ...jest.requireActual("../documentAccessService"),
+  documentAccessService: { loadResource: jest.fn(), canAccess: jest.fn() },
+}));
+
+const access = documentAccessService as jest.Mocked<typeof documentAccessService>;
+const user = { id: 1, role: "LAWYER" };
+
+// Issue 8 was raised on compliance document 20, audited from contract 4
+function remediationDb(versionDocumentId: number) {
+  const issue = { id: 8, documentId: 20, severity: "HIGH", status: "OPEN" } as const;
+  const { queries } = useProxyDb(({ sql }) => {
+    if (sql.startsWith('select') && sql.includes('from "compliance_issues"')) return [row(complianceIssues, issue)];
+    if (sql.includes('from "document_versions"')) return [row(documentVersions, { id: 31, documentId: versionDocumentId })];
+    if (sql.startsWith('update "compliance_issues"')) return [row(complianceIssues, { ...issue, fixedInVersionId: 31 })];
+    return [];
+  });
+  return queries;
+}
+
+describe("Compliance issue fix versions", () => {
+  beforeEach(() => {
+    access.canAccess.mockReset().mockResolvedValue(true);
+    access.loadResource.mockReset().mockImplementation(async (type, id) =>
+      type === "COMPLIANCE_DOCUMENT"
+        ? { id, userId: 1, organizationId: null, matterId: null, sourceDocumentId: 4 }
+        : { id, userId: 1, organizationId: null, matterId: null });
+  });
+
+  it("links a version of the contract the issue was found in", async () => {
+    const queries = remediationDb(4);
+
+    const issue = await complianceRemediationService.linkFixVersion(user, 8, 31);
+
+    expect(issue.fixedInVersionId).toBe(31);
+    expect(queries.some((query) => query.sql.startsWith('update "compliance_issues"'))).toBe(true);
+  });
+
+  it("rejects a version of some other document with 400", async () => {
+    const queries = remediationDb(99);
+
+    const error = await complianceRemediationService.linkFixVersion(user, 8, 31).catch((e) => e);
+
+    expect(error).toBeInstanceOf(RemediationError);
+    expect(error).toMatchObject({ statusCode: 400, code: "INVALID_VERSION" });
+    expect(queries.some((query) => query.sql.startsWith("update"))).toBe(false);
+  });
+
+  it("rejects fix versions for documents not audited from a contract", async () => {
+    access.loadResource.mockImplementation(async (type, id) =>
+      ({ id, userId: 1, organizationId: null, matterId: null, sourceDocumentId: null }));
+    remediationDb(4);
+
+    await expect(complianceRemediationService.updateStatus(user, 8, { status: "RESOLVED", fixedInVersionId: 31 }))
+      .rejects.toMatchObject({ statusCode: 400, code: "INVALID_VERSION" });
+  });
+});
@@ -0,0 +1,116 @@
+import {
+  approvalRequests,
+  complianceIssues,
+  documents,
+  signatureEnvelopes,
+  signatures,
+  type SignatureStatus,
+} from "@shared/schema";
+import { proxyDb, row } from "../../tests/helpers/proxyDb";
+import { contractLifecycleService, TransitionError } from "../contractLifecycleService";
+
+jest.mock("../../db", () => jest.requireActual("../../tests/helpers/proxyDb").mockDbModule);
+
+const contract = {
+  id: 7,
+  userId: 1,
+  title: "Master Services Agreement",
+  content: "1. Services\nThe supplier provides the services.",
+  contractStatus: "REVIEW",
+};
+
+// `signers` are the statuses of the signers on the latest envelope
+function lifecycleDb({
+  criticalIssues = 0,
+  contractStatus = contract.contractStatus,
+  signers = [] as SignatureStatus[],
+  envelopeStatus = "PENDING" as SignatureStatus,
+} = {}) {
+  return proxyDb(({ sql }) => {
+    if (sql.includes('from "documents"')) return [row(documents, { ...contract, contractStatus })];
+    if (sql.includes('from "signature_envelopes"')) return [row(signatureEnvelopes, { id: 5, status: envelopeStatus })];
+    if (sql.includes('from "signatures"')) {
+      return signers
+        .map((status, index) => row(signatures, { id: index + 1, status }))
+        .filter((signer) => signer.status !== "COMPLETED");
+    }
+    if (sql.includes('from "compliance_issues"')) {
+      return Array.from({ length: criticalIssues }, (_, index) => row(complianceIssues, { id: index + 1 }));
+    }
+    if (sql.includes('"approval_requests"')) return [row(approvalRequests, { id: 3 })];
+    return [];
+  });
+}
+
+describe("Contract lifecycle guards", () => {
+  it("refuses approval while the contract has an open critical compliance issue", async () => {
+    const { db, queries } = lifecycleDb({ criticalIssues: 1 });
+
+    await expect(contractLifecycleService.applyTransition(db, contract.id, "APPROVAL"))
+      .rejects.toMatchObject({
+        code: "GUARD_FAILED",
+        failures: ["1 critical compliance issue(s) must be resolved first"],
+      });
+    expect(queries.some((query) => query.sql.startsWith('update "documents"'))).toBe(false);
+  });
+
+  it("finds issues through the compliance documents audited from the contract", async () => {
+    const { db, queries } = lifecycleDb();
+
+    await contractLifecycleService.applyTransition(db, contract.id, "APPROVAL").catch(() => undefined);
+
+    const issueQuery = queries.find((query) => query.sql.includes('from "compliance_issues"'))!;
+    expect(issueQuery.sql).toContain('inner join "compliance_documents"');
+    expect(issueQuery.sql).toContain('"compliance_documents"."source_document_id" = $1');
+    expect(issueQuery.params[0]).toBe(contract.id);
+  });
+
+  it("moves the contract into approval once no critical issue is open", async () => {
+    const { db, queries } = lifecycleDb();
+
+    await contractLifecycleService.applyTransition(db, contract.id, "APPROVAL");
+
+    const update = queries.find((query) => query.sql.startsWith('update "documents"'));
+    expect(update?.params).toContain("APPROVAL");
+  });
+
+  it("rejects transitions the lifecycle does not allow", async () => {
+    const { db } = lifecycleDb();
+
+    const error = await contractLifecycleService.applyTransition(db, contract.id, "COMPLETED").catch((e) => e);
+    expect(error).toBeInstanceOf(TransitionError);
+    expect(error.code).toBe("INVALID_TRANSITION");
+  });
+
+  it("keeps a contract in signature until every signer has signed", async () => {
+    const { db } = lifecycleDb({ contractStatus: "SIGNATURE", signers: ["COMPLETED", "SENT"] });
+
+    await expect(contractLifecycleService.applyTransition(db, contract.id, "COMPLETED"))
+      .rejects.toMatchObject({ code: "GUARD_FAILED", failures: ["1 signature(s) are still outstanding"] });
+  });
+
+  it("completes the contract once the latest envelope is fully signed", async () => {
+    const { db, queries } = lifecycleDb({
+      contractStatus: "SIGNATURE",
+      signers: ["COMPLETED", "COMPLETED"],
+      envelopeStatus: "COMPLETED",
+    });
+
+    await contractLifecycleService.applyTransition(db, contract.id, "COMPLETED");
+
+    const signerQuery = queries.find((query) => query.sql.includes('from "signatures"'))!;
+    expect(signerQuery.sql).toMatch(/"signatures"\."envelope_id" = \$1 and "signatures"\."status" <> \$2/);
+    expect(signerQuery.params).toEqual([5, "COMPLETED"]);
+  });
+
+  it("cancels the pending approval request when the contract goes back to redline", async () => {
+    const { db, queries } = lifecycleDb({ contractStatus: "APPROVAL" });
+
+    await contractLifecycleService.applyTransition(db, contract.id, "REDLINE");
+
+    const cancel = queries.find((query) => query.sql.startsWith('update "approval_requests"'))!;
+    expect(cancel.params).toEqual(expect.arrayContaining(["CANCELLED", contract.id, "PENDING"]));
+    const skip = queries.find((query) => query.sql.startsWith('update "approvals"'))!;
+    expect(skip.params).toEqual(expect.arrayContaining(["SKIPPED", 3, "PENDING", "WAITING"]));
+  });
+});
@@ -0,0 +1,63 @@
+import { documentAcls, documents, type DocumentPermission } from "@shared/schema";
+import { row, useProxyDb } from "../../tests/helpers/proxyDb";
+import { documentAccessService } from "../documentAccessService";
+
+jest.mock("../../db", () => jest.requireActual("../../tests/helpers/proxyDb").mockDbModule);
+
+const document = { id: 5, userId: 2 };
+
+function withGrants(...permissions: DocumentPermission[]) {
+  return useProxyDb(({ sql }) =>
+    sql.includes('from "document_acls"')
+      ? permissions.map((permission, index) => row(documentAcls, { id: index + 1, permission }))
+      : []);
+}
+
+describe("Document access checks", () => {
+  it("lets owners and admins do anything without consulting grants", async () => {
+    const { queries } = withGrants();
+
+    await expect(documentAccessService.canAccess({ id: 2, role: "CLIENT" }, "DOCUMENT", document, "DELETE"))
+      .resolves.toBe(true);
+    await expect(documentAccessService.canAccess({ id: 9, role: "ADMIN" }, "DOCUMENT", document, "DELETE"))
+      .resolves.toBe(true);
+    expect(queries).toHaveLength(0);
+  });
+
+  it.each<[DocumentPermission[], DocumentPermission, boolean]>([
+    [[], "VIEW", false],
+    [["VIEW"], "VIEW", true],
+    [["VIEW"], "EDIT", false],
+    [["EDIT"], "EDIT", true],
+    [["EDIT"], "DELETE", false],
+    [["VIEW", "DELETE"], "DELETE", true],
+  ])("grants %j allow %s: %s", async (grants, permission, allowed) => {
+    withGrants(...grants);
+
+    await expect(documentAccessService.canAccess({ id: 3, role: "LAWYER" }, "DOCUMENT", document, permission))
+      .resolves.toBe(allowed);
+  });
+
+  it("matches grants to the user and to their role within their organizations", async () => {
+    const { queries } = withGrants("VIEW");
+
+    await documentAccessService.canAccess({ id: 3, role: "PARALEGAL" }, "VAULT_DOCUMENT", document, "VIEW");
+
+    const [{ sql, params }] = queries;
+    expect(sql).toContain('"document_acls"."user_id" = $');
+    expect(sql).toMatch(
+      /"document_acls"\."role" = \$\d+ and "document_acls"\."organization_id" in \(select "organization_id" from "organization_members" where "organization_members"\."user_id" = \$\d+\)/,
+    );
+    expect(params).toEqual(["VAULT_DOCUMENT", 5, 3, "PARALEGAL", 3]);
+  });
+
+  it("applies the same principals to list filters", () => {
+    const { db } = withGrants();
+
+    const filter = documentAccessService.accessibleFilter({ id: 3, role: "LAWYER" }, "DOCUMENT");
+    const { sql } = db.select().from(documents).where(filter).toSQL();
+
+    expect(sql).toContain('"documents"."user_id" = $1');
+    expect(sql).toContain('"document_acls"."organization_id" in (select');
+  });
+});
@@ -0,0 +1,53 @@
+import JSZip from "jszip";
+import { trackedChangesExportSchema } from "@shared/schema";
+import { docxRedlineService } from "../docxRedlineService";
+
+async function documentXml(buffer: Buffer): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer);
+  return zip.file("word/document.xml")!.async("string");
+}
+
+describe("Tracked changes export", () => {
+  it("dates each revision with the change's timestamp", async () => {
+    const buffer = await docxRedlineService.buildTrackedChangesDocument({
+      content: "The term is two years.",
+      changes: [{ type: "insertion", content: "two", position: 12, timestamp: "2025-03-04T05:06:07.000Z" }],
+      author: "Reviewer",
+    });
+
+    expect(await documentXml(buffer)).toContain('w:date="2025-03-04T05:06:07.000Z"');
+  });
+
+  it("dates changes without a usable timestamp at export time instead of failing", async () => {
+    const before = Date.now();
+    const buffer = await docxRedlineService.buildTrackedChangesDocument({
+      content: "The term is two years.",
+      changes: [
+        { type: "insertion", content: "two", position: 12 },
+        { type: "deletion", content: "one", position: 12, timestamp: "not a date" },
+      ],
+      author: "Reviewer",
+    });
+
+    const dates = [...(await documentXml(buffer)).matchAll(/w:date="([^"]+)"/g)].map((match) => Date.parse(match[1]));
+    expect(dates).toHaveLength(2);
+    dates.forEach((date) => expect(date).toBeGreaterThanOrEqual(before - 1000));
+  });
+
+  it("rejects malformed timestamps in export requests", () => {
+    const parsed = trackedChangesExportSchema.safeParse({
+      changes: [{ type: "insertion", content: "two", position: 12, timestamp: "yesterday-ish" }],
+    });
+
+    expect(parsed.success).toBe(false);
+    expect(parsed.error?.issues[0].message).toBe("Change timestamps must be valid dates");
+  });
+
+  it("accepts changes without a timestamp", () => {
+    const parsed = trackedChangesExportSchema.safeParse({
+      changes: [{ type: "deletion", content: "one", position: 12 }],
+    });
+
+    expect(parsed.success).toBe(true);
+  });
+});
@@ -0,0 +1,124 @@
+import { backgroundJobs, type BackgroundJob } from "@shared/schema";
+import { row, useProxyDb, type Responder } from "../../tests/helpers/proxyDb";
+import { JobQueue, backoffDelay } from "../jobQueue";
+
+jest.mock("../../db", () => jest.requireActual("../../tests/helpers/proxyDb").mockDbModule);
+
+const queued = new Date(Date.UTC(2025, 2, 4, 5, 6, 7));
+
+const jobRow = (values: Partial<BackgroundJob> = {}) => row(backgroundJobs, {
+  id: 7,
+  type: "vault.classify",
+  groupId: "run-1",
+  resourceType: "VAULT_DOCUMENT",
+  resourceId: "4",
+  payload: { documentId: 4 },
+  status: "RUNNING",
+  attempts: 1,
+  maxAttempts: 3,
+  runAt: queued,
+  lockedAt: queued,
+  lockedBy: "worker",
+  organizationId: 3,
+  createdBy: 9,
+  createdAt: queued,
+  updatedAt: queued,
+  ...values,
+});
+
+function queueDb(respond: Responder = () => []) {
+  return useProxyDb(respond).queries;
+}
+
+// Runs one claimed job to completion the way the poller does
+async function run(queue: JobQueue, overrides: Partial<BackgroundJob> = {}) {
+  const [job] = await queue["claim"]("vault.classify", 1);
+  await queue["execute"]({ ...job, ...overrides }, queue["handlers"].get("vault.classify")!);
+}
+
+describe("Job queue leases", () => {
+  let queue: JobQueue;
+  let workerId: string;
+  const handler = jest.fn();
+
+  beforeEach(() => {
+    queue = new JobQueue();
+    workerId = queue["workerId"];
+    handler.mockReset();
+    queue.register("vault.classify", handler, { maxAttempts: 3, backoffMs: 1000 });
+  });
+
+  it("claims due jobs with SKIP LOCKED and stamps them with this worker", async () => {
+    const queries = queueDb(() => [jobRow()]);
+
+    await queue["claim"]("vault.classify", 2);
+
+    expect(queries[0].sql).toMatch(/^update "background_jobs" set .*"locked_by" = \$\d+/);
+    expect(queries[0].sql).toContain("for update skip locked");
+    expect(queries[0].params).toEqual(expect.arrayContaining(["RUNNING", workerId, "vault.classify", "QUEUED", 2]));
+  });
+
+  it("completes the job and enqueues follow-ups only while it holds the lease", async () => {
+    handler.mockImplementation(async (_payload, context) => {
+      context.enqueue("vault.embed", { documentId: 4 });
+      return { classified: true };
+    });
+    const queries = queueDb(({ sql }) => (sql.startsWith("update") ? [jobRow({ lockedBy: workerId })] : []));
+
+    await run(queue);
+
+    const complete = queries[1];
+    expect(complete.sql).toMatch(/where \("background_jobs"\."id" = \$\d+ and "background_jobs"\."status" = \$\d+ and "background_jobs"\."locked_by" = \$\d+\)/);
+    expect(complete.params).toEqual(expect.arrayContaining(["COMPLETED", 7, "RUNNING", workerId]));
+    expect(queries[2].sql).toMatch(/^insert into "background_jobs"/);
+    expect(queries[2].params).toEqual(expect.arrayContaining(["vault.embed", "run-1", "VAULT_DOCUMENT", "4", 3, 9]));
+  });
+
+  it("drops the result when another worker took over the expired lease", async () => {
+    handler.mockImplementation(async (_payload, context) => {
+      context.enqueue("vault.embed", { documentId: 4 });
+    });
+    let updates = 0;
+    // The claim succeeds, the completion matches no row
+    const queries = queueDb(({ sql }) => (sql.startsWith("update") && updates++ === 0 ? [jobRow()] : []));
+
+    await run(queue);
+
+    expect(queries.some((query) => query.sql.startsWith("insert"))).toBe(false);
+  });
+
+  it("requeues a failed job with backoff and dead-letters it on the last attempt", async () => {
+    handler.mockRejectedValue(new Error("OCR timed out"));
+    let queries = queueDb(({ sql }) => (sql.startsWith("update") ? [jobRow()] : []));
+
+    const before = Date.now();
+    await run(queue);
+
+    expect(queries[1].params).toEqual(expect.arrayContaining(["QUEUED", "OCR timed out", 7, "RUNNING", workerId]));
+    const runAt = queries[1].params.find((param) => typeof param === "string" && /^\d{4}-/.test(param)) as string;
+    expect(Date.parse(runAt)).toBeGreaterThanOrEqual(before + backoffDelay(1, 1000) - 1000);
+
+    queries = queueDb(({ sql }) => (sql.startsWith("update") ? [jobRow()] : []));
+    await run(queue, { attempts: 3 });
+
+    expect(queries[1].params).toEqual(expect.arrayContaining(["DEAD_LETTER", "OCR timed out", workerId]));
+  });
+
+  it("hands jobs with an expired lease back to the queue", async () => {
+    const queries = queueDb();
+    const before = Date.now();
+
+    await queue["recoverStaleJobs"]();
+
+    expect(queries[0].sql).toMatch(/^update "background_jobs" set "status" = \$1.*"locked_at" < \$\d+.*"attempts" < "background_jobs"\."max_attempts"/);
+    expect(queries[0].params[0]).toBe("QUEUED");
+    expect(queries[1].params[0]).toBe("DEAD_LETTER");
+    const cutoff = queries[0].params.find((param) => typeof param === "string" && /^\d{4}-/.test(param) && Date.parse(param) < before - 60_000);
+    expect(cutoff).toBeDefined();
+  });
+
+  it("doubles the retry delay up to fifteen minutes", () => {
+    expect([1, 2, 3].map((attempt) => backoffDelay(attempt, 1000))).toEqual([1000, 2000, 4000]);
+    expect(backoffDelay(20)).toBe(15 * 60 * 1000);
+  });
+});
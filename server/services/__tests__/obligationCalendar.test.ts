@@ -0,0 +1,57 @@
+import { toICalendar, type CalendarEvent } from "../obligations";
+
+const event = (overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+  uid: "obligation-7@jurysync",
+  summary: "Renewal notice",
+  description: "Send notice",
+  date: new Date("2025-06-30T00:00:00.000Z"),
+  recurrence: null,
+  alarmDays: [],
+  ...overrides,
+});
+
+// Undoes line folding so each property can be read whole
+const unfold = (ics: string) => ics.replace(/\r\n /g, "").split("\r\n");
+
+describe("Obligation iCalendar export", () => {
+  it("escapes text so contract wording cannot add properties or components", () => {
+    const ics = toICalendar([event({
+      summary: "Pay fees; late, \\ interest",
+      description: "Line one\r\nEND:VEVENT\nBEGIN:VEVENT\rSUMMARY:Injected",
+    })], { name: "Deadlines, Acme", generatedAt: new Date("2025-01-01T00:00:00Z") });
+
+    const lines = unfold(ics);
+    expect(lines).toContain("SUMMARY:Pay fees\\; late\\, \\\\ interest");
+    expect(lines).toContain("DESCRIPTION:Line one\\nEND:VEVENT\\nBEGIN:VEVENT\\nSUMMARY:Injected");
+    expect(lines).toContain("X-WR-CALNAME:Deadlines\\, Acme");
+    expect(lines.filter((line) => line === "BEGIN:VEVENT")).toHaveLength(1);
+    expect(ics).not.toMatch(/\r(?!\n)|(?<!\r)\n/);
+  });
+
+  it("folds long lines at 75 octets without splitting multi-byte characters", () => {
+    const description = "Zahlung fällig für Überprüfung — ".repeat(8);
+    const ics = toICalendar([event({ description })], { name: "Fristen" });
+
+    for (const line of ics.split("\r\n")) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+      expect(line).not.toContain("�");
+    }
+    expect(unfold(ics)).toContain(`DESCRIPTION:${description}`);
+  });
+
+  it("writes all-day events with recurrence and alarms", () => {
+    const ics = toICalendar([event({
+      recurrence: { frequency: "YEARLY", interval: 1 },
+      alarmDays: [30, 7],
+    })], { name: "Deadlines" });
+
+    const lines = unfold(ics);
+    expect(lines).toEqual(expect.arrayContaining([
+      "DTSTART;VALUE=DATE:20250630",
+      "DTEND;VALUE=DATE:20250701",
+      "RRULE:FREQ=YEARLY;INTERVAL=1",
+      "TRIGGER:-P30D",
+      "TRIGGER:-P7D",
+    ]));
+  });
+});
@@ -0,0 +1,72 @@
+import { contractObligations, users, vaultDocuments, type OrganizationMember } from "@shared/schema";
+import { row, useProxyDb } from "../../tests/helpers/proxyDb";
+import { obligationService, ObligationError } from "../obligationService";
+import { alertNotificationService } from "../alertNotificationService";
+import { documentAccessService } from "../documentAccessService";
+import { organizationService } from "../organizationService";
+
+jest.mock("../../db", () => jest.requireActual("../../tests/helpers/proxyDb").mockDbModule);
+jest.mock("../jobQueue", () => ({ jobQueue: { register: jest.fn(), enqueue: jest.fn() } }));
+jest.mock("../alertNotificationService", () => ({ alertNotificationService: { notifyUser: jest.fn() } }));
+
+const notifyUser = alertNotificationService.notifyUser as jest.Mock;
+const canAccess = jest.spyOn(documentAccessService, "canAccess");
+const getMembership = jest.spyOn(organizationService, "getMembership");
+
+const owner = { id: 2, role: "LAWYER" };
+const tenant = { organizationId: 3, organizationRole: "MEMBER" as const, matterId: null };
+
+// Obligation 7 on vault document 5 of organization 3, owned by user 2
+function obligationDb() {
+  return useProxyDb(({ sql }) => {
+    // The joined row is keyed by column name, so shared names take the document's value
+    if (sql.includes('from "contract_obligations" inner join')) {
+      return [{
+        ...row(contractObligations, { vaultDocumentId: 5, obligationType: "PAYMENT", assigneeId: null }),
+        ...row(vaultDocuments, { id: 5, userId: 2, organizationId: 3, title: "Lease" }),
+      }];
+    }
+    if (sql.includes('from "users"')) return [row(users, { id: 40, role: "PARALEGAL" })];
+    if (sql.startsWith('update "contract_obligations"')) {
+      return [row(contractObligations, { id: 7, vaultDocumentId: 5, title: "Pay rent", obligationType: "PAYMENT", assigneeId: 40 })];
+    }
+    return [];
+  }).queries;
+}
+
+describe("Assigning obligations", () => {
+  beforeEach(() => {
+    notifyUser.mockReset();
+    canAccess.mockReset().mockImplementation(async (user) => user.id === owner.id);
+    getMembership.mockReset().mockResolvedValue(undefined);
+  });
+
+  it("refuses an assignee who cannot see the document", async () => {
+    const queries = obligationDb();
+
+    const error = await obligationService.update(owner, tenant, 7, { assigneeId: 40 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ObligationError);
+    expect(error).toMatchObject({ statusCode: 400, code: "INVALID_ASSIGNEE" });
+    expect(getMembership).toHaveBeenCalledWith(3, 40);
+    expect(queries.some((query) => query.sql.startsWith("update"))).toBe(false);
+    expect(notifyUser).not.toHaveBeenCalled();
+  });
+
+  it("assigns and notifies a member of the document's organization", async () => {
+    obligationDb();
+    getMembership.mockResolvedValue({ organizationId: 3, userId: 40 } as OrganizationMember);
+
+    await obligationService.update(owner, tenant, 7, { assigneeId: 40 });
+
+    expect(notifyUser).toHaveBeenCalledWith(40, expect.objectContaining({ type: "OBLIGATION_ASSIGNED" }));
+  });
+
+  it("accepts an assignee the document has been shared with", async () => {
+    obligationDb();
+    canAccess.mockResolvedValue(true);
+
+    await expect(obligationService.update(owner, tenant, 7, { assigneeId: 40 })).resolves.toMatchObject({ id: 7 });
+    expect(canAccess).toHaveBeenLastCalledWith({ id: 40, role: "PARALEGAL" }, "VAULT_DOCUMENT", expect.objectContaining({ id: 5, title: "Lease" }), "VIEW");
+  });
+});
@@ -0,0 +1,81 @@
+import { complianceDocuments, complianceMonitoringSchedules } from "@shared/schema";
+import { row, useProxyDb, type Row } from "../../tests/helpers/proxyDb";
+import { predictiveMonitoringService } from "../predictiveMonitoring";
+
+jest.mock("../../db", () => jest.requireActual("../../tests/helpers/proxyDb").mockDbModule);
+jest.mock("../jobQueue", () => ({ jobQueue: { register: jest.fn(), enqueue: jest.fn(), enqueueMany: jest.fn() } }));
+jest.mock("../alertNotificationService", () => ({ alertNotificationService: { alertsRaised: jest.fn() } }));
+jest.mock("../metricsCollector", () => ({
+  metricsCollector: { recordWorkflowMetric: jest.fn(), recordDocumentMetric: jest.fn(), recordModelMetric: jest.fn() },
+}));
+jest.mock("../modelRouter", () => ({
+  modelRouter: {
+    complete: jest.fn(async () => ({ text: '{"findings":[]}', model: "mock", usage: { inputTokens: 1, outputTokens: 1 } })),
+  },
+}));
+
+jest.spyOn(predictiveMonitoringService, "generatePrediction").mockRejectedValue(new Error("No prediction in tests"));
+
+// A GDPR document missing every required processor clause
+const CONTENT = "# Processing\nThe processor handles personal data for the controller.";
+
+// Keeps inserted issues so the second run sees what the first one stored
+function monitoringDb() {
+  const issues: Row[] = [];
+  const { queries } = useProxyDb(({ sql, params }) => {
+    if (sql.includes('from "compliance_monitoring_schedules"')) {
+      return [row(complianceMonitoringSchedules, { id: 1, documentId: 8, frequency: "DAILY", isActive: true })];
+    }
+    if (sql.startsWith("select") && sql.includes('from "compliance_documents"')) {
+      return [row(complianceDocuments, {
+        id: 8, userId: 2, title: "DPA", content: CONTENT, rulebooks: ["GDPR"], status: "FLAGGED", riskScore: 40,
+        lastScanned: new Date("2025-03-01T00:00:00Z"),
+      })];
+    }
+    if (sql.startsWith("select") && sql.includes('from "compliance_issues"')) {
+      return issues.filter((issue) => issue.status === "OPEN");
+    }
+    if (sql.startsWith('insert into "compliance_issues"')) {
+      const columns = sql.match(/\(([^)]*)\) values/)![1].split(", ").map((column) => column.slice(1, -1));
+      for (const [, values] of sql.matchAll(/\(((?:default|\$\d+)(?:, (?:default|\$\d+))*)\)/g)) {
+        const stored: Row = { id: issues.length + 1 };
+        values.split(", ").forEach((value, index) => {
+          if (value !== "default") stored[columns[index]] = params[Number(value.slice(1)) - 1];
+        });
+        issues.push(stored);
+      }
+    }
+    return [];
+  });
+  return { queries, issues };
+}
+
+describe("Scheduled compliance checks", () => {
+  it("updates the open issues a repeated check finds again instead of adding duplicates", async () => {
+    const { queries, issues } = monitoringDb();
+
+    await predictiveMonitoringService["runScheduledCheck"](1);
+    const firstRun = issues.length;
+    expect(firstRun).toBeGreaterThan(0);
+
+    await predictiveMonitoringService["runScheduledCheck"](1);
+
+    expect(issues).toHaveLength(firstRun);
+    const updates = queries.filter((query) => query.sql.startsWith('update "compliance_issues"'));
+    expect(updates).toHaveLength(firstRun);
+    expect(updates.map((update) => update.params[update.params.length - 1]).sort()).toEqual(issues.map((issue) => issue.id));
+  });
+
+  it("raises a fresh issue once the earlier one was resolved", async () => {
+    const { issues } = monitoringDb();
+
+    await predictiveMonitoringService["runScheduledCheck"](1);
+    const firstRun = issues.length;
+    issues[0].status = "RESOLVED";
+
+    await predictiveMonitoringService["runScheduledCheck"](1);
+
+    expect(issues).toHaveLength(firstRun + 1);
+    expect(issues[firstRun]).toMatchObject({ rule_id: issues[0].rule_id, clause: issues[0].clause, status: "OPEN" });
+  });
+});
@@ -0,0 +1,34 @@
+import { redlineService } from "../redlineService";
+
+describe("Redline clause parsing", () => {
+  it("keeps a wrapped line that starts with a number inside its clause", () => {
+    const originalText = [
+      "1. Termination. Either party may terminate this Agreement by written notice, effective",
+      "30 days after notice is received.",
+      "2. Notices. Notices must be in writing.",
+    ].join("\n");
+    const proposedText = originalText.replace("30 days", "45 days");
+
+    const clauses = redlineService.parseClauses(originalText);
+    expect(clauses.map((clause) => clause.number)).toEqual(["1", "2"]);
+
+    const { operations } = redlineService.compare(originalText, proposedText);
+    expect(operations).toHaveLength(1);
+    expect(operations[0]).toMatchObject({ type: "MODIFY", original: { number: "1", heading: "Termination" } });
+    expect(operations[0].materiality).not.toBe("COSMETIC");
+  });
+
+  it("reads the numbering styles contracts use", () => {
+    const text = [
+      "1. Definitions",
+      "1.1 Affiliate means any entity that controls a party.",
+      "2) Fees",
+      "Section 3 Term",
+      "Article IV Governing Law",
+      "(a) the laws of England apply.",
+    ].join("\n");
+
+    const numbers = redlineService.parseClauses(text).map((clause) => clause.number);
+    expect(numbers).toEqual(["1", "1.1", "2", "3", "IV", "IV(a)"]);
+  });
+});
@@ -0,0 +1,101 @@
+import { documents, signatureEnvelopes, signatures, type Signature } from "@shared/schema";
+import { row, useProxyDb } from "../../tests/helpers/proxyDb";
+import { signatureService, hashContent, SignatureError } from "../signatureService";
+
+jest.mock("../../db", () => jest.requireActual("../../tests/helpers/proxyDb").mockDbModule);
+jest.mock("../jobQueue", () => ({ jobQueue: { register: jest.fn(), enqueue: jest.fn() } }));
+jest.mock("../contractLifecycleService", () => ({
+  ...jest.requireActual("../contractLifecycleService"),
+  contractLifecycleService: { applyTransition: jest.fn(), publish: jest.fn() },
+}));
+
+const TOKEN = "link-token-for-signer-11";
+const CONTENT = "Master services agreement";
+
+// One envelope with two parallel signers; signer 11 holds TOKEN
+function signingDb({ expiresAt = new Date("2099-01-01T00:00:00Z") } = {}) {
+  const signer: Partial<Signature> = {
+    id: 11,
+    envelopeId: 5,
+    documentId: 4,
+    signerName: "Dana Client",
+    signerEmail: "dana@example.com",
+    signingOrder: 1,
+    status: "SENT",
+    tokenHash: hashContent(TOKEN),
+  };
+  const other: Partial<Signature> = { ...signer, id: 12, signerEmail: "lee@example.com", tokenHash: "other" };
+
+  const { queries } = useProxyDb(({ sql, params }) => {
+    if (sql.startsWith('select') && sql.includes('from "signatures" where "signatures"."token_hash"')) {
+      return signer.tokenHash !== null && params[0] === signer.tokenHash ? [row(signatures, signer)] : [];
+    }
+    if (sql.startsWith('select') && sql.includes('from "signatures"')) {
+      return [signer, other].filter((values) => values.status === "SENT").map((values) => row(signatures, values));
+    }
+    if (sql.startsWith('select') && sql.includes('from "signature_envelopes"')) {
+      return [row(signatureEnvelopes, {
+        id: 5, documentId: 4, provider: "native", status: "PENDING", documentHash: hashContent(CONTENT), createdBy: 2, expiresAt,
+      })];
+    }
+    if (sql.startsWith('select') && sql.includes('from "documents"')) {
+      return [row(documents, { id: 4, title: "MSA", content: CONTENT, contractStatus: "SIGNATURE" })];
+    }
+    if (sql.startsWith('update "signatures" set "status" = $1, "token_hash" = $2')) {
+      Object.assign(signer, { status: params[0], tokenHash: params[1] });
+      return [row(signatures, signer)];
+    }
+    return [];
+  });
+  return { queries, signer };
+}
+
+describe("Signing links", () => {
+  const typed = { type: "typed" as const, name: "Dana Client" };
+
+  it("are stored only as a hash", async () => {
+    const { queries } = signingDb();
+
+    await signatureService.getSigningSession(TOKEN);
+
+    expect(queries[0].params).toEqual([hashContent(TOKEN)]);
+    expect(queries.flatMap((query) => query.params)).not.toContain(TOKEN);
+  });
+
+  it("can be opened repeatedly before signing", async () => {
+    signingDb();
+
+    await signatureService.getSigningSession(TOKEN);
+    await expect(signatureService.getSigningSession(TOKEN)).resolves.toMatchObject({
+      signer: { email: "dana@example.com" },
+    });
+  });
+
+  it("stop working once used to sign", async () => {
+    const { queries, signer } = signingDb();
+
+    await signatureService.sign(TOKEN, typed, { ipAddress: "10.0.0.1" });
+
+    expect(signer).toMatchObject({ status: "COMPLETED", tokenHash: null });
+    const lookup = queries.find((query) => query.sql.includes('where "signatures"."token_hash"'))!;
+    expect(lookup.sql).toMatch(/for update$/);
+
+    const error = await signatureService.sign(TOKEN, typed).catch((e) => e);
+    expect(error).toBeInstanceOf(SignatureError);
+    expect(error).toMatchObject({ statusCode: 410, code: "LINK_INVALID" });
+    await expect(signatureService.getSigningSession(TOKEN)).rejects.toMatchObject({ code: "LINK_INVALID" });
+  });
+
+  it("are rejected after the envelope expires", async () => {
+    const { queries } = signingDb({ expiresAt: new Date("2020-01-01T00:00:00Z") });
+
+    await expect(signatureService.sign(TOKEN, typed)).rejects.toMatchObject({ statusCode: 410, code: "ENVELOPE_EXPIRED" });
+    expect(queries.some((query) => query.sql.startsWith('update "signatures"'))).toBe(false);
+  });
+
+  it("reject unknown tokens", async () => {
+    signingDb();
+
+    await expect(signatureService.sign("guessed-token", typed)).rejects.toMatchObject({ statusCode: 410, code: "LINK_INVALID" });
+  });
+});
@@ -1,12 +1,9 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { z } from "zod";
 import { db } from "../../db";
 import { legalDocuments, citationNetwork, type LegalDocument, type CitationNetwork } from "@shared/schema/legal-research";
 import { createEmbedding, cosineSimilarity, searchSimilarDocuments } from "../embedding-service";
 import { eq, and, or, ilike, inArray, sql } from "drizzle-orm";
-
-// Initialize AI model - Gemini for query analysis and insight generation
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
+import { modelRouter } from "../modelRouter";
 
 // Validation schemas for agent outputs
 const QueryAnalysisSchema = z.object({
@@ -117,14 +114,12 @@ export class LegalResearchAgentSystem {
 class QueryAnalysisAgent {
   async analyze(query: string): Promise<QueryAnalysis> {
     try {
-      // Check if Gemini API key is available
-      if (!process.env.GEMINI_API_KEY) {
-        console.warn("GEMINI_API_KEY not set, using fallback query analysis");
+      // Fall back to heuristics when no research model is configured
+      if (!modelRouter.isAvailable("research")) {
+        console.warn("Research model not configured, using fallback query analysis");
         return this.fallbackAnalysis(query);
       }
 
-      const model = genAI.getGenerativeModel({ model: "gemini-1.5-pro" });
-
       const prompt = `
         You are a legal research expert. Analyze this legal research query and extract key components.
 
@@ -143,8 +138,11 @@ class QueryAnalysisAgent {
         Respond ONLY with the JSON object, no additional text.
       `;
 
-      const result = await model.generateContent(prompt);
-      const responseText = result.response.text();
+      const result = await modelRouter.complete({
+        role: "research",
+        messages: [{ role: "user", content: prompt }],
+      });
+      const responseText = result.text;
 
       // Parse the JSON response
       const jsonMatch = responseText.match(/\{[\s\S]*\}/);
@@ -383,14 +381,12 @@ class InsightGenerationAgent {
     citationAnalysis: CitationAnalysisResult
   ): Promise<InsightsResult> {
     try {
-      // Check if Gemini API key is available
-      if (!process.env.GEMINI_API_KEY) {
-        console.warn("GEMINI_API_KEY not set, using fallback insights");
+      // Fall back to heuristics when no research model is configured
+      if (!modelRouter.isAvailable("research")) {
+        console.warn("Research model not configured, using fallback insights");
         return this.fallbackInsights(query, documents);
       }
 
-      const model = genAI.getGenerativeModel({ model: "gemini-1.5-pro" });
-
       // Prepare document summaries for the prompt
       const documentSummaries = documents.slice(0, 10).map(doc => ({
         title: doc.title,
@@ -431,8 +427,11 @@ class InsightGenerationAgent {
         Respond ONLY with the JSON object, no additional text.
       `;
 
-      const result = await model.generateContent(prompt);
-      const responseText = result.response.text();
+      const result = await modelRouter.complete({
+        role: "research",
+        messages: [{ role: "user", content: prompt }],
+      });
+      const responseText = result.text;
 
       // Parse the JSON response
       const jsonMatch = responseText.match(/\{[\s\S]*\}/);
@@ -1,7 +1,7 @@
-import { OpenAI } from "openai";
 import { z } from "zod";
 import debug from "debug";
 import { metricsCollector } from "./metricsCollector";
+import { modelRouter } from "./modelRouter";
 
 const log = debug("app:ai-orchestrator");
 
@@ -55,66 +55,11 @@ interface ProcessingResult {
 }
 
 export class AIOrchestrator {
-  private openai: OpenAI;
-  private initialized: boolean = false;
   private readonly MAX_RETRIES = 3;
   private readonly RETRY_DELAY = 1000; // 1 second
-  private readonly INIT_TIMEOUT = 10000; // 10 seconds
-  private gptModel: string = "";
-
-  constructor() {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error("OpenAI API key not configured");
-    }
-
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-      timeout: this.INIT_TIMEOUT,
-    });
-  }
-
-  private async ensureInitialized() {
-    if (this.initialized) return;
-
-    try {
-      log("Initializing AI Orchestrator...");
-      const models = await Promise.race([
-        this.openai.models.list(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("OpenAI API connection timeout")), this.INIT_TIMEOUT)
-        )
-      ]);
-
-      // Check for any GPT-4 model variant
-      const hasGpt4Model = models.data.some(m => 
-        m.id.includes("gpt-4") || 
-        m.id.includes("gpt-4o") || 
-        m.id.includes("gpt-4-turbo")
-      );
-      
-      if (!hasGpt4Model) {
-        throw new Error("No GPT-4 model variant is available");
-      }
-
-      // Determine best available model
-      this.gptModel = models.data.find(m => m.id === "gpt-4-1106-preview")?.id || 
-                     models.data.find(m => m.id === "gpt-4o")?.id ||
-                     models.data.find(m => m.id.includes("gpt-4"))?.id ||
-                     "gpt-3.5-turbo";
-      
-      log(`Using model: ${this.gptModel}`);
-      this.initialized = true;
-      log("AI Orchestrator initialized successfully");
-    } catch (error) {
-      log("Failed to initialize AI Orchestrator:", error);
-      throw new Error(`AI initialization failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
 
   async processDocument(content: string, type: "upload" | "paste"): Promise<ProcessingResult> {
     try {
-      await this.ensureInitialized();
-
       if (!content || content.trim().length === 0) {
         throw new Error("Document content cannot be empty");
       }
@@ -183,13 +128,10 @@ export class AIOrchestrator {
 
   private async analyzeDocument(content: string): Promise<DocumentAnalysisResult> {
     try {
-      log("Calling OpenAI API for document analysis...");
-      const response = await this.openai.chat.completions.create({
-        model: this.gptModel,
-        messages: [
-          {
-            role: "system",
-            content: `You are a legal document analyzer. Analyze the provided document and extract key information in JSON format.
+      log("Calling model for document analysis...");
+      const response = await modelRouter.complete({
+        role: "structured",
+        system: `You are a legal document analyzer. Analyze the provided document and extract key information in JSON format.
             Return a JSON object with the following structure:
             {
               "documentType": "type of document",
@@ -197,20 +139,20 @@ export class AIOrchestrator {
               "partiesInvolved": ["array of parties"],
               "potentialRisks": ["array of risks"],
               "summary": "brief summary of the document"
-            }`
-          },
+            }`,
+        messages: [
           {
             role: "user",
             content
           }
         ],
-        response_format: { type: "json_object" },
+        responseFormat: "json",
         temperature: 0.3
       });
 
-      const messageContent = response.choices[0]?.message?.content;
+      const messageContent = response.text;
       if (!messageContent) {
-        throw new Error("Empty response from OpenAI API");
+        throw new Error("Empty response from model");
       }
 
       const result = JSON.parse(messageContent);
@@ -234,33 +176,30 @@ export class AIOrchestrator {
 
   private async checkCompliance(content: string): Promise<ComplianceCheckResult> {
     try {
-      log("Calling OpenAI API for compliance check...");
-      const response = await this.openai.chat.completions.create({
-        model: this.gptModel,
-        messages: [
-          {
-            role: "system",
-            content: `You are a legal compliance checker. Review the document for compliance issues and return results in JSON format.
+      log("Calling model for compliance check...");
+      const response = await modelRouter.complete({
+        role: "structured",
+        system: `You are a legal compliance checker. Review the document for compliance issues and return results in JSON format.
             Return a JSON object with the following structure:
             {
               "complianceStatus": "COMPLIANT" | "NON_COMPLIANT" | "NEEDS_REVIEW",
               "identifiedIssues": ["array of issues found"],
               "riskLevels": { "category": "HIGH" | "MEDIUM" | "LOW" },
               "recommendedActions": ["array of recommended actions"]
-            }`
-          },
+            }`,
+        messages: [
           {
             role: "user",
             content
           }
         ],
-        response_format: { type: "json_object" },
+        responseFormat: "json",
         temperature: 0.2
       });
 
-      const messageContent = response.choices[0]?.message?.content;
+      const messageContent = response.text;
       if (!messageContent) {
-        throw new Error("Empty response from OpenAI API");
+        throw new Error("Empty response from model");
       }
 
       const result = JSON.parse(messageContent);
@@ -303,32 +242,29 @@ export class AIOrchestrator {
           log(`Content truncated from ${content.length} to ${truncatedContent.length} characters`);
         }
         
-        const response = await this.openai.chat.completions.create({
-          model: this.gptModel,
-          messages: [
-            {
-              role: "system",
-              content: `You are a legal document drafter. Generate an enhanced version of the document in JSON format.
+        const response = await modelRouter.complete({
+          role: "structured",
+          system: `You are a legal document drafter. Generate an enhanced version of the document in JSON format.
               Return a JSON object with the following structure:
               {
                 "originalStructure": "description of original structure",
                 "improvements": ["array of improvements made"],
                 "enhancedContent": "the enhanced document content",
                 "bestPracticesApplied": ["array of best practices applied"]
-              }`
-            },
+              }`,
+          messages: [
             {
               role: "user",
               content: `Original content: ${truncatedContent}\nAnalysis: ${JSON.stringify(analysis)}`
             }
           ],
-          response_format: { type: "json_object" },
+          responseFormat: "json",
           temperature: 0.4
         });
 
-        const messageContent = response.choices[0]?.message?.content;
+        const messageContent = response.text;
         if (!messageContent) {
-          throw new Error("Empty response from OpenAI API");
+          throw new Error("Empty response from model");
         }
 
         const result = JSON.parse(messageContent);
@@ -360,33 +296,30 @@ export class AIOrchestrator {
     approvalStatus: ApprovalStatus;
   }): Promise<AuditReportResult> {
     try {
-      log("Calling OpenAI API for audit report generation...");
-      const response = await this.openai.chat.completions.create({
-        model: this.gptModel,
-        messages: [
-          {
-            role: "system",
-            content: `You are a legal document auditor. Generate an audit report in JSON format.
+      log("Calling model for audit report generation...");
+      const response = await modelRouter.complete({
+        role: "structured",
+        system: `You are a legal document auditor. Generate an audit report in JSON format.
             Return a JSON object with the following structure:
             {
               "processSummary": "summary of the processing workflow",
               "keyChangesMade": ["array of key changes"],
               "riskAssessment": "overall risk assessment",
               "recommendations": ["array of recommendations"]
-            }`
-          },
+            }`,
+        messages: [
           {
             role: "user",
             content: JSON.stringify(data)
           }
         ],
-        response_format: { type: "json_object" },
+        responseFormat: "json",
         temperature: 0.2
       });
 
-      const messageContent = response.choices[0]?.message?.content;
+      const messageContent = response.text;
       if (!messageContent) {
-        throw new Error("Empty response from OpenAI API");
+        throw new Error("Empty response from model");
       }
 
       const result = JSON.parse(messageContent);
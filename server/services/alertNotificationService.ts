@@ -0,0 +1,530 @@
+import { db } from "../db";
+import {
+  alertRoutingRules,
+  complianceAlerts,
+  complianceDocuments,
+  notificationChannels,
+  notificationPreferences,
+  notifications,
+  users,
+  type AlertRoutingRule,
+  type ComplianceAlert,
+  type InsertAlertRoutingRule,
+  type InsertNotificationChannel,
+  type Notification,
+  type NotificationChannel,
+  type NotificationChannelType,
+  type NotificationPreferences,
+  type UpdateNotificationPreferences,
+} from "@shared/schema";
+import { and, asc, desc, eq, inArray, isNull, lt, sql } from "drizzle-orm";
+import debug from "debug";
+import { jobQueue, type JobContext } from "./jobQueue";
+import { organizationService } from "./organizationService";
+import { isEmailConfigured, sendEmail } from "./notifications/email";
+import { postWebhook } from "./notifications/webhook";
+
+const log = debug("app:alert-notifications");
+
+const NOTIFY_JOB = "alerts.notify";
+const DELIVER_JOB = "alerts.deliver";
+const ESCALATE_JOB = "alerts.escalate";
+const NOTIFICATION_PAGE_SIZE = 100;
+
+// Alerts stored before severities were normalised may use other spellings
+const SEVERITY_RANK: Record<string, number> = { INFO: 0, LOW: 1, MEDIUM: 2, HIGH: 3, CRITICAL: 4 };
+
+const DEFAULT_PREFERENCES: Omit<NotificationPreferences, "userId" | "updatedAt"> = {
+  emailEnabled: true,
+  inAppEnabled: true,
+  minSeverity: "LOW",
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  timezone: "UTC",
+};
+
+export class NotificationError extends Error {
+  expose = true;
+
+  constructor(message: string, public statusCode: number, public code: string) {
+    super(message);
+    this.name = "NotificationError";
+  }
+}
+
+// Channels and routing rules belong to an organization, or in personal space
+// to the user who set them up
+export interface NotificationScope {
+  organizationId: number | null;
+  userId: number;
+}
+
+// One message to one destination. Each is its own job so a failing webhook
+// is retried without re-sending emails that already went out.
+interface Delivery {
+  alertId: number;
+  level: number;
+  channel: NotificationChannelType;
+  channelId: number | null;
+  userId?: number;
+}
+
+function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+// When quiet hours are in effect for these preferences, the moment they end;
+// otherwise null. Windows may wrap past midnight (e.g. 22:00-07:00).
+export function quietHoursEnd(
+  preferences: Pick<NotificationPreferences, "quietHoursStart" | "quietHoursEnd" | "timezone">,
+  now = new Date(),
+): Date | null {
+  if (!preferences.quietHoursStart || !preferences.quietHoursEnd) {
+    return null;
+  }
+
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: preferences.timezone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const current = Number(parts.find((part) => part.type === "hour")!.value) * 60
+    + Number(parts.find((part) => part.type === "minute")!.value);
+
+  const start = minutesOfDay(preferences.quietHoursStart);
+  const end = minutesOfDay(preferences.quietHoursEnd);
+  const quiet = start <= end ? current >= start && current < end : current >= start || current < end;
+  if (!quiet) {
+    return null;
+  }
+
+  const wait = (end - current + 24 * 60) % (24 * 60);
+  return new Date(now.getTime() + wait * 60 * 1000);
+}
+
+function redact(channel: NotificationChannel) {
+  const { secret, ...config } = channel.config;
+  return { ...channel, config: { ...config, hasSecret: Boolean(secret) } };
+}
+
+export class AlertNotificationService {
+  constructor() {
+    jobQueue.register(NOTIFY_JOB, ({ alertId, level = 0 }, context) => this.notify(alertId, level, context));
+    jobQueue.register(DELIVER_JOB, (delivery) => this.deliver(delivery as Delivery), {
+      concurrency: 4,
+      maxAttempts: 6,
+    });
+    jobQueue.register(ESCALATE_JOB, ({ alertId, level, ruleId }, context) => this.escalate(alertId, level, ruleId, context));
+  }
+
+  // Call with alerts as they are inserted
+  async alertsRaised(alerts: ComplianceAlert[]): Promise<void> {
+    await jobQueue.enqueueMany(alerts.map((alert) => ({
+      type: NOTIFY_JOB,
+      payload: { alertId: alert.id },
+      options: {
+        groupId: `compliance-alert-${alert.id}`,
+        resourceType: "COMPLIANCE_ALERT",
+        resourceId: alert.id,
+      },
+    })));
+  }
+
+  async listChannels(scope: NotificationScope) {
+    const channels = await db
+      .select()
+      .from(notificationChannels)
+      .where(this.scopeCondition(notificationChannels, scope))
+      .orderBy(asc(notificationChannels.id));
+    return channels.map(redact);
+  }
+
+  async createChannel(scope: NotificationScope, values: InsertNotificationChannel) {
+    const [channel] = await db
+      .insert(notificationChannels)
+      .values({ ...values, organizationId: scope.organizationId, createdBy: scope.userId })
+      .returning();
+    log("Notification channel created", { id: channel.id, type: channel.type, organizationId: scope.organizationId });
+    return redact(channel);
+  }
+
+  // A webhook secret left out of an update is kept, so clients never need
+  // to read it back
+  async updateChannel(scope: NotificationScope, channelId: number, values: InsertNotificationChannel) {
+    const existing = await this.findChannel(scope, channelId);
+    if (!existing) return null;
+
+    const config = values.type === "WEBHOOK" && existing.type === "WEBHOOK"
+      ? { ...values.config, secret: values.config.secret ?? existing.config.secret }
+      : values.config;
+    const [channel] = await db
+      .update(notificationChannels)
+      .set({ ...values, config, updatedAt: new Date() })
+      .where(eq(notificationChannels.id, channelId))
+      .returning();
+    return redact(channel);
+  }
+
+  async deleteChannel(scope: NotificationScope, channelId: number): Promise<boolean> {
+    const inUse = (await this.listRules(scope)).some((rule) => rule.channelIds.includes(channelId));
+    if (inUse) {
+      throw new NotificationError("Remove this channel from its routing rules first", 409, "CHANNEL_IN_USE");
+    }
+    const removed = await db
+      .delete(notificationChannels)
+      .where(and(eq(notificationChannels.id, channelId), this.scopeCondition(notificationChannels, scope)))
+      .returning({ id: notificationChannels.id });
+    return removed.length > 0;
+  }
+
+  async listRules(scope: NotificationScope): Promise<AlertRoutingRule[]> {
+    return await db
+      .select()
+      .from(alertRoutingRules)
+      .where(this.scopeCondition(alertRoutingRules, scope))
+      .orderBy(asc(alertRoutingRules.id));
+  }
+
+  async createRule(scope: NotificationScope, values: InsertAlertRoutingRule): Promise<AlertRoutingRule> {
+    await this.ensureChannels(scope, values.channelIds);
+    await this.ensureRecipients(scope, values);
+    const [rule] = await db
+      .insert(alertRoutingRules)
+      .values({ ...values, organizationId: scope.organizationId, createdBy: scope.userId })
+      .returning();
+    log("Alert routing rule created", { id: rule.id, severity: rule.severity, organizationId: scope.organizationId });
+    return rule;
+  }
+
+  async updateRule(scope: NotificationScope, ruleId: number, values: InsertAlertRoutingRule): Promise<AlertRoutingRule | null> {
+    await this.ensureChannels(scope, values.channelIds);
+    await this.ensureRecipients(scope, values);
+    const [rule] = await db
+      .update(alertRoutingRules)
+      .set({ ...values, updatedAt: new Date() })
+      .where(and(eq(alertRoutingRules.id, ruleId), this.scopeCondition(alertRoutingRules, scope)))
+      .returning();
+    return rule ?? null;
+  }
+
+  async deleteRule(scope: NotificationScope, ruleId: number): Promise<boolean> {
+    const removed = await db
+      .delete(alertRoutingRules)
+      .where(and(eq(alertRoutingRules.id, ruleId), this.scopeCondition(alertRoutingRules, scope)))
+      .returning({ id: alertRoutingRules.id });
+    return removed.length > 0;
+  }
+
+  async getPreferences(userId: number): Promise<NotificationPreferences> {
+    const [preferences] = await db
+      .select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId));
+    return preferences ?? { userId, ...DEFAULT_PREFERENCES, updatedAt: null };
+  }
+
+  async updatePreferences(userId: number, values: UpdateNotificationPreferences): Promise<NotificationPreferences> {
+    const [preferences] = await db
+      .insert(notificationPreferences)
+      .values({ userId, ...values, updatedAt: new Date() })
+      .onConflictDoUpdate({ target: notificationPreferences.userId, set: { ...values, updatedAt: new Date() } })
+      .returning();
+    return preferences;
+  }
+
+  async listNotifications(userId: number, options: { unreadOnly?: boolean } = {}) {
+    const mine = eq(notifications.userId, userId);
+    const items = await db
+      .select()
+      .from(notifications)
+      .where(options.unreadOnly ? and(mine, isNull(notifications.readAt)) : mine)
+      .orderBy(desc(notifications.createdAt), desc(notifications.id))
+      .limit(NOTIFICATION_PAGE_SIZE);
+    const [{ unread }] = await db
+      .select({ unread: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(and(mine, isNull(notifications.readAt)));
+    return { notifications: items, unreadCount: unread };
+  }
+
+  async markRead(userId: number, notificationId: number): Promise<Notification | null> {
+    const [notification] = await db
+      .update(notifications)
+      .set({ readAt: sql`coalesce(${notifications.readAt}, now())` })
+      .where(and(eq(notifications.id, notificationId), eq(notifications.userId, userId)))
+      .returning();
+    return notification ?? null;
+  }
+
+  async markAllRead(userId: number): Promise<number> {
+    const updated = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+
+  // In-app notice about something other than an alert (e.g. an assignment).
+  // Honours the user's in-app switch; severity filtering is for alerts only.
+  async notifyUser(userId: number, notification: Omit<typeof notifications.$inferInsert, "userId" | "id">): Promise<void> {
+    const preferences = await this.getPreferences(userId);
+    if (!preferences.inAppEnabled) return;
+    await db.insert(notifications).values({ ...notification, userId });
+  }
+
+  // Works out who hears about an alert and queues one delivery each. Without
+  // a matching routing rule the document owner (or assignee) is told in-app
+  // and by email.
+  private async notify(alertId: number, level: number, context: JobContext) {
+    const loaded = await this.loadAlert(alertId);
+    if (!loaded || loaded.alert.status !== "PENDING") {
+      return { skipped: "alert is no longer pending" };
+    }
+    const { alert, document } = loaded;
+
+    // A personal document is routed by its owner's own rules and channels
+    const scope = { organizationId: document.organizationId, userId: document.userId };
+    const rules = (await this.listRules(scope))
+      .filter((rule) => rule.isActive && rule.severity === alert.severity);
+    const owner = alert.assignedTo ?? document.userId;
+
+    const deliveries: Delivery[] = [];
+    if (!rules.length) {
+      deliveries.push(
+        { alertId, level, channel: "IN_APP", channelId: null, userId: owner },
+        { alertId, level, channel: "EMAIL", channelId: null, userId: owner },
+      );
+    }
+
+    const channels = rules.length
+      ? await db.select().from(notificationChannels).where(and(
+        inArray(notificationChannels.id, rules.flatMap((rule) => rule.channelIds)),
+        this.scopeCondition(notificationChannels, scope),
+        eq(notificationChannels.isActive, true),
+      ))
+      : [];
+    for (const rule of rules) {
+      const recipients = Array.from(new Set([...rule.recipientIds, owner]));
+      for (const channel of channels.filter((candidate) => rule.channelIds.includes(candidate.id))) {
+        if (channel.type === "WEBHOOK" || (channel.type === "EMAIL" && channel.config.addresses?.length)) {
+          deliveries.push({ alertId, level, channel: channel.type, channelId: channel.id });
+        }
+        if (channel.type !== "WEBHOOK") {
+          deliveries.push(...recipients.map((userId) => ({ alertId, level, channel: channel.type, channelId: channel.id, userId })));
+        }
+      }
+    }
+
+    // A user reached through two rules or channels of the same type hears once
+    const seen = new Set<string>();
+    let queued = 0;
+    for (const delivery of deliveries) {
+      const key = delivery.userId != null ? `${delivery.channel}:user:${delivery.userId}` : `${delivery.channel}:${delivery.channelId}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const runAt = await this.deliveryTime(delivery, alert.severity);
+      if (runAt === false) continue;
+      context.enqueue(DELIVER_JOB, { ...delivery }, { runAt: runAt ?? undefined });
+      queued++;
+    }
+
+    await db
+      .update(complianceAlerts)
+      .set({ lastNotifiedAt: new Date() })
+      .where(eq(complianceAlerts.id, alertId));
+
+    // The quickest policy among the matching rules drives escalation
+    const policy = rules
+      .filter((rule) => rule.escalateAfterMinutes && level < rule.maxEscalations)
+      .sort((a, b) => a.escalateAfterMinutes! - b.escalateAfterMinutes!)[0];
+    if (policy) {
+      context.enqueue(ESCALATE_JOB, { alertId, level: level + 1, ruleId: policy.id }, {
+        runAt: new Date(Date.now() + policy.escalateAfterMinutes! * 60 * 1000),
+      });
+    }
+
+    log("Alert notifications queued", { alertId, level, deliveries: queued, escalation: policy?.id });
+    return { deliveries: queued, escalationRuleId: policy?.id ?? null };
+  }
+
+  // false when the user does not want this delivery at all, a Date when it
+  // has to wait for their quiet hours to end, null to send now
+  private async deliveryTime(delivery: Delivery, severity: string): Promise<Date | null | false> {
+    if (delivery.userId == null) {
+      return null;
+    }
+
+    const preferences = await this.getPreferences(delivery.userId);
+    if ((SEVERITY_RANK[severity] ?? 0) < SEVERITY_RANK[preferences.minSeverity]) {
+      return false;
+    }
+    if (delivery.channel === "EMAIL" && !preferences.emailEnabled) return false;
+    if (delivery.channel === "IN_APP" && !preferences.inAppEnabled) return false;
+
+    // In-app notifications wait silently in the notification center anyway
+    if (delivery.channel !== "EMAIL" || severity === "CRITICAL") {
+      return null;
+    }
+    return quietHoursEnd(preferences);
+  }
+
+  private async deliver(delivery: Delivery) {
+    const loaded = await this.loadAlert(delivery.alertId);
+    if (!loaded || loaded.alert.status !== "PENDING") {
+      return { skipped: "alert is no longer pending" };
+    }
+    const { alert, document } = loaded;
+
+    const escalated = delivery.level > 0 ? ` (escalation ${delivery.level}: still unacknowledged)` : "";
+    const title = `[${alert.severity}] Compliance alert on ${document.title}${escalated}`;
+
+    const channel = delivery.channelId != null
+      ? (await db.select().from(notificationChannels).where(eq(notificationChannels.id, delivery.channelId)))[0]
+      : null;
+    if (delivery.channelId != null && !channel?.isActive) {
+      return { skipped: "channel removed or disabled" };
+    }
+
+    switch (delivery.channel) {
+      case "IN_APP":
+        await db.insert(notifications).values({
+          userId: delivery.userId!,
+          organizationId: document.organizationId,
+          type: "COMPLIANCE_ALERT",
+          title,
+          body: alert.message,
+          severity: alert.severity,
+          resourceType: "COMPLIANCE_ALERT",
+          resourceId: String(alert.id),
+        });
+        break;
+
+      case "EMAIL": {
+        const addresses = delivery.userId != null
+          ? (await db.select({ email: users.email }).from(users).where(eq(users.id, delivery.userId))).map((user) => user.email)
+          : channel?.config.addresses ?? [];
+        if (!addresses.length) {
+          return { skipped: "no email address" };
+        }
+        if (!isEmailConfigured()) {
+          log("Alert email not sent, SMTP is not configured", { alertId: alert.id, addresses });
+          return { skipped: "smtp not configured" };
+        }
+        await sendEmail({
+          to: addresses,
+          subject: title,
+          text: [
+            alert.message,
+            `Document: ${document.title} (ID ${document.id})`,
+            `Raised: ${alert.createdAt?.toUTCString() ?? "-"}`,
+            "Acknowledge the alert in JurySync to stop further reminders.",
+          ].join("\n\n"),
+        });
+        break;
+      }
+
+      case "WEBHOOK":
+        await postWebhook(channel!.config, {
+          event: delivery.level > 0 ? "compliance.alert.escalated" : "compliance.alert.raised",
+          escalationLevel: delivery.level,
+          alert: {
+            id: alert.id,
+            severity: alert.severity,
+            message: alert.message,
+            status: alert.status,
+            assignedTo: alert.assignedTo,
+            createdAt: alert.createdAt,
+          },
+          document: { id: document.id, title: document.title },
+        });
+        break;
+    }
+
+    return { delivered: delivery.channel };
+  }
+
+  // Runs when an alert has gone unacknowledged for the rule's delay. The
+  // level check makes a repeated job a no-op.
+  private async escalate(alertId: number, level: number, ruleId: number, context: JobContext) {
+    const [rule] = await db.select().from(alertRoutingRules).where(eq(alertRoutingRules.id, ruleId));
+    const [alert] = await db
+      .update(complianceAlerts)
+      .set({
+        escalationLevel: level,
+        ...(rule?.escalationAction === "REASSIGN" && rule.escalateToId ? { assignedTo: rule.escalateToId } : {}),
+      })
+      .where(and(
+        eq(complianceAlerts.id, alertId),
+        eq(complianceAlerts.status, "PENDING"),
+        lt(complianceAlerts.escalationLevel, level),
+      ))
+      .returning();
+    if (!alert) {
+      return { skipped: "acknowledged or already escalated" };
+    }
+
+    log("Alert escalated", { alertId, level, action: rule?.escalationAction, assignedTo: alert.assignedTo });
+    return await this.notify(alertId, level, context);
+  }
+
+  private async loadAlert(alertId: number) {
+    const [alert] = await db.select().from(complianceAlerts).where(eq(complianceAlerts.id, alertId));
+    if (!alert) return null;
+    const [document] = await db
+      .select({
+        id: complianceDocuments.id,
+        title: complianceDocuments.title,
+        userId: complianceDocuments.userId,
+        organizationId: complianceDocuments.organizationId,
+      })
+      .from(complianceDocuments)
+      .where(eq(complianceDocuments.id, alert.documentId));
+    return document ? { alert, document } : null;
+  }
+
+  private async findChannel(scope: NotificationScope, channelId: number): Promise<NotificationChannel | undefined> {
+    const [channel] = await db
+      .select()
+      .from(notificationChannels)
+      .where(and(eq(notificationChannels.id, channelId), this.scopeCondition(notificationChannels, scope)));
+    return channel;
+  }
+
+  private async ensureChannels(scope: NotificationScope, channelIds: number[]) {
+    const channels = await db
+      .select({ id: notificationChannels.id })
+      .from(notificationChannels)
+      .where(and(inArray(notificationChannels.id, channelIds), this.scopeCondition(notificationChannels, scope)));
+    const missing = channelIds.filter((id) => !channels.some((channel) => channel.id === id));
+    if (missing.length) {
+      throw new NotificationError(`Unknown notification channels: ${missing.join(", ")}`, 400, "INVALID_INPUT");
+    }
+  }
+
+  // A rule may only notify or reassign to members of its organization; a
+  // personal rule only its owner
+  private async ensureRecipients(scope: NotificationScope, values: InsertAlertRoutingRule) {
+    const userIds = values.escalateToId ? [...values.recipientIds, values.escalateToId] : values.recipientIds;
+    if (!userIds.length) return;
+
+    const allowed = scope.organizationId
+      ? (await organizationService.listMembers(scope.organizationId)).map((member) => member.userId)
+      : [scope.userId];
+    const outsiders = Array.from(new Set(userIds.filter((userId) => !allowed.includes(userId))));
+    if (outsiders.length) {
+      throw new NotificationError(`Users ${outsiders.join(", ")} are not members of this organization`, 400, "INVALID_INPUT");
+    }
+  }
+
+  private scopeCondition(table: typeof notificationChannels | typeof alertRoutingRules, scope: NotificationScope) {
+    return scope.organizationId
+      ? eq(table.organizationId, scope.organizationId)
+      : and(isNull(table.organizationId), eq(table.createdBy, scope.userId));
+  }
+}
+
+export const alertNotificationService = new AlertNotificationService();
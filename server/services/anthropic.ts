@@ -1,9 +1,4 @@
-import Anthropic from '@anthropic-ai/sdk';
-
-// the newest Anthropic model is "claude-3-7-sonnet-20250219" which was released February 24, 2025
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+import { modelRouter } from './modelRouter';
 
 export interface BiasAnalysis {
   score: number;
@@ -25,9 +20,9 @@ export interface DocumentAnalysis {
 
 export async function analyzeBias(content: string): Promise<BiasAnalysis> {
   try {
-    const response = await anthropic.messages.create({
-      model: "claude-3-7-sonnet-20250219",
-      max_tokens: 1024,
+    const response = await modelRouter.complete({
+      role: "analysis",
+      maxTokens: 1024,
       messages: [{
         role: "user",
         content: `Analyze this text for potential biases and provide a structured analysis in JSON format with the following fields:
@@ -40,7 +35,7 @@ export async function analyzeBias(content: string): Promise<BiasAnalysis> {
       }],
     });
 
-    const result = JSON.parse(response.content[0].text);
+    const result = JSON.parse(response.text);
     return result;
   } catch (error: any) {
     console.error("Bias analysis error:", error);
@@ -50,9 +45,9 @@ export async function analyzeBias(content: string): Promise<BiasAnalysis> {
 
 export async function analyzeDocument(content: string): Promise<DocumentAnalysis> {
   try {
-    const response = await anthropic.messages.create({
-      model: "claude-3-7-sonnet-20250219",
-      max_tokens: 2048,
+    const response = await modelRouter.complete({
+      role: "analysis",
+      maxTokens: 2048,
       messages: [{
         role: "user",
         content: `Analyze this document and provide a detailed analysis in JSON format with the following fields:
@@ -69,7 +64,7 @@ export async function analyzeDocument(content: string): Promise<DocumentAnalysis
       }],
     });
 
-    const result = JSON.parse(response.content[0].text);
+    const result = JSON.parse(response.text);
     return result;
   } catch (error: any) {
     console.error("Document analysis error:", error);
@@ -86,9 +81,9 @@ export interface JurorProfile {
 
 export async function generateJurorProfile(questionnaire: string): Promise<JurorProfile> {
   try {
-    const response = await anthropic.messages.create({
-      model: "claude-3-7-sonnet-20250219",
-      max_tokens: 1024,
+    const response = await modelRouter.complete({
+      role: "analysis",
+      maxTokens: 1024,
       messages: [{
         role: "user",
         content: `Analyze this juror questionnaire and generate a comprehensive profile in JSON format with:
@@ -101,7 +96,7 @@ export async function generateJurorProfile(questionnaire: string): Promise<Juror
       }],
     });
 
-    const result = JSON.parse(response.content[0].text);
+    const result = JSON.parse(response.text);
     return result;
   } catch (error: any) {
     console.error("Profile generation error:", error);
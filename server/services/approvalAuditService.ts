@@ -1,11 +1,5 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { z } from 'zod';
-
-// Initialize Anthropic client
-// the newest Anthropic model is "claude-3-5-sonnet-20241022" which was released October 22, 2024
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+import { modelRouter } from './modelRouter';
 
 // Schema for approval analysis
 const approvalAnalysisSchema = z.object({
@@ -57,9 +51,9 @@ export class ApprovalAuditService {
     try {
       console.log('Starting approval analysis...');
 
-      const response = await anthropic.messages.create({
-        model: "claude-3-5-sonnet-20241022",
-        max_tokens: 1500,
+      const response = await modelRouter.complete({
+        role: "analysis",
+        maxTokens: 1500,
         system: `You are a legal document analyzer. Analyze legal documents and provide detailed analysis in a strictly formatted JSON output.
 
 Format your response as a JSON object with these exact fields:
@@ -89,15 +83,14 @@ Document content: ${documentContent}`
         }]
       });
 
-      console.log('Received response from Anthropic');
+      console.log('Received response from model');
 
       // Get the first content block's text
-      const content = response.content[0];
-      if (!content || !('text' in content)) {
+      if (!response.text) {
         throw new Error('Invalid response format from AI');
       }
 
-      const analysisText = content.text;
+      const analysisText = response.text;
       console.log('Parsing analysis text...');
 
       try {
@@ -120,9 +113,9 @@ Document content: ${documentContent}`
     try {
       console.log('Starting final audit generation...');
 
-      const response = await anthropic.messages.create({
-        model: "claude-3-5-sonnet-20241022",
-        max_tokens: 2000,
+      const response = await modelRouter.complete({
+        role: "analysis",
+        maxTokens: 2000,
         messages: [{ 
           role: "user", 
           content: `Generate a comprehensive final audit report in JSON format for this legal document with the following structure:
@@ -156,12 +149,11 @@ Approval history: ${JSON.stringify(approvalHistory)}`
         }]
       });
 
-      const content = response.content[0];
-      if (!content || !('text' in content)) {
+      if (!response.text) {
         throw new Error('Invalid response format from AI');
       }
 
-      const reportText = content.text;
+      const reportText = response.text;
       console.log('Parsing audit report...');
 
       try {
@@ -186,9 +178,9 @@ Approval history: ${JSON.stringify(approvalHistory)}`
     try {
       console.log('Starting risk scorecard generation...');
 
-      const response = await anthropic.messages.create({
-        model: "claude-3-5-sonnet-20241022",
-        max_tokens: 1000,
+      const response = await modelRouter.complete({
+        role: "analysis",
+        maxTokens: 1000,
         messages: [{ 
           role: "user", 
           content: `Generate a risk scorecard in JSON format with this structure:
@@ -205,12 +197,11 @@ Document content: ${documentContent}`
         }]
       });
 
-      const content = response.content[0];
-      if (!content || !('text' in content)) {
+      if (!response.text) {
         throw new Error('Invalid response format from AI');
       }
 
-      const scorecardText = content.text;
+      const scorecardText = response.text;
       console.log('Parsing risk scorecard...');
 
       try {
@@ -0,0 +1,482 @@
+import { db } from "../db";
+import {
+  approvals,
+  approvalChains,
+  approvalRequests,
+  documents,
+  users,
+  type Approval,
+  type ApprovalChain,
+  type ApprovalChainMode,
+  type ApprovalRequest,
+  type ContractStatus,
+  type Document,
+  type InsertApprovalChain,
+  type WorkflowEvent,
+} from "@shared/schema";
+import { and, asc, desc, eq, inArray, isNull } from "drizzle-orm";
+import debug from "debug";
+import { templateLibraryService } from "./templateLibraryService";
+import { documentAccessService } from "./documentAccessService";
+import { jobQueue } from "./jobQueue";
+import { alertNotificationService } from "./alertNotificationService";
+import { contractLifecycleService, contractStatusOf } from "./contractLifecycleService";
+
+const log = debug("app:approvals");
+
+const REMINDER_JOB = "approvals.reminder";
+const DEFAULT_REMINDER_HOURS = 24;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Carries statusCode/expose so the shared errorHandler can report it as-is
+export class ApprovalError extends Error {
+  expose = true;
+
+  constructor(message: string, public statusCode: number, public code: string) {
+    super(message);
+    this.name = "ApprovalError";
+  }
+}
+
+export interface ApprovalRouteRequest {
+  requesterId: number;
+  organizationId: number | null;
+  // Explicit approvers bypass chain matching
+  approverIds?: number[];
+  mode?: ApprovalChainMode;
+  comments?: string;
+}
+
+export type ApprovalDecision = "APPROVED" | "REJECTED";
+
+// Where a document lands once its approval request is settled
+const DECISION_STATUS: Record<ApprovalDecision, ContractStatus> = {
+  APPROVED: "SIGNATURE",
+  REJECTED: "REDLINE",
+};
+
+// Template category comes from the template version the contract was
+// generated from; risk score from the document's analysis
+async function routingAttributes(document: Document) {
+  const analysis = (document.analysis ?? {}) as Record<string, any>;
+  const metadata = (document.metadata ?? {}) as Record<string, any>;
+  const templateId = analysis.contractDetails?.template;
+  const template = document.templateVersionId
+    ? await templateLibraryService.resolveVersion(document.templateVersionId)
+    : templateId ? await templateLibraryService.resolve(String(templateId), document) : null;
+
+  return {
+    templateCategory: template?.category || metadata.templateCategory || null,
+    riskScore: typeof analysis.riskScore === "number" ? analysis.riskScore : null,
+  };
+}
+
+export class ApprovalService {
+  constructor() {
+    jobQueue.register(REMINDER_JOB, async ({ approvalId }, context) => {
+      const reminded = await this.sendReminder(approvalId);
+      if (reminded) {
+        context.enqueue(REMINDER_JOB, { approvalId }, { runAt: this.nextReminderAt(reminded.reminderHours) });
+      }
+      return { reminded: !!reminded };
+    });
+  }
+
+  async listChains(organizationId: number | null): Promise<ApprovalChain[]> {
+    return await db
+      .select()
+      .from(approvalChains)
+      .where(organizationId ? eq(approvalChains.organizationId, organizationId) : isNull(approvalChains.organizationId))
+      .orderBy(desc(approvalChains.priority), asc(approvalChains.id));
+  }
+
+  async createChain(organizationId: number | null, values: InsertApprovalChain, userId: number): Promise<ApprovalChain> {
+    await this.assertApproversExist(values.approverIds);
+    const [chain] = await db
+      .insert(approvalChains)
+      .values({ ...values, organizationId, createdBy: userId })
+      .returning();
+    log("Approval chain created", { id: chain.id, organizationId });
+    return chain;
+  }
+
+  async updateChain(organizationId: number | null, chainId: number, values: Partial<InsertApprovalChain>): Promise<ApprovalChain | undefined> {
+    if (values.approverIds) {
+      await this.assertApproversExist(values.approverIds);
+    }
+    const [chain] = await db
+      .update(approvalChains)
+      .set({ ...values, updatedAt: new Date() })
+      .where(and(eq(approvalChains.id, chainId), this.chainScope(organizationId)))
+      .returning();
+    return chain;
+  }
+
+  async deleteChain(organizationId: number | null, chainId: number): Promise<boolean> {
+    const removed = await db
+      .delete(approvalChains)
+      .where(and(eq(approvalChains.id, chainId), this.chainScope(organizationId)))
+      .returning();
+    return removed.length > 0;
+  }
+
+  // Chains limited to a category or a risk threshold beat catch-all chains of
+  // the same priority
+  async resolveChain(document: Document, organizationId: number | null): Promise<ApprovalChain | null> {
+    const { templateCategory, riskScore } = await routingAttributes(document);
+    const chains = await this.listChains(organizationId);
+
+    const matches = chains.filter((chain) =>
+      chain.isActive &&
+      (!chain.templateCategory || chain.templateCategory === templateCategory) &&
+      (chain.minRiskScore == null || (riskScore != null && riskScore >= chain.minRiskScore)),
+    );
+
+    const specificity = (chain: ApprovalChain) =>
+      (chain.templateCategory ? 2 : 0) + (chain.minRiskScore != null ? 1 : 0);
+
+    matches.sort((a, b) =>
+      b.priority - a.priority ||
+      specificity(b) - specificity(a) ||
+      (b.minRiskScore ?? 0) - (a.minRiskScore ?? 0),
+    );
+
+    return matches[0] ?? null;
+  }
+
+  async requestApproval(document: Document, request: ApprovalRouteRequest) {
+    const chain = request.approverIds?.length ? null : await this.resolveChain(document, request.organizationId);
+    const approverIds = request.approverIds?.length ? request.approverIds : chain?.approverIds;
+    if (!approverIds?.length) {
+      throw new ApprovalError("No approval chain matches this document; choose an approver", 400, "NO_APPROVAL_CHAIN");
+    }
+    if (approverIds.includes(request.requesterId)) {
+      throw new ApprovalError("You cannot approve your own request", 400, "SELF_APPROVAL");
+    }
+    await this.assertApproversExist(approverIds);
+
+    const mode = request.mode ?? (chain?.mode as ApprovalChainMode | undefined) ?? "SEQUENTIAL";
+    const reminderHours = chain?.reminderHours ?? DEFAULT_REMINDER_HOURS;
+
+    const { approvalRequest, steps, events } = await db.transaction(async (tx) => {
+      // Locking the document keeps two concurrent requests from both opening
+      const [locked] = await tx
+        .select({ contractStatus: documents.contractStatus })
+        .from(documents)
+        .where(eq(documents.id, document.id))
+        .for("update");
+      const [open] = await tx
+        .select({ id: approvalRequests.id })
+        .from(approvalRequests)
+        .where(and(eq(approvalRequests.documentId, document.id), eq(approvalRequests.status, "PENDING")));
+      if (open) {
+        throw new ApprovalError("This document already has a pending approval request", 409, "APPROVAL_PENDING");
+      }
+
+      const [approvalRequest] = await tx
+        .insert(approvalRequests)
+        .values({
+          documentId: document.id,
+          organizationId: request.organizationId,
+          chainId: chain?.id ?? null,
+          mode,
+          requesterId: request.requesterId,
+          comments: request.comments,
+          reminderHours,
+        })
+        .returning();
+
+      const steps = await tx
+        .insert(approvals)
+        .values(approverIds.map((approverId, index) => ({
+          documentId: document.id,
+          requestId: approvalRequest.id,
+          stepOrder: mode === "SEQUENTIAL" ? index : 0,
+          requesterId: request.requesterId,
+          approverId,
+          status: mode === "SEQUENTIAL" && index > 0 ? "WAITING" : "PENDING",
+          comments: request.comments,
+        })))
+        .returning();
+
+      // Requesting review of a draft opens the review stage on the way
+      const events: WorkflowEvent[] = [];
+      if (contractStatusOf(locked) === "DRAFT") {
+        events.push(await contractLifecycleService.applyTransition(tx, document.id, "REVIEW", {
+          actorId: request.requesterId,
+          reason: "Review requested",
+        }));
+      }
+      events.push(await contractLifecycleService.applyTransition(tx, document.id, "APPROVAL", {
+        actorId: request.requesterId,
+        reason: request.comments,
+        details: { approvalRequestId: approvalRequest.id, approvalStatus: "PENDING" },
+      }));
+      return { approvalRequest, steps, events };
+    });
+    events.forEach((event) => contractLifecycleService.publish(event));
+
+    // Approvers need to read what they are signing off on
+    for (const approverId of approverIds) {
+      if (approverId !== document.userId) {
+        await documentAccessService.grant("DOCUMENT", document.id, { userId: approverId, permission: "VIEW" }, request.requesterId);
+      }
+    }
+    await this.scheduleReminders(steps.filter((step) => step.status === "PENDING"), reminderHours);
+
+    log("Approval requested", { documentId: document.id, requestId: approvalRequest.id, mode, chainId: chain?.id });
+    return { request: approvalRequest, chain, steps };
+  }
+
+  // An approver's inbox: steps currently waiting on them
+  async listPending(userId: number) {
+    return await db
+      .select({
+        id: approvals.id,
+        requestId: approvals.requestId,
+        documentId: approvals.documentId,
+        documentTitle: documents.title,
+        requesterId: approvals.requesterId,
+        requesterName: users.username,
+        delegatedFrom: approvals.delegatedFrom,
+        mode: approvalRequests.mode,
+        comments: approvals.comments,
+        reminderCount: approvals.reminderCount,
+        createdAt: approvals.createdAt,
+      })
+      .from(approvals)
+      .innerJoin(documents, eq(approvals.documentId, documents.id))
+      .innerJoin(users, eq(approvals.requesterId, users.id))
+      .leftJoin(approvalRequests, eq(approvals.requestId, approvalRequests.id))
+      .where(and(eq(approvals.approverId, userId), eq(approvals.status, "PENDING")))
+      .orderBy(asc(approvals.createdAt));
+  }
+
+  async getRequest(requestId: number): Promise<(ApprovalRequest & { steps: Approval[] }) | null> {
+    const [request] = await db.select().from(approvalRequests).where(eq(approvalRequests.id, requestId));
+    if (!request) return null;
+
+    const steps = await db
+      .select()
+      .from(approvals)
+      .where(eq(approvals.requestId, requestId))
+      .orderBy(asc(approvals.stepOrder), asc(approvals.id));
+    return { ...request, steps };
+  }
+
+  async listForDocument(documentId: number) {
+    const requests = await db
+      .select()
+      .from(approvalRequests)
+      .where(eq(approvalRequests.documentId, documentId))
+      .orderBy(desc(approvalRequests.createdAt));
+    return await Promise.all(requests.map(async (request) => (await this.getRequest(request.id))!));
+  }
+
+  async decide(approvalId: number, userId: number, decision: ApprovalDecision, comments?: string) {
+    const { approval, request, activated, event } = await db.transaction(async (tx) => {
+      const step = await this.lockPendingStep(tx, approvalId, userId);
+
+      // Serialises decisions on the same request so parallel approvers
+      // cannot both see themselves as the last outstanding step
+      const [request] = await tx
+        .select()
+        .from(approvalRequests)
+        .where(eq(approvalRequests.id, step.requestId!))
+        .for("update");
+
+      const [approval] = await tx
+        .update(approvals)
+        .set({ status: decision, comments: comments ?? step.comments, decidedAt: new Date(), updatedAt: new Date() })
+        .where(eq(approvals.id, approvalId))
+        .returning();
+
+      const steps = await tx.select().from(approvals).where(eq(approvals.requestId, request.id));
+      const open = steps.filter((s) => s.status === "PENDING" || s.status === "WAITING");
+
+      let outcome: ApprovalDecision | null = null;
+      let activated: Approval[] = [];
+
+      if (decision === "REJECTED" || request.mode === "ANY_ONE") {
+        outcome = decision;
+      } else if (request.mode === "SEQUENTIAL") {
+        const next = open
+          .filter((s) => s.status === "WAITING")
+          .sort((a, b) => a.stepOrder - b.stepOrder)[0];
+        if (next) {
+          activated = await tx
+            .update(approvals)
+            .set({ status: "PENDING", updatedAt: new Date() })
+            .where(eq(approvals.id, next.id))
+            .returning();
+        } else {
+          outcome = "APPROVED";
+        }
+      } else if (open.length === 0) {
+        outcome = "APPROVED";
+      }
+
+      let settled = request;
+      let event: WorkflowEvent | undefined;
+      if (outcome) {
+        if (open.length) {
+          await tx
+            .update(approvals)
+            .set({ status: "SKIPPED", updatedAt: new Date() })
+            .where(inArray(approvals.id, open.map((s) => s.id)));
+        }
+        [settled] = await tx
+          .update(approvalRequests)
+          .set({ status: outcome, completedAt: new Date() })
+          .where(eq(approvalRequests.id, request.id))
+          .returning();
+        event = await contractLifecycleService.applyTransition(tx, request.documentId, DECISION_STATUS[outcome], {
+          actorId: userId,
+          reason: comments,
+          details: { approvalRequestId: request.id, approvalStatus: outcome },
+        });
+      }
+
+      return { approval, request: settled, activated, event };
+    });
+
+    if (event) {
+      contractLifecycleService.publish(event);
+    }
+
+    await this.scheduleReminders(activated, request.reminderHours);
+    log("Approval decided", { approvalId, decision, requestId: request.id, requestStatus: request.status });
+    return { approval, request, activated };
+  }
+
+  // Hands a pending step to someone else; the delegate takes the same place
+  // in the chain
+  async delegate(approvalId: number, userId: number, delegateId: number, comments?: string) {
+    if (delegateId === userId) {
+      throw new ApprovalError("Cannot delegate to yourself", 400, "INVALID_DELEGATE");
+    }
+    await this.assertApproversExist([delegateId]);
+
+    const { delegated, request } = await db.transaction(async (tx) => {
+      const step = await this.lockPendingStep(tx, approvalId, userId);
+      const [request] = await tx.select().from(approvalRequests).where(eq(approvalRequests.id, step.requestId!));
+      if (delegateId === request.requesterId) {
+        throw new ApprovalError("The requester cannot approve their own request", 400, "SELF_APPROVAL");
+      }
+
+      await tx
+        .update(approvals)
+        .set({ status: "DELEGATED", comments: comments ?? step.comments, decidedAt: new Date(), updatedAt: new Date() })
+        .where(eq(approvals.id, approvalId));
+
+      const [delegated] = await tx
+        .insert(approvals)
+        .values({
+          documentId: step.documentId,
+          requestId: step.requestId,
+          stepOrder: step.stepOrder,
+          requesterId: step.requesterId,
+          approverId: delegateId,
+          delegatedFrom: userId,
+          status: "PENDING",
+          comments: comments ?? step.comments,
+        })
+        .returning();
+      return { delegated, request };
+    });
+
+    const document = await documentAccessService.loadResource("DOCUMENT", delegated.documentId);
+    if (document && document.userId !== delegateId) {
+      await documentAccessService.grant("DOCUMENT", delegated.documentId, { userId: delegateId, permission: "VIEW" }, userId);
+    }
+    await this.scheduleReminders([delegated], request.reminderHours);
+
+    log("Approval delegated", { approvalId, from: userId, to: delegateId, newApprovalId: delegated.id });
+    return delegated;
+  }
+
+  private async lockPendingStep(tx: Transaction, approvalId: number, userId: number): Promise<Approval> {
+    const [step] = await tx.select().from(approvals).where(eq(approvals.id, approvalId)).for("update");
+    if (!step || step.approverId !== userId) {
+      throw new ApprovalError("Approval not found", 404, "NOT_FOUND");
+    }
+    if (step.status !== "PENDING" || !step.requestId) {
+      throw new ApprovalError(`This approval is ${step.status.toLowerCase()} and can no longer be changed`, 409, "APPROVAL_CLOSED");
+    }
+    return step;
+  }
+
+  private async scheduleReminders(steps: Approval[], reminderHours: number) {
+    if (steps.length === 0) return;
+    await jobQueue.enqueueMany(steps.map((step) => ({
+      type: REMINDER_JOB,
+      payload: { approvalId: step.id },
+      options: {
+        groupId: `approval-request-${step.requestId}`,
+        resourceType: "APPROVAL",
+        resourceId: step.id,
+        runAt: this.nextReminderAt(reminderHours),
+      },
+    })));
+  }
+
+  private nextReminderAt(reminderHours: number): Date {
+    return new Date(Date.now() + reminderHours * 60 * 60 * 1000);
+  }
+
+  // Returns the request's reminder interval while the step is still pending,
+  // or null once it has been decided and reminders should stop
+  private async sendReminder(approvalId: number): Promise<{ reminderHours: number } | null> {
+    const [row] = await db
+      .select({
+        approval: approvals,
+        reminderHours: approvalRequests.reminderHours,
+        document: { title: documents.title, organizationId: documents.organizationId },
+      })
+      .from(approvals)
+      .innerJoin(approvalRequests, eq(approvals.requestId, approvalRequests.id))
+      .innerJoin(documents, eq(approvals.documentId, documents.id))
+      .where(eq(approvals.id, approvalId));
+
+    if (!row || row.approval.status !== "PENDING") {
+      return null;
+    }
+
+    await db
+      .update(approvals)
+      .set({ lastRemindedAt: new Date(), reminderCount: row.approval.reminderCount + 1 })
+      .where(eq(approvals.id, approvalId));
+
+    await alertNotificationService.notifyUser(row.approval.approverId, {
+      organizationId: row.document.organizationId,
+      type: "APPROVAL_REMINDER",
+      title: `Your approval is waiting on ${row.document.title}`,
+      body: `Reminder ${row.approval.reminderCount + 1}: ${row.document.title} is waiting for your decision.`,
+      severity: "MEDIUM",
+      resourceType: "APPROVAL",
+      resourceId: String(approvalId),
+    });
+
+    log("Approval reminder sent", {
+      approvalId,
+      approverId: row.approval.approverId,
+      documentId: row.approval.documentId,
+      reminderCount: row.approval.reminderCount + 1,
+    });
+    return { reminderHours: row.reminderHours };
+  }
+
+  private async assertApproversExist(approverIds: number[]) {
+    const found = await db.select({ id: users.id }).from(users).where(inArray(users.id, approverIds));
+    if (found.length !== new Set(approverIds).size) {
+      throw new ApprovalError("One or more approvers do not exist", 400, "INVALID_APPROVER");
+    }
+  }
+
+  private chainScope(organizationId: number | null) {
+    return organizationId ? eq(approvalChains.organizationId, organizationId) : isNull(approvalChains.organizationId);
+  }
+}
+
+export const approvalService = new ApprovalService();
@@ -0,0 +1,242 @@
+import { createHash } from "crypto";
+import type { Request, Response } from "express";
+import { db } from "../db";
+import { auditLogEntries, type AuditAction, type AuditLogEntry } from "@shared/schema";
+import { and, asc, desc, eq, gt, gte, lte, sql, type SQL } from "drizzle-orm";
+import debug from "debug";
+
+const log = debug("app:audit-log");
+
+export const GENESIS_HASH = "0".repeat(64);
+
+// Arbitrary constant key for the advisory lock that serialises appends
+const APPEND_LOCK_KEY = 7_340_011;
+const VERIFY_BATCH_SIZE = 500;
+
+export interface AuditEvent {
+  action: AuditAction;
+  resourceType: string;
+  resourceId?: string | number | null;
+  details?: Record<string, unknown>;
+}
+
+export interface AuditActor {
+  actorId: number | null;
+  actorRole: string | null;
+  organizationId: number | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+export interface AuditQuery {
+  organizationId?: number | null;
+  actorId?: number;
+  action?: AuditAction;
+  resourceType?: string;
+  resourceId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  entries: number;
+  headHash: string;
+  brokenAt?: { sequence: number; reason: string };
+}
+
+type HashedFields = Omit<AuditLogEntry, "id" | "hash">;
+
+// JSON with sorted object keys, so the hash does not depend on the key order
+// Postgres returns from jsonb
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function computeEntryHash(entry: HashedFields): string {
+  const payload = canonicalJson([
+    entry.sequence,
+    entry.organizationId,
+    entry.actorId,
+    entry.actorRole,
+    entry.action,
+    entry.resourceType,
+    entry.resourceId,
+    entry.ipAddress,
+    entry.userAgent,
+    entry.details ?? {},
+    entry.createdAt.toISOString(),
+    entry.previousHash,
+  ]);
+  return createHash("sha256").update(payload).digest("hex");
+}
+
+export class AuditLogService {
+  // Appends one entry. Appends are serialised with a transaction-scoped
+  // advisory lock so two requests can never chain off the same predecessor.
+  async append(event: AuditEvent, actor: AuditActor): Promise<AuditLogEntry> {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(${APPEND_LOCK_KEY})`);
+
+      const [last] = await tx
+        .select({ sequence: auditLogEntries.sequence, hash: auditLogEntries.hash })
+        .from(auditLogEntries)
+        .orderBy(desc(auditLogEntries.sequence))
+        .limit(1);
+
+      const fields: HashedFields = {
+        sequence: (last?.sequence ?? 0) + 1,
+        organizationId: actor.organizationId,
+        actorId: actor.actorId,
+        actorRole: actor.actorRole,
+        action: event.action,
+        resourceType: event.resourceType,
+        resourceId: event.resourceId === undefined || event.resourceId === null ? null : String(event.resourceId),
+        ipAddress: actor.ipAddress,
+        userAgent: actor.userAgent,
+        details: event.details ?? {},
+        // Postgres keeps microseconds but Date only has milliseconds, so the
+        // value read back is identical to the one hashed here
+        createdAt: new Date(),
+        previousHash: last?.hash ?? GENESIS_HASH,
+      };
+
+      const [entry] = await tx
+        .insert(auditLogEntries)
+        .values({ ...fields, hash: computeEntryHash(fields) })
+        .returning();
+
+      return entry;
+    });
+  }
+
+  // drizzle-kit push creates the table but has no way to declare triggers, so
+  // this runs at startup. Any UPDATE, DELETE or TRUNCATE of the log then fails
+  // inside the database, whichever client issues it.
+  async enforceAppendOnly(): Promise<void> {
+    await db.execute(sql`
+      create or replace function audit_log_entries_append_only() returns trigger as $$
+      begin
+        raise exception 'audit_log_entries is append-only';
+      end;
+      $$ language plpgsql
+    `);
+    await db.execute(sql`
+      create or replace trigger audit_log_entries_append_only
+      before update or delete or truncate on audit_log_entries
+      for each statement execute function audit_log_entries_append_only()
+    `);
+    log("Audit log is append-only");
+  }
+
+  // Records an action taken through an API request. Audit failures are logged
+  // rather than surfaced so they never block the user's action.
+  async record(req: Request, res: Response, event: AuditEvent): Promise<void> {
+    const user = req.user;
+    try {
+      await this.append(event, {
+        actorId: user?.id ?? null,
+        actorRole: user?.role ?? null,
+        organizationId: res.locals.tenant?.organizationId ?? null,
+        ipAddress: req.ip || req.socket?.remoteAddress || null,
+        userAgent: req.get("user-agent") || null,
+      });
+    } catch (error) {
+      log("Failed to record audit entry", { event, actorId: user?.id, error });
+      console.error("Audit log write failed:", error);
+    }
+  }
+
+  async query(filters: AuditQuery = {}, limit?: number): Promise<AuditLogEntry[]> {
+    const conditions: (SQL | undefined)[] = [
+      filters.organizationId != null ? eq(auditLogEntries.organizationId, filters.organizationId) : undefined,
+      filters.actorId !== undefined ? eq(auditLogEntries.actorId, filters.actorId) : undefined,
+      filters.action ? eq(auditLogEntries.action, filters.action) : undefined,
+      filters.resourceType ? eq(auditLogEntries.resourceType, filters.resourceType) : undefined,
+      filters.resourceId ? eq(auditLogEntries.resourceId, filters.resourceId) : undefined,
+      filters.from ? gte(auditLogEntries.createdAt, filters.from) : undefined,
+      filters.to ? lte(auditLogEntries.createdAt, filters.to) : undefined,
+    ];
+
+    const query = db
+      .select()
+      .from(auditLogEntries)
+      .where(and(...conditions))
+      .orderBy(asc(auditLogEntries.sequence));
+
+    return limit ? await query.limit(limit) : await query;
+  }
+
+  // Walks the whole chain in sequence order and reports the first entry whose
+  // link or hash does not match
+  async verifyChain(): Promise<ChainVerification> {
+    let previousHash = GENESIS_HASH;
+    let expectedSequence = 1;
+    let cursor = 0;
+
+    for (;;) {
+      const batch = await db
+        .select()
+        .from(auditLogEntries)
+        .where(gt(auditLogEntries.sequence, cursor))
+        .orderBy(asc(auditLogEntries.sequence))
+        .limit(VERIFY_BATCH_SIZE);
+
+      for (const entry of batch) {
+        const reason =
+          entry.sequence !== expectedSequence ? `expected sequence ${expectedSequence}` :
+          entry.previousHash !== previousHash ? "previous hash does not match" :
+          computeEntryHash(entry) !== entry.hash ? "entry hash does not match its contents" :
+          null;
+
+        if (reason) {
+          log("Audit chain broken", { sequence: entry.sequence, reason });
+          return {
+            valid: false,
+            entries: expectedSequence - 1,
+            headHash: previousHash,
+            brokenAt: { sequence: entry.sequence, reason },
+          };
+        }
+
+        previousHash = entry.hash;
+        expectedSequence++;
+        cursor = entry.sequence;
+      }
+
+      if (batch.length < VERIFY_BATCH_SIZE) {
+        return { valid: true, entries: expectedSequence - 1, headHash: previousHash };
+      }
+    }
+  }
+
+  toCsv(entries: AuditLogEntry[]): string {
+    const columns: (keyof AuditLogEntry)[] = [
+      "sequence", "createdAt", "organizationId", "actorId", "actorRole", "action",
+      "resourceType", "resourceId", "ipAddress", "userAgent", "details", "previousHash", "hash",
+    ];
+    const escape = (value: unknown) => {
+      const text = value instanceof Date ? value.toISOString()
+        : value !== null && typeof value === "object" ? canonicalJson(value)
+        : value === null || value === undefined ? ""
+        : String(value);
+      return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    return [
+      columns.join(","),
+      ...entries.map((entry) => columns.map((column) => escape(entry[column])).join(",")),
+    ].join("\n");
+  }
+}
+
+export const auditLogService = new AuditLogService();
@@ -0,0 +1,163 @@
+import { db } from "../db";
+import {
+  llmUsage,
+  organizationBudgets,
+  type InsertLlmUsage,
+  type InsertOrganizationBudget,
+  type OrganizationBudget,
+} from "@shared/schema";
+import { and, desc, eq, gte, lt, sql } from "drizzle-orm";
+import debug from "debug";
+
+const log = debug("app:budgets");
+
+// Month-to-date spend is cached briefly and bumped locally on every recorded
+// call, so the router does not query llm_usage before each completion
+const SPEND_CACHE_TTL_MS = 60 * 1000;
+
+export type BudgetState = "UNLIMITED" | "OK" | "SOFT_LIMIT" | "HARD_LIMIT";
+
+export interface BudgetStatus {
+  organizationId: number;
+  budget: OrganizationBudget | null;
+  periodStart: Date;
+  spendUsd: number;
+  remainingUsd: number | null;
+  state: BudgetState;
+}
+
+export type UsageGrouping = "feature" | "user" | "model";
+
+// Carries statusCode/expose so the shared errorHandler can report it as-is
+export class BudgetExceededError extends Error {
+  expose = true;
+  statusCode = 402;
+  code = "BUDGET_EXCEEDED";
+
+  constructor(public organizationId: number, public spendUsd: number, public hardLimitUsd: number) {
+    super(`Monthly AI budget of $${hardLimitUsd.toFixed(2)} has been reached`);
+    this.name = "BudgetExceededError";
+  }
+}
+
+function monthStart(date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+export class BudgetService {
+  private spendCache = new Map<number, { periodStart: number; spendUsd: number; loadedAt: number }>();
+
+  async getBudget(organizationId: number): Promise<OrganizationBudget | null> {
+    const [budget] = await db
+      .select()
+      .from(organizationBudgets)
+      .where(eq(organizationBudgets.organizationId, organizationId));
+    return budget ?? null;
+  }
+
+  async setBudget(organizationId: number, values: InsertOrganizationBudget, userId: number): Promise<OrganizationBudget> {
+    const [budget] = await db
+      .insert(organizationBudgets)
+      .values({ organizationId, ...values, updatedBy: userId })
+      .onConflictDoUpdate({
+        target: organizationBudgets.organizationId,
+        set: { ...values, updatedBy: userId, updatedAt: new Date() },
+      })
+      .returning();
+    log("Budget updated", { organizationId, ...values });
+    return budget;
+  }
+
+  async monthToDateSpend(organizationId: number): Promise<number> {
+    const periodStart = monthStart().getTime();
+    const cached = this.spendCache.get(organizationId);
+    if (cached && cached.periodStart === periodStart && Date.now() - cached.loadedAt < SPEND_CACHE_TTL_MS) {
+      return cached.spendUsd;
+    }
+
+    const [row] = await db
+      .select({ spendUsd: sql<number>`coalesce(sum(${llmUsage.costUsd}), 0)::float` })
+      .from(llmUsage)
+      .where(and(
+        eq(llmUsage.organizationId, organizationId),
+        gte(llmUsage.createdAt, new Date(periodStart)),
+      ));
+
+    const spendUsd = row?.spendUsd ?? 0;
+    this.spendCache.set(organizationId, { periodStart, spendUsd, loadedAt: Date.now() });
+    return spendUsd;
+  }
+
+  async getStatus(organizationId: number): Promise<BudgetStatus> {
+    const [budget, spendUsd] = await Promise.all([
+      this.getBudget(organizationId),
+      this.monthToDateSpend(organizationId),
+    ]);
+
+    let state: BudgetState = "UNLIMITED";
+    if (budget) {
+      state = spendUsd >= budget.hardLimitUsd ? "HARD_LIMIT"
+        : spendUsd >= budget.softLimitUsd ? "SOFT_LIMIT"
+        : "OK";
+    }
+
+    return {
+      organizationId,
+      budget,
+      periodStart: monthStart(),
+      spendUsd,
+      remainingUsd: budget ? Math.max(budget.hardLimitUsd - spendUsd, 0) : null,
+      state,
+    };
+  }
+
+  // Throws once the hard limit is reached; otherwise returns the status so
+  // the caller can pick a cheaper model past the soft limit
+  async assertWithinBudget(organizationId: number): Promise<BudgetStatus> {
+    const status = await this.getStatus(organizationId);
+    if (status.state === "HARD_LIMIT" && status.budget) {
+      throw new BudgetExceededError(organizationId, status.spendUsd, status.budget.hardLimitUsd);
+    }
+    return status;
+  }
+
+  async recordUsage(entry: InsertLlmUsage): Promise<void> {
+    await db.insert(llmUsage).values(entry);
+
+    if (entry.organizationId != null) {
+      const cached = this.spendCache.get(entry.organizationId);
+      if (cached && cached.periodStart === monthStart().getTime()) {
+        cached.spendUsd += entry.costUsd ?? 0;
+      }
+    }
+  }
+
+  async summarizeUsage(organizationId: number, options: { from?: Date; to?: Date; groupBy: UsageGrouping }) {
+    const column = {
+      feature: llmUsage.feature,
+      user: llmUsage.userId,
+      model: llmUsage.model,
+    }[options.groupBy];
+
+    const conditions = [eq(llmUsage.organizationId, organizationId)];
+    conditions.push(gte(llmUsage.createdAt, options.from ?? monthStart()));
+    if (options.to) {
+      conditions.push(lt(llmUsage.createdAt, options.to));
+    }
+
+    return await db
+      .select({
+        key: column,
+        calls: sql<number>`count(*)::integer`,
+        inputTokens: sql<number>`coalesce(sum(${llmUsage.inputTokens}), 0)::integer`,
+        outputTokens: sql<number>`coalesce(sum(${llmUsage.outputTokens}), 0)::integer`,
+        costUsd: sql<number>`coalesce(sum(${llmUsage.costUsd}), 0)::float`,
+      })
+      .from(llmUsage)
+      .where(and(...conditions))
+      .groupBy(column)
+      .orderBy(desc(sql`sum(${llmUsage.costUsd})`));
+  }
+}
+
+export const budgetService = new BudgetService();
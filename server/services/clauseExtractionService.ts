@@ -0,0 +1,243 @@
+import { createHash } from "crypto";
+import { db } from "../db";
+import {
+  clauseExtractions,
+  documents,
+  documentVersions,
+  extractedClauses,
+  type ClauseExtraction,
+  type ClauseType,
+  type ExtractedClause,
+} from "@shared/schema";
+import { and, asc, desc, eq, isNull, sql, type SQL } from "drizzle-orm";
+import debug from "debug";
+import { jobQueue } from "./jobQueue";
+import { documentAccessService, type AccessUser } from "./documentAccessService";
+import { organizationService, type TenantContext } from "./organizationService";
+import {
+  extractClauses,
+  TAXONOMY_VERSION,
+  type FLAG_ATTRIBUTES,
+  type NUMERIC_ATTRIBUTES,
+  type TEXT_ATTRIBUTES,
+} from "./clauses";
+
+const log = debug("app:clause-extraction");
+
+const EXTRACT_JOB = "clauses.extract";
+const SEARCH_PAGE_SIZE = 500;
+
+type NumericAttribute = typeof NUMERIC_ATTRIBUTES[number];
+type FlagAttribute = typeof FLAG_ATTRIBUTES[number];
+type TextAttribute = typeof TEXT_ATTRIBUTES[number];
+
+export interface ClauseSearchFilters {
+  type?: ClauseType;
+  documentId?: number;
+  min?: Partial<Record<NumericAttribute, number>>;
+  max?: Partial<Record<NumericAttribute, number>>;
+  flags?: Partial<Record<FlagAttribute, boolean>>;
+  // Case-insensitive substring match, e.g. jurisdiction "new york"
+  text?: Partial<Record<TextAttribute, string>>;
+}
+
+export class ClauseExtractionError extends Error {
+  expose = true;
+
+  constructor(message: string, public statusCode: number, public code: string) {
+    super(message);
+    this.name = "ClauseExtractionError";
+  }
+}
+
+export class ClauseExtractionService {
+  constructor() {
+    jobQueue.register(EXTRACT_JOB, async ({ documentId, versionId }) => {
+      const { extraction } = await this.extract(documentId, versionId ?? null, null);
+      return { extractionId: extraction.id, clauseCount: extraction.clauseCount };
+    });
+  }
+
+  // For callers that save a new version and should not wait on extraction
+  async queueExtraction(documentId: number, versionId: number | null, options: { organizationId?: number | null; createdBy?: number | null } = {}) {
+    return await jobQueue.enqueue(EXTRACT_JOB, { documentId, versionId }, {
+      groupId: `clause-extraction-${documentId}`,
+      resourceType: "DOCUMENT",
+      resourceId: documentId,
+      ...options,
+    });
+  }
+
+  // Extracts clauses from a version, or from the latest version when none
+  // is given (the document's own content if it has no versions). Runs over
+  // unchanged text return the stored result. Only the latest version's run
+  // becomes current.
+  async extract(documentId: number, versionId: number | null | undefined, userId: number | null) {
+    const [document] = await db.select().from(documents).where(eq(documents.id, documentId));
+    if (!document) {
+      throw new ClauseExtractionError("Document not found", 404, "NOT_FOUND");
+    }
+
+    const latestId = await this.latestVersionId(documentId);
+    const targetId = versionId ?? latestId;
+    let content = document.content;
+    if (targetId !== null) {
+      const [version] = await db
+        .select()
+        .from(documentVersions)
+        .where(and(eq(documentVersions.id, targetId), eq(documentVersions.documentId, documentId)));
+      if (!version) {
+        throw new ClauseExtractionError("Document version not found", 404, "NOT_FOUND");
+      }
+      content = version.content;
+    }
+
+    const contentHash = createHash("sha256").update(content).digest("hex");
+    const isCurrent = targetId === latestId;
+
+    const result = await db.transaction(async (tx) => {
+      // Serialises runs per document so only one ends up current
+      await tx.select({ id: documents.id }).from(documents).where(eq(documents.id, documentId)).for("update");
+
+      const [existing] = await tx
+        .select()
+        .from(clauseExtractions)
+        .where(and(
+          eq(clauseExtractions.documentId, documentId),
+          this.versionCondition(targetId),
+          eq(clauseExtractions.contentHash, contentHash),
+          eq(clauseExtractions.taxonomyVersion, TAXONOMY_VERSION),
+        ))
+        .orderBy(desc(clauseExtractions.id))
+        .limit(1);
+
+      if (isCurrent) {
+        await tx
+          .update(clauseExtractions)
+          .set({ isCurrent: false })
+          .where(and(eq(clauseExtractions.documentId, documentId), eq(clauseExtractions.isCurrent, true)));
+      }
+
+      if (existing) {
+        const [extraction] = isCurrent
+          ? await tx.update(clauseExtractions).set({ isCurrent: true }).where(eq(clauseExtractions.id, existing.id)).returning()
+          : [existing];
+        return { extraction, reused: true };
+      }
+
+      const matches = extractClauses(content);
+      const [extraction] = await tx
+        .insert(clauseExtractions)
+        .values({
+          documentId,
+          versionId: targetId,
+          organizationId: document.organizationId,
+          taxonomyVersion: TAXONOMY_VERSION,
+          contentHash,
+          clauseCount: matches.length,
+          isCurrent,
+          createdBy: userId,
+        })
+        .returning();
+
+      if (matches.length) {
+        await tx.insert(extractedClauses).values(matches.map((match) => ({
+          extractionId: extraction.id,
+          documentId,
+          versionId: targetId,
+          clauseType: match.clauseType,
+          heading: match.heading,
+          text: match.text,
+          startOffset: match.startOffset,
+          endOffset: match.endOffset,
+          attributes: match.attributes,
+          confidence: match.confidence,
+        })));
+      }
+      return { extraction, reused: false };
+    });
+
+    log("Clauses extracted", {
+      documentId,
+      versionId: targetId,
+      extractionId: result.extraction.id,
+      clauses: result.extraction.clauseCount,
+      reused: result.reused,
+    });
+    return { extraction: result.extraction, clauses: await this.clausesOf(result.extraction.id) };
+  }
+
+  // The current extraction, or the newest one for a specific version
+  async getExtraction(documentId: number, versionId?: number): Promise<{ extraction: ClauseExtraction; clauses: ExtractedClause[] } | null> {
+    const [extraction] = await db
+      .select()
+      .from(clauseExtractions)
+      .where(and(
+        eq(clauseExtractions.documentId, documentId),
+        versionId ? eq(clauseExtractions.versionId, versionId) : eq(clauseExtractions.isCurrent, true),
+      ))
+      .orderBy(desc(clauseExtractions.id))
+      .limit(1);
+    return extraction ? { extraction, clauses: await this.clausesOf(extraction.id) } : null;
+  }
+
+  // Clauses from the current extraction of every document the user can see
+  async searchClauses(user: AccessUser, tenant: TenantContext, filters: ClauseSearchFilters) {
+    const attribute = (key: string) => sql`${extractedClauses.attributes} ->> ${key}`;
+    const conditions: Array<SQL | undefined> = [
+      eq(clauseExtractions.isCurrent, true),
+      organizationService.scopeFilter("documents", tenant),
+      documentAccessService.accessibleFilter(user, "DOCUMENT"),
+    ];
+    if (filters.type) conditions.push(eq(extractedClauses.clauseType, filters.type));
+    if (filters.documentId) conditions.push(eq(extractedClauses.documentId, filters.documentId));
+    for (const [key, value] of Object.entries(filters.min ?? {})) {
+      conditions.push(sql`(${attribute(key)})::numeric >= ${value}`);
+    }
+    for (const [key, value] of Object.entries(filters.max ?? {})) {
+      conditions.push(sql`(${attribute(key)})::numeric <= ${value}`);
+    }
+    for (const [key, value] of Object.entries(filters.flags ?? {})) {
+      conditions.push(sql`(${attribute(key)})::boolean = ${value}`);
+    }
+    for (const [key, value] of Object.entries(filters.text ?? {})) {
+      conditions.push(sql`${attribute(key)} ilike ${`%${value.replace(/[\\%_]/g, "\\$&")}%`}`);
+    }
+
+    return await db
+      .select({
+        clause: extractedClauses,
+        document: { id: documents.id, title: documents.title },
+      })
+      .from(extractedClauses)
+      .innerJoin(clauseExtractions, eq(extractedClauses.extractionId, clauseExtractions.id))
+      .innerJoin(documents, eq(extractedClauses.documentId, documents.id))
+      .where(and(...conditions))
+      .orderBy(asc(documents.title), asc(extractedClauses.documentId), asc(extractedClauses.startOffset))
+      .limit(SEARCH_PAGE_SIZE);
+  }
+
+  private async clausesOf(extractionId: number): Promise<ExtractedClause[]> {
+    return await db
+      .select()
+      .from(extractedClauses)
+      .where(eq(extractedClauses.extractionId, extractionId))
+      .orderBy(asc(extractedClauses.startOffset), asc(extractedClauses.id));
+  }
+
+  private async latestVersionId(documentId: number): Promise<number | null> {
+    const [latest] = await db
+      .select({ id: documentVersions.id })
+      .from(documentVersions)
+      .where(eq(documentVersions.documentId, documentId))
+      .orderBy(desc(documentVersions.id))
+      .limit(1);
+    return latest?.id ?? null;
+  }
+
+  private versionCondition(versionId: number | null): SQL {
+    return versionId === null ? isNull(clauseExtractions.versionId) : eq(clauseExtractions.versionId, versionId);
+  }
+}
+
+export const clauseExtractionService = new ClauseExtractionService();
@@ -0,0 +1,396 @@
+import { db } from "../db";
+import {
+  clauseUsageEvents,
+  FallbackPosition,
+  libraryClausePositions,
+  libraryClauses,
+  type ClauseLibraryFilters,
+  type ClauseType,
+  type CreateLibraryClause,
+  type LibraryClause,
+  type LibraryClausePosition,
+  type RecordClauseUsage,
+  type SuggestClauses,
+  type TemplateScope,
+  type UpdateLibraryClause,
+} from "@shared/schema";
+import { and, asc, eq, ilike, inArray, isNull, ne, or, sql, type SQL } from "drizzle-orm";
+import debug from "debug";
+import { extractClauses } from "./clauses";
+import { documentAccessService, normalizeRole, type AccessUser } from "./documentAccessService";
+import type { TenantContext } from "./organizationService";
+
+const log = debug("app:clause-library");
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type PositionInput = CreateLibraryClause["positions"][number];
+
+// Counterparty responses a position needs before its acceptance rate, rather
+// than the firm's ranking, orders it among alternatives at the same position
+const MIN_RESPONSES_FOR_RANKING = 5;
+
+export class ClauseLibraryError extends Error {
+  expose = true;
+
+  constructor(message: string, public statusCode: number, public code: string) {
+    super(message);
+    this.name = "ClauseLibraryError";
+  }
+}
+
+export interface ClauseUsageStats {
+  inserted: number;
+  accepted: number;
+  rejected: number;
+  // Accepted share of the responses, null until there is one
+  acceptanceRate: number | null;
+}
+
+const usageColumns = {
+  inserted: sql<number>`count(*) filter (where ${clauseUsageEvents.outcome} = 'INSERTED')::int`,
+  accepted: sql<number>`count(*) filter (where ${clauseUsageEvents.outcome} = 'ACCEPTED')::int`,
+  rejected: sql<number>`count(*) filter (where ${clauseUsageEvents.outcome} = 'REJECTED')::int`,
+};
+
+function toStats(counts: Omit<ClauseUsageStats, "acceptanceRate">): ClauseUsageStats {
+  const responses = counts.accepted + counts.rejected;
+  return { ...counts, acceptanceRate: responses ? Math.round((counts.accepted / responses) * 1000) / 1000 : null };
+}
+
+function escapeLike(value: string): string {
+  return `%${value.replace(/[\\%_]/g, "\\$&")}%`;
+}
+
+export class ClauseLibraryService {
+  // Clauses usable in a jurisdiction include those written for any
+  async list(user: AccessUser, tenant: TenantContext, filters: ClauseLibraryFilters = {}) {
+    const conditions: Array<SQL | undefined> = [this.visibleFilter(tenant)];
+    conditions.push(filters.status ? eq(libraryClauses.status, filters.status) : ne(libraryClauses.status, "RETIRED"));
+    if (filters.clauseType) conditions.push(eq(libraryClauses.clauseType, filters.clauseType));
+    if (filters.riskLevel) conditions.push(eq(libraryClauses.riskLevel, filters.riskLevel));
+    if (filters.jurisdiction) conditions.push(this.jurisdictionFilter(filters.jurisdiction));
+    if (filters.tag) conditions.push(sql`${libraryClauses.tags} @> ${JSON.stringify([filters.tag])}::jsonb`);
+    if (filters.search) {
+      const pattern = escapeLike(filters.search);
+      conditions.push(or(ilike(libraryClauses.title, pattern), ilike(libraryClauses.guidance, pattern)));
+    }
+
+    const rows = await db
+      .select()
+      .from(libraryClauses)
+      .where(and(...conditions))
+      .orderBy(asc(libraryClauses.clauseType), asc(libraryClauses.title));
+    return await this.describe(tenant, rows);
+  }
+
+  async get(user: AccessUser, tenant: TenantContext, clauseId: number) {
+    const [clause] = await this.describe(tenant, [await this.load(tenant, clauseId)]);
+    return clause;
+  }
+
+  // New clauses are drafts until an attorney approves them
+  async create(user: AccessUser, tenant: TenantContext, input: CreateLibraryClause) {
+    const scope: TemplateScope = input.scope ?? (tenant.organizationId !== null ? "ORGANIZATION" : "LIBRARY");
+    if (scope === "ORGANIZATION" && tenant.organizationId === null) {
+      throw new ClauseLibraryError("Select an organization to add a firm clause", 400, "NO_ORGANIZATION");
+    }
+    const organizationId = scope === "ORGANIZATION" ? tenant.organizationId : null;
+    this.ensureEditor(user, tenant, organizationId);
+
+    const clause = await db.transaction(async (tx) => {
+      const [row] = await tx
+        .insert(libraryClauses)
+        .values({
+          organizationId,
+          title: input.title,
+          clauseType: input.clauseType,
+          jurisdiction: input.jurisdiction,
+          riskLevel: input.riskLevel,
+          tags: input.tags,
+          guidance: input.guidance ?? null,
+          createdBy: user.id,
+        })
+        .returning();
+      await this.savePositions(tx, row.id, input.positions);
+      return row;
+    });
+
+    log("Clause created", { clauseId: clause.id, clauseType: clause.clauseType, organizationId });
+    return this.get(user, tenant, clause.id);
+  }
+
+  // Changing any position's language sends an approved clause back to draft
+  async update(user: AccessUser, tenant: TenantContext, clauseId: number, input: UpdateLibraryClause) {
+    const current = await this.load(tenant, clauseId);
+    this.ensureEditor(user, tenant, current.organizationId);
+    if (current.status === "RETIRED") {
+      throw new ClauseLibraryError("Retired clauses cannot be edited", 409, "RETIRED");
+    }
+
+    const { positions, ...fields } = input;
+    await db.transaction(async (tx) => {
+      const changed = positions ? await this.savePositions(tx, clauseId, positions) : false;
+      await tx
+        .update(libraryClauses)
+        .set({
+          ...fields,
+          ...(changed ? { status: "DRAFT" as const, approvedBy: null, approvedAt: null } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(libraryClauses.id, clauseId));
+    });
+
+    log("Clause updated", { clauseId });
+    return this.get(user, tenant, clauseId);
+  }
+
+  // Also reinstates a retired clause
+  async approve(user: AccessUser, tenant: TenantContext, clauseId: number) {
+    const current = await this.load(tenant, clauseId);
+    this.ensureEditor(user, tenant, current.organizationId);
+    if (current.status === "APPROVED") {
+      throw new ClauseLibraryError("Clause is already approved", 409, "INVALID_TRANSITION");
+    }
+
+    await db
+      .update(libraryClauses)
+      .set({ status: "APPROVED", approvedBy: user.id, approvedAt: new Date(), updatedAt: new Date() })
+      .where(eq(libraryClauses.id, clauseId));
+    log("Clause approved", { clauseId, approvedBy: user.id });
+    return this.get(user, tenant, clauseId);
+  }
+
+  // Retired clauses keep their usage history but are no longer suggested
+  async retire(user: AccessUser, tenant: TenantContext, clauseId: number) {
+    const current = await this.load(tenant, clauseId);
+    this.ensureEditor(user, tenant, current.organizationId);
+
+    await db
+      .update(libraryClauses)
+      .set({ status: "RETIRED", updatedAt: new Date() })
+      .where(eq(libraryClauses.id, clauseId));
+    log("Clause retired", { clauseId });
+    return this.get(user, tenant, clauseId);
+  }
+
+  // Approved clauses for the selected text's clause types (or the given
+  // type), jurisdiction-specific and firm clauses first. Alternatives at
+  // each position are ordered by how often the counterparty accepted them
+  // once there are enough responses to go on.
+  async suggest(user: AccessUser, tenant: TenantContext, query: SuggestClauses) {
+    const clauseTypes = query.clauseType
+      ? [query.clauseType]
+      : Array.from(new Set(extractClauses(query.text ?? "").map((match) => match.clauseType)));
+    if (!clauseTypes.length) {
+      return { clauseTypes, clauses: [] };
+    }
+
+    const rows = await db
+      .select()
+      .from(libraryClauses)
+      .where(and(
+        this.visibleFilter(tenant),
+        eq(libraryClauses.status, "APPROVED"),
+        inArray(libraryClauses.clauseType, clauseTypes),
+        query.jurisdiction ? this.jurisdictionFilter(query.jurisdiction) : undefined,
+      ));
+
+    const clauses = (await this.describe(tenant, rows, { byAcceptance: true }))
+      .sort((a, b) =>
+        Number(b.jurisdiction !== null) - Number(a.jurisdiction !== null)
+        || Number(b.organizationId !== null) - Number(a.organizationId !== null)
+        || (b.usage.acceptanceRate ?? -1) - (a.usage.acceptanceRate ?? -1)
+        || b.usage.inserted - a.usage.inserted
+        || a.title.localeCompare(b.title))
+      .slice(0, query.limit);
+    return { clauseTypes, clauses };
+  }
+
+  // The approved clause to take fallback language from: the given one when
+  // it is still approved, otherwise the top suggestion for the clause type
+  async fallbackFor(user: AccessUser, tenant: TenantContext, clauseType: ClauseType, clauseId?: number) {
+    if (clauseId) {
+      const [clause] = await db
+        .select()
+        .from(libraryClauses)
+        .where(and(eq(libraryClauses.id, clauseId), this.visibleFilter(tenant), eq(libraryClauses.status, "APPROVED")));
+      if (clause) {
+        const [described] = await this.describe(tenant, [clause], { byAcceptance: true });
+        return described;
+      }
+    }
+    const { clauses } = await this.suggest(user, tenant, { clauseType, limit: 1 });
+    return clauses[0] ?? null;
+  }
+
+  async recordUsage(user: AccessUser, tenant: TenantContext, clauseId: number, input: RecordClauseUsage) {
+    const clause = await this.load(tenant, clauseId);
+    const [position] = await db
+      .select()
+      .from(libraryClausePositions)
+      .where(and(eq(libraryClausePositions.id, input.positionId), eq(libraryClausePositions.clauseId, clause.id)));
+    if (!position) {
+      throw new ClauseLibraryError("Position not found", 404, "NOT_FOUND");
+    }
+    if (input.outcome === "INSERTED" && clause.status !== "APPROVED") {
+      throw new ClauseLibraryError("Only approved clauses can be inserted", 409, "NOT_APPROVED");
+    }
+    if (input.documentId) {
+      const document = await documentAccessService.loadResource("DOCUMENT", input.documentId);
+      if (!document || !(await documentAccessService.canAccess(user, "DOCUMENT", document, "EDIT"))) {
+        throw new ClauseLibraryError("Document not found", 404, "NOT_FOUND");
+      }
+    }
+
+    const [event] = await db
+      .insert(clauseUsageEvents)
+      .values({
+        clauseId: clause.id,
+        positionId: position.id,
+        organizationId: tenant.organizationId,
+        documentId: input.documentId ?? null,
+        userId: user.id,
+        source: input.source,
+        outcome: input.outcome,
+      })
+      .returning();
+    log("Clause usage recorded", { clauseId, positionId: position.id, outcome: input.outcome });
+    return event;
+  }
+
+  // Positions keep their id, and so their usage history, when the input
+  // names it; positions left out are removed. Returns whether any language
+  // or position changed.
+  private async savePositions(tx: Transaction, clauseId: number, positions: PositionInput[]): Promise<boolean> {
+    const existing = await tx.select().from(libraryClausePositions).where(eq(libraryClausePositions.clauseId, clauseId));
+    const byId = new Map(existing.map((position) => [position.id, position]));
+    const ranks = new Map<FallbackPosition, number>();
+    const kept = new Set<number>();
+    let changed = false;
+
+    for (const input of positions) {
+      const rank = (ranks.get(input.position) ?? 0) + 1;
+      ranks.set(input.position, rank);
+      const values = { position: input.position, rank, text: input.text, notes: input.notes ?? null };
+
+      const previous = input.id !== undefined ? byId.get(input.id) : undefined;
+      if (input.id !== undefined && (!previous || kept.has(previous.id))) {
+        throw new ClauseLibraryError(`Position ${input.id} is not part of this clause`, 400, "INVALID_POSITION");
+      }
+      if (previous) {
+        kept.add(previous.id);
+        changed ||= previous.text !== input.text || previous.position !== input.position;
+        await tx.update(libraryClausePositions).set(values).where(eq(libraryClausePositions.id, previous.id));
+      } else {
+        changed = true;
+        await tx.insert(libraryClausePositions).values({ clauseId, ...values });
+      }
+    }
+
+    const removed = existing.filter((position) => !kept.has(position.id)).map((position) => position.id);
+    if (removed.length) {
+      changed = true;
+      await tx.delete(libraryClausePositions).where(inArray(libraryClausePositions.id, removed));
+    }
+    return changed;
+  }
+
+  // Clauses with their positions and the tenant's own usage of them. A
+  // firm's acceptance rates come from its own negotiations only.
+  private async describe(tenant: TenantContext, clauses: LibraryClause[], options: { byAcceptance?: boolean } = {}) {
+    if (!clauses.length) return [];
+    const clauseIds = clauses.map((clause) => clause.id);
+
+    const positions = await db
+      .select()
+      .from(libraryClausePositions)
+      .where(inArray(libraryClausePositions.clauseId, clauseIds))
+      .orderBy(asc(libraryClausePositions.rank), asc(libraryClausePositions.id));
+
+    const usageRows = await db
+      .select({ positionId: clauseUsageEvents.positionId, ...usageColumns })
+      .from(clauseUsageEvents)
+      .where(and(
+        inArray(clauseUsageEvents.clauseId, clauseIds),
+        tenant.organizationId === null
+          ? isNull(clauseUsageEvents.organizationId)
+          : eq(clauseUsageEvents.organizationId, tenant.organizationId),
+      ))
+      .groupBy(clauseUsageEvents.positionId);
+    const usage = new Map(usageRows.map(({ positionId, ...counts }) => [positionId, toStats(counts)]));
+
+    const tier = (position: LibraryClausePosition) => FallbackPosition.options.indexOf(position.position);
+    const learnedRate = (stats: ClauseUsageStats) =>
+      options.byAcceptance && stats.accepted + stats.rejected >= MIN_RESPONSES_FOR_RANKING ? stats.acceptanceRate : null;
+
+    return clauses.map((clause) => {
+      const own = positions
+        .filter((position) => position.clauseId === clause.id)
+        .map((position) => ({ ...position, usage: usage.get(position.id) ?? toStats({ inserted: 0, accepted: 0, rejected: 0 }) }))
+        .sort((a, b) => {
+          const byTier = tier(a) - tier(b);
+          if (byTier) return byTier;
+          const rateA = learnedRate(a.usage);
+          const rateB = learnedRate(b.usage);
+          if (rateA !== null || rateB !== null) return (rateB ?? -1) - (rateA ?? -1) || a.rank - b.rank;
+          return a.rank - b.rank;
+        });
+
+      const totals = own.reduce(
+        (sum, position) => ({
+          inserted: sum.inserted + position.usage.inserted,
+          accepted: sum.accepted + position.usage.accepted,
+          rejected: sum.rejected + position.usage.rejected,
+        }),
+        { inserted: 0, accepted: 0, rejected: 0 },
+      );
+
+      return {
+        ...clause,
+        scope: (clause.organizationId === null ? "LIBRARY" : "ORGANIZATION") as TemplateScope,
+        positions: own,
+        usage: toStats(totals),
+      };
+    });
+  }
+
+  private async load(tenant: TenantContext, clauseId: number): Promise<LibraryClause> {
+    const [clause] = await db
+      .select()
+      .from(libraryClauses)
+      .where(and(eq(libraryClauses.id, clauseId), this.visibleFilter(tenant)));
+    if (!clause) {
+      throw new ClauseLibraryError("Clause not found", 404, "NOT_FOUND");
+    }
+    return clause;
+  }
+
+  private visibleFilter(tenant: TenantContext): SQL {
+    return (tenant.organizationId === null
+      ? isNull(libraryClauses.organizationId)
+      : or(isNull(libraryClauses.organizationId), eq(libraryClauses.organizationId, tenant.organizationId))) as SQL;
+  }
+
+  private jurisdictionFilter(jurisdiction: string): SQL {
+    return or(
+      isNull(libraryClauses.jurisdiction),
+      sql`lower(${libraryClauses.jurisdiction}) = lower(${jurisdiction})`,
+    ) as SQL;
+  }
+
+  // The shared library is curated by admins; a firm's staff manage its own
+  private ensureEditor(user: AccessUser, tenant: TenantContext, organizationId: number | null) {
+    const allowed = organizationId === null
+      ? normalizeRole(user.role) === "ADMIN"
+      : organizationId === tenant.organizationId;
+    if (!allowed) {
+      throw new ClauseLibraryError(
+        organizationId === null ? "Only administrators can change library clauses" : "Clause belongs to another organization",
+        403,
+        "FORBIDDEN",
+      );
+    }
+  }
+}
+
+export const clauseLibraryService = new ClauseLibraryService();
@@ -0,0 +1,280 @@
+import type { ClauseAttributes, ClauseType } from "@shared/schema";
+
+// Attribute keys that can be filtered on across the portfolio
+export const NUMERIC_ATTRIBUTES = [
+  "capAmount",
+  "capMultiplier",
+  "capLookbackMonths",
+  "noticePeriodDays",
+  "curePeriodDays",
+  "initialTermMonths",
+  "renewalTermMonths",
+  "durationMonths",
+  "paymentDays",
+  "warrantyPeriodMonths",
+  "coverageAmount",
+] as const satisfies ReadonlyArray<keyof ClauseAttributes>;
+
+export const FLAG_ATTRIBUTES = [
+  "excludesConsequentialDamages",
+  "mutual",
+  "terminationForConvenience",
+  "consentRequired",
+  "terminationRight",
+] as const satisfies ReadonlyArray<keyof ClauseAttributes>;
+
+export const TEXT_ATTRIBUTES = [
+  "capCurrency",
+  "capBasis",
+  "jurisdiction",
+  "mechanism",
+  "venue",
+  "territory",
+] as const satisfies ReadonlyArray<keyof ClauseAttributes>;
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17,
+  eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60,
+  seventy: 70, eighty: 80, ninety: 90, hundred: 100,
+};
+
+const UNIT_DAYS: Record<string, number> = { day: 1, week: 7, month: 30, year: 365 };
+const UNIT_MONTHS: Record<string, number> = { day: 1 / 30, week: 7 / 30, month: 1, year: 12 };
+
+const CURRENCIES: Record<string, string> = {
+  "$": "USD", "us$": "USD", usd: "USD", dollars: "USD",
+  "€": "EUR", eur: "EUR", euros: "EUR",
+  "£": "GBP", gbp: "GBP", pounds: "GBP",
+};
+const SCALES: Record<string, number> = { thousand: 1e3, k: 1e3, million: 1e6, m: 1e6, billion: 1e9, bn: 1e9 };
+
+interface Duration {
+  value: number;
+  unit: "day" | "week" | "month" | "year";
+  index: number;
+  length: number;
+}
+
+function wordsToNumber(words: string): number | null {
+  let total = 0;
+  for (const word of words.toLowerCase().split("-")) {
+    const value = NUMBER_WORDS[word];
+    if (value === undefined) return null;
+    total = value === 100 ? Math.max(total, 1) * 100 : total + value;
+  }
+  return total || null;
+}
+
+// "30 days", "thirty (30) days", "30 (thirty) calendar days", "one year"
+export function findDurations(text: string): Duration[] {
+  const pattern = /\b(?:(\d{1,4})(?:\s*\([a-z\s-]+\))?|([a-z]+(?:-[a-z]+)?)(?:\s*\((\d{1,4})\))?)\s+(?:(?:business|calendar|consecutive)\s+)?(day|week|month|year)s?\b/gi;
+  const durations: Duration[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const value = match[1] ? Number(match[1]) : match[3] ? Number(match[3]) : wordsToNumber(match[2]);
+    if (!value) continue;
+    durations.push({ value, unit: match[4].toLowerCase() as Duration["unit"], index: match.index, length: match[0].length });
+  }
+  return durations;
+}
+
+export function inDays(duration: Duration): number {
+  return Math.round(duration.value * UNIT_DAYS[duration.unit]);
+}
+
+export function inMonths(duration: Duration): number {
+  return Math.round(duration.value * UNIT_MONTHS[duration.unit] * 10) / 10;
+}
+
+// Characters between a duration and the closest match of `cue`
+function distanceTo(text: string, cue: RegExp, duration: Duration): number {
+  const flags = cue.flags.includes("g") ? cue.flags : `${cue.flags}g`;
+  let closest = Infinity;
+  for (const match of Array.from(text.matchAll(new RegExp(cue.source, flags)))) {
+    const end = match.index! + match[0].length;
+    const gap = end <= duration.index ? duration.index - end : Math.max(0, match.index! - (duration.index + duration.length));
+    closest = Math.min(closest, gap);
+  }
+  return closest;
+}
+
+// Labels each duration by the words around it, first label that matches
+// wins; a label is used once so "initial" and "renewal" terms stay apart.
+// With `near`, durations closest to that cue are labelled first
+export function labelDurations<K extends string>(
+  text: string,
+  labels: Array<[K, RegExp]>,
+  near?: RegExp,
+): Partial<Record<K, Duration>> {
+  const result: Partial<Record<K, Duration>> = {};
+  const durations = findDurations(text);
+  if (near) {
+    const distance = new Map(durations.map((duration) => [duration, distanceTo(text, near, duration)]));
+    durations.sort((a, b) => distance.get(a)! - distance.get(b)!);
+  }
+  for (const duration of durations) {
+    const before = text.slice(Math.max(0, duration.index - 60), duration.index);
+    const after = text.slice(duration.index + duration.length, duration.index + duration.length + 30);
+    const context = `${before.split(/[.;]\s/).pop()} ${after.split(/[.;]\s/)[0]}`;
+    const label = labels.find(([key, pattern]) => !result[key] && pattern.test(context));
+    if (label) {
+      result[label[0]] = duration;
+    }
+  }
+  return result;
+}
+
+export function findAmounts(text: string): Array<{ amount: number; currency: string; index: number }> {
+  const pattern = /(US\$|\$|€|£|\bUSD|\bEUR|\bGBP)\s?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d+))?(?:\s*(thousand|million|billion|bn|k|m)\b)?|\b(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d+))?\s*(thousand|million|billion)?\s*(USD|EUR|GBP|dollars|euros|pounds)\b/gi;
+  const amounts: Array<{ amount: number; currency: string; index: number }> = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const [symbol, whole, fraction, scale] = match[1]
+      ? [match[1], match[2], match[3], match[4]]
+      : [match[8], match[5], match[6], match[7]];
+    const amount = Number(`${whole.replace(/,/g, "")}${fraction ? `.${fraction}` : ""}`) * (scale ? SCALES[scale.toLowerCase()] : 1);
+    amounts.push({ amount, currency: CURRENCIES[symbol.toLowerCase()] ?? symbol.toUpperCase(), index: match.index });
+  }
+  return amounts;
+}
+
+// Proper-noun run after a phrase, e.g. "laws of the State of New York" -> "New York"
+function placeAfter(text: string, lead: RegExp): string | undefined {
+  const match = new RegExp(`${lead.source}\\s+(?:the\\s+)?(?:(?:State|Commonwealth|Province|Republic|Kingdom)\\s+of\\s+)?([A-Z][\\w.]*(?:,?\\s+(?:(?:and|of)\\s+)?[A-Z][\\w.]*){0,4})`).exec(text);
+  return match?.[1].split(/\.\s/)[0].replace(/[.,]$/, "");
+}
+
+function multiplier(text: string): number | undefined {
+  const times = /\b(?:(\d+(?:\.\d+)?)|([a-z]+(?:-[a-z]+)?)(?:\s*\((\d+(?:\.\d+)?)\))?)\s+times\b|\b(\d+(?:\.\d+)?)x\b/gi;
+  for (const match of Array.from(text.matchAll(times))) {
+    const digits = match[1] ?? match[3] ?? match[4];
+    const value = digits ? Number(digits) : wordsToNumber(match[2]);
+    if (value) return value;
+  }
+  const percent = /\b(\d{2,3})\s*(?:%|percent)\s+of\s+(?:the\s+)?(?:total\s+)?(?:fees|amounts)/i.exec(text);
+  return percent ? Number(percent[1]) / 100 : undefined;
+}
+
+const MUTUAL = /\beach party\b|\bmutual(?:ly)?\b|\beither party\b|\bneither party\b/i;
+const CONSENT = /\bwithout (?:the )?(?:express )?(?:prior )?(?:written )?consent\b|\bconsent of the other party\b/i;
+
+type Extractor = (text: string) => ClauseAttributes;
+
+const EXTRACTORS: Partial<Record<ClauseType, Extractor>> = {
+  LIMITATION_OF_LIABILITY: (text) => {
+    const attributes: ClauseAttributes = {};
+    const [amount] = findAmounts(text);
+    if (amount) {
+      Object.assign(attributes, { capAmount: amount.amount, capCurrency: amount.currency, capBasis: "FIXED" });
+    }
+    if (/\bfees\b.{0,40}\b(?:paid|payable)\b|\b(?:paid|payable)\b.{0,40}\bfees\b/i.test(text)) {
+      attributes.capBasis = "FEES_PAID";
+      attributes.capMultiplier = multiplier(text) ?? 1;
+      const { lookback } = labelDurations(text, [["lookback", /preceding|prior|previous|during|last|period/i]]);
+      if (lookback) attributes.capLookbackMonths = inMonths(lookback);
+    }
+    attributes.excludesConsequentialDamages =
+      /\b(?:consequential|indirect|special|punitive|incidental)\b[^.]{0,120}\bdamages\b/i.test(text)
+      && /\b(?:in no event|not be liable|shall not be liable|excluded?|disclaim)/i.test(text);
+    return attributes;
+  },
+
+  INDEMNIFICATION: (text) => {
+    const attributes: ClauseAttributes = { mutual: MUTUAL.test(text) };
+    if (/\b(?:not exceed|capped at|limited to|maximum)\b/i.test(text)) {
+      const [amount] = findAmounts(text);
+      if (amount) Object.assign(attributes, { capAmount: amount.amount, capCurrency: amount.currency });
+    }
+    return attributes;
+  },
+
+  TERMINATION: (text) => {
+    // A "Term and Termination" section also gives non-renewal notice; the
+    // termination notice is the one written next to the right to terminate
+    const { cure, notice } = labelDurations(
+      text,
+      [["cure", /\bcure|\bremed/i], ["notice", /\bnotice\b/i]],
+      /\bterminat(?:e|es|ed|ing|ion)\b/i,
+    );
+    return {
+      ...(notice ? { noticePeriodDays: inDays(notice) } : {}),
+      ...(cure ? { curePeriodDays: inDays(cure) } : {}),
+      terminationForConvenience: /\bfor (?:any reason|convenience|no reason)\b|\bwithout cause\b/i.test(text),
+    };
+  },
+
+  GOVERNING_LAW: (text) => {
+    const jurisdiction = placeAfter(text, /\blaws?\s+of/);
+    return jurisdiction ? { jurisdiction } : {};
+  },
+
+  DISPUTE_RESOLUTION: (text) => {
+    const mechanism = /\barbitrat/i.test(text) ? "ARBITRATION" : /\bmediat/i.test(text) ? "MEDIATION" : /\bcourts?\b/i.test(text) ? "LITIGATION" : undefined;
+    const venue = placeAfter(text, /\b(?:located|seated|held|sitting|venue)\s+in/) ?? placeAfter(text, /\bcourts?\s+(?:of|in)/);
+    return { ...(mechanism ? { mechanism } : {}), ...(venue ? { venue } : {}) };
+  },
+
+  ASSIGNMENT: (text) => ({
+    consentRequired: CONSENT.test(text),
+    mutual: MUTUAL.test(text),
+  }),
+
+  CHANGE_OF_CONTROL: (text) => ({
+    consentRequired: CONSENT.test(text),
+    terminationRight: /\bterminat/i.test(text),
+  }),
+
+  AUTO_RENEWAL: (text) => {
+    const { initial, renewal, notice } = labelDurations(text, [
+      ["initial", /\binitial\b/i],
+      ["notice", /\bnotice\b|\bprior to\b|\bbefore\b|\bin advance\b/i],
+      ["renewal", /\brenew|\bsuccessive\b|\badditional\b|\bextend/i],
+    ]);
+    return {
+      ...(initial ? { initialTermMonths: inMonths(initial) } : {}),
+      ...(renewal ? { renewalTermMonths: inMonths(renewal) } : {}),
+      ...(notice ? { noticePeriodDays: inDays(notice) } : {}),
+    };
+  },
+
+  NON_COMPETE: (text) => {
+    const [duration] = findDurations(text);
+    const territory = /\bwithin\s+((?:a|an|the)\s+[^.;,]{3,80})/i.exec(text)?.[1].trim();
+    return {
+      ...(duration ? { durationMonths: inMonths(duration) } : {}),
+      ...(territory ? { territory } : {}),
+    };
+  },
+
+  NON_SOLICITATION: (text) => {
+    const [duration] = findDurations(text);
+    return duration ? { durationMonths: inMonths(duration) } : {};
+  },
+
+  CONFIDENTIALITY: (text) => {
+    const { term } = labelDurations(text, [["term", /\bperiod\b|\bfor\b|\bsurviv|\bafter\b|\bfollowing\b/i]]);
+    return { mutual: MUTUAL.test(text), ...(term ? { durationMonths: inMonths(term) } : {}) };
+  },
+
+  PAYMENT_TERMS: (text) => {
+    const net = /\bnet\s*\(?(\d{1,3})\)?\b/i.exec(text);
+    if (net) return { paymentDays: Number(net[1]) };
+    const { payment } = labelDurations(text, [["payment", /\binvoice|\bpay|\bdue\b/i]]);
+    return payment ? { paymentDays: inDays(payment) } : {};
+  },
+
+  WARRANTY: (text) => {
+    const { period } = labelDurations(text, [["period", /\bperiod\b|\bfor\b|\bwithin\b|\bfollowing\b|\bafter\b/i]]);
+    return period ? { warrantyPeriodMonths: inMonths(period) } : {};
+  },
+
+  INSURANCE: (text) => {
+    const [amount] = findAmounts(text);
+    return amount ? { coverageAmount: amount.amount } : {};
+  },
+};
+
+export function extractAttributes(type: ClauseType, text: string): ClauseAttributes {
+  return EXTRACTORS[type]?.(text) ?? {};
+}
@@ -0,0 +1,134 @@
+import type { ClauseAttributes, ClauseType } from "@shared/schema";
+import type { ClausePattern } from "../rulebooks";
+import { extractAttributes } from "./attributes";
+import { segmentDocument, trimRange, type Segment } from "./segmenter";
+import { CLAUSE_TAXONOMY, type ClauseDefinition } from "./taxonomy";
+
+export { FLAG_ATTRIBUTES, NUMERIC_ATTRIBUTES, TEXT_ATTRIBUTES } from "./attributes";
+export { segmentDocument, type Segment } from "./segmenter";
+export { CLAUSE_TAXONOMY, TAXONOMY_VERSION, type ClauseDefinition } from "./taxonomy";
+
+export interface ClauseMatch {
+  clauseType: ClauseType;
+  heading: string | null;
+  text: string;
+  // Offsets into the text given to extractClauses, end exclusive
+  startOffset: number;
+  endOffset: number;
+  attributes: ClauseAttributes;
+  confidence: number;
+  // Which heading or body pattern classified the clause
+  matchedBy: string;
+}
+
+const OWN_HEADING_CONFIDENCE = 0.95;
+const PARENT_HEADING_CONFIDENCE = 0.85;
+const BODY_CONFIDENCE = 0.7;
+const EXTRA_BODY_HIT_CONFIDENCE = 0.05;
+const MAX_BODY_CONFIDENCE = 0.8;
+
+const compiled = new Map<ClausePattern, RegExp>();
+
+function toRegExp(pattern: ClausePattern): RegExp {
+  let regex = compiled.get(pattern);
+  if (!regex) {
+    regex = new RegExp(pattern.pattern, pattern.flags ?? "i");
+    compiled.set(pattern, regex);
+  }
+  return regex;
+}
+
+function firstMatch(patterns: ClausePattern[], text: string | null) {
+  if (!text) return null;
+  for (const pattern of patterns) {
+    const match = toRegExp(pattern).exec(text);
+    if (match) return { pattern, index: match.index, length: match[0].length };
+  }
+  return null;
+}
+
+// The sentence around [index, index + length) within [from, to)
+function sentenceAround(text: string, from: number, to: number, index: number, length: number): [number, number] {
+  let start = from;
+  const before = /[.!?;]\s+/g;
+  const head = text.slice(from, index);
+  for (let match = before.exec(head); match; match = before.exec(head)) {
+    start = from + match.index + match[0].length;
+  }
+
+  const after = /[.!?](?=\s|$)/.exec(text.slice(index + length, to));
+  const end = after ? index + length + after.index + 1 : to;
+  return trimRange(text, start, end);
+}
+
+function classify(text: string, segment: Segment, definition: ClauseDefinition): Omit<ClauseMatch, "text" | "attributes"> | null {
+  const base = { clauseType: definition.type, heading: segment.heading ?? segment.parentHeading };
+
+  const own = firstMatch(definition.headings, segment.heading);
+  if (own) {
+    return { ...base, startOffset: segment.start, endOffset: segment.end, confidence: OWN_HEADING_CONFIDENCE, matchedBy: own.pattern.label };
+  }
+  const parent = firstMatch(definition.headings, segment.parentHeading);
+  if (parent) {
+    return { ...base, startOffset: segment.start, endOffset: segment.end, confidence: PARENT_HEADING_CONFIDENCE, matchedBy: parent.pattern.label };
+  }
+
+  const body = text.slice(segment.bodyStart, segment.end);
+  const hit = firstMatch(definition.body, body);
+  if (!hit) return null;
+
+  const hits = definition.body.filter((pattern) => toRegExp(pattern).test(body)).length;
+  const [startOffset, endOffset] = sentenceAround(text, segment.bodyStart, segment.end, segment.bodyStart + hit.index, hit.length);
+  return {
+    ...base,
+    startOffset,
+    endOffset,
+    confidence: Math.min(BODY_CONFIDENCE + (hits - 1) * EXTRA_BODY_HIT_CONFIDENCE, MAX_BODY_CONFIDENCE),
+    matchedBy: hit.pattern.label,
+  };
+}
+
+// Neighbouring sections of one type (e.g. 12.1-12.3 under "Limitation of
+// Liability") become one clause; body hits inside a larger clause of the
+// same type are dropped
+function consolidate(text: string, matches: Array<Omit<ClauseMatch, "text" | "attributes">>) {
+  const result: typeof matches = [];
+  for (const match of [...matches].sort((a, b) => a.startOffset - b.startOffset || b.endOffset - a.endOffset)) {
+    const previous = [...result].reverse().find((candidate) => candidate.clauseType === match.clauseType);
+    if (previous && match.endOffset <= previous.endOffset) {
+      continue;
+    }
+    const adjacent = previous
+      && previous.confidence >= PARENT_HEADING_CONFIDENCE
+      && match.confidence >= PARENT_HEADING_CONFIDENCE
+      && !text.slice(previous.endOffset, match.startOffset).trim();
+    if (adjacent) {
+      previous.endOffset = match.endOffset;
+      previous.heading = previous.heading ?? match.heading;
+      continue;
+    }
+    result.push({ ...match });
+  }
+  return result;
+}
+
+// Deterministic: the same text always yields the same clauses, in document
+// order, with offsets into that text
+export function extractClauses(text: string): ClauseMatch[] {
+  const matches = segmentDocument(text)
+    .filter((segment) => segment.end > segment.bodyStart)
+    .flatMap((segment) => CLAUSE_TAXONOMY
+      .map((definition) => classify(text, segment, definition))
+      .filter((match): match is NonNullable<typeof match> => !!match));
+
+  return consolidate(text, matches)
+    .sort((a, b) => a.startOffset - b.startOffset || a.clauseType.localeCompare(b.clauseType))
+    .map((match) => {
+      const clauseText = text.slice(match.startOffset, match.endOffset);
+      return { ...match, text: clauseText, attributes: extractAttributes(match.clauseType, clauseText) };
+    });
+}
+
+export function listClauseTypes() {
+  return CLAUSE_TAXONOMY.map(({ type, label, description }) => ({ type, label, description }));
+}
@@ -0,0 +1,139 @@
+// Splits contract text into numbered or headed sections without any model
+// call, so offsets always point into the exact text that was given.
+
+export interface Segment {
+  heading: string | null;
+  // Nearest enclosing heading, for subsections that have none of their own
+  parentHeading: string | null;
+  level: number;
+  start: number;
+  end: number;
+  // Where the text after the heading begins; equals end for heading-only lines
+  bodyStart: number;
+}
+
+interface Boundary {
+  start: number;
+  heading: string | null;
+  level: number;
+  bodyStart: number;
+}
+
+// "12.", "12.1", "12.1.3", "Section 4", "Article IV:" at the start of a line
+const NUMBERED = /^(\s*)(?:(?:section|article|clause)\s+(\d+(?:\.\d+)*|[ivxlc]+)\b[.:)]?|(\d+(?:\.\d+)+)\.?|(\d+)[.)])\s+(?=\S)/i;
+const SMALL_WORDS = new Set(["of", "and", "or", "the", "in", "on", "for", "to", "a", "an", "by", "with", "&"]);
+const MAX_HEADING_CHARS = 80;
+const MAX_HEADING_WORDS = 10;
+
+// Title Case or ALL CAPS, short, and not a sentence
+function isTitle(candidate: string): boolean {
+  const text = candidate.trim().replace(/[.:]$/, "");
+  const words = text.split(/\s+/).filter(Boolean);
+  if (!words.length || words.length > MAX_HEADING_WORDS || text.length > MAX_HEADING_CHARS || !/[a-z]/i.test(text)) {
+    return false;
+  }
+  return words.every((word, index) =>
+    (index > 0 && SMALL_WORDS.has(word.toLowerCase())) || /^[^a-z]*[A-Z0-9]/.test(word));
+}
+
+function cleanHeading(heading: string): string {
+  return heading.trim().replace(/[.:]$/, "");
+}
+
+function findBoundaries(text: string): Boundary[] {
+  const boundaries: Boundary[] = [];
+  const lines = /[^\n]*(?:\n|$)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = lines.exec(text)) !== null && match[0].length) {
+    const lineStart = match.index;
+    const line = match[0].replace(/\r?\n$/, "");
+    const lineEnd = lineStart + line.length;
+
+    const numbered = NUMBERED.exec(line);
+    if (numbered) {
+      const number = numbered[2] ?? numbered[3] ?? numbered[4];
+      const level = /^\d/.test(number) ? number.split(".").length : 1;
+      const restStart = lineStart + numbered[0].length;
+      const rest = text.slice(restStart, lineEnd);
+
+      // "12. Limitation of Liability" on its own line, or inline as
+      // "12. Limitation of Liability. In no event..."
+      const inline = /^([^.:\n]{1,80})[.:]\s+(?=\S)/.exec(rest);
+      if (isTitle(rest)) {
+        boundaries.push({ start: lineStart + numbered[1].length, heading: cleanHeading(rest), level, bodyStart: lineEnd });
+      } else if (inline && isTitle(inline[1])) {
+        boundaries.push({ start: lineStart + numbered[1].length, heading: cleanHeading(inline[1]), level, bodyStart: restStart + inline[0].length });
+      } else {
+        boundaries.push({ start: lineStart + numbered[1].length, heading: null, level, bodyStart: restStart });
+      }
+      continue;
+    }
+
+    // Unnumbered heading on a line of its own
+    const trimmed = line.trim();
+    if (trimmed && isTitle(trimmed) && !/[,;]$/.test(trimmed)) {
+      boundaries.push({ start: lineStart + line.indexOf(trimmed), heading: cleanHeading(trimmed), level: 1, bodyStart: lineEnd });
+    }
+  }
+
+  return boundaries;
+}
+
+// Shrinks [start, end) so it neither starts nor ends on whitespace
+export function trimRange(text: string, start: number, end: number): [number, number] {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return [start, end];
+}
+
+function paragraphs(text: string): Segment[] {
+  const segments: Segment[] = [];
+  const blocks = /[^]*?(?:\n\s*\n|$)/g;
+  let match: RegExpExecArray | null;
+  while ((match = blocks.exec(text)) !== null && match[0].length) {
+    const [start, end] = trimRange(text, match.index, match.index + match[0].length);
+    if (end > start) {
+      segments.push({ heading: null, parentHeading: null, level: 1, start, end, bodyStart: start });
+    }
+  }
+  return segments;
+}
+
+export function segmentDocument(text: string): Segment[] {
+  const boundaries = findBoundaries(text);
+  if (!boundaries.length) {
+    return paragraphs(text);
+  }
+
+  const segments: Segment[] = [];
+  const [preambleStart, preambleEnd] = trimRange(text, 0, boundaries[0].start);
+  if (preambleEnd > preambleStart) {
+    segments.push({ heading: null, parentHeading: null, level: 0, start: preambleStart, end: preambleEnd, bodyStart: preambleStart });
+  }
+
+  const headings: Array<{ level: number; heading: string }> = [];
+  boundaries.forEach((boundary, index) => {
+    const next = boundaries[index + 1]?.start ?? text.length;
+    const [start, end] = trimRange(text, boundary.start, next);
+
+    while (headings.length && headings[headings.length - 1].level >= boundary.level) {
+      headings.pop();
+    }
+    const parentHeading = headings.length ? headings[headings.length - 1].heading : null;
+    if (boundary.heading) {
+      headings.push({ level: boundary.level, heading: boundary.heading });
+    }
+
+    segments.push({
+      heading: boundary.heading,
+      parentHeading,
+      level: boundary.level,
+      start,
+      end,
+      bodyStart: Math.min(Math.max(boundary.bodyStart, start), end),
+    });
+  });
+
+  return segments;
+}
@@ -0,0 +1,183 @@
+import type { ClauseType } from "@shared/schema";
+import type { ClausePattern } from "../rulebooks";
+
+export interface ClauseDefinition {
+  type: ClauseType;
+  label: string;
+  description: string;
+  // Matched against section headings; a hit classifies the whole section
+  headings: ClausePattern[];
+  // Matched against section text; a hit classifies the sentence it is in
+  body: ClausePattern[];
+}
+
+// Bumped whenever a definition changes what it matches, so stored
+// extractions can be told apart from ones a re-run would produce
+export const TAXONOMY_VERSION = "2024.1";
+
+export const CLAUSE_TAXONOMY: ClauseDefinition[] = [
+  {
+    type: "INDEMNIFICATION",
+    label: "Indemnification",
+    description: "Obligations to defend and hold the other party harmless against claims.",
+    headings: [{ label: "indemnity heading", pattern: "indemn" }],
+    body: [
+      { label: "indemnify and defend", pattern: "\\bindemnif(?:y|ies|ied)\\b[^.]{0,80}\\b(?:defend|hold[^.]{0,20}harmless)" },
+      { label: "hold harmless", pattern: "\\bhold\\s+(?:\\w+\\s+){0,3}harmless\\b" },
+    ],
+  },
+  {
+    type: "LIMITATION_OF_LIABILITY",
+    label: "Limitation of liability",
+    description: "Caps on liability and exclusions of indirect or consequential damages.",
+    headings: [{ label: "liability heading", pattern: "limitations? (?:of|on) liability|liability (?:cap|limitation)|exclusion of (?:certain )?damages" }],
+    body: [
+      { label: "aggregate liability", pattern: "\\b(?:aggregate|total|cumulative|maximum) liability\\b" },
+      { label: "in no event liable", pattern: "\\bin no event shall\\b[^.]{0,80}\\bliable\\b" },
+    ],
+  },
+  {
+    type: "TERMINATION",
+    label: "Termination",
+    description: "When and how either party may end the agreement.",
+    headings: [{ label: "termination heading", pattern: "terminat" }],
+    body: [
+      { label: "right to terminate", pattern: "\\b(?:may|shall have the right to|is entitled to) terminate this (?:agreement|contract)\\b" },
+    ],
+  },
+  {
+    type: "GOVERNING_LAW",
+    label: "Governing law",
+    description: "The law that governs the agreement.",
+    headings: [{ label: "governing law heading", pattern: "governing law|choice of law|applicable law" }],
+    body: [
+      { label: "governed by the laws of", pattern: "\\bgoverned by\\b[^.]{0,60}\\blaws? of\\b" },
+    ],
+  },
+  {
+    type: "DISPUTE_RESOLUTION",
+    label: "Dispute resolution",
+    description: "Arbitration, mediation, courts and venue for disputes.",
+    headings: [{ label: "dispute heading", pattern: "dispute|arbitration|jurisdiction|venue" }],
+    body: [
+      { label: "binding arbitration", pattern: "\\b(?:binding|final) arbitration\\b|\\bsettled by arbitration\\b" },
+      { label: "exclusive jurisdiction", pattern: "\\b(?:exclusive|non-exclusive) jurisdiction\\b|\\bsubmit to the (?:exclusive )?jurisdiction\\b" },
+    ],
+  },
+  {
+    type: "ASSIGNMENT",
+    label: "Assignment",
+    description: "Restrictions on transferring the agreement or rights under it.",
+    headings: [{ label: "assignment heading", pattern: "^(?:no )?assignment\\b|\\bassignment(?: and (?:subcontracting|delegation))?$" }],
+    body: [
+      { label: "may not assign", pattern: "\\b(?:may|shall) not (?:assign|transfer)\\b[^.]{0,80}\\b(?:agreement|rights|obligations)\\b" },
+    ],
+  },
+  {
+    type: "CHANGE_OF_CONTROL",
+    label: "Change of control",
+    description: "Consequences of a merger, acquisition or change in ownership.",
+    headings: [{ label: "change of control heading", pattern: "change (?:of|in) control" }],
+    body: [
+      { label: "change of control", pattern: "\\bchange (?:of|in) control\\b" },
+      { label: "sale of substantially all", pattern: "\\bsale of all or substantially all\\b" },
+    ],
+  },
+  {
+    type: "AUTO_RENEWAL",
+    label: "Auto-renewal",
+    description: "Automatic extension of the term unless notice is given.",
+    headings: [{ label: "renewal heading", pattern: "renewal" }],
+    body: [
+      { label: "automatically renew", pattern: "\\bautomatically (?:renew|extend)|\\brenew automatically\\b|\\bauto-?renew" },
+    ],
+  },
+  {
+    type: "NON_COMPETE",
+    label: "Non-compete",
+    description: "Restrictions on competing with the other party.",
+    headings: [{ label: "non-compete heading", pattern: "non-?compet|restrictive covenant|covenant not to compete" }],
+    body: [
+      { label: "shall not compete", pattern: "\\b(?:shall|will) not,?(?: directly or indirectly,)? (?:\\w+ ){0,4}compet" },
+      { label: "competing business", pattern: "\\bengage in (?:any )?(?:business|activity) (?:that )?(?:is )?competi" },
+    ],
+  },
+  {
+    type: "NON_SOLICITATION",
+    label: "Non-solicitation",
+    description: "Restrictions on soliciting the other party's employees or customers.",
+    headings: [{ label: "non-solicitation heading", pattern: "non-?solicit" }],
+    body: [
+      { label: "shall not solicit", pattern: "\\b(?:shall|will) not,?(?: directly or indirectly,)? (?:\\w+ ){0,3}solicit" },
+    ],
+  },
+  {
+    type: "CONFIDENTIALITY",
+    label: "Confidentiality",
+    description: "Duties to protect and not disclose confidential information.",
+    headings: [{ label: "confidentiality heading", pattern: "confidential|non-?disclosure" }],
+    body: [
+      { label: "hold in confidence", pattern: "\\bconfidential information\\b[^.]{0,120}\\b(?:not disclose|in (?:strict )?confidence)" },
+      { label: "keep confidential", pattern: "\\b(?:keep|hold|maintain)\\b[^.]{0,40}\\bconfiden" },
+    ],
+  },
+  {
+    type: "PAYMENT_TERMS",
+    label: "Payment terms",
+    description: "Fees, invoicing and when payment is due.",
+    headings: [{ label: "payment heading", pattern: "payment|fees|invoic|compensation" }],
+    body: [
+      { label: "net terms", pattern: "\\bnet\\s*\\(?\\d{1,3}\\)?\\b" },
+      { label: "days of invoice", pattern: "\\bdays (?:of|after|from|following) (?:receipt of |the date of )?(?:the |an |each |any )?invoice" },
+    ],
+  },
+  {
+    type: "WARRANTY",
+    label: "Warranty",
+    description: "Representations, warranties and warranty disclaimers.",
+    headings: [{ label: "warranty heading", pattern: "warrant" }],
+    body: [
+      { label: "warrants that", pattern: "\\bwarrants that\\b" },
+      { label: "warranty disclaimer", pattern: "\\bdisclaims? (?:all )?(?:other )?(?:express or implied )?warranties\\b" },
+    ],
+  },
+  {
+    type: "INTELLECTUAL_PROPERTY",
+    label: "Intellectual property",
+    description: "Ownership and licensing of intellectual property and work product.",
+    headings: [{ label: "IP heading", pattern: "intellectual property|ownership|work product|license grant|proprietary rights" }],
+    body: [
+      { label: "IP ownership", pattern: "\\bintellectual property rights?\\b[^.]{0,80}\\b(?:vest|own|retain|assign)" },
+      { label: "work made for hire", pattern: "\\bwork(?:s)? made for hire\\b" },
+    ],
+  },
+  {
+    type: "DATA_PROTECTION",
+    label: "Data protection",
+    description: "Processing and security of personal data.",
+    headings: [{ label: "data protection heading", pattern: "data (?:protection|privacy|security)|privacy|personal (?:data|information)" }],
+    body: [
+      { label: "processing personal data", pattern: "\\bpersonal (?:data|information)\\b[^.]{0,100}\\b(?:process|protect|secur)" },
+      { label: "data processing agreement", pattern: "\\bdata processing (?:agreement|addendum)\\b" },
+    ],
+  },
+  {
+    type: "INSURANCE",
+    label: "Insurance",
+    description: "Insurance each party must carry.",
+    headings: [{ label: "insurance heading", pattern: "insurance" }],
+    body: [
+      { label: "maintain insurance", pattern: "\\bmaintain\\b[^.]{0,40}\\binsurance\\b" },
+    ],
+  },
+  {
+    type: "FORCE_MAJEURE",
+    label: "Force majeure",
+    description: "Excuse from performance for events beyond a party's control.",
+    headings: [{ label: "force majeure heading", pattern: "force majeure|excused performance" }],
+    body: [
+      { label: "force majeure", pattern: "\\bforce majeure\\b" },
+      { label: "acts of god", pattern: "\\bacts? of god\\b" },
+    ],
+  },
+];
@@ -1,7 +1,21 @@
-import OpenAI from "openai";
 import { db } from "../db";
-import { complianceDocuments, complianceIssues } from '@shared/schema';
-import { eq } from 'drizzle-orm';
+import {
+  complianceAudits,
+  complianceDocuments,
+  complianceIssues,
+  type BackgroundJob,
+  type ComplianceAudit,
+  type ComplianceDocument,
+  type RiskSeverity,
+} from '@shared/schema';
+import { and, desc, eq, inArray, isNull } from 'drizzle-orm';
+import { modelRouter } from './modelRouter';
+import { jobQueue, type JobContext } from './jobQueue';
+import { monitorDocument, type ComplianceCheckResult } from './complianceMonitor';
+import { slaDueDate } from './complianceRemediationService';
+
+const AUDIT_JOB = 'compliance.audit';
+const TREND_POINTS = 10;
 
 // Enhanced logging
 function log(message: string, type: 'info' | 'error' | 'debug' = 'info', context?: any) {
@@ -9,10 +23,7 @@ function log(message: string, type: 'info' | 'error' | 'debug' = 'info', context
   console.log(`[${timestamp}] [ComplianceAudit] [${type.toUpperCase()}] ${message}`, context ? JSON.stringify(context, null, 2) : '');
 }
 
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
-interface AnalysisResult {
+export interface AnalysisResult {
   analysis: {
     summary: string;
     issues: Array<{
@@ -36,11 +47,24 @@ interface AnalysisResult {
   };
 }
 
+// Job progress doubles as a checkpoint: a retry reuses the reviews and the
+// audit row an earlier attempt finished instead of raising their issues again
+interface AuditProgress {
+  sections?: Array<{ documentId: number; title: string; issueCount: number }>;
+  results?: Record<number, { sections?: ComplianceCheckResult; audit?: AnalysisResult }>;
+  auditId?: number;
+}
+
 export class ComplianceAuditService {
   private static instance: ComplianceAuditService;
 
   private constructor() {
     log('Initializing ComplianceAuditService');
+    jobQueue.register(AUDIT_JOB, (payload, context) => this.runAuditTask(payload.documentIds, context), {
+      concurrency: 1,
+      maxAttempts: 2,
+      backoffMs: 30000
+    });
   }
 
   static getInstance(): ComplianceAuditService {
@@ -50,7 +74,7 @@ export class ComplianceAuditService {
     return ComplianceAuditService.instance;
   }
 
-  async analyzeDocument(documentId: number, content: string): Promise<void> {
+  async analyzeDocument(documentId: number, content: string): Promise<AnalysisResult> {
     try {
       log('Starting document analysis', 'info', { documentId });
 
@@ -61,12 +85,9 @@ export class ComplianceAuditService {
         .where(eq(complianceDocuments.id, documentId));
 
       // Perform the analysis using OpenAI
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content: `You are a legal compliance expert and researcher. Analyze the provided document and respond with a JSON object that includes both compliance analysis and relevant legal research. Include the following:
+      const response = await modelRouter.complete({
+        role: "structured",
+        system: `You are a legal compliance expert and researcher. Analyze the provided document and respond with a JSON object that includes both compliance analysis and relevant legal research. Include the following:
 
 1. Compliance Analysis:
 - Document summary
@@ -107,28 +128,28 @@ Respond in this format:
     "summary": "Research summary",
     "recommendations": ["Recommendation 1", "Recommendation 2"]
   }
-}`
-          },
+}`,
+        messages: [
           {
             role: "user",
             content: content
           }
         ],
         temperature: 0.3,
-        response_format: { type: "json_object" }
+        responseFormat: "json"
       });
 
-      if (!response.choices[0].message.content) {
+      if (!response.text) {
         throw new Error("No content in OpenAI response");
       }
 
       let analysisResult: AnalysisResult;
       try {
-        analysisResult = JSON.parse(response.choices[0].message.content);
+        analysisResult = JSON.parse(response.text);
         log('Successfully parsed OpenAI response', 'debug', { analysisResult });
       } catch (parseError) {
         log('Failed to parse OpenAI response', 'error', { 
-          response: response.choices[0].message.content,
+          response: response.text,
           error: parseError 
         });
         throw new Error("Failed to parse analysis results");
@@ -157,6 +178,7 @@ Respond in this format:
           status: "OPEN",
           clause: 'General',
           riskAssessmentId: 0,
+          dueDate: slaDueDate(issue.severity),
           createdAt: new Date(),
           updatedAt: new Date()
         }));
@@ -167,6 +189,7 @@ Respond in this format:
       });
 
       log('Document analysis completed', 'info', { documentId });
+      return analysisResult;
 
     } catch (error) {
       log('Document analysis failed', 'error', { documentId, error });
@@ -231,6 +254,214 @@ Respond in this format:
         };
     }
   }
+
+  // Audits a set of compliance documents in the background. The returned job
+  // ID is the task ID clients poll for progress and the final report.
+  async createAuditTask(documentIds: number[], userId: number, organizationId: number | null): Promise<BackgroundJob> {
+    return await jobQueue.enqueue(AUDIT_JOB, { documentIds }, {
+      resourceType: 'COMPLIANCE_DOCUMENT',
+      resourceId: documentIds.join(','),
+      createdBy: userId,
+      organizationId
+    });
+  }
+
+  async getAuditTask(taskId: number): Promise<BackgroundJob | null> {
+    const job = await jobQueue.get(taskId);
+    return job?.type === AUDIT_JOB ? job : null;
+  }
+
+  async getAudit(auditId: number): Promise<ComplianceAudit | undefined> {
+    const [audit] = await db.select().from(complianceAudits).where(eq(complianceAudits.id, auditId));
+    return audit;
+  }
+
+  // Shape polled by the compliance auditing page: progress while the job is
+  // queued or running, the merged report once it has completed
+  async describeAuditTask(job: BackgroundJob) {
+    const taskId = String(job.id);
+    const progress = (job.progress ?? {}) as Record<string, any>;
+
+    if (job.status === 'DEAD_LETTER') {
+      return { taskId, status: 'error' as const, error: job.lastError ?? 'Audit failed' };
+    }
+    if (job.status !== 'COMPLETED') {
+      return {
+        taskId,
+        status: 'processing' as const,
+        progress: progress.percent ?? 0,
+        stage: progress.stage,
+        sections: progress.sections ?? []
+      };
+    }
+
+    const audit = await this.getAudit((job.result as { auditId: number }).auditId);
+    if (!audit) {
+      return { taskId, status: 'error' as const, error: 'Audit report no longer exists' };
+    }
+    const { legalResearch, ...data } = audit.combinedReport as Record<string, any>;
+    return { taskId, status: 'completed' as const, progress: 100, auditId: audit.id, data, legalResearch };
+  }
+
+  // Each document gets the per-section review from the compliance monitor and
+  // the whole-document review from analyzeDocument; both are kept in the audit
+  // row as they came back, next to the merged report
+  private async runAuditTask(documentIds: number[], context: JobContext) {
+    const checkpoint = (context.job.progress ?? {}) as AuditProgress;
+    if (checkpoint.auditId) {
+      log('Audit already recorded by an earlier attempt', 'info', { taskId: context.job.id, auditId: checkpoint.auditId });
+      return { auditId: checkpoint.auditId };
+    }
+
+    const documents = await db
+      .select()
+      .from(complianceDocuments)
+      .where(inArray(complianceDocuments.id, documentIds));
+    if (!documents.length) {
+      throw new Error('None of the documents to audit exist');
+    }
+
+    const results = checkpoint.results ?? {};
+    const sections = (checkpoint.sections ?? []).filter(section => results[section.documentId]?.sections);
+
+    // Each document counts as one step for its sections and one for the audit
+    const totalSteps = documents.length * 2;
+    let completedSteps = 0;
+    const report = (stage: string, documentId?: number, sectionProgress?: { index: number; total: number }) => {
+      const withinDocument = sectionProgress ? (sectionProgress.index + 1) / sectionProgress.total : 0;
+      return context.reportProgress({
+        percent: Math.round(((completedSteps + withinDocument) / totalSteps) * 100),
+        stage,
+        documentId,
+        sections,
+        results
+      });
+    };
+
+    for (const document of documents) {
+      const finished = results[document.id] ?? (results[document.id] = {});
+      if (!finished.sections) {
+        await report('sections', document.id);
+        finished.sections = await monitorDocument(String(document.id), async (progress) => {
+          sections.push({ documentId: document.id, title: progress.title, issueCount: progress.issueCount });
+          await report('sections', document.id, progress);
+        });
+      }
+      completedSteps++;
+
+      if (!finished.audit) {
+        await report('audit', document.id);
+        finished.audit = await this.analyzeDocument(document.id, document.content);
+      }
+      completedSteps++;
+    }
+    await report('report');
+
+    const sectionResults = Object.fromEntries(documents.map(doc => [doc.id, results[doc.id].sections!]));
+    const auditResults = Object.fromEntries(documents.map(doc => [doc.id, results[doc.id].audit!]));
+    const combinedReport = await this.buildCombinedReport(documents, sectionResults, auditResults, context.job);
+    const [audit] = await db
+      .insert(complianceAudits)
+      .values({
+        userId: context.job.createdBy,
+        organizationId: context.job.organizationId,
+        documentText: documents.map(doc => `# ${doc.title}\n\n${doc.content}`).join('\n\n'),
+        openaiResponse: auditResults,
+        anthropicResponse: sectionResults,
+        combinedReport,
+        metadata: { documentType: 'COMPLIANCE_AUDIT', tags: documents.map(doc => doc.title) }
+      })
+      .returning();
+    await context.reportProgress({ percent: 100, stage: 'report', sections, auditId: audit.id });
+
+    log('Audit task completed', 'info', { taskId: context.job.id, auditId: audit.id, documents: documents.length });
+    return { auditId: audit.id };
+  }
+
+  private async buildCombinedReport(
+    documents: ComplianceDocument[],
+    sectionResults: Record<number, ComplianceCheckResult>,
+    auditResults: Record<number, AnalysisResult>,
+    owner: Pick<BackgroundJob, 'organizationId' | 'createdBy'>
+  ) {
+    const text = documents.map(doc => doc.content).join('\n\n');
+    const severityLevel = (severity: RiskSeverity | string): 'low' | 'medium' | 'high' =>
+      severity === 'CRITICAL' || severity === 'HIGH' || severity === 'high' ? 'high'
+        : severity === 'MEDIUM' || severity === 'medium' ? 'medium' : 'low';
+    const severityRisk = { high: 80, medium: 50, low: 20 };
+
+    const issues = documents.flatMap(doc => [
+      ...sectionResults[doc.id].issues.map((issue, index) => ({
+        id: `${doc.id}-section-${index}`,
+        description: issue.description,
+        recommendation: issue.recommendation,
+        category: issue.rulebook || issue.clause || 'General',
+        ruleId: issue.ruleId,
+        regulatoryReference: issue.reference,
+        severity: severityLevel(issue.severity),
+        riskScore: severityRisk[severityLevel(issue.severity)]
+      })),
+      ...(auditResults[doc.id].analysis.issues ?? []).map((issue, index) => ({
+        id: `${doc.id}-audit-${index}`,
+        description: issue.description,
+        recommendation: issue.recommendation,
+        category: 'General',
+        severity: severityLevel(issue.severity),
+        riskScore: severityRisk[severityLevel(issue.severity)]
+      }))
+    ]);
+
+    // Both reviews score risk 0-100; the document's score is their mean
+    const documentScores = documents.map(doc => ({
+      documentId: doc.id,
+      title: doc.title,
+      riskScore: Math.round((sectionResults[doc.id].riskScore + (auditResults[doc.id].analysis.riskScore ?? 0)) / 2),
+      status: auditResults[doc.id].analysis.complianceStatus,
+      summary: auditResults[doc.id].analysis.summary
+    }));
+    const riskScore = Math.round(documentScores.reduce((sum, doc) => sum + doc.riskScore, 0) / documentScores.length);
+
+    const frequency = new Map<string, number>();
+    issues.forEach(issue => frequency.set(issue.category, (frequency.get(issue.category) ?? 0) + 1));
+
+    const previous = await db
+      .select({ createdAt: complianceAudits.createdAt, combinedReport: complianceAudits.combinedReport })
+      .from(complianceAudits)
+      // An organization's trend spans its members; a personal one is the owner's alone
+      .where(owner.organizationId
+        ? eq(complianceAudits.organizationId, owner.organizationId)
+        : and(isNull(complianceAudits.organizationId), eq(complianceAudits.userId, owner.createdBy!)))
+      .orderBy(desc(complianceAudits.createdAt))
+      .limit(TREND_POINTS - 1);
+    const riskTrend = previous
+      .reverse()
+      .filter(audit => typeof (audit.combinedReport as any)?.riskScore === 'number')
+      .map(audit => ({ date: audit.createdAt!.toISOString(), score: (audit.combinedReport as any).riskScore as number }))
+      .concat({ date: new Date().toISOString(), score: riskScore });
+
+    const research = documents.map(doc => auditResults[doc.id].legalResearch).filter(Boolean);
+
+    return {
+      quickStats: {
+        characterCount: text.length,
+        wordCount: text.split(/\s+/).filter(Boolean).length,
+        lineCount: text.split('\n').length,
+        paragraphCount: text.split(/\n\s*\n/).filter(part => part.trim()).length
+      },
+      issues,
+      riskScore,
+      complianceScore: 100 - riskScore,
+      riskTrend,
+      issueFrequency: Array.from(frequency, ([category, count]) => ({ category, count })),
+      recommendations: Array.from(new Set(documents.flatMap(doc => auditResults[doc.id].analysis.recommendedActions ?? []))),
+      documents: documentScores,
+      legalResearch: research.length ? {
+        references: research.flatMap(item => item!.references ?? []),
+        summary: research.map(item => item!.summary).filter(Boolean).join('\n\n'),
+        recommendations: Array.from(new Set(research.flatMap(item => item!.recommendations ?? [])))
+      } : undefined
+    };
+  }
 }
 
 export const complianceAuditService = ComplianceAuditService.getInstance();
\ No newline at end of file
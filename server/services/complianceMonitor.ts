@@ -1,15 +1,20 @@
-import { Anthropic } from "@anthropic-ai/sdk";
 import { db } from "../db";
-import { eq, and, sql } from "drizzle-orm";
+import { eq, and, inArray, sql } from "drizzle-orm";
 import { complianceDocuments, complianceIssues, type ComplianceIssue, type RiskSeverity } from "@shared/schema";
 import { metricsCollector } from "./metricsCollector";
+import { modelRouter } from "./modelRouter";
+import { ACTIVE_STATUSES, slaDueDate } from "./complianceRemediationService";
+import {
+  applicableRules,
+  findMissingClauses,
+  findProhibitedClauses,
+  resolveRulebooks,
+  type RegulatoryRule,
+  type Rulebook,
+  type RuleFinding,
+} from "./rulebooks";
 import * as crypto from 'crypto';
 
-// Initialize AI clients
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
-
 // Constants for document processing
 const MAX_CHUNK_SIZE = 12000; // Tokens per chunk
 const MAX_RETRIES = 3;
@@ -21,47 +26,92 @@ function log(message: string, type: 'info' | 'error' | 'debug' = 'info', context
   console.log(`[${timestamp}] [ComplianceMonitor] [${type.toUpperCase()}] ${message}`, context ? context : '');
 }
 
-interface IssueAnalysis {
-  clause: string;
-  description: string;
-  severity: RiskSeverity;
-  recommendation: string;
-  reference?: string;
+interface RuleCheckAnalysis {
+  ruleId: string;
+  excerpt?: string;
+  explanation: string;
 }
 
+type ApplicableRule = { rulebook: Rulebook; rule: RegulatoryRule };
+
 interface DocumentSection {
   title: string;
   content: string;
   level: number;
 }
 
-async function analyzeSection(section: DocumentSection, documentId: string): Promise<ComplianceIssue[]> {
+export interface SectionProgress {
+  index: number;
+  total: number;
+  title: string;
+  issueCount: number;
+}
+
+export interface ComplianceCheckResult {
+  issues: ComplianceIssue[];
+  riskScore: number;
+  status: "COMPLIANT" | "NON_COMPLIANT" | "FLAGGED";
+  nextReviewDate: Date;
+}
+
+// Called after each section has been analyzed
+export type SectionProgressListener = (progress: SectionProgress) => void | Promise<void>;
+
+function toIssue(finding: RuleFinding, documentId: string): ComplianceIssue {
+  return {
+    id: crypto.randomUUID(),
+    documentId,
+    status: "OPEN",
+    severity: finding.rule.severity,
+    clause: finding.clause,
+    description: finding.description,
+    recommendation: finding.rule.remediation,
+    reference: finding.rule.citation,
+    ruleId: finding.rule.id,
+    rulebook: finding.rulebook.id,
+    rulebookVersion: finding.rulebook.version,
+    detectionMethod: finding.detectionMethod,
+    detectedAt: new Date().toISOString()
+  };
+}
+
+// Puts each rule's check question to the model. Only the rule IDs asked about
+// are accepted back, so the model decides whether a rule fired but never
+// what the rule, its severity or its remediation are.
+async function analyzeSection(section: DocumentSection, documentId: string, rules: ApplicableRule[]): Promise<RuleFinding[]> {
+  const checks = rules.filter(({ rule }) => rule.llmCheck);
+  if (!checks.length) {
+    return [];
+  }
+
   let retries = 0;
   while (retries < MAX_RETRIES) {
     try {
       const startTime = Date.now();
-      const response = await anthropic.messages.create({
-        model: "claude-3-sonnet-20240229",
-        max_tokens: 1000,
+      const response = await modelRouter.complete({
+        role: "analysis",
+        maxTokens: 1000,
+        temperature: 0,
         messages: [{
           role: "user",
-          content: [
-            {
-              type: "text",
-              text: `Analyze this contract section titled "${section.title}" for compliance issues. Include regulatory references where applicable. Respond in JSON format with the following structure:
+          content: `Review this contract section titled "${section.title}" against each rule below. Answer each question using only the text of this section, and report a rule only when the answer is clearly yes.
+
+Rules:
+${checks.map(({ rule }) => `- ${rule.id} (${rule.citation}): ${rule.llmCheck}`).join('\n')}
+
+Section:
+${section.content}
+
+Respond in JSON format with the following structure:
               {
-                "issues": [
+                "findings": [
                   {
-                    "clause": "string",
-                    "description": "string",
-                    "severity": "CRITICAL" | "HIGH" | "MEDIUM" | "LOW" | "INFO",
-                    "recommendation": "string",
-                    "reference": "string"
+                    "ruleId": "string",
+                    "excerpt": "string",
+                    "explanation": "string"
                   }
                 ]
               }`
-            }
-          ]
         }]
       });
 
@@ -71,10 +121,10 @@ async function analyzeSection(section: DocumentSection, documentId: string): Pro
       await metricsCollector.recordModelMetric({
         userId: 0, // System task
         taskId: crypto.randomUUID(),
-        modelUsed: "claude-3-sonnet-20240229",
+        modelUsed: response.model,
         taskType: "COMPLIANCE_CHECK",
         processingTimeMs: processingTime,
-        tokenCount: section.content.length / 4, // Rough estimate
+        tokenCount: response.usage.inputTokens + response.usage.outputTokens,
         metadata: {
           sectionTitle: section.title,
           documentId
@@ -82,25 +132,27 @@ async function analyzeSection(section: DocumentSection, documentId: string): Pro
       });
 
       // Parse the response content as JSON
-      const analysisText = response.content[0].text;
+      const analysisText = response.text;
       if (!analysisText) {
-        throw new Error("Empty response from Anthropic");
+        throw new Error("Empty response from model");
       }
 
-      const analysis = JSON.parse(analysisText) as { issues: IssueAnalysis[] };
+      const analysis = JSON.parse(analysisText) as { findings?: RuleCheckAnalysis[] };
 
-      // Transform the analysis into ComplianceIssue format
-      return analysis.issues.map((issue) => ({
-        id: crypto.randomUUID(),
-        documentId,
-        status: "OPEN",
-        severity: issue.severity,
-        clause: issue.clause,
-        description: issue.description,
-        recommendation: issue.recommendation,
-        reference: issue.reference,
-        detectedAt: new Date().toISOString()
-      }));
+      return (analysis.findings ?? []).flatMap((finding) => {
+        const check = checks.find(({ rule }) => rule.id === finding.ruleId);
+        if (!check) {
+          log(`Ignoring finding for unknown rule ${finding.ruleId}`, 'debug');
+          return [];
+        }
+        const excerpt = finding.excerpt ? ` ("${finding.excerpt}")` : '';
+        return [{
+          ...check,
+          clause: section.title,
+          description: `${check.rule.title}: ${finding.explanation}${excerpt}`,
+          detectionMethod: "LLM" as const
+        }];
+      });
 
     } catch (error) {
       retries++;
@@ -130,17 +182,26 @@ function calculateOverallRiskScore(totalScore: number, criticalIssues: number, s
   return Math.max(0, Math.min(100, score));
 }
 
-async function performComplianceCheck(documentId: string, content: string): Promise<{
-  issues: ComplianceIssue[];
-  riskScore: number;
-  status: "COMPLIANT" | "NON_COMPLIANT" | "FLAGGED";
-  nextReviewDate: Date;
-}> {
+async function performComplianceCheck(
+  documentId: string,
+  content: string,
+  rulebooks: Rulebook[],
+  onSection?: SectionProgressListener
+): Promise<ComplianceCheckResult> {
   const sections = chunkDocument(content);
+  const rules = applicableRules(rulebooks, content);
   let totalRiskScore = 0;
   let criticalIssues = 0;
   const allIssues: ComplianceIssue[] = [];
 
+  const countIssues = (issues: ComplianceIssue[]) => {
+    for (const issue of issues) {
+      if (issue.severity === "CRITICAL") criticalIssues++;
+      totalRiskScore += getIssueSeverityScore(issue.severity);
+    }
+    allIssues.push(...issues);
+  };
+
   // Record start of document processing
   const startTime = Date.now();
   await metricsCollector.recordDocumentMetric({
@@ -154,16 +215,18 @@ async function performComplianceCheck(documentId: string, content: string): Prom
     successful: true
   });
 
-  // Analyze each section
-  for (const section of sections) {
-    const issues = await analyzeSection(section, documentId);
-    allIssues.push(...issues);
+  countIssues(findMissingClauses(rules, content).map(finding => toIssue(finding, documentId)));
 
-    // Calculate risk score
-    for (const issue of issues) {
-      if (issue.severity === "CRITICAL") criticalIssues++;
-      totalRiskScore += getIssueSeverityScore(issue.severity);
-    }
+  // Analyze each section. A rule the patterns already raised for a section is
+  // not raised again by the model.
+  for (const [index, section] of Array.from(sections.entries())) {
+    const matched = findProhibitedClauses(rules, section);
+    const checked = await analyzeSection(section, documentId, rules);
+    const findings = matched.concat(checked.filter(finding => !matched.some(m => m.rule.id === finding.rule.id)));
+    const issues = findings.map(finding => toIssue(finding, documentId));
+    countIssues(issues);
+
+    await onSection?.({ index, total: sections.length, title: section.title, issueCount: issues.length });
   }
 
   const riskScore = calculateOverallRiskScore(totalRiskScore, criticalIssues, sections.length);
@@ -247,7 +310,75 @@ function chunkDocument(content: string): DocumentSection[] {
   return sections;
 }
 
-async function monitorDocument(documentId: string): Promise<void> {
+// Identifies the same finding across checks: the rule that raised it (or
+// its wording, for findings without one) in a given clause
+export function issueKey(issue: { ruleId?: string | null; description: string; clause: string }): string {
+  return `${issue.ruleId ?? issue.description}|${issue.clause}`;
+}
+
+// A finding whose key matches an unresolved issue
+// refreshes that issue, keeping its status, assignee and due date, so
+// repeated checks do not pile up duplicates
+async function recordIssues(documentId: number, issues: ComplianceIssue[]) {
+  if (!issues.length) return;
+
+  const unresolved = await db
+    .select({
+      id: complianceIssues.id,
+      ruleId: complianceIssues.ruleId,
+      description: complianceIssues.description,
+      clause: complianceIssues.clause
+    })
+    .from(complianceIssues)
+    .where(and(eq(complianceIssues.documentId, documentId), inArray(complianceIssues.status, ACTIVE_STATUSES)))
+    .orderBy(complianceIssues.id);
+  const existing = new Map<string, number[]>();
+  for (const issue of unresolved) {
+    existing.set(issueKey(issue), [...(existing.get(issueKey(issue)) ?? []), issue.id]);
+  }
+
+  const fresh: ComplianceIssue[] = [];
+  for (const issue of issues) {
+    const id = existing.get(issueKey(issue))?.shift();
+    if (id === undefined) {
+      fresh.push(issue);
+      continue;
+    }
+    await db
+      .update(complianceIssues)
+      .set({
+        description: issue.description,
+        severity: issue.severity,
+        recommendation: issue.recommendation,
+        reference: issue.reference,
+        rulebook: issue.rulebook,
+        rulebookVersion: issue.rulebookVersion,
+        detectionMethod: issue.detectionMethod,
+        updatedAt: new Date()
+      })
+      .where(eq(complianceIssues.id, id));
+  }
+
+  if (fresh.length > 0) {
+    await db.insert(complianceIssues).values(fresh.map(issue => ({
+      documentId,
+      clause: issue.clause,
+      description: issue.description,
+      severity: issue.severity,
+      recommendation: issue.recommendation,
+      reference: issue.reference,
+      status: issue.status,
+      ruleId: issue.ruleId,
+      rulebook: issue.rulebook,
+      rulebookVersion: issue.rulebookVersion,
+      detectionMethod: issue.detectionMethod,
+      dueDate: slaDueDate(issue.severity)
+    })));
+  }
+  log(`Recorded issues for document ${documentId}`, 'info', { updated: issues.length - fresh.length, created: fresh.length });
+}
+
+async function monitorDocument(documentId: string, onSection?: SectionProgressListener): Promise<ComplianceCheckResult> {
   try {
     log(`Starting compliance check for document ${documentId}`);
 
@@ -278,12 +409,11 @@ async function monitorDocument(documentId: string): Promise<void> {
     });
 
     // Perform compliance check
-    const result = await performComplianceCheck(documentId, document.content);
+    const rulebooks = resolveRulebooks(document.rulebooks);
+    log(`Checking document ${documentId} against ${rulebooks.map(rulebook => `${rulebook.id}@${rulebook.version}`).join(', ')}`);
+    const result = await performComplianceCheck(documentId, document.content, rulebooks, onSection);
 
-    // Store new issues
-    if (result.issues.length > 0) {
-      await db.insert(complianceIssues).values(result.issues);
-    }
+    await recordIssues(document.id, result.issues);
 
     // Update document status
     await db
@@ -312,6 +442,7 @@ async function monitorDocument(documentId: string): Promise<void> {
     });
 
     log(`Compliance check completed for document ${documentId}`);
+    return result;
 
   } catch (error) {
     log(`Monitoring failed for document ${documentId}:`, 'error', error);
@@ -0,0 +1,442 @@
+import path from "path";
+import fs from "fs/promises";
+import { randomUUID } from "crypto";
+import { db } from "../db";
+import {
+  complianceAlerts,
+  complianceDocuments,
+  complianceIssueComments,
+  complianceIssueEvidence,
+  complianceIssues,
+  documentVersions,
+  users,
+  type AssignComplianceIssue,
+  type ComplianceIssueRecord,
+  type ComplianceIssueStatus,
+  type RiskSeverity,
+  type UpdateComplianceIssueStatus,
+} from "@shared/schema";
+import { and, asc, desc, eq, inArray, isNotNull, isNull, lt, or, sql, type SQL } from "drizzle-orm";
+import debug from "debug";
+import { alertNotificationService } from "./alertNotificationService";
+import { documentAccessService, type AccessUser } from "./documentAccessService";
+import { organizationService, type TenantContext } from "./organizationService";
+
+const log = debug("app:compliance-remediation");
+
+const EVIDENCE_DIR = path.join(process.cwd(), "uploads", "evidence");
+const SWEEP_INTERVAL_MS = 15 * 60 * 1000;
+const ISSUE_PAGE_SIZE = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Statuses that still need work and so can breach their SLA
+export const ACTIVE_STATUSES: ComplianceIssueStatus[] = ["OPEN", "IN_PROGRESS"];
+
+// Days from detection to the remediation deadline. INFO findings have none.
+export const ISSUE_SLA_DAYS: Record<RiskSeverity, number | null> = {
+  CRITICAL: 3,
+  HIGH: 14,
+  MEDIUM: 30,
+  LOW: 90,
+  INFO: null,
+};
+
+export function slaDueDate(severity: string, detectedAt = new Date()): Date | null {
+  const days = ISSUE_SLA_DAYS[severity.toUpperCase() as RiskSeverity];
+  return days ? new Date(detectedAt.getTime() + days * DAY_MS) : null;
+}
+
+export class RemediationError extends Error {
+  expose = true;
+
+  constructor(message: string, public statusCode: number, public code: string) {
+    super(message);
+    this.name = "RemediationError";
+  }
+}
+
+export interface IssueFilters {
+  documentId?: number;
+  status?: ComplianceIssueStatus;
+  severity?: RiskSeverity;
+  assigneeId?: number;
+  breached?: boolean;
+}
+
+export interface EvidenceInput {
+  name?: string;
+  description?: string;
+  url?: string;
+  file?: { originalname: string; mimetype: string; size: number; buffer: Buffer };
+}
+
+// Per-group counts shared by the assignee and document reports
+const reportColumns = {
+  total: sql<number>`count(*)::int`,
+  open: sql<number>`count(*) filter (where ${complianceIssues.status} = 'OPEN')::int`,
+  inProgress: sql<number>`count(*) filter (where ${complianceIssues.status} = 'IN_PROGRESS')::int`,
+  resolved: sql<number>`count(*) filter (where ${complianceIssues.status} = 'RESOLVED')::int`,
+  waived: sql<number>`count(*) filter (where ${complianceIssues.status} = 'WAIVED')::int`,
+  overdue: sql<number>`count(*) filter (where ${complianceIssues.status} in ('OPEN', 'IN_PROGRESS') and ${complianceIssues.dueDate} < now())::int`,
+  slaBreaches: sql<number>`count(${complianceIssues.slaBreachedAt})::int`,
+  avgResolutionHours: sql<number | null>`round((avg(extract(epoch from ${complianceIssues.resolvedAt} - ${complianceIssues.createdAt})) filter (where ${complianceIssues.status} = 'RESOLVED') / 3600)::numeric, 1)::float`,
+};
+
+export class ComplianceRemediationService {
+  private sweepTimer?: NodeJS.Timeout;
+
+  async listIssues(user: AccessUser, tenant: TenantContext, filters: IssueFilters = {}) {
+    const conditions: Array<SQL | undefined> = [this.visibleTo(user, tenant)];
+    if (filters.documentId) conditions.push(eq(complianceIssues.documentId, filters.documentId));
+    if (filters.status) conditions.push(eq(complianceIssues.status, filters.status));
+    if (filters.severity) conditions.push(eq(complianceIssues.severity, filters.severity));
+    if (filters.assigneeId) conditions.push(eq(complianceIssues.assignedTo, String(filters.assigneeId)));
+    if (filters.breached) {
+      conditions.push(inArray(complianceIssues.status, ACTIVE_STATUSES), lt(complianceIssues.dueDate, new Date()));
+    }
+
+    const rows = await db
+      .select({ issue: complianceIssues, documentTitle: complianceDocuments.title })
+      .from(complianceIssues)
+      .innerJoin(complianceDocuments, eq(complianceIssues.documentId, complianceDocuments.id))
+      .where(and(...conditions))
+      .orderBy(sql`${complianceIssues.dueDate} asc nulls last`, desc(complianceIssues.createdAt))
+      .limit(ISSUE_PAGE_SIZE);
+
+    return rows.map(({ issue, documentTitle }) => ({ ...this.describe(issue), documentTitle }));
+  }
+
+  async getIssueDetail(user: AccessUser, issueId: number) {
+    const { issue, document } = await this.loadIssue(user, issueId, "VIEW");
+
+    const comments = await db
+      .select({
+        id: complianceIssueComments.id,
+        body: complianceIssueComments.body,
+        createdAt: complianceIssueComments.createdAt,
+        author: { id: users.id, username: users.username },
+      })
+      .from(complianceIssueComments)
+      .leftJoin(users, eq(complianceIssueComments.userId, users.id))
+      .where(eq(complianceIssueComments.issueId, issueId))
+      .orderBy(asc(complianceIssueComments.createdAt), asc(complianceIssueComments.id));
+
+    const evidence = await db
+      .select()
+      .from(complianceIssueEvidence)
+      .where(eq(complianceIssueEvidence.issueId, issueId))
+      .orderBy(asc(complianceIssueEvidence.createdAt));
+
+    return {
+      ...this.describe(issue),
+      document: { id: document.id, title: document.title },
+      comments,
+      evidence: evidence.map(({ filePath, ...item }) => ({ ...item, hasFile: !!filePath })),
+    };
+  }
+
+  // Without a due date the SLA deadline stands; an explicit one re-arms
+  // breach detection
+  async assign(user: AccessUser, issueId: number, input: AssignComplianceIssue) {
+    const { issue, document } = await this.loadIssue(user, issueId, "EDIT", { allowAssignee: false });
+
+    if (input.assigneeId !== null) {
+      const [assignee] = await db.select({ id: users.id }).from(users).where(eq(users.id, input.assigneeId));
+      const isMember = document.organizationId === null
+        || !!(await organizationService.getMembership(document.organizationId, input.assigneeId));
+      if (!assignee || !isMember) {
+        throw new RemediationError("Assignee not found", 400, "INVALID_ASSIGNEE");
+      }
+    }
+
+    const dueDate = input.dueDate ?? issue.dueDate ?? slaDueDate(issue.severity, issue.createdAt ?? new Date());
+    const [updated] = await db
+      .update(complianceIssues)
+      .set({
+        assignedTo: input.assigneeId === null ? null : String(input.assigneeId),
+        dueDate,
+        ...(input.dueDate ? { slaBreachedAt: null } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(complianceIssues.id, issueId))
+      .returning();
+
+    if (input.assigneeId !== null && input.assigneeId !== user.id && String(input.assigneeId) !== issue.assignedTo) {
+      await alertNotificationService.notifyUser(input.assigneeId, {
+        organizationId: document.organizationId,
+        type: "COMPLIANCE_ISSUE_ASSIGNED",
+        title: `Compliance issue assigned to you on ${document.title}`,
+        body: `${issue.clause}: ${issue.description}${dueDate ? ` Due ${dueDate.toDateString()}.` : ""}`,
+        severity: issue.severity,
+        resourceType: "COMPLIANCE_ISSUE",
+        resourceId: String(issue.id),
+      });
+    }
+
+    log("Issue assigned", { issueId, assigneeId: input.assigneeId, dueDate });
+    return this.describe(updated);
+  }
+
+  // Any status may follow any other, so closed issues can be reopened.
+  // Waiving accepts a risk, so the assignee alone cannot do it.
+  async updateStatus(user: AccessUser, issueId: number, input: UpdateComplianceIssueStatus) {
+    const { issue, document } = await this.loadIssue(user, issueId, "EDIT", { allowAssignee: input.status !== "WAIVED" });
+    if (issue.status === input.status) {
+      throw new RemediationError(`Issue is already ${input.status}`, 409, "INVALID_TRANSITION");
+    }
+    if (input.fixedInVersionId) {
+      await this.ensureVersion(user, document.sourceDocumentId, input.fixedInVersionId);
+    }
+
+    const closed = input.status === "RESOLVED" || input.status === "WAIVED";
+    const updated = await db.transaction(async (tx) => {
+      const [row] = await tx
+        .update(complianceIssues)
+        .set({
+          status: input.status,
+          waiverJustification: input.status === "WAIVED" ? input.waiverJustification : null,
+          resolvedBy: closed ? user.id : null,
+          resolvedAt: closed ? new Date() : null,
+          ...(input.fixedInVersionId ? { fixedInVersionId: input.fixedInVersionId } : {}),
+          updatedAt: new Date(),
+        })
+        .where(and(eq(complianceIssues.id, issueId), eq(complianceIssues.status, issue.status)))
+        .returning();
+      if (row && input.comment) {
+        await tx.insert(complianceIssueComments).values({ issueId, userId: user.id, body: input.comment });
+      }
+      return row;
+    });
+    if (!updated) {
+      throw new RemediationError("Issue was changed by someone else, reload and try again", 409, "CONFLICT");
+    }
+
+    log("Issue status changed", { issueId, from: issue.status, to: input.status });
+    return { previousStatus: issue.status, issue: this.describe(updated) };
+  }
+
+  async linkFixVersion(user: AccessUser, issueId: number, versionId: number) {
+    const { document } = await this.loadIssue(user, issueId, "EDIT");
+    await this.ensureVersion(user, document.sourceDocumentId, versionId);
+
+    const [updated] = await db
+      .update(complianceIssues)
+      .set({ fixedInVersionId: versionId, updatedAt: new Date() })
+      .where(eq(complianceIssues.id, issueId))
+      .returning();
+    return this.describe(updated);
+  }
+
+  async addComment(user: AccessUser, issueId: number, body: string) {
+    await this.loadIssue(user, issueId, "VIEW");
+    const [comment] = await db
+      .insert(complianceIssueComments)
+      .values({ issueId, userId: user.id, body })
+      .returning();
+    return comment;
+  }
+
+  async addEvidence(user: AccessUser, issueId: number, input: EvidenceInput) {
+    await this.loadIssue(user, issueId, "EDIT");
+    if (!input.file && !input.url) {
+      throw new RemediationError("Attach a file or give a URL", 400, "INVALID_INPUT");
+    }
+
+    let filePath: string | null = null;
+    if (input.file) {
+      await fs.mkdir(EVIDENCE_DIR, { recursive: true });
+      filePath = `${randomUUID()}${path.extname(input.file.originalname).replace(/[^a-zA-Z0-9.]/g, "")}`;
+      await fs.writeFile(path.join(EVIDENCE_DIR, filePath), input.file.buffer);
+    }
+
+    try {
+      const [evidence] = await db
+        .insert(complianceIssueEvidence)
+        .values({
+          issueId,
+          uploadedBy: user.id,
+          name: input.name ?? input.file?.originalname ?? input.url!,
+          description: input.description ?? null,
+          url: input.file ? null : input.url!,
+          filePath,
+          mimeType: input.file?.mimetype ?? null,
+          fileSize: input.file?.size ?? null,
+        })
+        .returning();
+
+      const { filePath: _stored, ...rest } = evidence;
+      return { ...rest, hasFile: !!filePath };
+    } catch (error) {
+      if (filePath) {
+        await fs.unlink(path.join(EVIDENCE_DIR, filePath)).catch(() => {});
+      }
+      throw error;
+    }
+  }
+
+  async getEvidenceFile(user: AccessUser, issueId: number, evidenceId: number) {
+    await this.loadIssue(user, issueId, "VIEW");
+    const [evidence] = await db
+      .select()
+      .from(complianceIssueEvidence)
+      .where(and(eq(complianceIssueEvidence.id, evidenceId), eq(complianceIssueEvidence.issueId, issueId)));
+    if (!evidence?.filePath) {
+      throw new RemediationError("Evidence file not found", 404, "NOT_FOUND");
+    }
+
+    const content = await fs.readFile(path.join(EVIDENCE_DIR, evidence.filePath));
+    return { evidence, content };
+  }
+
+  async assigneeReport(user: AccessUser, tenant: TenantContext) {
+    return await db
+      .select({
+        assigneeId: complianceIssues.assignedTo,
+        username: users.username,
+        ...reportColumns,
+      })
+      .from(complianceIssues)
+      .innerJoin(complianceDocuments, eq(complianceIssues.documentId, complianceDocuments.id))
+      .leftJoin(users, sql`${users.id}::text = ${complianceIssues.assignedTo}`)
+      .where(this.visibleTo(user, tenant))
+      .groupBy(complianceIssues.assignedTo, users.username)
+      .orderBy(desc(reportColumns.overdue), desc(reportColumns.total));
+  }
+
+  async documentReport(user: AccessUser, tenant: TenantContext) {
+    return await db
+      .select({
+        documentId: complianceDocuments.id,
+        title: complianceDocuments.title,
+        ...reportColumns,
+      })
+      .from(complianceIssues)
+      .innerJoin(complianceDocuments, eq(complianceIssues.documentId, complianceDocuments.id))
+      .where(this.visibleTo(user, tenant))
+      .groupBy(complianceDocuments.id, complianceDocuments.title)
+      .orderBy(desc(reportColumns.overdue), desc(reportColumns.total));
+  }
+
+  startScheduler(intervalMs = SWEEP_INTERVAL_MS): void {
+    if (this.sweepTimer) return;
+    log("Starting SLA sweep", { intervalMs });
+
+    const sweep = () => {
+      this.checkSlaBreaches().catch(error => {
+        log("SLA sweep failed", error);
+      });
+    };
+    sweep();
+    this.sweepTimer = setInterval(sweep, intervalMs);
+    this.sweepTimer.unref();
+  }
+
+  stopScheduler(): void {
+    clearInterval(this.sweepTimer);
+    this.sweepTimer = undefined;
+  }
+
+  // Gives undated issues their SLA deadline, then marks issues still active
+  // past it. The conditional update claims each breach once, so concurrent
+  // sweepers raise a single alert per issue.
+  async checkSlaBreaches(): Promise<number> {
+    for (const [severity, days] of Object.entries(ISSUE_SLA_DAYS)) {
+      if (!days) continue;
+      await db
+        .update(complianceIssues)
+        .set({ dueDate: sql`${complianceIssues.createdAt} + make_interval(days => ${days})` })
+        .where(and(
+          eq(complianceIssues.severity, severity),
+          inArray(complianceIssues.status, ACTIVE_STATUSES),
+          isNull(complianceIssues.dueDate),
+          isNotNull(complianceIssues.createdAt),
+        ));
+    }
+
+    const breached = await db
+      .update(complianceIssues)
+      .set({ slaBreachedAt: new Date() })
+      .where(and(
+        inArray(complianceIssues.status, ACTIVE_STATUSES),
+        lt(complianceIssues.dueDate, new Date()),
+        isNull(complianceIssues.slaBreachedAt),
+      ))
+      .returning();
+    if (!breached.length) {
+      return 0;
+    }
+
+    const alerts = await db
+      .insert(complianceAlerts)
+      .values(breached.map(issue => ({
+        documentId: issue.documentId,
+        severity: issue.severity,
+        message: `Remediation SLA breached for issue #${issue.id} (${issue.clause}): due ${issue.dueDate!.toDateString()}, still ${issue.status}.`,
+        status: "PENDING",
+        assignedTo: issue.assignedTo ? parseInt(issue.assignedTo) : null,
+      })))
+      .returning();
+    await alertNotificationService.alertsRaised(alerts);
+
+    log("SLA breaches raised", { issues: breached.map(issue => issue.id) });
+    return breached.length;
+  }
+
+  private describe(issue: ComplianceIssueRecord) {
+    const active = ACTIVE_STATUSES.includes(issue.status as ComplianceIssueStatus);
+    return {
+      ...issue,
+      slaDays: ISSUE_SLA_DAYS[issue.severity as RiskSeverity] ?? null,
+      overdue: active && !!issue.dueDate && issue.dueDate.getTime() < Date.now(),
+    };
+  }
+
+  // Issues follow their document's access; the assignee may also work on
+  // an issue they could otherwise only view
+  private async loadIssue(
+    user: AccessUser,
+    issueId: number,
+    permission: "VIEW" | "EDIT",
+    { allowAssignee = true } = {},
+  ) {
+    const [issue] = await db.select().from(complianceIssues).where(eq(complianceIssues.id, issueId));
+    const document = issue && await documentAccessService.loadResource("COMPLIANCE_DOCUMENT", issue.documentId);
+    const isAssignee = issue?.assignedTo === String(user.id);
+    if (!issue || !document
+      || (!isAssignee && !(await documentAccessService.canAccess(user, "COMPLIANCE_DOCUMENT", document, "VIEW")))) {
+      throw new RemediationError("Compliance issue not found", 404, "NOT_FOUND");
+    }
+
+    if (permission === "EDIT"
+      && !(allowAssignee && isAssignee)
+      && !(await documentAccessService.canAccess(user, "COMPLIANCE_DOCUMENT", document, "EDIT"))) {
+      throw new RemediationError("You cannot change this issue", 403, "FORBIDDEN");
+    }
+
+    return { issue, document };
+  }
+
+  // The fix must be a version of the contract the compliance document was
+  // audited from
+  private async ensureVersion(user: AccessUser, contractId: number | null, versionId: number) {
+    const [version] = await db.select().from(documentVersions).where(eq(documentVersions.id, versionId));
+    const document = version && await documentAccessService.loadResource("DOCUMENT", version.documentId);
+    if (!version || !document || !(await documentAccessService.canAccess(user, "DOCUMENT", document, "VIEW"))) {
+      throw new RemediationError("Document version not found", 400, "INVALID_VERSION");
+    }
+    if (version.documentId !== contractId) {
+      throw new RemediationError("That version belongs to a different document than this issue", 400, "INVALID_VERSION");
+    }
+  }
+
+  // Issues on documents the user can see, plus any assigned to them
+  private visibleTo(user: AccessUser, tenant: TenantContext): SQL | undefined {
+    const accessible = documentAccessService.accessibleFilter(user, "COMPLIANCE_DOCUMENT");
+    return and(
+      organizationService.scopeFilter("complianceDocuments", tenant),
+      accessible && or(accessible, eq(complianceIssues.assignedTo, String(user.id))),
+    );
+  }
+}
+
+export const complianceRemediationService = new ComplianceRemediationService();
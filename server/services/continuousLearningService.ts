@@ -1,4 +1,3 @@
-import OpenAI from "openai";
 import { db } from '../db';
 import { 
   regulatoryUpdates, 
@@ -9,15 +8,13 @@ import {
 } from '@shared/schema';
 import { eq, and, lte, sql } from 'drizzle-orm';
 import { chromaStore } from './chromaStore';
+import { modelRouter } from './modelRouter';
 
 function log(message: string, type: 'info' | 'error' | 'debug' = 'info', context?: any) {
   const timestamp = new Date().toISOString();
   console.log(`[${timestamp}] [ContinuousLearning] [${type.toUpperCase()}] ${message}`, context ? JSON.stringify(context, null, 2) : '');
 }
 
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
 export class ContinuousLearningService {
   private static instance: ContinuousLearningService;
   private updateInterval: NodeJS.Timeout | null = null;
@@ -203,13 +200,10 @@ export class ContinuousLearningService {
     try {
       const modelUpdates = [];
 
-      const analysisResponse = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const analysisResponse = await modelRouter.complete({
+        role: "structured",
+        system: "You will analyze legal updates and provide model parameter adjustments in JSON format. Response must be valid JSON with a 'modelUpdates' array containing objects with 'model', 'parameters', and 'confidence' fields.",
         messages: [
-          {
-            role: "system",
-            content: "You will analyze legal updates and provide model parameter adjustments in JSON format. Response must be valid JSON with a 'modelUpdates' array containing objects with 'model', 'parameters', and 'confidence' fields."
-          },
           {
             role: "user",
             content: `Please analyze these legal updates and provide JSON output: ${JSON.stringify({
@@ -221,14 +215,14 @@ export class ContinuousLearningService {
             })}`
           }
         ],
-        response_format: { type: "json_object" }
+        responseFormat: "json"
       });
 
-      if (!analysisResponse.choices[0].message.content) {
+      if (!analysisResponse.text) {
         throw new Error("No content in OpenAI response");
       }
 
-      const analysis = JSON.parse(analysisResponse.choices[0].message.content);
+      const analysis = JSON.parse(analysisResponse.text);
 
       if (!analysis.modelUpdates || !Array.isArray(analysis.modelUpdates)) {
         throw new Error("Invalid model updates format in response");
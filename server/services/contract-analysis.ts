@@ -1,13 +1,6 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { z } from 'zod';
 import { ClauseAnalysis, ClauseRiskLevel } from '@shared/schema';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
-
-// the newest Anthropic model is "claude-3-5-sonnet-20241022" which was released October 22, 2024
-const MODEL = 'claude-3-5-sonnet-20241022';
+import { modelRouter } from './modelRouter';
 
 const clauseAnalysisSchema = z.object({
   clauses: z.array(z.object({
@@ -71,16 +64,14 @@ Additional context:
 Industry: ${context?.industry || 'Not specified'}
 Jurisdiction: ${context?.jurisdiction || 'Not specified'}`;
 
-    const response = await anthropic.messages.create({
-      model: MODEL,
-      max_tokens: 4000,
+    const response = await modelRouter.complete({
+      role: "analysis",
+      maxTokens: 4000,
       messages: [{ role: 'user', content: prompt }],
     });
 
     // Access the content directly from the response
-    const messageContent = response.content[0].type === 'text' 
-      ? response.content[0].text
-      : '';
+    const messageContent = response.text;
 
     const analysis = JSON.parse(messageContent);
     const validatedAnalysis = clauseAnalysisSchema.parse(analysis);
@@ -135,15 +126,13 @@ Format response as JSON:
   ]
 }`;
 
-    const response = await anthropic.messages.create({
-      model: MODEL,
-      max_tokens: 2000,
+    const response = await modelRouter.complete({
+      role: "analysis",
+      maxTokens: 2000,
       messages: [{ role: 'user', content: prompt }],
     });
 
-    const messageContent = response.content[0].type === 'text' 
-      ? response.content[0].text
-      : '';
+    const messageContent = response.text;
 
     return JSON.parse(messageContent);
   } catch (error) {
@@ -1,18 +1,18 @@
-import { openai } from "../openai";
-import { db } from "../db";
-import { contractTemplates } from "@shared/schema";
-import { eq } from "drizzle-orm";
 import * as fs from "fs";
 import * as path from "path";
 import PDFNet from '@pdftron/pdfnet-node';
-
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+import { modelRouter } from "./modelRouter";
+import { templateLibraryService, TemplateLibraryError } from "./templateLibraryService";
+import { renderTemplate } from "./templates";
 
 interface GenerateContractConfig {
   templateId: string;
-  variables: Record<string, string>;
+  // Keyed by variable name; typed values (dates, parties, lists) as JSON
+  variables: Record<string, unknown>;
   customClauses?: string[];
   aiAssistance?: boolean;
+  // Also finds this firm's private templates
+  organizationId?: number | null;
 }
 
 export interface FieldSuggestion {
@@ -102,97 +102,58 @@ function formatTemplateText(text: string): string {
     .trim();
 }
 
-export async function generateContract(config: GenerateContractConfig) {
-  try {
-    const { templateId, variables, customClauses, aiAssistance = true } = config;
+// Adds requested clauses after a rendered contract under ADDITIONAL TERMS.
+// With AI assistance they are drafted in the contract's style; the rendered
+// body is never rewritten.
+export async function appendClauses(content: string, requested: string[], aiAssistance = true): Promise<string> {
+  const clauses = requested.map((clause) => clause.trim()).filter(Boolean);
+  if (!clauses.length) {
+    return content;
+  }
 
-    // Get template from database
-    const [template] = await db
-      .select()
-      .from(contractTemplates)
-      .where(eq(contractTemplates.id, parseInt(templateId)));
+  const numbered = clauses.map((clause, index) => `${index + 1}. ${clause}`);
+  let additionalTerms = numbered.join("\n\n");
+  if (aiAssistance) {
+    const response = await modelRouter.complete({
+      role: "drafting",
+      system: "You are an expert legal drafter. You write additional contract clauses that fit an existing agreement.",
+      messages: [
+        {
+          role: "user",
+          content: `Draft the following additional clauses for the agreement below. Match its defined terms, party names and tone.
 
-    if (!template) {
-      throw new Error("Template not found");
-    }
+Clauses to draft:
+${numbered.join("\n")}
 
-    let content = template.content;
+Agreement:
+${content}
 
-    // Replace variables in the template
-    Object.entries(variables).forEach(([key, value]) => {
-      content = content.replace(new RegExp(`\\[${key}\\]`, "g"), value);
+Return only the numbered clauses, one per requested clause, in the same order. Do not repeat or change any part of the agreement.`
+        }
+      ],
+      temperature: 0.3,
+      maxTokens: 2000
     });
+    additionalTerms = response.text?.trim() || additionalTerms;
+  }
 
-    // If AI assistance is enabled, use GPT-4o to enhance the contract
-    if (aiAssistance) {
-      const prompt = `As a legal contract expert, please review and enhance this contract while maintaining its legal validity:
-
-      ${content}
-
-      Additional clauses to consider: ${customClauses?.join("\n") || "None"}
-
-      Please analyze the contract for:
-      1. Legal completeness and validity
-      2. Clarity and readability
-      3. Potential risks or ambiguities
-      4. Compliance with standard legal practices
-
-      Return the enhanced contract text while maintaining proper formatting and incorporating the suggested improvements.`;
-
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content: "You are an expert legal contract analyst specializing in contract optimization and risk assessment."
-          },
-          { 
-            role: "user", 
-            content: prompt 
-          }
-        ],
-        temperature: 0.3,
-        max_tokens: 4000
-      });
-
-      content = response.choices[0].message.content || content;
-
-      // Get additional analysis and metadata
-      const analysisPrompt = `Please analyze this contract and provide a JSON response with the following metadata:
-      {
-        "complexity": "LOW"|"MEDIUM"|"HIGH",
-        "estimatedTime": string (e.g. "30 minutes"),
-        "riskAreas": string[],
-        "recommendations": string[],
-        "industryContext": string,
-        "complianceNotes": string[]
-      }`;
-
-      const analysisResponse = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content: "You are a legal contract analysis expert providing structured metadata about contracts."
-          },
-          {
-            role: "user",
-            content: content + "\n\n" + analysisPrompt
-          }
-        ],
-        response_format: { type: "json_object" },
-        temperature: 0.2
-      });
-
-      const metadata = JSON.parse(analysisResponse.choices[0].message.content || "{}");
-
-      return {
-        content,
-        metadata
-      };
+  return `${content.trimEnd()}\n\nADDITIONAL TERMS\n\n${additionalTerms}\n`;
+}
+
+export async function generateContract(config: GenerateContractConfig) {
+  try {
+    const { templateId, variables, customClauses, aiAssistance = true, organizationId = null } = config;
+
+    // Generation always uses the published version
+    const template = await templateLibraryService.resolve(templateId, { organizationId });
+    if (!template) {
+      throw new TemplateLibraryError("Template not found or not published", 404, "NOT_FOUND");
     }
 
-    return { content };
+    // The template alone decides the contract text; a TemplateValueError
+    // lists every value that is missing or invalid
+    const { content } = renderTemplate(template.content, template.variables, variables);
+    return { content: await appendClauses(content, customClauses ?? [], aiAssistance), template };
   } catch (error) {
     console.error("Contract generation error:", error);
     throw error;
@@ -219,23 +180,20 @@ export async function generateTemplatePreview(category: string): Promise<string>
     - Variable placeholders in brackets
     - Professional legal language`;
 
-  const response = await openai.chat.completions.create({
-    model: "gpt-4o",
+  const response = await modelRouter.complete({
+    role: "drafting",
+    system: "You are a legal contract expert specializing in generating professional contract templates.",
     messages: [
-      {
-        role: "system",
-        content: "You are a legal contract expert specializing in generating professional contract templates."
-      },
       {
         role: "user",
         content: prompt
       }
     ],
     temperature: 0.2,
-    max_tokens: 3000
+    maxTokens: 3000
   });
 
-  return response.choices[0].message.content || "";
+  return response.text || "";
 }
 
 export async function generateSmartSuggestions(selectedText: string, contractContent: string): Promise<FieldSuggestion[]> {
@@ -252,23 +210,20 @@ export async function generateSmartSuggestions(selectedText: string, contractCon
       "description": "Description of what this field represents"
     }`;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
+    const response = await modelRouter.complete({
+      role: "structured",
+      system: "You are a legal document expert. Generate intelligent suggestions for contract field replacements.",
       messages: [
-        {
-          role: "system",
-          content: "You are a legal document expert. Generate intelligent suggestions for contract field replacements."
-        },
         {
           role: "user",
           content: prompt
         }
       ],
-      response_format: { type: "json_object" },
+      responseFormat: "json",
       temperature: 0.3
     });
 
-    const result = JSON.parse(response.choices[0].message.content || "{}");
+    const result = JSON.parse(response.text || "{}");
 
     // Add smart defaults based on field type
     if (result.fieldType === 'date' && !result.suggestions.includes(new Date().toISOString().split('T')[0])) {
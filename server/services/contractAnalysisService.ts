@@ -1,10 +1,7 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { z } from 'zod';
-
-// the newest Anthropic model is "claude-3-5-sonnet-20241022" which was released October 22, 2024
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+import { ClauseType } from '@shared/schema';
+import { modelRouter } from './modelRouter';
+import { extractClauses, segmentDocument } from './clauses';
 
 // Schema for clause analysis response
 const clauseAnalysisSchema = z.object({
@@ -19,11 +16,19 @@ const clauseAnalysisSchema = z.object({
   riskLevel: z.enum(["HIGH", "MEDIUM", "LOW"]),
   category: z.enum(["LEGAL", "COMPLIANCE", "COMMERCIAL", "TECHNICAL"]),
   impact: z.string(),
-  confidence: z.number().min(0).max(1)
+  confidence: z.number().min(0).max(1),
+  clauseTypes: z.array(ClauseType).default([])
 });
 
 export type ClauseAnalysisResult = z.infer<typeof clauseAnalysisSchema>;
 
+interface ContractClause {
+  text: string;
+  startIndex: number;
+  endIndex: number;
+  clauseTypes?: ClauseType[];
+}
+
 // Helper function to sanitize text for JSON
 function sanitizeForJson(text: string): string {
   return text
@@ -34,57 +39,26 @@ function sanitizeForJson(text: string): string {
 }
 
 export class ContractAnalysisService {
-  // Split contract into clauses using semantic analysis
-  private async splitIntoSemanticClauses(text: string): Promise<Array<{text: string, startIndex: number, endIndex: number}>> {
-    try {
-      console.log('Starting clause splitting...');
-
-      const sanitizedText = sanitizeForJson(text);
-      const prompt = `Split this contract into individual clauses. For each clause, return a JSON object with the clause text and its start/end indices. Format the output as a valid JSON array of objects with the exact keys: "text", "startIndex", "endIndex". Example format: [{"text": "clause text", "startIndex": 0, "endIndex": 100}]
-
-Contract to split:
-${sanitizedText}`;
-
-      const response = await anthropic.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 1024,
-        messages: [{ role: 'user', content: prompt }],
-        system: "You are a legal document analyzer. Split contracts into semantic clauses. Always return valid JSON arrays."
-      });
-
-      if (!response.content || response.content.length === 0) {
-        throw new Error('Empty response from Anthropic API');
-      }
-
-      const content = response.content[0];
-      if (content.type !== 'text') {
-        throw new Error('Unexpected content type in response');
-      }
-
-      // Parse and validate the response
-      let result;
-      try {
-        result = JSON.parse(content.text);
-        if (!Array.isArray(result)) {
-          throw new Error('Response is not an array');
-        }
-      } catch (parseError) {
-        console.error('JSON Parse error:', parseError);
-        console.error('Raw response:', content.text);
-        throw new Error('Invalid JSON response from API');
-      }
-
-      console.log('Successfully split contract into clauses');
-      return result;
-    } catch (error) {
-      console.error('Error in splitIntoSemanticClauses:', error);
-      throw new Error('Failed to split contract into clauses: ' + (error instanceof Error ? error.message : 'Unknown error'));
-    }
+  // Split contract into sections with the deterministic segmenter, so
+  // offsets always point into the given text, tagged with the taxonomy
+  // types extracted from each
+  private splitIntoClauses(text: string): ContractClause[] {
+    const typed = extractClauses(text);
+    return segmentDocument(text)
+      .filter(segment => segment.end > segment.bodyStart)
+      .map(segment => ({
+        text: text.slice(segment.start, segment.end),
+        startIndex: segment.start,
+        endIndex: segment.end,
+        clauseTypes: Array.from(new Set(typed
+          .filter(clause => clause.startOffset < segment.end && clause.endOffset > segment.start)
+          .map(clause => clause.clauseType)))
+      }));
   }
 
   // Analyze a single clause
   private async analyzeClause(
-    clause: { text: string; startIndex: number; endIndex: number },
+    clause: ContractClause,
     index: number
   ): Promise<ClauseAnalysisResult> {
     try {
@@ -109,29 +83,24 @@ ${sanitizedText}`;
 
 Clause to analyze: ${sanitizedText}`;
 
-      const response = await anthropic.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 1024,
+      const response = await modelRouter.complete({
+        role: "analysis",
+        maxTokens: 1024,
         messages: [{ role: 'user', content: prompt }],
         system: "You are a legal contract analysis expert. Always return valid JSON objects with the exact schema specified."
       });
 
-      if (!response.content || response.content.length === 0) {
-        throw new Error('Empty response from Anthropic API');
-      }
-
-      const content = response.content[0];
-      if (content.type !== 'text') {
-        throw new Error('Unexpected content type in response');
+      if (!response.text) {
+        throw new Error('Empty response from model');
       }
 
       // Parse and validate the response
       let result;
       try {
-        result = JSON.parse(content.text);
+        result = JSON.parse(response.text);
       } catch (parseError) {
         console.error('JSON Parse error:', parseError);
-        console.error('Raw response:', content.text);
+        console.error('Raw response:', response.text);
         throw new Error('Invalid JSON response from API');
       }
 
@@ -140,7 +109,8 @@ Clause to analyze: ${sanitizedText}`;
         ...result,
         clauseId: `clause-${index + 1}`,
         startIndex: clause.startIndex,
-        endIndex: clause.endIndex
+        endIndex: clause.endIndex,
+        clauseTypes: clause.clauseTypes ?? Array.from(new Set(extractClauses(clause.text).map(match => match.clauseType)))
       });
     } catch (error) {
       console.error(`Error analyzing clause ${index + 1}:`, error);
@@ -154,7 +124,7 @@ Clause to analyze: ${sanitizedText}`;
       console.log('Starting contract analysis...');
 
       // Split into clauses
-      const clauses = await this.splitIntoSemanticClauses(contractText);
+      const clauses = this.splitIntoClauses(contractText);
       console.log(`Split contract into ${clauses.length} clauses`);
 
       // Analyze each clause
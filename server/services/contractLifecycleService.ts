@@ -0,0 +1,299 @@
+import { EventEmitter } from "events";
+import { db } from "../db";
+import {
+  approvalRequests,
+  approvals,
+  complianceDocuments,
+  complianceIssues,
+  documents,
+  signatureEnvelopes,
+  signatures,
+  workflowEvents,
+  ContractStatus,
+  type Document,
+  type WorkflowEvent,
+} from "@shared/schema";
+import { and, asc, desc, eq, gt, inArray, ne, notInArray } from "drizzle-orm";
+import debug from "debug";
+
+const log = debug("app:contract-lifecycle");
+
+type Executor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Forward order is DRAFT -> REVIEW -> REDLINE -> APPROVAL -> SIGNATURE ->
+// COMPLETED. The backward edges send a contract back for rework.
+export const CONTRACT_TRANSITIONS: Record<ContractStatus, ContractStatus[]> = {
+  DRAFT: ["REVIEW"],
+  REVIEW: ["REDLINE", "APPROVAL", "DRAFT"],
+  REDLINE: ["REVIEW", "APPROVAL"],
+  APPROVAL: ["SIGNATURE", "REDLINE"],
+  SIGNATURE: ["COMPLETED", "REDLINE"],
+  COMPLETED: [],
+};
+
+export interface GuardContext {
+  executor: Executor;
+  document: Document;
+  from: ContractStatus;
+  to: ContractStatus;
+}
+
+// A guard returns null when the transition may proceed, otherwise the reason
+// it may not
+export interface TransitionGuard {
+  name: string;
+  check(context: GuardContext): Promise<string | null>;
+}
+
+export interface TransitionOptions {
+  actorId?: number | null;
+  reason?: string;
+  details?: Record<string, any>;
+}
+
+export class TransitionError extends Error {
+  expose = true;
+  statusCode = 409;
+
+  constructor(message: string, public code: "INVALID_TRANSITION" | "GUARD_FAILED", public failures: string[] = []) {
+    super(message);
+    this.name = "TransitionError";
+  }
+}
+
+export function contractStatusOf(document: Pick<Document, "contractStatus">): ContractStatus {
+  const parsed = ContractStatus.safeParse(document.contractStatus);
+  return parsed.success ? parsed.data : "DRAFT";
+}
+
+const hasContent: TransitionGuard = {
+  name: "has-content",
+  async check({ document }) {
+    return document.content?.trim() ? null : "Document has no content";
+  },
+};
+
+// Issues belong to compliance documents, which point back at the contract
+// they were audited from
+const noOpenCriticalIssues: TransitionGuard = {
+  name: "no-open-critical-issues",
+  async check({ executor, document }) {
+    const open = await executor
+      .select({ id: complianceIssues.id })
+      .from(complianceIssues)
+      .innerJoin(complianceDocuments, eq(complianceDocuments.id, complianceIssues.documentId))
+      .where(and(
+        eq(complianceDocuments.sourceDocumentId, document.id),
+        eq(complianceIssues.severity, "CRITICAL"),
+        notInArray(complianceIssues.status, ["RESOLVED", "WAIVED"]),
+      ));
+    return open.length ? `${open.length} critical compliance issue(s) must be resolved first` : null;
+  },
+};
+
+// Approval requests are opened by the approval service, which moves the
+// contract into APPROVAL in the same transaction
+const approvalRequested: TransitionGuard = {
+  name: "approval-requested",
+  async check({ executor, document }) {
+    const [open] = await executor
+      .select({ id: approvalRequests.id })
+      .from(approvalRequests)
+      .where(and(eq(approvalRequests.documentId, document.id), eq(approvalRequests.status, "PENDING")));
+    return open ? null : "Request approval to move the document into approval";
+  },
+};
+
+const approvalGranted: TransitionGuard = {
+  name: "approval-granted",
+  async check({ executor, document }) {
+    const [latest] = await executor
+      .select({ status: approvalRequests.status })
+      .from(approvalRequests)
+      .where(eq(approvalRequests.documentId, document.id))
+      .orderBy(desc(approvalRequests.createdAt), desc(approvalRequests.id))
+      .limit(1);
+    return latest?.status === "APPROVED" ? null : "The document has not been approved";
+  },
+};
+
+// Earlier envelopes were cancelled, declined or expired when the contract went
+// back for rework, so only the latest round of signing counts
+const signaturesCompleted: TransitionGuard = {
+  name: "signatures-completed",
+  async check({ executor, document }) {
+    const [envelope] = await executor
+      .select({ id: signatureEnvelopes.id, status: signatureEnvelopes.status })
+      .from(signatureEnvelopes)
+      .where(eq(signatureEnvelopes.documentId, document.id))
+      .orderBy(desc(signatureEnvelopes.createdAt), desc(signatureEnvelopes.id))
+      .limit(1);
+    if (!envelope) return "The document has not been sent for signature";
+
+    const unsigned = await executor
+      .select({ id: signatures.id })
+      .from(signatures)
+      .where(and(eq(signatures.envelopeId, envelope.id), ne(signatures.status, "COMPLETED")));
+    if (unsigned.length) return `${unsigned.length} signature(s) are still outstanding`;
+    return envelope.status === "COMPLETED" ? null : "The signature request has not been completed";
+  },
+};
+
+export class ContractLifecycleService {
+  private events = new EventEmitter();
+  private guards: Partial<Record<ContractStatus, TransitionGuard[]>> = {
+    REVIEW: [hasContent],
+    APPROVAL: [hasContent, noOpenCriticalIssues, approvalRequested],
+    SIGNATURE: [approvalGranted],
+    COMPLETED: [signaturesCompleted],
+  };
+
+  constructor() {
+    // One listener per open event stream
+    this.events.setMaxListeners(0);
+  }
+
+  // Guards run for every transition into the given status
+  addGuard(to: ContractStatus, guard: TransitionGuard): void {
+    this.guards[to] = [...(this.guards[to] ?? []), guard];
+  }
+
+  async evaluate(document: Document, to: ContractStatus, executor: Executor = db): Promise<string[]> {
+    const from = contractStatusOf(document);
+    if (!CONTRACT_TRANSITIONS[from].includes(to)) {
+      return [`Cannot move a contract from ${from} to ${to}`];
+    }
+
+    const results = await Promise.all(
+      (this.guards[to] ?? []).map((guard) => guard.check({ executor, document, from, to })),
+    );
+    return results.filter((failure): failure is string => !!failure);
+  }
+
+  // What the UI can offer next, with the reasons any option is blocked
+  async describe(document: Document) {
+    const from = contractStatusOf(document);
+    const transitions = await Promise.all(
+      CONTRACT_TRANSITIONS[from].map(async (to) => {
+        const failures = await this.evaluate(document, to);
+        return { to, allowed: failures.length === 0, failures };
+      }),
+    );
+    return { status: from, transitions };
+  }
+
+  async transition(documentId: number, to: ContractStatus, options: TransitionOptions = {}): Promise<WorkflowEvent> {
+    const event = await db.transaction((tx) => this.applyTransition(tx, documentId, to, options));
+    this.publish(event);
+    return event;
+  }
+
+  // For services that move a contract as part of their own transaction. The
+  // caller publishes the returned event once that transaction commits.
+  async applyTransition(
+    tx: Executor,
+    documentId: number,
+    to: ContractStatus,
+    options: TransitionOptions = {},
+  ): Promise<WorkflowEvent> {
+    const [document] = await tx.select().from(documents).where(eq(documents.id, documentId)).for("update");
+    if (!document) {
+      throw new TransitionError(`Document ${documentId} not found`, "INVALID_TRANSITION");
+    }
+
+    const from = contractStatusOf(document);
+    if (!CONTRACT_TRANSITIONS[from].includes(to)) {
+      throw new TransitionError(`Cannot move a contract from ${from} to ${to}`, "INVALID_TRANSITION");
+    }
+
+    const failures = await this.evaluate(document, to, tx);
+    if (failures.length) {
+      throw new TransitionError(`Cannot move to ${to}: ${failures.join("; ")}`, "GUARD_FAILED", failures);
+    }
+
+    const analysis = (document.analysis ?? {}) as Record<string, any>;
+    const updatedAt = new Date();
+    await tx
+      .update(documents)
+      .set({
+        contractStatus: to,
+        analysis: {
+          ...analysis,
+          contractDetails: {
+            ...analysis.contractDetails,
+            workflowState: {
+              ...analysis.contractDetails?.workflowState,
+              ...options.details,
+              status: to,
+              updatedAt: updatedAt.toISOString(),
+            },
+          },
+        },
+        updatedAt,
+      })
+      .where(eq(documents.id, documentId));
+
+    // Sent back for rework: the open approval request no longer applies
+    if (from === "APPROVAL" && to === "REDLINE") {
+      await this.cancelOpenApprovals(tx, documentId);
+    }
+
+    const [event] = await tx
+      .insert(workflowEvents)
+      .values({
+        contractId: documentId,
+        resourceType: "DOCUMENT",
+        actorId: options.actorId ?? null,
+        eventType: "TRANSITION",
+        details: { from, to, reason: options.reason, ...options.details },
+        timestamp: updatedAt,
+      })
+      .returning();
+
+    log("Contract transitioned", { documentId, from, to, actorId: options.actorId });
+    return event;
+  }
+
+  // Approvals settled by a decision are already closed; this only catches a
+  // request still waiting when the contract leaves approval
+  private async cancelOpenApprovals(tx: Executor, documentId: number): Promise<void> {
+    const cancelled = await tx
+      .update(approvalRequests)
+      .set({ status: "CANCELLED", completedAt: new Date() })
+      .where(and(eq(approvalRequests.documentId, documentId), eq(approvalRequests.status, "PENDING")))
+      .returning({ id: approvalRequests.id });
+    if (!cancelled.length) return;
+
+    const requestIds = cancelled.map((request) => request.id);
+    await tx
+      .update(approvals)
+      .set({ status: "SKIPPED", updatedAt: new Date() })
+      .where(and(inArray(approvals.requestId, requestIds), inArray(approvals.status, ["PENDING", "WAITING"])));
+    log("Open approval requests cancelled", { documentId, requestIds });
+  }
+
+  async listEvents(documentId: number, afterId = 0): Promise<WorkflowEvent[]> {
+    return await db
+      .select()
+      .from(workflowEvents)
+      .where(and(
+        eq(workflowEvents.contractId, documentId),
+        eq(workflowEvents.resourceType, "DOCUMENT"),
+        gt(workflowEvents.id, afterId),
+      ))
+      .orderBy(asc(workflowEvents.id));
+  }
+
+  publish(event: WorkflowEvent): void {
+    this.events.emit(`document:${event.contractId}`, event);
+  }
+
+  // Returns the unsubscribe function
+  subscribe(documentId: number, listener: (event: WorkflowEvent) => void): () => void {
+    const channel = `document:${documentId}`;
+    this.events.on(channel, listener);
+    return () => this.events.off(channel, listener);
+  }
+}
+
+export const contractLifecycleService = new ContractLifecycleService();
@@ -1,16 +1,7 @@
-import { Anthropic } from '@anthropic-ai/sdk';
 import { complianceDocuments, complianceIssues } from "@shared/schema";
 import { db } from "../db";
 import { eq } from "drizzle-orm";
-
-// Initialize Anthropic client
-if (!process.env.ANTHROPIC_API_KEY) {
-  throw new Error('Missing ANTHROPIC_API_KEY environment variable');
-}
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+import { modelRouter } from "./modelRouter";
 
 interface DashboardInsights {
   summary: string;
@@ -99,15 +90,12 @@ export async function generateDashboardInsights(): Promise<DashboardInsights> {
     console.log('Analysis data prepared, requesting AI insights');
 
     // Get AI-powered insights
-    const response = await anthropic.messages.create({
-      model: "claude-3-5-sonnet-20241022",
-      max_tokens: 1000,
+    const response = await modelRouter.complete({
+      role: "analysis",
+      maxTokens: 1000,
       messages: [{
         role: "user",
-        content: [
-          {
-            type: "text",
-            text: `Analyze this compliance data and generate dashboard insights:
+        content: `Analyze this compliance data and generate dashboard insights:
             ${JSON.stringify(analysisData, null, 2)}
 
             Format response as JSON with:
@@ -136,19 +124,12 @@ export async function generateDashboardInsights(): Promise<DashboardInsights> {
                 }
               ]
             }`
-          }
-        ]
       }]
     });
 
-    const content = response.content[0];
-    if (content.type !== 'text') {
-      throw new Error('Unexpected response format from Anthropic API');
-    }
-
     console.log('Received AI insights, processing response');
 
-    const insights = JSON.parse(content.text);
+    const insights = JSON.parse(response.text);
 
     // Add calculated risk distribution
     const riskDistribution = [
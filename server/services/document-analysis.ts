@@ -1,7 +1,7 @@
-import { anthropic } from "../anthropic";
 import { documentAnalysis, type DocumentAnalysis } from "@shared/schema";
 import { db } from "../db";
 import { eq } from "drizzle-orm";
+import { modelRouter } from "./modelRouter";
 
 const SYSTEM_PROMPT = `You are an expert document analyst specializing in SOC reports and compliance documentation. 
 Follow these EXACT rules when analyzing documents:
@@ -25,8 +25,8 @@ export async function analyzeDocument(documentId: number, content: string): Prom
   try {
     console.log("Starting document analysis with enhanced prompt...");
 
-    const response = await anthropic.messages.create({
-      model: "claude-3-5-sonnet-20241022",
+    const response = await modelRouter.complete({
+      role: "analysis",
       messages: [{
         role: "user",
         content: `${SYSTEM_PROMPT}\n\nAnalyze this document:\n${content.substring(0, 8000)}`
@@ -0,0 +1,148 @@
+import { db } from "../db";
+import {
+  documentAcls,
+  documents,
+  vaultDocuments,
+  complianceDocuments,
+  organizationMembers,
+  DocumentPermission,
+  UserRole,
+  type DocumentAcl,
+  type DocumentResourceType,
+} from "@shared/schema";
+import { and, eq, inArray, or, type SQL } from "drizzle-orm";
+import debug from "debug";
+
+const log = debug("app:document-access");
+
+export interface AccessUser {
+  id: number;
+  role: string;
+}
+
+type DocumentTable = typeof documents | typeof vaultDocuments | typeof complianceDocuments;
+
+const RESOURCE_TABLES: Record<DocumentResourceType, DocumentTable> = {
+  DOCUMENT: documents,
+  VAULT_DOCUMENT: vaultDocuments,
+  COMPLIANCE_DOCUMENT: complianceDocuments,
+};
+
+// Roles outside the UserRole enum (e.g. legacy "USER" accounts) get the least privilege
+export function normalizeRole(role: string | undefined | null): UserRole {
+  const parsed = UserRole.safeParse(role);
+  return parsed.success ? parsed.data : "CLIENT";
+}
+
+export class DocumentAccessService {
+  async loadResource(resourceType: DocumentResourceType, resourceId: number) {
+    const table = RESOURCE_TABLES[resourceType];
+    const [row] = await db
+      .select()
+      .from(table as typeof documents)
+      .where(eq(table.id, resourceId));
+    return row as { id: number; userId: number; organizationId: number | null; matterId: number | null }
+      & Record<string, any> | undefined;
+  }
+
+  async canAccess(
+    user: AccessUser,
+    resourceType: DocumentResourceType,
+    resource: { id: number; userId: number },
+    permission: DocumentPermission = "VIEW",
+  ): Promise<boolean> {
+    if (normalizeRole(user.role) === "ADMIN" || resource.userId === user.id) {
+      return true;
+    }
+
+    const grants = await db
+      .select()
+      .from(documentAcls)
+      .where(and(
+        eq(documentAcls.resourceType, resourceType),
+        eq(documentAcls.resourceId, resource.id),
+        this.principalCondition(user),
+      ));
+
+    const required = DocumentPermission.options.indexOf(permission);
+    const allowed = grants.some((grant) =>
+      DocumentPermission.options.indexOf(grant.permission as DocumentPermission) >= required);
+    log("Access check", { userId: user.id, resourceType, resourceId: resource.id, permission, allowed });
+    return allowed;
+  }
+
+  // WHERE condition for list queries: rows the user owns or has been granted.
+  // Admins get no condition so they see every row.
+  accessibleFilter(user: AccessUser, resourceType: DocumentResourceType): SQL | undefined {
+    if (normalizeRole(user.role) === "ADMIN") {
+      return undefined;
+    }
+
+    const table = RESOURCE_TABLES[resourceType];
+    const shared = db
+      .select({ id: documentAcls.resourceId })
+      .from(documentAcls)
+      .where(and(eq(documentAcls.resourceType, resourceType), this.principalCondition(user)));
+
+    return or(eq(table.userId, user.id), inArray(table.id, shared));
+  }
+
+  async listGrants(resourceType: DocumentResourceType, resourceId: number): Promise<DocumentAcl[]> {
+    return await db
+      .select()
+      .from(documentAcls)
+      .where(and(eq(documentAcls.resourceType, resourceType), eq(documentAcls.resourceId, resourceId)));
+  }
+
+  async grant(
+    resourceType: DocumentResourceType,
+    resourceId: number,
+    grant: { userId?: number; role?: UserRole; organizationId?: number | null; permission: DocumentPermission },
+    grantedBy: number,
+  ): Promise<DocumentAcl> {
+    const [created] = await db
+      .insert(documentAcls)
+      .values({
+        resourceType,
+        resourceId,
+        userId: grant.userId ?? null,
+        role: grant.role ?? null,
+        organizationId: grant.role ? grant.organizationId ?? null : null,
+        permission: grant.permission,
+        grantedBy,
+      })
+      .returning();
+
+    log("Granted document access", { resourceType, resourceId, grant, grantedBy });
+    return created;
+  }
+
+  async revoke(resourceType: DocumentResourceType, resourceId: number, grantId: number): Promise<boolean> {
+    const removed = await db
+      .delete(documentAcls)
+      .where(and(
+        eq(documentAcls.id, grantId),
+        eq(documentAcls.resourceType, resourceType),
+        eq(documentAcls.resourceId, resourceId),
+      ))
+      .returning();
+
+    return removed.length > 0;
+  }
+
+  // Grants to the user, plus grants to their role made in an organization
+  // they belong to
+  private principalCondition(user: AccessUser): SQL {
+    const memberships = db
+      .select({ id: organizationMembers.organizationId })
+      .from(organizationMembers)
+      .where(eq(organizationMembers.userId, user.id));
+
+    return or(
+      eq(documentAcls.userId, user.id),
+      and(eq(documentAcls.role, normalizeRole(user.role)), inArray(documentAcls.organizationId, memberships)),
+    ) as SQL;
+  }
+}
+
+export const documentAccessService = new DocumentAccessService();
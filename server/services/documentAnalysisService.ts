@@ -1,18 +1,5 @@
-import Anthropic from "@anthropic-ai/sdk";
-import OpenAI from "openai";
 import { type DocumentAnalysis } from "@shared/schema"; // Kept from original, assuming this is the correct import path.
-
-// Initialize APIs
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-const CLAUDE_MODEL = "claude-3-sonnet-20240229";
-const GPT_MODEL = "gpt-4-0125-preview";
+import { modelRouter } from "./modelRouter";
 
 interface DocumentAnalysisResult {
   summary: string;
@@ -36,9 +23,9 @@ export async function analyzeDocument(content: string): Promise<DocumentAnalysis
     console.log("Starting document analysis with multi-agent system...");
 
     // Use Claude for initial analysis and classification
-    const claudeResponse = await anthropic.messages.create({
-      model: CLAUDE_MODEL,
-      max_tokens: 1500,
+    const claudeResponse = await modelRouter.complete({
+      role: "analysis",
+      maxTokens: 1500,
       messages: [{
         role: "user",
         content: `Analyze this legal document and provide a structured analysis following this exact format:
@@ -65,16 +52,13 @@ ${content.substring(0, 8000)}`
 
     // Parse Claude's structured response
     console.log("Parsing Claude analysis response...");
-    const claudeAnalysis = JSON.parse(claudeResponse.content[0].value);
+    const claudeAnalysis = JSON.parse(claudeResponse.text);
 
     // Use GPT-4 for detailed compliance analysis
-    const gptResponse = await openai.chat.completions.create({
-      model: GPT_MODEL,
+    const gptResponse = await modelRouter.complete({
+      role: "structured",
+      system: "You are a compliance expert. Analyze this document and identify key compliance requirements, risks, and recommendations.",
       messages: [
-        {
-          role: "system",
-          content: "You are a compliance expert. Analyze this document and identify key compliance requirements, risks, and recommendations."
-        },
         {
           role: "user",
           content: `Analyze this document for compliance:\n${content.substring(0, 8000)}`
@@ -83,7 +67,7 @@ ${content.substring(0, 8000)}`
       temperature: 0.2,
     });
 
-    const summary = gptResponse.choices[0].message.content || "";
+    const summary = gptResponse.text || "";
 
     // Combine analyses from both models
     const result: DocumentAnalysisResult = {
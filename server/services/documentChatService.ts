@@ -0,0 +1,321 @@
+import { createHash } from "crypto";
+import { db } from "../db";
+import {
+  chatConversations,
+  chatMessages,
+  documents,
+  vaultDocuments,
+  type ChatCitation,
+  type ChatConversation,
+  type ChatMessage,
+} from "@shared/schema";
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
+import debug from "debug";
+import { cosineSimilarity, createBatchEmbeddings, createEmbedding } from "./embedding-service";
+import { modelRouter, type TokenListener } from "./modelRouter";
+
+const log = debug("app:document-chat");
+
+const MAX_CHUNK_CHARS = 1500;
+const TOP_K = 6;
+// Earlier messages replayed to the model so follow-up questions make sense
+const HISTORY_MESSAGES = 8;
+const EMBEDDING_CACHE_LIMIT = 200;
+
+const SYSTEM_PROMPT = `You answer questions about legal documents using only the numbered excerpts provided.
+Cite every statement with the number of the excerpt it comes from in square brackets, e.g. [2].
+When you rely on specific wording, quote it exactly in double quotes next to its citation.
+If the excerpts do not contain the answer, say so instead of guessing.`;
+
+export class ChatError extends Error {
+  expose = true;
+
+  constructor(message: string, public statusCode: number, public code: string) {
+    super(message);
+    this.name = "ChatError";
+  }
+}
+
+export interface ChatSource {
+  sourceType: ChatCitation["sourceType"];
+  sourceId: number;
+  title: string;
+  content: string;
+}
+
+export interface ChatChunk {
+  sourceType: ChatSource["sourceType"];
+  sourceId: number;
+  title: string;
+  paragraph: number;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface ChatAnswer {
+  message: ChatMessage;
+  citations: ChatCitation[];
+}
+
+// Paragraphs are separated by blank lines. Long paragraphs are cut at word
+// boundaries but keep their paragraph number so citations still line up.
+export function chunkParagraphs(source: ChatSource): ChatChunk[] {
+  const chunks: ChatChunk[] = [];
+  const separator = /\n\s*\n/g;
+  const bounds: Array<[number, number]> = [];
+
+  let cursor = 0;
+  for (let match = separator.exec(source.content); match; match = separator.exec(source.content)) {
+    bounds.push([cursor, match.index]);
+    cursor = match.index + match[0].length;
+  }
+  bounds.push([cursor, source.content.length]);
+
+  let paragraph = 0;
+  for (let [start, end] of bounds) {
+    while (start < end && /\s/.test(source.content[start])) start++;
+    while (end > start && /\s/.test(source.content[end - 1])) end--;
+    if (start === end) continue;
+    paragraph++;
+
+    while (start < end) {
+      let stop = Math.min(end, start + MAX_CHUNK_CHARS);
+      if (stop < end) {
+        const lastSpace = source.content.lastIndexOf(" ", stop);
+        if (lastSpace > start) stop = lastSpace;
+      }
+      chunks.push({
+        sourceType: source.sourceType,
+        sourceId: source.sourceId,
+        title: source.title,
+        paragraph,
+        start,
+        end: stop,
+        text: source.content.slice(start, stop),
+      });
+      start = stop;
+      while (start < end && /\s/.test(source.content[start])) start++;
+    }
+  }
+
+  return chunks;
+}
+
+function terms(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[a-z0-9]{3,}/g) ?? []);
+}
+
+// Keyword overlap, used when no embedding model can be reached
+function lexicalScore(question: Set<string>, chunk: ChatChunk): number {
+  const words = terms(chunk.text);
+  let shared = 0;
+  question.forEach((term) => {
+    if (words.has(term)) shared++;
+  });
+  return words.size ? shared / Math.sqrt(words.size) : 0;
+}
+
+// Links "[n]" markers to their excerpts and quoted spans to the exact text
+// they quote. Quotes that do not appear verbatim in an excerpt are dropped.
+export function extractCitations(answer: string, excerpts: ChatChunk[]): ChatCitation[] {
+  const refs = new Set<number>();
+  for (const match of Array.from(answer.matchAll(/\[(\d+)\]/g))) {
+    const ref = parseInt(match[1]);
+    if (ref >= 1 && ref <= excerpts.length) refs.add(ref);
+  }
+
+  const toCitation = (ref: number): ChatCitation => {
+    const { sourceType, sourceId, title, paragraph, start, end } = excerpts[ref - 1];
+    return { ref, sourceType, sourceId, title, paragraph, start, end };
+  };
+
+  const citations: ChatCitation[] = [];
+  const quoted = new Set<number>();
+  const candidates = Array.from(refs).concat(excerpts.map((_, index) => index + 1).filter((ref) => !refs.has(ref)));
+
+  for (const match of Array.from(answer.matchAll(/"([^"]{8,})"|“([^”]{8,})”/g))) {
+    const quote = (match[1] ?? match[2]).trim();
+    const ref = candidates.find((candidate) => excerpts[candidate - 1].text.includes(quote));
+    if (!ref) continue;
+
+    const excerpt = excerpts[ref - 1];
+    const start = excerpt.start + excerpt.text.indexOf(quote);
+    citations.push({ ...toCitation(ref), quote: { text: quote, start, end: start + quote.length } });
+    quoted.add(ref);
+  }
+
+  refs.forEach((ref) => {
+    if (!quoted.has(ref)) citations.push(toCitation(ref));
+  });
+
+  return citations.sort((a, b) => a.ref - b.ref);
+}
+
+export class DocumentChatService {
+  // Chunk embeddings keyed by source and content hash, so an edited document
+  // is re-embedded and an unchanged one is not
+  private embeddingCache = new Map<string, number[][]>();
+
+  async startConversation(
+    userId: number,
+    organizationId: number | null,
+    scope: { documentId: number } | { vaultDocumentIds: number[] },
+    title?: string,
+  ): Promise<ChatConversation> {
+    const [conversation] = await db
+      .insert(chatConversations)
+      .values({
+        userId,
+        organizationId,
+        documentId: "documentId" in scope ? scope.documentId : null,
+        vaultDocumentIds: "vaultDocumentIds" in scope ? scope.vaultDocumentIds : [],
+        title,
+      })
+      .returning();
+    log("Conversation started", { id: conversation.id, userId });
+    return conversation;
+  }
+
+  // Conversations are private to the user who started them
+  async getConversation(conversationId: number, userId: number): Promise<ChatConversation | undefined> {
+    const [conversation] = await db
+      .select()
+      .from(chatConversations)
+      .where(and(eq(chatConversations.id, conversationId), eq(chatConversations.userId, userId)));
+    return conversation;
+  }
+
+  async latestForDocument(documentId: number, userId: number): Promise<ChatConversation | undefined> {
+    const [conversation] = await db
+      .select()
+      .from(chatConversations)
+      .where(and(eq(chatConversations.documentId, documentId), eq(chatConversations.userId, userId)))
+      .orderBy(desc(chatConversations.updatedAt), desc(chatConversations.id))
+      .limit(1);
+    return conversation;
+  }
+
+  async listMessages(conversationId: number): Promise<ChatMessage[]> {
+    return await db
+      .select()
+      .from(chatMessages)
+      .where(eq(chatMessages.conversationId, conversationId))
+      .orderBy(asc(chatMessages.id));
+  }
+
+  // Answers from the conversation's sources and appends the exchange to its
+  // history. Tokens go to onToken as the model produces them.
+  async ask(conversation: ChatConversation, question: string, onToken: TokenListener = () => {}): Promise<ChatAnswer> {
+    const history = await this.listMessages(conversation.id);
+    const sources = await this.loadSources(conversation);
+    if (!sources.length) {
+      throw new ChatError("The documents in this conversation no longer exist", 404, "NOT_FOUND");
+    }
+
+    const excerpts = await this.retrieve(sources, question);
+    const context = excerpts
+      .map((chunk, index) => `[${index + 1}] ${chunk.title}, paragraph ${chunk.paragraph}\n${chunk.text}`)
+      .join("\n\n");
+
+    const result = await modelRouter.stream({
+      role: "analysis",
+      feature: "document-chat",
+      system: SYSTEM_PROMPT,
+      messages: [
+        ...history.slice(-HISTORY_MESSAGES).map(({ role, content }) => ({ role, content })),
+        { role: "user", content: `Excerpts:\n\n${context}\n\nQuestion: ${question}` },
+      ],
+      temperature: 0.2,
+    }, onToken);
+
+    // Question and answer are stored together so a failed call never leaves
+    // an unanswered turn in the history
+    const citations = extractCitations(result.text, excerpts);
+    const [, message] = await db
+      .insert(chatMessages)
+      .values([
+        { conversationId: conversation.id, role: "user" as const, content: question },
+        {
+          conversationId: conversation.id,
+          role: "assistant" as const,
+          content: result.text,
+          citations,
+          model: result.model,
+        },
+      ])
+      .returning();
+
+    await db
+      .update(chatConversations)
+      .set({ title: conversation.title ?? question.slice(0, 120), updatedAt: new Date() })
+      .where(eq(chatConversations.id, conversation.id));
+
+    log("Question answered", { conversationId: conversation.id, excerpts: excerpts.length, citations: citations.length });
+    return { message, citations };
+  }
+
+  private async loadSources(conversation: ChatConversation): Promise<ChatSource[]> {
+    if (conversation.documentId != null) {
+      const rows = await db
+        .select({ id: documents.id, title: documents.title, content: documents.content })
+        .from(documents)
+        .where(eq(documents.id, conversation.documentId));
+      return rows.map((row) => ({ sourceType: "DOCUMENT" as const, sourceId: row.id, title: row.title, content: row.content }));
+    }
+
+    if (!conversation.vaultDocumentIds.length) {
+      return [];
+    }
+    const rows = await db
+      .select({ id: vaultDocuments.id, title: vaultDocuments.title, content: vaultDocuments.content })
+      .from(vaultDocuments)
+      .where(inArray(vaultDocuments.id, conversation.vaultDocumentIds));
+    return rows.map((row) => ({ sourceType: "VAULT_DOCUMENT" as const, sourceId: row.id, title: row.title, content: row.content }));
+  }
+
+  private async retrieve(sources: ChatSource[], question: string): Promise<ChatChunk[]> {
+    const chunks = sources.flatMap(chunkParagraphs);
+    if (chunks.length <= TOP_K) {
+      return chunks;
+    }
+
+    let scores: number[];
+    try {
+      const [queryEmbedding, ...perSource] = await Promise.all([
+        createEmbedding(question),
+        ...sources.map((source) => this.embedSource(source)),
+      ]);
+      const embeddings = perSource.flat();
+      scores = embeddings.map((embedding) => cosineSimilarity(queryEmbedding, embedding));
+    } catch (error) {
+      log("Embedding retrieval failed, falling back to keyword overlap", error);
+      const questionTerms = terms(question);
+      scores = chunks.map((chunk) => lexicalScore(questionTerms, chunk));
+    }
+
+    return chunks
+      .map((chunk, index) => ({ chunk, score: scores[index] ?? 0 }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, TOP_K)
+      .map(({ chunk }) => chunk);
+  }
+
+  private async embedSource(source: ChatSource): Promise<number[][]> {
+    const hash = createHash("sha256").update(source.content).digest("hex");
+    const key = `${source.sourceType}:${source.sourceId}:${hash}`;
+    const cached = this.embeddingCache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const embeddings = await createBatchEmbeddings(chunkParagraphs(source).map((chunk) => chunk.text));
+    if (this.embeddingCache.size >= EMBEDDING_CACHE_LIMIT) {
+      this.embeddingCache.delete(this.embeddingCache.keys().next().value!);
+    }
+    this.embeddingCache.set(key, embeddings);
+    return embeddings;
+  }
+}
+
+export const documentChatService = new DocumentChatService();
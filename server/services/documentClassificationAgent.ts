@@ -1,13 +1,4 @@
-import Anthropic from '@anthropic-ai/sdk';
-import { openai } from "../openai";
-
-// Initialize Anthropic client (only if API key is available)
-let anthropic: Anthropic | null = null;
-if (process.env.ANTHROPIC_API_KEY) {
-  anthropic = new Anthropic({
-    apiKey: process.env.ANTHROPIC_API_KEY,
-  });
-}
+import { modelRouter } from "./modelRouter";
 
 export interface DocumentClassification {
   documentType: string;
@@ -62,29 +53,26 @@ export class DocumentClassificationAgent {
         return { isMA: true, confidence: 0.8, keywords: keywordsFound };
       }
 
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4",
-        messages: [
-          {
-            role: "system",
-            content: `You are an expert in identifying M&A (Mergers & Acquisitions) documents.
+      const completion = await modelRouter.complete({
+        role: "structured",
+        system: `You are an expert in identifying M&A (Mergers & Acquisitions) documents.
             Analyze the given text and determine if it's an M&A document.
             Return a JSON object with:
             {
               "isMA": boolean (true if it's an M&A document),
               "confidence": number (between 0 and 1),
               "keywords": array of strings (key M&A terms found)
-            }`
-          },
+            }`,
+        messages: [
           {
             role: "user",
             content: content.substring(0, 4000)
           }
         ],
-        response_format: { type: "json_object" }
+        responseFormat: "json"
       });
 
-      const messageContent = completion.choices[0]?.message?.content;
+      const messageContent = completion.text;
       if (!messageContent) {
         console.error("Empty response from OpenAI");
         return { isMA: false, confidence: 0 };
@@ -146,14 +134,11 @@ export class DocumentClassificationAgent {
         return "GENERAL";
       }
 
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4",
+      const completion = await modelRouter.complete({
+        role: "structured",
+        system: `Analyze the document and identify the primary industry it relates to.
+            Return only the industry name in uppercase (e.g., "TECHNOLOGY", "HEALTHCARE", "FINANCIAL", "REAL_ESTATE", "MANUFACTURING", "RETAIL", "ENERGY", "GENERAL").`,
         messages: [
-          {
-            role: "system",
-            content: `Analyze the document and identify the primary industry it relates to.
-            Return only the industry name in uppercase (e.g., "TECHNOLOGY", "HEALTHCARE", "FINANCIAL", "REAL_ESTATE", "MANUFACTURING", "RETAIL", "ENERGY", "GENERAL").`
-          },
           {
             role: "user",
             content: content.substring(0, 4000)
@@ -161,7 +146,7 @@ export class DocumentClassificationAgent {
         ]
       });
 
-      const messageContent = completion.choices[0]?.message?.content;
+      const messageContent = completion.text;
       if (!messageContent) {
         return "GENERAL";
       }
@@ -175,12 +160,9 @@ export class DocumentClassificationAgent {
 
   private async classifyWithGPT4(content: string): Promise<DocumentClassification> {
     try {
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4",
-        messages: [
-          {
-            role: "system",
-            content: `You are an expert document classifier specializing in legal and business documents.
+      const completion = await modelRouter.complete({
+        role: "structured",
+        system: `You are an expert document classifier specializing in legal and business documents.
             If you detect any M&A-related content, always classify it as "M&A Deal".
             For other documents, determine the most appropriate type.
             Return a JSON object with:
@@ -193,17 +175,17 @@ export class DocumentClassificationAgent {
                 "industry": string,
                 "businessContext": string
               }
-            }`
-          },
+            }`,
+        messages: [
           {
             role: "user",
             content: content.substring(0, 4000)
           }
         ],
-        response_format: { type: "json_object" }
+        responseFormat: "json"
       });
 
-      const messageContent = completion.choices[0]?.message?.content;
+      const messageContent = completion.text;
       if (!messageContent) {
         throw new Error("Empty response from OpenAI");
       }
@@ -1,4 +1,3 @@
-import { OpenAI } from "openai";
 import debug from "debug";
 import * as fs from "fs";
 import * as path from "path";
@@ -17,14 +16,6 @@ export interface ProcessingResult {
 }
 
 class DocumentProcessor {
-  private openai: OpenAI;
-
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-  }
-
   async processDocument(
     buffer: Buffer,
     filename: string,
@@ -0,0 +1,180 @@
+import {
+  AlignmentType,
+  CommentRangeEnd,
+  CommentRangeStart,
+  CommentReference,
+  DeletedTextRun,
+  Document,
+  HeadingLevel,
+  InsertedTextRun,
+  Packer,
+  Paragraph,
+  TextRun,
+  type ICommentOptions,
+  type ParagraphChild,
+} from "docx";
+import debug from "debug";
+
+const log = debug("app:docx-redline-service");
+
+// Same shape the redline editor posts to /api/redline/export, with optional
+// per-change author and reviewer comment
+export interface TrackedChange {
+  type: "insertion" | "deletion";
+  content: string;
+  position: number;
+  timestamp?: string | Date;
+  author?: string;
+  comment?: string;
+}
+
+export interface TrackedChangesExportOptions {
+  content: string;
+  changes: TrackedChange[];
+  author: string;
+  title?: string;
+}
+
+// Changes without a usable timestamp are dated at export time
+function changeDate(change: TrackedChange, fallback: Date): Date {
+  const date = change.timestamp === undefined ? fallback : new Date(change.timestamp);
+  return isNaN(date.getTime()) ? fallback : date;
+}
+
+interface RevisionRun {
+  kind: "equal" | "insertion" | "deletion";
+  text: string;
+  change?: TrackedChange;
+}
+
+export class DocxRedlineService {
+  // Builds a .docx whose changes are native w:ins/w:del revisions, so Word
+  // shows them in the Review pane and the counterparty can accept or reject them.
+  async buildTrackedChangesDocument(options: TrackedChangesExportOptions): Promise<Buffer> {
+    const { content, changes, author, title } = options;
+    log("Building tracked changes document", { length: content.length, changes: changes.length });
+
+    const exportedAt = new Date();
+    const runs = this.buildRuns(content, changes, exportedAt);
+    const comments: ICommentOptions[] = [];
+    let revisionId = 1;
+
+    const paragraphs: Paragraph[] = [];
+    if (title) {
+      paragraphs.push(
+        new Paragraph({
+          text: title,
+          heading: HeadingLevel.HEADING_1,
+          alignment: AlignmentType.CENTER,
+        }),
+      );
+    }
+
+    let current: ParagraphChild[] = [];
+    const flush = () => {
+      paragraphs.push(new Paragraph({ children: current }));
+      current = [];
+    };
+
+    for (const run of runs) {
+      const lines = run.text.split("\n");
+      const attributes = run.change
+        ? {
+            author: run.change.author || author,
+            date: changeDate(run.change, exportedAt).toISOString(),
+          }
+        : null;
+
+      let commentId: number | null = null;
+      if (run.change?.comment && attributes) {
+        commentId = comments.length;
+        comments.push({
+          id: commentId,
+          author: attributes.author,
+          date: new Date(attributes.date),
+          children: [new Paragraph({ text: run.change.comment })],
+        });
+        current.push(new CommentRangeStart(commentId));
+      }
+
+      lines.forEach((line, index) => {
+        if (index > 0) {
+          flush();
+        }
+        if (line.length === 0) {
+          return;
+        }
+        if (run.kind === "equal" || !attributes) {
+          current.push(new TextRun(line));
+        } else if (run.kind === "insertion") {
+          current.push(new InsertedTextRun({ text: line, id: revisionId++, ...attributes }));
+        } else {
+          current.push(new DeletedTextRun({ text: line, id: revisionId++, ...attributes }));
+        }
+      });
+
+      if (commentId !== null) {
+        current.push(new CommentRangeEnd(commentId));
+        current.push(new TextRun({ children: [new CommentReference(commentId)] }));
+      }
+    }
+    flush();
+
+    const doc = new Document({
+      creator: author,
+      title: title || "Document with Tracked Changes",
+      features: { trackRevisions: true },
+      comments: { children: comments },
+      sections: [{ children: paragraphs }],
+    });
+
+    const buffer = await Packer.toBuffer(doc);
+    log("Tracked changes document built", { revisions: revisionId - 1, comments: comments.length, bytes: buffer.length });
+    return buffer;
+  }
+
+  // Interleave the editor's change log with the current text. Insertions are
+  // already present in `content`; deletions are not, so they are re-inserted
+  // as deleted runs at their recorded position.
+  private buildRuns(content: string, changes: TrackedChange[], exportedAt: Date): RevisionRun[] {
+    const runs: RevisionRun[] = [];
+    const sorted = [...changes]
+      .filter((change) => change && typeof change.content === "string" && change.content.length > 0)
+      .sort((a, b) => a.position - b.position
+        || changeDate(a, exportedAt).getTime() - changeDate(b, exportedAt).getTime());
+
+    let cursor = 0;
+    const pushEqual = (end: number) => {
+      if (end > cursor) {
+        runs.push({ kind: "equal", text: content.slice(cursor, end) });
+        cursor = end;
+      }
+    };
+
+    for (const change of sorted) {
+      const position = Math.min(Math.max(change.position, cursor), content.length);
+
+      if (change.type === "insertion") {
+        // Later edits can shift recorded positions; find the nearest occurrence
+        const start = content.startsWith(change.content, position)
+          ? position
+          : content.indexOf(change.content, cursor);
+        if (start === -1) {
+          log("Skipping insertion no longer present in content", { position: change.position });
+          continue;
+        }
+        pushEqual(start);
+        runs.push({ kind: "insertion", text: change.content, change });
+        cursor = start + change.content.length;
+      } else {
+        pushEqual(position);
+        runs.push({ kind: "deletion", text: change.content, change });
+      }
+    }
+    pushEqual(content.length);
+
+    return runs;
+  }
+}
+
+export const docxRedlineService = new DocxRedlineService();
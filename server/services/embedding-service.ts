@@ -1,11 +1,6 @@
-import OpenAI from "openai";
 import { ChromaClient, Collection } from 'chromadb';
 import { v4 as uuidv4 } from 'uuid';
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { modelRouter } from './modelRouter';
 
 // Initialize ChromaDB client
 let chromaClient: ChromaClient | null = null;
@@ -36,7 +31,7 @@ async function initializeChroma(): Promise<void> {
 initializeChroma().catch(console.error);
 
 /**
- * Creates an embedding vector for the given text using OpenAI's embedding model
+ * Creates an embedding vector for the given text using the configured embedding model
  * @param text - The text to create an embedding for
  * @returns A numerical embedding vector (1536 dimensions for text-embedding-3-small)
  */
@@ -45,10 +40,6 @@ export async function createEmbedding(text: string): Promise<number[]> {
     throw new Error("Text cannot be empty");
   }
 
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OPENAI_API_KEY environment variable is not set");
-  }
-
   try {
     // Truncate text if too long (max ~8000 tokens for embedding model)
     const MAX_CHARS = 30000;
@@ -56,16 +47,13 @@ export async function createEmbedding(text: string): Promise<number[]> {
       ? text.substring(0, MAX_CHARS)
       : text;
 
-    const response = await openai.embeddings.create({
-      model: "text-embedding-3-small",
-      input: truncatedText,
-    });
+    const response = await modelRouter.embed([truncatedText]);
 
-    if (!response.data || response.data.length === 0) {
-      throw new Error("No embedding returned from OpenAI");
+    if (response.embeddings.length === 0) {
+      throw new Error("No embedding returned from model");
     }
 
-    return response.data[0].embedding;
+    return response.embeddings[0];
   } catch (error) {
     console.error("Error creating embedding:", error);
     throw new Error(`Failed to create embedding: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -169,10 +157,6 @@ export async function createBatchEmbeddings(texts: string[]): Promise<number[][]
     return [];
   }
 
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OPENAI_API_KEY environment variable is not set");
-  }
-
   try {
     // Filter out empty texts and truncate long ones
     const MAX_CHARS = 30000;
@@ -184,12 +168,9 @@ export async function createBatchEmbeddings(texts: string[]): Promise<number[][]
       return [];
     }
 
-    const response = await openai.embeddings.create({
-      model: "text-embedding-3-small",
-      input: processedTexts,
-    });
+    const response = await modelRouter.embed(processedTexts);
 
-    return response.data.map(item => item.embedding);
+    return response.embeddings;
   } catch (error) {
     console.error("Error creating batch embeddings:", error);
     throw new Error(`Failed to create batch embeddings: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -0,0 +1,81 @@
+import PDFDocument from "pdfkit";
+import type { Document, Signature, SignatureEnvelope } from "@shared/schema";
+import type { CapturedSignature } from "./types";
+
+export interface SignedPdfInput {
+  document: Pick<Document, "id" | "title" | "content">;
+  envelope: Pick<SignatureEnvelope, "id" | "documentHash" | "createdAt">;
+  signers: Signature[];
+  completedAt: Date;
+}
+
+const DATA_URL_PATTERN = /^data:image\/(png|jpeg);base64,([A-Za-z0-9+/=]+)$/;
+
+export function decodeSignatureImage(image: string): Buffer | null {
+  const match = DATA_URL_PATTERN.exec(image);
+  return match ? Buffer.from(match[2], "base64") : null;
+}
+
+function formatDate(date: Date | null | undefined): string {
+  return date ? date.toISOString().replace("T", " ").replace(/\.\d+Z$/, " UTC") : "-";
+}
+
+// Contract text followed by a certificate page listing every signer, their
+// captured signature and the hash of the content they signed
+export function renderSignedPdf({ document, envelope, signers, completedAt }: SignedPdfInput): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    try {
+      const pdf = new PDFDocument({
+        margin: 56,
+        info: {
+          Title: document.title,
+          Subject: `Signature envelope ${envelope.id}`,
+          Keywords: `sha256:${envelope.documentHash}`,
+        },
+      });
+      const chunks: Buffer[] = [];
+
+      pdf.on("data", (chunk) => chunks.push(chunk));
+      pdf.on("end", () => resolve(Buffer.concat(chunks)));
+      pdf.on("error", reject);
+
+      pdf.font("Helvetica-Bold").fontSize(16).text(document.title);
+      pdf.moveDown();
+      pdf.font("Helvetica").fontSize(11).text(document.content);
+
+      pdf.addPage();
+      pdf.font("Helvetica-Bold").fontSize(18).text("Certificate of Completion", { align: "center" });
+      pdf.moveDown();
+      pdf.font("Helvetica").fontSize(10);
+      pdf.text(`Document: ${document.title} (ID ${document.id})`);
+      pdf.text(`Envelope: ${envelope.id}`);
+      pdf.text(`Sent: ${formatDate(envelope.createdAt)}`);
+      pdf.text(`Completed: ${formatDate(completedAt)}`);
+      pdf.text(`Document SHA-256: ${envelope.documentHash}`);
+      pdf.moveDown();
+
+      for (const signer of signers) {
+        const captured = signer.signatureData as CapturedSignature | null;
+
+        pdf.font("Helvetica-Bold").fontSize(11).text(`${signer.signerName ?? "Signer"} <${signer.signerEmail ?? "-"}>`);
+        pdf.font("Helvetica").fontSize(9);
+        pdf.text(`Signing order: ${signer.signingOrder}`);
+        pdf.text(`Signed: ${formatDate(signer.signedAt)}`);
+        pdf.text(`IP address: ${signer.ipAddress ?? "-"}`);
+        pdf.moveDown(0.5);
+
+        const image = captured?.type === "drawn" ? decodeSignatureImage(captured.image) : null;
+        if (image) {
+          pdf.image(image, { fit: [220, 70] });
+        } else if (captured?.type === "typed") {
+          pdf.font("Times-Italic").fontSize(22).text(captured.name);
+        }
+        pdf.moveDown();
+      }
+
+      pdf.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
@@ -0,0 +1,47 @@
+import sgMail from "@sendgrid/mail";
+import debug from "debug";
+import type { SignatureAdapter, SigningInvite } from "./types";
+
+const log = debug("app:esign:native");
+
+// Signing happens on our own signing page. Links go out by email when
+// SendGrid is configured; otherwise they are only logged, which is enough
+// for local development.
+export class NativeSignatureAdapter implements SignatureAdapter {
+  readonly name = "native";
+  private mailConfigured = false;
+
+  isConfigured(): boolean {
+    return Boolean(process.env.SENDGRID_API_KEY && process.env.ESIGN_FROM_EMAIL);
+  }
+
+  async open() {
+    return {};
+  }
+
+  async invite({ envelope, signer, signingUrl }: SigningInvite): Promise<void> {
+    if (!signer.signerEmail || !this.isConfigured()) {
+      log("Signing link (not emailed)", { envelopeId: envelope.id, signerId: signer.id, signingUrl });
+      return;
+    }
+
+    if (!this.mailConfigured) {
+      sgMail.setApiKey(process.env.SENDGRID_API_KEY!);
+      this.mailConfigured = true;
+    }
+
+    const greeting = signer.signerName ? `Hello ${signer.signerName},` : "Hello,";
+    await sgMail.send({
+      to: signer.signerEmail,
+      from: process.env.ESIGN_FROM_EMAIL!,
+      subject: envelope.subject || "Please sign this document",
+      text: [
+        greeting,
+        envelope.message ?? "You have been asked to sign a document.",
+        `Review and sign it here: ${signingUrl}`,
+        `This link can be used once and expires on ${envelope.expiresAt.toUTCString()}.`,
+      ].join("\n\n"),
+    });
+    log("Signing link emailed", { envelopeId: envelope.id, signerId: signer.id });
+  }
+}
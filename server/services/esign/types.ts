@@ -0,0 +1,28 @@
+import type { z } from "zod";
+import type { capturedSignatureSchema, Document, Signature, SignatureEnvelope } from "@shared/schema";
+
+// "native" signs inside the app; vendor adapters register under their own name
+export type SignatureProviderName = string;
+
+export interface SigningInvite {
+  envelope: SignatureEnvelope;
+  signer: Signature;
+  // One-time link to the native signing page; only valid until it is used
+  signingUrl: string;
+}
+
+// Typed name, or a PNG/JPEG data URL drawn on the signing page
+export type CapturedSignature = z.infer<typeof capturedSignatureSchema>;
+
+export interface SignatureAdapter {
+  readonly name: SignatureProviderName;
+  // Whether the adapter can deliver without further setup (credentials present)
+  isConfigured(): boolean;
+  // Hands a new envelope to the provider. Vendors create their own envelope
+  // here and return its ID so their callbacks can be matched to ours.
+  open(envelope: SignatureEnvelope, signers: Signature[], document: Document): Promise<{ externalId?: string }>;
+  // Called when a signer's turn comes up
+  invite(invite: SigningInvite): Promise<void>;
+  // Called when an envelope is cancelled, declined or expires unsigned
+  close?(envelope: SignatureEnvelope, status: SignatureEnvelope["status"]): Promise<void>;
+}
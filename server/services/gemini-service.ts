@@ -1,7 +1,4 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
-
-// Initialize Gemini AI
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
+import { modelRouter } from "./modelRouter";
 
 export interface GeminiAnalysisResult {
   summary: string;
@@ -15,21 +12,11 @@ export interface GeminiAnalysisResult {
  * Provides AI-powered analysis capabilities using Google's Gemini model
  */
 export class GeminiService {
-  private model;
-
-  constructor() {
-    this.model = genAI.getGenerativeModel({ model: "gemini-1.5-pro" });
-  }
-
   /**
    * Analyzes legal text and provides insights
    */
   async analyzeText(content: string, context?: string): Promise<GeminiAnalysisResult> {
     try {
-      if (!process.env.GEMINI_API_KEY) {
-        throw new Error("GEMINI_API_KEY environment variable is not set");
-      }
-
       const prompt = `
         Analyze the following legal text and provide:
         1. A concise summary
@@ -51,9 +38,11 @@ export class GeminiService {
         }
       `;
 
-      const result = await this.model.generateContent(prompt);
-      const response = result.response;
-      const text = response.text();
+      const result = await modelRouter.complete({
+        role: "research",
+        messages: [{ role: "user", content: prompt }],
+      });
+      const text = result.text;
 
       // Parse JSON response
       const jsonMatch = text.match(/\{[\s\S]*\}/);
@@ -97,8 +86,11 @@ export class GeminiService {
         }
       `;
 
-      const result = await this.model.generateContent(prompt);
-      const text = result.response.text();
+      const result = await modelRouter.complete({
+        role: "research",
+        messages: [{ role: "user", content: prompt }],
+      });
+      const text = result.text;
 
       const jsonMatch = text.match(/\{[\s\S]*\}/);
       if (!jsonMatch) {
@@ -141,8 +133,11 @@ export class GeminiService {
         }
       `;
 
-      const result = await this.model.generateContent(prompt);
-      const text = result.response.text();
+      const result = await modelRouter.complete({
+        role: "research",
+        messages: [{ role: "user", content: prompt }],
+      });
+      const text = result.text;
 
       const jsonMatch = text.match(/\{[\s\S]*\}/);
       if (!jsonMatch) {
@@ -1,9 +1,6 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { db } from "../db";
 import { legalDocuments } from "@shared/schema";
-
-// Initialize Gemini
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
+import { modelRouter } from "./modelRouter";
 
 export interface DeepResearchResult {
   summary: string;
@@ -24,8 +21,6 @@ export interface DeepResearchResult {
 }
 
 export class GeminiLegalResearch {
-  private model = genAI.getGenerativeModel({ model: "gemini-1.5-pro" });
-
   async performDeepResearch(query: string, context: string[]): Promise<DeepResearchResult> {
     try {
       const prompt = `
@@ -46,9 +41,11 @@ export class GeminiLegalResearch {
       Format the response as a structured JSON object matching the DeepResearchResult interface.
       `;
 
-      const result = await this.model.generateContent(prompt);
-      const response = result.response;
-      const text = response.text();
+      const result = await modelRouter.complete({
+        role: "research",
+        messages: [{ role: "user", content: prompt }],
+      });
+      const text = result.text;
       
       // Parse the JSON response
       return JSON.parse(text) as DeepResearchResult;
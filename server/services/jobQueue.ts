@@ -0,0 +1,434 @@
+import { db } from "../db";
+import {
+  backgroundJobs,
+  type BackgroundJob,
+  type InsertBackgroundJob,
+  type JobStatus,
+} from "@shared/schema";
+import { and, asc, desc, eq, inArray, lt, lte, sql } from "drizzle-orm";
+import { hostname } from "os";
+import { randomUUID } from "crypto";
+import debug from "debug";
+import { currentUsageContext, runWithUsageContext } from "./llm/usageContext";
+
+const log = debug("app:jobs");
+
+// The database or an open transaction
+type DbExecutor = Pick<typeof db, "insert">;
+
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BACKOFF_MS = 5000;
+const MAX_BACKOFF_MS = 15 * 60 * 1000;
+
+// A RUNNING job whose lock has not been refreshed within the lease is assumed
+// to belong to a worker that died, and is handed back to the queue
+const LEASE_MS = 2 * 60 * 1000;
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+export interface JobHandlerOptions {
+  // Jobs of this type run at most this many at a time per worker process
+  concurrency?: number;
+  maxAttempts?: number;
+  // Base delay; retry n waits backoffMs * 2^(n-1), capped at 15 minutes
+  backoffMs?: number;
+}
+
+export interface EnqueueOptions {
+  groupId?: string;
+  resourceType?: string;
+  resourceId?: string | number;
+  runAt?: Date;
+  maxAttempts?: number;
+  organizationId?: number | null;
+  createdBy?: number | null;
+}
+
+export interface JobContext {
+  job: BackgroundJob;
+  reportProgress(progress: Record<string, any>): Promise<void>;
+  // Follow-up jobs are inserted in the same transaction that completes this
+  // one, so a pipeline never loses or duplicates a stage across restarts
+  enqueue(type: string, payload: Record<string, any>, options?: EnqueueOptions): void;
+}
+
+export type JobHandler = (payload: Record<string, any>, context: JobContext) => Promise<Record<string, any> | void>;
+
+export interface JobQuery {
+  status?: JobStatus;
+  type?: string | string[];
+  groupId?: string;
+  resourceType?: string;
+  resourceId?: string;
+  organizationId?: number;
+  limit?: number;
+}
+
+export class JobNotRetryableError extends Error {
+  expose = true;
+  statusCode = 409;
+  code = "JOB_NOT_RETRYABLE";
+
+  constructor(public jobId: number, public status: JobStatus) {
+    super(`Job ${jobId} is ${status} and cannot be retried`);
+    this.name = "JobNotRetryableError";
+  }
+}
+
+export function backoffDelay(attempt: number, baseMs = DEFAULT_BACKOFF_MS): number {
+  return Math.min(baseMs * 2 ** Math.max(attempt - 1, 0), MAX_BACKOFF_MS);
+}
+
+interface RegisteredHandler {
+  handler: JobHandler;
+  concurrency: number;
+  maxAttempts: number;
+  backoffMs: number;
+}
+
+export class JobQueue {
+  private handlers = new Map<string, RegisteredHandler>();
+  private running = new Map<string, number>();
+  private activeJobs = new Set<number>();
+  private readonly workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  private pollTimer?: NodeJS.Timeout;
+  private heartbeatTimer?: NodeJS.Timeout;
+  private polling = false;
+
+  register(type: string, handler: JobHandler, options: JobHandlerOptions = {}): void {
+    this.handlers.set(type, {
+      handler,
+      concurrency: options.concurrency ?? 1,
+      maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      backoffMs: options.backoffMs ?? DEFAULT_BACKOFF_MS,
+    });
+  }
+
+  // Jobs enqueued while handling a request are attributed to its caller.
+  // Passing a transaction commits the job together with the caller's writes.
+  async enqueue(
+    type: string,
+    payload: Record<string, any>,
+    options: EnqueueOptions = {},
+    executor: DbExecutor = db,
+  ): Promise<BackgroundJob> {
+    const [job] = await executor.insert(backgroundJobs).values(this.toRow(type, payload, options)).returning();
+    log("Job enqueued", { id: job.id, type, groupId: job.groupId });
+    return job;
+  }
+
+  async enqueueMany(jobs: Array<{ type: string; payload: Record<string, any>; options?: EnqueueOptions }>): Promise<BackgroundJob[]> {
+    if (jobs.length === 0) return [];
+    const inserted = await db
+      .insert(backgroundJobs)
+      .values(jobs.map(({ type, payload, options }) => this.toRow(type, payload, options)))
+      .returning();
+    log("Jobs enqueued", { count: inserted.length, groupId: inserted[0].groupId });
+    return inserted;
+  }
+
+  start(pollIntervalMs = DEFAULT_POLL_INTERVAL_MS): void {
+    if (this.pollTimer) return;
+    log("Starting job worker", { workerId: this.workerId, types: Array.from(this.handlers.keys()) });
+
+    this.recoverStaleJobs().catch((error) => log("Stale job recovery failed:", error));
+    this.pollTimer = setInterval(() => this.poll(), pollIntervalMs);
+    this.heartbeatTimer = setInterval(() => {
+      this.heartbeat()
+        .then(() => this.recoverStaleJobs())
+        .catch((error) => log("Job heartbeat failed:", error));
+    }, HEARTBEAT_INTERVAL_MS);
+    this.pollTimer.unref();
+    this.heartbeatTimer.unref();
+  }
+
+  stop(): void {
+    clearInterval(this.pollTimer);
+    clearInterval(this.heartbeatTimer);
+    this.pollTimer = undefined;
+    this.heartbeatTimer = undefined;
+  }
+
+  async get(id: number): Promise<BackgroundJob | null> {
+    const [job] = await db.select().from(backgroundJobs).where(eq(backgroundJobs.id, id));
+    return job ?? null;
+  }
+
+  async list(query: JobQuery = {}): Promise<BackgroundJob[]> {
+    const conditions = [];
+    if (query.status) conditions.push(eq(backgroundJobs.status, query.status));
+    if (Array.isArray(query.type)) conditions.push(inArray(backgroundJobs.type, query.type));
+    else if (query.type) conditions.push(eq(backgroundJobs.type, query.type));
+    if (query.groupId) conditions.push(eq(backgroundJobs.groupId, query.groupId));
+    if (query.resourceType) conditions.push(eq(backgroundJobs.resourceType, query.resourceType));
+    if (query.resourceId) conditions.push(eq(backgroundJobs.resourceId, query.resourceId));
+    if (query.organizationId) conditions.push(eq(backgroundJobs.organizationId, query.organizationId));
+
+    return await db
+      .select()
+      .from(backgroundJobs)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(backgroundJobs.createdAt), desc(backgroundJobs.id))
+      .limit(query.limit ?? 100);
+  }
+
+  async listGroup(groupId: string): Promise<BackgroundJob[]> {
+    return await db
+      .select()
+      .from(backgroundJobs)
+      .where(eq(backgroundJobs.groupId, groupId))
+      .orderBy(asc(backgroundJobs.id));
+  }
+
+  // Most recent job touching a resource, e.g. the pipeline run for a document
+  async latestForResource(resourceType: string, resourceId: string | number): Promise<BackgroundJob | null> {
+    const [job] = await this.list({ resourceType, resourceId: String(resourceId), limit: 1 });
+    return job ?? null;
+  }
+
+  // Requeues a dead-lettered job with a fresh set of attempts
+  async retry(id: number): Promise<BackgroundJob | null> {
+    const job = await this.get(id);
+    if (!job) return null;
+    if (job.status !== "DEAD_LETTER") {
+      throw new JobNotRetryableError(id, job.status);
+    }
+
+    const [requeued] = await db
+      .update(backgroundJobs)
+      .set({
+        status: "QUEUED",
+        attempts: 0,
+        runAt: new Date(),
+        lockedAt: null,
+        lockedBy: null,
+        completedAt: null,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(backgroundJobs.id, id), eq(backgroundJobs.status, "DEAD_LETTER")))
+      .returning();
+    log("Job requeued", { id, type: job.type });
+    return requeued ?? null;
+  }
+
+  private toRow(type: string, payload: Record<string, any>, options: EnqueueOptions = {}): InsertBackgroundJob {
+    const context = currentUsageContext();
+    return {
+      type,
+      payload,
+      groupId: options.groupId,
+      resourceType: options.resourceType,
+      resourceId: options.resourceId != null ? String(options.resourceId) : undefined,
+      runAt: options.runAt ?? new Date(),
+      maxAttempts: options.maxAttempts ?? this.handlers.get(type)?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      organizationId: options.organizationId !== undefined ? options.organizationId : context?.organizationId ?? null,
+      createdBy: options.createdBy !== undefined ? options.createdBy : context?.userId ?? null,
+    };
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      for (const [type, registered] of Array.from(this.handlers)) {
+        const free = registered.concurrency - (this.running.get(type) ?? 0);
+        if (free <= 0) continue;
+
+        const jobs = await this.claim(type, free);
+        for (const job of jobs) {
+          this.execute(job, registered);
+        }
+      }
+    } catch (error) {
+      log("Job poll failed:", error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  // SKIP LOCKED lets several workers poll the same table without handing the
+  // same job to two of them
+  private async claim(type: string, limit: number): Promise<BackgroundJob[]> {
+    const due = db
+      .select({ id: backgroundJobs.id })
+      .from(backgroundJobs)
+      .where(and(
+        eq(backgroundJobs.type, type),
+        eq(backgroundJobs.status, "QUEUED"),
+        lte(backgroundJobs.runAt, new Date()),
+      ))
+      .orderBy(asc(backgroundJobs.runAt), asc(backgroundJobs.id))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return await db
+      .update(backgroundJobs)
+      .set({
+        status: "RUNNING",
+        attempts: sql`${backgroundJobs.attempts} + 1`,
+        lockedAt: new Date(),
+        lockedBy: this.workerId,
+        updatedAt: new Date(),
+      })
+      .where(inArray(backgroundJobs.id, due))
+      .returning();
+  }
+
+  private async execute(job: BackgroundJob, registered: RegisteredHandler): Promise<void> {
+    this.running.set(job.type, (this.running.get(job.type) ?? 0) + 1);
+    this.activeJobs.add(job.id);
+    const followUps: Array<{ type: string; payload: Record<string, any>; options?: EnqueueOptions }> = [];
+
+    const context: JobContext = {
+      job,
+      reportProgress: async (progress) => {
+        await db
+          .update(backgroundJobs)
+          .set({ progress, lockedAt: new Date(), updatedAt: new Date() })
+          .where(and(eq(backgroundJobs.id, job.id), eq(backgroundJobs.lockedBy, this.workerId)));
+      },
+      enqueue: (type, payload, options = {}) => {
+        followUps.push({
+          type,
+          payload,
+          options: {
+            groupId: job.groupId ?? undefined,
+            resourceType: job.resourceType ?? undefined,
+            resourceId: job.resourceId ?? undefined,
+            organizationId: job.organizationId,
+            createdBy: job.createdBy,
+            ...options,
+          },
+        });
+      },
+    };
+
+    try {
+      log("Running job", { id: job.id, type: job.type, attempt: job.attempts });
+      const result = await runWithUsageContext(
+        { userId: job.createdBy, organizationId: job.organizationId, feature: job.type },
+        () => registered.handler(job.payload, context),
+      );
+
+      const completed = await db.transaction(async (tx) => {
+        const [owned] = await tx
+          .update(backgroundJobs)
+          .set({
+            status: "COMPLETED",
+            result: result ?? null,
+            lockedAt: null,
+            lockedBy: null,
+            lastError: null,
+            completedAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(this.heldLease(job.id))
+          .returning({ id: backgroundJobs.id });
+        if (!owned) return false;
+
+        if (followUps.length) {
+          await tx.insert(backgroundJobs).values(
+            followUps.map(({ type, payload, options }) => this.toRow(type, payload, options)),
+          );
+        }
+        return true;
+      });
+
+      if (completed) {
+        log("Job completed", { id: job.id, type: job.type, followUps: followUps.length });
+      } else {
+        log("Job lease lost before completion, discarding result", { id: job.id, type: job.type });
+      }
+    } catch (error: any) {
+      await this.fail(job, registered, error).catch((failError) =>
+        log("Failed to record job failure:", { id: job.id, error: failError }),
+      );
+    } finally {
+      this.running.set(job.type, (this.running.get(job.type) ?? 1) - 1);
+      this.activeJobs.delete(job.id);
+    }
+  }
+
+  private async fail(job: BackgroundJob, registered: RegisteredHandler, error: any): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    const exhausted = job.attempts >= job.maxAttempts;
+    const delay = backoffDelay(job.attempts, registered.backoffMs);
+
+    await db
+      .update(backgroundJobs)
+      .set({
+        status: exhausted ? "DEAD_LETTER" : "QUEUED",
+        runAt: exhausted ? job.runAt : new Date(Date.now() + delay),
+        lastError: message,
+        lockedAt: null,
+        lockedBy: null,
+        updatedAt: new Date(),
+      })
+      .where(this.heldLease(job.id));
+
+    log(exhausted ? "Job dead-lettered" : "Job failed, retrying", {
+      id: job.id,
+      type: job.type,
+      attempt: job.attempts,
+      retryInMs: exhausted ? undefined : delay,
+      error: message,
+    });
+  }
+
+  // Matches the job only while this worker still holds it. Once the lease has
+  // expired and another worker has claimed the job, late writes from this one
+  // must not overwrite that run or enqueue its follow-ups a second time.
+  private heldLease(jobId: number) {
+    return and(
+      eq(backgroundJobs.id, jobId),
+      eq(backgroundJobs.status, "RUNNING"),
+      eq(backgroundJobs.lockedBy, this.workerId),
+    );
+  }
+
+  // Keeps the lease on jobs this worker is still running
+  private async heartbeat(): Promise<void> {
+    if (this.activeJobs.size === 0) return;
+    await db
+      .update(backgroundJobs)
+      .set({ lockedAt: new Date() })
+      .where(and(
+        inArray(backgroundJobs.id, Array.from(this.activeJobs)),
+        eq(backgroundJobs.lockedBy, this.workerId),
+      ));
+  }
+
+  // Jobs left RUNNING by a crashed or restarted worker resume from the queue;
+  // ones that already used their last attempt are dead-lettered instead
+  private async recoverStaleJobs(): Promise<void> {
+    const leaseExpired = and(
+      eq(backgroundJobs.status, "RUNNING"),
+      lt(backgroundJobs.lockedAt, new Date(Date.now() - LEASE_MS)),
+    );
+
+    const requeued = await db
+      .update(backgroundJobs)
+      .set({ status: "QUEUED", lockedAt: null, lockedBy: null, runAt: new Date(), updatedAt: new Date() })
+      .where(and(leaseExpired, lt(backgroundJobs.attempts, backgroundJobs.maxAttempts)))
+      .returning({ id: backgroundJobs.id });
+
+    const deadLettered = await db
+      .update(backgroundJobs)
+      .set({
+        status: "DEAD_LETTER",
+        lastError: "Worker lease expired on final attempt",
+        lockedAt: null,
+        lockedBy: null,
+        updatedAt: new Date(),
+      })
+      .where(leaseExpired)
+      .returning({ id: backgroundJobs.id });
+
+    if (requeued.length || deadLettered.length) {
+      log("Recovered stale jobs", { requeued: requeued.length, deadLettered: deadLettered.length });
+    }
+  }
+}
+
+export const jobQueue = new JobQueue();
@@ -1,8 +1,5 @@
-import { OpenAI } from "openai";
 import { z } from "zod";
-
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+import { modelRouter } from "./modelRouter";
 
 // Response schema validation
 const legalResearchResponseSchema = z.object({
@@ -60,10 +57,10 @@ export async function generateLegalResearch(
       "timestamp": "string - current ISO timestamp"
     }`;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
+    const response = await modelRouter.complete({
+      role: "structured",
+      system: systemPrompt,
       messages: [
-        { role: "system", content: systemPrompt },
         { 
           role: "user", 
           content: `
@@ -84,12 +81,12 @@ export async function generateLegalResearch(
           `
         }
       ],
-      response_format: { type: "json_object" },
+      responseFormat: "json",
       temperature: 0.7,
-      max_tokens: 2000
+      maxTokens: 2000
     });
 
-    const rawResponse = response.choices[0].message.content;
+    const rawResponse = response.text;
     if (!rawResponse) {
       throw new Error("Empty response from OpenAI");
     }
@@ -154,10 +151,6 @@ export async function analyzeLegalDocumentContent(content: string): Promise<Lega
       throw new Error('No content provided for analysis');
     }
 
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OpenAI API key not configured. Please set OPENAI_API_KEY environment variable.');
-    }
-
     const promptTemplate = `Analyze the following legal document content in detail. Provide a comprehensive analysis that includes:
 
     1. An executive summary of the key findings
@@ -194,24 +187,21 @@ export async function analyzeLegalDocumentContent(content: string): Promise<Lega
 
     console.log('Sending request to OpenAI...');
 
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o",
+    const completion = await modelRouter.complete({
+      role: "structured",
+      system: "You are a legal expert specializing in document analysis, regulatory compliance, and legal research. Provide detailed, professional analysis with actionable insights.",
       messages: [
-        {
-          role: "system",
-          content: "You are a legal expert specializing in document analysis, regulatory compliance, and legal research. Provide detailed, professional analysis with actionable insights."
-        },
         {
           role: "user",
           content: promptTemplate
         }
       ],
-      response_format: { type: "json_object" },
+      responseFormat: "json",
       temperature: 0.7,
-      max_tokens: 4000
+      maxTokens: 4000
     });
 
-    const responseContent = completion.choices[0].message.content;
+    const responseContent = completion.text;
     if (!responseContent) {
       throw new Error('No analysis generated from AI model');
     }
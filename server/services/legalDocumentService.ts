@@ -1,21 +1,7 @@
-import { Anthropic } from "@anthropic-ai/sdk";
-import OpenAI from "openai";
 import { db } from "../db";
 import { vaultDocuments } from "@shared/schema";
 import { analyzeDocument } from "./documentAnalysisService";
-
-// the newest Anthropic model is "claude-3-5-sonnet-20241022" which was released October 22, 2024
-const CLAUDE_MODEL = "claude-3-5-sonnet-20241022";
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024
-const GPT_MODEL = "gpt-4o";
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { modelRouter } from "./modelRouter";
 
 export interface LegalDocumentExample {
   title: string;
@@ -64,27 +50,27 @@ export class LegalDocumentService {
 
       // Get examples from both AI models for comprehensive coverage
       const [claudeResponse, gptResponse] = await Promise.all([
-        anthropic.messages.create({
-          model: CLAUDE_MODEL,
-          max_tokens: 2000,
+        modelRouter.complete({
+          role: "analysis",
+          maxTokens: 2000,
           messages: [{
             role: "user",
             content: prompt
           }],
         }),
-        openai.chat.completions.create({
-          model: GPT_MODEL,
+        modelRouter.complete({
+          role: "structured",
           messages: [{
             role: "user",
             content: prompt
           }],
-          response_format: { type: "json_object" }
+          responseFormat: "json"
         })
       ]);
 
       // Combine and process responses
-      const claudeExamples = JSON.parse(claudeResponse.content[0].text);
-      const gptExamples = JSON.parse(gptResponse.choices[0].message.content);
+      const claudeExamples = JSON.parse(claudeResponse.text);
+      const gptExamples = JSON.parse(gptResponse.text);
       
       return [...claudeExamples, ...gptExamples].map(example => ({
         ...example,
@@ -102,7 +88,8 @@ export class LegalDocumentService {
   async uploadAndCategorize(
     content: string,
     userId: number,
-    preferredCategory?: string
+    preferredCategory?: string,
+    scope: { organizationId: number | null; matterId: number | null } = { organizationId: null, matterId: null }
   ): Promise<any> {
     try {
       // Analyze document using existing service
@@ -126,7 +113,8 @@ export class LegalDocumentService {
             confidence: categoryAnalysis.confidence,
             category: preferredCategory || categoryAnalysis.category
           },
-          userId
+          userId,
+          ...scope
         })
         .returning();
 
@@ -150,16 +138,16 @@ export class LegalDocumentService {
     
     Respond in JSON format with keys: category, analysis, confidence, title`;
 
-    const response = await anthropic.messages.create({
-      model: CLAUDE_MODEL,
-      max_tokens: 1000,
+    const response = await modelRouter.complete({
+      role: "analysis",
+      maxTokens: 1000,
       messages: [{
         role: "user",
         content: prompt
       }],
     });
 
-    return JSON.parse(response.content[0].text);
+    return JSON.parse(response.text);
   }
 }
 
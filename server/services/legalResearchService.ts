@@ -1,18 +1,9 @@
-import { Anthropic } from '@anthropic-ai/sdk';
 import { eq } from 'drizzle-orm';
 import { db } from '../db';
 import { legalDocuments } from '@shared/schema';
 import type { LegalDocument } from '@shared/schema';
 import { z } from 'zod';
-
-// Initialize Anthropic client
-if (!process.env.ANTHROPIC_API_KEY) {
-  throw new Error('Missing ANTHROPIC_API_KEY environment variable');
-}
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+import { modelRouter } from './modelRouter';
 
 // Validation schemas
 const embeddingSchema = z.object({
@@ -180,9 +171,9 @@ export class LegalResearchService {
     try {
       console.log('Generating embedding for text length:', text.length);
 
-      const response = await anthropic.messages.create({
-        model: "claude-3-5-sonnet-20241022",
-        max_tokens: 1000,
+      const response = await modelRouter.complete({
+        role: "analysis",
+        maxTokens: 1000,
         messages: [{
           role: "user",
           content: `Generate a numerical embedding vector that captures the semantic meaning of this legal text. The vector should have exactly 1024 dimensions with values between -1 and 1.
@@ -196,13 +187,8 @@ ${text.substring(0, 8000)}`
         temperature: 0.1
       });
 
-      const content = response.content[0];
-      if (content.type !== 'text') {
-        throw new Error('Unexpected response format from Anthropic API');
-      }
-
       try {
-        const result = embeddingSchema.parse(JSON.parse(content.text));
+        const result = embeddingSchema.parse(JSON.parse(response.text));
         console.log('Successfully generated and validated embedding');
         return result.embedding;
       } catch (parseError) {
@@ -274,9 +260,9 @@ ${text.substring(0, 8000)}`
         throw new Error('Document not found');
       }
 
-      const response = await anthropic.messages.create({
-        model: "claude-3-5-sonnet-20241022",
-        max_tokens: 2000,
+      const response = await modelRouter.complete({
+        role: "analysis",
+        maxTokens: 2000,
         messages: [{
           role: "user",
           content: `Analyze this legal document and provide a JSON response with exactly these fields:
@@ -294,12 +280,7 @@ Content: ${document.content}`
         temperature: 0.1
       });
 
-      const content = response.content[0];
-      if (content.type !== 'text') {
-        throw new Error('Unexpected response format from Anthropic API');
-      }
-
-      const analysis = analysisSchema.parse(JSON.parse(content.text));
+      const analysis = analysisSchema.parse(JSON.parse(response.text));
       console.log('Analysis completed and validated');
       return analysis;
 
@@ -321,9 +302,9 @@ Content: ${document.content}`
         throw new Error('Document not found');
       }
 
-      const response = await anthropic.messages.create({
-        model: "claude-3-5-sonnet-20241022",
-        max_tokens: 2000,
+      const response = await modelRouter.complete({
+        role: "analysis",
+        maxTokens: 2000,
         messages: [{
           role: "user",
           content: `Generate a comprehensive summary of this legal document and return a JSON response with exactly these fields:
@@ -345,12 +326,7 @@ Content: ${document.content}`
         temperature: 0.1
       });
 
-      const content = response.content[0];
-      if (content.type !== 'text') {
-        throw new Error('Unexpected response format from Anthropic API');
-      }
-
-      const summary = summarySchema.parse(JSON.parse(content.text));
+      const summary = summarySchema.parse(JSON.parse(response.text));
       console.log('Summary generated and validated');
       return summary;
     } catch (error) {
@@ -364,9 +340,9 @@ Content: ${document.content}`
       console.log('Analyzing legal research query:', query);
       const similarCases = await this.searchSimilarCases(query);
 
-      const response = await anthropic.messages.create({
-        model: "claude-3-5-sonnet-20241022",
-        max_tokens: 2000,
+      const response = await modelRouter.complete({
+        role: "analysis",
+        maxTokens: 2000,
         messages: [{
           role: "user",
           content: `Analyze this legal query and return a JSON response with exactly these fields:
@@ -399,12 +375,7 @@ Date: ${doc.date}
         temperature: 0.1
       });
 
-      const content = response.content[0];
-      if (content.type !== 'text') {
-        throw new Error('Unexpected response format from Anthropic API');
-      }
-
-      const analysis = queryAnalysisSchema.parse(JSON.parse(content.text));
+      const analysis = queryAnalysisSchema.parse(JSON.parse(response.text));
       console.log('Query analysis completed and validated');
       return analysis;
     } catch (error) {
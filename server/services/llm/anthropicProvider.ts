@@ -0,0 +1,70 @@
+import Anthropic from "@anthropic-ai/sdk";
+import type { CompletionResult, LLMProvider, ResolvedCompletionRequest, TokenListener } from "./types";
+
+const DEFAULT_MAX_TOKENS = 4096;
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = "anthropic" as const;
+  private client: Anthropic | null = null;
+
+  private getClient(): Anthropic {
+    if (!this.client) {
+      this.client = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+    }
+    return this.client;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(process.env.ANTHROPIC_API_KEY);
+  }
+
+  async complete(request: ResolvedCompletionRequest): Promise<CompletionResult> {
+    const response = await this.getClient().messages.create({
+      model: request.model,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      ...(request.system ? { system: request.system } : {}),
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      messages: request.messages,
+    });
+
+    const text = response.content
+      .map((block) => (block.type === "text" ? block.text : ""))
+      .join("");
+
+    return {
+      text,
+      model: response.model || request.model,
+      provider: this.name,
+      usage: {
+        inputTokens: response.usage?.input_tokens ?? 0,
+        outputTokens: response.usage?.output_tokens ?? 0,
+      },
+    };
+  }
+
+  async stream(request: ResolvedCompletionRequest, onToken: TokenListener): Promise<CompletionResult> {
+    const stream = this.getClient().messages.stream({
+      model: request.model,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      ...(request.system ? { system: request.system } : {}),
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      messages: request.messages,
+    });
+    stream.on("text", onToken);
+
+    const response = await stream.finalMessage();
+    const text = response.content
+      .map((block) => (block.type === "text" ? block.text : ""))
+      .join("");
+
+    return {
+      text,
+      model: response.model || request.model,
+      provider: this.name,
+      usage: {
+        inputTokens: response.usage?.input_tokens ?? 0,
+        outputTokens: response.usage?.output_tokens ?? 0,
+      },
+    };
+  }
+}
@@ -0,0 +1,130 @@
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import debug from "debug";
+import type {
+  CompletionResult,
+  EmbeddingRequest,
+  EmbeddingResult,
+  LLMProvider,
+  ResolvedCompletionRequest,
+  TokenListener,
+} from "./types";
+
+const log = debug("app:llm-fixtures");
+
+interface FixtureFile<T> {
+  kind: "completion" | "embedding";
+  request: unknown;
+  result: T;
+  recordedAt: string;
+}
+
+// Fixtures are keyed on what was asked, not which model answered, so a
+// recording keeps replaying after a role is pointed at a newer model
+export function fixtureKey(kind: FixtureFile<unknown>["kind"], request: unknown): string {
+  return createHash("sha256").update(JSON.stringify([kind, request])).digest("hex");
+}
+
+function completionKeyInput(request: ResolvedCompletionRequest) {
+  return {
+    system: request.system ?? null,
+    messages: request.messages,
+    responseFormat: request.responseFormat ?? "text",
+  };
+}
+
+export class FixtureStore {
+  constructor(private readonly dir: string) {}
+
+  read<T>(key: string): FixtureFile<T> | undefined {
+    const file = path.join(this.dir, `${key}.json`);
+    if (!existsSync(file)) {
+      return undefined;
+    }
+    return JSON.parse(readFileSync(file, "utf-8"));
+  }
+
+  write<T>(key: string, fixture: FixtureFile<T>): void {
+    mkdirSync(this.dir, { recursive: true });
+    writeFileSync(path.join(this.dir, `${key}.json`), JSON.stringify(fixture, null, 2));
+  }
+}
+
+// Serves recorded responses when a fixture exists. On a miss it calls the
+// wrapped provider, and in record mode saves the answer for next time.
+export class ReplayProvider implements LLMProvider {
+  readonly name;
+
+  constructor(
+    private readonly delegate: LLMProvider,
+    private readonly store: FixtureStore,
+    private readonly record: boolean,
+  ) {
+    this.name = delegate.name;
+  }
+
+  // Recorded fixtures may answer even without credentials for the delegate
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: ResolvedCompletionRequest): Promise<CompletionResult> {
+    const keyInput = completionKeyInput(request);
+    const key = fixtureKey("completion", keyInput);
+    const fixture = this.store.read<CompletionResult>(key);
+    if (fixture) {
+      log("Replaying completion fixture", { key: key.slice(0, 12) });
+      return fixture.result;
+    }
+
+    const result = await this.delegate.complete(request);
+    if (this.record) {
+      this.store.write(key, { kind: "completion", request: keyInput, result, recordedAt: new Date().toISOString() });
+      log("Recorded completion fixture", { key: key.slice(0, 12), provider: result.provider });
+    }
+    return result;
+  }
+
+  // Replayed completions arrive as a single chunk
+  async stream(request: ResolvedCompletionRequest, onToken: TokenListener): Promise<CompletionResult> {
+    const keyInput = completionKeyInput(request);
+    const key = fixtureKey("completion", keyInput);
+    const fixture = this.store.read<CompletionResult>(key);
+    if (fixture) {
+      onToken(fixture.result.text);
+      return fixture.result;
+    }
+
+    let result: CompletionResult;
+    if (this.delegate.stream) {
+      result = await this.delegate.stream(request, onToken);
+    } else {
+      result = await this.delegate.complete(request);
+      onToken(result.text);
+    }
+    if (this.record) {
+      this.store.write(key, { kind: "completion", request: keyInput, result, recordedAt: new Date().toISOString() });
+    }
+    return result;
+  }
+
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResult> {
+    if (!this.delegate.embed) {
+      throw new Error(`Provider ${this.delegate.name} does not support embeddings`);
+    }
+
+    const keyInput = { input: request.input };
+    const key = fixtureKey("embedding", keyInput);
+    const fixture = this.store.read<EmbeddingResult>(key);
+    if (fixture) {
+      return fixture.result;
+    }
+
+    const result = await this.delegate.embed(request);
+    if (this.record) {
+      this.store.write(key, { kind: "embedding", request: keyInput, result, recordedAt: new Date().toISOString() });
+    }
+    return result;
+  }
+}
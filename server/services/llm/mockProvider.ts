@@ -0,0 +1,92 @@
+import { createHash } from "crypto";
+import type {
+  CompletionResult,
+  EmbeddingRequest,
+  EmbeddingResult,
+  LLMProvider,
+  ResolvedCompletionRequest,
+} from "./types";
+
+const EMBEDDING_DIMENSIONS = 1536;
+
+type Matcher = string | RegExp | ((request: ResolvedCompletionRequest) => boolean);
+type Responder = string | object | ((request: ResolvedCompletionRequest) => string | object);
+
+function promptText(request: ResolvedCompletionRequest): string {
+  return [request.system ?? "", ...request.messages.map((message) => message.content)].join("\n");
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Offline provider with no network access. The same request always produces
+// the same response: a registered canned answer if one matches, otherwise a
+// placeholder derived from the prompt hash ("{}" for JSON requests).
+export class MockProvider implements LLMProvider {
+  readonly name = "mock" as const;
+  private responders: Array<{ matcher: Matcher; responder: Responder }> = [];
+
+  // Later registrations win, so a test can override a broader default
+  respondWith(matcher: Matcher, responder: Responder): this {
+    this.responders.unshift({ matcher, responder });
+    return this;
+  }
+
+  reset(): void {
+    this.responders = [];
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: ResolvedCompletionRequest): Promise<CompletionResult> {
+    const prompt = promptText(request);
+    const match = this.responders.find(({ matcher }) =>
+      typeof matcher === "string" ? prompt.includes(matcher)
+        : matcher instanceof RegExp ? matcher.test(prompt)
+        : matcher(request),
+    );
+
+    let text: string;
+    if (match) {
+      const response = typeof match.responder === "function" ? match.responder(request) : match.responder;
+      text = typeof response === "string" ? response : JSON.stringify(response);
+    } else if (request.responseFormat === "json") {
+      text = "{}";
+    } else {
+      const digest = createHash("sha256").update(prompt).digest("hex").slice(0, 12);
+      text = `[mock response ${digest}]`;
+    }
+
+    return {
+      text,
+      model: request.model,
+      provider: this.name,
+      usage: { inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(text) },
+    };
+  }
+
+  // Hashed bag-of-words vectors: deterministic, and texts sharing words still
+  // score as similar, which keeps vector search meaningful in tests
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResult> {
+    const embeddings = request.input.map((text) => {
+      const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+      for (const word of text.toLowerCase().match(/[a-z0-9]+/g) ?? []) {
+        const digest = createHash("sha256").update(word).digest();
+        const index = digest.readUInt32BE(0) % EMBEDDING_DIMENSIONS;
+        vector[index] += digest[4] & 1 ? 1 : -1;
+      }
+      const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+      return vector.map((value) => value / norm);
+    });
+
+    return {
+      embeddings,
+      model: request.model,
+      provider: this.name,
+      usage: { inputTokens: estimateTokens(request.input.join(" ")), outputTokens: 0 },
+    };
+  }
+}
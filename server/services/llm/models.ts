@@ -0,0 +1,126 @@
+import type { LLMProviderName, ModelRole, TokenUsage } from "./types";
+
+// Every model the application may call. Routing tiers (O3_HIGH..O1) are used
+// by ModelRouter.processTask; the rest back the roles below.
+export const MODELS = {
+  O3_HIGH: {
+    id: "claude-3-opus-20240229",
+    provider: "anthropic",
+    capabilities: {
+      complexCode: true,
+      math: true,
+      contextLength: 200000,
+      costPer1kTokens: 0.015
+    },
+    costSavingFactor: 2.5 // Higher efficiency for complex tasks
+  },
+  GPT4O: {
+    id: "gpt-4o",
+    provider: "openai",
+    capabilities: {
+      research: true,
+      analysis: true,
+      contextLength: 128000,
+      costPer1kTokens: 0.01
+    },
+    costSavingFactor: 2.0 // Good balance for research tasks
+  },
+  O3_MINI: {
+    id: "claude-3-sonnet-20240229",
+    provider: "anthropic",
+    capabilities: {
+      routineCode: true,
+      contextLength: 100000,
+      costPer1kTokens: 0.003
+    },
+    costSavingFactor: 1.5 // Efficient for routine tasks
+  },
+  O1: {
+    id: "claude-instant-1.2",
+    provider: "anthropic",
+    capabilities: {
+      basicMath: true,
+      simpleCode: true,
+      contextLength: 100000,
+      costPer1kTokens: 0.0008
+    },
+    costSavingFactor: 1.0 // Baseline efficiency
+  },
+  CLAUDE_SONNET: {
+    id: "claude-3-5-sonnet-20241022",
+    provider: "anthropic",
+    capabilities: {
+      analysis: true,
+      contextLength: 200000,
+      costPer1kTokens: 0.003
+    },
+    costSavingFactor: 2.0
+  },
+  GEMINI_PRO: {
+    id: "gemini-1.5-pro",
+    provider: "gemini",
+    capabilities: {
+      research: true,
+      contextLength: 1000000,
+      costPer1kTokens: 0.00125
+    },
+    costSavingFactor: 2.0
+  },
+  EMBEDDING: {
+    id: "text-embedding-3-small",
+    provider: "openai",
+    capabilities: {
+      contextLength: 8191,
+      costPer1kTokens: 0.00002
+    },
+    costSavingFactor: 1.0
+  }
+} as const;
+
+export type ModelConfig = typeof MODELS[keyof typeof MODELS];
+export type ModelId = ModelConfig['id'];
+
+function catalogEntry(model: string): ModelConfig | undefined {
+  return Object.values(MODELS).find((config) => config.id === model);
+}
+
+const ROLE_DEFAULTS: Record<ModelRole, ModelId> = {
+  analysis: MODELS.CLAUDE_SONNET.id,
+  structured: MODELS.GPT4O.id,
+  drafting: MODELS.GPT4O.id,
+  research: MODELS.GEMINI_PRO.id,
+  embedding: MODELS.EMBEDDING.id,
+};
+
+// LLM_MODEL_<ROLE> (e.g. LLM_MODEL_ANALYSIS=claude-3-7-sonnet-20250219)
+// swaps the model behind a role without code changes
+export function modelForRole(role: ModelRole): string {
+  return process.env[`LLM_MODEL_${role.toUpperCase()}`] || ROLE_DEFAULTS[role];
+}
+
+export function providerForModel(model: string): LLMProviderName {
+  const known = catalogEntry(model);
+  if (known) {
+    return known.provider;
+  }
+  if (model.startsWith("claude")) return "anthropic";
+  if (model.startsWith("gemini")) return "gemini";
+  if (model.startsWith("mock")) return "mock";
+  return "openai";
+}
+
+// Catalog rates are per 1k tokens, input and output alike. Models outside the
+// catalog (e.g. a role override) are billed at the GPT-4o rate.
+export function costForUsage(model: string, usage: TokenUsage): number {
+  const rate = (catalogEntry(model) ?? MODELS.GPT4O).capabilities.costPer1kTokens;
+  return ((usage.inputTokens + usage.outputTokens) / 1000) * rate;
+}
+
+// Tiers the router steps down to once an organization is past its soft budget
+const FALLBACK_TIERS: ModelConfig[] = [MODELS.O3_MINI, MODELS.O1];
+
+// The most capable fallback tier that is cheaper than `model`, if any
+export function cheaperModel(model: string): ModelId | undefined {
+  const rate = (catalogEntry(model) ?? MODELS.GPT4O).capabilities.costPer1kTokens;
+  return FALLBACK_TIERS.find((tier) => tier.capabilities.costPer1kTokens < rate)?.id;
+}
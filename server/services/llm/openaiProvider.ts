@@ -0,0 +1,98 @@
+import OpenAI from "openai";
+import type {
+  CompletionResult,
+  EmbeddingRequest,
+  EmbeddingResult,
+  LLMProvider,
+  ResolvedCompletionRequest,
+  TokenListener,
+} from "./types";
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = "openai" as const;
+  private client: OpenAI | null = null;
+
+  // Created on first use so a missing key only fails calls that need it
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    }
+    return this.client;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(process.env.OPENAI_API_KEY);
+  }
+
+  async complete(request: ResolvedCompletionRequest): Promise<CompletionResult> {
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+      ...(request.system ? [{ role: "system" as const, content: request.system }] : []),
+      ...request.messages,
+    ];
+
+    const response = await this.getClient().chat.completions.create({
+      model: request.model,
+      messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(request.responseFormat === "json" ? { response_format: { type: "json_object" as const } } : {}),
+    });
+
+    return {
+      text: response.choices[0]?.message?.content || "",
+      model: response.model || request.model,
+      provider: this.name,
+      usage: {
+        inputTokens: response.usage?.prompt_tokens ?? 0,
+        outputTokens: response.usage?.completion_tokens ?? 0,
+      },
+    };
+  }
+
+  async stream(request: ResolvedCompletionRequest, onToken: TokenListener): Promise<CompletionResult> {
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+      ...(request.system ? [{ role: "system" as const, content: request.system }] : []),
+      ...request.messages,
+    ];
+
+    const stream = await this.getClient().chat.completions.create({
+      model: request.model,
+      messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+
+    let text = "";
+    let model = request.model;
+    let usage = { inputTokens: 0, outputTokens: 0 };
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onToken(delta);
+      }
+      model = chunk.model || model;
+      if (chunk.usage) {
+        usage = { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens };
+      }
+    }
+
+    return { text, model, provider: this.name, usage };
+  }
+
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResult> {
+    const response = await this.getClient().embeddings.create({
+      model: request.model,
+      input: request.input,
+    });
+
+    return {
+      embeddings: response.data.map((item) => item.embedding),
+      model: request.model,
+      provider: this.name,
+      usage: { inputTokens: response.usage?.prompt_tokens ?? 0, outputTokens: 0 },
+    };
+  }
+}
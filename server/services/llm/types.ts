@@ -0,0 +1,69 @@
+export type LLMProviderName = "openai" | "anthropic" | "gemini" | "mock";
+
+// Logical jobs the application asks a model to do. Each resolves to a
+// concrete model in models.ts, so services never name model IDs themselves.
+export type ModelRole =
+  | "analysis"      // long-form legal analysis and review
+  | "structured"    // JSON extraction and classification
+  | "drafting"      // contract and template generation
+  | "research"      // legal research synthesis
+  | "embedding";    // vector embeddings
+
+export interface LLMMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface CompletionRequest {
+  role?: ModelRole;
+  // Explicit catalog or provider model ID; takes precedence over role
+  model?: string;
+  system?: string;
+  messages: LLMMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  responseFormat?: "text" | "json";
+  // Usage attribution; defaults to the API area of the current request
+  feature?: string;
+}
+
+export interface ResolvedCompletionRequest extends CompletionRequest {
+  model: string;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface CompletionResult {
+  text: string;
+  model: string;
+  provider: LLMProviderName;
+  usage: TokenUsage;
+}
+
+export interface EmbeddingRequest {
+  model: string;
+  input: string[];
+}
+
+export interface EmbeddingResult {
+  embeddings: number[][];
+  model: string;
+  provider: LLMProviderName;
+  usage: TokenUsage;
+}
+
+// Receives each text delta as the model produces it
+export type TokenListener = (token: string) => void;
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  // Whether calls can succeed without further setup (credentials present)
+  isConfigured(): boolean;
+  complete(request: ResolvedCompletionRequest): Promise<CompletionResult>;
+  // Same result as complete(); providers without it are streamed as one chunk
+  stream?(request: ResolvedCompletionRequest, onToken: TokenListener): Promise<CompletionResult>;
+  embed?(request: EmbeddingRequest): Promise<EmbeddingResult>;
+}
@@ -0,0 +1,20 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+// Who an LLM call is billed to. Set once per request by the usage context
+// middleware so services deep in the call stack need not thread it through.
+export interface UsageContext {
+  userId: number | null;
+  organizationId: number | null;
+  feature: string;
+}
+
+const storage = new AsyncLocalStorage<UsageContext>();
+
+export function runWithUsageContext<T>(context: UsageContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+// Undefined outside a request, e.g. for scheduled jobs and seed scripts
+export function currentUsageContext(): UsageContext | undefined {
+  return storage.getStore();
+}
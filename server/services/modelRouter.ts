@@ -1,63 +1,31 @@
-import OpenAI from "openai";
 import { db } from "../db";
 import { modelMetrics } from "@shared/schema/metrics";
 import { performance } from "perf_hooks";
-import Anthropic from "@anthropic-ai/sdk";
 import { eq } from 'drizzle-orm';
-
-// Initialize API clients
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-
-// Model configurations with costs and capabilities
-const MODELS = {
-  O3_HIGH: {
-    id: "claude-3-opus-20240229",
-    provider: "anthropic",
-    capabilities: {
-      complexCode: true,
-      math: true,
-      contextLength: 200000,
-      costPer1kTokens: 0.015
-    },
-    costSavingFactor: 2.5 // Higher efficiency for complex tasks
-  },
-  GPT4O: {
-    id: "gpt-4o",
-    provider: "openai",
-    capabilities: {
-      research: true,
-      analysis: true,
-      contextLength: 128000,
-      costPer1kTokens: 0.01
-    },
-    costSavingFactor: 2.0 // Good balance for research tasks
-  },
-  O3_MINI: {
-    id: "claude-3-sonnet-20240229",
-    provider: "anthropic", 
-    capabilities: {
-      routineCode: true,
-      contextLength: 100000,
-      costPer1kTokens: 0.003
-    },
-    costSavingFactor: 1.5 // Efficient for routine tasks
-  },
-  O1: {
-    id: "claude-instant-1.2",
-    provider: "anthropic",
-    capabilities: {
-      basicMath: true,
-      simpleCode: true,
-      contextLength: 100000,
-      costPer1kTokens: 0.0008
-    },
-    costSavingFactor: 1.0 // Baseline efficiency
-  }
-} as const;
-
-export type ModelConfig = typeof MODELS[keyof typeof MODELS];
-export type ModelId = ModelConfig['id'];
+import debug from "debug";
+import { MODELS, cheaperModel, costForUsage, modelForRole, providerForModel, type ModelConfig, type ModelId } from "./llm/models";
+import { OpenAIProvider } from "./llm/openaiProvider";
+import { AnthropicProvider } from "./llm/anthropicProvider";
+import { GeminiProvider } from "./llm/geminiProvider";
+import { MockProvider } from "./llm/mockProvider";
+import { FixtureStore, ReplayProvider } from "./llm/fixtures";
+import { currentUsageContext } from "./llm/usageContext";
+import { budgetService } from "./budgetService";
+import type {
+  CompletionRequest,
+  CompletionResult,
+  EmbeddingResult,
+  LLMProvider,
+  LLMProviderName,
+  ModelRole,
+  TokenListener,
+  TokenUsage,
+} from "./llm/types";
+
+export { MODELS, type ModelConfig, type ModelId };
+export type { CompletionRequest, CompletionResult, ModelRole, TokenListener } from "./llm/types";
+
+const log = debug("app:model-router");
 
 interface TaskAnalysis {
   complexity: number; // 0-1 score
@@ -78,31 +46,190 @@ interface ModelRoutingResult {
 }
 
 export class ModelRouter {
+  private providers = new Map<LLMProviderName, LLMProvider>();
+  private forcedProvider: LLMProviderName | null;
+
+  // LLM_PROVIDER=mock sends every call to the offline mock (the default under
+  // NODE_ENV=test). LLM_FIXTURES_DIR replays recorded responses in front of
+  // whichever provider is used; LLM_RECORD_FIXTURES=true records misses.
+  constructor() {
+    const fixturesDir = process.env.LLM_FIXTURES_DIR;
+    const store = fixturesDir ? new FixtureStore(fixturesDir) : null;
+    const record = process.env.LLM_RECORD_FIXTURES === "true";
+
+    for (const provider of [new OpenAIProvider(), new AnthropicProvider(), new GeminiProvider(), new MockProvider()]) {
+      this.registerProvider(store ? new ReplayProvider(provider, store, record) : provider);
+    }
+
+    this.forcedProvider = (process.env.LLM_PROVIDER as LLMProviderName | undefined)
+      || (process.env.NODE_ENV === "test" ? "mock" : null);
+  }
+
+  registerProvider(provider: LLMProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  // Route every call to one provider regardless of model (null restores routing)
+  forceProvider(name: LLMProviderName | null): void {
+    this.forcedProvider = name;
+  }
+
+  private providerFor(model: string): LLMProvider {
+    const name = this.forcedProvider ?? providerForModel(model);
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new Error(`No LLM provider registered for ${name}`);
+    }
+    return provider;
+  }
+
+  // Lets callers with a non-LLM fallback skip the model when it cannot answer
+  public isAvailable(role: ModelRole = "analysis"): boolean {
+    try {
+      return this.providerFor(modelForRole(role)).isConfigured();
+    } catch {
+      return false;
+    }
+  }
+
+  // Refuses calls for organizations at their hard limit and, past the soft
+  // limit, swaps in the next cheaper tier
+  private async applyBudget(model: string): Promise<string> {
+    const organizationId = currentUsageContext()?.organizationId;
+    if (organizationId == null) {
+      return model;
+    }
+
+    const status = await budgetService.assertWithinBudget(organizationId);
+    if (status.state !== "SOFT_LIMIT") {
+      return model;
+    }
+
+    const fallback = cheaperModel(model) ?? model;
+    if (fallback !== model) {
+      log("Soft budget limit reached, downgrading model", { organizationId, model, fallback });
+    }
+    return fallback;
+  }
+
+  // Accounting failures are logged rather than failing the caller's request
+  private async recordUsage(entry: {
+    role?: ModelRole;
+    feature?: string;
+    model: string;
+    requestedModel: string;
+    provider: LLMProviderName;
+    usage: TokenUsage;
+  }): Promise<void> {
+    const context = currentUsageContext();
+    try {
+      await budgetService.recordUsage({
+        organizationId: context?.organizationId ?? null,
+        userId: context?.userId ?? null,
+        feature: entry.feature ?? context?.feature ?? "system",
+        role: entry.role ?? null,
+        model: entry.model,
+        provider: entry.provider,
+        inputTokens: entry.usage.inputTokens,
+        outputTokens: entry.usage.outputTokens,
+        // Offline mock calls are counted but cost nothing
+        costUsd: entry.provider === "mock" ? 0 : costForUsage(entry.model, entry.usage),
+        requestedModel: entry.requestedModel !== entry.model ? entry.requestedModel : null,
+      });
+    } catch (error) {
+      log("Failed to record LLM usage", { model: entry.model, error });
+    }
+  }
+
+  // Single entry point for text generation. Callers name a role (or, rarely,
+  // an explicit model) and the router picks the model and provider.
+  public async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const role = request.role ?? "analysis";
+    const requestedModel = request.model ?? modelForRole(role);
+    const model = await this.applyBudget(requestedModel);
+    const provider = this.providerFor(model);
+
+    log("Completion request", { role, model, provider: provider.name });
+    const result = await provider.complete({ ...request, model });
+    await this.recordUsage({
+      role,
+      feature: request.feature,
+      model,
+      requestedModel,
+      provider: result.provider,
+      usage: result.usage,
+    });
+    return result;
+  }
+
+  // complete() with each text delta passed to onToken as it arrives. Usage is
+  // recorded once the stream finishes.
+  public async stream(request: CompletionRequest, onToken: TokenListener): Promise<CompletionResult> {
+    const role = request.role ?? "analysis";
+    const requestedModel = request.model ?? modelForRole(role);
+    const model = await this.applyBudget(requestedModel);
+    const provider = this.providerFor(model);
+
+    log("Streaming completion request", { role, model, provider: provider.name });
+    let result: CompletionResult;
+    if (provider.stream) {
+      result = await provider.stream({ ...request, model }, onToken);
+    } else {
+      result = await provider.complete({ ...request, model });
+      onToken(result.text);
+    }
+
+    await this.recordUsage({
+      role,
+      feature: request.feature,
+      model,
+      requestedModel,
+      provider: result.provider,
+      usage: result.usage,
+    });
+    return result;
+  }
+
+  // Embedding models have no cheaper tier, so budgets only gate these calls
+  public async embed(input: string[], model: string = modelForRole("embedding")): Promise<EmbeddingResult> {
+    const organizationId = currentUsageContext()?.organizationId;
+    if (organizationId != null) {
+      await budgetService.assertWithinBudget(organizationId);
+    }
+
+    const provider = this.providerFor(model);
+    if (!provider.embed) {
+      throw new Error(`Provider ${provider.name} does not support embeddings`);
+    }
+
+    const result = await provider.embed({ model, input });
+    await this.recordUsage({
+      role: "embedding",
+      model,
+      requestedModel: model,
+      provider: result.provider,
+      usage: result.usage,
+    });
+    return result;
+  }
+
   private async analyzeTask(text: string): Promise<TaskAnalysis> {
     try {
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content: `Analyze the following task and return a JSON object with these properties:
+      const response = await this.complete({
+        role: "structured",
+        responseFormat: "json",
+        system: `Analyze the following task and return a JSON object with these properties:
               - complexity (0-1): How complex is the task?
               - requiresCode (boolean): Does it need code generation?
               - requiresMath (boolean): Does it need mathematical computation?
               - contextLength (number): Estimated context length needed
               - predictedTokens (number): Estimated tokens needed
               - keywords (array): Important task-related keywords
-              Base the analysis on technical terms, mathematical symbols, and code-related content.`
-          },
-          {
-            role: "user",
-            content: text
-          }
-        ],
-        response_format: { type: "json_object" }
+              Base the analysis on technical terms, mathematical symbols, and code-related content.`,
+        messages: [{ role: "user", content: text }]
       });
 
-      const analysis = JSON.parse(response.choices[0].message.content || "{}");
+      const analysis = JSON.parse(response.text || "{}");
       return {
         complexity: analysis.complexity || 0,
         requiresCode: analysis.requiresCode || false,
@@ -142,38 +269,15 @@ export class ModelRouter {
     model: ModelId,
     content: string,
     systemPrompt: string
-  ): Promise<string> {
+  ): Promise<CompletionResult> {
     const modelConfig = Object.values(MODELS).find(m => m.id === model);
     if (!modelConfig) throw new Error("Invalid model selected");
 
-    if (modelConfig.provider === "anthropic") {
-      const response = await anthropic.messages.create({
-        model,
-        max_tokens: 4096,
-        messages: [{
-          role: "user",
-          content: [
-            { type: "text", text: systemPrompt },
-            { type: "text", text: content }
-          ]
-        }]
-      });
-
-      const textContent = response.content[0];
-      if (textContent.type === 'text') {
-        return textContent.text;
-      }
-      throw new Error("Unexpected response format from Anthropic API");
-    } else {
-      const response = await openai.chat.completions.create({
-        model,
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content }
-        ]
-      });
-      return response.choices[0].message.content || "";
-    }
+    return await this.complete({
+      model,
+      system: systemPrompt,
+      messages: [{ role: "user", content }]
+    });
   }
 
   private async logMetrics(
@@ -218,7 +322,9 @@ export class ModelRouter {
       const selectedModel = await this.getSelectedModel(analysis);
 
       // Process with selected model
-      const output = await this.processWithModel(selectedModel.id, content, systemPrompt);
+      const response = await this.processWithModel(selectedModel.id, content, systemPrompt);
+      const output = response.text;
+      const tokenCount = response.usage.inputTokens + response.usage.outputTokens;
 
       const processingTimeMs = Math.round(performance.now() - startTime);
 
@@ -234,12 +340,17 @@ export class ModelRouter {
         selectedModel.id,
         taskType,
         processingTimeMs,
-        analysis.predictedTokens,
+        tokenCount,
         qualityScore,
         errorRate,
         {
           analysis,
-          modelDetails: selectedModel
+          modelDetails: selectedModel,
+          // Differs from modelDetails when a soft budget limit forced a cheaper tier
+          servedBy: response.model,
+          promptTokens: response.usage.inputTokens,
+          completionTokens: response.usage.outputTokens,
+          totalCost: costForUsage(response.model, response.usage)
         }
       );
 
@@ -251,7 +362,8 @@ export class ModelRouter {
         errorRate,
         metadata: {
           analysis,
-          tokenUsage: analysis.predictedTokens,
+          tokenUsage: tokenCount,
+          servedBy: response.model,
           modelCapabilities: selectedModel.capabilities
         }
       };
@@ -0,0 +1,36 @@
+import nodemailer, { type Transporter } from "nodemailer";
+import debug from "debug";
+
+const log = debug("app:notifications:email");
+
+let transporter: Transporter | null = null;
+
+export interface EmailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+export function isEmailConfigured(): boolean {
+  return Boolean(process.env.SMTP_HOST && process.env.ALERTS_FROM_EMAIL);
+}
+
+// Plain SMTP so any relay works (Postfix, SES, Mailgun, a local catcher)
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  if (!transporter) {
+    transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT ?? "587"),
+      secure: process.env.SMTP_SECURE === "true",
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD } : undefined,
+    });
+  }
+
+  const info = await transporter.sendMail({
+    from: process.env.ALERTS_FROM_EMAIL,
+    to: message.to.join(", "),
+    subject: message.subject,
+    text: message.text,
+  });
+  log("Email sent", { messageId: info.messageId, recipients: message.to.length });
+}
@@ -0,0 +1,36 @@
+import { createHmac } from "crypto";
+import debug from "debug";
+import type { NotificationChannelConfig } from "@shared/schema";
+
+const log = debug("app:notifications:webhook");
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+// Receivers verify the X-Signature-256 header by computing the same HMAC
+// over the raw request body with the channel secret
+export function signPayload(payload: string, secret: string): string {
+  return `sha256=${createHmac("sha256", secret).update(payload).digest("hex")}`;
+}
+
+export async function postWebhook(config: NotificationChannelConfig, body: Record<string, any>): Promise<void> {
+  if (!config.url) {
+    throw new Error("Webhook channel has no URL");
+  }
+
+  const payload = JSON.stringify(body);
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (config.secret) {
+    headers["X-Signature-256"] = signPayload(payload, config.secret);
+  }
+
+  const response = await fetch(config.url, {
+    method: "POST",
+    headers,
+    body: payload,
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Webhook responded with ${response.status}`);
+  }
+  log("Webhook delivered", { url: config.url, status: response.status });
+}
@@ -0,0 +1,447 @@
+import { db } from "../db";
+import {
+  contractObligations,
+  users,
+  vaultDocuments,
+  type ContractObligation,
+  type ObligationCalendarQuery,
+  type ObligationFilters,
+  type ObligationType,
+  type RiskSeverity,
+  type UpdateObligation,
+  type VaultDocument,
+} from "@shared/schema";
+import { and, asc, eq, gte, inArray, isNotNull, lt, lte, or, sql, type SQL } from "drizzle-orm";
+import debug from "debug";
+import { jobQueue } from "./jobQueue";
+import { alertNotificationService } from "./alertNotificationService";
+import { documentAccessService, type AccessUser } from "./documentAccessService";
+import { organizationService, type TenantContext } from "./organizationService";
+import {
+  addDays,
+  daysBetween,
+  extractObligations,
+  nextOccurrence,
+  occurrencesBetween,
+  startOfDay,
+  toICalendar,
+  type CalendarEvent,
+} from "./obligations";
+
+const log = debug("app:obligations");
+
+const EXTRACT_JOB = "obligations.extract";
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+const OBLIGATION_PAGE_SIZE = 500;
+const DEFAULT_CALENDAR_DAYS = 90;
+const MAX_CALENDAR_DAYS = 731;
+// The feed covers recent and upcoming deadlines; recurring ones repeat
+// in the calendar client from their next due date
+const FEED_PAST_DAYS = 30;
+
+// Days before the due date that reminders go out. Notice windows get the
+// longest run-up since missing one renews the contract.
+const REMINDER_LEAD_DAYS: Record<ObligationType, number[]> = {
+  NOTICE_DEADLINE: [60, 30, 14, 7, 1],
+  RENEWAL: [30],
+  EXPIRATION: [60, 30, 7],
+  PAYMENT: [7, 1],
+  REPORTING: [7, 1],
+  DELIVERY: [7, 1],
+};
+const MAX_LEAD_DAYS = Math.max(...Object.values(REMINDER_LEAD_DAYS).flat());
+
+const REMINDER_SEVERITY: Record<ObligationType, RiskSeverity> = {
+  NOTICE_DEADLINE: "HIGH",
+  RENEWAL: "MEDIUM",
+  EXPIRATION: "HIGH",
+  PAYMENT: "MEDIUM",
+  REPORTING: "MEDIUM",
+  DELIVERY: "MEDIUM",
+};
+
+// Dates that come round whether or not anyone acts; once passed they move
+// on to the next occurrence by themselves
+const KEY_DATES: ObligationType[] = ["RENEWAL", "NOTICE_DEADLINE"];
+
+function vaultUrl(): string {
+  const base = process.env.APP_URL || process.env.CLIENT_URL || "http://localhost:5000";
+  return `${base.replace(/\/$/, "")}/vault`;
+}
+
+export class ObligationError extends Error {
+  expose = true;
+
+  constructor(message: string, public statusCode: number, public code: string) {
+    super(message);
+    this.name = "ObligationError";
+  }
+}
+
+export class ObligationService {
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor() {
+    jobQueue.register(EXTRACT_JOB, async ({ documentId }) => {
+      const obligations = await this.extract(documentId, null);
+      return { obligationCount: obligations.length };
+    });
+  }
+
+  // For callers that store a contract and should not wait on extraction
+  async queueExtraction(documentId: number, options: { organizationId?: number | null; createdBy?: number | null } = {}) {
+    return await jobQueue.enqueue(EXTRACT_JOB, { documentId }, {
+      groupId: `obligation-extraction-${documentId}`,
+      resourceType: "VAULT_DOCUMENT",
+      resourceId: documentId,
+      ...options,
+    });
+  }
+
+  // Replaces the document's extracted obligations. Obligations found again
+  // with the same fingerprint keep their status, assignee and any edits.
+  // The caller must already have edit access to the document.
+  async extract(documentId: number, effectiveDate: Date | null, options: { userId?: number | null } = {}) {
+    const [document] = await db.select().from(vaultDocuments).where(eq(vaultDocuments.id, documentId));
+    if (!document) {
+      throw new ObligationError("Document not found", 404, "NOT_FOUND");
+    }
+
+    const extraction = extractObligations(document.content, effectiveDate ? { effectiveDate } : {});
+    const today = startOfDay(new Date());
+
+    const saved = await db.transaction(async (tx) => {
+      const existing = await tx
+        .select({ id: contractObligations.id, fingerprint: contractObligations.fingerprint })
+        .from(contractObligations)
+        .where(eq(contractObligations.vaultDocumentId, documentId));
+      const found = new Set(extraction.obligations.map((obligation) => obligation.fingerprint));
+      const known = new Set(existing.map((row) => row.fingerprint));
+
+      const stale = existing.filter((row) => !found.has(row.fingerprint)).map((row) => row.id);
+      if (stale.length) {
+        await tx.delete(contractObligations).where(inArray(contractObligations.id, stale));
+      }
+
+      const added = extraction.obligations.filter((obligation) => !known.has(obligation.fingerprint));
+      if (added.length) {
+        await tx.insert(contractObligations).values(added.map((obligation) => ({
+          ...obligation,
+          // Recurring obligations are tracked from their next occurrence
+          dueDate: obligation.dueDate && obligation.recurrence && obligation.dueDate < today
+            ? nextOccurrence(obligation.dueDate, obligation.recurrence, addDays(today, -1))
+            : obligation.dueDate,
+          vaultDocumentId: documentId,
+          organizationId: document.organizationId,
+          matterId: document.matterId,
+        })));
+      }
+
+      return await tx
+        .select()
+        .from(contractObligations)
+        .where(eq(contractObligations.vaultDocumentId, documentId))
+        .orderBy(asc(contractObligations.startOffset), asc(contractObligations.id));
+    });
+
+    log("Obligations extracted", {
+      documentId,
+      userId: options.userId ?? null,
+      effectiveDate: extraction.effectiveDate,
+      obligations: saved.length,
+    });
+    return saved.map((obligation) => this.describe(obligation));
+  }
+
+  async list(user: AccessUser, tenant: TenantContext, filters: ObligationFilters = {}) {
+    const conditions: Array<SQL | undefined> = [this.visibleTo(user, tenant)];
+    if (filters.documentId) conditions.push(eq(contractObligations.vaultDocumentId, filters.documentId));
+    if (filters.type) conditions.push(eq(contractObligations.obligationType, filters.type));
+    if (filters.status) conditions.push(eq(contractObligations.status, filters.status));
+    if (filters.assigneeId) conditions.push(eq(contractObligations.assigneeId, filters.assigneeId));
+
+    const rows = await db
+      .select({ obligation: contractObligations, documentTitle: vaultDocuments.title })
+      .from(contractObligations)
+      .innerJoin(vaultDocuments, eq(contractObligations.vaultDocumentId, vaultDocuments.id))
+      .where(and(...conditions))
+      .orderBy(sql`${contractObligations.dueDate} asc nulls last`, asc(contractObligations.id))
+      .limit(OBLIGATION_PAGE_SIZE);
+
+    return rows.map(({ obligation, documentTitle }) => ({ ...this.describe(obligation), documentTitle }));
+  }
+
+  // Open obligations falling due in [from, to], one entry per occurrence.
+  // Defaults to the next 90 days.
+  async calendar(user: AccessUser, tenant: TenantContext, query: ObligationCalendarQuery = {}) {
+    const from = startOfDay(query.from ?? new Date());
+    const to = query.to ?? addDays(from, DEFAULT_CALENDAR_DAYS);
+    if (daysBetween(from, to) > MAX_CALENDAR_DAYS) {
+      throw new ObligationError(`The calendar covers at most ${MAX_CALENDAR_DAYS} days`, 400, "RANGE_TOO_LARGE");
+    }
+
+    const rows = await this.openDated(user, tenant, query, lte(contractObligations.dueDate, to));
+    const today = startOfDay(new Date());
+    const events = rows
+      .flatMap(({ obligation, documentTitle }) => occurrencesBetween(obligation.dueDate!, obligation.recurrence, from, to)
+        .map((date) => ({
+          date,
+          obligationId: obligation.id,
+          documentId: obligation.vaultDocumentId,
+          documentTitle,
+          obligationType: obligation.obligationType,
+          title: obligation.title,
+          responsibleParty: obligation.responsibleParty,
+          assigneeId: obligation.assigneeId,
+          recurring: !!obligation.recurrence,
+          overdue: date < today,
+        })))
+      .sort((a, b) => a.date.getTime() - b.date.getTime() || a.obligationId - b.obligationId);
+
+    return { from, to, events };
+  }
+
+  // iCalendar feed of open obligations, with alarms at the reminder leads
+  async calendarFeed(user: AccessUser, tenant: TenantContext, query: Omit<ObligationCalendarQuery, "from" | "to"> = {}) {
+    const since = addDays(startOfDay(new Date()), -FEED_PAST_DAYS);
+    const rows = await this.openDated(user, tenant, query, or(
+      gte(contractObligations.dueDate, since),
+      isNotNull(contractObligations.recurrence),
+    ));
+
+    const events: CalendarEvent[] = rows.map(({ obligation, documentTitle }) => ({
+      uid: `obligation-${obligation.id}@jurysync`,
+      summary: `${obligation.title} (${documentTitle})`,
+      description: [
+        obligation.responsibleParty ? `Responsible: ${obligation.responsibleParty}` : null,
+        `Source: "${obligation.sourceText}"`,
+      ].filter(Boolean).join("\n"),
+      date: obligation.dueDate!,
+      recurrence: obligation.recurrence,
+      alarmDays: REMINDER_LEAD_DAYS[obligation.obligationType],
+      url: vaultUrl(),
+      categories: [obligation.obligationType],
+    }));
+    return toICalendar(events, { name: "Contract obligations" });
+  }
+
+  // Completing an occurrence of a recurring obligation moves it on to the
+  // next one; it stays open
+  async update(user: AccessUser, tenant: TenantContext, obligationId: number, input: UpdateObligation) {
+    const { obligation, document } = await this.load(user, tenant, obligationId, "EDIT");
+    if (input.assigneeId && input.assigneeId !== obligation.assigneeId) {
+      await this.ensureAssignee(input.assigneeId, document);
+    }
+
+    const changes: Partial<typeof contractObligations.$inferInsert> = { ...input, updatedAt: new Date() };
+    const dueDate = input.dueDate !== undefined ? input.dueDate && startOfDay(input.dueDate) : obligation.dueDate;
+    const recurrence = input.recurrence !== undefined ? input.recurrence : obligation.recurrence;
+    if (input.dueDate !== undefined) changes.dueDate = dueDate;
+
+    if (input.status === "COMPLETED" || input.status === "WAIVED") {
+      changes.completedBy = user.id;
+      changes.completedAt = new Date();
+      if (input.status === "COMPLETED" && recurrence && dueDate) {
+        changes.status = "OPEN";
+        changes.dueDate = nextOccurrence(dueDate, recurrence, dueDate);
+      }
+    } else if (input.status === "OPEN") {
+      changes.completedBy = null;
+      changes.completedAt = null;
+    }
+    if (changes.dueDate !== undefined && changes.dueDate?.getTime() !== obligation.dueDate?.getTime()) {
+      changes.remindedLeadDays = null;
+    }
+
+    const [updated] = await db
+      .update(contractObligations)
+      .set(changes)
+      .where(eq(contractObligations.id, obligationId))
+      .returning();
+
+    if (input.assigneeId && input.assigneeId !== user.id && input.assigneeId !== obligation.assigneeId) {
+      await alertNotificationService.notifyUser(input.assigneeId, {
+        organizationId: document.organizationId,
+        type: "OBLIGATION_ASSIGNED",
+        title: `Obligation assigned to you on ${document.title}`,
+        body: `${updated.title}${updated.dueDate ? `, due ${updated.dueDate.toDateString()}` : ""}.`,
+        severity: REMINDER_SEVERITY[updated.obligationType],
+        resourceType: "CONTRACT_OBLIGATION",
+        resourceId: String(updated.id),
+      });
+    }
+    return { ...this.describe(updated), documentTitle: document.title };
+  }
+
+  startScheduler(intervalMs = SWEEP_INTERVAL_MS): void {
+    if (this.sweepTimer) return;
+    log("Starting obligation reminder sweep", { intervalMs });
+
+    const sweep = () => {
+      this.sendReminders().catch(error => {
+        log("Obligation reminder sweep failed", error);
+      });
+    };
+    sweep();
+    this.sweepTimer = setInterval(sweep, intervalMs);
+    this.sweepTimer.unref();
+  }
+
+  stopScheduler(): void {
+    clearInterval(this.sweepTimer);
+    this.sweepTimer = undefined;
+  }
+
+  // Moves passed renewal and notice dates on to their next occurrence, then
+  // reminds the assignee (or the document owner) at each lead before a due
+  // date. The conditional update claims each lead once, so concurrent
+  // sweepers send a single reminder.
+  async sendReminders(now = new Date()): Promise<number> {
+    const today = startOfDay(now);
+
+    const passed = await db
+      .select()
+      .from(contractObligations)
+      .where(and(
+        eq(contractObligations.status, "OPEN"),
+        inArray(contractObligations.obligationType, KEY_DATES),
+        isNotNull(contractObligations.recurrence),
+        lt(contractObligations.dueDate, today),
+      ));
+    for (const obligation of passed) {
+      await db
+        .update(contractObligations)
+        .set({
+          dueDate: nextOccurrence(obligation.dueDate!, obligation.recurrence!, addDays(today, -1)),
+          remindedLeadDays: null,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(contractObligations.id, obligation.id), eq(contractObligations.dueDate, obligation.dueDate!)));
+    }
+
+    const upcoming = await db
+      .select({ obligation: contractObligations, document: vaultDocuments })
+      .from(contractObligations)
+      .innerJoin(vaultDocuments, eq(contractObligations.vaultDocumentId, vaultDocuments.id))
+      .where(and(
+        eq(contractObligations.status, "OPEN"),
+        gte(contractObligations.dueDate, today),
+        lte(contractObligations.dueDate, addDays(today, MAX_LEAD_DAYS)),
+      ));
+
+    let sent = 0;
+    for (const { obligation, document } of upcoming) {
+      const daysLeft = daysBetween(today, obligation.dueDate!);
+      // The tightest lead reached; leads skipped while the sweep was down
+      // are not sent late
+      const lead = REMINDER_LEAD_DAYS[obligation.obligationType]
+        .filter((days) => daysLeft <= days)
+        .sort((a, b) => a - b)[0];
+      if (lead === undefined || (obligation.remindedLeadDays !== null && obligation.remindedLeadDays <= lead)) continue;
+
+      const [claimed] = await db
+        .update(contractObligations)
+        .set({ remindedLeadDays: lead })
+        .where(and(
+          eq(contractObligations.id, obligation.id),
+          eq(contractObligations.dueDate, obligation.dueDate!),
+          obligation.remindedLeadDays === null
+            ? sql`${contractObligations.remindedLeadDays} is null`
+            : eq(contractObligations.remindedLeadDays, obligation.remindedLeadDays),
+        ))
+        .returning({ id: contractObligations.id });
+      if (!claimed) continue;
+
+      const due = daysLeft === 0 ? "today" : daysLeft === 1 ? "tomorrow" : `in ${daysLeft} days`;
+      await alertNotificationService.notifyUser(obligation.assigneeId ?? document.userId, {
+        organizationId: document.organizationId,
+        type: obligation.obligationType === "NOTICE_DEADLINE" ? "NOTICE_WINDOW_CLOSING" : "OBLIGATION_DUE",
+        title: `${obligation.title} ${due} on ${document.title}`,
+        body: `${obligation.responsibleParty ? `${obligation.responsibleParty}: ` : ""}${obligation.title}, due ${obligation.dueDate!.toDateString()}. "${obligation.sourceText}"`,
+        severity: REMINDER_SEVERITY[obligation.obligationType],
+        resourceType: "CONTRACT_OBLIGATION",
+        resourceId: String(obligation.id),
+      });
+      sent++;
+    }
+
+    if (sent || passed.length) {
+      log("Obligation reminders sent", { sent, rolledForward: passed.length });
+    }
+    return sent;
+  }
+
+  private async openDated(
+    user: AccessUser,
+    tenant: TenantContext,
+    query: Omit<ObligationCalendarQuery, "from" | "to">,
+    range: SQL | undefined,
+  ) {
+    return await db
+      .select({ obligation: contractObligations, documentTitle: vaultDocuments.title })
+      .from(contractObligations)
+      .innerJoin(vaultDocuments, eq(contractObligations.vaultDocumentId, vaultDocuments.id))
+      .where(and(
+        this.visibleTo(user, tenant),
+        eq(contractObligations.status, "OPEN"),
+        isNotNull(contractObligations.dueDate),
+        range,
+        query.documentId ? eq(contractObligations.vaultDocumentId, query.documentId) : undefined,
+        query.type ? eq(contractObligations.obligationType, query.type) : undefined,
+        query.assigneeId ? eq(contractObligations.assigneeId, query.assigneeId) : undefined,
+      ))
+      .orderBy(asc(contractObligations.dueDate), asc(contractObligations.id));
+  }
+
+  // Obligations follow their document's access; the assignee may also work
+  // on an obligation they could otherwise only view
+  private async load(user: AccessUser, tenant: TenantContext, obligationId: number, permission: "VIEW" | "EDIT") {
+    const [row] = await db
+      .select({ obligation: contractObligations, document: vaultDocuments })
+      .from(contractObligations)
+      .innerJoin(vaultDocuments, eq(contractObligations.vaultDocumentId, vaultDocuments.id))
+      .where(and(eq(contractObligations.id, obligationId), organizationService.scopeFilter("vaultDocuments", tenant)));
+    if (!row) {
+      throw new ObligationError("Obligation not found", 404, "NOT_FOUND");
+    }
+
+    const allowed = row.obligation.assigneeId === user.id
+      || await documentAccessService.canAccess(user, "VAULT_DOCUMENT", row.document, permission);
+    if (!allowed) {
+      throw new ObligationError("Forbidden", 403, "FORBIDDEN");
+    }
+    return row;
+  }
+
+  // Obligations may only be handed to someone who can see the document: a
+  // member of its organization, or a user it has been shared with
+  private async ensureAssignee(assigneeId: number, document: VaultDocument) {
+    const [assignee] = await db.select({ id: users.id, role: users.role }).from(users).where(eq(users.id, assigneeId));
+    const allowed = !!assignee && (
+      (document.organizationId !== null && !!(await organizationService.getMembership(document.organizationId, assigneeId)))
+      || await documentAccessService.canAccess(assignee, "VAULT_DOCUMENT", document, "VIEW")
+    );
+    if (!allowed) {
+      throw new ObligationError("Assignee not found", 400, "INVALID_ASSIGNEE");
+    }
+  }
+
+  private visibleTo(user: AccessUser, tenant: TenantContext): SQL | undefined {
+    const accessible = documentAccessService.accessibleFilter(user, "VAULT_DOCUMENT");
+    return and(
+      organizationService.scopeFilter("vaultDocuments", tenant),
+      accessible && or(accessible, eq(contractObligations.assigneeId, user.id)),
+    );
+  }
+
+  private describe(obligation: ContractObligation) {
+    const today = startOfDay(new Date());
+    return {
+      ...obligation,
+      overdue: obligation.status === "OPEN" && !!obligation.dueDate && obligation.dueDate < today,
+      reminderLeadDays: REMINDER_LEAD_DAYS[obligation.obligationType],
+    };
+  }
+}
+
+export const obligationService = new ObligationService();
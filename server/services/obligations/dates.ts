@@ -0,0 +1,118 @@
+import type { ObligationRecurrence } from "@shared/schema";
+
+// Calendar dates are midnight UTC; contracts name days, not instants
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5, jul: 6, aug: 7, sep: 8, sept: 8, oct: 9, nov: 10, dec: 11,
+};
+const MONTH_NAME = "(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?";
+
+export interface DateMatch {
+  date: Date;
+  index: number;
+  length: number;
+}
+
+function calendarDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, month, day));
+  // Rejects 31 June and the like rather than rolling over
+  return date.getUTCMonth() === month && date.getUTCDate() === day ? date : null;
+}
+
+// "January 1, 2025", "1st January 2025", "2025-01-01" and US "01/15/2025"
+export function findDates(text: string): DateMatch[] {
+  const patterns: Array<[RegExp, (match: RegExpExecArray) => Date | null]> = [
+    [new RegExp(`\\b${MONTH_NAME}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, "gi"),
+      (match) => calendarDate(Number(match[3]), MONTHS[match[1].slice(0, 3).toLowerCase()], Number(match[2]))],
+    [new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?(?:\\s+day\\s+of)?\\s+${MONTH_NAME},?\\s+(\\d{4})\\b`, "gi"),
+      (match) => calendarDate(Number(match[3]), MONTHS[match[2].slice(0, 3).toLowerCase()], Number(match[1]))],
+    [/\b(\d{4})-(\d{2})-(\d{2})\b/g,
+      (match) => calendarDate(Number(match[1]), Number(match[2]) - 1, Number(match[3]))],
+    [/\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/g,
+      (match) => calendarDate(Number(match[3]), Number(match[1]) - 1, Number(match[2]))],
+  ];
+
+  const found: DateMatch[] = [];
+  for (const [pattern, toDate] of patterns) {
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      const date = toDate(match);
+      const index = match.index;
+      const overlaps = found.some((other) => index < other.index + other.length && other.index < index + match![0].length);
+      if (date && !overlaps) found.push({ date, index, length: match[0].length });
+    }
+  }
+  return found.sort((a, b) => a.index - b.index);
+}
+
+export function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+// Month ends clamp, so 31 January plus one month is 28 or 29 February
+export function addMonths(date: Date, months: number): Date {
+  const whole = Math.trunc(months);
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + whole, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  // Fractional months, e.g. a 45-day term read as 1.5 months, add days
+  return whole === months ? target : addDays(target, Math.round((months - whole) * 30));
+}
+
+export function daysBetween(from: Date, to: Date): number {
+  return Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS);
+}
+
+export function recurrenceMonths(recurrence: ObligationRecurrence): number | null {
+  if (recurrence.frequency === "MONTHLY") return recurrence.interval;
+  if (recurrence.frequency === "YEARLY") return recurrence.interval * 12;
+  return null;
+}
+
+// Occurrence n of a series starting at anchor, counted from 0. Each is
+// computed from the anchor so month-end clamping does not drift.
+export function occurrence(anchor: Date, recurrence: ObligationRecurrence, n: number): Date {
+  const months = recurrenceMonths(recurrence);
+  return months === null ? addDays(anchor, 7 * recurrence.interval * n) : addMonths(anchor, months * n);
+}
+
+// First occurrence strictly after the given date
+export function nextOccurrence(anchor: Date, recurrence: ObligationRecurrence, after: Date): Date {
+  let n = 1;
+  let next = occurrence(anchor, recurrence, n);
+  while (next.getTime() <= after.getTime()) {
+    next = occurrence(anchor, recurrence, ++n);
+  }
+  return next;
+}
+
+// Occurrences within [from, to], at most limit of them
+export function occurrencesBetween(
+  anchor: Date,
+  recurrence: ObligationRecurrence | null,
+  from: Date,
+  to: Date,
+  limit = 500,
+): Date[] {
+  if (!recurrence) {
+    return anchor >= from && anchor <= to ? [anchor] : [];
+  }
+  const dates: Date[] = [];
+  for (let n = 0, date = anchor; date <= to && dates.length < limit; date = occurrence(anchor, recurrence, ++n)) {
+    if (date >= from) dates.push(date);
+  }
+  return dates;
+}
+
+// A monthly recurrence of 12 months reads as yearly
+export function toRecurrence(months: number): ObligationRecurrence {
+  return months % 12 === 0
+    ? { frequency: "YEARLY", interval: months / 12 }
+    : { frequency: "MONTHLY", interval: Math.max(1, Math.round(months)) };
+}
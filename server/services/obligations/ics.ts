@@ -0,0 +1,101 @@
+import type { ObligationRecurrence } from "@shared/schema";
+
+// Serialises all-day events as iCalendar (RFC 5545)
+
+export interface CalendarEvent {
+  uid: string;
+  summary: string;
+  description: string;
+  date: Date;
+  recurrence: ObligationRecurrence | null;
+  // Days before the event to alarm, as VALARMs
+  alarmDays: number[];
+  url?: string;
+  categories?: string[];
+}
+
+const PRODUCT_ID = "-//JurySync//Obligations//EN";
+const MAX_LINE_OCTETS = 75;
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r\n|\r|\n/g, "\\n");
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// Lines longer than 75 octets continue on the next line after a space,
+// without splitting a multi-byte character
+function fold(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = parts.length ? MAX_LINE_OCTETS - 1 : MAX_LINE_OCTETS;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function recurrenceRule(recurrence: ObligationRecurrence): string {
+  return `RRULE:FREQ=${recurrence.frequency};INTERVAL=${recurrence.interval}`;
+}
+
+export function toICalendar(events: CalendarEvent[], options: { name: string; generatedAt?: Date }): string {
+  const stamp = formatTimestamp(options.generatedAt ?? new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+  ];
+
+  for (const event of events) {
+    const next = new Date(event.date.getTime() + 24 * 60 * 60 * 1000);
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatDate(event.date)}`,
+      `DTEND;VALUE=DATE:${formatDate(next)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      `DESCRIPTION:${escapeText(event.description)}`,
+      "TRANSP:TRANSPARENT",
+    );
+    if (event.recurrence) lines.push(recurrenceRule(event.recurrence));
+    if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeText).join(",")}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    for (const days of event.alarmDays) {
+      lines.push(
+        "BEGIN:VALARM",
+        "ACTION:DISPLAY",
+        `DESCRIPTION:${escapeText(event.summary)}`,
+        `TRIGGER:-P${days}D`,
+        "END:VALARM",
+      );
+    }
+    lines.push("END:VEVENT");
+  }
+  lines.push("END:VCALENDAR");
+
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,368 @@
+import type { ClauseType, ObligationRecurrence, ObligationType } from "@shared/schema";
+import { extractClauses, type ClauseMatch } from "../clauses";
+import { findAmounts, findDurations, inDays, inMonths } from "../clauses/attributes";
+import { trimRange } from "../clauses/segmenter";
+import { addDays, addMonths, findDates, occurrence, recurrenceMonths, toRecurrence, type DateMatch } from "./dates";
+
+export {
+  addDays,
+  daysBetween,
+  nextOccurrence,
+  occurrencesBetween,
+  startOfDay,
+} from "./dates";
+export { toICalendar, type CalendarEvent } from "./ics";
+
+export interface ObligationMatch {
+  obligationType: ObligationType;
+  title: string;
+  responsibleParty: string | null;
+  dueDate: Date | null;
+  recurrence: ObligationRecurrence | null;
+  // For deadlines that run from an event, e.g. "Within 30 days of invoice"
+  trigger: string | null;
+  clauseType: ClauseType | null;
+  sourceText: string;
+  // Offsets into the text given to extractObligations, end exclusive
+  startOffset: number;
+  endOffset: number;
+  confidence: number;
+  // Same text and effective date, same fingerprint
+  fingerprint: string;
+}
+
+export interface ObligationExtraction {
+  // As stated in the contract, or as given
+  effectiveDate: Date | null;
+  parties: string[];
+  obligations: ObligationMatch[];
+}
+
+interface Sentence {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const CLAUSE_CONFIDENCE_CAP = 0.9;
+const STATED_DATE_CONFIDENCE = 0.8;
+const COMPUTED_DATE_CONFIDENCE = 0.7;
+const UNDATED_CONFIDENCE = 0.6;
+const PREAMBLE_CHARS = 2000;
+
+const OBLIGATION_VERB = "(?:shall|must|will|agrees?\\s+to|(?:is|are)\\s+required\\s+to|undertakes?\\s+to)";
+const DUTY = new RegExp(`\\b${OBLIGATION_VERB}\\b|\\b(?:is|are|shall\\s+be|will\\s+be|becomes?)\\s+(?:due|payable)\\b`, "i");
+
+// Role names used as parties when the contract defines none
+const ROLE_NAMES = [
+  "Customer", "Client", "Supplier", "Vendor", "Provider", "Service Provider", "Contractor", "Consultant", "Company",
+  "Buyer", "Seller", "Purchaser", "Licensee", "Licensor", "Tenant", "Landlord", "Lessee", "Lessor", "Employer",
+  "Employee", "Distributor", "Reseller", "Borrower", "Lender",
+];
+const NOT_PARTIES = /^(?:Agreement|Effective Date|Parties|Party|Services?|Term|Initial Term|Renewal Term|Confidential Information|Contract|Territory|Products?|Deliverables?|Fees?|Work|Software|Documentation)$/;
+
+// Checked in order, so semi-annual wins over annual
+const FREQUENCIES: Array<[RegExp, ObligationRecurrence, string]> = [
+  [/\b(?:semi-?annual(?:ly)?|bi-?annual(?:ly)?|every six months|twice (?:a|per|each) year)\b/i, { frequency: "MONTHLY", interval: 6 }, "semi-annual"],
+  [/\b(?:quarterly|(?:each|every|per) (?:calendar )?quarter|every three months)\b/i, { frequency: "MONTHLY", interval: 3 }, "quarterly"],
+  [/\b(?:monthly|(?:each|every|per) (?:calendar )?month)\b/i, { frequency: "MONTHLY", interval: 1 }, "monthly"],
+  [/\b(?:weekly|(?:each|every|per) week)\b/i, { frequency: "WEEKLY", interval: 1 }, "weekly"],
+  [/\b(?:annual(?:ly)?|yearly|(?:each|every) (?:calendar |contract )?year|per (?:year|annum))\b/i, { frequency: "YEARLY", interval: 1 }, "annual"],
+];
+
+// Checked in order: "deliver a report" is reporting, not delivery
+const DUTY_KINDS: Array<[Extract<ObligationType, "REPORTING" | "PAYMENT" | "DELIVERY">, RegExp, string]> = [
+  ["REPORTING", /\b(?:reports?|reporting|statements?|certif(?:y|icates?|ication)|forecasts?|reconciliations?)\b/i, "reporting"],
+  ["PAYMENT", /\b(?:pay|pays|paid|payable|payments?|invoices?|fees?|install?ments?|royalt(?:y|ies))\b/i, "payment"],
+  ["DELIVERY", /\b(?:deliver|delivery|provide|submit|furnish|complete)\b/i, "delivery"],
+];
+
+// Dates that set up the contract rather than fall due
+const SETUP_CONTEXT = /\b(?:effective|dated|entered\s+into|made|executed|signed)\b[^.]{0,40}$/i;
+const EXPIRY = /\b(?:expire[sd]?|expiration|expiry|terminates?\s+on|ends?\s+on|(?:continue|remain)s?\b[^.]*\buntil|through)\b/i;
+const TERM_LENGTH = /\b(?:term|continues?|remains?\s+in\s+(?:full\s+)?(?:force|effect))\b/i;
+const AFTER_EVENT = /\b(?:after|following|surviv\w*)\b/i;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+// Sentences, and list items or paragraphs that do not end with a full stop
+function splitSentences(text: string): Sentence[] {
+  const sentences: Sentence[] = [];
+  const boundary = /[.!?](?=\s|$)|\n\s*\n|\n(?=\s*(?:\d+(?:\.\d+)*[.)]?|\(?[a-z0-9]{1,3}\)|[-•*])\s)/g;
+  let start = 0;
+  const push = (from: number, to: number) => {
+    const [trimmedStart, trimmedEnd] = trimRange(text, from, to);
+    if (trimmedEnd > trimmedStart) {
+      sentences.push({ text: text.slice(trimmedStart, trimmedEnd), start: trimmedStart, end: trimmedEnd });
+    }
+  };
+  let match: RegExpExecArray | null;
+  while ((match = boundary.exec(text)) !== null) {
+    push(start, match.index + match[0].length);
+    start = boundary.lastIndex;
+  }
+  push(start, text.length);
+  return sentences;
+}
+
+// Defined party names in the preamble, e.g. Acme Inc. ("Supplier")
+export function findParties(text: string): string[] {
+  const defined = /\((?:each\s+|the\s+|hereinafter\s+(?:referred\s+to\s+as\s+)?(?:the\s+)?)?["“]([A-Z][A-Za-z]*(?:\s+[A-Z][A-Za-z]*){0,2})["”]\)/g;
+  const parties = new Set<string>();
+  const preamble = text.slice(0, PREAMBLE_CHARS);
+  let match: RegExpExecArray | null;
+  while ((match = defined.exec(preamble)) !== null) {
+    if (!NOT_PARTIES.test(match[1])) parties.add(match[1]);
+  }
+  return Array.from(parties);
+}
+
+function nonSetupDates(sentence: string): DateMatch[] {
+  return findDates(sentence).filter((date) => !SETUP_CONTEXT.test(sentence.slice(0, date.index)));
+}
+
+export function findEffectiveDate(text: string): Date | null {
+  for (const date of findDates(text.slice(0, PREAMBLE_CHARS))) {
+    if (SETUP_CONTEXT.test(text.slice(Math.max(0, date.index - 80), date.index))) return date.date;
+  }
+  return null;
+}
+
+// The party the sentence puts the duty on, e.g. "Supplier shall", "the
+// Customer agrees to" or "payable by Customer". Permissive matching also
+// takes "either party may" and "either party gives", for notices.
+function responsibleParty(sentence: string, parties: string[], { permissive = false } = {}): string | null {
+  const verb = permissive ? `(?:${OBLIGATION_VERB}|may|gives?|serves?|delivers?|provides?)` : OBLIGATION_VERB;
+  const candidates = [...parties, ...ROLE_NAMES.filter((role) => !parties.includes(role))];
+
+  let best: { name: string; index: number } | null = null;
+  for (const name of candidates) {
+    const match = new RegExp(`\\b(?:the\\s+)?${escapeRegExp(name)}\\s+${verb}\\b`).exec(sentence)
+      ?? new RegExp(`\\b(?:paid|payable|provided|delivered|submitted|given)\\s+by\\s+(?:the\\s+)?${escapeRegExp(name)}\\b`).exec(sentence);
+    if (match && (!best || match.index < best.index)) best = { name, index: match.index };
+  }
+  if (best) return best.name;
+
+  const generic = new RegExp(`\\b(each|either|both)\\s+part(?:y|ies)\\s+${verb}\\b`, "i").exec(sentence);
+  if (generic) {
+    return generic[1].toLowerCase() === "both" ? "Both Parties" : `${capitalize(generic[1].toLowerCase())} Party`;
+  }
+  return null;
+}
+
+function frequencyOf(sentence: string): { recurrence: ObligationRecurrence; label: string } | null {
+  const found = FREQUENCIES.find(([pattern]) => pattern.test(sentence));
+  return found ? { recurrence: found[1], label: found[2] } : null;
+}
+
+// First due date of a recurring duty. "Within 30 days after the end of each
+// calendar quarter" runs from the first quarter end after the effective
+// date; "in advance" falls due on the effective date; anything else one
+// period after it.
+function firstDue(effectiveDate: Date, recurrence: ObligationRecurrence, sentence: string): Date {
+  const periodEnd = /\b(?:after|following)\s+the\s+(?:end|close)\s+of\s+(?:each|every|the)\b/i.exec(sentence);
+  const months = recurrenceMonths(recurrence);
+  if (periodEnd && months !== null) {
+    const lag = findDurations(sentence.slice(0, periodEnd.index)).pop();
+    const month = effectiveDate.getUTCMonth();
+    const end = new Date(Date.UTC(effectiveDate.getUTCFullYear(), Math.ceil((month + 1) / months) * months, 0));
+    return lag ? addDays(end, inDays(lag)) : end;
+  }
+  if (/\bin advance\b/i.test(sentence)) return effectiveDate;
+  return occurrence(effectiveDate, recurrence, 1);
+}
+
+// "Within 30 days after receipt of an invoice", or Net 30 payment terms
+function triggerOf(sentence: string): string | null {
+  const net = /\bnet\s*\(?(\d{1,3})\)?(?!\s*%)/i.exec(sentence);
+  if (net) return `Within ${net[1]} days of invoice`;
+  const within = /\bwithin\s+([^,.;]*?\b(?:days?|weeks?|months?|years?))\s+(?:after|following|of|from)\s+((?:the\s+|its\s+|each\s+|any\s+)?[^,.;]{3,60}?)(?=[,.;]|\s+(?:and|or|unless|provided)\b|$)/i.exec(sentence);
+  return within ? `Within ${within[1].trim()} of ${within[2].trim()}` : null;
+}
+
+function amountLabel(sentence: string): string | null {
+  const [amount] = findAmounts(sentence);
+  if (!amount) return null;
+  return new Intl.NumberFormat("en-US", { style: "currency", currency: amount.currency }).format(amount.amount);
+}
+
+function containingClause(clauses: ClauseMatch[], start: number, end: number): ClauseMatch | undefined {
+  return clauses.find((clause) => clause.startOffset <= start && clause.endOffset >= end);
+}
+
+function fingerprint(type: ObligationType, start: number, end: number, dueDate: Date | null, index = 0): string {
+  return `${type}:${start}-${end}:${dueDate ? dueDate.toISOString().slice(0, 10) : "undated"}:${index}`;
+}
+
+// Payments, reports and deliveries: sentences that put a duty on a party
+// and give it a date, a frequency or a triggering event
+function dutyObligations(sentences: Sentence[], clauses: ClauseMatch[], parties: string[], effectiveDate: Date | null): ObligationMatch[] {
+  const obligations: ObligationMatch[] = [];
+  for (const sentence of sentences) {
+    if (!DUTY.test(sentence.text)) continue;
+    const kind = DUTY_KINDS.find(([, pattern]) => pattern.test(sentence.text));
+    if (!kind) continue;
+    const [obligationType, , noun] = kind;
+
+    const frequency = frequencyOf(sentence.text);
+    const dates = nonSetupDates(sentence.text);
+    const trigger = dates.length || frequency ? null : triggerOf(sentence.text);
+    if (!dates.length && !frequency && !trigger) continue;
+
+    const amount = obligationType === "PAYMENT" ? amountLabel(sentence.text) : null;
+    const base = {
+      obligationType,
+      title: capitalize(`${frequency ? `${frequency.label} ` : ""}${noun}${amount ? ` of ${amount}` : ""}`),
+      responsibleParty: responsibleParty(sentence.text, parties),
+      clauseType: containingClause(clauses, sentence.start, sentence.end)?.clauseType ?? null,
+      sourceText: sentence.text,
+      startOffset: sentence.start,
+      endOffset: sentence.end,
+    };
+
+    if (frequency) {
+      // A stated date starts the series; otherwise it runs from the effective date
+      const dueDate = dates[0]?.date ?? (effectiveDate && firstDue(effectiveDate, frequency.recurrence, sentence.text));
+      obligations.push({
+        ...base,
+        dueDate,
+        recurrence: frequency.recurrence,
+        trigger: null,
+        confidence: dates.length ? STATED_DATE_CONFIDENCE : dueDate ? COMPUTED_DATE_CONFIDENCE : UNDATED_CONFIDENCE,
+        fingerprint: fingerprint(obligationType, sentence.start, sentence.end, dueDate),
+      });
+    } else if (dates.length) {
+      // A schedule of instalments is one obligation per date
+      dates.forEach((date, index) => obligations.push({
+        ...base,
+        dueDate: date.date,
+        recurrence: null,
+        trigger: null,
+        confidence: STATED_DATE_CONFIDENCE,
+        fingerprint: fingerprint(obligationType, sentence.start, sentence.end, date.date, index),
+      }));
+    } else {
+      obligations.push({
+        ...base,
+        dueDate: null,
+        recurrence: null,
+        trigger,
+        confidence: UNDATED_CONFIDENCE,
+        fingerprint: fingerprint(obligationType, sentence.start, sentence.end, null),
+      });
+    }
+  }
+  return obligations;
+}
+
+// When the current term ends: a stated expiry date, else the effective date
+// plus the initial term
+function findTermEnd(sentences: Sentence[], renewal: ClauseMatch | undefined, effectiveDate: Date | null) {
+  for (const sentence of sentences) {
+    if (!EXPIRY.test(sentence.text)) continue;
+    const [date] = nonSetupDates(sentence.text);
+    if (date) return { date: date.date, source: sentence, confidence: STATED_DATE_CONFIDENCE };
+  }
+  if (!effectiveDate) return null;
+
+  if (renewal?.attributes.initialTermMonths) {
+    return {
+      date: addMonths(effectiveDate, renewal.attributes.initialTermMonths),
+      source: { text: renewal.text, start: renewal.startOffset, end: renewal.endOffset },
+      confidence: COMPUTED_DATE_CONFIDENCE,
+    };
+  }
+  for (const sentence of sentences) {
+    if (!TERM_LENGTH.test(sentence.text) || AFTER_EVENT.test(sentence.text)) continue;
+    const [duration] = findDurations(sentence.text);
+    if (duration) {
+      return { date: addMonths(effectiveDate, inMonths(duration)), source: sentence, confidence: COMPUTED_DATE_CONFIDENCE };
+    }
+  }
+  return null;
+}
+
+// Renewal and the last day to give notice of non-renewal for contracts that
+// renew automatically; the expiry date for those that do not
+function termObligations(sentences: Sentence[], clauses: ClauseMatch[], parties: string[], effectiveDate: Date | null): ObligationMatch[] {
+  const renewal = clauses.find((clause) => clause.clauseType === "AUTO_RENEWAL");
+  const termEnd = findTermEnd(sentences, renewal, effectiveDate);
+
+  if (!renewal) {
+    if (!termEnd) return [];
+    const { source, date } = termEnd;
+    return [{
+      obligationType: "EXPIRATION",
+      title: "Contract expires",
+      responsibleParty: null,
+      dueDate: date,
+      recurrence: null,
+      trigger: null,
+      clauseType: containingClause(clauses, source.start, source.end)?.clauseType ?? null,
+      sourceText: source.text,
+      startOffset: source.start,
+      endOffset: source.end,
+      confidence: termEnd.confidence,
+      fingerprint: fingerprint("EXPIRATION", source.start, source.end, date),
+    }];
+  }
+
+  const { renewalTermMonths, initialTermMonths, noticePeriodDays } = renewal.attributes;
+  // "Successive periods of equal length" renew for the initial term
+  const months = renewalTermMonths ?? initialTermMonths;
+  const recurrence = months ? toRecurrence(months) : null;
+  const renewsOn = termEnd?.date ?? null;
+  const base = {
+    recurrence,
+    clauseType: "AUTO_RENEWAL" as const,
+    sourceText: renewal.text,
+    startOffset: renewal.startOffset,
+    endOffset: renewal.endOffset,
+    confidence: Math.min(renewal.confidence, termEnd?.confidence ?? UNDATED_CONFIDENCE, CLAUSE_CONFIDENCE_CAP),
+  };
+
+  const obligations: ObligationMatch[] = [{
+    ...base,
+    obligationType: "RENEWAL",
+    title: months ? `Contract renews for ${months} months` : "Contract renews",
+    responsibleParty: null,
+    dueDate: renewsOn,
+    trigger: renewsOn ? null : "At the end of the current term",
+    fingerprint: fingerprint("RENEWAL", renewal.startOffset, renewal.endOffset, renewsOn),
+  }];
+  if (noticePeriodDays) {
+    const dueDate = renewsOn && addDays(renewsOn, -noticePeriodDays);
+    obligations.push({
+      ...base,
+      obligationType: "NOTICE_DEADLINE",
+      title: `Notice of non-renewal due ${noticePeriodDays} days before renewal`,
+      responsibleParty: responsibleParty(renewal.text, parties, { permissive: true }),
+      dueDate,
+      trigger: dueDate ? null : `${noticePeriodDays} days before the end of the current term`,
+      fingerprint: fingerprint("NOTICE_DEADLINE", renewal.startOffset, renewal.endOffset, dueDate),
+    });
+  }
+  return obligations;
+}
+
+// Deterministic, like extractClauses: the same text and effective date
+// always yield the same obligations, in document order
+export function extractObligations(text: string, options: { effectiveDate?: Date } = {}): ObligationExtraction {
+  const clauses = extractClauses(text);
+  const sentences = splitSentences(text);
+  const parties = findParties(text);
+  const effectiveDate = options.effectiveDate ?? findEffectiveDate(text);
+
+  const obligations = [
+    ...termObligations(sentences, clauses, parties, effectiveDate),
+    ...dutyObligations(sentences, clauses, parties, effectiveDate),
+  ].sort((a, b) => a.startOffset - b.startOffset || a.fingerprint.localeCompare(b.fingerprint));
+
+  return { effectiveDate, parties, obligations };
+}
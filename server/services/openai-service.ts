@@ -1,8 +1,5 @@
-import OpenAI from "openai";
 import { PDFDocument } from "pdf-lib";
-
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+import { modelRouter } from "./modelRouter";
 
 interface ComplianceAnalysisResult {
   score: number;
@@ -28,22 +25,19 @@ export async function analyzeComplianceDocument(pdfBuffer: Buffer): Promise<Comp
     }
 
     // Analyze with GPT-4o
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
+    const response = await modelRouter.complete({
+      role: "structured",
+      system: "You are a legal compliance expert. Analyze the provided document for compliance issues and provide a structured analysis with a compliance score (0-100), identified issues, and recommendations.",
       messages: [
-        {
-          role: "system",
-          content: "You are a legal compliance expert. Analyze the provided document for compliance issues and provide a structured analysis with a compliance score (0-100), identified issues, and recommendations."
-        },
         {
           role: "user",
           content: fullText
         }
       ],
-      response_format: { type: "json_object" }
+      responseFormat: "json"
     });
 
-    const analysisText = response.choices[0].message.content;
+    const analysisText = response.text;
     if (!analysisText) {
       throw new Error("No analysis received from OpenAI");
     }
@@ -68,13 +62,10 @@ export async function analyzeComplianceDocument(pdfBuffer: Buffer): Promise<Comp
 
 export async function suggestCompliance(text: string): Promise<string> {
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
+    const response = await modelRouter.complete({
+      role: "structured",
+      system: "You are a legal compliance expert. Provide specific suggestions to improve compliance based on the identified issues.",
       messages: [
-        {
-          role: "system",
-          content: "You are a legal compliance expert. Provide specific suggestions to improve compliance based on the identified issues."
-        },
         {
           role: "user",
           content: text
@@ -82,7 +73,7 @@ export async function suggestCompliance(text: string): Promise<string> {
       ]
     });
 
-    const suggestion = response.choices[0].message.content;
+    const suggestion = response.text;
     if (!suggestion) {
       throw new Error("No suggestions received from OpenAI");
     }
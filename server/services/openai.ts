@@ -1,9 +1,6 @@
-import OpenAI from "openai";
 import { z } from "zod";
 import { getTemplate, type Template } from "./templateStore";
-
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+import { modelRouter } from "./modelRouter";
 
 export interface ContractRequirement {
   description: string;
@@ -43,11 +40,7 @@ export async function generateContract(
   customInstructions?: string
 ): Promise<string> {
   try {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error("OpenAI API key not configured");
-    }
-
-    const template = getTemplate(templateId);
+    const template = await getTemplate(templateId);
     if (!template) {
       throw new Error(`Template ${templateId} not found`);
     }
@@ -66,7 +59,7 @@ Instructions:
 8. Do not include any explanations or metadata in your response`;
 
     const userPrompt = `Base Template:
-${template.baseContent}
+${template.content}
 
 Requirements (in order of importance):
 ${requirements.map(req => `[${req.importance}] ${req.description}`).join('\n')}
@@ -76,19 +69,17 @@ ${customInstructions ? `\nCustom Instructions:\n${customInstructions}` : ''}
 Required Variables:
 ${template.variables.filter(v => v.required).map(v => `- ${v.name}: ${v.description}`).join('\n')}`;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
+    const response = await modelRouter.complete({
+      role: "drafting",
+      system: systemPrompt,
       messages: [
-        { role: "system", content: systemPrompt },
         { role: "user", content: userPrompt }
       ],
       temperature: 0.7,
-      max_tokens: 2500,
-      presence_penalty: 0.1,
-      frequency_penalty: 0.1
+      maxTokens: 2500
     });
 
-    const contractText = response.choices[0]?.message?.content;
+    const contractText = response.text;
     if (!contractText) {
       throw new Error("Failed to generate contract text");
     }
@@ -105,22 +96,15 @@ export async function suggestRequirements(
   currentDescription?: string
 ): Promise<RequirementSuggestion[]> {
   try {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error("OpenAI API key not configured");
-    }
-
-    const template = getTemplate(templateId);
+    const template = await getTemplate(templateId);
     if (!template) {
       throw new Error("Template not found");
     }
 
-    const systemMessage = {
-      role: "system",
-      content: "You are a legal requirements expert. Return suggestions as a JSON array with each suggestion containing description, importance, and context fields. Include clear, specific, and actionable requirements."
-    };
+    const systemPrompt = "You are a legal requirements expert. Return suggestions as a JSON array with each suggestion containing description, importance, and context fields. Include clear, specific, and actionable requirements.";
 
     const userMessage = {
-      role: "user",
+      role: "user" as const,
       content: JSON.stringify({
         template_name: template.name,
         template_category: template.category,
@@ -130,14 +114,15 @@ export async function suggestRequirements(
       })
     };
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [systemMessage, userMessage],
+    const response = await modelRouter.complete({
+      role: "structured",
+      system: systemPrompt,
+      messages: [userMessage],
       temperature: 0.7,
-      response_format: { type: "json_object" }
+      responseFormat: "json"
     });
 
-    const result = JSON.parse(response.choices[0]?.message?.content || "{}");
+    const result = JSON.parse(response.text || "{}");
     return result.suggestions || [];
   } catch (error: any) {
     console.error("Requirement Suggestion Error:", error);
@@ -150,22 +135,15 @@ export async function getAutocomplete(
   partialText: string
 ): Promise<AutocompleteResponse> {
   try {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error("OpenAI API key not configured");
-    }
-
-    const template = getTemplate(templateId);
+    const template = await getTemplate(templateId);
     if (!template) {
       throw new Error("Template not found");
     }
 
-    const systemMessage = {
-      role: "system",
-      content: "You are a legal contract expert. Based on the partial text, suggest completions that would make good contract requirements. Return response as JSON with suggestions array and context string."
-    };
+    const systemPrompt = "You are a legal contract expert. Based on the partial text, suggest completions that would make good contract requirements. Return response as JSON with suggestions array and context string.";
 
     const userMessage = {
-      role: "user",
+      role: "user" as const,
       content: JSON.stringify({
         template_name: template.name,
         template_category: template.category,
@@ -174,14 +152,15 @@ export async function getAutocomplete(
       })
     };
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [systemMessage, userMessage],
+    const response = await modelRouter.complete({
+      role: "structured",
+      system: systemPrompt,
+      messages: [userMessage],
       temperature: 0.3,
-      response_format: { type: "json_object" }
+      responseFormat: "json"
     });
 
-    const result = JSON.parse(response.choices[0]?.message?.content || "{}");
+    const result = JSON.parse(response.text || "{}");
     return {
       suggestions: result.suggestions || [],
       context: result.context || "AI-generated suggestions"
@@ -197,22 +176,15 @@ export async function getCustomInstructionSuggestions(
   currentRequirements: ContractRequirement[]
 ): Promise<CustomInstructionSuggestion[]> {
   try {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error("OpenAI API key not configured");
-    }
-
-    const template = getTemplate(templateId);
+    const template = await getTemplate(templateId);
     if (!template) {
       throw new Error("Template not found");
     }
 
-    const systemMessage = {
-      role: "system",
-      content: "You are a legal contract expert. Suggest custom instructions that would enhance the contract based on the template and current requirements. Return as JSON array with suggestion, explanation, and impact fields."
-    };
+    const systemPrompt = "You are a legal contract expert. Suggest custom instructions that would enhance the contract based on the template and current requirements. Return as JSON array with suggestion, explanation, and impact fields.";
 
     const userMessage = {
-      role: "user",
+      role: "user" as const,
       content: JSON.stringify({
         template_name: template.name,
         template_category: template.category,
@@ -221,14 +193,15 @@ export async function getCustomInstructionSuggestions(
       })
     };
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [systemMessage, userMessage],
+    const response = await modelRouter.complete({
+      role: "structured",
+      system: systemPrompt,
+      messages: [userMessage],
       temperature: 0.7,
-      response_format: { type: "json_object" }
+      responseFormat: "json"
     });
 
-    const result = JSON.parse(response.choices[0]?.message?.content || "{}");
+    const result = JSON.parse(response.text || "{}");
     return result.suggestions || [];
   } catch (error: any) {
     console.error("Custom Instructions Suggestion Error:", error);
@@ -257,12 +230,12 @@ const DocumentAnalysisSchema = z.object({
 });
 
 async function summarizeArticle(text: string): Promise<string> {
-  const response = await openai.chat.completions.create({
-    model: "gpt-4o",
+  const response = await modelRouter.complete({
+    role: "structured",
     messages: [{ role: "user", content: `Please summarize the following text:\n\n${text}` }],
   });
 
-  return response.choices[0].message.content || '';
+  return response.text || '';
 }
 
 export async function analyzeDocument(content: string) {
@@ -280,22 +253,19 @@ export async function analyzeDocument(content: string) {
       throw new Error('Empty or invalid document content after cleaning');
     }
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
+    const response = await modelRouter.complete({
+      role: "structured",
+      system: "You are a legal document analyzer. Analyze documents and output JSON format results.",
       messages: [
-        {
-          role: "system",
-          content: "You are a legal document analyzer. Analyze documents and output JSON format results."
-        },
         {
           role: "user",
           content: `Analyze this legal document and provide a comprehensive analysis:\n\n${cleanContent.substring(0, 8000)}`
         }
       ],
-      response_format: { type: "json_object" }
+      responseFormat: "json"
     });
 
-    const responseText = response.choices[0].message.content;
+    const responseText = response.text;
     if (!responseText) {
       throw new Error('Empty response from OpenAI');
     }
@@ -328,13 +298,10 @@ export async function generateReport(documentAnalysis: any, format: 'detailed' |
       ? `Generate a detailed analysis report based on this document analysis data. Include all sections and provide actionable insights.`
       : `Generate a concise summary report highlighting the key findings and critical action items.`;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
+    const response = await modelRouter.complete({
+      role: "structured",
+      system: "You are an expert legal document analyzer. Generate professional, well-structured reports.",
       messages: [
-        {
-          role: "system",
-          content: "You are an expert legal document analyzer. Generate professional, well-structured reports."
-        },
         {
           role: "user", 
           content: `${prompt}\n\nAnalysis data:\n${JSON.stringify(documentAnalysis, null, 2)}`
@@ -342,7 +309,7 @@ export async function generateReport(documentAnalysis: any, format: 'detailed' |
       ]
     });
 
-    return response.choices[0].message.content || '';
+    return response.text || '';
   } catch (error: any) {
     console.error("Report generation error:", error);
     throw new Error(`Failed to generate report: ${error.message}`);
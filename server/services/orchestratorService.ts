@@ -1,100 +1,19 @@
 import { ServiceContainer } from "./ServiceContainer";
-import { Anthropic } from "@anthropic-ai/sdk";
+import { modelRouter } from "./modelRouter";
 import { complianceAuditService } from "./complianceAuditService";
 import { legalResearchService } from "./legalResearchService";
 import { continuousLearningService } from "./continuousLearningService";
 import { documentProcessor } from "./documentProcessor";
 import { db } from "../db";
-import { legalDocuments } from "@shared/schema";
+import { legalDocuments, type BackgroundJob, type JobStatus } from "@shared/schema";
 import { eq } from "drizzle-orm";
 import { pdfService } from "./pdf-service";
+import { jobQueue, type JobContext } from "./jobQueue";
 
 const HTML_TAG_REGEX = /<[^>]*>|<!DOCTYPE.*?>/i;
 const DOCTYPE_REGEX = /<!DOCTYPE\s+[^>]*>|<!doctype\s+[^>]*>/gi;
 const INVALID_CHARACTERS_REGEX = /[\u0000-\u0008\u000B-\u000C\u000E-\u001F]/g;
 
-class ServiceInitializer {
-  private static instance: ServiceInitializer;
-  private initializationQueue: Map<
-    string,
-    {
-      initialized: boolean;
-      initializing: boolean;
-      promise: Promise<void> | null;
-    }
-  > = new Map();
-  private services: Map<string, any> = new Map();
-
-  private constructor() {
-    // Initialize map with service states
-    ["pdf", "compliance", "research", "learning", "processor"].forEach(
-      (service) => {
-        this.initializationQueue.set(service, {
-          initialized: false,
-          initializing: false,
-          promise: null,
-        });
-      },
-    );
-  }
-
-  static getInstance(): ServiceInitializer {
-    if (!ServiceInitializer.instance) {
-      ServiceInitializer.instance = new ServiceInitializer();
-    }
-    return ServiceInitializer.instance;
-  }
-
-  async initializeService(
-    serviceName: string,
-    initFn: () => Promise<any>,
-  ): Promise<void> {
-    const serviceState = this.initializationQueue.get(serviceName);
-    if (!serviceState) return;
-
-    if (serviceState.initialized) return;
-    if (serviceState.initializing) {
-      return serviceState.promise;
-    }
-
-    serviceState.initializing = true;
-    serviceState.promise = initFn()
-      .then((service) => {
-        this.services.set(serviceName, service);
-        serviceState.initialized = true;
-      })
-      .catch((error) => {
-        console.error(
-          `[ServiceInitializer] Failed to initialize ${serviceName}:`,
-          error,
-        );
-        // Don't throw - allow graceful degradation
-      })
-      .finally(() => {
-        serviceState.initializing = false;
-      });
-
-    return serviceState.promise;
-  }
-
-  async getService(serviceName: string): Promise<any> {
-    const service = this.services.get(serviceName);
-    if (service) return service;
-
-    // Wait for initialization if in progress
-    const serviceState = this.initializationQueue.get(serviceName);
-    if (serviceState?.initializing && serviceState.promise) {
-      await serviceState.promise;
-    }
-
-    return this.services.get(serviceName);
-  }
-
-  isInitialized(serviceName: string): boolean {
-    return this.initializationQueue.get(serviceName)?.initialized ?? false;
-  }
-}
-
 // Enhanced logging function
 function log(
   message: string,
@@ -126,148 +45,92 @@ const COMPLIANCE_KEYWORDS = [
   "governance",
 ];
 
-class TaskManager {
-  private static instance: TaskManager;
-  private tasks: Map<string, any>;
-  private taskHistory: Map<string, any[]>;
-  private taskResults: Map<string, any>;
-
-  private constructor() {
-    this.tasks = new Map();
-    this.taskHistory = new Map();
-    this.taskResults = new Map();
-  }
-
-  static getInstance(): TaskManager {
-    if (!TaskManager.instance) {
-      TaskManager.instance = new TaskManager();
-    }
-    return TaskManager.instance;
-  }
-
-  createTask(taskId: string, type: string, data: any) {
-    const timestamp = Date.now();
-    const task = {
-      id: taskId,
-      type,
-      data,
-      status: "pending",
-      progress: 0,
-      currentStep: 0,
-      currentStepDetails: {
-        name: "Initialization",
-        description: "Setting up task and validating inputs",
-      },
-      events: [
-        {
-          timestamp,
-          status: "created",
-          details: "Task created and pending analysis",
-        },
-      ],
-      createdAt: timestamp,
-      updatedAt: timestamp,
-    };
-    this.tasks.set(taskId, task);
-    this.taskHistory.set(taskId, []);
-    this.taskResults.set(taskId, null);
-    return task;
-  }
-
-  updateTask(taskId: string, updates: Partial<any>) {
-    const task = this.tasks.get(taskId);
-    if (!task) throw new Error("Task not found");
-
-    const updatedTask = {
-      ...task,
-      ...updates,
-      updatedAt: Date.now(),
-    };
-
-    const history = this.taskHistory.get(taskId) || [];
-    history.push({
-      timestamp: Date.now(),
-      changes: updates,
-      previousState: { ...task },
-    });
-
-    this.tasks.set(taskId, updatedTask);
-    this.taskHistory.set(taskId, history);
-    return updatedTask;
-  }
-
-  setTaskResult(taskId: string, result: any) {
-    this.taskResults.set(taskId, result);
-    this.updateTask(taskId, {
-      status: "completed",
-      completedAt: new Date().toISOString(),
-      progress: 100,
-    });
-  }
-
-  getTaskResult(taskId: string) {
-    const result = this.taskResults.get(taskId);
-    const task = this.tasks.get(taskId);
-    if (!task) {
-      return {
-        status: "error",
-        error: "Task not found",
-        details: "The requested task ID does not exist",
-      };
-    }
-
-    if (task.status === "error") {
-      return {
-        status: "error",
-        error: task.error,
-        details: task.errorDetails || "An error occurred during processing",
-      };
-    }
-
-    if (task.status === "processing") {
-      return {
-        status: "processing",
-        progress: task.progress,
-        currentStep: task.currentStep,
-        currentStepDetails: task.currentStepDetails,
-        message: "Document analysis in progress",
-      };
-    }
-
-    return {
-      status: result ? "completed" : task.status,
-      data: result,
-      progress: task.progress,
-      currentStep: task.currentStep,
-      currentStepDetails: task.currentStepDetails,
-      error: task.error,
-      completedAt: task.completedAt,
-    };
-  }
-
-  getTask(taskId: string) {
-    return this.tasks.get(taskId);
-  }
-
-  getAllTasks() {
-    return Array.from(this.tasks.values()).sort(
-      (a, b) => b.createdAt - a.createdAt,
-    );
-  }
-
-  getTaskHistory(taskId: string) {
-    return this.taskHistory.get(taskId) || [];
-  }
+// Job types for orchestrator tasks. A task is a job group keyed by its task
+// id: createTask runs as one job, while distributeTask runs classification,
+// compliance and research as separate stages so a restart resumes at the
+// stage that was interrupted instead of starting over.
+const TASK_JOB = "orchestrator.task";
+const CLASSIFY_JOB = "orchestrator.classify";
+const COMPLIANCE_JOB = "orchestrator.compliance";
+const RESEARCH_JOB = "orchestrator.research";
+const TASK_JOB_TYPES = [TASK_JOB, CLASSIFY_JOB, COMPLIANCE_JOB, RESEARCH_JOB];
+
+const STAGE_DETAILS: Record<string, { step: number; name: string; description: string; progress: number }> = {
+  [CLASSIFY_JOB]: { step: 1, name: "Classification", description: "Classifying document type and relevance", progress: 10 },
+  [COMPLIANCE_JOB]: { step: 2, name: "Compliance Check", description: "Verifying compliance requirements", progress: 40 },
+  [RESEARCH_JOB]: { step: 3, name: "Legal Research", description: "Conducting legal research and analysis", progress: 70 },
+};
+
+const TASK_STATUS: Record<JobStatus, string> = {
+  QUEUED: "pending",
+  RUNNING: "processing",
+  COMPLETED: "processing",
+  DEAD_LETTER: "error",
+};
+
+// Builds the task view the orchestrator routes return from the jobs in its group
+function toTask(taskId: string, jobs: BackgroundJob[]) {
+  const first = jobs[0];
+  const latest = jobs[jobs.length - 1];
+  const finished = latest.status === "COMPLETED" && (latest.type === TASK_JOB || latest.type === RESEARCH_JOB);
+  const stage = STAGE_DETAILS[latest.type];
+  const progress = latest.progress ?? {};
+
+  let status = finished ? "completed" : TASK_STATUS[latest.status];
+  if (status === "pending" && jobs.length > 1) {
+    status = "processing";
+  }
+
+  return {
+    id: taskId,
+    taskId,
+    jobId: latest.id,
+    type: first.payload.type ?? latest.payload.classification?.type ?? "unknown",
+    data: first.payload.data ?? { title: first.payload.title, documentId: first.payload.documentId },
+    status,
+    progress: finished ? 100 : progress.progress ?? (status === "pending" ? 0 : stage?.progress ?? 0),
+    currentStep: progress.currentStep ?? stage?.step ?? 0,
+    currentStepDetails: progress.currentStepDetails ?? (stage
+      ? { name: stage.name, description: stage.description }
+      : { name: "Initialization", description: "Setting up task and validating inputs" }),
+    attempts: latest.attempts,
+    error: latest.lastError ?? undefined,
+    result: finished ? latest.result : null,
+    events: jobs.map((job) => ({
+      timestamp: job.updatedAt.getTime(),
+      status: job.status,
+      details: STAGE_DETAILS[job.type]?.name ?? job.type,
+      attempts: job.attempts,
+      error: job.lastError ?? undefined,
+    })),
+    createdAt: first.createdAt.getTime(),
+    updatedAt: latest.updatedAt.getTime(),
+    completedAt: finished ? latest.completedAt?.toISOString() : undefined,
+  };
 }
 
+type OrchestratorTask = ReturnType<typeof toTask>;
+
 export class OrchestratorService {
   private static instance: OrchestratorService;
-  private taskManager: TaskManager;
   private services: ServiceContainer;
 
   private constructor() {
-    this.taskManager = TaskManager.getInstance();
     this.services = ServiceContainer.getInstance();
+
+    jobQueue.register(TASK_JOB, (payload, context) => this.processTask(payload, context), {
+      concurrency: 2,
+      maxAttempts: 3,
+    });
+    jobQueue.register(CLASSIFY_JOB, (payload, context) => this.runClassificationStage(payload, context), {
+      concurrency: 2,
+    });
+    jobQueue.register(COMPLIANCE_JOB, (payload, context) => this.runComplianceStage(payload, context), {
+      concurrency: 2,
+    });
+    jobQueue.register(RESEARCH_JOB, (payload, context) => this.runResearchStage(payload, context), {
+      concurrency: 2,
+    });
   }
 
   static getInstance(): OrchestratorService {
@@ -282,34 +145,24 @@ export class OrchestratorService {
     data: any;
   }) {
     const taskId = `task_${Date.now()}`;
-    const task = this.taskManager.createTask(taskId, input.type, input.data);
 
     // Start background initialization
     this.services.initialize().catch(() => {});
 
-    // Start processing in background
-    setTimeout(() => {
-      this.processTask(task).catch((error) => {
-        log("Task processing error", "error", {
-          taskId,
-          error: error.message,
-        });
-        this.taskManager.updateTask(taskId, {
-          status: "error",
-          error: error.message,
-          progress: 0,
-        });
-      });
-    }, 0);
+    const job = await jobQueue.enqueue(
+      TASK_JOB,
+      { type: input.type, data: input.data },
+      { groupId: taskId },
+    );
 
-    return task;
+    return toTask(taskId, [job]);
   }
 
-  private async processTask(task: any) {
+  private async processTask(payload: Record<string, any>, context: JobContext) {
+    const task = { id: context.job.groupId, type: payload.type, data: payload.data };
+
     try {
-      // Update task to processing state
-      this.taskManager.updateTask(task.id, {
-        status: "processing",
+      await context.reportProgress({
         progress: 10,
         currentStep: 0,
         currentStepDetails: {
@@ -332,19 +185,20 @@ export class OrchestratorService {
       // Continue with existing processing logic based on task type
       switch (task.type) {
         case "contract":
-          await this.processContractDocument(task);
-          break;
+          return await this.processContractDocument(task, context);
         case "compliance":
-          await this.processComplianceDocument(task);
-          break;
+          return await this.processComplianceDocument(task, context);
         case "research":
-          await this.processResearchDocument(task);
-          break;
+          return await this.processResearchDocument(task, context);
         default:
           throw new Error(`Unsupported task type: ${task.type}`);
       }
     } catch (error: any) {
-      this.handleTaskError(task, error);
+      log("Document processing error", "error", {
+        taskId: task.id,
+        attempt: context.job.attempts,
+        error: error.message,
+      });
       throw error;
     }
   }
@@ -364,19 +218,7 @@ export class OrchestratorService {
     }
   }
 
-  private handleTaskError(task: any, error: any) {
-    log("Document processing error", "error", {
-      taskId: task.id,
-      error: error.message,
-    });
-    this.taskManager.updateTask(task.id, {
-      status: "error",
-      error: error.message,
-      progress: 0,
-    });
-  }
-
-  private async processContractDocument(task: any) {
+  private async processContractDocument(task: any, context: JobContext) {
     const steps = [
       {
         name: "Draft Generation",
@@ -402,7 +244,7 @@ export class OrchestratorService {
 
     for (let i = 0; i < steps.length; i++) {
       const step = steps[i];
-      this.taskManager.updateTask(task.id, {
+      await context.reportProgress({
         currentStep: i + 1,
         currentStepDetails: step,
         progress: step.progress,
@@ -430,8 +272,7 @@ export class OrchestratorService {
       .values(documentData)
       .returning();
 
-    // Set final result
-    this.taskManager.setTaskResult(task.id, {
+    return {
       status: "completed",
       documentId: document.id,
       analysis: {
@@ -439,78 +280,66 @@ export class OrchestratorService {
         completedSteps: steps.length,
         timestamp: new Date().toISOString(),
       },
-    });
+    };
   }
 
-  private async processComplianceDocument(task: any) {
+  private async processComplianceDocument(task: any, context: JobContext) {
     // Reuse contract processing for now
-    await this.processContractDocument(task);
+    return await this.processContractDocument(task, context);
   }
 
-  private async processResearchDocument(task: any) {
+  private async processResearchDocument(task: any, context: JobContext) {
     // Reuse contract processing for now
-    await this.processContractDocument(task);
+    return await this.processContractDocument(task, context);
   }
 
   async getTask(taskId: string) {
-    const memoryTask = this.taskManager.getTask(taskId);
-    if (!memoryTask) {
+    const jobs = await jobQueue.listGroup(taskId);
+    if (jobs.length === 0) {
       // Try to find in database
       const dbTask = await this.getTaskFromDatabase(taskId);
       if (dbTask) {
         return {
           ...dbTask,
+          taskId,
           status: dbTask.status,
           type: dbTask.documentType,
           data: dbTask.metadata,
+          progress: 100,
         };
       }
       return null;
     }
-    return memoryTask;
+    return toTask(taskId, jobs);
   }
 
-  async getAllTasks() {
-    return this.taskManager.getAllTasks();
+  async getAllTasks(): Promise<OrchestratorTask[]> {
+    const jobs = await jobQueue.list({ type: TASK_JOB_TYPES, limit: 500 });
+
+    const groups = new Map<string, BackgroundJob[]>();
+    for (const job of jobs.reverse()) {
+      if (!job.groupId) continue;
+      groups.set(job.groupId, [...(groups.get(job.groupId) ?? []), job]);
+    }
+
+    return Array.from(groups.entries())
+      .map(([taskId, taskJobs]) => toTask(taskId, taskJobs))
+      .sort((a, b) => b.createdAt - a.createdAt);
   }
 
+  // Requeues the stage that was dead-lettered; earlier stages keep their results
   async retryTask(taskId: string) {
-    const task = this.taskManager.getTask(taskId);
-    if (!task) {
+    const jobs = await jobQueue.listGroup(taskId);
+    if (jobs.length === 0) {
       throw new Error("Task not found");
     }
 
-    // Reset task status and start processing again
-    this.taskManager.updateTask(taskId, {
-      status: "pending",
-      progress: 0,
-      error: undefined,
-      currentStep: 0,
-      currentStepDetails: {
-        name: "Initialization",
-        description: "Restarting task processing",
-      },
-    });
-
-    // Start processing in background
-    this.processTask(task).catch((error) => {
-      log("Task retry error", "error", {
-        taskId,
-        error: error.message,
-      });
-
-      this.taskManager.updateTask(taskId, {
-        status: "error",
-        error: error.message,
-        progress: 0,
-      });
-    });
-
-    return task;
+    await jobQueue.retry(jobs[jobs.length - 1].id);
+    return toTask(taskId, await jobQueue.listGroup(taskId));
   }
 
   async generateReport(taskId: string): Promise<Buffer> {
-    const task = this.taskManager.getTask(taskId);
+    const task = await this.getTask(taskId);
     if (!task) {
       throw new Error("Task not found");
     }
@@ -523,24 +352,57 @@ export class OrchestratorService {
 
   async getTaskResult(taskId: string) {
     log("Fetching task results", "info", { taskId });
-    const result = this.taskManager.getTaskResult(taskId);
+    const jobs = await jobQueue.listGroup(taskId);
+    if (jobs.length === 0) {
+      return {
+        status: "error",
+        error: "Task not found",
+        details: "The requested task ID does not exist",
+      };
+    }
+
+    const task = toTask(taskId, jobs);
+    if (task.status === "error") {
+      return {
+        status: "error",
+        error: task.error,
+        details: "An error occurred during processing",
+      };
+    }
+
+    if (task.status !== "completed") {
+      return {
+        status: task.status,
+        progress: task.progress,
+        currentStep: task.currentStep,
+        currentStepDetails: task.currentStepDetails,
+        message: "Document analysis in progress",
+      };
+    }
 
     log("Task result status", "debug", {
       taskId,
-      status: result.status,
-      resultKeys: result.data ? Object.keys(result.data) : null,
+      status: task.status,
+      resultKeys: task.result ? Object.keys(task.result) : null,
     });
 
-    return result;
+    return {
+      status: "completed",
+      data: task.result,
+      progress: task.progress,
+      currentStep: task.currentStep,
+      currentStepDetails: task.currentStepDetails,
+      completedAt: task.completedAt,
+    };
   }
 
   async monitorTask(taskId: string) {
-    const task = this.taskManager.getTask(taskId);
-    if (!task) throw new Error("Task not found");
+    const jobs = await jobQueue.listGroup(taskId);
+    if (jobs.length === 0) throw new Error("Task not found");
 
     return {
-      ...task,
-      history: this.taskManager.getTaskHistory(taskId),
+      ...toTask(taskId, jobs),
+      history: jobs,
     };
   }
 
@@ -626,38 +488,24 @@ export class OrchestratorService {
         input.data.documentText,
       );
 
-      // Create initial task
-      const task = this.taskManager.createTask(
-        taskId,
-        input.type || "unknown",
+      // Classification, compliance and research run as chained jobs
+      await jobQueue.enqueue(
+        CLASSIFY_JOB,
         {
-          ...input.data,
+          type: input.type,
+          title: input.data.title,
+          documentId: input.data.documentId,
           documentText: cleanedText,
         },
+        { groupId: taskId },
       );
 
-      // Classify document if type not provided
-      const classification = await this.classifyDocument(cleanedText);
-
-      // Update task with classification
-      this.taskManager.updateTask(taskId, {
-        type: classification.type,
-        metadata: {
-          classification,
-          crossModuleRelevance: classification.crossModuleRelevance,
-        },
-      });
-
-      // Process document based on classification
-      await this.processClassifiedDocument(taskId, cleanedText, classification);
-
       return {
         taskId,
         status: "processing",
-        type: classification.type,
+        type: input.type || "unknown",
         metadata: {
           createdAt: new Date().toISOString(),
-          classification,
         },
       };
     } catch (error: any) {
@@ -696,10 +544,9 @@ export class OrchestratorService {
       );
 
       // Use Claude for comprehensive classification
-      const anthropic = await this.services.getAnthropicClient();
-      const response = await anthropic.messages.create({
-        model: "claude-3-5-sonnet-20241022",
-        max_tokens: 1000,
+      const response = await modelRouter.complete({
+        role: "analysis",
+        maxTokens: 1000,
         messages: [
           {
             role: "user",
@@ -724,12 +571,7 @@ Provide response as JSON:
         ],
       });
 
-      const content = response.content[0];
-      if (content.type !== "text") {
-        throw new Error("Unexpected response format from Anthropic API");
-      }
-
-      const result = JSON.parse(content.text);
+      const result = JSON.parse(response.text);
       const keywords = [...new Set([...result.keywords, ...matchedKeywords])];
 
       log("Enhanced document classification completed", "info", {
@@ -747,28 +589,36 @@ Provide response as JSON:
     }
   }
 
-  private async processClassifiedDocument(
-    taskId: string,
-    documentText: string,
-    classification: any,
-  ) {
-    const task = this.taskManager.getTask(taskId);
-    if (!task) throw new Error("Task not found");
+  private async runClassificationStage(payload: Record<string, any>, context: JobContext) {
+    const classification = await this.classifyDocument(payload.documentText);
 
-    try {
-      const results: any = {};
+    context.enqueue(COMPLIANCE_JOB, { ...payload, classification });
+    return { classification };
+  }
 
-      // Process for each relevant module based on classification
-      if (classification.crossModuleRelevance.compliance) {
-        results.compliance = await complianceAuditService.analyzeDocument(
-          documentText,
-          taskId,
-        );
-      }
+  private async runComplianceStage(payload: Record<string, any>, context: JobContext) {
+    const results: any = {};
 
+    if (payload.classification.crossModuleRelevance.compliance) {
+      results.compliance = await complianceAuditService.analyzeDocument(
+        payload.documentText,
+        context.job.groupId as string,
+      );
+    }
+
+    context.enqueue(RESEARCH_JOB, { ...payload, results });
+    return { modules: Object.keys(results) };
+  }
+
+  private async runResearchStage(payload: Record<string, any>, context: JobContext) {
+    const taskId = context.job.groupId;
+    const { documentText, classification } = payload;
+    const results = { ...payload.results };
+
+    try {
       if (classification.crossModuleRelevance.research) {
         results.research = await legalResearchService.analyzeDocument(
-          task.data.documentId,
+          payload.documentId,
         );
       }
 
@@ -780,7 +630,7 @@ Provide response as JSON:
       const [document] = await db
         .insert(legalDocuments)
         .values({
-          title: task.data.title || "Untitled Document",
+          title: payload.title || "Untitled Document",
           content: documentText,
           documentType: classification.type,
           jurisdiction: "Unknown",
@@ -802,7 +652,14 @@ Provide response as JSON:
         })
         .returning();
 
-      this.taskManager.setTaskResult(taskId, {
+      log("Document processing completed", "info", {
+        taskId,
+        documentId: document.id,
+        processedModules: Object.keys(results),
+        learningContextUpdated: learningContext.lastUpdated,
+      });
+
+      return {
         documentId: document.id,
         results,
         classification,
@@ -811,14 +668,7 @@ Provide response as JSON:
           modelUpdates: learningContext.modelUpdates,
           recentUpdates: learningContext.recentUpdates,
         },
-      });
-
-      log("Document processing completed", "info", {
-        taskId,
-        documentId: document.id,
-        processedModules: Object.keys(results),
-        learningContextUpdated: learningContext.lastUpdated,
-      });
+      };
     } catch (error: any) {
       log("Error processing document", "error", {
         taskId,
@@ -0,0 +1,274 @@
+import { db } from "../db";
+import {
+  organizations,
+  organizationMembers,
+  matters,
+  users,
+  documents,
+  vaultDocuments,
+  complianceDocuments,
+  complianceAudits,
+  legalResearchReports,
+  type Organization,
+  type OrganizationMember,
+  type OrganizationRole,
+  type Matter,
+  type InsertMatter,
+} from "@shared/schema";
+import { and, asc, eq, isNull, or, type SQL } from "drizzle-orm";
+import debug from "debug";
+
+const log = debug("app:organizations");
+
+// Request-scoped tenant: the organization the caller is acting in and an
+// optional matter filter. Users without a membership work in a personal
+// space, which only sees rows that have no organization.
+export interface TenantContext {
+  organizationId: number | null;
+  organizationRole: OrganizationRole | null;
+  matterId: number | null;
+}
+
+const SCOPED_TABLES = {
+  documents,
+  vaultDocuments,
+  complianceDocuments,
+  complianceAudits,
+  legalResearchReports,
+};
+
+export type ScopedTable = keyof typeof SCOPED_TABLES;
+
+// Carries statusCode/expose so the shared errorHandler can report it as-is
+export class OrganizationError extends Error {
+  expose = true;
+
+  constructor(message: string, public statusCode: number, public code: string) {
+    super(message);
+    this.name = "OrganizationError";
+  }
+}
+
+function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 48) || "org";
+}
+
+export class OrganizationService {
+  async createOrganization(name: string, ownerId: number, slug?: string): Promise<Organization> {
+    return await db.transaction(async (tx) => {
+      const base = slug || slugify(name);
+      let candidate = base;
+      for (let suffix = 2; ; suffix++) {
+        const [existing] = await tx
+          .select({ id: organizations.id })
+          .from(organizations)
+          .where(eq(organizations.slug, candidate));
+        if (!existing) break;
+        if (slug) {
+          throw new OrganizationError("Organization slug is already taken", 409, "SLUG_TAKEN");
+        }
+        candidate = `${base}-${suffix}`;
+      }
+
+      const [organization] = await tx
+        .insert(organizations)
+        .values({ name, slug: candidate, createdBy: ownerId })
+        .returning();
+
+      await tx.insert(organizationMembers).values({
+        organizationId: organization.id,
+        userId: ownerId,
+        role: "OWNER",
+      });
+
+      log("Organization created", { id: organization.id, slug: candidate, ownerId });
+      return organization;
+    });
+  }
+
+  async getMemberships(userId: number) {
+    return await db
+      .select({
+        organization: organizations,
+        role: organizationMembers.role,
+      })
+      .from(organizationMembers)
+      .innerJoin(organizations, eq(organizationMembers.organizationId, organizations.id))
+      .where(eq(organizationMembers.userId, userId))
+      .orderBy(asc(organizationMembers.createdAt));
+  }
+
+  async getMembership(organizationId: number, userId: number): Promise<OrganizationMember | undefined> {
+    const [membership] = await db
+      .select()
+      .from(organizationMembers)
+      .where(and(
+        eq(organizationMembers.organizationId, organizationId),
+        eq(organizationMembers.userId, userId),
+      ));
+    return membership;
+  }
+
+  async listMembers(organizationId: number) {
+    return await db
+      .select({
+        id: organizationMembers.id,
+        userId: users.id,
+        username: users.username,
+        email: users.email,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        role: organizationMembers.role,
+        createdAt: organizationMembers.createdAt,
+      })
+      .from(organizationMembers)
+      .innerJoin(users, eq(organizationMembers.userId, users.id))
+      .where(eq(organizationMembers.organizationId, organizationId));
+  }
+
+  async addMember(organizationId: number, userId: number, role: OrganizationRole): Promise<OrganizationMember> {
+    const [user] = await db.select({ id: users.id }).from(users).where(eq(users.id, userId));
+    if (!user) {
+      throw new OrganizationError("User not found", 404, "USER_NOT_FOUND");
+    }
+
+    if (await this.getMembership(organizationId, userId)) {
+      throw new OrganizationError("User is already a member", 409, "ALREADY_MEMBER");
+    }
+
+    const [member] = await db
+      .insert(organizationMembers)
+      .values({ organizationId, userId, role })
+      .returning();
+
+    log("Member added", { organizationId, userId, role });
+    return member;
+  }
+
+  async removeMember(organizationId: number, userId: number): Promise<boolean> {
+    const membership = await this.getMembership(organizationId, userId);
+    if (!membership) {
+      return false;
+    }
+
+    if (membership.role === "OWNER") {
+      const owners = (await this.listMembers(organizationId)).filter((member) => member.role === "OWNER");
+      if (owners.length <= 1) {
+        throw new OrganizationError("An organization must keep at least one owner", 400, "LAST_OWNER");
+      }
+    }
+
+    await db.delete(organizationMembers).where(eq(organizationMembers.id, membership.id));
+    log("Member removed", { organizationId, userId });
+    return true;
+  }
+
+  // Resolves which organization a request acts in. An explicit id must be one
+  // of the caller's memberships; otherwise the earliest membership is used.
+  async resolveTenant(userId: number, requestedOrganizationId?: number): Promise<TenantContext> {
+    const memberships = await this.getMemberships(userId);
+
+    if (requestedOrganizationId !== undefined) {
+      const membership = memberships.find((m) => m.organization.id === requestedOrganizationId);
+      if (!membership) {
+        throw new OrganizationError("Not a member of this organization", 403, "NOT_A_MEMBER");
+      }
+      return {
+        organizationId: membership.organization.id,
+        organizationRole: membership.role as OrganizationRole,
+        matterId: null,
+      };
+    }
+
+    const [first] = memberships;
+    return {
+      organizationId: first?.organization.id ?? null,
+      organizationRole: (first?.role as OrganizationRole) ?? null,
+      matterId: null,
+    };
+  }
+
+  async listMatters(organizationId: number): Promise<Matter[]> {
+    return await db
+      .select()
+      .from(matters)
+      .where(eq(matters.organizationId, organizationId))
+      .orderBy(asc(matters.name));
+  }
+
+  async getMatter(organizationId: number, matterId: number): Promise<Matter | undefined> {
+    const [matter] = await db
+      .select()
+      .from(matters)
+      .where(and(eq(matters.id, matterId), eq(matters.organizationId, organizationId)));
+    return matter;
+  }
+
+  async createMatter(organizationId: number, data: InsertMatter, createdBy: number): Promise<Matter> {
+    const [matter] = await db
+      .insert(matters)
+      .values({ ...data, organizationId, createdBy })
+      .returning();
+
+    log("Matter created", { organizationId, matterId: matter.id });
+    return matter;
+  }
+
+  async updateMatter(organizationId: number, matterId: number, data: Partial<InsertMatter>): Promise<Matter | undefined> {
+    const [matter] = await db
+      .update(matters)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(matters.id, matterId), eq(matters.organizationId, organizationId)))
+      .returning();
+    return matter;
+  }
+
+  // Files an existing row under a matter. The row must already belong to the
+  // matter's organization (or to nobody, in which case it is adopted).
+  async assignToMatter(tableName: ScopedTable, rowId: number, matter: Matter): Promise<boolean> {
+    const table = SCOPED_TABLES[tableName];
+    const updated = await db
+      .update(table as typeof documents)
+      .set({ organizationId: matter.organizationId, matterId: matter.id })
+      .where(and(
+        eq(table.id, rowId),
+        or(isNull(table.organizationId), eq(table.organizationId, matter.organizationId)),
+      ))
+      .returning({ id: table.id });
+
+    return updated.length > 0;
+  }
+
+  // WHERE condition limiting a list query to the tenant's organization and,
+  // when set, its matter
+  scopeFilter(tableName: ScopedTable, tenant: TenantContext): SQL {
+    const table = SCOPED_TABLES[tableName];
+    const organizationCondition = tenant.organizationId === null
+      ? isNull(table.organizationId)
+      : eq(table.organizationId, tenant.organizationId);
+
+    return (tenant.matterId === null
+      ? organizationCondition
+      : and(organizationCondition, eq(table.matterId, tenant.matterId))) as SQL;
+  }
+
+  // The same test as scopeFilter, for a row already loaded
+  inScope(row: { organizationId?: number | null; matterId?: number | null }, tenant: TenantContext | undefined): boolean {
+    const { organizationId, matterId } = this.scopeValues(tenant);
+    return (row.organizationId ?? null) === organizationId && (matterId === null || row.matterId === matterId);
+  }
+
+  // Column values for rows created inside the tenant
+  scopeValues(tenant: TenantContext | undefined): { organizationId: number | null; matterId: number | null } {
+    return {
+      organizationId: tenant?.organizationId ?? null,
+      matterId: tenant?.matterId ?? null,
+    };
+  }
+}
+
+export const organizationService = new OrganizationService();
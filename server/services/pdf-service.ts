@@ -1,14 +1,18 @@
 import PDFDocument from "pdfkit";
 import { createWorker } from "tesseract.js";
+import { createRequire } from "module";
 import debug from "debug";
 import { analyzeDocument } from "./anthropic";
+import { pdfProcessor } from "./pdfProcessor";
 
 const log = debug("app:pdf-service");
 
 // Safely import pdf-parse to avoid test file loading
 let pdfParse: any;
 try {
-  // Dynamically import to avoid test file loading during initialization
+  // The server runs as an ES module, so `require` has to be created explicitly.
+  // Loading the lib entry point directly skips pdf-parse's debug test file.
+  const require = createRequire(import.meta.url);
   pdfParse = require('pdf-parse/lib/pdf-parse.js');
 } catch (error) {
   log('Warning: PDF parse module initialization error:', error);
@@ -28,6 +32,36 @@ export interface PDFParseResult {
   };
 }
 
+export interface PDFParagraphBoundary {
+  start: number;
+  end: number;
+}
+
+export interface PDFPageBoundary {
+  pageNumber: number;
+  start: number;
+  end: number;
+  paragraphs: PDFParagraphBoundary[];
+}
+
+// Text with character offsets for every page and paragraph, so downstream
+// comparisons can point back to a location in the original PDF
+export interface PDFLayoutResult {
+  text: string;
+  pages: PDFPageBoundary[];
+  metadata: {
+    pageCount: number;
+    isScanned: boolean;
+    source: "pdf-parse" | "pdf-basic-extraction";
+  };
+}
+
+interface PDFTextLine {
+  y: number;
+  height: number;
+  text: string;
+}
+
 export interface OCRResult {
   text: string;
   confidence: number;
@@ -112,6 +146,130 @@ export class PDFService {
     }
   }
 
+  async extractTextWithLayout(buffer: Buffer): Promise<PDFLayoutResult> {
+    if (!buffer || buffer.length === 0) {
+      throw new Error('Invalid PDF buffer provided');
+    }
+
+    log('Extracting PDF text with page layout...');
+    const pageLines: PDFTextLine[][] = [];
+
+    let data: any = null;
+    try {
+      // Copy into a standalone array: pdf.js reads the underlying ArrayBuffer and
+      // ignores the byte offset of small pooled Buffers
+      data = await pdfParse(new Uint8Array(buffer), {
+        pagerender: async (pageData: any) => {
+          const content = await pageData.getTextContent({
+            normalizeWhitespace: false,
+            disableCombineTextItems: false,
+          });
+          const lines = this.groupIntoLines(content.items || []);
+          pageLines[pageData.pageIndex ?? pageLines.length] = lines;
+          return lines.map(line => line.text).join('\n');
+        },
+      });
+    } catch (parseError) {
+      log('Layout extraction with pdf-parse failed, falling back:', parseError);
+    }
+
+    const hasText = pageLines.some(lines => lines?.some(line => line.text.trim().length > 0));
+    if (!data || !hasText) {
+      const fallback = await pdfProcessor.processBuffer(buffer);
+      if (!fallback.success) {
+        throw new Error(fallback.error || 'PDF processing failed');
+      }
+      const text = fallback.text || '';
+      return {
+        text,
+        pages: [{
+          pageNumber: 1,
+          start: 0,
+          end: text.length,
+          paragraphs: this.paragraphBoundaries(text, 0),
+        }],
+        metadata: {
+          pageCount: fallback.pageCount || 1,
+          isScanned: true,
+          source: 'pdf-basic-extraction',
+        },
+      };
+    }
+
+    let text = '';
+    const pages: PDFPageBoundary[] = [];
+    for (let index = 0; index < (data.numpages || pageLines.length); index++) {
+      if (text.length > 0) {
+        text += '\n\n';
+      }
+      const pageText = this.joinParagraphs(pageLines[index] || []);
+      const start = text.length;
+      text += pageText;
+      pages.push({
+        pageNumber: index + 1,
+        start,
+        end: text.length,
+        paragraphs: this.paragraphBoundaries(pageText, start),
+      });
+    }
+
+    log('PDF layout extraction completed', { pages: pages.length, textLength: text.length });
+    return {
+      text,
+      pages,
+      metadata: {
+        pageCount: data.numpages || pages.length,
+        isScanned: await this.isScannedDocument({ text, numpages: data.numpages }),
+        source: 'pdf-parse',
+      },
+    };
+  }
+
+  // pdf.js returns positioned text items; items sharing a baseline form a line
+  private groupIntoLines(items: any[]): PDFTextLine[] {
+    const lines: PDFTextLine[] = [];
+    for (const item of items) {
+      const y = item.transform?.[5] ?? 0;
+      const height = item.height || Math.abs(item.transform?.[3] ?? 0) || 10;
+      const last = lines[lines.length - 1];
+      if (last && Math.abs(last.y - y) < height / 2) {
+        last.text += item.str;
+      } else {
+        lines.push({ y, height, text: item.str });
+      }
+    }
+    return lines.filter(line => line.text.trim().length > 0);
+  }
+
+  // A vertical gap noticeably larger than normal line spacing starts a new paragraph
+  private joinParagraphs(lines: PDFTextLine[]): string {
+    if (lines.length === 0) return '';
+
+    const gaps = lines.slice(1).map((line, i) => Math.abs(lines[i].y - line.y));
+    const sortedGaps = [...gaps].sort((a, b) => a - b);
+    const typicalGap = sortedGaps[Math.floor((sortedGaps.length - 1) / 2)] || 0;
+
+    let text = lines[0].text.trim();
+    lines.slice(1).forEach((line, i) => {
+      const isBreak = typicalGap > 0 && gaps[i] > typicalGap * 1.5;
+      text += (isBreak ? '\n\n' : '\n') + line.text.trim();
+    });
+    return text;
+  }
+
+  private paragraphBoundaries(text: string, offset: number): PDFParagraphBoundary[] {
+    const paragraphs: PDFParagraphBoundary[] = [];
+    const pattern = /\S[\s\S]*?(?=\n\s*\n|$)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      paragraphs.push({
+        start: offset + match.index,
+        end: offset + match.index + match[0].length,
+      });
+    }
+    return paragraphs;
+  }
+
   private async isScannedDocument(data: any): Promise<boolean> {
     try {
       if (!data || !data.text) return true;
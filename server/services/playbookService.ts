@@ -0,0 +1,390 @@
+import { db } from "../db";
+import {
+  documents,
+  documentVersions,
+  negotiationPlaybooks,
+  RiskSeverity,
+  type ClauseAttributes,
+  type ClauseType,
+  type CreatePlaybook,
+  type ExtractedClause,
+  type FallbackPosition,
+  type NegotiationPlaybook,
+  type PlaybookCondition,
+  type PlaybookRule,
+  type TemplateScope,
+  type UpdatePlaybook,
+} from "@shared/schema";
+import { and, asc, eq, isNull, or, type SQL } from "drizzle-orm";
+import debug from "debug";
+import { CLAUSE_TAXONOMY, segmentDocument } from "./clauses";
+import { clauseExtractionService } from "./clauseExtractionService";
+import { clauseLibraryService } from "./clauseLibraryService";
+import { normalizeRole, type AccessUser } from "./documentAccessService";
+import type { TenantContext } from "./organizationService";
+import { redlineService, type RedlineResponse } from "./redlineService";
+
+const log = debug("app:playbooks");
+
+export class PlaybookError extends Error {
+  expose = true;
+
+  constructor(message: string, public statusCode: number, public code: string) {
+    super(message);
+    this.name = "PlaybookError";
+  }
+}
+
+// Where the counterparty's clause stands against the rule. MET is the
+// preferred position; the others are deviations.
+export type FindingStatus = "MET" | "ACCEPTABLE" | "WALK_AWAY" | "BEYOND_WALK_AWAY" | "MISSING" | "PROHIBITED";
+
+export interface FailedCondition {
+  condition: PlaybookCondition;
+  actual: ClauseAttributes[keyof ClauseAttributes] | null;
+}
+
+export interface FallbackLanguage {
+  positionId: number;
+  position: FallbackPosition;
+  text: string;
+}
+
+export interface ProposedChange {
+  action: "REPLACE" | "INSERT" | "DELETE";
+  libraryClauseId: number | null;
+  // The fallback put into the redline; null for deletions
+  language: FallbackLanguage | null;
+  // Every approved fallback for the clause, best first
+  alternatives: FallbackLanguage[];
+}
+
+export interface PlaybookFinding {
+  clauseType: ClauseType;
+  label: string;
+  status: FindingStatus;
+  severity: RiskSeverity | null;
+  clause: Pick<ExtractedClause, "id" | "heading" | "text" | "startOffset" | "endOffset"> | null;
+  failed: FailedCondition[];
+  proposal: ProposedChange | null;
+  guidance: string | null;
+}
+
+// Deviations short of walk-away are capped at these, and never exceed the
+// rule's own severity
+const POSITION_SEVERITY: Partial<Record<FindingStatus, RiskSeverity>> = {
+  ACCEPTABLE: "LOW",
+  WALK_AWAY: "MEDIUM",
+};
+
+// Which fallback to counter with: meet a walk-away clause halfway, and ask
+// for the preferred language when the clause is missing or unacceptable
+const COUNTER_POSITIONS: Partial<Record<FindingStatus, FallbackPosition[]>> = {
+  WALK_AWAY: ["ACCEPTABLE", "PREFERRED"],
+  BEYOND_WALK_AWAY: ["PREFERRED"],
+  MISSING: ["PREFERRED"],
+};
+
+const SEVERITY_ORDER = RiskSeverity.options;
+
+function milder(a: RiskSeverity, b: RiskSeverity): RiskSeverity {
+  return SEVERITY_ORDER.indexOf(a) > SEVERITY_ORDER.indexOf(b) ? a : b;
+}
+
+function meets(condition: PlaybookCondition, attributes: ClauseAttributes): boolean {
+  const actual = attributes[condition.attribute];
+  const { value } = condition;
+  const same = (left: unknown, right: unknown) =>
+    typeof left === "string" && typeof right === "string" ? left.toLowerCase() === right.toLowerCase() : left === right;
+
+  switch (condition.operator) {
+    case "PRESENT":
+      return actual !== undefined;
+    case "EQUALS":
+      return actual !== undefined && same(actual, value);
+    case "NOT_EQUALS":
+      return actual !== undefined && !same(actual, value);
+    case "AT_LEAST":
+      return typeof actual === "number" && actual >= (value as number);
+    case "AT_MOST":
+      return typeof actual === "number" && actual <= (value as number);
+    case "ONE_OF":
+      return actual !== undefined && (value as string[]).some((option) => same(actual, option));
+  }
+}
+
+// Attributes of every extracted clause of one type, the first value of
+// each winning, since a clause's terms can be split across sentences
+function mergedAttributes(clauses: ExtractedClause[]): ClauseAttributes {
+  return clauses.reduceRight<ClauseAttributes>((merged, clause) => ({ ...merged, ...clause.attributes }), {});
+}
+
+// Replacement language goes after the clause's own number and heading, so
+// "2. Limitation of Liability." and "9.2" stay in place. The stored heading
+// can be the parent section's, so the clause text is segmented again.
+function bodyStart(clause: NonNullable<PlaybookFinding["clause"]>): number {
+  const [own] = segmentDocument(clause.text);
+  if (!own) return clause.startOffset;
+  let offset = own.bodyStart;
+  while (offset < clause.text.length && /\s/.test(clause.text[offset])) offset++;
+  return clause.startOffset + offset;
+}
+
+export class PlaybookService {
+  async list(user: AccessUser, tenant: TenantContext, filters: { includeArchived?: boolean } = {}) {
+    const rows = await db
+      .select()
+      .from(negotiationPlaybooks)
+      .where(and(
+        this.visibleFilter(tenant),
+        filters.includeArchived ? undefined : eq(negotiationPlaybooks.status, "ACTIVE"),
+      ))
+      .orderBy(asc(negotiationPlaybooks.contractType), asc(negotiationPlaybooks.name));
+    return rows.map((row) => this.describe(row));
+  }
+
+  async get(user: AccessUser, tenant: TenantContext, playbookId: number) {
+    return this.describe(await this.load(tenant, playbookId));
+  }
+
+  async create(user: AccessUser, tenant: TenantContext, input: CreatePlaybook) {
+    const scope: TemplateScope = input.scope ?? (tenant.organizationId !== null ? "ORGANIZATION" : "LIBRARY");
+    if (scope === "ORGANIZATION" && tenant.organizationId === null) {
+      throw new PlaybookError("Select an organization to add a firm playbook", 400, "NO_ORGANIZATION");
+    }
+    const organizationId = scope === "ORGANIZATION" ? tenant.organizationId : null;
+    this.ensureEditor(user, tenant, organizationId);
+
+    const { scope: _scope, ...fields } = input;
+    const [playbook] = await db
+      .insert(negotiationPlaybooks)
+      .values({ ...fields, description: input.description ?? null, organizationId, createdBy: user.id, updatedBy: user.id })
+      .returning();
+    log("Playbook created", { playbookId: playbook.id, organizationId, rules: playbook.rules.length });
+    return this.describe(playbook);
+  }
+
+  async update(user: AccessUser, tenant: TenantContext, playbookId: number, input: UpdatePlaybook) {
+    const current = await this.load(tenant, playbookId);
+    this.ensureEditor(user, tenant, current.organizationId);
+    if (current.status === "ARCHIVED") {
+      throw new PlaybookError("Archived playbooks cannot be edited", 409, "ARCHIVED");
+    }
+
+    const [playbook] = await db
+      .update(negotiationPlaybooks)
+      .set({ ...input, updatedBy: user.id, updatedAt: new Date() })
+      .where(eq(negotiationPlaybooks.id, playbookId))
+      .returning();
+    return this.describe(playbook);
+  }
+
+  async archive(user: AccessUser, tenant: TenantContext, playbookId: number) {
+    const current = await this.load(tenant, playbookId);
+    this.ensureEditor(user, tenant, current.organizationId);
+
+    const [playbook] = await db
+      .update(negotiationPlaybooks)
+      .set({ status: "ARCHIVED", updatedBy: user.id, updatedAt: new Date() })
+      .where(eq(negotiationPlaybooks.id, playbookId))
+      .returning();
+    return this.describe(playbook);
+  }
+
+  // Checks a contract's clauses against each rule of the playbook and
+  // proposes fallback language from the clause library for deviations. The
+  // redline compares the contract with the contract as it would read with
+  // every proposal applied, in the same shape POST /api/redline returns.
+  // The caller must already have access to the document.
+  async review(user: AccessUser, tenant: TenantContext, playbookId: number, documentId: number, versionId?: number) {
+    const playbook = await this.load(tenant, playbookId);
+    if (playbook.status !== "ACTIVE") {
+      throw new PlaybookError("Archived playbooks cannot be used for reviews", 409, "ARCHIVED");
+    }
+
+    const { extraction, clauses } = await clauseExtractionService.extract(documentId, versionId, user.id);
+    const text = await this.sourceText(documentId, extraction.versionId);
+
+    const findings: PlaybookFinding[] = [];
+    for (const rule of playbook.rules) {
+      findings.push(await this.evaluate(user, tenant, rule, clauses.filter((clause) => clause.clauseType === rule.clauseType)));
+    }
+
+    const proposedText = this.applyProposals(text, findings);
+    const redline: RedlineResponse = redlineService.compare(text, proposedText);
+
+    const deviations = findings.filter((finding) => finding.status !== "MET");
+    const bySeverity = Object.fromEntries(SEVERITY_ORDER.map((severity) => [
+      severity,
+      deviations.filter((finding) => finding.severity === severity).length,
+    ])) as Record<RiskSeverity, number>;
+    const highestSeverity = SEVERITY_ORDER.find((severity) => bySeverity[severity] > 0) ?? null;
+
+    log("Playbook review", { playbookId, documentId, versionId: extraction.versionId, deviations: deviations.length, highestSeverity });
+    return {
+      playbook: { id: playbook.id, name: playbook.name, contractType: playbook.contractType, perspective: playbook.perspective },
+      document: { id: documentId, versionId: extraction.versionId, clauseExtractionId: extraction.id },
+      summary: { rules: findings.length, met: findings.length - deviations.length, deviations: deviations.length, bySeverity, highestSeverity },
+      findings,
+      proposedText,
+      redline,
+    };
+  }
+
+  private async evaluate(user: AccessUser, tenant: TenantContext, rule: PlaybookRule, clauses: ExtractedClause[]): Promise<PlaybookFinding> {
+    const definition = CLAUSE_TAXONOMY.find((candidate) => candidate.type === rule.clauseType);
+    // The strongest match stands for the clause when there are several
+    const primary = [...clauses].sort((a, b) =>
+      b.confidence - a.confidence || (b.endOffset - b.startOffset) - (a.endOffset - a.startOffset))[0] ?? null;
+    const base = {
+      clauseType: rule.clauseType,
+      label: definition?.label ?? rule.clauseType,
+      clause: primary && {
+        id: primary.id,
+        heading: primary.heading,
+        text: primary.text,
+        startOffset: primary.startOffset,
+        endOffset: primary.endOffset,
+      },
+      guidance: rule.guidance ?? null,
+    };
+
+    if (!primary) {
+      if (rule.presence !== "REQUIRED") {
+        return { ...base, status: "MET", severity: null, failed: [], proposal: null };
+      }
+      return { ...base, status: "MISSING", severity: rule.severity, failed: [], proposal: await this.propose(user, tenant, rule, "MISSING") };
+    }
+    if (rule.presence === "PROHIBITED") {
+      return {
+        ...base,
+        status: "PROHIBITED",
+        severity: rule.severity,
+        failed: [],
+        proposal: { action: "DELETE", libraryClauseId: null, language: null, alternatives: [] },
+      };
+    }
+
+    const attributes = mergedAttributes(clauses);
+    const failing = (conditions: PlaybookCondition[]) => conditions
+      .filter((condition) => !meets(condition, attributes))
+      .map((condition) => ({ condition, actual: attributes[condition.attribute] ?? null }));
+
+    const preferredFailures = failing(rule.preferred);
+    let status: FindingStatus = "BEYOND_WALK_AWAY";
+    if (!preferredFailures.length) {
+      status = "MET";
+    } else if (rule.acceptable && !failing(rule.acceptable).length) {
+      status = "ACCEPTABLE";
+    } else if (rule.walkAway && !failing(rule.walkAway).length) {
+      status = "WALK_AWAY";
+    }
+    if (status === "MET") {
+      return { ...base, status, severity: null, failed: [], proposal: null };
+    }
+
+    const severity = POSITION_SEVERITY[status] ? milder(POSITION_SEVERITY[status]!, rule.severity) : rule.severity;
+    return { ...base, status, severity, failed: preferredFailures, proposal: await this.propose(user, tenant, rule, status) };
+  }
+
+  private async propose(user: AccessUser, tenant: TenantContext, rule: PlaybookRule, status: FindingStatus): Promise<ProposedChange | null> {
+    const clause = await clauseLibraryService.fallbackFor(user, tenant, rule.clauseType, rule.libraryClauseId);
+    if (!clause) return null;
+
+    const alternatives = clause.positions.map(({ id, position, text }) => ({ positionId: id, position, text }));
+    const counter = COUNTER_POSITIONS[status] ?? [];
+    const language = counter
+      .map((position) => alternatives.find((alternative) => alternative.position === position))
+      .find((alternative) => alternative !== undefined) ?? null;
+
+    return {
+      action: status === "MISSING" ? "INSERT" : "REPLACE",
+      libraryClauseId: clause.id,
+      // Acceptable terms are only flagged; the alternatives are there if
+      // the reviewer wants to push back
+      language,
+      alternatives,
+    };
+  }
+
+  // Replacements and deletions in document order, skipping any that overlap
+  // an earlier one; missing clauses are added at the end
+  private applyProposals(text: string, findings: PlaybookFinding[]): string {
+    const edits = findings
+      .filter((finding) => finding.clause && finding.proposal && finding.proposal.action !== "INSERT"
+        && (finding.proposal.action === "DELETE" || finding.proposal.language))
+      .map((finding) => ({
+        start: finding.proposal!.action === "DELETE" ? finding.clause!.startOffset : bodyStart(finding.clause!),
+        end: finding.clause!.endOffset,
+        replacement: finding.proposal!.action === "DELETE" ? "" : finding.proposal!.language!.text,
+      }))
+      .sort((a, b) => a.start - b.start);
+
+    let result = "";
+    let cursor = 0;
+    for (const edit of edits) {
+      if (edit.start < cursor) continue;
+      result += text.slice(cursor, edit.start) + edit.replacement;
+      cursor = edit.end;
+    }
+    result += text.slice(cursor);
+
+    const insertions = findings
+      .filter((finding) => finding.proposal?.action === "INSERT" && finding.proposal.language)
+      .map((finding) => `${finding.label.toUpperCase()}\n${finding.proposal!.language!.text}`);
+    return insertions.length ? `${result.trimEnd()}\n\n${insertions.join("\n\n")}\n` : result;
+  }
+
+  // The text extraction offsets point into
+  private async sourceText(documentId: number, versionId: number | null): Promise<string> {
+    if (versionId !== null) {
+      const [version] = await db.select({ content: documentVersions.content }).from(documentVersions).where(eq(documentVersions.id, versionId));
+      if (version) return version.content;
+    }
+    const [document] = await db.select({ content: documents.content }).from(documents).where(eq(documents.id, documentId));
+    if (!document) {
+      throw new PlaybookError("Document not found", 404, "NOT_FOUND");
+    }
+    return document.content;
+  }
+
+  private async load(tenant: TenantContext, playbookId: number): Promise<NegotiationPlaybook> {
+    const [playbook] = await db
+      .select()
+      .from(negotiationPlaybooks)
+      .where(and(eq(negotiationPlaybooks.id, playbookId), this.visibleFilter(tenant)));
+    if (!playbook) {
+      throw new PlaybookError("Playbook not found", 404, "NOT_FOUND");
+    }
+    return playbook;
+  }
+
+  private visibleFilter(tenant: TenantContext): SQL {
+    return (tenant.organizationId === null
+      ? isNull(negotiationPlaybooks.organizationId)
+      : or(isNull(negotiationPlaybooks.organizationId), eq(negotiationPlaybooks.organizationId, tenant.organizationId))) as SQL;
+  }
+
+  // Shared playbooks are curated by admins; a firm's attorneys manage its own
+  private ensureEditor(user: AccessUser, tenant: TenantContext, organizationId: number | null) {
+    const allowed = organizationId === null
+      ? normalizeRole(user.role) === "ADMIN"
+      : organizationId === tenant.organizationId;
+    if (!allowed) {
+      throw new PlaybookError(
+        organizationId === null ? "Only administrators can change shared playbooks" : "Playbook belongs to another organization",
+        403,
+        "FORBIDDEN",
+      );
+    }
+  }
+
+  private describe(playbook: NegotiationPlaybook) {
+    return {
+      ...playbook,
+      scope: (playbook.organizationId === null ? "LIBRARY" : "ORGANIZATION") as TemplateScope,
+    };
+  }
+}
+
+export const playbookService = new PlaybookService();
@@ -1,13 +1,50 @@
 import { db } from "../db";
-import { InsertPrediction, InsertAlert, MonitoringFrequency, PredictionConfidence } from "@shared/schema";
-import { complianceDocuments, compliancePredictions, complianceAlerts, complianceMonitoringSchedules } from "@shared/schema";
-import { eq, and, lte } from "drizzle-orm";
-import { Anthropic } from "@anthropic-ai/sdk";
+import {
+  InsertPrediction,
+  InsertAlert,
+  MonitoringFrequency,
+  PredictionConfidence,
+  type ComplianceDocument,
+  type ComplianceMonitoringSchedule,
+  type CompliancePrediction,
+  type ComplianceIssue,
+  type RiskSeverity,
+} from "@shared/schema";
+import {
+  backgroundJobs,
+  complianceDocuments,
+  compliancePredictions,
+  complianceAlerts,
+  complianceIssues,
+  complianceMonitoringSchedules,
+} from "@shared/schema";
+import { eq, and, asc, desc, inArray, lte, ne, sql } from "drizzle-orm";
+import { modelRouter } from "./modelRouter";
+import { jobQueue } from "./jobQueue";
+import { alertNotificationService } from "./alertNotificationService";
+import { issueKey, monitorDocument, type ComplianceCheckResult } from "./complianceMonitor";
 
-// the newest Anthropic model is "claude-3-5-sonnet-20241022" which was released October 22, 2024
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+const SCHEDULED_CHECK_JOB = "compliance.scheduled-check";
+const SWEEP_INTERVAL_MS = 60 * 1000;
+const SWEEP_BATCH_SIZE = 20;
+// Smallest rise in risk score treated as a regression rather than noise
+const RISK_SCORE_TOLERANCE = 5;
+// Issues listed by name in a new-issues alert
+const ALERT_ISSUE_LIMIT = 5;
+
+// Higher is worse; statuses not listed (e.g. ERROR) are not compared
+const CHECK_STATUS_RANK: Record<string, number> = { COMPLIANT: 0, FLAGGED: 1, NON_COMPLIANT: 2 };
+const PREDICTION_STATUS_RANK: Record<string, number> = { COMPLIANT: 0, AT_RISK: 1, NON_COMPLIANT: 2 };
+const SEVERITY_RANK: Record<RiskSeverity, number> = { INFO: 0, LOW: 1, MEDIUM: 2, HIGH: 3, CRITICAL: 4 };
+
+// Results of the previous run, captured before a scheduled check starts
+interface CheckSnapshot {
+  checked: boolean;
+  status: string;
+  riskScore: number | null;
+  openIssueKeys: Set<string>;
+  predictedStatus: string | null;
+}
 
 // Enhanced logging function
 function log(message: string, type: 'info' | 'error' | 'debug' = 'info', context?: any) {
@@ -16,19 +53,45 @@ function log(message: string, type: 'info' | 'error' | 'debug' = 'info', context
 }
 
 export class PredictiveMonitoringService {
-  async scheduleMonitoring(documentId: number, frequency: MonitoringFrequency) {
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor() {
+    jobQueue.register(SCHEDULED_CHECK_JOB, ({ scheduleId }) => this.runScheduledCheck(scheduleId), {
+      concurrency: 2,
+      maxAttempts: 3,
+      backoffMs: 60 * 1000,
+    });
+  }
+
+  // A document has at most one schedule; scheduling it again changes the
+  // frequency and reactivates it
+  async scheduleMonitoring(
+    documentId: number,
+    frequency: MonitoringFrequency,
+    firstCheck: Date = this.calculateNextCheck(frequency)
+  ): Promise<ComplianceMonitoringSchedule> {
     log(`Scheduling monitoring for document ${documentId} with frequency ${frequency}`);
-    const nextCheck = this.calculateNextCheck(frequency);
 
     try {
-      const [schedule] = await db.insert(complianceMonitoringSchedules)
-        .values({
-          documentId,
-          frequency,
-          nextScheduled: nextCheck,
-          isActive: true,
-        })
-        .returning();
+      const [existing] = await db.select()
+        .from(complianceMonitoringSchedules)
+        .where(eq(complianceMonitoringSchedules.documentId, documentId))
+        .orderBy(desc(complianceMonitoringSchedules.id))
+        .limit(1);
+
+      const [schedule] = existing
+        ? await db.update(complianceMonitoringSchedules)
+          .set({ frequency, nextScheduled: firstCheck, isActive: true, updatedAt: new Date() })
+          .where(eq(complianceMonitoringSchedules.id, existing.id))
+          .returning()
+        : await db.insert(complianceMonitoringSchedules)
+          .values({
+            documentId,
+            frequency,
+            nextScheduled: firstCheck,
+            isActive: true,
+          })
+          .returning();
 
       log(`Successfully scheduled monitoring`, 'info', { schedule });
       return schedule;
@@ -39,7 +102,19 @@ export class PredictiveMonitoringService {
     }
   }
 
-  async generatePrediction(documentId: number): Promise<InsertPrediction> {
+  async stopMonitoring(documentIds: number[]): Promise<ComplianceMonitoringSchedule[]> {
+    const schedules = await db.update(complianceMonitoringSchedules)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(inArray(complianceMonitoringSchedules.documentId, documentIds))
+      .returning();
+    log(`Stopped ${schedules.length} monitoring schedules`, 'info', { documentIds });
+    return schedules;
+  }
+
+  // Alerts from the prediction itself are skipped by scheduled checks, which
+  // only alert on what changed since the previous run
+  async generatePrediction(documentId: number, options: { raiseAlerts?: boolean } = {}): Promise<CompliancePrediction> {
+    const { raiseAlerts = true } = options;
     log(`Generating prediction for document ${documentId}`);
 
     // Get document content
@@ -54,9 +129,9 @@ export class PredictiveMonitoringService {
 
     try {
       log('Initiating AI analysis');
-      const message = await anthropic.messages.create({
-        model: "claude-3-5-sonnet-20241022",
-        max_tokens: 1024,
+      const message = await modelRouter.complete({
+        role: "analysis",
+        maxTokens: 1024,
         messages: [{
           role: "user",
           content: `Analyze this document for potential compliance risks and provide a prediction:
@@ -74,7 +149,7 @@ export class PredictiveMonitoringService {
       });
 
       log('AI analysis completed, parsing response');
-      const analysis = JSON.parse(message.content[0].text);
+      const analysis = JSON.parse(message.text);
 
       const prediction: InsertPrediction = {
         documentId,
@@ -94,13 +169,13 @@ export class PredictiveMonitoringService {
       // Generate alerts for high-risk factors
       const highRiskFactors = analysis.riskFactors.filter((rf: any) => rf.impact > 75);
 
-      if (highRiskFactors.length > 0) {
+      if (raiseAlerts && highRiskFactors.length > 0) {
         log(`Creating alerts for ${highRiskFactors.length} high-risk factors`);
         await this.createAlerts(savedPrediction.id, documentId, highRiskFactors);
       }
 
       log('Prediction generation completed successfully');
-      return prediction;
+      return savedPrediction;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       log('Failed to generate prediction', 'error', { error: errorMessage });
@@ -119,8 +194,10 @@ export class PredictiveMonitoringService {
         status: 'PENDING'
       }));
 
-      await db.insert(complianceAlerts)
-        .values(alerts);
+      const created = await db.insert(complianceAlerts)
+        .values(alerts)
+        .returning();
+      await alertNotificationService.alertsRaised(created);
 
       log(`Successfully created ${alerts.length} alerts`);
     } catch (error) {
@@ -158,47 +235,226 @@ export class PredictiveMonitoringService {
     return nextCheck;
   }
 
-  async checkScheduledMonitoring(): Promise<void> {
-    log('Starting scheduled monitoring check');
+  // Sweeps for due schedules every interval. Each instance runs its own
+  // sweeper; claiming is safe to race (see checkScheduledMonitoring).
+  startScheduler(intervalMs = SWEEP_INTERVAL_MS): void {
+    if (this.sweepTimer) return;
+    log('Starting monitoring scheduler', 'info', { intervalMs });
 
-    try {
-      // Get all active schedules that are due
-      const dueSchedules = await db.select()
+    const sweep = () => {
+      this.checkScheduledMonitoring().catch(error => {
+        log('Scheduled monitoring sweep failed', 'error', { error: error instanceof Error ? error.message : String(error) });
+      });
+    };
+    sweep();
+    this.sweepTimer = setInterval(sweep, intervalMs);
+    this.sweepTimer.unref();
+  }
+
+  stopScheduler(): void {
+    clearInterval(this.sweepTimer);
+    this.sweepTimer = undefined;
+  }
+
+  // Claims due schedules and queues a check for each. nextScheduled moves
+  // forward in the same transaction that queues the check, and SKIP LOCKED
+  // keeps concurrent sweepers off rows another instance is claiming, so a
+  // schedule is never run twice for the same slot. The queued check is a
+  // background job, so it survives restarts. Schedules whose previous check
+  // is still queued or running are left alone until it finishes.
+  async checkScheduledMonitoring(): Promise<number> {
+    const checkPending = sql`exists (
+      select 1 from ${backgroundJobs}
+      where ${backgroundJobs.groupId} = 'compliance-schedule-' || ${complianceMonitoringSchedules.id}
+        and ${backgroundJobs.status} in ('QUEUED', 'RUNNING')
+    )`;
+
+    const claimed = await db.transaction(async (tx) => {
+      const due = await tx.select()
         .from(complianceMonitoringSchedules)
-        .where(
-          and(
-            eq(complianceMonitoringSchedules.isActive, true),
-            lte(complianceMonitoringSchedules.nextScheduled, new Date())
-          )
-        );
-
-      log(`Found ${dueSchedules.length} schedules due for monitoring`);
-
-      // Generate new predictions for each due schedule
-      for (const schedule of dueSchedules) {
-        try {
-          log(`Processing schedule ${schedule.id} for document ${schedule.documentId}`);
-          await this.generatePrediction(schedule.documentId);
-
-          // Update next scheduled check
-          await db.update(complianceMonitoringSchedules)
-            .set({
-              lastChecked: new Date(),
-              nextScheduled: this.calculateNextCheck(schedule.frequency as MonitoringFrequency),
-            })
-            .where(eq(complianceMonitoringSchedules.id, schedule.id));
-
-          log(`Successfully processed schedule ${schedule.id}`);
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          log(`Failed to process schedule ${schedule.id}`, 'error', { error: errorMessage });
-        }
+        .where(and(
+          eq(complianceMonitoringSchedules.isActive, true),
+          lte(complianceMonitoringSchedules.nextScheduled, new Date()),
+          sql`not ${checkPending}`
+        ))
+        .orderBy(asc(complianceMonitoringSchedules.nextScheduled))
+        .limit(SWEEP_BATCH_SIZE)
+        .for("update", { skipLocked: true });
+      if (!due.length) return [];
+
+      const owners = await tx.select({
+        id: complianceDocuments.id,
+        userId: complianceDocuments.userId,
+        organizationId: complianceDocuments.organizationId,
+      })
+        .from(complianceDocuments)
+        .where(inArray(complianceDocuments.id, due.map(schedule => schedule.documentId)));
+
+      for (const schedule of due) {
+        const owner = owners.find(document => document.id === schedule.documentId);
+        await tx.update(complianceMonitoringSchedules)
+          .set({
+            nextScheduled: this.calculateNextCheck(schedule.frequency as MonitoringFrequency),
+            updatedAt: new Date(),
+          })
+          .where(eq(complianceMonitoringSchedules.id, schedule.id));
+
+        await jobQueue.enqueue(SCHEDULED_CHECK_JOB, { scheduleId: schedule.id }, {
+          groupId: `compliance-schedule-${schedule.id}`,
+          resourceType: 'COMPLIANCE_DOCUMENT',
+          resourceId: schedule.documentId,
+          organizationId: owner?.organizationId ?? null,
+          createdBy: owner?.userId ?? null,
+        }, tx);
       }
+      return due;
+    });
+
+    if (claimed.length) {
+      log(`Queued checks for ${claimed.length} due schedules`, 'info', { scheduleIds: claimed.map(schedule => schedule.id) });
+    }
+    return claimed.length;
+  }
+
+  // Re-runs the compliance check and risk prediction for a schedule's
+  // document and raises alerts for anything that got worse since last time.
+  // The first check only records a baseline.
+  private async runScheduledCheck(scheduleId: number) {
+    const [schedule] = await db.select()
+      .from(complianceMonitoringSchedules)
+      .where(eq(complianceMonitoringSchedules.id, scheduleId));
+    if (!schedule?.isActive) {
+      return { skipped: 'inactive' };
+    }
+
+    const [document] = await db.select()
+      .from(complianceDocuments)
+      .where(eq(complianceDocuments.id, schedule.documentId));
+    if (!document) {
+      await this.stopMonitoring([schedule.documentId]);
+      return { skipped: 'document deleted' };
+    }
+
+    const previous = await this.snapshot(document);
+    const result = await monitorDocument(String(document.id));
+
+    let prediction: CompliancePrediction | null = null;
+    try {
+      prediction = await this.generatePrediction(document.id, { raiseAlerts: false });
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      log('Failed to check scheduled monitoring', 'error', { error: errorMessage });
-      throw new Error(`Failed to check scheduled monitoring: ${errorMessage}`);
+      // The compliance check alone is enough to compare against
+      log(`Prediction failed during scheduled check for document ${document.id}`, 'error', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    const alerts = previous.checked ? this.regressions(previous, result, prediction) : [];
+    if (alerts.length) {
+      const created = await db.insert(complianceAlerts).values(alerts.map(alert => ({
+        ...alert,
+        predictionId: prediction?.id ?? null,
+        documentId: document.id,
+        status: 'PENDING',
+      }))).returning();
+      await alertNotificationService.alertsRaised(created);
     }
+
+    await db.update(complianceMonitoringSchedules)
+      .set({ lastChecked: new Date(), updatedAt: new Date() })
+      .where(eq(complianceMonitoringSchedules.id, schedule.id));
+
+    log(`Scheduled check completed for document ${document.id}`, 'info', {
+      scheduleId,
+      riskScore: result.riskScore,
+      previousRiskScore: previous.riskScore,
+      alerts: alerts.length,
+    });
+    return {
+      documentId: document.id,
+      status: result.status,
+      riskScore: result.riskScore,
+      previousRiskScore: previous.riskScore,
+      predictionId: prediction?.id ?? null,
+      alerts: alerts.length,
+    };
+  }
+
+  private async snapshot(document: ComplianceDocument): Promise<CheckSnapshot> {
+    const openIssues = await db.select({
+      ruleId: complianceIssues.ruleId,
+      description: complianceIssues.description,
+      clause: complianceIssues.clause,
+    })
+      .from(complianceIssues)
+      .where(and(eq(complianceIssues.documentId, document.id), ne(complianceIssues.status, 'RESOLVED')));
+
+    const [lastPrediction] = await db.select({ predictedStatus: compliancePredictions.predictedStatus })
+      .from(compliancePredictions)
+      .where(eq(compliancePredictions.documentId, document.id))
+      .orderBy(desc(compliancePredictions.createdAt), desc(compliancePredictions.id))
+      .limit(1);
+
+    return {
+      checked: document.lastScanned != null,
+      status: document.status,
+      riskScore: document.riskScore,
+      openIssueKeys: new Set(openIssues.map(issueKey)),
+      predictedStatus: lastPrediction?.predictedStatus ?? null,
+    };
+  }
+
+  private regressions(
+    previous: CheckSnapshot,
+    result: ComplianceCheckResult,
+    prediction: CompliancePrediction | null
+  ): Array<Pick<InsertAlert, 'severity' | 'message'>> {
+    const alerts: Array<Pick<InsertAlert, 'severity' | 'message'>> = [];
+
+    if (
+      previous.status in CHECK_STATUS_RANK &&
+      CHECK_STATUS_RANK[result.status] > CHECK_STATUS_RANK[previous.status]
+    ) {
+      alerts.push({
+        severity: 'HIGH',
+        message: `Compliance status changed from ${previous.status} to ${result.status}`,
+      });
+    }
+
+    if (previous.riskScore != null && result.riskScore - previous.riskScore >= RISK_SCORE_TOLERANCE) {
+      alerts.push({
+        severity: result.riskScore >= 70 ? 'HIGH' : 'MEDIUM',
+        message: `Risk score rose from ${previous.riskScore} to ${result.riskScore}`,
+      });
+    }
+
+    const newIssues = result.issues.filter((issue: ComplianceIssue) => !previous.openIssueKeys.has(issueKey(issue)));
+    if (newIssues.length) {
+      const worst = newIssues.reduce((max, issue) =>
+        SEVERITY_RANK[issue.severity] > SEVERITY_RANK[max.severity] ? issue : max
+      );
+      const listed = newIssues
+        .slice(0, ALERT_ISSUE_LIMIT)
+        .map(issue => `${issue.ruleId ?? issue.description} (${issue.clause})`)
+        .join('; ');
+      const more = newIssues.length > ALERT_ISSUE_LIMIT ? ` and ${newIssues.length - ALERT_ISSUE_LIMIT} more` : '';
+      alerts.push({
+        severity: worst.severity,
+        message: `${newIssues.length} new compliance issue(s): ${listed}${more}`,
+      });
+    }
+
+    if (
+      prediction &&
+      previous.predictedStatus &&
+      (PREDICTION_STATUS_RANK[prediction.predictedStatus] ?? -1) > (PREDICTION_STATUS_RANK[previous.predictedStatus] ?? Infinity)
+    ) {
+      alerts.push({
+        severity: 'HIGH',
+        message: `Predicted compliance status changed from ${previous.predictedStatus} to ${prediction.predictedStatus}`,
+      });
+    }
+
+    return alerts;
   }
 }
 
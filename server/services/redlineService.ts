@@ -0,0 +1,713 @@
+import * as diff from "diff";
+import debug from "debug";
+import type { ChangeMateriality, RedlineOperationType } from "@shared/schema";
+import type { PDFPageBoundary } from "./pdf-service";
+
+const log = debug("app:redline-service");
+
+export interface DiffSegment {
+  value: string;
+  added?: boolean;
+  removed?: boolean;
+}
+
+export interface ParsedClause {
+  index: number;
+  number: string | null;
+  heading: string | null;
+  level: number;
+  text: string;
+  body: string;
+  start: number;
+  end: number;
+  pageNumber?: number;
+}
+
+export interface ClauseReference {
+  index: number;
+  number: string | null;
+  heading: string | null;
+  text: string;
+  start: number;
+  end: number;
+  pageNumber?: number;
+}
+
+export interface CompareOptions {
+  originalPages?: Array<Pick<PDFPageBoundary, "pageNumber" | "start" | "end">>;
+  proposedPages?: Array<Pick<PDFPageBoundary, "pageNumber" | "start" | "end">>;
+}
+
+export interface ClauseOperation {
+  type: RedlineOperationType;
+  materiality: ChangeMateriality;
+  reasons: string[];
+  renumbered: boolean;
+  original?: ClauseReference;
+  proposed?: ClauseReference;
+  segments?: DiffSegment[];
+}
+
+export interface RedlineResponse {
+  segments: DiffSegment[];
+  summary: {
+    additions: number;
+    deletions: number;
+    unchanged: number;
+    clauses: {
+      original: number;
+      proposed: number;
+      inserted: number;
+      deleted: number;
+      modified: number;
+      moved: number;
+      renumbered: number;
+    };
+    highestMateriality: ChangeMateriality | null;
+  };
+  operations: ClauseOperation[];
+}
+
+// How a caller settles a conflict reported by a previous merge attempt
+export type MergeResolution = "ours" | "theirs" | "base" | { text: string };
+
+export interface MergeConflict {
+  id: string;
+  clauseNumber: string | null;
+  heading: string | null;
+  base: string;
+  ours: string | null;
+  theirs: string | null;
+}
+
+export interface MergeChange {
+  type: "ADDITION" | "DELETION" | "MODIFICATION";
+  content: string;
+  source: "ours" | "theirs" | "both" | "resolution";
+}
+
+export interface MergeResult {
+  content: string;
+  conflicts: MergeConflict[];
+  changes: MergeChange[];
+  summary: {
+    autoMerged: number;
+    conflicts: number;
+    resolved: number;
+  };
+}
+
+const MATERIALITY_ORDER: ChangeMateriality[] = ["COSMETIC", "MINOR", "MATERIAL", "CRITICAL"];
+
+// Minimum similarity for two clauses to be treated as the same clause
+const MATCH_THRESHOLD = 0.5;
+
+// Topics where any substantive change should be escalated to CRITICAL
+const HIGH_RISK_TOPICS: Array<{ label: string; pattern: RegExp }> = [
+  { label: "indemnification", pattern: /indemnif/i },
+  { label: "limitation of liability", pattern: /liabilit|liable|consequential damages/i },
+  { label: "liability cap", pattern: /\bcap\b|aggregate amount|in no event/i },
+  { label: "termination", pattern: /terminat/i },
+  { label: "exclusivity", pattern: /exclusiv/i },
+  { label: "non-compete", pattern: /non-?compet|non-?solicit/i },
+  { label: "governing law", pattern: /governing law|jurisdiction|venue/i },
+  { label: "warranty", pattern: /warrant/i },
+  { label: "confidentiality", pattern: /confidential/i },
+  { label: "intellectual property", pattern: /intellectual property|\bip\b|ownership/i },
+];
+
+// Words that change who must do what when added, removed or swapped
+const OBLIGATION_TERMS = /^(shall|must|may|will|should|not|never|no|except|unless|only|solely|sole|any|all|without|including|excluding)$/i;
+
+const NUMERIC_TOKEN = /[$€£]|\d/;
+
+// Numbering styles: "1.", "1)", "1.2", "Section 3", "Article IV", "(a)", "(iv)".
+// A bare number needs a "." or ")" after it, or a second level and a heading,
+// so a wrapped line such as "30 days after notice" is not read as section 30.
+const KEYWORD_SECTION_PATTERN = /^\s*(?:section|clause|article)\s+(\d+(?:\.\d+)*)\.?(?=\s|$)\s*(.*)$/i;
+const SECTION_PATTERN = /^\s*(\d+(?:\.\d+)*(?=[.)])|\d+(?:\.\d+)+(?=\s+[A-Z(]))[.)]?(?=\s|$)\s*(.*)$/;
+const ARTICLE_PATTERN = /^\s*article\s+([IVXLC]+)\.?(?=\s|$)\s*(.*)$/i;
+const SUBCLAUSE_PATTERN = /^\s*\(([a-z]{1,2}|[ivx]{1,5}|\d{1,3})\)\s+(.*)$/i;
+
+export class RedlineService {
+  compare(originalText: string, proposedText: string, options: CompareOptions = {}): RedlineResponse {
+    log("Comparing texts", { original: originalText.length, proposed: proposedText.length });
+
+    const wordChanges = diff.diffWords(originalText, proposedText);
+    const segments = wordChanges.map((change) => ({
+      value: change.value,
+      added: change.added,
+      removed: change.removed,
+    }));
+
+    const originalClauses = this.assignPages(this.parseClauses(originalText), options.originalPages);
+    const proposedClauses = this.assignPages(this.parseClauses(proposedText), options.proposedPages);
+    const { operations, renumbered } = this.diffClauses(originalClauses, proposedClauses);
+
+    const highest = operations.reduce<ChangeMateriality | null>(
+      (acc, op) => (acc === null || compareMateriality(op.materiality, acc) > 0 ? op.materiality : acc),
+      null,
+    );
+
+    log("Clause comparison complete", { operations: operations.length, highest });
+
+    return {
+      segments,
+      summary: {
+        additions: wordChanges.filter((c) => c.added).length,
+        deletions: wordChanges.filter((c) => c.removed).length,
+        unchanged: wordChanges.filter((c) => !c.added && !c.removed).length,
+        clauses: {
+          original: originalClauses.length,
+          proposed: proposedClauses.length,
+          inserted: operations.filter((op) => op.type === "INSERT").length,
+          deleted: operations.filter((op) => op.type === "DELETE").length,
+          modified: operations.filter((op) => op.type === "MODIFY").length,
+          moved: operations.filter((op) => op.type === "MOVE").length,
+          renumbered,
+        },
+        highestMateriality: highest,
+      },
+      operations,
+    };
+  }
+
+  // Split a contract into numbered sections and sub-clauses. Text that has no
+  // numbering at all falls back to one clause per paragraph.
+  parseClauses(text: string): ParsedClause[] {
+    const lines = this.splitLines(text);
+    const clauses: ParsedClause[] = [];
+    let current: ParsedClause | null = null;
+    let parentNumber: string | null = null;
+    let sawNumbering = false;
+
+    const close = (end: number) => {
+      if (current) {
+        current.end = end;
+        current.text = text.slice(current.start, end).trim();
+        current.body = this.stripNumber(current.text);
+        if (current.text.length > 0) {
+          clauses.push(current);
+        }
+      }
+    };
+
+    for (const line of lines) {
+      const marker = this.matchNumbering(line.value, parentNumber);
+
+      if (marker) {
+        sawNumbering = true;
+        close(line.start);
+        if (marker.level === 1) {
+          parentNumber = marker.number;
+        }
+        current = {
+          index: clauses.length,
+          number: marker.number,
+          heading: marker.heading,
+          level: marker.level,
+          text: "",
+          body: "",
+          start: line.start,
+          end: line.end,
+        };
+      } else if (!current && line.value.trim().length > 0) {
+        // Preamble before the first numbered section
+        current = {
+          index: clauses.length,
+          number: null,
+          heading: null,
+          level: 0,
+          text: "",
+          body: "",
+          start: line.start,
+          end: line.end,
+        };
+      }
+    }
+    close(text.length);
+
+    if (!sawNumbering) {
+      return this.splitParagraphs(text);
+    }
+
+    return clauses.map((clause, index) => ({ ...clause, index }));
+  }
+
+  // Three-way merge at clause level. Clauses changed on only one side are taken
+  // from that side; clauses changed differently on both sides are conflicts and
+  // keep the base wording until a resolution is supplied for them.
+  merge(
+    baseText: string,
+    oursText: string,
+    theirsText: string,
+    resolutions: Record<string, MergeResolution> = {},
+  ): MergeResult {
+    const base = this.parseClauses(baseText);
+    const ours = this.parseClauses(oursText);
+    const theirs = this.parseClauses(theirsText);
+
+    const oursByBase = new Map(this.matchClauses(base, ours).map((p) => [p.original, p.proposed]));
+    const theirsByBase = new Map(this.matchClauses(base, theirs).map((p) => [p.original, p.proposed]));
+    const oursInsertions = this.insertionsByAnchor(ours, oursByBase);
+    const theirsInsertions = this.insertionsByAnchor(theirs, theirsByBase);
+
+    const pieces: string[] = [];
+    const conflicts: MergeConflict[] = [];
+    const changes: MergeChange[] = [];
+    let resolved = 0;
+
+    const emitInsertions = (anchor: number) => {
+      const fromOurs = oursInsertions.get(anchor) || [];
+      const fromTheirs = (theirsInsertions.get(anchor) || []).filter(
+        (clause) => !fromOurs.some((existing) => normalize(existing.body) === normalize(clause.body)),
+      );
+      for (const clause of fromOurs) {
+        pieces.push(clause.text);
+        changes.push({ type: "ADDITION", content: clause.text, source: "ours" });
+      }
+      for (const clause of fromTheirs) {
+        pieces.push(clause.text);
+        changes.push({ type: "ADDITION", content: clause.text, source: "theirs" });
+      }
+    };
+
+    const take = (clause: ParsedClause | null, original: ParsedClause, source: MergeChange["source"]) => {
+      if (clause) {
+        pieces.push(clause.text);
+        changes.push({ type: "MODIFICATION", content: clause.text, source });
+      } else {
+        changes.push({ type: "DELETION", content: original.text, source });
+      }
+    };
+
+    emitInsertions(-1);
+
+    base.forEach((clause, index) => {
+      const ourIndex = oursByBase.get(index);
+      const theirIndex = theirsByBase.get(index);
+      const ourClause = ourIndex === undefined ? null : ours[ourIndex];
+      const theirClause = theirIndex === undefined ? null : theirs[theirIndex];
+
+      const ourChanged = !ourClause || collapseWhitespace(ourClause.body) !== collapseWhitespace(clause.body);
+      const theirChanged = !theirClause || collapseWhitespace(theirClause.body) !== collapseWhitespace(clause.body);
+      const sameChange = (!ourClause && !theirClause) ||
+        (!!ourClause && !!theirClause && collapseWhitespace(ourClause.body) === collapseWhitespace(theirClause.body));
+
+      if (!ourChanged && !theirChanged) {
+        pieces.push((ourClause as ParsedClause).text);
+      } else if (!theirChanged) {
+        take(ourClause, clause, "ours");
+      } else if (!ourChanged) {
+        take(theirClause, clause, "theirs");
+      } else if (sameChange) {
+        take(ourClause, clause, "both");
+      } else {
+        const id = `clause-${index}`;
+        const resolution = resolutions[id];
+
+        if (resolution === "ours") {
+          take(ourClause, clause, "resolution");
+          resolved++;
+        } else if (resolution === "theirs") {
+          take(theirClause, clause, "resolution");
+          resolved++;
+        } else if (resolution === "base") {
+          pieces.push(clause.text);
+          resolved++;
+        } else if (resolution && typeof resolution === "object" && typeof resolution.text === "string") {
+          if (resolution.text.trim().length > 0) {
+            pieces.push(resolution.text.trim());
+          }
+          changes.push({ type: "MODIFICATION", content: resolution.text, source: "resolution" });
+          resolved++;
+        } else {
+          pieces.push(clause.text);
+          conflicts.push({
+            id,
+            clauseNumber: clause.number,
+            heading: clause.heading,
+            base: clause.text,
+            ours: ourClause ? ourClause.text : null,
+            theirs: theirClause ? theirClause.text : null,
+          });
+        }
+      }
+
+      emitInsertions(index);
+    });
+
+    log("Three-way merge complete", { changes: changes.length, conflicts: conflicts.length, resolved });
+
+    return {
+      content: pieces.join("\n\n"),
+      conflicts,
+      changes,
+      summary: {
+        autoMerged: changes.filter((change) => change.source !== "resolution").length,
+        conflicts: conflicts.length,
+        resolved,
+      },
+    };
+  }
+
+  // Group clauses that exist only on one side by the base clause they follow
+  private insertionsByAnchor(clauses: ParsedClause[], matchedByBase: Map<number, number>) {
+    const baseBySide = new Map(Array.from(matchedByBase.entries()).map(([baseIndex, sideIndex]) => [sideIndex, baseIndex]));
+    const insertions = new Map<number, ParsedClause[]>();
+    let anchor = -1;
+
+    clauses.forEach((clause, index) => {
+      const baseIndex = baseBySide.get(index);
+      if (baseIndex !== undefined) {
+        anchor = baseIndex;
+        return;
+      }
+      insertions.set(anchor, [...(insertions.get(anchor) || []), clause]);
+    });
+
+    return insertions;
+  }
+
+  private assignPages(clauses: ParsedClause[], pages?: CompareOptions["originalPages"]): ParsedClause[] {
+    if (!pages || pages.length === 0) return clauses;
+    return clauses.map((clause) => {
+      const page = pages.find((p) => clause.start >= p.start && clause.start <= p.end);
+      return page ? { ...clause, pageNumber: page.pageNumber } : clause;
+    });
+  }
+
+  private diffClauses(
+    original: ParsedClause[],
+    proposed: ParsedClause[],
+  ): { operations: ClauseOperation[]; renumbered: number } {
+    const pairs = this.matchClauses(original, proposed);
+    const matchedOriginal = new Set(pairs.map((p) => p.original));
+    const matchedProposed = new Set(pairs.map((p) => p.proposed));
+
+    // Pairs outside the longest in-order run are the ones that moved
+    const inOrder = this.longestIncreasingRun(
+      [...pairs].sort((a, b) => a.original - b.original).map((p) => p.proposed),
+    );
+
+    const operations: Array<ClauseOperation & { sortKey: number }> = [];
+    let renumberedCount = 0;
+
+    for (const pair of pairs) {
+      const before = original[pair.original];
+      const after = proposed[pair.proposed];
+      const moved = !inOrder.has(pair.proposed);
+      const renumbered = (before.number ?? "") !== (after.number ?? "");
+      const textChanged = collapseWhitespace(before.body) !== collapseWhitespace(after.body);
+
+      if (renumbered) {
+        renumberedCount++;
+      }
+      if (!moved && !textChanged) {
+        continue;
+      }
+
+      const rating = textChanged
+        ? this.rateModification(before.body, after.body)
+        : { materiality: "MINOR" as ChangeMateriality, reasons: ["Clause relocated without wording changes"] };
+
+      operations.push({
+        type: moved ? "MOVE" : "MODIFY",
+        materiality: rating.materiality,
+        reasons: moved && textChanged ? ["Clause relocated", ...rating.reasons] : rating.reasons,
+        renumbered,
+        original: toReference(before),
+        proposed: toReference(after),
+        segments: textChanged ? diff.diffWords(before.body, after.body).map((c) => ({
+          value: c.value,
+          added: c.added,
+          removed: c.removed,
+        })) : undefined,
+        sortKey: after.start,
+      });
+    }
+
+    original.forEach((clause, index) => {
+      if (matchedOriginal.has(index)) return;
+      const rating = this.rateWholeClause(clause.text, "deleted");
+      operations.push({
+        type: "DELETE",
+        ...rating,
+        renumbered: false,
+        original: toReference(clause),
+        sortKey: this.anchorInProposed(index, pairs.filter((p) => inOrder.has(p.proposed)), proposed),
+      });
+    });
+
+    proposed.forEach((clause, index) => {
+      if (matchedProposed.has(index)) return;
+      const rating = this.rateWholeClause(clause.text, "inserted");
+      operations.push({
+        type: "INSERT",
+        ...rating,
+        renumbered: false,
+        proposed: toReference(clause),
+        sortKey: clause.start,
+      });
+    });
+
+    return {
+      operations: operations
+        .sort((a, b) => a.sortKey - b.sortKey)
+        .map(({ sortKey, ...op }) => op),
+      renumbered: renumberedCount,
+    };
+  }
+
+  // Pair clauses exactly by wording first, then greedily by similarity
+  private matchClauses(original: ParsedClause[], proposed: ParsedClause[]) {
+    const pairs: Array<{ original: number; proposed: number }> = [];
+    const usedOriginal = new Set<number>();
+    const usedProposed = new Set<number>();
+
+    const proposedByBody = new Map<string, number[]>();
+    proposed.forEach((clause, index) => {
+      const key = normalize(clause.body);
+      proposedByBody.set(key, [...(proposedByBody.get(key) || []), index]);
+    });
+
+    original.forEach((clause, index) => {
+      const candidates = proposedByBody.get(normalize(clause.body));
+      const match = candidates?.find((candidate) => !usedProposed.has(candidate));
+      if (match !== undefined) {
+        pairs.push({ original: index, proposed: match });
+        usedOriginal.add(index);
+        usedProposed.add(match);
+      }
+    });
+
+    const scored: Array<{ original: number; proposed: number; score: number }> = [];
+    original.forEach((before, i) => {
+      if (usedOriginal.has(i)) return;
+      proposed.forEach((after, j) => {
+        if (usedProposed.has(j)) return;
+        let score = similarity(before.body, after.body);
+        if (before.heading && after.heading && normalize(before.heading) === normalize(after.heading)) {
+          score += 0.25;
+        }
+        if (score >= MATCH_THRESHOLD) {
+          scored.push({ original: i, proposed: j, score });
+        }
+      });
+    });
+
+    scored.sort((a, b) => b.score - a.score);
+    for (const candidate of scored) {
+      if (usedOriginal.has(candidate.original) || usedProposed.has(candidate.proposed)) continue;
+      pairs.push({ original: candidate.original, proposed: candidate.proposed });
+      usedOriginal.add(candidate.original);
+      usedProposed.add(candidate.proposed);
+    }
+
+    return pairs;
+  }
+
+  private rateModification(before: string, after: string): { materiality: ChangeMateriality; reasons: string[] } {
+    if (stripPunctuation(before) === stripPunctuation(after)) {
+      return { materiality: "COSMETIC", reasons: ["Punctuation, capitalisation or spacing only"] };
+    }
+
+    const changes = diff.diffWords(before, after);
+    const changedTokens = changes
+      .filter((c) => c.added || c.removed)
+      .flatMap((c) => c.value.split(/\s+/).filter(Boolean));
+
+    const reasons: string[] = [];
+    let materiality: ChangeMateriality = "MINOR";
+
+    if (changedTokens.some((token) => NUMERIC_TOKEN.test(token))) {
+      reasons.push("Amounts, dates, periods or percentages changed");
+      materiality = "MATERIAL";
+    }
+
+    const obligationTerms = changedTokens
+      .map((token) => token.replace(/[^a-z]/gi, ""))
+      .filter((token) => OBLIGATION_TERMS.test(token));
+    if (obligationTerms.length > 0) {
+      reasons.push(`Obligation wording changed (${Array.from(new Set(obligationTerms.map((t) => t.toLowerCase()))).join(", ")})`);
+      materiality = "MATERIAL";
+    }
+
+    const totalWords = Math.max(before.split(/\s+/).length, after.split(/\s+/).length);
+    if (changedTokens.length / totalWords > 0.3) {
+      reasons.push("Substantial rewording");
+      materiality = "MATERIAL";
+    }
+
+    const topics = matchTopics(`${before} ${after}`);
+    if (materiality === "MATERIAL" && topics.length > 0) {
+      reasons.push(`Affects ${topics.join(", ")}`);
+      materiality = "CRITICAL";
+    }
+
+    if (reasons.length === 0) {
+      reasons.push("Minor rewording");
+    }
+
+    return { materiality, reasons };
+  }
+
+  private rateWholeClause(text: string, action: "inserted" | "deleted"): { materiality: ChangeMateriality; reasons: string[] } {
+    const topics = matchTopics(text);
+    if (topics.length > 0) {
+      return { materiality: "CRITICAL", reasons: [`Clause ${action}`, `Affects ${topics.join(", ")}`] };
+    }
+    if (text.split(/\s+/).length < 5) {
+      return { materiality: "MINOR", reasons: [`Short clause ${action}`] };
+    }
+    return { materiality: "MATERIAL", reasons: [`Clause ${action}`] };
+  }
+
+  // Position a deleted clause right after its nearest preceding unmoved neighbour
+  private anchorInProposed(
+    originalIndex: number,
+    pairs: Array<{ original: number; proposed: number }>,
+    proposed: ParsedClause[],
+  ): number {
+    const previous = pairs
+      .filter((p) => p.original < originalIndex)
+      .sort((a, b) => b.original - a.original)[0];
+    return previous ? proposed[previous.proposed].end - 0.5 : -1;
+  }
+
+  private longestIncreasingRun(values: number[]): Set<number> {
+    if (values.length === 0) return new Set();
+
+    const lengths = values.map(() => 1);
+    const previous = values.map(() => -1);
+    for (let i = 0; i < values.length; i++) {
+      for (let j = 0; j < i; j++) {
+        if (values[j] < values[i] && lengths[j] + 1 > lengths[i]) {
+          lengths[i] = lengths[j] + 1;
+          previous[i] = j;
+        }
+      }
+    }
+
+    let cursor = lengths.indexOf(Math.max(...lengths));
+    const run = new Set<number>();
+    while (cursor !== -1) {
+      run.add(values[cursor]);
+      cursor = previous[cursor];
+    }
+    return run;
+  }
+
+  private matchNumbering(line: string, parentNumber: string | null) {
+    const article = line.match(ARTICLE_PATTERN);
+    if (article) {
+      return { number: article[1].toUpperCase(), heading: extractHeading(article[2]), level: 1 };
+    }
+
+    const section = line.match(KEYWORD_SECTION_PATTERN) ?? line.match(SECTION_PATTERN);
+    if (section && section[2].trim().length > 0) {
+      const number = section[1];
+      return { number, heading: extractHeading(section[2]), level: number.split(".").length };
+    }
+
+    const sub = line.match(SUBCLAUSE_PATTERN);
+    if (sub) {
+      const label = `(${sub[1].toLowerCase()})`;
+      return { number: parentNumber ? `${parentNumber}${label}` : label, heading: null, level: 2 };
+    }
+
+    return null;
+  }
+
+  private stripNumber(text: string): string {
+    return text
+      .replace(/^\s*(?:section|clause|article)\s+(?:\d+(?:\.\d+)*|[IVXLC]+)\.?\s+/i, "")
+      .replace(/^\s*(?:\d+(?:\.\d+)*[.)]|\d+(?:\.\d+)+(?=\s+[A-Z(]))\s+/, "")
+      .replace(/^\s*\([a-z0-9]{1,5}\)\s+/i, "")
+      .trim();
+  }
+
+  private splitLines(text: string) {
+    const lines: Array<{ value: string; start: number; end: number }> = [];
+    let start = 0;
+    for (const value of text.split("\n")) {
+      lines.push({ value, start, end: start + value.length });
+      start += value.length + 1;
+    }
+    return lines;
+  }
+
+  private splitParagraphs(text: string): ParsedClause[] {
+    const clauses: ParsedClause[] = [];
+    const pattern = /\S[\s\S]*?(?=\n\s*\n|$)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      const value = match[0].trim();
+      clauses.push({
+        index: clauses.length,
+        number: null,
+        heading: null,
+        level: 0,
+        text: value,
+        body: value,
+        start: match.index,
+        end: match.index + match[0].length,
+      });
+    }
+    return clauses;
+  }
+}
+
+function toReference(clause: ParsedClause): ClauseReference {
+  return {
+    index: clause.index,
+    number: clause.number,
+    heading: clause.heading,
+    text: clause.text,
+    start: clause.start,
+    end: clause.end,
+    pageNumber: clause.pageNumber,
+  };
+}
+
+function extractHeading(rest: string): string | null {
+  const trimmed = rest.trim();
+  const titled = trimmed.match(/^([A-Z][^.:\n]{0,80})[.:](\s|$)/);
+  if (titled) return titled[1].trim();
+  if (trimmed.length > 0 && trimmed.length <= 80 && !/[.;]$/.test(trimmed)) return trimmed;
+  return null;
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function normalize(text: string): string {
+  return collapseWhitespace(text).toLowerCase();
+}
+
+function stripPunctuation(text: string): string {
+  return normalize(text).replace(/[^a-z0-9\s]/g, "").replace(/\s+/g, " ").trim();
+}
+
+// Dice coefficient over word sets
+function similarity(a: string, b: string): number {
+  const wordsA = new Set(stripPunctuation(a).split(" ").filter(Boolean));
+  const wordsB = new Set(stripPunctuation(b).split(" ").filter(Boolean));
+  if (wordsA.size === 0 && wordsB.size === 0) return 1;
+  let shared = 0;
+  wordsA.forEach((word) => {
+    if (wordsB.has(word)) shared++;
+  });
+  return (2 * shared) / (wordsA.size + wordsB.size);
+}
+
+function matchTopics(text: string): string[] {
+  return HIGH_RISK_TOPICS.filter((topic) => topic.pattern.test(text)).map((topic) => topic.label);
+}
+
+export function compareMateriality(a: ChangeMateriality, b: ChangeMateriality): number {
+  return MATERIALITY_ORDER.indexOf(a) - MATERIALITY_ORDER.indexOf(b);
+}
+
+export const redlineService = new RedlineService();
@@ -1,10 +1,8 @@
 import { db } from "../db";
 import { riskAssessments, complianceIssues, type RiskAssessment } from "@shared/schema";
-import OpenAI from "openai";
 import { eq } from "drizzle-orm";
-
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024
-const openai = new OpenAI();
+import { modelRouter } from "./modelRouter";
+import { slaDueDate } from "./complianceRemediationService";
 
 export class RiskAssessmentService {
   private async analyzeDocument(content: string): Promise<RiskAssessment[]> {
@@ -23,7 +21,8 @@ export class RiskAssessmentService {
 
       console.log('Content sanitized, sending to OpenAI...');
 
-      const completion = await openai.chat.completions.create({
+      const completion = await modelRouter.complete({
+        role: "structured",
         messages: [
           {
             role: "user",
@@ -64,12 +63,11 @@ Document to analyze:
 ${sanitizedContent}`
           }
         ],
-        model: "gpt-4o",
-        response_format: { type: "json_object" },
+        responseFormat: "json",
         temperature: 0.2,
       });
 
-      const responseText = completion.choices[0].message.content;
+      const responseText = completion.text;
       console.log('Received OpenAI response:', responseText);
 
       if (!responseText) {
@@ -176,6 +174,7 @@ ${sanitizedContent}`
           recommendation: risk.mitigation,
           reference: risk.references?.[0] || null,
           status: "OPEN",
+          dueDate: slaDueDate(risk.severity),
         });
 
         console.log(`Created compliance issue for enhanced risk assessment ${assessment.id}`);
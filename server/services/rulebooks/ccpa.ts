@@ -0,0 +1,66 @@
+import type { Rulebook } from "./types";
+
+export const ccpa: Rulebook = {
+  id: "CCPA",
+  name: "California Consumer Privacy Act (as amended by the CPRA)",
+  jurisdiction: "US-CA",
+  version: "2024.1",
+  effectiveDate: "2023-01-01",
+  description: "Service provider and contractor terms required by Cal. Civ. Code §1798.100 et seq. and 11 CCR §7051.",
+  scope: [
+    { label: "consumer personal information", pattern: "\\bCCPA\\b|\\bCPRA\\b|California|consumers?'? personal information|service provider" },
+  ],
+  rules: [
+    {
+      id: "CCPA-7051-A-1",
+      title: "No selling or sharing",
+      citation: "Cal. Civ. Code §1798.140(ag); 11 CCR §7051(a)(1)",
+      severity: "CRITICAL",
+      remediation: "Prohibit the service provider from selling or sharing personal information it receives.",
+      required: [
+        { label: "no sale or sharing", pattern: "(shall|will|may) not (sell|share|sell or share)[^.]{0,40}personal information" },
+      ],
+    },
+    {
+      id: "CCPA-7051-A-2",
+      title: "Specified business purposes",
+      citation: "Cal. Civ. Code §1798.100(d); 11 CCR §7051(a)(2)",
+      severity: "HIGH",
+      remediation: "Identify the limited and specified business purposes for which personal information is processed.",
+      required: [
+        { label: "business purpose", pattern: "(limited and specified|specified|specific) business purposes?" },
+      ],
+    },
+    {
+      id: "CCPA-7051-A-4",
+      title: "No combining with other data",
+      citation: "11 CCR §7051(a)(4)",
+      severity: "MEDIUM",
+      remediation: "Prohibit combining the personal information with data received from other sources or collected directly, except as the regulations permit.",
+      prohibited: [
+        { label: "combining data", pattern: "(may|is permitted to|has the right to) combine[^.]{0,80}personal information" },
+      ],
+      llmCheck: "Does this section allow the service provider to combine the personal information with data from other sources or its own customers?",
+    },
+    {
+      id: "CCPA-1798.105",
+      title: "Assistance with deletion requests",
+      citation: "Cal. Civ. Code §1798.105(c)(3); 11 CCR §7051(a)(7)",
+      severity: "MEDIUM",
+      remediation: "Require the service provider to cooperate with consumer requests to delete personal information.",
+      required: [
+        { label: "deletion requests", pattern: "(request|requests)[^.]{0,60}(delete|deletion)|delet\\w+[^.]{0,80}consumer requests?" },
+      ],
+    },
+    {
+      id: "CCPA-7051-A-6",
+      title: "Same level of privacy protection",
+      citation: "Cal. Civ. Code §1798.100(d)(2); 11 CCR §7051(a)(6)",
+      severity: "MEDIUM",
+      remediation: "Require the service provider to comply with the CCPA and provide the same level of privacy protection it requires of businesses.",
+      required: [
+        { label: "same level of protection", pattern: "same level of privacy protection|comply with[^.]{0,40}(CCPA|California Consumer Privacy Act)" },
+      ],
+    },
+  ],
+};
@@ -0,0 +1,89 @@
+import type { Rulebook } from "./types";
+
+export const gdpr: Rulebook = {
+  id: "GDPR",
+  name: "EU General Data Protection Regulation",
+  jurisdiction: "EU/EEA",
+  version: "2024.1",
+  effectiveDate: "2018-05-25",
+  description: "Controller-processor terms required by Regulation (EU) 2016/679 for agreements involving personal data.",
+  scope: [
+    { label: "personal data", pattern: "personal data|data subjects?|GDPR|2016/679" },
+  ],
+  rules: [
+    {
+      id: "GDPR-28-3-A",
+      title: "Processing on documented instructions",
+      citation: "GDPR Art. 28(3)(a)",
+      severity: "HIGH",
+      remediation: "State that the processor processes personal data only on documented instructions from the controller, including for international transfers.",
+      required: [
+        { label: "documented instructions", pattern: "(documented|written) instructions" },
+      ],
+    },
+    {
+      id: "GDPR-28-3-B",
+      title: "Confidentiality of authorised personnel",
+      citation: "GDPR Art. 28(3)(b)",
+      severity: "MEDIUM",
+      remediation: "Require that persons authorised to process the personal data are bound by confidentiality obligations.",
+      required: [
+        { label: "personnel confidentiality", pattern: "(persons|personnel|staff|employees)[^.]{0,120}confidential" },
+      ],
+    },
+    {
+      id: "GDPR-32",
+      title: "Security of processing",
+      citation: "GDPR Art. 32",
+      severity: "HIGH",
+      remediation: "Oblige the processor to implement appropriate technical and organisational measures to secure the personal data.",
+      required: [
+        { label: "technical and organisational measures", pattern: "technical and organi[sz]ational (security )?measures" },
+      ],
+    },
+    {
+      id: "GDPR-33",
+      title: "Personal data breach notification",
+      citation: "GDPR Art. 33(2)",
+      severity: "HIGH",
+      remediation: "Require the processor to notify the controller without undue delay after becoming aware of a personal data breach.",
+      required: [
+        { label: "breach notification", pattern: "breach[^.]{0,160}notif|notif[^.]{0,160}breach" },
+      ],
+    },
+    {
+      id: "GDPR-28-3-G",
+      title: "Deletion or return at end of services",
+      citation: "GDPR Art. 28(3)(g)",
+      severity: "MEDIUM",
+      remediation: "Require deletion or return of all personal data at the end of the provision of services, and deletion of existing copies.",
+      required: [
+        { label: "delete or return", pattern: "(delete|return|destroy)[^.]{0,80}personal data|personal data[^.]{0,80}(deleted|returned|destroyed)" },
+      ],
+    },
+    {
+      id: "GDPR-46",
+      title: "Safeguards for international transfers",
+      citation: "GDPR Arts. 44-46",
+      severity: "CRITICAL",
+      remediation: "Base transfers outside the EEA on an adequacy decision, standard contractual clauses or binding corporate rules.",
+      triggers: [
+        { label: "international transfer", pattern: "transfer[^.]{0,80}(outside|third countr|international)" },
+      ],
+      required: [
+        { label: "transfer mechanism", pattern: "standard contractual clauses|adequacy decision|binding corporate rules" },
+      ],
+      llmCheck: "Does this section allow personal data to be transferred outside the EEA without naming a lawful transfer mechanism?",
+    },
+    {
+      id: "GDPR-5-1-E",
+      title: "Storage limitation",
+      citation: "GDPR Art. 5(1)(e)",
+      severity: "MEDIUM",
+      remediation: "Limit retention of personal data to what is necessary for the purposes of processing.",
+      prohibited: [
+        { label: "indefinite retention", pattern: "(retain|keep|store)[^.]{0,80}(indefinitely|in perpetuity|perpetually)" },
+      ],
+    },
+  ],
+};
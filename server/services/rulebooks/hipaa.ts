@@ -0,0 +1,76 @@
+import type { Rulebook } from "./types";
+
+export const hipaa: Rulebook = {
+  id: "HIPAA",
+  name: "HIPAA Business Associate Requirements",
+  jurisdiction: "US",
+  version: "2024.1",
+  effectiveDate: "2013-09-23",
+  description: "Business associate contract terms required by 45 C.F.R. §164.504(e) and the breach notification rule.",
+  scope: [
+    { label: "protected health information", pattern: "protected health information|\\bPHI\\b|HIPAA|business associate" },
+  ],
+  rules: [
+    {
+      id: "HIPAA-164.504-E-2-I",
+      title: "Permitted uses and disclosures",
+      citation: "45 C.F.R. §164.504(e)(2)(i)",
+      severity: "HIGH",
+      remediation: "Limit the business associate's use and disclosure of PHI to what the agreement permits or the law requires.",
+      required: [
+        { label: "permitted uses", pattern: "us(e|es|ing) (and|or) disclos\\w+[^.]{0,160}(permitted|required) by (this|the) (agreement|contract)|as required by law" },
+      ],
+    },
+    {
+      id: "HIPAA-164.504-E-2-II-B",
+      title: "Appropriate safeguards",
+      citation: "45 C.F.R. §164.504(e)(2)(ii)(B); §164.314(a)",
+      severity: "HIGH",
+      remediation: "Require appropriate administrative, physical and technical safeguards, and compliance with the Security Rule for electronic PHI.",
+      required: [
+        { label: "safeguards", pattern: "(appropriate|administrative, physical,? and technical) safeguards" },
+      ],
+    },
+    {
+      id: "HIPAA-164.410",
+      title: "Breach reporting",
+      citation: "45 C.F.R. §164.410; §164.504(e)(2)(ii)(C)",
+      severity: "CRITICAL",
+      remediation: "Require the business associate to report any breach of unsecured PHI to the covered entity without unreasonable delay and within 60 days.",
+      required: [
+        { label: "breach report", pattern: "(report|notify)[^.]{0,120}breach|breach[^.]{0,120}(report|notif)" },
+      ],
+    },
+    {
+      id: "HIPAA-164.504-E-2-II-D",
+      title: "Subcontractor flow-down",
+      citation: "45 C.F.R. §164.504(e)(2)(ii)(D); §164.502(e)(1)(ii)",
+      severity: "HIGH",
+      remediation: "Require subcontractors that handle PHI to agree to the same restrictions and conditions as the business associate.",
+      required: [
+        { label: "same restrictions", pattern: "subcontractors?[^.]{0,200}(same|equivalent) restrictions" },
+      ],
+    },
+    {
+      id: "HIPAA-164.504-E-2-II-J",
+      title: "Return or destruction at termination",
+      citation: "45 C.F.R. §164.504(e)(2)(ii)(J)",
+      severity: "MEDIUM",
+      remediation: "Require the return or destruction of all PHI at termination, or extend the agreement's protections where that is infeasible.",
+      required: [
+        { label: "return or destroy", pattern: "return or destr(oy|uction)" },
+      ],
+    },
+    {
+      id: "HIPAA-164.502-A-5-II",
+      title: "Sale of PHI",
+      citation: "45 C.F.R. §164.502(a)(5)(ii)",
+      severity: "CRITICAL",
+      remediation: "Remove any right to sell, license or otherwise receive remuneration in exchange for PHI.",
+      prohibited: [
+        { label: "right to sell PHI", pattern: "(may|is permitted to|has the right to|is entitled to) (sell|license|monetize)[^.]{0,60}(protected health information|PHI)" },
+      ],
+      llmCheck: "Does this section let any party receive payment in exchange for protected health information?",
+    },
+  ],
+};
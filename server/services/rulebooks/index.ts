@@ -0,0 +1,92 @@
+import { ccpa } from "./ccpa";
+import { gdpr } from "./gdpr";
+import { hipaa } from "./hipaa";
+import { sox } from "./sox";
+import type { ClausePattern, RegulatoryRule, Rulebook, RuleFinding } from "./types";
+
+export type { ClausePattern, RegulatoryRule, Rulebook, RuleFinding } from "./types";
+
+const RULEBOOKS: Rulebook[] = [gdpr, hipaa, sox, ccpa];
+
+// Longest excerpt quoted back in a finding
+const EXCERPT_CHARS = 200;
+
+const compiled = new Map<ClausePattern, RegExp>();
+
+function toRegExp(pattern: ClausePattern): RegExp {
+  let regex = compiled.get(pattern);
+  if (!regex) {
+    regex = new RegExp(pattern.pattern, pattern.flags ?? "i");
+    compiled.set(pattern, regex);
+  }
+  return regex;
+}
+
+function matches(patterns: ClausePattern[] | undefined, text: string): boolean {
+  return !!patterns?.some((pattern) => toRegExp(pattern).test(text));
+}
+
+export function listRulebooks(): Rulebook[] {
+  return RULEBOOKS;
+}
+
+export function getRulebook(id: string): Rulebook | undefined {
+  return RULEBOOKS.find((rulebook) => rulebook.id === id.toUpperCase());
+}
+
+export function unknownRulebooks(ids: string[]): string[] {
+  return ids.filter((id) => !getRulebook(id));
+}
+
+// A document without a selection is checked against every rulebook; scopes
+// and triggers keep irrelevant ones from raising anything
+export function resolveRulebooks(ids: string[] | null | undefined): Rulebook[] {
+  return ids?.length ? ids.map(getRulebook).filter((rulebook): rulebook is Rulebook => !!rulebook) : RULEBOOKS;
+}
+
+// Rules from the given rulebooks that apply to this document at all
+export function applicableRules(rulebooks: Rulebook[], content: string): Array<{ rulebook: Rulebook; rule: RegulatoryRule }> {
+  return rulebooks
+    .filter((rulebook) => matches(rulebook.scope, content))
+    .flatMap((rulebook) => rulebook.rules.map((rule) => ({ rulebook, rule })))
+    .filter(({ rule }) => !rule.triggers || matches(rule.triggers, content));
+}
+
+// Missing required clauses are judged on the whole document
+export function findMissingClauses(rules: Array<{ rulebook: Rulebook; rule: RegulatoryRule }>, content: string): RuleFinding[] {
+  return rules.flatMap(({ rulebook, rule }) => {
+    const missing = (rule.required ?? []).filter((pattern) => !toRegExp(pattern).test(content));
+    if (!missing.length) {
+      return [];
+    }
+    return [{
+      rulebook,
+      rule,
+      clause: "Document-wide",
+      description: `${rule.title}: no clause found covering ${missing.map((pattern) => pattern.label).join(", ")}.`,
+      detectionMethod: "PATTERN" as const,
+    }];
+  });
+}
+
+// Prohibited wording is reported per section, quoting what matched
+export function findProhibitedClauses(
+  rules: Array<{ rulebook: Rulebook; rule: RegulatoryRule }>,
+  section: { title: string; content: string },
+): RuleFinding[] {
+  return rules.flatMap(({ rulebook, rule }) =>
+    (rule.prohibited ?? []).flatMap((pattern) => {
+      const match = toRegExp(pattern).exec(section.content);
+      if (!match) {
+        return [];
+      }
+      return [{
+        rulebook,
+        rule,
+        clause: section.title,
+        description: `${rule.title}: prohibited ${pattern.label} ("${match[0].slice(0, EXCERPT_CHARS)}").`,
+        detectionMethod: "PATTERN" as const,
+      }];
+    }),
+  );
+}
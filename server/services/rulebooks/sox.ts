@@ -0,0 +1,64 @@
+import type { Rulebook } from "./types";
+
+export const sox: Rulebook = {
+  id: "SOX",
+  name: "Sarbanes-Oxley Act",
+  jurisdiction: "US",
+  version: "2024.1",
+  effectiveDate: "2002-07-30",
+  description: "Controls, record retention and governance terms expected in agreements that touch a public company's financial reporting.",
+  scope: [
+    { label: "financial reporting", pattern: "Sarbanes|\\bSOX\\b|financial (statements|reporting)|internal controls?|public(ly traded)? company" },
+  ],
+  rules: [
+    {
+      id: "SOX-404",
+      title: "Internal control over financial reporting",
+      citation: "SOX §404; 15 U.S.C. §7262",
+      severity: "HIGH",
+      remediation: "Require the counterparty to maintain internal controls over the services that affect financial reporting and to provide control reports (e.g. SOC 1 Type II).",
+      required: [
+        { label: "internal controls", pattern: "internal controls?[^.]{0,80}(financial reporting|maintain)|SOC 1|SSAE 1[68]" },
+      ],
+    },
+    {
+      id: "SOX-802",
+      title: "Record retention",
+      citation: "SOX §802; 18 U.S.C. §1519; 17 C.F.R. §210.2-06",
+      severity: "MEDIUM",
+      remediation: "Require audit-relevant records to be retained for at least seven years.",
+      required: [
+        { label: "seven-year retention", pattern: "(retain|preserve|keep)[^.]{0,120}(seven|7) \\(?7?\\)? ?years" },
+      ],
+    },
+    {
+      id: "SOX-AUDIT-ACCESS",
+      title: "Audit access to books and records",
+      citation: "SOX §§103, 404; PCAOB AS 2201",
+      severity: "MEDIUM",
+      remediation: "Grant the company and its auditors access to relevant books, records and personnel.",
+      required: [
+        { label: "audit rights", pattern: "right to audit|audit rights|access to[^.]{0,40}(books|records)" },
+      ],
+    },
+    {
+      id: "SOX-402",
+      title: "Personal loans to executives",
+      citation: "SOX §402; 15 U.S.C. §78m(k)",
+      severity: "CRITICAL",
+      remediation: "Remove any extension of credit or personal loan from the company to a director or executive officer.",
+      prohibited: [
+        { label: "executive loan", pattern: "(lend|loan|advance|extend credit)[^.]{0,60}to (the |any )?(director|executive officer|chief executive|CEO|CFO)" },
+      ],
+      llmCheck: "Does this section arrange a personal loan or extension of credit from the company to a director or executive officer?",
+    },
+    {
+      id: "SOX-806",
+      title: "Whistleblower protection",
+      citation: "SOX §806; 18 U.S.C. §1514A",
+      severity: "HIGH",
+      remediation: "Remove terms that penalise or restrict employees for reporting suspected fraud or securities violations to regulators.",
+      llmCheck: "Does this section restrict, penalise or require prior approval for reporting suspected fraud or securities law violations to a regulator?",
+    },
+  ],
+};
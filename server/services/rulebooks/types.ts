@@ -0,0 +1,49 @@
+import type { RiskSeverity } from "@shared/schema";
+
+// Regular expression source, matched case-insensitively unless flags say
+// otherwise. Kept as strings so rulebooks can be served as JSON.
+export interface ClausePattern {
+  label: string;
+  pattern: string;
+  flags?: string;
+}
+
+export interface RegulatoryRule {
+  // Stable across versions so findings can be compared between audits
+  id: string;
+  title: string;
+  citation: string;
+  severity: RiskSeverity;
+  remediation: string;
+  // The rule is only checked when one of these matches somewhere in the
+  // document; rules without triggers are always checked
+  triggers?: ClausePattern[];
+  // Every pattern must match somewhere in the document
+  required?: ClausePattern[];
+  // No pattern may match in any section
+  prohibited?: ClausePattern[];
+  // Question put to the model for each section; a "yes" raises the rule
+  llmCheck?: string;
+}
+
+export interface Rulebook {
+  id: string;
+  name: string;
+  jurisdiction: string;
+  // Bumped whenever a rule is added, removed or changes meaning
+  version: string;
+  effectiveDate: string;
+  description: string;
+  // Checked before any rule: a rulebook whose scope does not match the
+  // document raises nothing
+  scope: ClausePattern[];
+  rules: RegulatoryRule[];
+}
+
+export interface RuleFinding {
+  rulebook: Rulebook;
+  rule: RegulatoryRule;
+  clause: string;
+  description: string;
+  detectionMethod: "PATTERN" | "LLM";
+}
@@ -0,0 +1,523 @@
+import { createHash, randomBytes } from "crypto";
+import { db } from "../db";
+import {
+  documents,
+  signatureEnvelopes,
+  signatures,
+  type Signature,
+  type SignatureEnvelope,
+  type SignatureStatus,
+  type WorkflowEvent,
+} from "@shared/schema";
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
+import debug from "debug";
+import { jobQueue } from "./jobQueue";
+import { contractLifecycleService, contractStatusOf } from "./contractLifecycleService";
+import { NativeSignatureAdapter } from "./esign/nativeAdapter";
+import { decodeSignatureImage, renderSignedPdf } from "./esign/certificate";
+import type { CapturedSignature, SignatureAdapter, SigningInvite } from "./esign/types";
+
+const log = debug("app:signatures");
+
+const EXPIRE_JOB = "signatures.expire";
+const DEFAULT_EXPIRY_DAYS = 14;
+const MAX_SIGNATURE_IMAGE_BYTES = 512 * 1024;
+const OPEN_SIGNER_STATUSES: SignatureStatus[] = ["PENDING", "SENT"];
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Carries statusCode/expose so the shared errorHandler can report it as-is
+export class SignatureError extends Error {
+  expose = true;
+
+  constructor(message: string, public statusCode: number, public code: string) {
+    super(message);
+    this.name = "SignatureError";
+  }
+}
+
+export interface SignerInput {
+  name: string;
+  email: string;
+  userId?: number;
+  // Signers sharing an order sign in parallel; defaults to the listed order
+  order?: number;
+}
+
+export interface EnvelopeRequest {
+  signers: SignerInput[];
+  subject?: string;
+  message?: string;
+  expiresInDays?: number;
+  provider?: string;
+  createdBy: number;
+  organizationId: number | null;
+}
+
+export interface SigningContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export function hashContent(content: string | Buffer): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+function signingUrl(token: string): string {
+  const base = process.env.APP_URL || process.env.CLIENT_URL || "http://localhost:5000";
+  return `${base.replace(/\/$/, "")}/sign/${token}`;
+}
+
+// Tokens and the stored PDF never leave the service
+function signerView({ tokenHash, ...signer }: Signature) {
+  return signer;
+}
+
+function envelopeView({ signedPdf, ...envelope }: SignatureEnvelope) {
+  return { ...envelope, hasSignedPdf: Boolean(signedPdf) };
+}
+
+export class SignatureService {
+  private adapters = new Map<string, SignatureAdapter>();
+  private defaultProvider = process.env.ESIGN_PROVIDER || "native";
+
+  constructor() {
+    this.registerAdapter(new NativeSignatureAdapter());
+    jobQueue.register(EXPIRE_JOB, async ({ envelopeId }) => ({ expired: await this.expire(envelopeId) }));
+  }
+
+  registerAdapter(adapter: SignatureAdapter): void {
+    this.adapters.set(adapter.name, adapter);
+  }
+
+  private adapterFor(name: string): SignatureAdapter {
+    const adapter = this.adapters.get(name);
+    if (!adapter) {
+      throw new SignatureError(`No e-signature provider registered for ${name}`, 500, "PROVIDER_UNAVAILABLE");
+    }
+    return adapter;
+  }
+
+  async createEnvelope(documentId: number, request: EnvelopeRequest) {
+    const adapter = this.adapterFor(request.provider ?? this.defaultProvider);
+    const emails = request.signers.map((signer) => signer.email.toLowerCase());
+    if (!emails.length) {
+      throw new SignatureError("At least one signer is required", 400, "INVALID_INPUT");
+    }
+    if (new Set(emails).size !== emails.length) {
+      throw new SignatureError("Each signer may only appear once", 400, "DUPLICATE_SIGNER");
+    }
+
+    const expiresAt = new Date(Date.now() + (request.expiresInDays ?? DEFAULT_EXPIRY_DAYS) * 24 * 60 * 60 * 1000);
+
+    const { envelope, signers: created, document } = await db.transaction(async (tx) => {
+      const [document] = await tx.select().from(documents).where(eq(documents.id, documentId)).for("update");
+      if (!document) {
+        throw new SignatureError("Document not found", 404, "NOT_FOUND");
+      }
+
+      const status = contractStatusOf(document);
+      if (status !== "SIGNATURE") {
+        throw new SignatureError(
+          `Only approved contracts can be sent for signature (currently ${status})`,
+          409,
+          "NOT_READY_FOR_SIGNATURE",
+        );
+      }
+
+      const [open] = await tx
+        .select({ id: signatureEnvelopes.id })
+        .from(signatureEnvelopes)
+        .where(and(eq(signatureEnvelopes.documentId, documentId), eq(signatureEnvelopes.status, "PENDING")));
+      if (open) {
+        throw new SignatureError(`Envelope ${open.id} is still out for signature`, 409, "ENVELOPE_OPEN");
+      }
+
+      const [envelope] = await tx
+        .insert(signatureEnvelopes)
+        .values({
+          documentId,
+          organizationId: request.organizationId,
+          provider: adapter.name,
+          subject: request.subject,
+          message: request.message,
+          documentHash: hashContent(document.content),
+          createdBy: request.createdBy,
+          expiresAt,
+        })
+        .returning();
+
+      const signers = await tx
+        .insert(signatures)
+        .values(request.signers.map((signer, index) => ({
+          envelopeId: envelope.id,
+          documentId,
+          userId: signer.userId ?? null,
+          signerName: signer.name,
+          signerEmail: signer.email,
+          signingOrder: signer.order ?? index + 1,
+          status: "PENDING" as const,
+          expiresAt,
+        })))
+        .returning();
+
+      return { envelope, signers, document };
+    });
+
+    let opened = envelope;
+    try {
+      const { externalId } = await adapter.open(envelope, created, document);
+      if (externalId) {
+        [opened] = await db
+          .update(signatureEnvelopes)
+          .set({ externalId, updatedAt: new Date() })
+          .where(eq(signatureEnvelopes.id, envelope.id))
+          .returning();
+      }
+    } catch (error) {
+      await db.transaction((tx) => this.closeEnvelope(tx, envelope.id, "CANCELLED"));
+      throw error;
+    }
+
+    const invites = await db.transaction((tx) => this.issueNextInvites(tx, opened));
+    await this.deliver(invites);
+
+    await jobQueue.enqueue(EXPIRE_JOB, { envelopeId: envelope.id }, {
+      runAt: expiresAt,
+      resourceType: "SIGNATURE_ENVELOPE",
+      resourceId: envelope.id,
+      organizationId: request.organizationId,
+      createdBy: request.createdBy,
+    });
+
+    log("Envelope created", { envelopeId: envelope.id, documentId, signers: created.length, provider: adapter.name });
+    return await this.getEnvelope(envelope.id);
+  }
+
+  async getEnvelope(envelopeId: number) {
+    const [envelope] = await db.select().from(signatureEnvelopes).where(eq(signatureEnvelopes.id, envelopeId));
+    if (!envelope) {
+      return null;
+    }
+
+    const signers = await db
+      .select()
+      .from(signatures)
+      .where(eq(signatures.envelopeId, envelopeId))
+      .orderBy(asc(signatures.signingOrder), asc(signatures.id));
+
+    return { ...envelopeView(envelope), signers: signers.map(signerView) };
+  }
+
+  async listForDocument(documentId: number) {
+    const envelopes = await db
+      .select()
+      .from(signatureEnvelopes)
+      .where(eq(signatureEnvelopes.documentId, documentId))
+      .orderBy(desc(signatureEnvelopes.createdAt), desc(signatureEnvelopes.id));
+    return envelopes.map(envelopeView);
+  }
+
+  async getSignedPdf(envelopeId: number) {
+    const [envelope] = await db.select().from(signatureEnvelopes).where(eq(signatureEnvelopes.id, envelopeId));
+    if (!envelope?.signedPdf) {
+      return null;
+    }
+    return { envelope, pdf: Buffer.from(envelope.signedPdf, "base64") };
+  }
+
+  // What the signing page shows for a link; does not consume it
+  async getSigningSession(token: string) {
+    const [signer] = await db.select().from(signatures).where(eq(signatures.tokenHash, hashContent(token)));
+    if (!signer || signer.status !== "SENT") {
+      throw new SignatureError("This signing link is invalid or has already been used", 410, "LINK_INVALID");
+    }
+
+    const [envelope] = await db.select().from(signatureEnvelopes).where(eq(signatureEnvelopes.id, signer.envelopeId!));
+    if (envelope.status === "PENDING" && envelope.expiresAt <= new Date()) {
+      await this.expire(envelope.id);
+    }
+    this.assertOpen(envelope);
+
+    if (!signer.viewedAt) {
+      await db.update(signatures).set({ viewedAt: new Date() }).where(eq(signatures.id, signer.id));
+    }
+
+    const [document] = await db
+      .select({ id: documents.id, title: documents.title, content: documents.content })
+      .from(documents)
+      .where(eq(documents.id, envelope.documentId));
+
+    return {
+      envelope: {
+        id: envelope.id,
+        subject: envelope.subject,
+        message: envelope.message,
+        expiresAt: envelope.expiresAt,
+        documentHash: envelope.documentHash,
+      },
+      signer: { name: signer.signerName, email: signer.signerEmail },
+      document,
+    };
+  }
+
+  async sign(token: string, captured: CapturedSignature, context: SigningContext = {}) {
+    this.assertValidSignature(captured);
+
+    const result = await db.transaction(async (tx) => {
+      const { signer, envelope } = await this.lockByToken(tx, token);
+
+      const [document] = await tx.select().from(documents).where(eq(documents.id, envelope.documentId)).for("update");
+      if (!document || hashContent(document.content) !== envelope.documentHash) {
+        throw new SignatureError("The document changed after it was sent for signature", 409, "DOCUMENT_CHANGED");
+      }
+      if (contractStatusOf(document) !== "SIGNATURE") {
+        throw new SignatureError("The contract is no longer awaiting signature", 409, "NOT_READY_FOR_SIGNATURE");
+      }
+
+      const signedAt = new Date();
+      const [signed] = await tx
+        .update(signatures)
+        .set({
+          status: "COMPLETED",
+          tokenHash: null,
+          signatureData: captured,
+          signedAt,
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+        })
+        .where(eq(signatures.id, signer.id))
+        .returning();
+
+      const invites = await this.issueNextInvites(tx, envelope);
+      const outstanding = await tx
+        .select({ id: signatures.id })
+        .from(signatures)
+        .where(and(eq(signatures.envelopeId, envelope.id), inArray(signatures.status, OPEN_SIGNER_STATUSES)));
+      if (outstanding.length) {
+        return { signer: signed, envelope, invites, event: null as WorkflowEvent | null };
+      }
+
+      // Last signature: stamp the PDF and close out the contract
+      const signers = await tx
+        .select()
+        .from(signatures)
+        .where(eq(signatures.envelopeId, envelope.id))
+        .orderBy(asc(signatures.signingOrder), asc(signatures.id));
+      const pdf = await renderSignedPdf({ document, envelope, signers, completedAt: signedAt });
+      const signedPdfHash = hashContent(pdf);
+
+      const [completed] = await tx
+        .update(signatureEnvelopes)
+        .set({
+          status: "COMPLETED",
+          signedPdf: pdf.toString("base64"),
+          signedPdfHash,
+          completedAt: signedAt,
+          updatedAt: signedAt,
+        })
+        .where(eq(signatureEnvelopes.id, envelope.id))
+        .returning();
+
+      const event = await contractLifecycleService.applyTransition(tx, document.id, "COMPLETED", {
+        actorId: signer.userId,
+        reason: "All signers signed",
+        details: { signatureEnvelopeId: envelope.id, signedPdfHash },
+      });
+
+      return { signer: signed, envelope: completed, invites, event };
+    });
+
+    await this.deliver(result.invites);
+    if (result.event) {
+      contractLifecycleService.publish(result.event);
+    }
+
+    log("Signature captured", { envelopeId: result.envelope.id, signerId: result.signer.id, status: result.envelope.status });
+    return { signer: signerView(result.signer), envelope: envelopeView(result.envelope) };
+  }
+
+  async decline(token: string, reason: string | undefined, context: SigningContext = {}) {
+    const envelope = await db.transaction(async (tx) => {
+      const { signer, envelope } = await this.lockByToken(tx, token);
+      await tx
+        .update(signatures)
+        .set({
+          status: "DECLINED",
+          tokenHash: null,
+          declineReason: reason,
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+        })
+        .where(eq(signatures.id, signer.id));
+      return await this.closeEnvelope(tx, envelope.id, "DECLINED");
+    });
+
+    await this.notifyClosed(envelope);
+    log("Signature declined", { envelopeId: envelope.id });
+    return envelopeView(envelope);
+  }
+
+  async cancel(envelopeId: number) {
+    const envelope = await db.transaction(async (tx) => {
+      const [locked] = await tx.select().from(signatureEnvelopes).where(eq(signatureEnvelopes.id, envelopeId)).for("update");
+      if (!locked) {
+        throw new SignatureError("Envelope not found", 404, "NOT_FOUND");
+      }
+      this.assertOpen(locked);
+      return await this.closeEnvelope(tx, envelopeId, "CANCELLED");
+    });
+
+    await this.notifyClosed(envelope);
+    log("Envelope cancelled", { envelopeId });
+    return envelopeView(envelope);
+  }
+
+  // Issues fresh links to everyone whose turn it is; earlier links stop working
+  async resend(envelopeId: number): Promise<number> {
+    const invites = await db.transaction(async (tx) => {
+      const [envelope] = await tx.select().from(signatureEnvelopes).where(eq(signatureEnvelopes.id, envelopeId)).for("update");
+      if (!envelope) {
+        throw new SignatureError("Envelope not found", 404, "NOT_FOUND");
+      }
+      this.assertOpen(envelope);
+
+      const waiting = await tx
+        .select()
+        .from(signatures)
+        .where(and(eq(signatures.envelopeId, envelopeId), eq(signatures.status, "SENT")));
+      return await Promise.all(waiting.map((signer) => this.issueInvite(tx, envelope, signer)));
+    });
+
+    await this.deliver(invites);
+    return invites.length;
+  }
+
+  async expire(envelopeId: number): Promise<boolean> {
+    const envelope = await db.transaction(async (tx) => {
+      const [locked] = await tx.select().from(signatureEnvelopes).where(eq(signatureEnvelopes.id, envelopeId)).for("update");
+      if (!locked || locked.status !== "PENDING" || locked.expiresAt > new Date()) {
+        return null;
+      }
+      return await this.closeEnvelope(tx, envelopeId, "EXPIRED");
+    });
+
+    if (!envelope) {
+      return false;
+    }
+    await this.notifyClosed(envelope);
+    log("Envelope expired", { envelopeId });
+    return true;
+  }
+
+  private assertOpen(envelope: SignatureEnvelope): void {
+    if (envelope.status === "PENDING" && envelope.expiresAt <= new Date()) {
+      throw new SignatureError("This signing request has expired", 410, "ENVELOPE_EXPIRED");
+    }
+    if (envelope.status !== "PENDING") {
+      throw new SignatureError(`This signing request is ${envelope.status.toLowerCase()}`, 410, "ENVELOPE_CLOSED");
+    }
+  }
+
+  private assertValidSignature(captured: CapturedSignature): void {
+    if (captured.type === "typed" && !captured.name.trim()) {
+      throw new SignatureError("Type your full name to sign", 400, "INVALID_SIGNATURE");
+    }
+    if (captured.type === "drawn") {
+      const image = decodeSignatureImage(captured.image);
+      if (!image || !image.length) {
+        throw new SignatureError("Drawn signatures must be a PNG or JPEG data URL", 400, "INVALID_SIGNATURE");
+      }
+      if (image.length > MAX_SIGNATURE_IMAGE_BYTES) {
+        throw new SignatureError("Signature image is too large", 400, "INVALID_SIGNATURE");
+      }
+    }
+  }
+
+  private async lockByToken(tx: Transaction, token: string) {
+    const [signer] = await tx
+      .select()
+      .from(signatures)
+      .where(eq(signatures.tokenHash, hashContent(token)))
+      .for("update");
+    if (!signer || signer.status !== "SENT") {
+      throw new SignatureError("This signing link is invalid or has already been used", 410, "LINK_INVALID");
+    }
+
+    const [envelope] = await tx
+      .select()
+      .from(signatureEnvelopes)
+      .where(eq(signatureEnvelopes.id, signer.envelopeId!))
+      .for("update");
+    this.assertOpen(envelope);
+
+    return { signer, envelope };
+  }
+
+  // Sends links to the next signing order once nobody from the current one is
+  // still signing
+  private async issueNextInvites(tx: Transaction, envelope: SignatureEnvelope): Promise<SigningInvite[]> {
+    const open = await tx
+      .select()
+      .from(signatures)
+      .where(and(eq(signatures.envelopeId, envelope.id), inArray(signatures.status, OPEN_SIGNER_STATUSES)))
+      .orderBy(asc(signatures.signingOrder), asc(signatures.id));
+
+    if (!open.length || open.some((signer) => signer.status === "SENT")) {
+      return [];
+    }
+
+    const nextOrder = open[0].signingOrder;
+    return await Promise.all(
+      open
+        .filter((signer) => signer.signingOrder === nextOrder)
+        .map((signer) => this.issueInvite(tx, envelope, signer)),
+    );
+  }
+
+  private async issueInvite(tx: Transaction, envelope: SignatureEnvelope, signer: Signature): Promise<SigningInvite> {
+    const token = randomBytes(32).toString("base64url");
+    const [invited] = await tx
+      .update(signatures)
+      .set({ status: "SENT", tokenHash: hashContent(token), invitedAt: new Date() })
+      .where(eq(signatures.id, signer.id))
+      .returning();
+    return { envelope, signer: invited, signingUrl: signingUrl(token) };
+  }
+
+  // A failed delivery leaves the signer SENT; their link can be resent
+  private async deliver(invites: SigningInvite[]): Promise<void> {
+    for (const invite of invites) {
+      try {
+        await this.adapterFor(invite.envelope.provider).invite(invite);
+      } catch (error) {
+        log("Failed to deliver signing link", { envelopeId: invite.envelope.id, signerId: invite.signer.id, error });
+      }
+    }
+  }
+
+  private async closeEnvelope(tx: Transaction, envelopeId: number, status: SignatureStatus): Promise<SignatureEnvelope> {
+    const [envelope] = await tx
+      .update(signatureEnvelopes)
+      .set({ status, updatedAt: new Date() })
+      .where(eq(signatureEnvelopes.id, envelopeId))
+      .returning();
+
+    await tx
+      .update(signatures)
+      .set({ status: status === "EXPIRED" ? "EXPIRED" : "CANCELLED", tokenHash: null })
+      .where(and(eq(signatures.envelopeId, envelopeId), inArray(signatures.status, OPEN_SIGNER_STATUSES)));
+
+    return envelope;
+  }
+
+  private async notifyClosed(envelope: SignatureEnvelope): Promise<void> {
+    try {
+      await this.adapterFor(envelope.provider).close?.(envelope, envelope.status);
+    } catch (error) {
+      log("Failed to notify provider of closed envelope", { envelopeId: envelope.id, error });
+    }
+  }
+}
+
+export const signatureService = new SignatureService();
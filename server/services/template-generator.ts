@@ -1,7 +1,6 @@
-import { openai } from "../openai";
 import { TemplateCategory, templateSchema } from "@shared/schema/template-categories";
+import { modelRouter } from "./modelRouter";
 
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024
 export class TemplateGenerator {
   async generateTemplate(category: TemplateCategory, specialization?: string): Promise<any> {
     try {
@@ -15,13 +14,15 @@ export class TemplateGenerator {
         "name": "Template name",
         "description": "Detailed description",
         "category": "${category}",
-        "baseContent": "Full contract template text with placeholders",
+        "baseContent": "Full contract template text with [VARIABLE_NAME] placeholders, [#IF CONDITION]...[/IF] for optional sections and [#EACH LIST]...[/EACH] for repeating ones",
         "variables": [
           {
             "name": "VARIABLE_NAME",
             "description": "What this variable represents",
             "required": boolean,
-            "type": "string"
+            "type": "text" | "number" | "currency" | "date" | "boolean" | "party" | "jurisdiction" | "enum" | "list",
+            "options": ["choices, for enum variables"],
+            "fields": [{ "name": "FIELD_NAME", "description": "Field of each entry, for list variables", "required": boolean, "type": "text" }]
           }
         ],
         "metadata": {
@@ -36,25 +37,22 @@ export class TemplateGenerator {
         }
       }`;
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const response = await modelRouter.complete({
+        role: "structured",
+        system: "You are a legal document expert specializing in contract generation. Create detailed, professionally-structured contract templates.",
         messages: [
-          {
-            role: "system",
-            content: "You are a legal document expert specializing in contract generation. Create detailed, professionally-structured contract templates."
-          },
           { role: "user", content: prompt }
         ],
-        response_format: { type: "json_object" },
+        responseFormat: "json",
         temperature: 0.7,
-        max_tokens: 2000
+        maxTokens: 2000
       });
 
-      if (!response.choices[0]?.message?.content) {
+      if (!response.text) {
         throw new Error('Invalid response from OpenAI');
       }
 
-      const generatedTemplate = JSON.parse(response.choices[0].message.content);
+      const generatedTemplate = JSON.parse(response.text);
 
       // Validate template against schema
       const validatedTemplate = templateSchema.parse({
@@ -1,7 +1,6 @@
-import { openai } from "../openai";
-import { db } from "../db";
-import { contractTemplates, type ContractTemplate, TemplateCategory } from "@shared/schema";
-import { eq } from "drizzle-orm";
+import { type ContractTemplate } from "@shared/schema";
+import { modelRouter } from "./modelRouter";
+import { templateLibraryService } from "./templateLibraryService";
 
 const TEMPLATE_CATEGORIES = [
   "EMPLOYMENT",
@@ -67,7 +66,7 @@ export async function generateContractTemplate(request: TemplateGenRequest): Pro
     1. A clear title/name for the contract
     2. Detailed content with proper legal clauses
     3. Brief description of the template's purpose
-    4. Key variables that need to be customized (marked with <<VARIABLE>>)
+    4. Key variables that need to be customized (marked with [VARIABLE_NAME])
 
     Please format your response as a JSON object with these fields:
     {
@@ -77,14 +76,14 @@ export async function generateContractTemplate(request: TemplateGenRequest): Pro
       "variables": ["List of variable names found in content"]
     }`;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // Using the latest model
+    const response = await modelRouter.complete({
+      role: "structured",
       messages: [{ role: "user", content: prompt }],
       temperature: 0.7,
-      response_format: { type: "json_object" }
+      responseFormat: "json"
     });
 
-    const content = response.choices[0].message.content;
+    const content = response.text;
     if (!content) {
       throw new Error("OpenAI response content is empty");
     }
@@ -95,30 +94,27 @@ export async function generateContractTemplate(request: TemplateGenRequest): Pro
     // Generate metadata with default values
     const metadata = await generateTemplateMetadata();
 
-    // Insert into database with proper type matching
-    const [savedTemplate] = await db.insert(contractTemplates).values({
+    // Generated templates join the shared library as drafts for review
+    const savedTemplate = await templateLibraryService.addToLibrary({
       name: template.name,
+      description: template.description,
       category: request.category,
       content: template.content,
       metadata: {
         ...metadata,
-        description: template.description,
-        variables: template.variables.map(name => ({
+        industry: request.industry,
+        complexity: request.complexity,
+        jurisdiction: "USA",
+        estimatedTime: "30-60 minutes",
+        variables: template.variables.map((name: string) => ({
           name,
-          type: "TEXT",
+          type: "text",
           description: "Please fill in appropriate value",
           required: true
         }))
       },
-      industry: request.industry,
-      complexity: request.complexity,
-      subcategory: null,
-      jurisdiction: "USA",
-      estimatedCompletionTime: "30-60 minutes",
-      popularityScore: 0,
-      createdAt: new Date(),
-      updatedAt: new Date()
-    }).returning();
+      publish: false
+    }, `Generated for ${request.industry}`);
 
     console.log("[Template Generator] Saved template to database with ID:", savedTemplate.id);
     return savedTemplate;
@@ -161,10 +157,6 @@ export async function generateAllTemplates() {
 
   console.log(`[Template Generator] Prepared ${templates.length} template configurations`);
 
-  // First clear existing templates
-  const count = await db.delete(contractTemplates).execute();
-  console.log("[Template Generator] Cleared existing templates:", count);
-
   // Generate templates in parallel, but in smaller batches to avoid rate limits
   const batchSize = 5;
   let successCount = 0;
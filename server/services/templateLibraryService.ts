@@ -0,0 +1,567 @@
+import { db } from "../db";
+import {
+  contractTemplates,
+  contractTemplateVersions,
+  type ContractTemplate,
+  type ContractTemplateMetadata,
+  type ContractTemplateVersion,
+  type CreateTemplate,
+  type TemplateScope,
+  type TemplateStatus,
+  type TemplateVariable,
+  TemplateVariableType,
+  type UpdateTemplate,
+} from "@shared/schema";
+import { and, asc, desc, eq, ilike, isNull, ne, or, sql, type SQL } from "drizzle-orm";
+import debug from "debug";
+import { checkTemplate, inferVariables, renderTemplate, TemplateSyntaxError, toVariableName } from "./templates";
+import { normalizeRole, type AccessUser } from "./documentAccessService";
+import type { TenantContext } from "./organizationService";
+
+const log = debug("app:template-library");
+
+export class TemplateLibraryError extends Error {
+  expose = true;
+
+  constructor(message: string, public statusCode: number, public code: string) {
+    super(message);
+    this.name = "TemplateLibraryError";
+  }
+}
+
+export interface TemplateFilters {
+  search?: string;
+  category?: string;
+  status?: TemplateStatus;
+  scope?: TemplateScope;
+}
+
+// A published template version, ready to fill in
+export interface ResolvedTemplate {
+  templateId: number;
+  versionId: number;
+  version: number;
+  key: string;
+  organizationId: number | null;
+  name: string;
+  description: string;
+  category: string;
+  content: string;
+  variables: TemplateVariable[];
+  metadata: ContractTemplateMetadata;
+}
+
+// Built-in templates seeded into the shared library
+export interface TemplateDefinition {
+  key: string;
+  name: string;
+  description: string;
+  category: string;
+  content: string;
+  metadata: Omit<ContractTemplateMetadata, "variables"> & { variables: DeclaredVariable[] };
+  publish: boolean;
+}
+
+type DeclaredVariable = Partial<Omit<TemplateVariable, "type" | "fields">> & { name: string; type?: string; fields?: DeclaredVariable[] };
+
+function normalizeType(type: string | undefined): TemplateVariableType {
+  const parsed = TemplateVariableType.safeParse(type?.toLowerCase());
+  return parsed.success ? parsed.data : "text";
+}
+
+function normalizeDeclared(variable: DeclaredVariable): TemplateVariable {
+  const type = normalizeType(variable.type);
+  return {
+    ...variable,
+    name: toVariableName(variable.name),
+    description: variable.description ?? "",
+    required: variable.required ?? true,
+    type,
+    fields: type === "list" ? (variable.fields ?? []).map(normalizeDeclared) : undefined,
+  };
+}
+
+// Declared variables under their canonical names and types, followed by any
+// the content uses without declaring them
+export function normalizeVariables(content: string, variables: DeclaredVariable[]): TemplateVariable[] {
+  const byName = new Map<string, TemplateVariable>();
+  for (const variable of variables.map(normalizeDeclared)) {
+    if (variable.name && !byName.has(variable.name)) byName.set(variable.name, variable);
+  }
+  for (const variable of usedVariables(content)) {
+    if (!byName.has(variable.name)) byName.set(variable.name, variable);
+  }
+  return Array.from(byName.values());
+}
+
+// Content that does not parse is the editor's mistake, not a server error
+function usedVariables(content: string): TemplateVariable[] {
+  try {
+    return inferVariables(content);
+  } catch (error) {
+    if (error instanceof TemplateSyntaxError) {
+      throw new TemplateLibraryError(error.message, 400, "INVALID_TEMPLATE");
+    }
+    throw error;
+  }
+}
+
+function ensureValid(content: string, variables: TemplateVariable[]) {
+  const problems = checkTemplate(content, variables);
+  if (problems.length) {
+    throw new TemplateLibraryError(problems.join("; "), 400, "INVALID_TEMPLATE");
+  }
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 80) || "template";
+}
+
+export class TemplateLibraryService {
+  // Library templates plus the tenant's own. Clients only see published ones.
+  async list(user: AccessUser, tenant: TenantContext, filters: TemplateFilters = {}) {
+    const conditions: Array<SQL | undefined> = [this.visibleFilter(user, tenant)];
+    if (filters.status) {
+      conditions.push(eq(contractTemplates.status, filters.status));
+    } else {
+      conditions.push(ne(contractTemplates.status, "ARCHIVED"));
+    }
+    if (filters.category) conditions.push(eq(contractTemplates.category, filters.category));
+    if (filters.scope) {
+      conditions.push(filters.scope === "LIBRARY"
+        ? isNull(contractTemplates.organizationId)
+        : eq(contractTemplates.organizationId, tenant.organizationId ?? -1));
+    }
+    if (filters.search) {
+      const pattern = `%${filters.search.replace(/[\\%_]/g, "\\$&")}%`;
+      conditions.push(or(ilike(contractTemplates.name, pattern), ilike(contractTemplates.description, pattern)));
+    }
+
+    const rows = await db
+      .select()
+      .from(contractTemplates)
+      .where(and(...conditions))
+      .orderBy(asc(contractTemplates.category), asc(contractTemplates.name));
+    return rows.map((row) => this.describe(row));
+  }
+
+  async get(user: AccessUser, tenant: TenantContext, templateId: number) {
+    const template = await this.load(user, tenant, templateId);
+    return { ...this.describe(template), versions: await this.listVersions(user, template) };
+  }
+
+  async getVersion(user: AccessUser, tenant: TenantContext, templateId: number, version: number): Promise<ContractTemplateVersion> {
+    const template = await this.load(user, tenant, templateId);
+    const [row] = await db
+      .select()
+      .from(contractTemplateVersions)
+      .where(and(eq(contractTemplateVersions.templateId, template.id), eq(contractTemplateVersions.version, version)));
+    if (!row || (!row.publishedAt && !this.canSeeDrafts(user))) {
+      throw new TemplateLibraryError("Template version not found", 404, "NOT_FOUND");
+    }
+    return row;
+  }
+
+  // Renders a version with sample values. Placeholders without a value are
+  // left in place and reported, so drafts can be checked before publishing.
+  async preview(user: AccessUser, tenant: TenantContext, templateId: number, values: Record<string, unknown>, version?: number) {
+    const template = await this.load(user, tenant, templateId);
+    const target = version ?? (this.canSeeDrafts(user) ? template.latestVersion : undefined);
+    const row = target !== undefined
+      ? await this.getVersion(user, tenant, templateId, target)
+      : template.publishedVersionId && (await db.select().from(contractTemplateVersions).where(eq(contractTemplateVersions.id, template.publishedVersionId)))[0];
+    if (!row) {
+      throw new TemplateLibraryError("Template version not found", 404, "NOT_FOUND");
+    }
+
+    const { content, problems } = renderTemplate(row.content, row.metadata.variables ?? [], values, { partial: true });
+    return { templateId: template.id, version: row.version, content, problems };
+  }
+
+  async create(user: AccessUser, tenant: TenantContext, input: CreateTemplate) {
+    const scope = input.scope ?? (tenant.organizationId !== null ? "ORGANIZATION" : "LIBRARY");
+    if (scope === "ORGANIZATION" && tenant.organizationId === null) {
+      throw new TemplateLibraryError("Select an organization to create a private template", 400, "NO_ORGANIZATION");
+    }
+    const organizationId = scope === "ORGANIZATION" ? tenant.organizationId : null;
+    this.ensureEditor(user, tenant, organizationId);
+
+    const template = await this.insert({
+      key: input.key,
+      organizationId,
+      name: input.name,
+      description: input.description,
+      category: input.category,
+      content: input.content,
+      metadata: input.metadata,
+      changeNote: input.changeNote ?? null,
+      publish: input.publish,
+      userId: user.id,
+    });
+    log("Template created", { templateId: template.id, key: template.key, organizationId, published: input.publish });
+    return this.get(user, tenant, template.id);
+  }
+
+  // Saves the edit as the next version. Contracts keep being generated from
+  // the published version until this one is published.
+  async update(user: AccessUser, tenant: TenantContext, templateId: number, input: UpdateTemplate) {
+    const current = await this.load(user, tenant, templateId);
+    this.ensureEditor(user, tenant, current.organizationId);
+
+    const version = await db.transaction(async (tx) => {
+      const [template] = await tx.select().from(contractTemplates).where(eq(contractTemplates.id, templateId)).for("update");
+      if (template.status === "ARCHIVED") {
+        throw new TemplateLibraryError("Archived templates cannot be edited", 409, "TEMPLATE_ARCHIVED");
+      }
+      if (input.baseVersion && input.baseVersion !== template.latestVersion) {
+        throw new TemplateLibraryError(
+          `Template is at version ${template.latestVersion}, reload and try again`,
+          409,
+          "VERSION_CONFLICT",
+        );
+      }
+
+      const content = input.content ?? template.content;
+      const metadata = {
+        ...template.metadata,
+        ...input.metadata,
+        variables: normalizeVariables(content, input.metadata?.variables ?? template.metadata.variables),
+      };
+      ensureValid(content, metadata.variables);
+      const fields = {
+        name: input.name ?? template.name,
+        description: input.description ?? template.description,
+        category: input.category ?? template.category,
+        content,
+        metadata,
+      };
+
+      const [row] = await tx
+        .insert(contractTemplateVersions)
+        .values({
+          templateId,
+          version: template.latestVersion + 1,
+          ...fields,
+          changeNote: input.changeNote ?? null,
+          createdBy: user.id,
+        })
+        .returning();
+      await tx
+        .update(contractTemplates)
+        .set({ ...fields, latestVersion: row.version, updatedBy: user.id, updatedAt: new Date() })
+        .where(eq(contractTemplates.id, templateId));
+      return row;
+    });
+
+    log("Template draft saved", { templateId, version: version.version });
+    return this.get(user, tenant, templateId);
+  }
+
+  // Makes a version the one contracts are generated from. Publishing an
+  // older version rolls the template back to it.
+  async publish(user: AccessUser, tenant: TenantContext, templateId: number, version?: number) {
+    const template = await this.load(user, tenant, templateId);
+    this.ensureEditor(user, tenant, template.organizationId);
+
+    const published = await db.transaction(async (tx) => {
+      const [locked] = await tx.select().from(contractTemplates).where(eq(contractTemplates.id, templateId)).for("update");
+      return await this.publishVersion(tx, locked, version ?? locked.latestVersion, user.id);
+    });
+
+    log("Template published", { templateId, version: published.version });
+    return this.get(user, tenant, templateId);
+  }
+
+  // Templates are archived rather than deleted so generated contracts can
+  // still be traced to the version they came from
+  async archive(user: AccessUser, tenant: TenantContext, templateId: number) {
+    const template = await this.load(user, tenant, templateId);
+    this.ensureEditor(user, tenant, template.organizationId);
+    if (template.status === "ARCHIVED") {
+      throw new TemplateLibraryError("Template is already archived", 409, "TEMPLATE_ARCHIVED");
+    }
+
+    const [archived] = await db
+      .update(contractTemplates)
+      .set({ status: "ARCHIVED", updatedBy: user.id, updatedAt: new Date() })
+      .where(eq(contractTemplates.id, templateId))
+      .returning();
+    log("Template archived", { templateId });
+    return this.describe(archived);
+  }
+
+  // The published version of a template, by id or key. A firm's own
+  // template wins over a library one with the same key.
+  async resolve(reference: string | number, tenant: Pick<TenantContext, "organizationId">): Promise<ResolvedTemplate | null> {
+    const visible = tenant.organizationId === null
+      ? isNull(contractTemplates.organizationId)
+      : or(isNull(contractTemplates.organizationId), eq(contractTemplates.organizationId, tenant.organizationId));
+    const byReference = typeof reference === "number" || /^\d+$/.test(reference)
+      ? eq(contractTemplates.id, Number(reference))
+      : eq(contractTemplates.key, reference);
+
+    const [row] = await db
+      .select({ template: contractTemplates, version: contractTemplateVersions })
+      .from(contractTemplates)
+      .innerJoin(contractTemplateVersions, eq(contractTemplateVersions.id, contractTemplates.publishedVersionId))
+      .where(and(byReference, visible, eq(contractTemplates.status, "PUBLISHED")))
+      .orderBy(sql`${contractTemplates.organizationId} desc nulls last`)
+      .limit(1);
+    return row ? this.toResolved(row.template, row.version) : null;
+  }
+
+  // The exact version a contract was generated from, archived or not
+  async resolveVersion(versionId: number): Promise<ResolvedTemplate | null> {
+    const [row] = await db
+      .select({ template: contractTemplates, version: contractTemplateVersions })
+      .from(contractTemplateVersions)
+      .innerJoin(contractTemplates, eq(contractTemplates.id, contractTemplateVersions.templateId))
+      .where(eq(contractTemplateVersions.id, versionId));
+    return row ? this.toResolved(row.template, row.version) : null;
+  }
+
+  // Adds missing built-ins to the shared library and records a new version
+  // when a built-in's text changed. Edits made through the API are kept:
+  // a built-in is only updated while its latest version is still seeded.
+  async seedLibrary(definitions: TemplateDefinition[]) {
+    let created = 0;
+    let updated = 0;
+    for (const definition of definitions) {
+      const [existing] = await db
+        .select()
+        .from(contractTemplates)
+        .where(and(eq(contractTemplates.key, definition.key), isNull(contractTemplates.organizationId)));
+
+      if (!existing) {
+        await this.addToLibrary(definition, "Built-in template");
+        created++;
+        continue;
+      }
+      if (existing.updatedBy !== null || existing.content === definition.content) {
+        continue;
+      }
+
+      await db.transaction(async (tx) => {
+        const [locked] = await tx.select().from(contractTemplates).where(eq(contractTemplates.id, existing.id)).for("update");
+        const fields = {
+          name: definition.name,
+          description: definition.description,
+          category: definition.category,
+          content: definition.content,
+          metadata: { ...definition.metadata, variables: normalizeVariables(definition.content, definition.metadata.variables) },
+        };
+        ensureValid(fields.content, fields.metadata.variables);
+        await tx.insert(contractTemplateVersions).values({
+          templateId: locked.id,
+          version: locked.latestVersion + 1,
+          ...fields,
+          changeNote: "Built-in template updated",
+        });
+        const [next] = await tx
+          .update(contractTemplates)
+          .set({ ...fields, latestVersion: locked.latestVersion + 1, updatedAt: new Date() })
+          .where(eq(contractTemplates.id, locked.id))
+          .returning();
+        if (definition.publish && locked.status !== "ARCHIVED") {
+          await this.publishVersion(tx, next, next.latestVersion, null);
+        }
+      });
+      updated++;
+    }
+
+    log("Template library seeded", { created, updated, total: definitions.length });
+    return { created, updated };
+  }
+
+  // Adds a template to the shared library without a signed-in editor, for
+  // seeding and generation tooling
+  async addToLibrary(definition: Omit<TemplateDefinition, "key"> & { key?: string }, changeNote: string): Promise<ContractTemplate> {
+    return await this.insert({ ...definition, organizationId: null, changeNote, userId: null });
+  }
+
+  private async insert(input: {
+    key?: string;
+    organizationId: number | null;
+    name: string;
+    description: string;
+    category: string;
+    content: string;
+    metadata: TemplateDefinition["metadata"];
+    changeNote: string | null;
+    publish: boolean;
+    userId: number | null;
+  }): Promise<ContractTemplate> {
+    const key = input.key ?? await this.availableKey(slugify(input.name), input.organizationId);
+    const metadata = { ...input.metadata, variables: normalizeVariables(input.content, input.metadata.variables) };
+    ensureValid(input.content, metadata.variables);
+
+    return await db.transaction(async (tx) => {
+      const [taken] = await tx
+        .select({ id: contractTemplates.id })
+        .from(contractTemplates)
+        .where(and(eq(contractTemplates.key, key), this.scopeCondition(input.organizationId)));
+      if (taken) {
+        throw new TemplateLibraryError(`A template with key "${key}" already exists`, 409, "KEY_TAKEN");
+      }
+
+      const [template] = await tx
+        .insert(contractTemplates)
+        .values({
+          key,
+          organizationId: input.organizationId,
+          name: input.name,
+          description: input.description,
+          category: input.category,
+          content: input.content,
+          metadata,
+          status: "DRAFT",
+          latestVersion: 1,
+          createdBy: input.userId,
+        })
+        .returning();
+      await tx.insert(contractTemplateVersions).values({
+        templateId: template.id,
+        version: 1,
+        name: input.name,
+        description: input.description,
+        category: input.category,
+        content: input.content,
+        metadata,
+        changeNote: input.changeNote,
+        createdBy: input.userId,
+      });
+      if (input.publish) {
+        await this.publishVersion(tx, template, 1, input.userId);
+      }
+      return template;
+    });
+  }
+
+  private async publishVersion(
+    tx: Parameters<Parameters<typeof db.transaction>[0]>[0],
+    template: ContractTemplate,
+    version: number,
+    userId: number | null,
+  ): Promise<ContractTemplateVersion> {
+    const [target] = await tx
+      .select()
+      .from(contractTemplateVersions)
+      .where(and(eq(contractTemplateVersions.templateId, template.id), eq(contractTemplateVersions.version, version)));
+    if (!target) {
+      throw new TemplateLibraryError("Template version not found", 404, "NOT_FOUND");
+    }
+
+    const [published] = target.publishedAt
+      ? [target]
+      : await tx
+        .update(contractTemplateVersions)
+        .set({ publishedAt: new Date(), publishedBy: userId })
+        .where(eq(contractTemplateVersions.id, target.id))
+        .returning();
+    await tx
+      .update(contractTemplates)
+      .set({
+        status: "PUBLISHED",
+        publishedVersionId: published.id,
+        ...(userId !== null ? { updatedBy: userId } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(contractTemplates.id, template.id));
+    return published;
+  }
+
+  private async listVersions(user: AccessUser, template: ContractTemplate) {
+    const versions = await db
+      .select({
+        id: contractTemplateVersions.id,
+        version: contractTemplateVersions.version,
+        changeNote: contractTemplateVersions.changeNote,
+        createdBy: contractTemplateVersions.createdBy,
+        createdAt: contractTemplateVersions.createdAt,
+        publishedAt: contractTemplateVersions.publishedAt,
+        publishedBy: contractTemplateVersions.publishedBy,
+      })
+      .from(contractTemplateVersions)
+      .where(eq(contractTemplateVersions.templateId, template.id))
+      .orderBy(desc(contractTemplateVersions.version));
+    return versions
+      .filter((version) => version.publishedAt || this.canSeeDrafts(user))
+      .map((version) => ({ ...version, isPublished: version.id === template.publishedVersionId }));
+  }
+
+  private async load(user: AccessUser, tenant: TenantContext, templateId: number): Promise<ContractTemplate> {
+    const [template] = await db
+      .select()
+      .from(contractTemplates)
+      .where(and(eq(contractTemplates.id, templateId), this.visibleFilter(user, tenant)));
+    if (!template) {
+      throw new TemplateLibraryError("Template not found", 404, "NOT_FOUND");
+    }
+    return template;
+  }
+
+  private async availableKey(base: string, organizationId: number | null): Promise<string> {
+    for (let suffix = 1; ; suffix++) {
+      const key = suffix === 1 ? base : `${base}-${suffix}`;
+      const [taken] = await db
+        .select({ id: contractTemplates.id })
+        .from(contractTemplates)
+        .where(and(eq(contractTemplates.key, key), this.scopeCondition(organizationId)));
+      if (!taken) return key;
+    }
+  }
+
+  private visibleFilter(user: AccessUser, tenant: TenantContext): SQL {
+    const scope = tenant.organizationId === null
+      ? isNull(contractTemplates.organizationId)
+      : or(isNull(contractTemplates.organizationId), eq(contractTemplates.organizationId, tenant.organizationId));
+    return (this.canSeeDrafts(user) ? scope : and(scope, eq(contractTemplates.status, "PUBLISHED"))) as SQL;
+  }
+
+  private scopeCondition(organizationId: number | null): SQL {
+    return organizationId === null ? isNull(contractTemplates.organizationId) : eq(contractTemplates.organizationId, organizationId);
+  }
+
+  private canSeeDrafts(user: AccessUser): boolean {
+    return normalizeRole(user.role) !== "CLIENT";
+  }
+
+  // The shared library is curated by admins; a firm's staff manage its own
+  private ensureEditor(user: AccessUser, tenant: TenantContext, organizationId: number | null) {
+    const allowed = organizationId === null
+      ? normalizeRole(user.role) === "ADMIN"
+      : organizationId === tenant.organizationId;
+    if (!allowed) {
+      throw new TemplateLibraryError(
+        organizationId === null ? "Only administrators can change library templates" : "Template belongs to another organization",
+        403,
+        "FORBIDDEN",
+      );
+    }
+  }
+
+  private describe(template: ContractTemplate) {
+    return {
+      ...template,
+      scope: (template.organizationId === null ? "LIBRARY" : "ORGANIZATION") as TemplateScope,
+    };
+  }
+
+  private toResolved(template: ContractTemplate, version: ContractTemplateVersion): ResolvedTemplate {
+    return {
+      templateId: template.id,
+      versionId: version.id,
+      version: version.version,
+      key: template.key,
+      organizationId: template.organizationId,
+      name: version.name,
+      description: version.description,
+      category: version.category,
+      content: version.content,
+      variables: version.metadata.variables ?? [],
+      metadata: version.metadata,
+    };
+  }
+}
+
+export const templateLibraryService = new TemplateLibraryService();
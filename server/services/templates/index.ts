@@ -0,0 +1,257 @@
+import type { TemplateVariable, TemplateVariableType } from "@shared/schema";
+import { parseTemplate, TemplateSyntaxError, type Condition, type TemplateNode } from "./syntax";
+import { coerceValue, compareValue, formatValue, isBlank, isTruthy, type VariableValue } from "./values";
+
+export { parseTemplate, TemplateSyntaxError, type TemplateNode } from "./syntax";
+export type { JurisdictionValue, PartyValue, VariableValue } from "./values";
+
+export interface ValueProblem {
+  // NAME, or LIST[2].FIELD for a list item's field
+  variable: string;
+  message: string;
+  // Set when no value was given, as opposed to an invalid one
+  missing?: boolean;
+}
+
+export class TemplateValueError extends Error {
+  constructor(public problems: ValueProblem[]) {
+    super(problems.map((problem) => `${problem.variable} ${problem.message}`).join("; "));
+    this.name = "TemplateValueError";
+  }
+}
+
+export interface RenderOptions {
+  // Leave unfilled placeholders in place instead of failing, for previews
+  partial?: boolean;
+}
+
+type Values = Record<string, VariableValue>;
+
+const INDEX_FIELD: TemplateVariable = { name: "INDEX", description: "Position in the list, from 1", required: true, type: "number" };
+
+// "startDate", "start date" and "[START_DATE]" all become "START_DATE"
+export function toVariableName(name: string): string {
+  return name
+    .trim()
+    .replace(/^\[|\]$/g, "")
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .replace(/[^A-Za-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .toUpperCase();
+}
+
+function conditionTests(condition: Condition): Array<Extract<Condition, { kind: "test" }>> {
+  if (condition.kind === "test") return [condition];
+  if (condition.kind === "not") return conditionTests(condition.operand);
+  return condition.operands.flatMap(conditionTests);
+}
+
+// The variables a template uses, with types guessed from how they are used:
+// bare conditions are booleans, numeric comparisons numbers, [#EACH] targets
+// lists whose fields are the names used only inside the loop
+export function inferVariables(content: string): TemplateVariable[] {
+  const found = new Map<string, TemplateVariable>();
+  const add = (into: Map<string, TemplateVariable>, name: string, type: TemplateVariableType) => {
+    if (!into.has(name) && name !== INDEX_FIELD.name) into.set(name, { name, description: "", required: true, type });
+  };
+
+  const walk = (nodes: TemplateNode[], into: Map<string, TemplateVariable>) => {
+    for (const node of nodes) {
+      if (node.kind === "variable") {
+        add(into, node.path[0], node.path.length > 1 ? "party" : "text");
+      } else if (node.kind === "if") {
+        for (const test of conditionTests(node.condition)) {
+          const type = !test.comparison ? "boolean" : typeof test.value === "number" ? "number" : "text";
+          add(into, test.path[0], test.path.length > 1 ? "party" : type);
+        }
+        walk(node.then, into);
+        walk(node.otherwise, into);
+      } else if (node.kind === "each") {
+        const fields = new Map<string, TemplateVariable>();
+        walk(node.body, fields);
+        const existing = into.get(node.name);
+        if (!existing || existing.type !== "list") {
+          into.set(node.name, { name: node.name, description: "", required: true, type: "list", fields: Array.from(fields.values()) });
+        }
+      }
+    }
+  };
+  walk(parseTemplate(content), found);
+
+  const variables = Array.from(found.values());
+  for (const list of variables) {
+    list.fields = list.fields?.filter((field) => !found.has(field.name));
+  }
+  return variables;
+}
+
+// Structural problems with a template and its declared variables
+export function checkTemplate(content: string, variables: TemplateVariable[]): string[] {
+  let nodes: TemplateNode[];
+  try {
+    nodes = parseTemplate(content);
+  } catch (error) {
+    if (error instanceof TemplateSyntaxError) return [error.message];
+    throw error;
+  }
+
+  const problems: string[] = [];
+  const byName = new Map(variables.map((variable) => [variable.name, variable]));
+  const checkPath = (path: string[], scope: Map<string, TemplateVariable>) => {
+    const variable = scope.get(path[0]) ?? byName.get(path[0]);
+    if (variable?.type === "list") {
+      problems.push(`${path[0]} is a list; use it in [#EACH ${path[0]}]`);
+    } else if (path.length > 1 && variable && variable.type !== "party" && variable.type !== "jurisdiction") {
+      problems.push(`${path.join(".")} reads a field of ${path[0]}, which is a ${variable.type}`);
+    }
+  };
+  const walk = (list: TemplateNode[], scope: Map<string, TemplateVariable>) => {
+    for (const node of list) {
+      if (node.kind === "variable") {
+        checkPath(node.path, scope);
+      } else if (node.kind === "if") {
+        conditionTests(node.condition).forEach((test) => checkPath(test.path, scope));
+        walk(node.then, scope);
+        walk(node.otherwise, scope);
+      } else if (node.kind === "each") {
+        const variable = byName.get(node.name);
+        if (variable?.type !== "list") {
+          problems.push(`[#EACH ${node.name}] needs ${node.name} to be a list variable`);
+          continue;
+        }
+        walk(node.body, new Map((variable.fields ?? []).map((field) => [field.name, field])));
+      }
+    }
+  };
+  walk(nodes, new Map());
+  return Array.from(new Set(problems));
+}
+
+function coerceAll(variables: TemplateVariable[], raw: Record<string, unknown>, prefix = "") {
+  const values: Values = {};
+  const problems: ValueProblem[] = [];
+  const byName = new Map(Object.entries(raw).map(([name, value]) => [toVariableName(name), value]));
+
+  for (const variable of variables) {
+    const label = `${prefix}${variable.name}`;
+    const submitted = byName.get(variable.name);
+    const input = isBlank(submitted) ? variable.defaultValue : submitted;
+    if (isBlank(input)) continue;
+
+    if (variable.type === "list") {
+      if (!Array.isArray(input)) {
+        problems.push({ variable: label, message: "must be a list" });
+        continue;
+      }
+      if (variable.minItems !== undefined && input.length < variable.minItems) {
+        problems.push({ variable: label, message: `needs at least ${variable.minItems} entries` });
+      }
+      if (variable.maxItems !== undefined && input.length > variable.maxItems) {
+        problems.push({ variable: label, message: `allows at most ${variable.maxItems} entries` });
+      }
+      const items = input.map((item, index) => {
+        const itemLabel = `${label}[${index + 1}].`;
+        if (typeof item !== "object" || item === null) {
+          problems.push({ variable: `${label}[${index + 1}]`, message: "must be an object" });
+          return {};
+        }
+        const coerced = coerceAll(variable.fields ?? [], item as Record<string, unknown>, itemLabel);
+        problems.push(...coerced.problems);
+        return coerced.values;
+      });
+      values[variable.name] = items;
+      continue;
+    }
+
+    const coerced = coerceValue(variable, input);
+    if ("error" in coerced) {
+      problems.push({ variable: label, message: coerced.error });
+    } else {
+      values[variable.name] = coerced.value;
+    }
+  }
+  return { values, problems };
+}
+
+interface Scope {
+  values: Values;
+  fields: Map<string, TemplateVariable>;
+  // Prefix for problems found inside a list entry, e.g. "SIGNATORIES[2]."
+  label: string;
+}
+
+// Fills in a template without any model call: typed values are validated
+// and formatted, [#IF] blocks are kept or dropped and [#EACH] blocks repeat
+// per list entry, with [INDEX] numbering the entries. Only variables in
+// sections that are kept are required.
+export function renderTemplate(
+  content: string,
+  variables: TemplateVariable[],
+  raw: Record<string, unknown>,
+  options: RenderOptions = {},
+): { content: string; values: Values; problems: ValueProblem[] } {
+  const { values, problems } = coerceAll(variables, raw);
+  const declared = new Map(variables.map((variable) => [variable.name, variable]));
+  const missing = new Set<string>();
+
+  // Loop fields shadow template variables of the same name
+  const lookup = (path: string[], scopes: Scope[]) => {
+    const scope = scopes.find((candidate) => candidate.fields.has(path[0]));
+    if (scope) {
+      return { variable: scope.fields.get(path[0])!, value: scope.values[path[0]], label: scope.label + path[0] };
+    }
+    const variable = declared.get(path[0]) ?? { name: path[0], description: "", required: true, type: "text" as const };
+    return { variable, value: values[path[0]], label: path[0] };
+  };
+
+  const evaluate = (condition: Condition, scopes: Scope[]): boolean => {
+    if (condition.kind === "not") return !evaluate(condition.operand, scopes);
+    if (condition.kind !== "test") {
+      const test = (operand: Condition) => evaluate(operand, scopes);
+      return condition.kind === "and" ? condition.operands.every(test) : condition.operands.some(test);
+    }
+    const { variable, value } = lookup(condition.path, scopes);
+    if (!condition.comparison) return isTruthy(value);
+    return compareValue(variable, value, condition.comparison, condition.value!, condition.path[1]);
+  };
+
+  const render = (nodes: TemplateNode[], scopes: Scope[]): string => nodes.map((node) => {
+    switch (node.kind) {
+      case "text":
+        return node.text;
+      case "variable": {
+        const { variable, value, label } = lookup(node.path, scopes);
+        if (value === undefined) {
+          if (variable.required) missing.add(label);
+          return options.partial ? `[${node.path.join(".")}]` : "";
+        }
+        return formatValue(variable, value, node.path[1]);
+      }
+      case "if":
+        return render(evaluate(node.condition, scopes) ? node.then : node.otherwise, scopes);
+      case "each": {
+        const list = declared.get(node.name);
+        const items = (values[node.name] ?? []) as Values[];
+        if (!items.length && list?.required) missing.add(node.name);
+        const fields = new Map([...(list?.fields ?? []), INDEX_FIELD].map((field) => [field.name, field]));
+        return items
+          .map((item, index) => render(node.body, [
+            { values: { ...item, INDEX: index + 1 }, fields, label: `${node.name}[${index + 1}].` },
+            ...scopes,
+          ]))
+          .join("");
+      }
+    }
+  }).join("");
+
+  const rendered = render(parseTemplate(content), []);
+  const reported = new Set(problems.map((problem) => problem.variable));
+  const allProblems = [
+    ...problems,
+    ...Array.from(missing).filter((name) => !reported.has(name)).map((variable) => ({ variable, message: "is required", missing: true })),
+  ];
+  if (allProblems.length && !options.partial) {
+    throw new TemplateValueError(allProblems);
+  }
+  return { content: rendered, values, problems: allProblems };
+}
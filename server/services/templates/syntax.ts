@@ -0,0 +1,229 @@
+// Parses the template language:
+//
+//   [NAME]                   a variable; [PARTY.ADDRESS] reads a field
+//   [#IF STATE != "CA"] ... [#ELSE] ... [/IF]
+//   [#EACH SIGNATORIES] [NAME], [TITLE] [/EACH]
+//
+// Conditions compare a variable with a quoted string, number or true/false
+// using == != > >= < <= or IN ("A", "B"), and combine with AND, OR and NOT.
+// Bracketed text that is not upper snake case, such as "[Signature]", is
+// left as written.
+
+export type Comparison = "==" | "!=" | ">" | ">=" | "<" | "<=" | "IN";
+export type Literal = string | number | boolean;
+
+export type Condition =
+  | { kind: "test"; path: string[]; comparison?: Comparison; value?: Literal | Literal[] }
+  | { kind: "not"; operand: Condition }
+  | { kind: "and" | "or"; operands: Condition[] };
+
+export type TemplateNode =
+  | { kind: "text"; text: string }
+  | { kind: "variable"; path: string[]; offset: number }
+  | { kind: "if"; condition: Condition; then: TemplateNode[]; otherwise: TemplateNode[]; offset: number }
+  | { kind: "each"; name: string; body: TemplateNode[]; offset: number };
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string, public offset: number) {
+    super(message);
+    this.name = "TemplateSyntaxError";
+  }
+}
+
+const NAME = "[A-Z][A-Z0-9_]*";
+const TAG = new RegExp(`\\[(?:#IF\\s+([^\\]]+)|(#ELSE)|(/IF)|#EACH\\s+(${NAME})|(/EACH)|(${NAME}(?:\\.${NAME})?))\\]`, "g");
+const CONDITION_TOKEN = new RegExp(
+  `\\s*(?:(${NAME}(?:\\.${NAME})?)|"((?:[^"\\\\]|\\\\.)*)"|(-?\\d+(?:\\.\\d+)?)|(==|!=|>=|<=|>|<|&&|\\|\\||!|\\(|\\)|,))`,
+  "y",
+);
+
+type ConditionToken =
+  | { kind: "name"; value: string }
+  | { kind: "literal"; value: Literal }
+  | { kind: "symbol"; value: string };
+
+function tokenizeCondition(source: string, offset: number): ConditionToken[] {
+  const tokens: ConditionToken[] = [];
+  CONDITION_TOKEN.lastIndex = 0;
+  while (CONDITION_TOKEN.lastIndex < source.length) {
+    if (!source.slice(CONDITION_TOKEN.lastIndex).trim()) break;
+    const position = CONDITION_TOKEN.lastIndex;
+    const match = CONDITION_TOKEN.exec(source);
+    if (!match) {
+      throw new TemplateSyntaxError(`Unexpected "${source.slice(position).trim()}" in condition`, offset);
+    }
+    const [, name, quoted, number, symbol] = match;
+    if (name === "AND" || name === "OR" || name === "NOT" || name === "IN") {
+      tokens.push({ kind: "symbol", value: name });
+    } else if (name === "TRUE" || name === "FALSE") {
+      tokens.push({ kind: "literal", value: name === "TRUE" });
+    } else if (name) {
+      tokens.push({ kind: "name", value: name });
+    } else if (quoted !== undefined) {
+      tokens.push({ kind: "literal", value: quoted.replace(/\\(.)/g, "$1") });
+    } else if (number !== undefined) {
+      tokens.push({ kind: "literal", value: Number(number) });
+    } else {
+      tokens.push({ kind: "symbol", value: symbol === "&&" ? "AND" : symbol === "||" ? "OR" : symbol === "!" ? "NOT" : symbol });
+    }
+  }
+  return tokens;
+}
+
+function parseCondition(source: string, offset: number): Condition {
+  // Words are matched in upper case so "and"/"or"/"true" read naturally;
+  // quoted strings keep their case
+  const normalized = source.replace(/"(?:[^"\\]|\\.)*"|\b(and|or|not|in|true|false)\b/gi, (match) =>
+    match.startsWith('"') ? match : match.toUpperCase());
+  const tokens = tokenizeCondition(normalized, offset);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const fail = (message: string): never => {
+    throw new TemplateSyntaxError(`${message} in condition "${source.trim()}"`, offset);
+  };
+  const expectSymbol = (value: string) => {
+    const token = tokens[position++];
+    if (token?.kind !== "symbol" || token.value !== value) fail(`Expected "${value}"`);
+  };
+  const literal = (): Literal => {
+    const token = tokens[position++];
+    if (token?.kind !== "literal") return fail("Expected a quoted value, number, true or false");
+    return token.value as Literal;
+  };
+
+  const parseOr = (): Condition => {
+    const operands = [parseAnd()];
+    while (peek()?.kind === "symbol" && peek().value === "OR") {
+      position++;
+      operands.push(parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { kind: "or", operands };
+  };
+  const parseAnd = (): Condition => {
+    const operands = [parseUnary()];
+    while (peek()?.kind === "symbol" && peek().value === "AND") {
+      position++;
+      operands.push(parseUnary());
+    }
+    return operands.length === 1 ? operands[0] : { kind: "and", operands };
+  };
+  const parseUnary = (): Condition => {
+    const token = peek();
+    if (token?.kind === "symbol" && token.value === "NOT") {
+      position++;
+      return { kind: "not", operand: parseUnary() };
+    }
+    if (token?.kind === "symbol" && token.value === "(") {
+      position++;
+      const inner = parseOr();
+      expectSymbol(")");
+      return inner;
+    }
+    if (token?.kind !== "name") return fail("Expected a variable name");
+    position++;
+    const path = String(token.value).split(".");
+
+    const next = peek();
+    if (next?.kind === "symbol" && ["==", "!=", ">", ">=", "<", "<="].includes(String(next.value))) {
+      position++;
+      return { kind: "test", path, comparison: next.value as Comparison, value: literal() };
+    }
+    if (next?.kind === "symbol" && next.value === "IN") {
+      position++;
+      expectSymbol("(");
+      const values = [literal()];
+      while (peek()?.kind === "symbol" && peek().value === ",") {
+        position++;
+        values.push(literal());
+      }
+      expectSymbol(")");
+      return { kind: "test", path, comparison: "IN", value: values };
+    }
+    return { kind: "test", path };
+  };
+
+  const condition = parseOr();
+  if (position < tokens.length) fail(`Unexpected "${tokens[position].value}"`);
+  return condition;
+}
+
+interface OpenBlock {
+  node: Extract<TemplateNode, { kind: "if" | "each" }>;
+  inElse: boolean;
+}
+
+export function parseTemplate(content: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+  const target = (): TemplateNode[] => {
+    const open = stack[stack.length - 1];
+    if (!open) return root;
+    if (open.node.kind === "each") return open.node.body;
+    return open.inElse ? open.node.otherwise : open.node.then;
+  };
+
+  let last = 0;
+  for (const match of Array.from(content.matchAll(TAG))) {
+    const offset = match.index ?? 0;
+    const [, condition, elseTag, endIf, eachName, endEach, variable] = match;
+
+    // A block tag alone on its line takes the line with it, so sections
+    // that are left out do not leave blank lines behind
+    let textEnd = offset;
+    let next = offset + match[0].length;
+    if (!variable) {
+      const lineStart = content.lastIndexOf("\n", offset - 1) + 1;
+      const lineEnd = content.indexOf("\n", next);
+      const after = content.slice(next, lineEnd === -1 ? content.length : lineEnd);
+      if (lineStart >= last && !content.slice(lineStart, offset).trim() && !after.trim()) {
+        textEnd = lineStart;
+        next = lineEnd === -1 ? content.length : lineEnd + 1;
+      }
+    }
+    if (textEnd > last) {
+      target().push({ kind: "text", text: content.slice(last, textEnd) });
+    }
+    last = next;
+
+    const open = stack[stack.length - 1];
+    if (condition !== undefined) {
+      const node: TemplateNode = { kind: "if", condition: parseCondition(condition, offset), then: [], otherwise: [], offset };
+      target().push(node);
+      stack.push({ node, inElse: false });
+    } else if (elseTag) {
+      if (open?.node.kind !== "if" || open.inElse) {
+        throw new TemplateSyntaxError("[#ELSE] without a matching [#IF]", offset);
+      }
+      open.inElse = true;
+    } else if (endIf) {
+      if (open?.node.kind !== "if") {
+        throw new TemplateSyntaxError("[/IF] without a matching [#IF]", offset);
+      }
+      stack.pop();
+    } else if (eachName) {
+      const node: TemplateNode = { kind: "each", name: eachName, body: [], offset };
+      target().push(node);
+      stack.push({ node, inElse: false });
+    } else if (endEach) {
+      if (open?.node.kind !== "each") {
+        throw new TemplateSyntaxError("[/EACH] without a matching [#EACH]", offset);
+      }
+      stack.pop();
+    } else {
+      target().push({ kind: "variable", path: variable.split("."), offset });
+    }
+  }
+  if (last < content.length) {
+    target().push({ kind: "text", text: content.slice(last) });
+  }
+
+  const unclosed = stack[stack.length - 1];
+  if (unclosed) {
+    throw new TemplateSyntaxError(
+      unclosed.node.kind === "if" ? "[#IF] is never closed with [/IF]" : `[#EACH ${unclosed.node.name}] is never closed with [/EACH]`,
+      unclosed.node.offset,
+    );
+  }
+  return root;
+}
@@ -0,0 +1,212 @@
+import type { TemplateVariable } from "@shared/schema";
+import type { Comparison, Literal } from "./syntax";
+
+export interface PartyValue {
+  name: string;
+  address?: string;
+  entityType?: string;
+  jurisdiction?: string;
+  email?: string;
+}
+
+export interface JurisdictionValue {
+  name: string;
+  // Two-letter code for US states
+  code?: string;
+}
+
+export type VariableValue =
+  | string
+  | number
+  | boolean
+  | Date
+  | PartyValue
+  | JurisdictionValue
+  | Array<Record<string, VariableValue>>;
+
+const US_STATES: Record<string, string> = {
+  AL: "Alabama", AK: "Alaska", AZ: "Arizona", AR: "Arkansas", CA: "California", CO: "Colorado",
+  CT: "Connecticut", DE: "Delaware", DC: "District of Columbia", FL: "Florida", GA: "Georgia",
+  HI: "Hawaii", ID: "Idaho", IL: "Illinois", IN: "Indiana", IA: "Iowa", KS: "Kansas", KY: "Kentucky",
+  LA: "Louisiana", ME: "Maine", MD: "Maryland", MA: "Massachusetts", MI: "Michigan", MN: "Minnesota",
+  MS: "Mississippi", MO: "Missouri", MT: "Montana", NE: "Nebraska", NV: "Nevada", NH: "New Hampshire",
+  NJ: "New Jersey", NM: "New Mexico", NY: "New York", NC: "North Carolina", ND: "North Dakota",
+  OH: "Ohio", OK: "Oklahoma", OR: "Oregon", PA: "Pennsylvania", RI: "Rhode Island",
+  SC: "South Carolina", SD: "South Dakota", TN: "Tennessee", TX: "Texas", UT: "Utah", VT: "Vermont",
+  VA: "Virginia", WA: "Washington", WV: "West Virginia", WI: "Wisconsin", WY: "Wyoming",
+};
+
+const PARTY_FIELDS: Record<string, keyof PartyValue> = {
+  NAME: "name",
+  ADDRESS: "address",
+  ENTITY_TYPE: "entityType",
+  JURISDICTION: "jurisdiction",
+  EMAIL: "email",
+};
+
+const MONTHS = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
+
+type Coerced = { value: VariableValue } | { error: string };
+
+export function isBlank(raw: unknown): boolean {
+  return raw === undefined || raw === null || (typeof raw === "string" && !raw.trim()) || (Array.isArray(raw) && !raw.length);
+}
+
+function toNumber(raw: unknown): number | null {
+  if (typeof raw === "number") return Number.isFinite(raw) ? raw : null;
+  if (typeof raw !== "string") return null;
+  const cleaned = raw.trim().replace(/^[^\d-]+/, "").replace(/,/g, "");
+  return /^-?\d+(\.\d+)?$/.test(cleaned) ? Number(cleaned) : null;
+}
+
+function withinBounds(variable: TemplateVariable, amount: number): string | null {
+  if (variable.min !== undefined && amount < variable.min) return `must be at least ${variable.min}`;
+  if (variable.max !== undefined && amount > variable.max) return `must be at most ${variable.max}`;
+  return null;
+}
+
+function toDate(raw: unknown): Date | null {
+  if (raw instanceof Date) return isNaN(raw.getTime()) ? null : raw;
+  if (typeof raw !== "string") return null;
+  const match = /^(\d{4})-(\d{2})-(\d{2})(?:$|T)/.exec(raw.trim());
+  if (!match) return null;
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return date.getUTCMonth() === Number(match[2]) - 1 ? date : null;
+}
+
+function toJurisdiction(raw: string): JurisdictionValue {
+  const trimmed = raw.trim();
+  const code = trimmed.toUpperCase();
+  if (US_STATES[code]) return { name: US_STATES[code], code };
+  const state = Object.entries(US_STATES).find(([, name]) => name.toLowerCase() === trimmed.toLowerCase());
+  return state ? { name: state[1], code: state[0] } : { name: trimmed };
+}
+
+// Turns a submitted value (usually JSON from a form) into the variable's type
+export function coerceValue(variable: TemplateVariable, raw: unknown): Coerced {
+  switch (variable.type) {
+    case "number":
+    case "currency": {
+      const amount = toNumber(raw);
+      if (amount === null) return { error: "must be a number" };
+      const outOfBounds = withinBounds(variable, amount);
+      return outOfBounds ? { error: outOfBounds } : { value: amount };
+    }
+    case "date": {
+      const date = toDate(raw);
+      return date ? { value: date } : { error: "must be a date in YYYY-MM-DD form" };
+    }
+    case "boolean": {
+      if (typeof raw === "boolean") return { value: raw };
+      const word = String(raw).trim().toLowerCase();
+      if (["true", "yes", "1"].includes(word)) return { value: true };
+      if (["false", "no", "0"].includes(word)) return { value: false };
+      return { error: "must be true or false" };
+    }
+    case "enum": {
+      const option = variable.options?.find((candidate) => candidate.toLowerCase() === String(raw).trim().toLowerCase());
+      return option ? { value: option } : { error: `must be one of ${(variable.options ?? []).join(", ")}` };
+    }
+    case "jurisdiction": {
+      const name = typeof raw === "object" && raw !== null ? (raw as JurisdictionValue).name : raw;
+      if (typeof name !== "string" || !name.trim()) return { error: "must name a jurisdiction" };
+      const jurisdiction = toJurisdiction(name);
+      const allowed = !variable.options?.length || variable.options.some((option) =>
+        [jurisdiction.name, jurisdiction.code].some((candidate) => candidate?.toLowerCase() === option.toLowerCase()));
+      return allowed ? { value: jurisdiction } : { error: `must be one of ${variable.options!.join(", ")}` };
+    }
+    case "party": {
+      const party = typeof raw === "string" ? { name: raw } : raw;
+      if (typeof party !== "object" || party === null || typeof (party as PartyValue).name !== "string" || !(party as PartyValue).name.trim()) {
+        return { error: "must include the party's name" };
+      }
+      const value: PartyValue = { name: (party as PartyValue).name.trim() };
+      for (const key of Object.values(PARTY_FIELDS)) {
+        const field = (party as Record<string, unknown>)[key];
+        if (key !== "name" && typeof field === "string" && field.trim()) value[key] = field.trim();
+      }
+      return { value };
+    }
+    case "list":
+      return { error: "is checked item by item" };
+    default:
+      return typeof raw === "string" || typeof raw === "number" ? { value: String(raw).trim() } : { error: "must be text" };
+  }
+}
+
+function formatDate(date: Date): string {
+  return `${MONTHS[date.getUTCMonth()]} ${date.getUTCDate()}, ${date.getUTCFullYear()}`;
+}
+
+// How a value reads in the contract. Deterministic: the same value always
+// renders the same text.
+export function formatValue(variable: TemplateVariable, value: VariableValue, field?: string): string {
+  if (variable.type === "party") {
+    const party = value as PartyValue;
+    const key = field ? PARTY_FIELDS[field] : "name";
+    return key ? party[key] ?? "" : "";
+  }
+  if (variable.type === "jurisdiction") {
+    const jurisdiction = value as JurisdictionValue;
+    return field === "CODE" ? jurisdiction.code ?? jurisdiction.name : jurisdiction.name;
+  }
+  if (value instanceof Date) return formatDate(value);
+  if (variable.type === "currency") {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency: variable.currency ?? "USD" }).format(value as number);
+  }
+  if (typeof value === "number") return new Intl.NumberFormat("en-US", { maximumFractionDigits: 6 }).format(value);
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+}
+
+function comparable(variable: TemplateVariable, value: VariableValue, field?: string): Literal[] {
+  if (value instanceof Date) return [value.toISOString().slice(0, 10)];
+  if (variable.type === "jurisdiction" && !field) {
+    const jurisdiction = value as JurisdictionValue;
+    return [jurisdiction.name, ...(jurisdiction.code ? [jurisdiction.code] : [])];
+  }
+  if (typeof value === "object") return [formatValue(variable, value, field)];
+  return [value];
+}
+
+function equal(left: Literal, right: Literal): boolean {
+  return typeof left === "string" && typeof right === "string"
+    ? left.toLowerCase() === right.toLowerCase()
+    : left === right;
+}
+
+export function compareValue(
+  variable: TemplateVariable,
+  value: VariableValue | undefined,
+  comparison: Comparison,
+  literal: Literal | Literal[],
+  field?: string,
+): boolean {
+  if (value === undefined) {
+    return comparison === "!=";
+  }
+  const candidates = comparable(variable, value, field);
+  switch (comparison) {
+    case "==":
+      return candidates.some((candidate) => equal(candidate, literal as Literal));
+    case "!=":
+      return !candidates.some((candidate) => equal(candidate, literal as Literal));
+    case "IN":
+      return (literal as Literal[]).some((option) => candidates.some((candidate) => equal(candidate, option)));
+    default: {
+      const [candidate] = candidates;
+      const right = literal as Literal;
+      if (typeof candidate !== typeof right) return false;
+      if (comparison === ">") return candidate > right;
+      if (comparison === ">=") return candidate >= right;
+      if (comparison === "<") return candidate < right;
+      return candidate <= right;
+    }
+  }
+}
+
+export function isTruthy(value: VariableValue | undefined): boolean {
+  if (value === undefined) return false;
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== false && value !== 0 && value !== "";
+}
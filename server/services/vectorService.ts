@@ -1,8 +1,7 @@
 import { ChromaClient, Collection } from 'chromadb';
-import { OpenAI } from 'openai';
 import { v4 as uuidv4 } from 'uuid';
+import { modelRouter } from './modelRouter';
 
-const openai = new OpenAI();
 const chroma = new ChromaClient();
 
 let documentCollection: Collection;
@@ -26,22 +25,19 @@ initializeCollection().catch(console.error);
 
 export async function createVectorEmbedding(content: string) {
   try {
-    // Generate embedding using OpenAI
-    const embedding = await openai.embeddings.create({
-      input: content,
-      model: "text-embedding-3-small"
-    });
+    // Generate embedding with the configured embedding model
+    const [embedding] = (await modelRouter.embed([content])).embeddings;
 
     // Store in ChromaDB
     const id = uuidv4();
     await documentCollection.add({
       ids: [id],
-      embeddings: [embedding.data[0].embedding],
+      embeddings: [embedding],
       metadatas: [{ timestamp: new Date().toISOString() }],
       documents: [content]
     });
 
-    return { id, embedding: embedding.data[0].embedding };
+    return { id, embedding };
   } catch (error) {
     console.error("Error creating vector embedding:", error);
     throw new Error("Failed to create document embedding");
@@ -50,13 +46,10 @@ export async function createVectorEmbedding(content: string) {
 
 export async function findSimilarDocuments(content: string, limit: number = 5) {
   try {
-    const embedding = await openai.embeddings.create({
-      input: content,
-      model: "text-embedding-3-small"
-    });
+    const [embedding] = (await modelRouter.embed([content])).embeddings;
 
     const results = await documentCollection.query({
-      queryEmbeddings: [embedding.data[0].embedding],
+      queryEmbeddings: [embedding],
       nResults: limit
     });
 
@@ -1,23 +1,14 @@
-// Move SignatureResponse interface to top level
-interface SignatureResponse {
-  signatureId: string;
-  status: 'pending' | 'completed' | 'failed';
-  signers: Array<{
-    email: string;
-    status: 'pending' | 'signed';
-  }>;
-}
-
-import { ChatOpenAI } from "@langchain/openai";
-import { RunnableSequence } from "@langchain/core/runnables";
-import { StringOutputParser } from "@langchain/core/output_parsers";
+import { RunnableLambda, RunnableSequence } from "@langchain/core/runnables";
 import { PromptTemplate } from "@langchain/core/prompts";
 import { Client } from "langsmith";
 import { z } from "zod";
 import debug from 'debug';
 import { db } from "../db";
-import { vaultDocuments, contractVersions, workflowEvents } from "@shared/schema";
+import { vaultDocuments, contractVersions, workflowEvents, type BackgroundJob } from "@shared/schema";
 import { eq } from "drizzle-orm";
+import { modelRouter } from "./modelRouter";
+import { jobQueue } from "./jobQueue";
+import { signatureService, type EnvelopeRequest } from "./signatureService";
 
 // Workflow stage types
 type WorkflowStage = 'draft' | 'review' | 'approval' | 'signature' | 'audit';
@@ -60,11 +51,16 @@ const log = debug('jurysync:workflow-orchestrator');
 // Initialize LangSmith client for tracking and evaluation
 const client = new Client();
 
-// Initialize AI model with higher context limits
-const chatModel = new ChatOpenAI({
-  modelName: "gpt-4-0125-preview",
-  maxTokens: 4096,
-  temperature: 0.2
+// Pipeline step that sends the rendered prompt through the model router
+const chatModel = RunnableLambda.from(async (prompt: { toString(): string }) => {
+  const response = await modelRouter.complete({
+    role: "structured",
+    messages: [{ role: "user", content: prompt.toString() }],
+    responseFormat: "json",
+    maxTokens: 4096,
+    temperature: 0.2
+  });
+  return response.text;
 });
 
 // Document state schema
@@ -109,8 +105,7 @@ const documentTypeAgent = RunnableSequence.from([
     - confidence: Confidence score (0-1)
     - purpose: Brief description of document purpose
   `),
-  chatModel,
-  new StringOutputParser()
+  chatModel
 ]);
 
 const entityExtractionAgent = RunnableSequence.from([
@@ -123,8 +118,7 @@ const entityExtractionAgent = RunnableSequence.from([
     - keyPoints: Array of main points or clauses
     - relationships: Key relationships between entities
   `),
-  chatModel,
-  new StringOutputParser()
+  chatModel
 ]);
 
 const summaryAgent = RunnableSequence.from([
@@ -138,50 +132,83 @@ const summaryAgent = RunnableSequence.from([
     - recommendations: Key considerations or actions needed
     - risks: Potential risks or issues identified
   `),
-  chatModel,
-  new StringOutputParser()
+  chatModel
 ]);
 
+const DOCUMENT_ANALYSIS_JOB = "workflow.document-analysis";
+
 class WorkflowOrchestrator {
   private readonly MAX_RETRIES = 3;
   private readonly RETRY_DELAY = 1000; // ms
-  private activeBatches: Map<string, BatchStateType> = new Map();
 
-  // Create a new batch processing job
+  constructor() {
+    // Retries of the whole document are left to the job queue; runWithRetry
+    // only smooths over transient failures of a single agent call
+    jobQueue.register(
+      DOCUMENT_ANALYSIS_JOB,
+      async ({ documentId }) => {
+        const state = await this.processDocument(documentId);
+        return { documentType: state.analysis.documentType, status: state.analysis.status };
+      },
+      { concurrency: 2, maxAttempts: 3, backoffMs: 10000 }
+    );
+  }
+
+  // Create a new batch processing job. Documents are queued individually and
+  // processed by the job worker, so a batch survives a server restart.
   async createBatch(documentIds: number[]): Promise<BatchStateType> {
     const batchId = `batch-${Date.now()}`;
-    const batchState: BatchStateType = {
-      batchId,
-      totalDocuments: documentIds.length,
-      completedDocuments: 0,
-      failedDocuments: 0,
-      startTime: new Date(),
-      status: 'processing',
-      documents: documentIds
-    };
-
-    this.activeBatches.set(batchId, batchState);
 
-    // Process all documents in the batch
-    await Promise.all(
-      documentIds.map(id => this.processDocument(id, batchId))
+    const jobs = await jobQueue.enqueueMany(
+      documentIds.map(documentId => ({
+        type: DOCUMENT_ANALYSIS_JOB,
+        payload: { documentId },
+        options: { groupId: batchId, resourceType: 'VAULT_DOCUMENT', resourceId: documentId }
+      }))
     );
 
-    return batchState;
+    return this.toBatchState(batchId, jobs);
   }
 
   // Get batch processing status
   async getBatchStatus(batchId: string): Promise<BatchStateType | undefined> {
-    return this.activeBatches.get(batchId);
+    const jobs = await jobQueue.listGroup(batchId);
+    return jobs.length ? this.toBatchState(batchId, jobs) : undefined;
   }
 
-  // List all active batches
+  // List batches that still have queued or running documents
   async listActiveBatches(): Promise<BatchStateType[]> {
-    return Array.from(this.activeBatches.values());
+    const jobs = await jobQueue.list({ type: DOCUMENT_ANALYSIS_JOB, limit: 500 });
+    const batchIds = new Set(
+      jobs
+        .filter(job => job.groupId && (job.status === 'QUEUED' || job.status === 'RUNNING'))
+        .map(job => job.groupId as string)
+    );
+
+    const batches = await Promise.all(Array.from(batchIds).map(id => this.getBatchStatus(id)));
+    return batches.filter((batch): batch is BatchStateType => !!batch);
   }
 
-  // Process a single document, optionally as part of a batch
-  async processDocument(documentId: number, batchId?: string): Promise<DocumentStateType> {
+  private toBatchState(batchId: string, jobs: BackgroundJob[]): BatchStateType {
+    const completedDocuments = jobs.filter(job => job.status === 'COMPLETED').length;
+    const failedDocuments = jobs.filter(job => job.status === 'DEAD_LETTER').length;
+    const finished = completedDocuments + failedDocuments === jobs.length;
+    const completionTimes = jobs.map(job => job.completedAt?.getTime() ?? job.updatedAt.getTime());
+
+    return {
+      batchId,
+      totalDocuments: jobs.length,
+      completedDocuments,
+      failedDocuments,
+      startTime: new Date(Math.min(...jobs.map(job => job.createdAt.getTime()))),
+      endTime: finished ? new Date(Math.max(...completionTimes)) : undefined,
+      status: !finished ? 'processing' : failedDocuments === 0 ? 'completed' : 'failed',
+      documents: jobs.map(job => job.payload.documentId)
+    };
+  }
+
+  // Process a single document
+  async processDocument(documentId: number): Promise<DocumentStateType> {
     const run = await client.createRun({
       name: "Document Analysis Workflow",
       inputs: { documentId: documentId.toString() }
@@ -262,11 +289,6 @@ class WorkflowOrchestrator {
         })
         .where(eq(vaultDocuments.id, documentId));
 
-      // Update batch status if part of a batch
-      if (batchId) {
-        this.updateBatchProgress(batchId, true);
-      }
-
       await client.updateRun({
         runId: run.id,
         outputs: state
@@ -280,35 +302,10 @@ class WorkflowOrchestrator {
         error: error instanceof Error ? error.message : 'Unknown error'
       });
 
-      // Update batch status if part of a batch
-      if (batchId) {
-        this.updateBatchProgress(batchId, false);
-      }
-
       throw error;
     }
   }
 
-  // Update batch progress
-  private updateBatchProgress(batchId: string, success: boolean) {
-    const batch = this.activeBatches.get(batchId);
-    if (batch) {
-      if (success) {
-        batch.completedDocuments++;
-      } else {
-        batch.failedDocuments++;
-      }
-
-      // Check if batch is complete
-      if (batch.completedDocuments + batch.failedDocuments === batch.totalDocuments) {
-        batch.endTime = new Date();
-        batch.status = batch.failedDocuments === 0 ? 'completed' : 'failed';
-      }
-
-      this.activeBatches.set(batchId, batch);
-    }
-  }
-
   private async runWithRetry<T>(
     operation: () => Promise<T>,
     operationName: string,
@@ -363,45 +360,24 @@ class WorkflowOrchestrator {
       retryCount: 0
     };
   }
-  async initiateSignature(contractId: number) {
-    try {
-      console.log(`Initiating e-signature process for contract ${contractId}`);
+  // Sends an approved contract out for signature. Signing, expiry and the
+  // final transition to COMPLETED are owned by the signature service.
+  async initiateSignature(contractId: number, request: EnvelopeRequest) {
+    console.log(`Initiating e-signature process for contract ${contractId}`);
+    const envelope = (await signatureService.createEnvelope(contractId, request))!;
 
-      // Log workflow stage entry
-      await this.logWorkflowEvent(contractId, 'signature_initiated', {
-        stage: 'signature',
-        timestamp: new Date()
-      });
-
-      // Simulate e-signature API call
-      const signatureResponse: SignatureResponse = await this.retryOperation(
-        async () => ({
-          signatureId: `sig-${Date.now()}`,
-          status: 'pending',
-          signers: [
-            { email: 'signer1@example.com', status: 'pending' },
-            { email: 'signer2@example.com', status: 'pending' }
-          ]
-        }),
-        'E-signature API call'
-      );
-
-      // Log the signature request
-      await this.logWorkflowEvent(contractId, 'signature_initiated', {
-        signatureId: signatureResponse.signatureId,
-        signers: signatureResponse.signers
-      });
-
-      return {
-        signatureId: signatureResponse.signatureId,
-        status: signatureResponse.status,
-        message: 'E-signature process initiated successfully'
-      };
-    } catch (error) {
-      const workflowError = this.handleError(error, 'signature');
-      await this.logWorkflowEvent(contractId, 'signature_error', workflowError);
-      throw new Error('Failed to initiate e-signature process');
-    }
+    return {
+      signatureId: envelope.id,
+      status: envelope.status,
+      expiresAt: envelope.expiresAt,
+      signers: envelope.signers.map((signer) => ({
+        name: signer.signerName,
+        email: signer.signerEmail,
+        order: signer.signingOrder,
+        status: signer.status,
+      })),
+      message: 'E-signature process initiated successfully'
+    };
   }
 
   async initiateReview(contractId: number) {
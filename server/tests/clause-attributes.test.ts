@@ -0,0 +1,135 @@
+import type { ClauseAttributes, ClauseType } from "@shared/schema";
+import { extractAttributes } from "../services/clauses/attributes";
+
+const CASES: Array<[ClauseType, string, string, ClauseAttributes]> = [
+  [
+    "LIMITATION_OF_LIABILITY",
+    "a cap tied to fees paid",
+    "In no event shall either party be liable for consequential or indirect damages. Each party's aggregate liability shall not exceed two (2) times the fees paid in the twelve (12) months preceding the claim.",
+    { capBasis: "FEES_PAID", capMultiplier: 2, capLookbackMonths: 12, excludesConsequentialDamages: true },
+  ],
+  [
+    "LIMITATION_OF_LIABILITY",
+    "a fixed cap",
+    "The Supplier's total liability under this Agreement is limited to $1.5 million.",
+    { capAmount: 1_500_000, capCurrency: "USD", capBasis: "FIXED", excludesConsequentialDamages: false },
+  ],
+  [
+    "INDEMNIFICATION",
+    "a mutual indemnity with a cap",
+    "Each party shall indemnify, defend and hold harmless the other party, provided that such obligation shall not exceed EUR 500,000.",
+    { mutual: true, capAmount: 500_000, capCurrency: "EUR" },
+  ],
+  [
+    "INDEMNIFICATION",
+    "a one-way indemnity",
+    "Vendor shall indemnify and defend Customer against any third-party claim.",
+    { mutual: false },
+  ],
+  [
+    "TERMINATION",
+    "notice, cure and convenience",
+    "Either party may terminate this Agreement for convenience upon thirty (30) days' written notice, or for a material breach that is not cured within fifteen (15) days.",
+    { noticePeriodDays: 30, curePeriodDays: 15, terminationForConvenience: true },
+  ],
+  [
+    "TERMINATION",
+    "a term and termination section with non-renewal notice",
+    "Term and Termination. This Agreement renews for successive one-year terms unless a party gives sixty (60) days' notice of non-renewal before the end of the then-current term. Either party may terminate this Agreement upon thirty (30) days' written notice.",
+    { noticePeriodDays: 30, terminationForConvenience: false },
+  ],
+  [
+    "GOVERNING_LAW",
+    "a state's laws",
+    "This Agreement shall be governed by the laws of the State of New York, without regard to its conflict of laws principles.",
+    { jurisdiction: "New York" },
+  ],
+  [
+    "DISPUTE_RESOLUTION",
+    "seated arbitration",
+    "Any dispute shall be finally resolved by binding arbitration seated in London.",
+    { mechanism: "ARBITRATION", venue: "London" },
+  ],
+  [
+    "DISPUTE_RESOLUTION",
+    "courts of a place",
+    "The parties submit to the exclusive jurisdiction of the courts of Delaware.",
+    { mechanism: "LITIGATION", venue: "Delaware" },
+  ],
+  [
+    "ASSIGNMENT",
+    "a mutual restriction",
+    "Neither party may assign this Agreement without the prior written consent of the other party.",
+    { consentRequired: true, mutual: true },
+  ],
+  [
+    "ASSIGNMENT",
+    "a one-way free assignment",
+    "Licensor may assign this Agreement to any affiliate.",
+    { consentRequired: false, mutual: false },
+  ],
+  [
+    "CHANGE_OF_CONTROL",
+    "consent and a termination right",
+    "Upon a change of control of Customer, Supplier may terminate this Agreement unless it has given its consent of the other party in writing.",
+    { consentRequired: true, terminationRight: true },
+  ],
+  [
+    "AUTO_RENEWAL",
+    "initial and renewal terms",
+    "The initial term is two (2) years, after which this Agreement renews automatically for successive twelve (12) month periods unless either party gives ninety (90) days' notice prior to renewal.",
+    { initialTermMonths: 24, renewalTermMonths: 12, noticePeriodDays: 90 },
+  ],
+  [
+    "NON_COMPETE",
+    "a duration and territory",
+    "For a period of eighteen (18) months, Employee shall not compete within a fifty-mile radius of any Company office.",
+    { durationMonths: 18, territory: "a fifty-mile radius of any Company office" },
+  ],
+  [
+    "NON_SOLICITATION",
+    "a duration",
+    "For one year after termination, Contractor shall not solicit any employee of the Company.",
+    { durationMonths: 12 },
+  ],
+  [
+    "CONFIDENTIALITY",
+    "a mutual obligation that survives",
+    "The obligations of each party under this Section survive for a period of three (3) years after termination.",
+    { mutual: true, durationMonths: 36 },
+  ],
+  [
+    "PAYMENT_TERMS",
+    "net terms",
+    "All invoices are payable net 45.",
+    { paymentDays: 45 },
+  ],
+  [
+    "PAYMENT_TERMS",
+    "days from invoice",
+    "Customer shall pay each invoice within thirty (30) days of receipt.",
+    { paymentDays: 30 },
+  ],
+  [
+    "WARRANTY",
+    "a warranty period",
+    "Supplier warrants the Deliverables for a period of six (6) months following acceptance.",
+    { warrantyPeriodMonths: 6 },
+  ],
+  [
+    "INSURANCE",
+    "a coverage amount",
+    "Contractor shall maintain general liability insurance of at least $2,000,000 per occurrence.",
+    { coverageAmount: 2_000_000 },
+  ],
+];
+
+describe("Clause attribute extraction", () => {
+  it.each(CASES)("%s: %s", (type, _description, text, expected) => {
+    expect(extractAttributes(type, text)).toEqual(expected);
+  });
+
+  it("leaves clause types without attributes empty", () => {
+    expect(extractAttributes("FORCE_MAJEURE", "Neither party is liable for delays caused by events beyond its control.")).toEqual({});
+  });
+});
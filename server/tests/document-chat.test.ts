@@ -0,0 +1,129 @@
+import { chatConversations, chatMessages, documents, type ChatConversation } from "@shared/schema";
+import { row, useProxyDb } from "./helpers/proxyDb";
+import { chunkParagraphs, documentChatService, extractCitations, type ChatSource } from "../services/documentChatService";
+import { createEmbedding } from "../services/embedding-service";
+import { modelRouter } from "../services/modelRouter";
+
+jest.mock("../db", () => jest.requireActual("./helpers/proxyDb").mockDbModule);
+jest.mock("../services/embedding-service", () => ({
+  cosineSimilarity: jest.fn(),
+  createBatchEmbeddings: jest.fn(),
+  createEmbedding: jest.fn(),
+}));
+jest.mock("../services/modelRouter", () => ({ modelRouter: { stream: jest.fn() } }));
+
+const stream = modelRouter.stream as jest.MockedFunction<typeof modelRouter.stream>;
+const embed = createEmbedding as jest.MockedFunction<typeof createEmbedding>;
+
+const lease: ChatSource = {
+  sourceType: "DOCUMENT",
+  sourceId: 4,
+  title: "Lease",
+  content: "Rent is due on the first day of each month.\n\n  \n\nThe tenant may not sublet the premises without consent.",
+};
+
+describe("Document chat", () => {
+  describe("chunkParagraphs", () => {
+    it("numbers paragraphs and keeps offsets into the source", () => {
+      const chunks = chunkParagraphs(lease);
+
+      expect(chunks.map(({ paragraph, text }) => [paragraph, text])).toEqual([
+        [1, "Rent is due on the first day of each month."],
+        [2, "The tenant may not sublet the premises without consent."],
+      ]);
+      for (const chunk of chunks) {
+        expect(lease.content.slice(chunk.start, chunk.end)).toBe(chunk.text);
+      }
+    });
+
+    it("splits a long paragraph at word boundaries under one paragraph number", () => {
+      const content = `${"word ".repeat(400).trim()}\n\nShort closing paragraph.`;
+
+      const chunks = chunkParagraphs({ ...lease, content });
+
+      expect(chunks.map((chunk) => chunk.paragraph)).toEqual([1, 1, 2]);
+      expect(chunks[0].text.endsWith("word")).toBe(true);
+      expect(chunks[0].text.length).toBeLessThanOrEqual(1500);
+    });
+  });
+
+  describe("extractCitations", () => {
+    const excerpts = chunkParagraphs(lease);
+
+    it("links markers to excerpts and locates verbatim quotes in the source", () => {
+      const citations = extractCitations('Rent is monthly [1]. The tenant "may not sublet the premises" [2].', excerpts);
+
+      expect(citations).toHaveLength(2);
+      expect(citations[0]).toMatchObject({ ref: 1, sourceId: 4, paragraph: 1 });
+      const { quote } = citations[1];
+      expect(quote?.text).toBe("may not sublet the premises");
+      expect(lease.content.slice(quote!.start, quote!.end)).toBe(quote!.text);
+    });
+
+    it("drops markers without an excerpt and quotes that are not in the documents", () => {
+      const citations = extractCitations('Per [7], the landlord "must repaint every year" [1].', excerpts);
+
+      expect(citations).toEqual([expect.objectContaining({ ref: 1 })]);
+      expect(citations[0].quote).toBeUndefined();
+    });
+  });
+
+  describe("ask", () => {
+    const conversation = { id: 11, userId: 2, documentId: 4, vaultDocumentIds: [], title: null } as unknown as ChatConversation;
+
+    beforeEach(() => {
+      stream.mockReset().mockImplementation(async (_request, onToken) => {
+        onToken("Due monthly [1].");
+        return { text: "Due monthly [1].", model: "mock", provider: "anthropic", usage: { inputTokens: 1, outputTokens: 1 } };
+      });
+      embed.mockReset().mockRejectedValue(new Error("Embeddings unavailable"));
+    });
+
+    function chatDb(content: string) {
+      return useProxyDb(({ sql }) => {
+        if (sql.includes('from "chat_messages"')) {
+          return [
+            row(chatMessages, { id: 1, conversationId: 11, role: "user", content: "Who pays?" }),
+            row(chatMessages, { id: 2, conversationId: 11, role: "assistant", content: "The tenant [1]." }),
+          ];
+        }
+        if (sql.includes('from "documents"')) return [row(documents, { id: 4, title: "Lease", content })];
+        if (sql.startsWith('insert into "chat_messages"')) {
+          return [
+            row(chatMessages, { id: 3, conversationId: 11, role: "user" }),
+            row(chatMessages, { id: 4, conversationId: 11, role: "assistant", content: "Due monthly [1]." }),
+          ];
+        }
+        if (sql.startsWith('update "chat_conversations"')) return [row(chatConversations, { id: 11 })];
+        return [];
+      }).queries;
+    }
+
+    it("replays the history, streams tokens and stores the question with its answer", async () => {
+      const queries = chatDb(lease.content);
+      const tokens: string[] = [];
+
+      const answer = await documentChatService.ask(conversation, "When is rent due?", (token) => tokens.push(token));
+
+      expect(tokens).toEqual(["Due monthly [1]."]);
+      const [request] = stream.mock.calls[0];
+      expect(request.messages.map((message) => message.role)).toEqual(["user", "assistant", "user"]);
+      expect(request.messages[2].content).toContain("[1] Lease, paragraph 1\nRent is due");
+
+      const insert = queries.find((query) => query.sql.startsWith('insert into "chat_messages"'))!;
+      expect(insert.params).toEqual(expect.arrayContaining([11, "user", "When is rent due?", "assistant", "Due monthly [1]."]));
+      expect(answer.message.id).toBe(4);
+      expect(answer.citations).toEqual([expect.objectContaining({ ref: 1, paragraph: 1 })]);
+    });
+
+    it("falls back to keyword overlap when embeddings are unavailable", async () => {
+      const filler = Array.from({ length: 8 }, (_, index) => `Schedule ${index} lists the fixtures in room ${index}.`);
+      chatDb([...filler, "The security deposit is returned within thirty days."].join("\n\n"));
+
+      await documentChatService.ask(conversation, "When is the security deposit returned?");
+
+      const [request] = stream.mock.calls[0];
+      expect(request.messages[2].content).toMatch(/^Excerpts:\n\n\[1\] Lease, paragraph 9\nThe security deposit/);
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import type { Request, Response, NextFunction } from "express";
+import type { TenantContext } from "../../services/organizationService";
+
+const PERSONAL_SPACE: TenantContext = { organizationId: null, organizationRole: null, matterId: null };
+
+// A signed-in user as passport deserializes it
+export function testUser(values: Partial<Express.User> = {}): Express.User {
+  const id = values.id ?? 1;
+  return {
+    id,
+    username: `user${id}`,
+    email: `user${id}@example.com`,
+    password: "",
+    role: "LAWYER",
+    firstName: null,
+    lastName: null,
+    profileImage: null,
+    createdAt: null,
+    updatedAt: null,
+    subscriptionStatus: "ACTIVE",
+    subscriptionEndsAt: null,
+    trialUsed: false,
+    lastUploadDate: null,
+    uploadCount: 0,
+    stripeCustomerId: null,
+    stripePriceId: null,
+    trialUsesRemaining: 0,
+    trialFeatures: null,
+    ...values,
+  };
+}
+
+// Middleware standing in for the session and tenant middleware in route tests
+export function signedInAs(user: Express.User, tenant: TenantContext = PERSONAL_SPACE) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    req.user = user;
+    req.isAuthenticated = function (this: Request): this is Express.AuthenticatedRequest {
+      return true;
+    };
+    res.locals.tenant = tenant;
+    next();
+  };
+}
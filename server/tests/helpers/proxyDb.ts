@@ -0,0 +1,79 @@
+import { drizzle } from "drizzle-orm/pg-proxy";
+import { getTableColumns, type InferSelectModel, type Table } from "drizzle-orm";
+import * as schema from "@shared/schema";
+import type { db as appDb } from "../../db";
+
+export interface RecordedQuery {
+  sql: string;
+  params: unknown[];
+  method: string;
+}
+
+// Rows are keyed by column name, e.g. { id: 1, user_id: 2 }
+export type Row = Record<string, unknown>;
+export type Responder = (query: RecordedQuery) => Row[];
+
+// The app's database type. Both are pg-core databases, so services accept the
+// proxy wherever they take the database or a transaction.
+export type TestDb = typeof appDb;
+
+// Column names in the order a select or returning clause lists them
+function selectedColumns(sql: string): string[] {
+  const list = sql.match(/^select (?:distinct )?([\s\S]*?) from /i)?.[1] ?? sql.match(/ returning ([\s\S]*)$/i)?.[1];
+  if (!list) return [];
+  return list.split(/, (?![^(]*\))/).map((column) => {
+    const names = column.match(/"([^"]+)"/g);
+    return names ? names[names.length - 1].slice(1, -1) : column.trim();
+  });
+}
+
+// A drizzle database that answers from a callback instead of Postgres and
+// records every query, so services can be exercised without a database
+export function proxyDb(respond: Responder = () => []): { db: TestDb; queries: RecordedQuery[] } {
+  const queries: RecordedQuery[] = [];
+  const db = drizzle(async (sql, params, method) => {
+    const query = { sql, params, method };
+    queries.push(query);
+    const rows = respond(query);
+    if (method === "execute") return { rows };
+    const columns = selectedColumns(sql);
+    return { rows: rows.map((row) => columns.map((column) => row[column] ?? null)) };
+  }, { schema });
+
+  // Transactions run on the same recorder
+  const transaction = async <T>(callback: (tx: typeof db) => Promise<T>) => callback(db);
+  return { db: Object.assign(db, { transaction }) as unknown as TestDb, queries };
+}
+
+// A row of `table` as the driver returns it, written with the schema's field
+// names so fixtures are checked against the table:
+// row(signatures, { envelopeId: 5 }) gives { envelope_id: 5 }
+export function row<T extends Table>(table: T, values: Partial<InferSelectModel<T>>): Row {
+  const columns = getTableColumns(table) as Record<string, { name: string; withTimezone?: boolean }>;
+  return Object.fromEntries(Object.entries(values).map(([field, value]: [string, unknown]) => {
+    const column = columns[field];
+    // Timestamps without a time zone come back as bare UTC strings
+    const driverValue = value instanceof Date && !column.withTimezone ? value.toISOString().replace("Z", "") : value;
+    return [column.name, driverValue];
+  }));
+}
+
+const installed: { db: TestDb | null } = { db: null };
+
+// Stands in for server/db in tests that exercise services against the proxy:
+//   jest.mock("../../db", () => jest.requireActual("../../tests/helpers/proxyDb").mockDbModule);
+// Each test then installs a fresh proxy with useProxyDb().
+export const mockDbModule = {
+  get db(): TestDb {
+    if (!installed.db) {
+      throw new Error("Call useProxyDb() before the code under test touches the database");
+    }
+    return installed.db;
+  },
+};
+
+export function useProxyDb(respond?: Responder): { db: TestDb; queries: RecordedQuery[] } {
+  const proxy = proxyDb(respond);
+  installed.db = proxy.db;
+  return proxy;
+}
@@ -0,0 +1,107 @@
+import { documents, negotiationPlaybooks, type ExtractedClause, type PlaybookRule } from "@shared/schema";
+import { row, useProxyDb } from "./helpers/proxyDb";
+import { extractClauses } from "../services/clauses";
+import { clauseExtractionService } from "../services/clauseExtractionService";
+import { clauseLibraryService } from "../services/clauseLibraryService";
+import { playbookService } from "../services/playbookService";
+
+jest.mock("../db", () => jest.requireActual("./helpers/proxyDb").mockDbModule);
+jest.mock("../services/jobQueue", () => ({ jobQueue: { register: jest.fn(), enqueue: jest.fn() } }));
+
+const extract = jest.spyOn(clauseExtractionService, "extract");
+const fallbackFor = jest.spyOn(clauseLibraryService, "fallbackFor");
+
+const lawyer = { id: 2, role: "LAWYER" };
+const firm = { organizationId: 3, organizationRole: "MEMBER" as const, matterId: null };
+
+const FEES_CAP = "Each party's aggregate liability shall not exceed the fees paid in the twelve (12) months preceding the claim.";
+
+const CAP_RULE: PlaybookRule = {
+  clauseType: "LIMITATION_OF_LIABILITY",
+  presence: "REQUIRED",
+  severity: "HIGH",
+  preferred: [{ attribute: "capBasis", operator: "EQUALS", value: "FEES_PAID" }],
+};
+
+// Reviews `text` against a playbook of `rules`, extracting clauses the way
+// clause extraction does and taking fallbacks from one library clause
+async function review(text: string, rules: PlaybookRule[]) {
+  useProxyDb(({ sql }) => {
+    if (sql.includes('from "negotiation_playbooks"')) {
+      return [row(negotiationPlaybooks, { id: 4, organizationId: 3, name: "MSA (Customer)", contractType: "MSA", perspective: "Customer", rules, status: "ACTIVE" })];
+    }
+    if (sql.includes('from "documents"')) return [row(documents, { content: text })];
+    return [];
+  });
+  const clauses = extractClauses(text).map(({ matchedBy: _matchedBy, ...clause }, index): ExtractedClause => ({
+    ...clause, id: index + 1, extractionId: 9, documentId: 8, versionId: null, createdAt: null,
+  }));
+  extract.mockResolvedValue({ extraction: { id: 9, versionId: null }, clauses } as Awaited<ReturnType<typeof clauseExtractionService.extract>>);
+  return await playbookService.review(lawyer, firm, 4, 8);
+}
+
+describe("Playbook review", () => {
+  beforeEach(() => {
+    fallbackFor.mockReset().mockResolvedValue({
+      id: 12,
+      positions: [
+        { id: 1, position: "PREFERRED", text: FEES_CAP },
+        { id: 2, position: "ACCEPTABLE", text: "Liability is capped at two times the fees paid." },
+      ],
+    } as Awaited<ReturnType<typeof clauseLibraryService.fallbackFor>>);
+  });
+
+  it("keeps a subsection's number when replacing it under its parent's heading", async () => {
+    const text = [
+      "9. Limitation of Liability",
+      "9.1 Each party's aggregate liability shall not exceed $10,000.",
+      "",
+      "10. Governing Law",
+      "This Agreement is governed by the laws of the State of New York.",
+    ].join("\n");
+
+    const result = await review(text, [CAP_RULE]);
+
+    expect(result.findings[0]).toMatchObject({ status: "BEYOND_WALK_AWAY", clause: { heading: "Limitation of Liability" } });
+    expect(result.proposedText).toBe(text.replace("Each party's aggregate liability shall not exceed $10,000.", FEES_CAP));
+  });
+
+  it("keeps an inline number and heading when replacing the clause", async () => {
+    const text = "1. Services. Supplier provides the services.\n2. Limitation of Liability. Liability is limited to $10,000.\n";
+
+    const result = await review(text, [CAP_RULE]);
+
+    expect(result.proposedText).toBe(`1. Services. Supplier provides the services.\n2. Limitation of Liability. ${FEES_CAP}\n`);
+    expect(result.redline.summary.additions).toBeGreaterThan(0);
+  });
+
+  it("adds a missing required clause at the end and deletes a prohibited one", async () => {
+    const text = [
+      "1. Services. Supplier provides the services.",
+      "2. Non-Competition. Customer shall not compete with Supplier for two (2) years.",
+    ].join("\n");
+
+    const result = await review(text, [CAP_RULE, { clauseType: "NON_COMPETE", presence: "PROHIBITED", severity: "CRITICAL", preferred: [] }]);
+
+    expect(result.findings.map((finding) => [finding.clauseType, finding.status, finding.proposal?.action])).toEqual([
+      ["LIMITATION_OF_LIABILITY", "MISSING", "INSERT"],
+      ["NON_COMPETE", "PROHIBITED", "DELETE"],
+    ]);
+    expect(result.proposedText).toBe(`1. Services. Supplier provides the services.\n\nLIMITATION OF LIABILITY\n${FEES_CAP}\n`);
+    expect(result.summary).toMatchObject({ deviations: 2, highestSeverity: "CRITICAL" });
+  });
+
+  it("only flags acceptable terms and rates them no higher than low", async () => {
+    const text = "2. Limitation of Liability. Liability is limited to two (2) times the fees paid under this Agreement.";
+
+    const result = await review(text, [{
+      ...CAP_RULE,
+      preferred: [{ attribute: "capMultiplier", operator: "AT_MOST", value: 1 }],
+      acceptable: [{ attribute: "capMultiplier", operator: "AT_MOST", value: 2 }],
+    }]);
+
+    expect(result.findings[0]).toMatchObject({ status: "ACCEPTABLE", severity: "LOW", failed: [{ actual: 2 }] });
+    expect(result.findings[0].proposal).toMatchObject({ action: "REPLACE", language: null });
+    expect(result.proposedText).toBe(text);
+  });
+});
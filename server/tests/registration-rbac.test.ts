@@ -0,0 +1,49 @@
+import express from "express";
+import request from "supertest";
+import { users, type User } from "@shared/schema";
+import { row, useProxyDb } from "./helpers/proxyDb";
+import { setupAuth } from "../auth";
+import { rbacMiddleware } from "../middleware/rbac";
+
+jest.mock("../db", () => jest.requireActual("./helpers/proxyDb").mockDbModule);
+
+const app = express();
+app.use(express.json());
+setupAuth(app);
+app.use("/api", rbacMiddleware());
+app.get("/api/vault/stats", (_req, res) => res.json({ documents: 0 }));
+app.post("/api/vault/upload", (_req, res) => res.status(201).json({}));
+
+// Keeps the one registered account so login and session lookups find it
+function accountsDb() {
+  let account: User | undefined;
+  const { queries } = useProxyDb(({ sql, params }) => {
+    if (sql.startsWith('insert into "users"')) {
+      const [username, email, password, role] = params as string[];
+      account = { id: 21, username, email, password, role } as User;
+      return [row(users, account)];
+    }
+    if (sql.startsWith("select") && sql.includes('from "users"')) {
+      return account ? [row(users, account)] : [];
+    }
+    return [];
+  });
+  return queries;
+}
+
+describe("Registration and RBAC", () => {
+  it("gives a newly registered account a role RBAC recognises", async () => {
+    const queries = accountsDb();
+    const agent = request.agent(app);
+
+    await agent.post("/api/auth/register").send({ username: "dana", password: "s3cret-pass", email: "dana@example.com" }).expect(201);
+    const login = await agent.post("/api/auth/login").send({ username: "dana", password: "s3cret-pass" }).expect(200);
+
+    expect(login.body.user.role).toBe("CLIENT");
+    const insert = queries.find((query) => query.sql.startsWith('insert into "users"'))!;
+    expect(insert.params).toContain("CLIENT");
+
+    await agent.get("/api/vault/stats").expect(200);
+    await agent.post("/api/vault/upload").expect(403);
+  });
+});
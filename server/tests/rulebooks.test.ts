@@ -0,0 +1,86 @@
+import {
+  applicableRules,
+  findMissingClauses,
+  findProhibitedClauses,
+  getRulebook,
+  listRulebooks,
+  resolveRulebooks,
+  unknownRulebooks,
+} from "../services/rulebooks";
+
+const gdpr = getRulebook("GDPR")!;
+
+const ruleIds = (rules: Array<{ rule: { id: string } }>) => rules.map(({ rule }) => rule.id);
+
+// Covers every GDPR processor clause, with no international transfer
+const COMPLETE_DPA = [
+  "The processor shall process personal data only on documented instructions from the controller.",
+  "All personnel authorised to process the data are bound by confidentiality obligations.",
+  "The processor implements appropriate technical and organisational measures.",
+  "The processor shall notify the controller of any personal data breach without undue delay.",
+  "At the end of the services the processor shall delete or return all personal data.",
+].join("\n");
+
+describe("Regulatory rulebooks", () => {
+  it("ships versioned rulebooks whose rule ids are unique and patterns compile", () => {
+    const rulebooks = listRulebooks();
+
+    expect(rulebooks.map((rulebook) => rulebook.id).sort()).toEqual(["CCPA", "GDPR", "HIPAA", "SOX"]);
+    for (const rulebook of rulebooks) {
+      expect(rulebook.version).toMatch(/\S/);
+      const ids = rulebook.rules.map((rule) => rule.id);
+      expect(new Set(ids).size).toBe(ids.length);
+      const patterns = rulebook.scope.concat(rulebook.rules.flatMap((rule) => [
+        ...(rule.triggers ?? []), ...(rule.required ?? []), ...(rule.prohibited ?? []),
+      ]));
+      for (const pattern of patterns) {
+        expect(() => new RegExp(pattern.pattern, pattern.flags ?? "i")).not.toThrow();
+      }
+    }
+  });
+
+  it("resolves selections case-insensitively and reports unknown ids", () => {
+    expect(resolveRulebooks(["gdpr", "sox"]).map((rulebook) => rulebook.id)).toEqual(["GDPR", "SOX"]);
+    expect(resolveRulebooks([])).toEqual(listRulebooks());
+    expect(resolveRulebooks(null)).toEqual(listRulebooks());
+    expect(unknownRulebooks(["HIPAA", "PCI"])).toEqual(["PCI"]);
+  });
+
+  it("raises nothing for a document outside a rulebook's scope", () => {
+    expect(applicableRules([gdpr], "The contractor shall paint the warehouse by June.")).toEqual([]);
+  });
+
+  it("only checks triggered rules when their trigger matches", () => {
+    const domestic = ruleIds(applicableRules([gdpr], COMPLETE_DPA));
+    const transfer = ruleIds(applicableRules([gdpr], `${COMPLETE_DPA}\nPersonal data may be transferred to a third country.`));
+
+    expect(domestic).not.toContain("GDPR-46");
+    expect(transfer).toContain("GDPR-46");
+  });
+
+  it("reports each rule whose required clauses are missing from the document", () => {
+    expect(findMissingClauses(applicableRules([gdpr], COMPLETE_DPA), COMPLETE_DPA)).toEqual([]);
+
+    const content = "The processor handles personal data for the controller.";
+    const findings = findMissingClauses(applicableRules([gdpr], content), content);
+
+    expect(ruleIds(findings)).toEqual(["GDPR-28-3-A", "GDPR-28-3-B", "GDPR-32", "GDPR-33", "GDPR-28-3-G"]);
+    expect(findings[0]).toMatchObject({
+      clause: "Document-wide",
+      detectionMethod: "PATTERN",
+      description: "Processing on documented instructions: no clause found covering documented instructions.",
+    });
+  });
+
+  it("quotes the prohibited wording found in a section", () => {
+    const section = { title: "Retention", content: "The processor may retain personal data indefinitely for analytics." };
+
+    const findings = findProhibitedClauses(applicableRules([gdpr], section.content), section);
+
+    expect(findings).toEqual([expect.objectContaining({
+      clause: "Retention",
+      description: 'Storage limitation: prohibited indefinite retention ("retain personal data indefinitely").',
+    })]);
+    expect(findings[0].rule.id).toBe("GDPR-5-1-E");
+  });
+});
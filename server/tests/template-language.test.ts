@@ -0,0 +1,165 @@
+import type { TemplateVariable } from "@shared/schema";
+import { checkTemplate, inferVariables, parseTemplate, renderTemplate, TemplateSyntaxError, TemplateValueError } from "../services/templates";
+
+const variable = (name: string, type: TemplateVariable["type"], extra: Partial<TemplateVariable> = {}): TemplateVariable => ({
+  name, description: "", required: true, type, ...extra,
+});
+
+const VARIABLES: TemplateVariable[] = [
+  variable("CLIENT", "party"),
+  variable("EFFECTIVE_DATE", "date"),
+  variable("FEE", "currency", { min: 0 }),
+  variable("TERM_MONTHS", "number", { min: 1, max: 60 }),
+  variable("GOVERNING_STATE", "jurisdiction"),
+  variable("RENEWS", "boolean"),
+  variable("TIER", "enum", { options: ["Standard", "Premium"] }),
+  variable("SIGNATORIES", "list", {
+    minItems: 1,
+    fields: [variable("NAME", "text"), variable("TITLE", "text", { required: false })],
+  }),
+];
+
+const CONTENT = [
+  "Agreement with [CLIENT] ([CLIENT.ADDRESS]), effective [EFFECTIVE_DATE].",
+  "Fee: [FEE] for [TERM_MONTHS] months, governed by the laws of [GOVERNING_STATE].",
+  "[#IF RENEWS]",
+  "Renews automatically.",
+  "[#ELSE]",
+  "Ends at the end of the term.",
+  "[/IF]",
+  '[#IF GOVERNING_STATE IN ("CA", "NY") AND TIER == "premium"]',
+  "State-specific premium terms apply.",
+  "[/IF]",
+  "[#EACH SIGNATORIES]",
+  "[INDEX]. [NAME][#IF TITLE], [TITLE][/IF]",
+  "[/EACH]",
+  "[Signature]",
+].join("\n");
+
+const VALUES = {
+  client: { name: "Acme Corp", address: "1 Main St" },
+  effectiveDate: "2025-03-01",
+  fee: "$12,500",
+  termMonths: "24",
+  governingState: "california",
+  renews: "yes",
+  tier: "PREMIUM",
+  signatories: [{ name: "Dana Reyes", title: "CEO" }, { name: "Sam Lee" }],
+};
+
+describe("Template language", () => {
+  describe("rendering", () => {
+    it("formats typed values and renders IF and EACH blocks", () => {
+      const { content, problems } = renderTemplate(CONTENT, VARIABLES, VALUES);
+
+      expect(problems).toEqual([]);
+      expect(content).toBe([
+        "Agreement with Acme Corp (1 Main St), effective March 1, 2025.",
+        "Fee: $12,500.00 for 24 months, governed by the laws of California.",
+        "Renews automatically.",
+        "State-specific premium terms apply.",
+        "1. Dana Reyes, CEO",
+        "2. Sam Lee",
+        "[Signature]",
+      ].join("\n"));
+    });
+
+    it("takes the ELSE branch and leaves out sections whose condition fails", () => {
+      const { content } = renderTemplate(CONTENT, VARIABLES, { ...VALUES, renews: false, governingState: "TX" });
+
+      expect(content).toContain("Ends at the end of the term.");
+      expect(content).not.toContain("Renews automatically.");
+      expect(content).not.toContain("premium terms");
+    });
+
+    it("only requires variables in the sections that are kept", () => {
+      const content = "[#IF RENEWS]Renewal notice: [NOTICE_DAYS] days.[/IF]";
+      const variables = [variable("RENEWS", "boolean"), variable("NOTICE_DAYS", "number")];
+
+      expect(renderTemplate(content, variables, { renews: false }).content).toBe("");
+      expect(() => renderTemplate(content, variables, { renews: true })).toThrow("NOTICE_DAYS is required");
+    });
+
+    it("is deterministic", () => {
+      expect(renderTemplate(CONTENT, VARIABLES, VALUES).content).toBe(renderTemplate(CONTENT, VARIABLES, VALUES).content);
+    });
+  });
+
+  describe("typed variables", () => {
+    it("reports every invalid value, naming list entries by position", () => {
+      const error = (() => {
+        try {
+          renderTemplate(CONTENT, VARIABLES, {
+            ...VALUES,
+            effectiveDate: "2025-02-30",
+            fee: "-5",
+            termMonths: "ninety",
+            renews: "maybe",
+            tier: "Gold",
+            signatories: [{ title: "CFO" }],
+          });
+        } catch (thrown) {
+          return thrown;
+        }
+      })();
+
+      expect(error).toBeInstanceOf(TemplateValueError);
+      expect((error as TemplateValueError).problems).toEqual([
+        { variable: "EFFECTIVE_DATE", message: "must be a date in YYYY-MM-DD form" },
+        { variable: "FEE", message: "must be at least 0" },
+        { variable: "TERM_MONTHS", message: "must be a number" },
+        { variable: "RENEWS", message: "must be true or false" },
+        { variable: "TIER", message: "must be one of Standard, Premium" },
+        { variable: "SIGNATORIES[1].NAME", message: "is required", missing: true },
+      ]);
+    });
+
+    it("enforces list sizes and numeric bounds", () => {
+      const { problems } = renderTemplate(CONTENT, VARIABLES, { ...VALUES, termMonths: 61, signatories: [] }, { partial: true });
+
+      expect(problems).toEqual(expect.arrayContaining([
+        { variable: "TERM_MONTHS", message: "must be at most 60" },
+        { variable: "SIGNATORIES", message: "is required", missing: true },
+      ]));
+    });
+
+    it("leaves unfilled placeholders in place for previews", () => {
+      const { content, problems } = renderTemplate("Agreement with [CLIENT], fee [FEE].", VARIABLES, { fee: 100 }, { partial: true });
+
+      expect(content).toBe("Agreement with [CLIENT], fee $100.00.");
+      expect(problems).toEqual([{ variable: "CLIENT", message: "is required", missing: true }]);
+    });
+  });
+
+  describe("checking templates", () => {
+    it("infers variable types from how the content uses them", () => {
+      const inferred = inferVariables("[#IF RENEWS][#IF TERM_MONTHS > 12][CLIENT.NAME][/IF][/IF][#EACH ITEMS][LABEL][/EACH]");
+
+      expect(inferred.map(({ name, type }) => [name, type])).toEqual([
+        ["RENEWS", "boolean"],
+        ["TERM_MONTHS", "number"],
+        ["CLIENT", "party"],
+        ["ITEMS", "list"],
+      ]);
+      expect(inferred[3].fields?.map((field) => field.name)).toEqual(["LABEL"]);
+    });
+
+    it("reports misused variables", () => {
+      expect(checkTemplate("[SIGNATORIES] [FEE.NAME] [#EACH FEE][X][/EACH]", VARIABLES)).toEqual([
+        "SIGNATORIES is a list; use it in [#EACH SIGNATORIES]",
+        "FEE.NAME reads a field of FEE, which is a currency",
+        "[#EACH FEE] needs FEE to be a list variable",
+      ]);
+    });
+
+    it.each([
+      ["[#IF RENEWS]Renews.", "[#IF] is never closed with [/IF]"],
+      ["Renews.[/IF]", "[/IF] without a matching [#IF]"],
+      ["[#EACH ITEMS][LABEL]", "[#EACH ITEMS] is never closed with [/EACH]"],
+      ['[#IF TIER == ]x[/IF]', 'Expected a quoted value, number, true or false in condition "TIER =="'],
+    ])("rejects malformed blocks: %s", (content, message) => {
+      expect(() => parseTemplate(content)).toThrow(new TemplateSyntaxError(message, 0));
+      expect(checkTemplate(content, [])).toEqual([message]);
+    });
+  });
+});
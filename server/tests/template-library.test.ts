@@ -0,0 +1,163 @@
+import {
+  contractTemplates,
+  contractTemplateVersions,
+  type ContractTemplate,
+  type ContractTemplateVersion,
+} from "@shared/schema";
+import { row, useProxyDb, type RecordedQuery } from "./helpers/proxyDb";
+import { templateLibraryService, TemplateLibraryError, type TemplateDefinition } from "../services/templateLibraryService";
+
+jest.mock("../db", () => jest.requireActual("./helpers/proxyDb").mockDbModule);
+
+const lawyer = { id: 2, role: "LAWYER" };
+const client = { id: 5, role: "CLIENT" };
+const firm = { organizationId: 3, organizationRole: "MEMBER" as const, matterId: null };
+
+const metadata = { variables: [{ name: "CLIENT_NAME", description: "", required: true, type: "text" as const }] };
+
+// Firm template 6 is at version 2 and publishes version 1
+const template: Partial<ContractTemplate> = {
+  id: 6,
+  key: "nda",
+  organizationId: 3,
+  name: "NDA",
+  description: "Mutual NDA",
+  category: "Confidentiality",
+  content: "This agreement is with [CLIENT_NAME].",
+  metadata,
+  status: "PUBLISHED",
+  latestVersion: 2,
+  publishedVersionId: 31,
+  updatedBy: 2,
+};
+
+const versions: Array<Partial<ContractTemplateVersion>> = [
+  { id: 32, templateId: 6, version: 2, content: "This agreement is made with [CLIENT_NAME].", metadata, publishedAt: null },
+  { id: 31, templateId: 6, version: 1, content: template.content, metadata, publishedAt: new Date("2025-01-10T00:00:00Z"), publishedBy: 2 },
+];
+
+// `version` narrows version lookups to the one being published
+function libraryDb(values: Partial<ContractTemplate> = template, version?: number, stored = versions) {
+  return useProxyDb(({ sql }) => {
+    if (sql.startsWith("select") && sql.includes('from "contract_templates"')) return [row(contractTemplates, values)];
+    if (sql.startsWith("select") && sql.includes('from "contract_template_versions"')) {
+      const matching = version === undefined ? stored : stored.filter((candidate) => candidate.version === version);
+      return matching.map((candidate) => row(contractTemplateVersions, candidate));
+    }
+    if (sql.startsWith('insert into "contract_template_versions"')) {
+      return [row(contractTemplateVersions, { id: 33, templateId: 6, version: 3 })];
+    }
+    if (sql.startsWith('update "contract_template_versions"')) {
+      return [row(contractTemplateVersions, { ...stored.find((candidate) => candidate.version === version), publishedAt: new Date() })];
+    }
+    if (sql.startsWith('update "contract_templates"')) return [row(contractTemplates, { ...values, latestVersion: version ?? values.latestVersion })];
+    return [];
+  }).queries;
+}
+
+const updates = (queries: RecordedQuery[], table: string) => queries.filter((query) => query.sql.startsWith(`update "${table}"`));
+
+describe("Template library versions", () => {
+  it("saves an edit as the next draft version without changing what is published", async () => {
+    const queries = libraryDb();
+
+    await templateLibraryService.update(lawyer, firm, 6, { content: "This agreement is entered into with [CLIENT_NAME].", changeNote: "Wording" });
+
+    const insert = queries.find((query) => query.sql.startsWith('insert into "contract_template_versions"'))!;
+    expect(insert.params).toEqual(expect.arrayContaining([6, 3, "This agreement is entered into with [CLIENT_NAME].", "Wording", 2]));
+    const [saved] = updates(queries, "contract_templates");
+    expect(saved.sql).toContain('"latest_version" = $');
+    expect(saved.sql).not.toContain("published_version_id");
+    expect(saved.sql).not.toContain('"status"');
+  });
+
+  it("rejects an edit based on a version that is no longer the latest", async () => {
+    const queries = libraryDb();
+
+    const error = await templateLibraryService.update(lawyer, firm, 6, { content: "Stale", baseVersion: 1 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TemplateLibraryError);
+    expect(error).toMatchObject({ statusCode: 409, code: "VERSION_CONFLICT", message: "Template is at version 2, reload and try again" });
+    expect(queries.some((query) => query.sql.startsWith("insert"))).toBe(false);
+  });
+
+  it("rejects an edit that breaks the template language", async () => {
+    const queries = libraryDb();
+
+    await expect(templateLibraryService.update(lawyer, firm, 6, { content: "[#IF RENEWS] Renews." }))
+      .rejects.toMatchObject({ statusCode: 400, code: "INVALID_TEMPLATE", message: "[#IF] is never closed with [/IF]" });
+    expect(queries.some((query) => query.sql.startsWith("insert"))).toBe(false);
+  });
+
+  it("publishes the latest draft and stamps who published it", async () => {
+    const queries = libraryDb(template, 2);
+
+    await templateLibraryService.publish(lawyer, firm, 6);
+
+    const [stamped] = updates(queries, "contract_template_versions");
+    expect(stamped.sql).toContain('"published_at" = $1, "published_by" = $2');
+    expect(stamped.params).toEqual([expect.any(String), 2, 32]);
+    const [pointer] = updates(queries, "contract_templates");
+    expect(pointer.params).toEqual(expect.arrayContaining(["PUBLISHED", 32, 6]));
+  });
+
+  it("rolls back by republishing an earlier version as it was", async () => {
+    const queries = libraryDb({ ...template, publishedVersionId: 32 }, 1);
+
+    await templateLibraryService.publish(lawyer, firm, 6, 1);
+
+    expect(updates(queries, "contract_template_versions")).toHaveLength(0);
+    const [pointer] = updates(queries, "contract_templates");
+    expect(pointer.params).toEqual(expect.arrayContaining(["PUBLISHED", 31, 6]));
+  });
+
+  it("keeps drafts from clients", async () => {
+    const queries = libraryDb();
+
+    const seen = await templateLibraryService.get(client, firm, 6);
+
+    const load = queries.find((query) => query.sql.includes('from "contract_templates"'))!;
+    expect(load.sql).toContain('"contract_templates"."status" = $');
+    expect(load.params).toContain("PUBLISHED");
+    expect(seen.versions.map((version) => [version.version, version.isPublished])).toEqual([[1, true]]);
+    await expect(templateLibraryService.getVersion(client, firm, 6, 2)).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it("lets only administrators change the shared library", async () => {
+    libraryDb({ ...template, organizationId: null });
+
+    await expect(templateLibraryService.publish(lawyer, firm, 6)).rejects.toMatchObject({ statusCode: 403, code: "FORBIDDEN" });
+  });
+
+  describe("seeding built-ins", () => {
+    const builtIn: TemplateDefinition = {
+      key: "nda",
+      name: "NDA",
+      description: "Mutual NDA",
+      category: "Confidentiality",
+      content: "This agreement is made with [CLIENT_NAME].",
+      metadata,
+      publish: true,
+    };
+
+    it("records a new version when an untouched built-in's text changed", async () => {
+      const seeded = { id: 33, templateId: 6, version: 3, content: builtIn.content, metadata, publishedAt: null };
+      const queries = libraryDb({ ...template, organizationId: null, updatedBy: null }, 3, [seeded, ...versions]);
+
+      await expect(templateLibraryService.seedLibrary([builtIn])).resolves.toEqual({ created: 0, updated: 1 });
+
+      const insert = queries.find((query) => query.sql.startsWith('insert into "contract_template_versions"'))!;
+      expect(insert.params).toEqual(expect.arrayContaining([3, builtIn.content, "Built-in template updated"]));
+      const [stamped] = updates(queries, "contract_template_versions");
+      expect(stamped.params).toEqual([expect.any(String), null, 33]);
+    });
+
+    it("keeps a built-in that was edited through the library", async () => {
+      const queries = libraryDb({ ...template, organizationId: null, updatedBy: 2 });
+
+      await expect(templateLibraryService.seedLibrary([builtIn])).resolves.toEqual({ created: 0, updated: 0 });
+
+      expect(queries.some((query) => !query.sql.startsWith("select"))).toBe(false);
+    });
+  });
+});
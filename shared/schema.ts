@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, jsonb, timestamp, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, jsonb, timestamp, boolean, unique, real } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations, type InferModel } from 'drizzle-orm';
@@ -78,6 +78,186 @@ export const insertUserSchema = createInsertSchema(users)
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
+// Organizations (firms) and their members
+export const OrganizationRole = z.enum([
+  "OWNER",
+  "ADMIN",
+  "MEMBER"
+]);
+
+export type OrganizationRole = z.infer<typeof OrganizationRole>;
+
+export const organizations = pgTable("organizations", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  slug: text("slug").notNull().unique(),
+  createdBy: integer("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const organizationMembers = pgTable("organization_members", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull().references(() => organizations.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  role: text("role").notNull().default("MEMBER"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  memberUnique: unique().on(table.organizationId, table.userId),
+}));
+
+export const insertOrganizationSchema = createInsertSchema(organizations)
+  .pick({
+    name: true,
+    slug: true,
+  })
+  .extend({
+    name: z.string().min(1, "Organization name is required"),
+    slug: z.string()
+      .regex(/^[a-z0-9-]+$/, "Slug can only contain lowercase letters, numbers, and hyphens")
+      .optional(),
+  });
+
+export const insertOrganizationMemberSchema = createInsertSchema(organizationMembers)
+  .pick({
+    userId: true,
+    role: true,
+  })
+  .extend({
+    userId: z.number().int().positive(),
+    role: OrganizationRole.default("MEMBER"),
+  });
+
+export type Organization = typeof organizations.$inferSelect;
+export type OrganizationMember = typeof organizationMembers.$inferSelect;
+export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
+export type InsertOrganizationMember = z.infer<typeof insertOrganizationMemberSchema>;
+
+// Matters are client engagements that group documents, research and audits
+export const MatterStatus = z.enum([
+  "OPEN",
+  "ON_HOLD",
+  "CLOSED"
+]);
+
+export type MatterStatus = z.infer<typeof MatterStatus>;
+
+export const matters = pgTable("matters", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull().references(() => organizations.id),
+  name: text("name").notNull(),
+  matterNumber: text("matter_number"),
+  clientName: text("client_name").notNull(),
+  description: text("description"),
+  status: text("status").notNull().default("OPEN"),
+  createdBy: integer("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertMatterSchema = createInsertSchema(matters)
+  .pick({
+    name: true,
+    matterNumber: true,
+    clientName: true,
+    description: true,
+    status: true,
+  })
+  .extend({
+    name: z.string().min(1, "Matter name is required"),
+    clientName: z.string().min(1, "Client name is required"),
+    status: MatterStatus.default("OPEN"),
+  });
+
+export type Matter = typeof matters.$inferSelect;
+export type InsertMatter = z.infer<typeof insertMatterSchema>;
+
+// One row per LLM provider call, attributed to the user, organization and
+// feature (API area) that triggered it. Cost uses the model catalog's rates.
+export const llmUsage = pgTable("llm_usage", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id"),
+  userId: integer("user_id"),
+  feature: text("feature").notNull(),
+  role: text("role"),
+  model: text("model").notNull(),
+  provider: text("provider").notNull(),
+  inputTokens: integer("input_tokens").notNull(),
+  outputTokens: integer("output_tokens").notNull(),
+  costUsd: real("cost_usd").notNull().default(0),
+  requestedModel: text("requested_model"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type LlmUsage = typeof llmUsage.$inferSelect;
+export type InsertLlmUsage = typeof llmUsage.$inferInsert;
+
+// Monthly LLM spend limits per organization. Past the soft limit the model
+// router drops to cheaper tiers; at the hard limit calls are refused.
+export const organizationBudgets = pgTable("organization_budgets", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull().unique().references(() => organizations.id),
+  softLimitUsd: real("soft_limit_usd").notNull(),
+  hardLimitUsd: real("hard_limit_usd").notNull(),
+  updatedBy: integer("updated_by"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertOrganizationBudgetSchema = createInsertSchema(organizationBudgets)
+  .pick({
+    softLimitUsd: true,
+    hardLimitUsd: true,
+  })
+  .extend({
+    softLimitUsd: z.number().nonnegative(),
+    hardLimitUsd: z.number().positive(),
+  })
+  .refine((budget) => budget.softLimitUsd <= budget.hardLimitUsd, {
+    message: "Soft limit cannot exceed the hard limit",
+    path: ["softLimitUsd"],
+  });
+
+export type OrganizationBudget = typeof organizationBudgets.$inferSelect;
+export type InsertOrganizationBudget = z.infer<typeof insertOrganizationBudgetSchema>;
+
+// Durable background jobs. Workers claim QUEUED rows whose runAt has passed;
+// failures are retried with backoff until maxAttempts, then dead-lettered.
+export const JobStatus = z.enum([
+  "QUEUED",
+  "RUNNING",
+  "COMPLETED",
+  "DEAD_LETTER"
+]);
+
+export type JobStatus = z.infer<typeof JobStatus>;
+
+export const backgroundJobs = pgTable("background_jobs", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull(),
+  // Jobs sharing a group make up one batch or pipeline run
+  groupId: text("group_id"),
+  resourceType: text("resource_type"),
+  resourceId: text("resource_id"),
+  payload: jsonb("payload").$type<Record<string, any>>().notNull().default({}),
+  status: text("status").$type<JobStatus>().notNull().default("QUEUED"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  runAt: timestamp("run_at").notNull().defaultNow(),
+  lockedAt: timestamp("locked_at"),
+  lockedBy: text("locked_by"),
+  lastError: text("last_error"),
+  result: jsonb("result").$type<Record<string, any>>(),
+  progress: jsonb("progress").$type<Record<string, any>>(),
+  organizationId: integer("organization_id"),
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+export type BackgroundJob = typeof backgroundJobs.$inferSelect;
+export type InsertBackgroundJob = typeof backgroundJobs.$inferInsert;
+
 // Define agent types for LegalAI
 export const AgentType = z.enum([
   "CONTRACT_AUTOMATION",
@@ -135,6 +315,15 @@ export const RiskSeverity = z.enum([
 
 export type RiskSeverity = z.infer<typeof RiskSeverity>;
 
+// PATTERN findings come from a rulebook's clause patterns, LLM findings from
+// its model checks
+export const ComplianceDetectionMethod = z.enum(["PATTERN", "LLM"]);
+export type ComplianceDetectionMethod = z.infer<typeof ComplianceDetectionMethod>;
+
+// WAIVED issues are accepted risks and need a written justification
+export const ComplianceIssueStatus = z.enum(["OPEN", "IN_PROGRESS", "RESOLVED", "WAIVED"]);
+export type ComplianceIssueStatus = z.infer<typeof ComplianceIssueStatus>;
+
 export const RiskTrendIndicator = z.enum([
   "INCREASING",
   "STABLE",
@@ -257,6 +446,10 @@ export const legalDocumentsRelations = relations(legalDocuments, ({ many }) => (
 export const complianceDocuments = pgTable("compliance_documents", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
+  organizationId: integer("organization_id"),
+  matterId: integer("matter_id"),
+  // Contract (documents row) the text was taken from, when audited from one
+  sourceDocumentId: integer("source_document_id"),
   title: text("title").notNull(),
   content: text("content").notNull(),
   documentType: text("document_type").notNull(),
@@ -264,6 +457,8 @@ export const complianceDocuments = pgTable("compliance_documents", {
   riskScore: integer("risk_score"),
   lastScanned: timestamp("last_scanned"),
   nextScanDue: timestamp("next_scan_due"),
+  // Rulebook IDs (e.g. "GDPR") checked against this document; empty means all
+  rulebooks: jsonb("rulebooks").$type<string[]>().notNull().default([]),
   auditSummary: text("audit_summary"), // Added missing column
   automationMetrics: jsonb("automation_metrics").$type<{
     processingTimeMs: number;
@@ -279,19 +474,57 @@ export const complianceDocuments = pgTable("compliance_documents", {
 export const complianceIssues = pgTable("compliance_issues", {
   id: serial("id").primaryKey(),
   documentId: integer("document_id").notNull(),
-  riskAssessmentId: integer("risk_assessment_id").notNull(),
+  // Set for issues raised by a risk assessment; rulebook findings have none
+  riskAssessmentId: integer("risk_assessment_id"),
   clause: text("clause").notNull(),
   description: text("description").notNull(),
   severity: text("severity").notNull(),
   recommendation: text("recommendation").notNull(),
   reference: text("reference"),
+  // Rulebook rule that raised the issue and how it was detected
+  ruleId: text("rule_id"),
+  rulebook: text("rulebook"),
+  rulebookVersion: text("rulebook_version"),
+  detectionMethod: text("detection_method").$type<ComplianceDetectionMethod>(),
   status: text("status").notNull().default("OPEN"),
+  // User ID of the person remediating the issue
   assignedTo: text("assigned_to"),
+  // Defaults to the severity's SLA; see complianceRemediationService
   dueDate: timestamp("due_date"),
+  waiverJustification: text("waiver_justification"),
+  // Document version that fixes the issue
+  fixedInVersionId: integer("fixed_in_version_id"),
+  resolvedBy: integer("resolved_by"),
+  resolvedAt: timestamp("resolved_at"),
+  // Set once, when the issue is first found open past its due date
+  slaBreachedAt: timestamp("sla_breached_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const complianceIssueComments = pgTable("compliance_issue_comments", {
+  id: serial("id").primaryKey(),
+  issueId: integer("issue_id").notNull(),
+  userId: integer("user_id").notNull(),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Evidence is either an uploaded file (stored under uploads/evidence) or a
+// link to where it lives
+export const complianceIssueEvidence = pgTable("compliance_issue_evidence", {
+  id: serial("id").primaryKey(),
+  issueId: integer("issue_id").notNull(),
+  uploadedBy: integer("uploaded_by").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  url: text("url"),
+  filePath: text("file_path"),
+  mimeType: text("mime_type"),
+  fileSize: integer("file_size"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Add after existing tables
 export const complianceMonitoringSchedules = pgTable("compliance_monitoring_schedules", {
   id: serial("id").primaryKey(),
@@ -317,7 +550,8 @@ export const compliancePredictions = pgTable("compliance_predictions", {
 
 export const complianceAlerts = pgTable("compliance_alerts", {
   id: serial("id").primaryKey(),
-  predictionId: integer("prediction_id").notNull(),
+  // Scheduled checks still alert when their prediction could not be made
+  predictionId: integer("prediction_id"),
   documentId: integer("document_id").notNull(),
   severity: text("severity").notNull(),
   message: text("message").notNull(),
@@ -325,6 +559,10 @@ export const complianceAlerts = pgTable("compliance_alerts", {
   createdAt: timestamp("created_at").defaultNow(),
   acknowledgedAt: timestamp("acknowledged_at"),
   acknowledgedBy: integer("acknowledged_by"),
+  // Set when an escalation policy reassigns the alert
+  assignedTo: integer("assigned_to"),
+  escalationLevel: integer("escalation_level").notNull().default(0),
+  lastNotifiedAt: timestamp("last_notified_at"),
 });
 
 // Create insert schemas for the new tables
@@ -350,14 +588,58 @@ export const ComplianceIssue = z.object({
   severity: RiskSeverity,
   recommendation: z.string(),
   reference: z.string().optional(),
+  ruleId: z.string().optional(),
+  rulebook: z.string().optional(),
+  rulebookVersion: z.string().optional(),
+  detectionMethod: ComplianceDetectionMethod.optional(),
   detectedAt: z.string(),
-  status: z.enum(["OPEN", "IN_REVIEW", "RESOLVED"]),
+  status: ComplianceIssueStatus,
   assignedTo: z.string().optional(),
   dueDate: z.string().optional()
 });
 
 export type ComplianceIssue = z.infer<typeof ComplianceIssue>;
 
+export type ComplianceIssueComment = typeof complianceIssueComments.$inferSelect;
+export type ComplianceIssueEvidence = typeof complianceIssueEvidence.$inferSelect;
+
+export const assignComplianceIssueSchema = z.object({
+  assigneeId: z.number().int().positive().nullable(),
+  dueDate: z.coerce.date().optional(),
+});
+
+export const updateComplianceIssueStatusSchema = z.object({
+  status: ComplianceIssueStatus,
+  waiverJustification: z.string().trim().min(10).max(5000).optional(),
+  fixedInVersionId: z.number().int().positive().optional(),
+  comment: z.string().trim().min(1).max(5000).optional(),
+}).refine(value => value.status !== "WAIVED" || !!value.waiverJustification, {
+  message: "A waiver justification is required to waive an issue",
+  path: ["waiverJustification"],
+});
+
+export const complianceIssueCommentSchema = z.object({
+  body: z.string().trim().min(1).max(5000),
+});
+
+// Multipart fields; a file upload needs neither name nor url
+export const complianceIssueEvidenceSchema = z.object({
+  name: z.string().trim().min(1).max(255).optional(),
+  description: z.string().trim().max(2000).optional(),
+  url: z.string().url().optional(),
+});
+
+export const linkFixVersionSchema = z.object({
+  versionId: z.number().int().positive(),
+});
+
+export type AssignComplianceIssue = z.infer<typeof assignComplianceIssueSchema>;
+export type UpdateComplianceIssueStatus = z.infer<typeof updateComplianceIssueStatusSchema>;
+
+export const updateRulebooksSchema = z.object({
+  rulebooks: z.array(z.string().min(1)).max(20),
+});
+
 // Schema for monitoring configuration
 export const MonitoringConfig = z.object({
   documentId: z.string(),
@@ -402,6 +684,151 @@ export type InsertPrediction = z.infer<typeof insertPredictionSchema>;
 export type ComplianceAlert = typeof complianceAlerts.$inferSelect;
 export type InsertAlert = z.infer<typeof insertAlertSchema>;
 
+// Alert notifications
+export const NotificationChannelType = z.enum(["EMAIL", "WEBHOOK", "IN_APP"]);
+export type NotificationChannelType = z.infer<typeof NotificationChannelType>;
+
+export const EscalationAction = z.enum(["RENOTIFY", "REASSIGN"]);
+export type EscalationAction = z.infer<typeof EscalationAction>;
+
+// EMAIL and IN_APP channels reach the users a routing rule names; EMAIL can
+// also copy fixed addresses. WEBHOOK channels post to a URL, signed with the
+// secret when one is set.
+export interface NotificationChannelConfig {
+  addresses?: string[];
+  url?: string;
+  secret?: string;
+}
+
+export const notificationChannels = pgTable("notification_channels", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id"),
+  name: text("name").notNull(),
+  type: text("type").$type<NotificationChannelType>().notNull(),
+  config: jsonb("config").$type<NotificationChannelConfig>().notNull().default({}),
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: integer("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Which channels and people hear about alerts of a severity, and what happens
+// when nobody acknowledges them in time
+export const alertRoutingRules = pgTable("alert_routing_rules", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id"),
+  severity: text("severity").$type<RiskSeverity>().notNull(),
+  channelIds: jsonb("channel_ids").$type<number[]>().notNull(),
+  recipientIds: jsonb("recipient_ids").$type<number[]>().notNull().default([]),
+  escalateAfterMinutes: integer("escalate_after_minutes"),
+  escalationAction: text("escalation_action").$type<EscalationAction>().notNull().default("RENOTIFY"),
+  escalateToId: integer("escalate_to_id"),
+  maxEscalations: integer("max_escalations").notNull().default(3),
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: integer("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// In-app notification center
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  organizationId: integer("organization_id"),
+  type: text("type").notNull(),
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  severity: text("severity"),
+  resourceType: text("resource_type"),
+  resourceId: text("resource_id"),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const notificationPreferences = pgTable("notification_preferences", {
+  userId: integer("user_id").primaryKey(),
+  emailEnabled: boolean("email_enabled").notNull().default(true),
+  inAppEnabled: boolean("in_app_enabled").notNull().default(true),
+  // Alerts below this severity are not sent to the user at all
+  minSeverity: text("min_severity").$type<RiskSeverity>().notNull().default("LOW"),
+  // "HH:MM" in the user's time zone; emails wait until quiet hours end,
+  // except for CRITICAL alerts
+  quietHoursStart: text("quiet_hours_start"),
+  quietHoursEnd: text("quiet_hours_end"),
+  timezone: text("timezone").notNull().default("UTC"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+const clockTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM");
+
+export const insertNotificationChannelSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("EMAIL"),
+    config: z.object({ addresses: z.array(z.string().email()).max(20).optional() }).default({}),
+  }),
+  z.object({
+    type: z.literal("WEBHOOK"),
+    config: z.object({ url: z.string().url(), secret: z.string().min(16).optional() }),
+  }),
+  z.object({
+    type: z.literal("IN_APP"),
+    config: z.object({}).default({}),
+  }),
+]).and(z.object({
+  name: z.string().min(1, "Channel name is required").max(100),
+  isActive: z.boolean().default(true),
+}));
+
+export const insertAlertRoutingRuleSchema = createInsertSchema(alertRoutingRules)
+  .pick({
+    severity: true,
+    channelIds: true,
+    recipientIds: true,
+    escalateAfterMinutes: true,
+    escalationAction: true,
+    escalateToId: true,
+    maxEscalations: true,
+    isActive: true,
+  })
+  .extend({
+    severity: RiskSeverity,
+    channelIds: z.array(z.number().int().positive()).min(1, "At least one channel is required"),
+    recipientIds: z.array(z.number().int().positive()).default([]),
+    escalateAfterMinutes: z.number().int().min(5).max(10080).nullable().optional(),
+    escalationAction: EscalationAction.default("RENOTIFY"),
+    escalateToId: z.number().int().positive().nullable().optional(),
+    maxEscalations: z.number().int().min(1).max(10).default(3),
+    isActive: z.boolean().default(true),
+  })
+  .refine((rule) => rule.escalationAction !== "REASSIGN" || rule.escalateToId, {
+    message: "Reassigning escalations need a user to reassign to",
+    path: ["escalateToId"],
+  });
+
+export const updateNotificationPreferencesSchema = z.object({
+  emailEnabled: z.boolean().optional(),
+  inAppEnabled: z.boolean().optional(),
+  minSeverity: RiskSeverity.optional(),
+  quietHoursStart: clockTime.nullable().optional(),
+  quietHoursEnd: clockTime.nullable().optional(),
+  timezone: z.string().refine((zone) => {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: zone });
+      return true;
+    } catch {
+      return false;
+    }
+  }, "Unknown time zone").optional(),
+});
+
+export type NotificationChannel = typeof notificationChannels.$inferSelect;
+export type InsertNotificationChannel = z.infer<typeof insertNotificationChannelSchema>;
+export type AlertRoutingRule = typeof alertRoutingRules.$inferSelect;
+export type InsertAlertRoutingRule = z.infer<typeof insertAlertRoutingRuleSchema>;
+export type Notification = typeof notifications.$inferSelect;
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+export type UpdateNotificationPreferences = z.infer<typeof updateNotificationPreferencesSchema>;
+
 // Extended contract details schema
 export const contractDetailsSchema = z.object({
   parties: z.array(z.string()).optional(),
@@ -443,6 +870,85 @@ export const ClauseAnalysis = z.object({
 
 export type ClauseAnalysis = z.infer<typeof ClauseAnalysis>;
 
+// Fixed clause taxonomy for deterministic extraction (server/services/clauses)
+export const ClauseType = z.enum([
+  "INDEMNIFICATION",
+  "LIMITATION_OF_LIABILITY",
+  "TERMINATION",
+  "GOVERNING_LAW",
+  "DISPUTE_RESOLUTION",
+  "ASSIGNMENT",
+  "CHANGE_OF_CONTROL",
+  "AUTO_RENEWAL",
+  "NON_COMPETE",
+  "NON_SOLICITATION",
+  "CONFIDENTIALITY",
+  "PAYMENT_TERMS",
+  "WARRANTY",
+  "INTELLECTUAL_PROPERTY",
+  "DATA_PROTECTION",
+  "INSURANCE",
+  "FORCE_MAJEURE"
+]);
+
+export type ClauseType = z.infer<typeof ClauseType>;
+
+// Structured terms pulled out of a clause. Which keys are set depends on the
+// clause type; durations are normalised to days or months and money to a
+// plain number with its ISO currency.
+export interface ClauseAttributes {
+  capAmount?: number;
+  capCurrency?: string;
+  // FEES_PAID caps are a multiple of fees paid over capLookbackMonths
+  capBasis?: "FIXED" | "FEES_PAID";
+  capMultiplier?: number;
+  capLookbackMonths?: number;
+  excludesConsequentialDamages?: boolean;
+  mutual?: boolean;
+  noticePeriodDays?: number;
+  curePeriodDays?: number;
+  terminationForConvenience?: boolean;
+  jurisdiction?: string;
+  mechanism?: "ARBITRATION" | "LITIGATION" | "MEDIATION";
+  venue?: string;
+  consentRequired?: boolean;
+  terminationRight?: boolean;
+  initialTermMonths?: number;
+  renewalTermMonths?: number;
+  durationMonths?: number;
+  territory?: string;
+  paymentDays?: number;
+  warrantyPeriodMonths?: number;
+  coverageAmount?: number;
+}
+
+export const ClauseAttributeKey = z.enum([
+  "capAmount",
+  "capCurrency",
+  "capBasis",
+  "capMultiplier",
+  "capLookbackMonths",
+  "excludesConsequentialDamages",
+  "mutual",
+  "noticePeriodDays",
+  "curePeriodDays",
+  "terminationForConvenience",
+  "jurisdiction",
+  "mechanism",
+  "venue",
+  "consentRequired",
+  "terminationRight",
+  "initialTermMonths",
+  "renewalTermMonths",
+  "durationMonths",
+  "territory",
+  "paymentDays",
+  "warrantyPeriodMonths",
+  "coverageAmount"
+] as const satisfies ReadonlyArray<keyof ClauseAttributes>);
+
+export type ClauseAttributeKey = z.infer<typeof ClauseAttributeKey>;
+
 // Now define documentAnalysisSchema using the already defined ClauseAnalysis
 export const documentAnalysisSchema = z.object({
   summary: z.string().min(1, "Summary is required"),
@@ -479,13 +985,19 @@ export type DocumentAnalysis = z.infer<typeof documentAnalysisSchema>;
 export const documents = pgTable("documents", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
+  organizationId: integer("organization_id"),
+  matterId: integer("matter_id"),
   title: text("title").notNull(),
   content: text("content").notNull(),
   status: text("status").default("PENDING"),
+  // Lifecycle stage (ContractStatus); only changed through the contract lifecycle service
+  contractStatus: text("contract_status").notNull().default("DRAFT"),
   analysis: jsonb("analysis").default({}),
   agentType: text("agent_type").default("CONTRACT_AUTOMATION"),
   errorMessage: text("error_message"),
   metadata: jsonb("metadata").default({}),
+  // Template version the contract was generated from
+  templateVersionId: integer("template_version_id"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow()
 });
@@ -535,24 +1047,122 @@ export const documentVersions = pgTable("document_versions", {
   changes: jsonb("changes").notNull(),
   authorId: integer("author_id").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => ({
+  versionUnique: unique().on(table.documentId, table.version),
+}));
 
 export type DocumentVersion = typeof documentVersions.$inferSelect;
 export type InsertDocumentVersion = typeof documentVersions.$inferInsert;
 
-// Define approval status
+// One run of clause extraction over a document version, or over the
+// document's own content when versionId is null. Only the newest run per
+// document is current; portfolio queries read current runs.
+export const clauseExtractions = pgTable("clause_extractions", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").notNull(),
+  versionId: integer("version_id"),
+  organizationId: integer("organization_id"),
+  taxonomyVersion: text("taxonomy_version").notNull(),
+  // SHA-256 of the text the offsets point into
+  contentHash: text("content_hash").notNull(),
+  clauseCount: integer("clause_count").notNull().default(0),
+  isCurrent: boolean("is_current").notNull().default(true),
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const extractedClauses = pgTable("extracted_clauses", {
+  id: serial("id").primaryKey(),
+  extractionId: integer("extraction_id").notNull(),
+  documentId: integer("document_id").notNull(),
+  versionId: integer("version_id"),
+  clauseType: text("clause_type").$type<ClauseType>().notNull(),
+  heading: text("heading"),
+  text: text("text").notNull(),
+  // Character offsets into the extracted text, end exclusive
+  startOffset: integer("start_offset").notNull(),
+  endOffset: integer("end_offset").notNull(),
+  attributes: jsonb("attributes").$type<ClauseAttributes>().notNull().default({}),
+  confidence: real("confidence").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type ClauseExtraction = typeof clauseExtractions.$inferSelect;
+export type ExtractedClause = typeof extractedClauses.$inferSelect;
+
+export const extractClausesSchema = z.object({
+  versionId: z.number().int().positive().optional(),
+});
+
+// Clause-level redline operations
+export const RedlineOperationType = z.enum([
+  "INSERT",
+  "DELETE",
+  "MODIFY",
+  "MOVE"
+]);
+
+export type RedlineOperationType = z.infer<typeof RedlineOperationType>;
+
+// How much a redline change matters to a reviewer, lowest first
+export const ChangeMateriality = z.enum([
+  "COSMETIC",
+  "MINOR",
+  "MATERIAL",
+  "CRITICAL"
+]);
+
+export type ChangeMateriality = z.infer<typeof ChangeMateriality>;
+
+// Redline editor changes posted for a Word export with tracked changes
+export const trackedChangeSchema = z.object({
+  type: z.enum(["insertion", "deletion"]),
+  content: z.string(),
+  position: z.number().int().nonnegative(),
+  // Exported as the revision date; omitted means the time of export
+  timestamp: z.coerce.date({ errorMap: () => ({ message: "Change timestamps must be valid dates" }) }).optional(),
+  author: z.string().max(200).optional(),
+  comment: z.string().max(10000).optional(),
+});
+
+export const trackedChangesExportSchema = z.object({
+  changes: z.array(trackedChangeSchema).max(10000),
+});
+
+export type TrackedChangeInput = z.infer<typeof trackedChangeSchema>;
+
+// Define approval status. WAITING steps sit behind an earlier sequential
+// step; SKIPPED steps were made moot by another decision; DELEGATED steps
+// were handed to another approver.
 export const ApprovalStatus = z.enum([
   "PENDING",
   "APPROVED",
-  "REJECTED"
+  "REJECTED",
+  "WAITING",
+  "SKIPPED",
+  "DELEGATED"
 ]);
 
 export type ApprovalStatus = z.infer<typeof ApprovalStatus>;
 
-// Define signature status
+// How a chain's approvers decide: one after another, all at once, or the
+// first decision from any of them
+export const ApprovalChainMode = z.enum([
+  "SEQUENTIAL",
+  "PARALLEL",
+  "ANY_ONE"
+]);
+
+export type ApprovalChainMode = z.infer<typeof ApprovalChainMode>;
+
+// Define signature status. Envelopes and individual signers share it: a
+// signer is PENDING until their turn, SENT once they hold a signing link.
 export const SignatureStatus = z.enum([
   "PENDING",
+  "SENT",
   "COMPLETED",
+  "DECLINED",
+  "CANCELLED",
   "EXPIRED"
 ]);
 
@@ -592,6 +1202,10 @@ export type InsertComplianceFile = z.infer<typeof insertComplianceFileSchema>;
 // Update complianceAudits table to include updated_at
 export const complianceAudits = pgTable('compliance_audits', {
   id: serial("id").primaryKey(),
+  // Who ran the audit; personal-space audits are visible to them alone
+  userId: integer("user_id"),
+  organizationId: integer("organization_id"),
+  matterId: integer("matter_id"),
   documentText: text("document_text").notNull(),
   openaiResponse: jsonb("openai_response").notNull(),
   anthropicResponse: jsonb("anthropic_response").notNull(),
@@ -614,29 +1228,191 @@ export const insertComplianceAuditSchema = createInsertSchema(complianceAudits);
 export type ComplianceAudit = typeof complianceAudits.$inferSelect;
 export type InsertComplianceAudit = z.infer<typeof insertComplianceAuditSchema>;
 
+// Approval chains route documents to approvers by template category and/or
+// minimum risk score. The highest-priority active match wins.
+export const approvalChains = pgTable("approval_chains", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id"),
+  name: text("name").notNull(),
+  templateCategory: text("template_category"),
+  minRiskScore: integer("min_risk_score"),
+  mode: text("mode").notNull().default("SEQUENTIAL"),
+  approverIds: jsonb("approver_ids").$type<number[]>().notNull(),
+  reminderHours: integer("reminder_hours").notNull().default(24),
+  priority: integer("priority").notNull().default(0),
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: integer("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertApprovalChainSchema = createInsertSchema(approvalChains)
+  .pick({
+    name: true,
+    templateCategory: true,
+    minRiskScore: true,
+    mode: true,
+    approverIds: true,
+    reminderHours: true,
+    priority: true,
+    isActive: true,
+  })
+  .extend({
+    name: z.string().min(1, "Chain name is required"),
+    templateCategory: TemplateCategory.nullable().optional(),
+    minRiskScore: z.number().int().min(0).nullable().optional(),
+    mode: ApprovalChainMode.default("SEQUENTIAL"),
+    approverIds: z.array(z.number().int().positive())
+      .min(1, "At least one approver is required")
+      .refine((ids) => new Set(ids).size === ids.length, "Approvers must be unique"),
+    reminderHours: z.number().int().min(1).max(720).default(24),
+    priority: z.number().int().default(0),
+    isActive: z.boolean().default(true),
+  });
+
+export type ApprovalChain = typeof approvalChains.$inferSelect;
+export type InsertApprovalChain = z.infer<typeof insertApprovalChainSchema>;
+
+// One routing of a document through a chain (or an ad-hoc list of approvers)
+export const approvalRequests = pgTable("approval_requests", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").notNull(),
+  organizationId: integer("organization_id"),
+  chainId: integer("chain_id"),
+  mode: text("mode").notNull(),
+  requesterId: integer("requester_id").notNull(),
+  status: text("status").notNull().default("PENDING"),
+  comments: text("comments"),
+  reminderHours: integer("reminder_hours").notNull().default(24),
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+export type ApprovalRequest = typeof approvalRequests.$inferSelect;
+
 // Add after the existing tables
 export const approvals = pgTable("approvals", {
   id: serial("id").primaryKey(),
   documentId: integer("document_id").notNull(),
+  requestId: integer("request_id"),
+  stepOrder: integer("step_order").notNull().default(0),
   requesterId: integer("requester_id").notNull(),
   approverId: integer("approver_id").notNull(),
+  delegatedFrom: integer("delegated_from"),
   status: text("status").notNull(),
   comments: text("comments"),
+  decidedAt: timestamp("decided_at"),
+  lastRemindedAt: timestamp("last_reminded_at"),
+  reminderCount: integer("reminder_count").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// One envelope per round of signing; documentHash pins the content signers saw
+export const signatureEnvelopes = pgTable("signature_envelopes", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").notNull(),
+  organizationId: integer("organization_id"),
+  provider: text("provider").notNull().default("native"),
+  externalId: text("external_id"),
+  status: text("status").$type<SignatureStatus>().notNull().default("PENDING"),
+  subject: text("subject"),
+  message: text("message"),
+  documentHash: text("document_hash").notNull(),
+  // Base64 PDF with the certificate page, stored once every signer has signed
+  signedPdf: text("signed_pdf"),
+  signedPdfHash: text("signed_pdf_hash"),
+  createdBy: integer("created_by").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  completedAt: timestamp("completed_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Signers need not be users; they are reached through a one-time link of
+// which only the hash is kept
 export const signatures = pgTable("signatures", {
   id: serial("id").primaryKey(),
+  envelopeId: integer("envelope_id"),
   documentId: integer("document_id").notNull(),
-  userId: integer("user_id").notNull(),
-  status: text("status").notNull(),
+  userId: integer("user_id"),
+  signerName: text("signer_name"),
+  signerEmail: text("signer_email"),
+  signingOrder: integer("signing_order").notNull().default(1),
+  status: text("status").$type<SignatureStatus>().notNull(),
+  tokenHash: text("token_hash"),
   signatureData: jsonb("signature_data"),
+  invitedAt: timestamp("invited_at"),
+  viewedAt: timestamp("viewed_at"),
   signedAt: timestamp("signed_at"),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  declineReason: text("decline_reason"),
   expiresAt: timestamp("expires_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export type SignatureEnvelope = typeof signatureEnvelopes.$inferSelect;
+
+export const signerSchema = z.object({
+  name: z.string().trim().min(1, "Signer name is required").max(200),
+  email: z.string().trim().email("Signer email is invalid"),
+  userId: z.number().int().positive().optional(),
+  order: z.number().int().min(1).max(50).optional(),
+});
+
+export const createEnvelopeSchema = z.object({
+  signers: z.array(signerSchema).min(1, "At least one signer is required").max(25),
+  subject: z.string().max(200).optional(),
+  message: z.string().max(5000).optional(),
+  expiresInDays: z.number().int().min(1).max(90).optional(),
+});
+
+export const capturedSignatureSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("typed"), name: z.string().trim().min(1, "Type your full name to sign").max(200) }),
+  z.object({ type: z.literal("drawn"), image: z.string().startsWith("data:image/", "Drawn signatures must be an image") }),
+]);
+
+export type CreateEnvelope = z.infer<typeof createEnvelopeSchema>;
+
+// A conversation is grounded either in one documents row or in a fixed set of
+// vault documents, chosen when it starts
+export const chatConversations = pgTable("chat_conversations", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  organizationId: integer("organization_id"),
+  documentId: integer("document_id"),
+  vaultDocumentIds: jsonb("vault_document_ids").$type<number[]>().notNull().default([]),
+  title: text("title"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Offsets are character positions in the source document's content
+export interface ChatCitation {
+  ref: number;
+  sourceType: "DOCUMENT" | "VAULT_DOCUMENT";
+  sourceId: number;
+  title: string;
+  paragraph: number;
+  start: number;
+  end: number;
+  quote?: { text: string; start: number; end: number };
+}
+
+export const chatMessages = pgTable("chat_messages", {
+  id: serial("id").primaryKey(),
+  conversationId: integer("conversation_id").notNull(),
+  role: text("role").$type<"user" | "assistant">().notNull(),
+  content: text("content").notNull(),
+  citations: jsonb("citations").$type<ChatCitation[]>().notNull().default([]),
+  model: text("model"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type ChatConversation = typeof chatConversations.$inferSelect;
+export type ChatMessage = typeof chatMessages.$inferSelect;
+
 // Add types for the new tables
 export type Approval = typeof approvals.$inferSelect;
 export type Signature = typeof signatures.$inferSelect;
@@ -648,36 +1424,530 @@ export const insertSignatureSchema = createInsertSchema(signatures);
 export type InsertApproval = z.infer<typeof insertApprovalSchema>;
 export type InsertSignature = z.infer<typeof insertSignatureSchema>;
 
-// Update the contractTemplates table with additional metadata fields
+// DRAFT templates have never been published; PUBLISHED ones can generate
+// contracts; ARCHIVED ones are hidden but kept for contracts that cite them
+export const TemplateStatus = z.enum([
+  "DRAFT",
+  "PUBLISHED",
+  "ARCHIVED"
+]);
+
+export type TemplateStatus = z.infer<typeof TemplateStatus>;
+
+// LIBRARY templates are shared with every firm; ORGANIZATION ones are private
+// to the firm that created them
+export const TemplateScope = z.enum([
+  "LIBRARY",
+  "ORGANIZATION"
+]);
+
+export type TemplateScope = z.infer<typeof TemplateScope>;
+
+// party values carry a name plus optional address and entity details;
+// list values repeat a group of fields, e.g. one per signatory
+export const TemplateVariableType = z.enum([
+  "text",
+  "number",
+  "currency",
+  "date",
+  "boolean",
+  "party",
+  "jurisdiction",
+  "enum",
+  "list"
+]);
+
+export type TemplateVariableType = z.infer<typeof TemplateVariableType>;
+
+export interface TemplateVariable {
+  // Upper snake case, written in content as [NAME]
+  name: string;
+  description: string;
+  required: boolean;
+  type: TemplateVariableType;
+  // Allowed values for enum, and optionally for jurisdiction
+  options?: string[];
+  // Bounds for number and currency values
+  min?: number;
+  max?: number;
+  // ISO 4217 code for currency values, USD when unset
+  currency?: string;
+  defaultValue?: unknown;
+  // Fields of each list item, referenced as [FIELD] inside [#EACH NAME]
+  fields?: TemplateVariable[];
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface ContractTemplateMetadata {
+  variables: TemplateVariable[];
+  tags?: string[];
+  useCase?: string;
+  complexity?: "LOW" | "MEDIUM" | "HIGH";
+  recommendedClauses?: string[];
+  industry?: string;
+  industrySpecific?: boolean;
+  jurisdiction?: string;
+  estimatedTime?: string;
+  lastUpdated?: string;
+  aiAssistanceLevel?: string;
+}
+
+// Name, content and metadata mirror the latest version, which may be an
+// unpublished draft; contracts are generated from publishedVersionId
 export const contractTemplates = pgTable("contract_templates", {
   id: serial("id").primaryKey(),
+  // Stable reference such as "employment-standard", unique within a scope
+  key: text("key").notNull(),
+  // Null for the shared library
+  organizationId: integer("organization_id"),
   name: text("name").notNull(),
   description: text("description").notNull(),
   category: text("category").notNull(),
   content: text("content").notNull(),
-  metadata: jsonb("metadata").$type<{
-    variables: Array<{
-      name: string;
-      description: string;
-      required: boolean;
-      type: string;
-    }>;
-    tags: string[];
-    useCase: string;
-    complexity: "LOW" | "MEDIUM" | "HIGH";
-    recommendedClauses: string[];
-    industrySpecific: boolean;
-    jurisdiction: string;
-    lastUpdated: string;
-    aiAssistanceLevel: string;
-  }>().notNull(),
+  metadata: jsonb("metadata").$type<ContractTemplateMetadata>().notNull(),
+  status: text("status").$type<TemplateStatus>().notNull().default("DRAFT"),
+  latestVersion: integer("latest_version").notNull().default(1),
+  publishedVersionId: integer("published_version_id"),
+  createdBy: integer("created_by"),
+  updatedBy: integer("updated_by"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow()
 });
 
+// Every edit adds a version; a version is a draft until publishedAt is set
+export const contractTemplateVersions = pgTable("contract_template_versions", {
+  id: serial("id").primaryKey(),
+  templateId: integer("template_id").notNull().references(() => contractTemplates.id),
+  version: integer("version").notNull(),
+  name: text("name").notNull(),
+  description: text("description").notNull(),
+  category: text("category").notNull(),
+  content: text("content").notNull(),
+  metadata: jsonb("metadata").$type<ContractTemplateMetadata>().notNull(),
+  changeNote: text("change_note"),
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  publishedAt: timestamp("published_at"),
+  publishedBy: integer("published_by"),
+}, (table) => ({
+  versionUnique: unique().on(table.templateId, table.version),
+}));
+
 export const insertContractTemplateSchema = createInsertSchema(contractTemplates);
 export type ContractTemplate = typeof contractTemplates.$inferSelect;
 export type InsertContractTemplate = typeof contractTemplates.$inferInsert;
+export type ContractTemplateVersion = typeof contractTemplateVersions.$inferSelect;
+
+const templateFieldSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).default(""),
+  required: z.boolean().default(true),
+  type: TemplateVariableType.exclude(["list"]).default("text"),
+  options: z.array(z.string().min(1).max(200)).max(100).optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  currency: z.string().regex(/^[A-Z]{3}$/, "Currency must be an ISO 4217 code").optional(),
+  defaultValue: z.unknown().optional(),
+});
+
+export const templateVariableSchema = templateFieldSchema.extend({
+  type: TemplateVariableType.default("text"),
+  fields: z.array(templateFieldSchema).max(50).optional(),
+  minItems: z.number().int().min(0).optional(),
+  maxItems: z.number().int().positive().optional(),
+}).superRefine((variable, ctx) => {
+  if (variable.type === "enum" && !variable.options?.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Enum variable ${variable.name} needs options` });
+  }
+  if (variable.type === "list" && !variable.fields?.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `List variable ${variable.name} needs fields` });
+  }
+  if (variable.min !== undefined && variable.max !== undefined && variable.min > variable.max) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Variable ${variable.name} has min above max` });
+  }
+});
+
+const templateMetadataSchema = z.object({
+  variables: z.array(templateVariableSchema).max(200).default([]),
+}).passthrough();
+
+const templateFieldsSchema = z.object({
+  name: z.string().min(1, "Name is required").max(200),
+  description: z.string().max(2000).default(""),
+  category: z.string().min(1, "Category is required").max(100),
+  content: z.string().min(1, "Content is required"),
+  metadata: templateMetadataSchema.default({ variables: [] }),
+  changeNote: z.string().max(1000).optional(),
+});
+
+export const createTemplateSchema = templateFieldsSchema.extend({
+  key: z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Key must be lowercase words separated by hyphens").max(100).optional(),
+  scope: TemplateScope.optional(),
+  publish: z.boolean().default(false),
+});
+
+// Saves a new draft version. baseVersion guards against overwriting an edit
+// made since the caller loaded the template.
+export const updateTemplateSchema = templateFieldsSchema.partial().extend({
+  baseVersion: z.number().int().positive().optional(),
+});
+
+export const publishTemplateSchema = z.object({
+  // Defaults to the latest version
+  version: z.number().int().positive().optional(),
+});
+
+export const previewTemplateSchema = z.object({
+  variables: z.record(z.unknown()).default({}),
+  // Defaults to the latest version, or the published one for clients
+  version: z.number().int().positive().optional(),
+});
+
+export type CreateTemplate = z.infer<typeof createTemplateSchema>;
+export type UpdateTemplate = z.infer<typeof updateTemplateSchema>;
+
+// Clause library: firm-approved standard clauses with negotiation fallbacks.
+// Like templates, clauses without an organization are shared with every firm.
+export const ClauseLibraryStatus = z.enum([
+  "DRAFT",
+  "APPROVED",
+  "RETIRED"
+]);
+
+export type ClauseLibraryStatus = z.infer<typeof ClauseLibraryStatus>;
+
+// Negotiation positions, from the firm's first ask to the least it accepts
+export const FallbackPosition = z.enum([
+  "PREFERRED",
+  "ACCEPTABLE",
+  "WALK_AWAY"
+]);
+
+export type FallbackPosition = z.infer<typeof FallbackPosition>;
+
+export const ClauseUsageSource = z.enum([
+  "REDLINE",
+  "EDITOR",
+  "API"
+]);
+
+export type ClauseUsageSource = z.infer<typeof ClauseUsageSource>;
+
+// INSERTED when a position is put into a draft; ACCEPTED or REJECTED once
+// the counterparty has responded to it
+export const ClauseUsageOutcome = z.enum([
+  "INSERTED",
+  "ACCEPTED",
+  "REJECTED"
+]);
+
+export type ClauseUsageOutcome = z.infer<typeof ClauseUsageOutcome>;
+
+export const libraryClauses = pgTable("library_clauses", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id"),
+  title: text("title").notNull(),
+  clauseType: text("clause_type").$type<ClauseType>().notNull(),
+  // Null when the clause suits any jurisdiction
+  jurisdiction: text("jurisdiction"),
+  riskLevel: text("risk_level").$type<ClauseRiskLevel>().notNull().default("MEDIUM"),
+  tags: jsonb("tags").$type<string[]>().notNull().default([]),
+  guidance: text("guidance"),
+  status: text("status").$type<ClauseLibraryStatus>().notNull().default("DRAFT"),
+  createdBy: integer("created_by"),
+  approvedBy: integer("approved_by"),
+  approvedAt: timestamp("approved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const libraryClausePositions = pgTable("library_clause_positions", {
+  id: serial("id").primaryKey(),
+  clauseId: integer("clause_id").notNull(),
+  position: text("position").$type<FallbackPosition>().notNull(),
+  // Order among alternatives at the same position, from 1
+  rank: integer("rank").notNull().default(1),
+  text: text("text").notNull(),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const clauseUsageEvents = pgTable("clause_usage_events", {
+  id: serial("id").primaryKey(),
+  clauseId: integer("clause_id").notNull(),
+  positionId: integer("position_id").notNull(),
+  organizationId: integer("organization_id"),
+  documentId: integer("document_id"),
+  userId: integer("user_id"),
+  source: text("source").$type<ClauseUsageSource>().notNull(),
+  outcome: text("outcome").$type<ClauseUsageOutcome>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type LibraryClause = typeof libraryClauses.$inferSelect;
+export type LibraryClausePosition = typeof libraryClausePositions.$inferSelect;
+export type ClauseUsageEvent = typeof clauseUsageEvents.$inferSelect;
+
+const clausePositionSchema = z.object({
+  // Keeps an existing position, and its usage history, when editing
+  id: z.number().int().positive().optional(),
+  position: FallbackPosition,
+  text: z.string().trim().min(1, "Clause text is required").max(20000),
+  notes: z.string().max(2000).optional(),
+});
+
+const libraryClauseFieldsSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(200),
+  clauseType: ClauseType,
+  jurisdiction: z.string().trim().min(1).max(100).nullable().default(null),
+  riskLevel: ClauseRiskLevel.default("MEDIUM"),
+  tags: z.array(z.string().trim().min(1).max(50)).max(20).default([]),
+  guidance: z.string().max(5000).optional(),
+  // Listed in rank order within each position
+  positions: z.array(clausePositionSchema).min(1).max(20)
+    .refine(positions => positions.some(position => position.position === "PREFERRED"), "A clause needs a preferred position"),
+});
+
+export const createLibraryClauseSchema = libraryClauseFieldsSchema.extend({
+  scope: TemplateScope.optional(),
+});
+
+export const updateLibraryClauseSchema = libraryClauseFieldsSchema.partial();
+
+export const clauseLibraryFiltersSchema = z.object({
+  clauseType: ClauseType.optional(),
+  jurisdiction: z.string().trim().min(1).max(100).optional(),
+  riskLevel: ClauseRiskLevel.optional(),
+  tag: z.string().trim().min(1).max(50).optional(),
+  status: ClauseLibraryStatus.optional(),
+  search: z.string().trim().min(1).max(200).optional(),
+});
+
+// Either the text being edited, which is classified with the clause
+// taxonomy, or a clause type
+export const suggestClausesSchema = z.object({
+  text: z.string().trim().min(1).max(20000).optional(),
+  clauseType: ClauseType.optional(),
+  jurisdiction: z.string().trim().min(1).max(100).optional(),
+  limit: z.coerce.number().int().min(1).max(20).default(5),
+}).refine(query => query.text || query.clauseType, "Give the selected text or a clause type");
+
+export const recordClauseUsageSchema = z.object({
+  positionId: z.number().int().positive(),
+  documentId: z.number().int().positive().optional(),
+  source: ClauseUsageSource.default("API"),
+  outcome: ClauseUsageOutcome.default("INSERTED"),
+});
+
+export type CreateLibraryClause = z.infer<typeof createLibraryClauseSchema>;
+export type UpdateLibraryClause = z.infer<typeof updateLibraryClauseSchema>;
+export type ClauseLibraryFilters = z.infer<typeof clauseLibraryFiltersSchema>;
+export type SuggestClauses = z.infer<typeof suggestClausesSchema>;
+export type RecordClauseUsage = z.infer<typeof recordClauseUsageSchema>;
+
+// Negotiation playbooks: the firm's positions per clause type for one kind
+// of contract and side, e.g. "SaaS vendor MSA, customer side"
+export const PlaybookStatus = z.enum([
+  "ACTIVE",
+  "ARCHIVED"
+]);
+
+export type PlaybookStatus = z.infer<typeof PlaybookStatus>;
+
+export const PlaybookClausePresence = z.enum([
+  "REQUIRED",
+  "OPTIONAL",
+  "PROHIBITED"
+]);
+
+export type PlaybookClausePresence = z.infer<typeof PlaybookClausePresence>;
+
+export const PlaybookOperator = z.enum([
+  "EQUALS",
+  "NOT_EQUALS",
+  "AT_LEAST",
+  "AT_MOST",
+  "ONE_OF",
+  "PRESENT"
+]);
+
+export type PlaybookOperator = z.infer<typeof PlaybookOperator>;
+
+// A term the counterparty's clause must meet, checked against the
+// attributes clause extraction pulls out of it
+export const playbookConditionSchema = z.object({
+  attribute: ClauseAttributeKey,
+  operator: PlaybookOperator,
+  value: z.union([z.number(), z.boolean(), z.string().min(1).max(200), z.array(z.string().min(1).max(200)).min(1).max(50)]).optional(),
+  // Shown in findings, e.g. "Cap of at least 12 months' fees"
+  description: z.string().max(500).optional(),
+}).superRefine((condition, ctx) => {
+  const { operator, value } = condition;
+  const valid = operator === "PRESENT" ? value === undefined
+    : operator === "ONE_OF" ? Array.isArray(value)
+    : operator === "AT_LEAST" || operator === "AT_MOST" ? typeof value === "number"
+    : value !== undefined && !Array.isArray(value);
+  if (!valid) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Condition on ${condition.attribute} has the wrong kind of value for ${operator}` });
+  }
+});
+
+// Conditions at each position; the counterparty's clause sits at the most
+// favourable position whose conditions it all meets. Positions left out are
+// skipped, and a preferred position without conditions is met by any clause.
+export const playbookRuleSchema = z.object({
+  clauseType: ClauseType,
+  presence: PlaybookClausePresence.default("OPTIONAL"),
+  // For a missing required clause, a prohibited one, or terms beyond walk-away
+  severity: RiskSeverity.default("HIGH"),
+  preferred: z.array(playbookConditionSchema).max(20).default([]),
+  acceptable: z.array(playbookConditionSchema).max(20).optional(),
+  walkAway: z.array(playbookConditionSchema).max(20).optional(),
+  // Clause library entry to take replacement language from; defaults to the
+  // best approved clause of this type
+  libraryClauseId: z.number().int().positive().optional(),
+  guidance: z.string().max(2000).optional(),
+});
+
+export type PlaybookCondition = z.infer<typeof playbookConditionSchema>;
+export type PlaybookRule = z.infer<typeof playbookRuleSchema>;
+
+export const negotiationPlaybooks = pgTable("negotiation_playbooks", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id"),
+  name: text("name").notNull(),
+  contractType: text("contract_type").notNull(),
+  // Whose side the positions protect, e.g. "Customer"
+  perspective: text("perspective").notNull(),
+  description: text("description"),
+  rules: jsonb("rules").$type<PlaybookRule[]>().notNull().default([]),
+  status: text("status").$type<PlaybookStatus>().notNull().default("ACTIVE"),
+  createdBy: integer("created_by"),
+  updatedBy: integer("updated_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export type NegotiationPlaybook = typeof negotiationPlaybooks.$inferSelect;
+
+const playbookFieldsSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(200),
+  contractType: z.string().trim().min(1, "Contract type is required").max(200),
+  perspective: z.string().trim().min(1, "Perspective is required").max(100),
+  description: z.string().max(2000).optional(),
+  rules: z.array(playbookRuleSchema).min(1, "A playbook needs at least one rule").max(50)
+    .refine(rules => new Set(rules.map(rule => rule.clauseType)).size === rules.length, "Each clause type can only have one rule"),
+});
+
+export const createPlaybookSchema = playbookFieldsSchema.extend({
+  scope: TemplateScope.optional(),
+});
+
+export const updatePlaybookSchema = playbookFieldsSchema.partial();
+
+export const reviewPlaybookSchema = z.object({
+  // Defaults to the latest version of the document
+  versionId: z.number().int().positive().optional(),
+});
+
+export type CreatePlaybook = z.infer<typeof createPlaybookSchema>;
+export type UpdatePlaybook = z.infer<typeof updatePlaybookSchema>;
+
+// Obligations and key dates extracted from executed contracts in the vault
+export const ObligationType = z.enum([
+  "RENEWAL",
+  // Last day to give notice before the contract renews
+  "NOTICE_DEADLINE",
+  "EXPIRATION",
+  "PAYMENT",
+  "REPORTING",
+  "DELIVERY",
+]);
+export type ObligationType = z.infer<typeof ObligationType>;
+
+export const ObligationStatus = z.enum(["OPEN", "COMPLETED", "WAIVED"]);
+export type ObligationStatus = z.infer<typeof ObligationStatus>;
+
+export const ObligationFrequency = z.enum(["WEEKLY", "MONTHLY", "YEARLY"]);
+export type ObligationFrequency = z.infer<typeof ObligationFrequency>;
+
+// Quarterly is MONTHLY with an interval of 3
+export const obligationRecurrenceSchema = z.object({
+  frequency: ObligationFrequency,
+  interval: z.number().int().min(1).max(120),
+});
+export type ObligationRecurrence = z.infer<typeof obligationRecurrenceSchema>;
+
+export const contractObligations = pgTable("contract_obligations", {
+  id: serial("id").primaryKey(),
+  vaultDocumentId: integer("vault_document_id").notNull(),
+  organizationId: integer("organization_id"),
+  matterId: integer("matter_id"),
+  obligationType: text("obligation_type").$type<ObligationType>().notNull(),
+  title: text("title").notNull(),
+  // Defined party name as written in the contract, e.g. "Supplier"
+  responsibleParty: text("responsible_party"),
+  // Next occurrence for recurring obligations; null when the deadline runs
+  // from an event such as an invoice, described by trigger
+  dueDate: timestamp("due_date"),
+  recurrence: jsonb("recurrence").$type<ObligationRecurrence>(),
+  trigger: text("trigger"),
+  clauseType: text("clause_type").$type<ClauseType>(),
+  // Source sentence or clause, offsets into the document content
+  sourceText: text("source_text").notNull(),
+  startOffset: integer("start_offset").notNull(),
+  endOffset: integer("end_offset").notNull(),
+  confidence: real("confidence").notNull(),
+  // Type and source offsets; re-extraction keeps status and assignee for
+  // obligations whose fingerprint is unchanged
+  fingerprint: text("fingerprint").notNull(),
+  status: text("status").$type<ObligationStatus>().notNull().default("OPEN"),
+  assigneeId: integer("assignee_id"),
+  // Smallest reminder lead, in days, already sent for the current due date
+  remindedLeadDays: integer("reminded_lead_days"),
+  completedBy: integer("completed_by"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  documentFingerprint: unique().on(table.vaultDocumentId, table.fingerprint),
+}));
+
+export type ContractObligation = typeof contractObligations.$inferSelect;
+
+export const extractObligationsSchema = z.object({
+  // Anchors term and renewal dates when the contract does not state one
+  effectiveDate: z.coerce.date().optional(),
+});
+
+export const obligationFiltersSchema = z.object({
+  documentId: z.coerce.number().int().positive().optional(),
+  type: ObligationType.optional(),
+  status: ObligationStatus.optional(),
+  assigneeId: z.coerce.number().int().positive().optional(),
+});
+
+export const obligationCalendarSchema = obligationFiltersSchema.omit({ status: true }).extend({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+}).refine(value => !value.from || !value.to || value.from <= value.to, {
+  message: "from must be before to",
+  path: ["to"],
+});
+
+export const updateObligationSchema = z.object({
+  title: z.string().trim().min(1).max(300).optional(),
+  responsibleParty: z.string().trim().min(1).max(200).nullable().optional(),
+  dueDate: z.coerce.date().nullable().optional(),
+  recurrence: obligationRecurrenceSchema.nullable().optional(),
+  status: ObligationStatus.optional(),
+  assigneeId: z.number().int().positive().nullable().optional(),
+});
+
+export type ObligationFilters = z.infer<typeof obligationFiltersSchema>;
+export type ObligationCalendarQuery = z.infer<typeof obligationCalendarSchema>;
+export type UpdateObligation = z.infer<typeof updateObligationSchema>;
 
 // Add new schema for template categories organization
 export const templateCategories = pgTable("template_categories", {
@@ -884,6 +2154,8 @@ export type InsertVaultDocumentAnalysis = z.infer<typeof insertVaultDocumentAnal
 export const legalResearchReports = pgTable('legal_research_reports', {
   id: serial('id').primaryKey(),
   userId: integer('user_id').notNull(),
+  organizationId: integer("organization_id"),
+  matterId: integer("matter_id"),
   query: text('query').notNull(),
   jurisdiction: text('jurisdiction').notNull().default('All'),
   legalTopic: text('legal_topic').notNull().default('All'),
@@ -911,6 +2183,8 @@ export type InsertLegalAnalysis = typeof legalAnalyses.$inferInsert;
 export const vaultDocuments = pgTable("vault_documents", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
+  organizationId: integer("organization_id"),
+  matterId: integer("matter_id"),
   title: text("title").notNull(),
   content: text("content").notNull(),
   documentType: text("document_type").notNull(),fileSize: integer("file_size").notNull(),
@@ -944,10 +2218,100 @@ export const insertVaultDocumentSchema = createInsertSchema(vaultDocuments)
 export type VaultDocument = typeof vaultDocuments.$inferSelect;
 export type InsertVaultDocument = z.infer<typeof insertVaultDocumentSchema>;
 
+// Document-level access control shared by all document stores
+export const DocumentResourceType = z.enum([
+  "DOCUMENT",
+  "VAULT_DOCUMENT",
+  "COMPLIANCE_DOCUMENT"
+]);
+
+export type DocumentResourceType = z.infer<typeof DocumentResourceType>;
+
+// Each permission includes the ones before it
+export const DocumentPermission = z.enum([
+  "VIEW",
+  "EDIT",
+  "DELETE"
+]);
+
+export type DocumentPermission = z.infer<typeof DocumentPermission>;
+
+// A grant shares one document with either a single user or every user holding a role.
+// Owners (the row's userId) and admins always have access and need no grant.
+export const documentAcls = pgTable("document_acls", {
+  id: serial("id").primaryKey(),
+  resourceType: text("resource_type").notNull(),
+  resourceId: integer("resource_id").notNull(),
+  userId: integer("user_id"),
+  role: text("role"),
+  // Role grants reach only members of this organization, the document's own
+  organizationId: integer("organization_id"),
+  permission: text("permission").notNull().default("VIEW"),
+  grantedBy: integer("granted_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertDocumentAclSchema = createInsertSchema(documentAcls)
+  .pick({
+    userId: true,
+    role: true,
+    permission: true,
+  })
+  .extend({
+    userId: z.number().int().positive().optional(),
+    role: UserRole.optional(),
+    permission: DocumentPermission.default("VIEW"),
+  })
+  .refine((grant) => !!grant.userId !== !!grant.role, {
+    message: "Specify exactly one of userId or role",
+  });
+
+export type DocumentAcl = typeof documentAcls.$inferSelect;
+export type InsertDocumentAcl = z.infer<typeof insertDocumentAclSchema>;
+
+// Append-only audit log. Each entry's hash covers its own fields plus the
+// previous entry's hash, so editing or deleting any row breaks the chain.
+export const AuditAction = z.enum([
+  "VIEW",
+  "DOWNLOAD",
+  "CREATE",
+  "EDIT",
+  "SHARE",
+  "APPROVE",
+  "REJECT",
+  "DELETE",
+  "EXPORT"
+]);
+
+export type AuditAction = z.infer<typeof AuditAction>;
+
+export const auditLogEntries = pgTable("audit_log_entries", {
+  id: serial("id").primaryKey(),
+  sequence: integer("sequence").notNull().unique(),
+  organizationId: integer("organization_id"),
+  actorId: integer("actor_id"),
+  actorRole: text("actor_role"),
+  action: text("action").notNull(),
+  resourceType: text("resource_type").notNull(),
+  resourceId: text("resource_id"),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  details: jsonb("details").$type<Record<string, unknown>>().default({}),
+  previousHash: text("previous_hash").notNull(),
+  hash: text("hash").notNull().unique(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type AuditLogEntry = typeof auditLogEntries.$inferSelect;
+
 // Add workflow events table for tracking document processing stages
 export const workflowEvents = pgTable("workflow_events", {
   id: serial("id").primaryKey(),
   contractId: integer("contract_id").notNull(),
+  // VAULT_DOCUMENT for the document workflow orchestrator, DOCUMENT for
+  // contract lifecycle transitions
+  resourceType: text("resource_type").notNull().default("VAULT_DOCUMENT"),
+  actorId: integer("actor_id"),
   eventType: text("event_type").notNull(),
   details: jsonb("details").notNull(),
   timestamp: timestamp("timestamp").defaultNow(),
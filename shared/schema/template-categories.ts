@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { templateVariableSchema } from "../schema";
 
 // Define the template category enum
 export const TemplateCategoryEnum = z.enum([
@@ -19,12 +20,7 @@ export type TemplateCategory = z.infer<typeof TemplateCategoryEnum>;
 
 // Schema for template metadata
 export const templateMetadataSchema = z.object({
-  variables: z.array(z.object({
-    name: z.string(),
-    description: z.string(),
-    required: z.boolean(),
-    type: z.string()
-  })),
+  variables: z.array(templateVariableSchema),
   tags: z.array(z.string()),
   useCase: z.string(),
   complexity: z.enum(["LOW", "MEDIUM", "HIGH"]),